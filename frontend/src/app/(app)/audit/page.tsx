@@ -23,8 +23,17 @@ const SELECT_CLASS =
 const ENTITY_TYPE_OPTIONS: Array<{ value: AuditEntityType; label: string }> = [
   { value: "Project", label: "Project" },
   { value: "Estimate", label: "Estimate" },
+  { value: "EstimateApprovalPolicy", label: "Approval Policy" },
+  { value: "EstimateTemplate", label: "Estimate Template" },
   { value: "LineItem", label: "Line Item" },
   { value: "Formula", label: "Formula" },
+  { value: "LookupTable", label: "Lookup Table" },
+  { value: "PriceCatalogItem", label: "Price Catalog Item" },
+  { value: "Region", label: "Region" },
+  { value: "Category", label: "Category" },
+  { value: "Client", label: "Client" },
+  { value: "OrganizationBranding", label: "Organization Branding" },
+  { value: "EmailTemplate", label: "Email Template" },
   { value: "User", label: "User" },
 ];
 
@@ -0,0 +1,593 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  createClient,
+  deleteClient,
+  getClients,
+  updateClient,
+  type ClientContactPayload,
+  type ClientSummary,
+} from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+const PAGE_SIZE = 20;
+const MAX_CONTACTS = 20;
+const TEXTAREA_CLASS =
+  "min-h-20 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-sm text-[var(--color-text)]";
+
+type ContactFormRow = {
+  name: string;
+  title: string;
+  email: string;
+  phone: string;
+  isPrimary: boolean;
+};
+
+type ClientFormState = {
+  name: string;
+  tin: string;
+  billingAddress: string;
+  email: string;
+  phone: string;
+  notes: string;
+  contacts: ContactFormRow[];
+};
+
+function createEmptyForm(): ClientFormState {
+  return {
+    name: "",
+    tin: "",
+    billingAddress: "",
+    email: "",
+    phone: "",
+    notes: "",
+    contacts: [],
+  };
+}
+
+function toContactPayload(row: ContactFormRow): ClientContactPayload {
+  return {
+    name: row.name.trim(),
+    title: row.title.trim() || null,
+    email: row.email.trim() || null,
+    phone: row.phone.trim() || null,
+    isPrimary: row.isPrimary,
+  };
+}
+
+export default function ClientsPage() {
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [clients, setClients] = useState<ClientSummary[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [clientToEdit, setClientToEdit] = useState<ClientSummary | null>(null);
+  const [formState, setFormState] = useState<ClientFormState>(createEmptyForm);
+  const [formError, setFormError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [clientToDelete, setClientToDelete] = useState<ClientSummary | null>(null);
+  const [deleteError, setDeleteError] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+  const canEdit = useMemo(() => userRole === "ADMIN" || userRole === "ESTIMATOR", [userRole]);
+
+  const loadClients = useCallback(async (currentPage: number, currentSearch: string): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      const result = await getClients({
+        page: currentPage,
+        pageSize: PAGE_SIZE,
+        search: currentSearch || undefined,
+      });
+      setClients(result.items);
+      setTotalPages(result.pagination.totalPages);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load clients");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadClients(page, search);
+  }, [loadClients, page, search]);
+
+  function handleSearch(event: React.FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  }
+
+  function openCreateModal(): void {
+    setClientToEdit(null);
+    setFormState(createEmptyForm());
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function openEditModal(client: ClientSummary): void {
+    setClientToEdit(client);
+    setFormState({
+      name: client.name,
+      tin: client.tin ?? "",
+      billingAddress: client.billingAddress ?? "",
+      email: client.email ?? "",
+      phone: client.phone ?? "",
+      notes: client.notes ?? "",
+      contacts: client.contacts.map((contact) => ({
+        name: contact.name,
+        title: contact.title ?? "",
+        email: contact.email ?? "",
+        phone: contact.phone ?? "",
+        isPrimary: contact.isPrimary,
+      })),
+    });
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function closeFormModal(): void {
+    setIsFormOpen(false);
+    setClientToEdit(null);
+    setFormError("");
+  }
+
+  function updateContact(index: number, patch: Partial<ContactFormRow>): void {
+    setFormState((current) => ({
+      ...current,
+      contacts: current.contacts.map((contact, candidate) => {
+        if (candidate === index) {
+          return { ...contact, ...patch };
+        }
+
+        // Only one contact can be primary.
+        return patch.isPrimary ? { ...contact, isPrimary: false } : contact;
+      }),
+    }));
+  }
+
+  async function handleSaveClient(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setFormError("");
+
+    if (formState.contacts.some((contact) => !contact.name.trim())) {
+      setFormError("Every contact needs a name.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        name: formState.name.trim(),
+        tin: formState.tin.trim() || null,
+        billingAddress: formState.billingAddress.trim() || null,
+        email: formState.email.trim() || null,
+        phone: formState.phone.trim() || null,
+        notes: formState.notes.trim() || null,
+        contacts: formState.contacts.map(toContactPayload),
+      };
+
+      if (clientToEdit) {
+        const updated = await updateClient(clientToEdit.id, payload);
+        setNotice({ variant: "success", message: `Updated client ${updated.name}.` });
+      } else {
+        const created = await createClient(payload);
+        setNotice({ variant: "success", message: `Created client ${created.name}.` });
+      }
+
+      closeFormModal();
+      await loadClients(page, search);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save client");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeleteClient(): Promise<void> {
+    if (!clientToDelete) {
+      return;
+    }
+
+    setDeleteError("");
+    setIsDeleting(true);
+    try {
+      const result = await deleteClient(clientToDelete.id);
+      setNotice({
+        variant: "success",
+        message: `Deleted client ${clientToDelete.name}. ${result.unlinkedProjectCount} project(s) unlinked.`,
+      });
+      setClientToDelete(null);
+      await loadClients(page, search);
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : "Failed to delete client");
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Organization
+          </p>
+          <h1 className="text-3xl font-semibold">Clients</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Companies your quotations are addressed to, with their contact persons and billing details.
+          </p>
+        </div>
+        {canEdit ? <Button onClick={openCreateModal}>New Client</Button> : null}
+      </div>
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      <form className="flex max-w-xl items-end gap-2" onSubmit={handleSearch}>
+        <div className="flex-1">
+          <Label htmlFor="client-search">Search</Label>
+          <Input
+            id="client-search"
+            value={searchInput}
+            onChange={(event) => setSearchInput(event.target.value)}
+            placeholder="Company, TIN, contact name, or email"
+          />
+        </div>
+        <Button type="submit" variant="secondary">
+          Search
+        </Button>
+      </form>
+
+      <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Loading clients...</span>
+          </div>
+        ) : clients.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <p className="text-base font-medium">{search ? "No clients match your search." : "No clients yet."}</p>
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              Link projects to a client to address their quotations.
+            </p>
+          </div>
+        ) : (
+          <table role="table" className="w-full text-sm">
+            <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+              <tr>
+                <th scope="col" className="px-4 py-3 font-medium">Client</th>
+                <th scope="col" className="px-4 py-3 font-medium">Primary Contact</th>
+                <th scope="col" className="px-4 py-3 font-medium">Email / Phone</th>
+                <th scope="col" className="px-4 py-3 font-medium">TIN</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Projects</th>
+                {canEdit ? <th scope="col" className="px-4 py-3 text-right font-medium">Actions</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {clients.map((client) => {
+                const primaryContact = client.contacts.find((contact) => contact.isPrimary) ?? client.contacts[0];
+                return (
+                  <tr key={client.id} className="border-t border-[var(--color-border)]">
+                    <td className="px-4 py-3">
+                      <p className="font-medium">{client.name}</p>
+                      {client.billingAddress ? (
+                        <p className="whitespace-pre-line text-xs text-[var(--color-text-muted)]">
+                          {client.billingAddress}
+                        </p>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3">
+                      {primaryContact ? (
+                        <>
+                          <p>{primaryContact.name}</p>
+                          <p className="text-xs text-[var(--color-text-muted)]">
+                            {[primaryContact.title, primaryContact.email].filter(Boolean).join(" · ")}
+                          </p>
+                        </>
+                      ) : (
+                        "—"
+                      )}
+                      {client.contacts.length > 1 ? (
+                        <Badge variant="neutral">+{client.contacts.length - 1} more</Badge>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p>{client.email ?? "—"}</p>
+                      {client.phone ? <p className="text-xs text-[var(--color-text-muted)]">{client.phone}</p> : null}
+                    </td>
+                    <td className="px-4 py-3">{client.tin ?? "—"}</td>
+                    <td className="px-4 py-3 text-right">{client.projectCount}</td>
+                    {canEdit ? (
+                      <td className="px-4 py-3 text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" className="h-8 px-2 text-xs" onClick={() => openEditModal(client)}>
+                            Edit
+                          </Button>
+                          {isAdmin ? (
+                            <Button
+                              variant="ghost"
+                              className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                              onClick={() => {
+                                setDeleteError("");
+                                setClientToDelete(client);
+                              }}
+                            >
+                              Delete
+                            </Button>
+                          ) : null}
+                        </div>
+                      </td>
+                    ) : null}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="secondary" disabled={page <= 1} onClick={() => setPage((current) => current - 1)}>
+          Previous
+        </Button>
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Page {page} {totalPages > 0 ? `of ${totalPages}` : ""}
+        </p>
+        <Button
+          variant="secondary"
+          disabled={totalPages === 0 || page >= totalPages}
+          onClick={() => setPage((current) => current + 1)}
+        >
+          Next
+        </Button>
+      </div>
+
+      <Modal
+        isOpen={isFormOpen}
+        title={clientToEdit ? "Edit Client" : "New Client"}
+        className="max-w-3xl"
+        onClose={() => {
+          if (!isSaving) {
+            closeFormModal();
+          }
+        }}
+      >
+        <form className="max-h-[75vh] space-y-4 overflow-y-auto pr-1" onSubmit={handleSaveClient}>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="client-name">Company Name</Label>
+              <Input
+                id="client-name"
+                value={formState.name}
+                onChange={(event) => setFormState((current) => ({ ...current, name: event.target.value }))}
+                required
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="client-tin">TIN</Label>
+              <Input
+                id="client-tin"
+                value={formState.tin}
+                onChange={(event) => setFormState((current) => ({ ...current, tin: event.target.value }))}
+                placeholder="000-000-000-000"
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="client-email">Email</Label>
+              <Input
+                id="client-email"
+                type="email"
+                value={formState.email}
+                onChange={(event) => setFormState((current) => ({ ...current, email: event.target.value }))}
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="client-phone">Phone</Label>
+              <Input
+                id="client-phone"
+                value={formState.phone}
+                onChange={(event) => setFormState((current) => ({ ...current, phone: event.target.value }))}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="client-billing-address">Billing Address</Label>
+            <textarea
+              id="client-billing-address"
+              className={TEXTAREA_CLASS}
+              value={formState.billingAddress}
+              onChange={(event) => setFormState((current) => ({ ...current, billingAddress: event.target.value }))}
+              disabled={isSaving}
+            />
+          </div>
+          <div>
+            <Label htmlFor="client-notes">Notes</Label>
+            <textarea
+              id="client-notes"
+              className={TEXTAREA_CLASS}
+              value={formState.notes}
+              onChange={(event) => setFormState((current) => ({ ...current, notes: event.target.value }))}
+              placeholder="Internal notes, not shown on quotations"
+              disabled={isSaving}
+            />
+          </div>
+
+          <fieldset className="space-y-2" aria-label="Contact persons" disabled={isSaving}>
+            <p className="text-sm font-semibold">Contact Persons</p>
+            <p className="text-xs text-[var(--color-text-muted)]">
+              Quotations are addressed to the primary contact, or to the first one listed.
+            </p>
+            {formState.contacts.map((contact, index) => (
+              <div
+                key={index}
+                className="grid gap-2 rounded-md border border-[var(--color-border)] p-3 sm:grid-cols-2"
+              >
+                <div>
+                  <Label htmlFor={`client-contact-${index}-name`}>Name</Label>
+                  <Input
+                    id={`client-contact-${index}-name`}
+                    value={contact.name}
+                    onChange={(event) => updateContact(index, { name: event.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`client-contact-${index}-title`}>Title</Label>
+                  <Input
+                    id={`client-contact-${index}-title`}
+                    value={contact.title}
+                    onChange={(event) => updateContact(index, { title: event.target.value })}
+                    placeholder="e.g. Purchasing Manager"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`client-contact-${index}-email`}>Email</Label>
+                  <Input
+                    id={`client-contact-${index}-email`}
+                    type="email"
+                    value={contact.email}
+                    onChange={(event) => updateContact(index, { email: event.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`client-contact-${index}-phone`}>Phone</Label>
+                  <Input
+                    id={`client-contact-${index}-phone`}
+                    value={contact.phone}
+                    onChange={(event) => updateContact(index, { phone: event.target.value })}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-2 sm:col-span-2">
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={contact.isPrimary}
+                      onChange={(event) => updateContact(index, { isPrimary: event.target.checked })}
+                    />
+                    Primary contact
+                  </label>
+                  <Button
+                    variant="ghost"
+                    className="h-8 px-2 text-xs"
+                    onClick={() =>
+                      setFormState((current) => ({
+                        ...current,
+                        contacts: current.contacts.filter((_, candidate) => candidate !== index),
+                      }))
+                    }
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="secondary"
+              onClick={() =>
+                setFormState((current) => ({
+                  ...current,
+                  contacts: [
+                    ...current.contacts,
+                    { name: "", title: "", email: "", phone: "", isPrimary: current.contacts.length === 0 },
+                  ],
+                }))
+              }
+              disabled={formState.contacts.length >= MAX_CONTACTS}
+            >
+              Add Contact
+            </Button>
+          </fieldset>
+
+          {formError ? (
+            <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+              {formError}
+            </p>
+          ) : null}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={closeFormModal} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Client"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={clientToDelete !== null}
+        title="Delete Client"
+        onClose={() => {
+          if (!isDeleting) {
+            setClientToDelete(null);
+            setDeleteError("");
+          }
+        }}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Delete <strong>{clientToDelete?.name}</strong> and its contacts? Linked projects are kept and left without a
+          client.
+        </p>
+        {deleteError ? (
+          <p role="alert" className="mt-4 text-sm text-rose-600 dark:text-rose-300">
+            {deleteError}
+          </p>
+        ) : null}
+        <div className="mt-4 flex justify-end gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => {
+              setClientToDelete(null);
+              setDeleteError("");
+            }}
+            disabled={isDeleting}
+          >
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDeleteClient} disabled={isDeleting}>
+            {isDeleting ? "Deleting..." : "Delete"}
+          </Button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
@@ -0,0 +1,469 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  createLookupTable,
+  deleteLookupTable,
+  getLookupTables,
+  updateLookupTable,
+  type LookupTable,
+  type LookupTableEntry,
+  type LookupTableMatchMode,
+} from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { formatDate } from "@/lib/format";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+const PAGE_SIZE = 20;
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+const TEXTAREA_CLASS =
+  "min-h-40 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 font-mono text-sm text-[var(--color-text)]";
+const MATCH_MODE_OPTIONS: Array<{ label: string; value: LookupTableMatchMode }> = [
+  { label: "Exact key", value: "EXACT" },
+  { label: "Range (largest key not above value)", value: "RANGE" },
+];
+
+type LookupTableFormState = {
+  name: string;
+  description: string;
+  keyUnit: string;
+  valueUnit: string;
+  matchMode: LookupTableMatchMode;
+  entriesText: string;
+};
+
+const EMPTY_FORM: LookupTableFormState = {
+  name: "",
+  description: "",
+  keyUnit: "",
+  valueUnit: "",
+  matchMode: "EXACT",
+  entriesText: "",
+};
+
+function formatEntries(entries: LookupTableEntry[]): string {
+  return entries.map((entry) => `${entry.key}, ${entry.value}`).join("\n");
+}
+
+function parseEntries(entriesText: string): LookupTableEntry[] {
+  const lines = entriesText
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  if (lines.length === 0) {
+    throw new Error("Add at least one entry.");
+  }
+
+  return lines.map((line, index) => {
+    const parts = line.split(",").map((part) => part.trim());
+    const key = Number(parts[0]);
+    const value = Number(parts[1]);
+
+    if (parts.length !== 2 || parts[0] === "" || parts[1] === "" || !Number.isFinite(key) || !Number.isFinite(value)) {
+      throw new Error(`Entry line ${index + 1} must be "key, value" with numeric values.`);
+    }
+
+    return { key, value };
+  });
+}
+
+export default function LookupTablesPage() {
+  const router = useRouter();
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [lookupTables, setLookupTables] = useState<LookupTable[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [lookupTableToEdit, setLookupTableToEdit] = useState<LookupTable | null>(null);
+  const [formState, setFormState] = useState<LookupTableFormState>(EMPTY_FORM);
+  const [formError, setFormError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [lookupTableToDelete, setLookupTableToDelete] = useState<LookupTable | null>(null);
+  const [deleteError, setDeleteError] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+
+  const loadLookupTables = useCallback(async (currentPage: number): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      const result = await getLookupTables({ page: currentPage, pageSize: PAGE_SIZE });
+      setLookupTables(result.items);
+      setTotalPages(result.pagination.totalPages);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load lookup tables");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadLookupTables(page);
+  }, [loadLookupTables, page]);
+
+  function openCreateModal(): void {
+    setLookupTableToEdit(null);
+    setFormState(EMPTY_FORM);
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function openEditModal(lookupTable: LookupTable): void {
+    setLookupTableToEdit(lookupTable);
+    setFormState({
+      name: lookupTable.name,
+      description: lookupTable.description,
+      keyUnit: lookupTable.keyUnit,
+      valueUnit: lookupTable.valueUnit,
+      matchMode: lookupTable.matchMode,
+      entriesText: formatEntries(lookupTable.entries),
+    });
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function closeFormModal(): void {
+    setIsFormOpen(false);
+    setLookupTableToEdit(null);
+    setFormError("");
+  }
+
+  async function handleSaveLookupTable(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setFormError("");
+
+    let entries: LookupTableEntry[];
+    try {
+      entries = parseEntries(formState.entriesText);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Invalid entries");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        description: formState.description.trim(),
+        keyUnit: formState.keyUnit.trim(),
+        valueUnit: formState.valueUnit.trim(),
+        matchMode: formState.matchMode,
+        entries,
+      };
+
+      if (lookupTableToEdit) {
+        const updated = await updateLookupTable(lookupTableToEdit.id, payload);
+        setNotice({ variant: "success", message: `Updated lookup table ${updated.name}.` });
+      } else {
+        const created = await createLookupTable({ ...payload, name: formState.name.trim() });
+        setNotice({ variant: "success", message: `Created lookup table ${created.name}.` });
+      }
+
+      closeFormModal();
+      await loadLookupTables(page);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save lookup table");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeleteLookupTable(): Promise<void> {
+    if (!lookupTableToDelete) {
+      return;
+    }
+
+    setDeleteError("");
+    setIsDeleting(true);
+    try {
+      await deleteLookupTable(lookupTableToDelete.id);
+      setNotice({ variant: "success", message: `Deleted lookup table ${lookupTableToDelete.name}.` });
+      setLookupTableToDelete(null);
+      await loadLookupTables(page);
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : "Failed to delete lookup table");
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Formula Library
+          </p>
+          <h1 className="text-3xl font-semibold">Lookup Tables</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Reference tables used in formula expressions, e.g. <code>lookup(&quot;rebar_weights&quot;, diameter)</code>.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => router.push("/formulas")}>
+            Back to Formulas
+          </Button>
+          {isAdmin ? <Button onClick={openCreateModal}>New Lookup Table</Button> : null}
+        </div>
+      </div>
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Loading lookup tables...</span>
+          </div>
+        ) : lookupTables.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <p className="text-base font-medium">No lookup tables yet.</p>
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              Lookup tables such as rebar unit weights by diameter will appear here.
+            </p>
+          </div>
+        ) : (
+          <table role="table" className="w-full text-sm">
+            <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+              <tr>
+                <th scope="col" className="px-4 py-3 font-medium">Name</th>
+                <th scope="col" className="px-4 py-3 font-medium">Description</th>
+                <th scope="col" className="px-4 py-3 font-medium">Key → Value</th>
+                <th scope="col" className="px-4 py-3 font-medium">Match</th>
+                <th scope="col" className="px-4 py-3 font-medium">Entries</th>
+                <th scope="col" className="px-4 py-3 font-medium">Updated</th>
+                {isAdmin ? <th scope="col" className="px-4 py-3 text-right font-medium">Actions</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {lookupTables.map((lookupTable) => (
+                <tr key={lookupTable.id} className="border-t border-[var(--color-border)]">
+                  <td className="px-4 py-3 font-mono">{lookupTable.name}</td>
+                  <td className="px-4 py-3">{lookupTable.description}</td>
+                  <td className="px-4 py-3">
+                    {lookupTable.keyUnit} → {lookupTable.valueUnit}
+                  </td>
+                  <td className="px-4 py-3">
+                    <Badge variant="neutral">{lookupTable.matchMode === "RANGE" ? "Range" : "Exact"}</Badge>
+                  </td>
+                  <td className="px-4 py-3">{lookupTable.entries.length}</td>
+                  <td className="px-4 py-3">{formatDate(lookupTable.updatedAt)}</td>
+                  {isAdmin ? (
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          className="h-8 px-2 text-xs"
+                          onClick={() => openEditModal(lookupTable)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                          onClick={() => {
+                            setDeleteError("");
+                            setLookupTableToDelete(lookupTable);
+                          }}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="secondary" disabled={page <= 1} onClick={() => setPage((current) => current - 1)}>
+          Previous
+        </Button>
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Page {page} {totalPages > 0 ? `of ${totalPages}` : ""}
+        </p>
+        <Button
+          variant="secondary"
+          disabled={totalPages === 0 || page >= totalPages}
+          onClick={() => setPage((current) => current + 1)}
+        >
+          Next
+        </Button>
+      </div>
+
+      <Modal
+        isOpen={isFormOpen}
+        title={lookupTableToEdit ? "Edit Lookup Table" : "New Lookup Table"}
+        onClose={() => {
+          if (!isSaving) {
+            closeFormModal();
+          }
+        }}
+      >
+        <form className="space-y-4" onSubmit={handleSaveLookupTable}>
+          <div>
+            <Label htmlFor="lookup-table-name">Name</Label>
+            <Input
+              id="lookup-table-name"
+              value={formState.name}
+              onChange={(event) => setFormState((current) => ({ ...current, name: event.target.value }))}
+              placeholder="rebar_weights"
+              required
+              disabled={isSaving || lookupTableToEdit !== null}
+            />
+          </div>
+          <div>
+            <Label htmlFor="lookup-table-description">Description</Label>
+            <Input
+              id="lookup-table-description"
+              value={formState.description}
+              onChange={(event) => setFormState((current) => ({ ...current, description: event.target.value }))}
+              placeholder="Rebar unit weight by bar diameter"
+              required
+              disabled={isSaving}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="lookup-table-key-unit">Key Unit</Label>
+              <Input
+                id="lookup-table-key-unit"
+                value={formState.keyUnit}
+                onChange={(event) => setFormState((current) => ({ ...current, keyUnit: event.target.value }))}
+                placeholder="mm"
+                required
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="lookup-table-value-unit">Value Unit</Label>
+              <Input
+                id="lookup-table-value-unit"
+                value={formState.valueUnit}
+                onChange={(event) => setFormState((current) => ({ ...current, valueUnit: event.target.value }))}
+                placeholder="kg/m"
+                required
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="lookup-table-match-mode">Match Mode</Label>
+            <select
+              id="lookup-table-match-mode"
+              className={SELECT_CLASS}
+              value={formState.matchMode}
+              onChange={(event) =>
+                setFormState((current) => ({ ...current, matchMode: event.target.value as LookupTableMatchMode }))
+              }
+              disabled={isSaving}
+            >
+              {MATCH_MODE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="lookup-table-entries">Entries</Label>
+            <textarea
+              id="lookup-table-entries"
+              className={TEXTAREA_CLASS}
+              value={formState.entriesText}
+              onChange={(event) => setFormState((current) => ({ ...current, entriesText: event.target.value }))}
+              placeholder={"10, 0.617\n12, 0.888\n16, 1.578"}
+              disabled={isSaving}
+            />
+            <p className="mt-1 text-xs text-[var(--color-text-muted)]">One &quot;key, value&quot; pair per line.</p>
+          </div>
+
+          {formError ? (
+            <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+              {formError}
+            </p>
+          ) : null}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={closeFormModal} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Lookup Table"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={lookupTableToDelete !== null}
+        title="Delete Lookup Table"
+        onClose={() => {
+          if (!isDeleting) {
+            setLookupTableToDelete(null);
+            setDeleteError("");
+          }
+        }}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Delete <strong>{lookupTableToDelete?.name}</strong>? Tables referenced by active formulas cannot be deleted.
+        </p>
+        {deleteError ? (
+          <p role="alert" className="mt-4 text-sm text-rose-600 dark:text-rose-300">
+            {deleteError}
+          </p>
+        ) : null}
+        <div className="mt-4 flex justify-end gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => {
+              setLookupTableToDelete(null);
+              setDeleteError("");
+            }}
+            disabled={isDeleting}
+          >
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDeleteLookupTable} disabled={isDeleting}>
+            {isDeleting ? "Deleting..." : "Delete"}
+          </Button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
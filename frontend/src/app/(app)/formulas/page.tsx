@@ -4,6 +4,7 @@ import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   deactivateFormula,
+  getCategories,
   getFormulas,
   getFormulaVersions,
   type FormulaSummary,
@@ -30,6 +31,7 @@ export default function FormulaLibraryPage() {
   const [userRole, setUserRole] = useState("VIEWER");
 
   const [formulas, setFormulas] = useState<FormulaSummary[]>([]);
+  const [categoryNames, setCategoryNames] = useState<Map<string, string>>(new Map());
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
@@ -47,6 +49,7 @@ export default function FormulaLibraryPage() {
   }, []);
 
   const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+  const canEditEstimates = useMemo(() => userRole === "ADMIN" || userRole === "ESTIMATOR", [userRole]);
 
   const loadFormulas = useCallback(async (currentPage: number): Promise<void> => {
     setIsLoading(true);
@@ -67,6 +70,19 @@ export default function FormulaLibraryPage() {
     void loadFormulas(page);
   }, [loadFormulas, page]);
 
+  useEffect(() => {
+    async function loadCategoryNames(): Promise<void> {
+      try {
+        const result = await getCategories();
+        setCategoryNames(new Map(result.items.map((category) => [category.code, category.name])));
+      } catch {
+        // Category codes are still shown when names cannot be loaded.
+      }
+    }
+
+    void loadCategoryNames();
+  }, []);
+
   async function toggleVersionHistory(formula: FormulaSummary): Promise<void> {
     if (expandedFormulaId === formula.id) {
       setExpandedFormulaId(null);
@@ -122,7 +138,17 @@ export default function FormulaLibraryPage() {
             Browse formula definitions, inspect version history, and manage activation status.
           </p>
         </div>
-        {isAdmin ? <Button onClick={() => router.push("/formulas/new")}>New Formula</Button> : null}
+        <div className="flex gap-2">
+          {canEditEstimates ? (
+            <Button variant="secondary" onClick={() => router.push("/formulas/updates")}>
+              Formula Updates
+            </Button>
+          ) : null}
+          <Button variant="secondary" onClick={() => router.push("/formulas/lookup-tables")}>
+            Lookup Tables
+          </Button>
+          {isAdmin ? <Button onClick={() => router.push("/formulas/new")}>New Formula</Button> : null}
+        </div>
       </div>
 
       {errorMessage ? (
@@ -165,7 +191,7 @@ export default function FormulaLibraryPage() {
                       <p className="font-medium">{formula.name}</p>
                       <p className="text-xs text-[var(--color-text-muted)]">{formula.description}</p>
                     </td>
-                    <td className="px-4 py-3">{formatCategoryLabel(formula.category)}</td>
+                    <td className="px-4 py-3">{categoryNames.get(formula.category) ?? formatCategoryLabel(formula.category)}</td>
                     <td className="px-4 py-3">v{formula.currentVersion}</td>
                     <td className="px-4 py-3">
                       <Badge variant={formula.isActive ? "success" : "warning"}>
@@ -0,0 +1,346 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { applyFormulaUpgrades, getOutdatedComputations, type OutdatedComputation } from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+
+function formatQuantity(value: string | number): string {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(value);
+  if (!Number.isFinite(parsed)) {
+    return `${value}`;
+  }
+
+  return new Intl.NumberFormat("en-PH", {
+    maximumFractionDigits: 4,
+  }).format(parsed);
+}
+
+function formatDelta(value: number): string {
+  return `${value > 0 ? "+" : ""}${formatQuantity(value)}`;
+}
+
+function formatEstimateLabel(item: OutdatedComputation): string {
+  return item.estimate.label
+    ? `v${item.estimate.versionNumber} · ${item.estimate.label}`
+    : `v${item.estimate.versionNumber}`;
+}
+
+export default function FormulaUpdatesPage() {
+  const router = useRouter();
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [items, setItems] = useState<OutdatedComputation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+  const [formulaFilter, setFormulaFilter] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [applyError, setApplyError] = useState("");
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const canApply = useMemo(() => userRole === "ADMIN" || userRole === "ESTIMATOR", [userRole]);
+
+  const loadItems = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      const result = await getOutdatedComputations();
+      setItems(result.items);
+      setSelectedIds(new Set());
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load formula updates");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadItems();
+  }, [loadItems]);
+
+  const formulaOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    for (const item of items) {
+      options.set(item.latestFormula.id, `${item.latestFormula.name} (v${item.latestFormula.version})`);
+    }
+
+    return Array.from(options.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [items]);
+
+  const visibleItems = useMemo(() => {
+    return formulaFilter ? items.filter((item) => item.latestFormula.id === formulaFilter) : items;
+  }, [formulaFilter, items]);
+
+  const applicableVisibleIds = useMemo(() => {
+    return visibleItems.filter((item) => item.error === null).map((item) => item.lineItemId);
+  }, [visibleItems]);
+
+  const areAllVisibleSelected =
+    applicableVisibleIds.length > 0 && applicableVisibleIds.every((lineItemId) => selectedIds.has(lineItemId));
+
+  // Line items computed together are upgraded together, so selecting one selects its whole group.
+  function toggleSelected(item: OutdatedComputation, checked: boolean): void {
+    const lineItemIds = item.groupId
+      ? items.filter((other) => other.groupId === item.groupId).map((other) => other.lineItemId)
+      : [item.lineItemId];
+
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      for (const lineItemId of lineItemIds) {
+        if (checked) {
+          next.add(lineItemId);
+        } else {
+          next.delete(lineItemId);
+        }
+      }
+
+      return next;
+    });
+  }
+
+  function toggleAllVisible(checked: boolean): void {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      for (const lineItemId of applicableVisibleIds) {
+        if (checked) {
+          next.add(lineItemId);
+        } else {
+          next.delete(lineItemId);
+        }
+      }
+
+      return next;
+    });
+  }
+
+  async function handleApplyUpgrades(): Promise<void> {
+    setApplyError("");
+    setIsApplying(true);
+    try {
+      const result = await applyFormulaUpgrades({ lineItemIds: Array.from(selectedIds) });
+      setIsConfirmOpen(false);
+      setNotice({
+        variant: "success",
+        message: `Upgraded ${result.items.length} line item(s) across ${result.estimates.length} estimate(s).`,
+      });
+      await loadItems();
+    } catch (error) {
+      setApplyError(error instanceof Error ? error.message : "Failed to apply formula upgrades");
+    } finally {
+      setIsApplying(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Formula Library
+          </p>
+          <h1 className="text-3xl font-semibold">Formula Updates</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Computed line items in draft estimates that still use an older formula version, recomputed with their
+            recorded inputs.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => router.push("/formulas")}>
+            Back to Formulas
+          </Button>
+          {canApply ? (
+            <Button
+              onClick={() => {
+                setApplyError("");
+                setIsConfirmOpen(true);
+              }}
+              disabled={selectedIds.size === 0}
+            >
+              Apply Upgrade ({selectedIds.size})
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      {formulaOptions.length > 1 ? (
+        <div className="max-w-sm">
+          <Label htmlFor="formula-updates-filter">Formula</Label>
+          <select
+            id="formula-updates-filter"
+            className={SELECT_CLASS}
+            value={formulaFilter}
+            onChange={(event) => setFormulaFilter(event.target.value)}
+          >
+            <option value="">All formulas</option>
+            {formulaOptions.map(([formulaId, label]) => (
+              <option key={formulaId} value={formulaId}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : null}
+
+      <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Checking draft estimates...</span>
+          </div>
+        ) : visibleItems.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <p className="text-base font-medium">All computed line items are up to date.</p>
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              Line items appear here when a formula they were computed with gets a new version.
+            </p>
+          </div>
+        ) : (
+          <table role="table" className="w-full text-sm">
+            <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+              <tr>
+                {canApply ? (
+                  <th scope="col" className="w-10 px-4 py-3">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all applicable line items"
+                      checked={areAllVisibleSelected}
+                      onChange={(event) => toggleAllVisible(event.target.checked)}
+                      disabled={applicableVisibleIds.length === 0}
+                    />
+                  </th>
+                ) : null}
+                <th scope="col" className="px-4 py-3 font-medium">Estimate</th>
+                <th scope="col" className="px-4 py-3 font-medium">Line Item</th>
+                <th scope="col" className="px-4 py-3 font-medium">Formula</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Current</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">New</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Delta</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleItems.map((item) => (
+                <tr key={item.lineItemId} className="border-t border-[var(--color-border)]">
+                  {canApply ? (
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${item.description}`}
+                        checked={selectedIds.has(item.lineItemId)}
+                        onChange={(event) => toggleSelected(item, event.target.checked)}
+                        disabled={item.error !== null}
+                      />
+                    </td>
+                  ) : null}
+                  <td className="px-4 py-3">
+                    <Link
+                      href={`/projects/${item.estimate.project.id}/estimates/${item.estimate.id}`}
+                      className="font-medium text-[var(--color-accent-strong)] hover:underline"
+                    >
+                      {item.estimate.project.name}
+                    </Link>
+                    <p className="text-xs text-[var(--color-text-muted)]">{formatEstimateLabel(item)}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <p>{item.description}</p>
+                    {item.outputVariable ? (
+                      <p className="font-mono text-xs text-[var(--color-text-muted)]">{item.outputVariable}</p>
+                    ) : null}
+                  </td>
+                  <td className="px-4 py-3">
+                    <p>{item.latestFormula.name}</p>
+                    <p className="text-xs text-[var(--color-text-muted)]">
+                      v{item.currentFormula.version} → v{item.latestFormula.version}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatQuantity(item.currentQuantity)} {item.unit}
+                  </td>
+                  {item.error ? (
+                    <td colSpan={2} className="px-4 py-3 text-right">
+                      <Badge variant="danger">{item.error.code}</Badge>
+                      <p className="mt-1 text-xs text-[var(--color-text-muted)]">{item.error.message}</p>
+                    </td>
+                  ) : (
+                    <>
+                      <td className="px-4 py-3 text-right">
+                        {formatQuantity(item.proposedQuantity ?? 0)} {item.unit}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <Badge
+                          variant={
+                            item.quantityDelta === 0 ? "neutral" : (item.quantityDelta ?? 0) > 0 ? "warning" : "success"
+                          }
+                        >
+                          {formatDelta(item.quantityDelta ?? 0)}
+                        </Badge>
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Modal
+        isOpen={isConfirmOpen}
+        title="Apply Formula Upgrade"
+        onClose={() => {
+          if (!isApplying) {
+            setIsConfirmOpen(false);
+          }
+        }}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Recompute {selectedIds.size} line item(s) with the latest formula versions? Quantities and estimate totals
+          will be updated and each change is recorded in the audit log.
+        </p>
+        {applyError ? (
+          <p role="alert" className="mt-3 text-sm text-rose-600 dark:text-rose-300">
+            {applyError}
+          </p>
+        ) : null}
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="secondary" onClick={() => setIsConfirmOpen(false)} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApplyUpgrades} disabled={isApplying || selectedIds.size === 0}>
+            {isApplying ? "Applying..." : "Apply Upgrade"}
+          </Button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
@@ -5,9 +5,13 @@ import { useRouter } from "next/navigation";
 import {
   archiveProject,
   createProject,
+  getClients,
   getProjects,
+  getRegions,
+  type ClientSummary,
   type ProjectStatus,
   type ProjectSummary,
+  type Region,
 } from "@/lib/api";
 import { readAuthUser } from "@/lib/auth";
 import { formatDate } from "@/lib/format";
@@ -28,12 +32,16 @@ type ProjectFormState = {
   name: string;
   location: string;
   projectType: string;
+  regionId: string;
+  clientId: string;
 };
 
 const INITIAL_PROJECT_FORM: ProjectFormState = {
   name: "",
   location: "",
   projectType: "",
+  regionId: "",
+  clientId: "",
 };
 
 export default function DashboardPage() {
@@ -41,6 +49,8 @@ export default function DashboardPage() {
   const [projects, setProjects] = useState<ProjectSummary[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("ALL");
+  const [clientFilter, setClientFilter] = useState("");
+  const [clients, setClients] = useState<ClientSummary[]>([]);
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
@@ -48,6 +58,7 @@ export default function DashboardPage() {
   const [userRole, setUserRole] = useState("VIEWER");
 
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [regions, setRegions] = useState<Region[]>([]);
   const [projectForm, setProjectForm] = useState<ProjectFormState>(INITIAL_PROJECT_FORM);
   const [isCreating, setIsCreating] = useState(false);
   const [createError, setCreateError] = useState("");
@@ -59,6 +70,54 @@ export default function DashboardPage() {
     setUserRole(readAuthUser()?.role ?? "VIEWER");
   }, []);
 
+  useEffect(() => {
+    let active = true;
+
+    async function loadClients(): Promise<void> {
+      try {
+        const result = await getClients({ pageSize: 100 });
+        if (active) {
+          setClients(result.items);
+        }
+      } catch {
+        // The client filter and picker stay empty; projects still load without them.
+      }
+    }
+
+    void loadClients();
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isCreateModalOpen) {
+      return;
+    }
+
+    let active = true;
+
+    async function loadRegions(): Promise<void> {
+      try {
+        const result = await getRegions();
+        if (active) {
+          setRegions(result.items);
+        }
+      } catch (error) {
+        if (active) {
+          setCreateError(error instanceof Error ? error.message : "Failed to load regions");
+        }
+      }
+    }
+
+    void loadRegions();
+
+    return () => {
+      active = false;
+    };
+  }, [isCreateModalOpen]);
+
   useEffect(() => {
     let active = true;
 
@@ -71,6 +130,7 @@ export default function DashboardPage() {
           page,
           pageSize: PAGE_SIZE,
           ...(statusFilter !== "ALL" ? { status: statusFilter } : {}),
+          ...(clientFilter ? { clientId: clientFilter } : {}),
         });
 
         if (!active) {
@@ -97,7 +157,7 @@ export default function DashboardPage() {
     return () => {
       active = false;
     };
-  }, [page, statusFilter]);
+  }, [page, statusFilter, clientFilter]);
 
   const visibleProjects = useMemo(() => {
     const query = searchTerm.trim().toLowerCase();
@@ -126,6 +186,8 @@ export default function DashboardPage() {
         name: projectForm.name.trim(),
         location: projectForm.location.trim(),
         projectType: projectForm.projectType.trim(),
+        regionId: projectForm.regionId || null,
+        clientId: projectForm.clientId || null,
       });
 
       setIsCreateModalOpen(false);
@@ -135,6 +197,7 @@ export default function DashboardPage() {
         page: 1,
         pageSize: PAGE_SIZE,
         ...(statusFilter !== "ALL" ? { status: statusFilter } : {}),
+        ...(clientFilter ? { clientId: clientFilter } : {}),
       });
       setProjects(result.items);
       setTotalPages(result.pagination.totalPages);
@@ -158,6 +221,7 @@ export default function DashboardPage() {
         page,
         pageSize: PAGE_SIZE,
         ...(statusFilter !== "ALL" ? { status: statusFilter } : {}),
+        ...(clientFilter ? { clientId: clientFilter } : {}),
       });
       setProjects(result.items);
       setTotalPages(result.pagination.totalPages);
@@ -192,7 +256,7 @@ export default function DashboardPage() {
         ) : null}
       </div>
 
-      <div className="grid gap-3 md:grid-cols-[1fr_220px]">
+      <div className="grid gap-3 md:grid-cols-[1fr_220px_220px]">
         <Input
           value={searchTerm}
           onChange={(event) => setSearchTerm(event.target.value)}
@@ -212,6 +276,22 @@ export default function DashboardPage() {
           <option value="ACTIVE">Active</option>
           <option value="ARCHIVED">Archived</option>
         </select>
+        <select
+          className={SELECT_CLASS}
+          aria-label="Filter projects by client"
+          value={clientFilter}
+          onChange={(event) => {
+            setClientFilter(event.target.value);
+            setPage(1);
+          }}
+        >
+          <option value="">All clients</option>
+          {clients.map((client) => (
+            <option key={client.id} value={client.id}>
+              {client.name}
+            </option>
+          ))}
+        </select>
       </div>
 
       {errorMessage ? (
@@ -242,6 +322,7 @@ export default function DashboardPage() {
             <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
               <tr>
                 <th scope="col" className="px-4 py-3 font-medium">Project</th>
+                <th scope="col" className="px-4 py-3 font-medium">Client</th>
                 <th scope="col" className="px-4 py-3 font-medium">Type</th>
                 <th scope="col" className="px-4 py-3 font-medium">Status</th>
                 <th scope="col" className="px-4 py-3 font-medium">Updated</th>
@@ -262,8 +343,12 @@ export default function DashboardPage() {
                 >
                   <td className="px-4 py-3">
                     <p className="font-medium">{project.name}</p>
-                    <p className="text-xs text-[var(--color-text-muted)]">{project.location}</p>
+                    <p className="text-xs text-[var(--color-text-muted)]">
+                      {project.location}
+                      {project.region ? ` · ${project.region.name}` : ""}
+                    </p>
                   </td>
+                  <td className="px-4 py-3">{project.client?.name ?? "—"}</td>
                   <td className="px-4 py-3">{project.projectType}</td>
                   <td className="px-4 py-3">
                     <Badge variant={project.status === "ACTIVE" ? "success" : "neutral"}>
@@ -341,6 +426,38 @@ export default function DashboardPage() {
               placeholder="Residential, Commercial, Industrial"
             />
           </div>
+          <div>
+            <Label htmlFor="projectRegion">Region</Label>
+            <select
+              id="projectRegion"
+              className={SELECT_CLASS}
+              value={projectForm.regionId}
+              onChange={(event) => setProjectForm((current) => ({ ...current, regionId: event.target.value }))}
+            >
+              <option value="">No region (base prices)</option>
+              {regions.map((region) => (
+                <option key={region.id} value={region.id}>
+                  {region.name} (materials ×{region.materialFactor}, labor ×{region.laborFactor})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="projectClient">Client</Label>
+            <select
+              id="projectClient"
+              className={SELECT_CLASS}
+              value={projectForm.clientId}
+              onChange={(event) => setProjectForm((current) => ({ ...current, clientId: event.target.value }))}
+            >
+              <option value="">No client</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>
+                  {client.name}
+                </option>
+              ))}
+            </select>
+          </div>
           {createError ? (
             <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
               {createError}
@@ -0,0 +1,589 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  createPriceCatalogItem,
+  deletePriceCatalogItem,
+  getPriceCatalogItems,
+  getStalePriceLineItems,
+  updatePriceCatalogItem,
+  type PriceCatalogItem,
+  type StalePriceLineItem,
+} from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { formatCurrencyPhp, formatDate } from "@/lib/format";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+const PAGE_SIZE = 20;
+
+type PriceCatalogFormState = {
+  itemCode: string;
+  description: string;
+  unit: string;
+  unitMaterialCost: string;
+  unitLaborCost: string;
+  supplier: string;
+  effectiveDate: string;
+};
+
+function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function createEmptyForm(): PriceCatalogFormState {
+  return {
+    itemCode: "",
+    description: "",
+    unit: "",
+    unitMaterialCost: "",
+    unitLaborCost: "",
+    supplier: "",
+    effectiveDate: todayIsoDate(),
+  };
+}
+
+function formatEstimateLabel(item: StalePriceLineItem): string {
+  return item.estimate.label
+    ? `v${item.estimate.versionNumber} · ${item.estimate.label}`
+    : `v${item.estimate.versionNumber}`;
+}
+
+export default function PriceCatalogPage() {
+  const router = useRouter();
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [catalogItems, setCatalogItems] = useState<PriceCatalogItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+
+  const [staleItems, setStaleItems] = useState<StalePriceLineItem[]>([]);
+  const [isLoadingStale, setIsLoadingStale] = useState(true);
+  const [staleError, setStaleError] = useState("");
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [catalogItemToEdit, setCatalogItemToEdit] = useState<PriceCatalogItem | null>(null);
+  const [formState, setFormState] = useState<PriceCatalogFormState>(createEmptyForm);
+  const [formError, setFormError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [catalogItemToDelete, setCatalogItemToDelete] = useState<PriceCatalogItem | null>(null);
+  const [deleteError, setDeleteError] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+  const canReprice = useMemo(() => userRole === "ADMIN" || userRole === "ESTIMATOR", [userRole]);
+
+  const loadCatalogItems = useCallback(async (currentPage: number, currentSearch: string): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      const result = await getPriceCatalogItems({
+        page: currentPage,
+        pageSize: PAGE_SIZE,
+        search: currentSearch || undefined,
+      });
+      setCatalogItems(result.items);
+      setTotalPages(result.pagination.totalPages);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load price catalog");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadStaleItems = useCallback(async (): Promise<void> => {
+    setIsLoadingStale(true);
+    setStaleError("");
+    try {
+      const result = await getStalePriceLineItems();
+      setStaleItems(result.items);
+    } catch (error) {
+      setStaleError(error instanceof Error ? error.message : "Failed to load stale line items");
+    } finally {
+      setIsLoadingStale(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCatalogItems(page, search);
+  }, [loadCatalogItems, page, search]);
+
+  useEffect(() => {
+    void loadStaleItems();
+  }, [loadStaleItems]);
+
+  function handleSearch(event: React.FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  }
+
+  function openCreateModal(): void {
+    setCatalogItemToEdit(null);
+    setFormState(createEmptyForm());
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function openEditModal(catalogItem: PriceCatalogItem): void {
+    setCatalogItemToEdit(catalogItem);
+    setFormState({
+      itemCode: catalogItem.itemCode,
+      description: catalogItem.description,
+      unit: catalogItem.unit,
+      unitMaterialCost: catalogItem.unitMaterialCost,
+      unitLaborCost: catalogItem.unitLaborCost,
+      supplier: catalogItem.supplier ?? "",
+      effectiveDate: catalogItem.effectiveDate.slice(0, 10),
+    });
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function closeFormModal(): void {
+    setIsFormOpen(false);
+    setCatalogItemToEdit(null);
+    setFormError("");
+  }
+
+  async function handleSaveCatalogItem(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setFormError("");
+
+    const unitMaterialCost = Number(formState.unitMaterialCost);
+    const unitLaborCost = Number(formState.unitLaborCost);
+    if (!Number.isFinite(unitMaterialCost) || unitMaterialCost < 0 || !Number.isFinite(unitLaborCost) || unitLaborCost < 0) {
+      setFormError("Material and labor costs must be non-negative numbers.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        itemCode: formState.itemCode.trim(),
+        description: formState.description.trim(),
+        unit: formState.unit.trim(),
+        unitMaterialCost,
+        unitLaborCost,
+        supplier: formState.supplier.trim() || null,
+        effectiveDate: formState.effectiveDate,
+      };
+
+      if (catalogItemToEdit) {
+        const updated = await updatePriceCatalogItem(catalogItemToEdit.id, payload);
+        setNotice({ variant: "success", message: `Updated catalog item ${updated.itemCode}.` });
+      } else {
+        const created = await createPriceCatalogItem(payload);
+        setNotice({ variant: "success", message: `Created catalog item ${created.itemCode}.` });
+      }
+
+      closeFormModal();
+      await Promise.all([loadCatalogItems(page, search), loadStaleItems()]);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save catalog item");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeleteCatalogItem(): Promise<void> {
+    if (!catalogItemToDelete) {
+      return;
+    }
+
+    setDeleteError("");
+    setIsDeleting(true);
+    try {
+      const result = await deletePriceCatalogItem(catalogItemToDelete.id);
+      setNotice({
+        variant: "success",
+        message: `Deleted catalog item ${catalogItemToDelete.itemCode}. ${result.unlinkedLineItemCount} line item(s) unlinked.`,
+      });
+      setCatalogItemToDelete(null);
+      await Promise.all([loadCatalogItems(page, search), loadStaleItems()]);
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : "Failed to delete catalog item");
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Organization
+          </p>
+          <h1 className="text-3xl font-semibold">Price Catalog</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Standard material and labor unit costs that line items can be priced from.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {canReprice ? (
+            <Button variant="secondary" onClick={() => router.push("/price-catalog/repricing")}>
+              Reprice Drafts
+            </Button>
+          ) : null}
+          {isAdmin ? <Button onClick={openCreateModal}>New Catalog Item</Button> : null}
+        </div>
+      </div>
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      <form className="flex max-w-xl items-end gap-2" onSubmit={handleSearch}>
+        <div className="flex-1">
+          <Label htmlFor="price-catalog-search">Search</Label>
+          <Input
+            id="price-catalog-search"
+            value={searchInput}
+            onChange={(event) => setSearchInput(event.target.value)}
+            placeholder="Item code, description, or supplier"
+          />
+        </div>
+        <Button type="submit" variant="secondary">
+          Search
+        </Button>
+      </form>
+
+      <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Loading price catalog...</span>
+          </div>
+        ) : catalogItems.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <p className="text-base font-medium">{search ? "No catalog items match your search." : "No catalog items yet."}</p>
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              Items such as cement per bag or rebar per kilogram will appear here.
+            </p>
+          </div>
+        ) : (
+          <table role="table" className="w-full text-sm">
+            <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+              <tr>
+                <th scope="col" className="px-4 py-3 font-medium">Code</th>
+                <th scope="col" className="px-4 py-3 font-medium">Description</th>
+                <th scope="col" className="px-4 py-3 font-medium">Unit</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Material</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Labor</th>
+                <th scope="col" className="px-4 py-3 font-medium">Supplier</th>
+                <th scope="col" className="px-4 py-3 font-medium">Effective</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Linked</th>
+                {isAdmin ? <th scope="col" className="px-4 py-3 text-right font-medium">Actions</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {catalogItems.map((catalogItem) => (
+                <tr key={catalogItem.id} className="border-t border-[var(--color-border)]">
+                  <td className="px-4 py-3 font-mono">{catalogItem.itemCode}</td>
+                  <td className="px-4 py-3">{catalogItem.description}</td>
+                  <td className="px-4 py-3">{catalogItem.unit}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrencyPhp(catalogItem.unitMaterialCost)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrencyPhp(catalogItem.unitLaborCost)}</td>
+                  <td className="px-4 py-3">{catalogItem.supplier ?? "—"}</td>
+                  <td className="px-4 py-3">{formatDate(catalogItem.effectiveDate)}</td>
+                  <td className="px-4 py-3 text-right">{catalogItem.lineItemCount}</td>
+                  {isAdmin ? (
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          className="h-8 px-2 text-xs"
+                          onClick={() => openEditModal(catalogItem)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                          onClick={() => {
+                            setDeleteError("");
+                            setCatalogItemToDelete(catalogItem);
+                          }}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="secondary" disabled={page <= 1} onClick={() => setPage((current) => current - 1)}>
+          Previous
+        </Button>
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Page {page} {totalPages > 0 ? `of ${totalPages}` : ""}
+        </p>
+        <Button
+          variant="secondary"
+          disabled={totalPages === 0 || page >= totalPages}
+          onClick={() => setPage((current) => current + 1)}
+        >
+          Next
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h2 className="text-xl font-semibold">Stale Line Item Prices</h2>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Linked line items whose unit costs no longer match their catalog entry.
+          </p>
+        </div>
+
+        {staleError ? (
+          <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {staleError}
+          </p>
+        ) : null}
+
+        <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+          {isLoadingStale ? (
+            <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+              <Spinner />
+              <span>Checking linked line items...</span>
+            </div>
+          ) : staleItems.length === 0 ? (
+            <div className="px-6 py-12 text-center">
+              <p className="text-base font-medium">All linked line items match the catalog.</p>
+            </div>
+          ) : (
+            <table role="table" className="w-full text-sm">
+              <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+                <tr>
+                  <th scope="col" className="px-4 py-3 font-medium">Estimate</th>
+                  <th scope="col" className="px-4 py-3 font-medium">Line Item</th>
+                  <th scope="col" className="px-4 py-3 font-medium">Catalog Item</th>
+                  <th scope="col" className="px-4 py-3 text-right font-medium">Material (Line / Catalog)</th>
+                  <th scope="col" className="px-4 py-3 text-right font-medium">Labor (Line / Catalog)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {staleItems.map((item) => (
+                  <tr key={item.lineItemId} className="border-t border-[var(--color-border)]">
+                    <td className="px-4 py-3">
+                      <Link
+                        href={`/projects/${item.estimate.project.id}/estimates/${item.estimate.id}`}
+                        className="font-medium text-[var(--color-accent-strong)] hover:underline"
+                      >
+                        {item.estimate.project.name}
+                      </Link>
+                      <p className="text-xs text-[var(--color-text-muted)]">
+                        {formatEstimateLabel(item)} · <Badge variant="neutral">{item.estimate.status}</Badge>
+                      </p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <p>{item.description}</p>
+                      <p className="text-xs text-[var(--color-text-muted)]">{item.unit}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="font-mono">{item.priceCatalogItem.itemCode}</p>
+                      <p className="text-xs text-[var(--color-text-muted)]">
+                        Effective {formatDate(item.priceCatalogItem.effectiveDate)}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatCurrencyPhp(item.unitMaterialCost)} / {formatCurrencyPhp(item.priceCatalogItem.unitMaterialCost)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatCurrencyPhp(item.unitLaborCost)} / {formatCurrencyPhp(item.priceCatalogItem.unitLaborCost)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <Modal
+        isOpen={isFormOpen}
+        title={catalogItemToEdit ? "Edit Catalog Item" : "New Catalog Item"}
+        onClose={() => {
+          if (!isSaving) {
+            closeFormModal();
+          }
+        }}
+      >
+        <form className="space-y-4" onSubmit={handleSaveCatalogItem}>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="price-catalog-item-code">Item Code</Label>
+              <Input
+                id="price-catalog-item-code"
+                value={formState.itemCode}
+                onChange={(event) => setFormState((current) => ({ ...current, itemCode: event.target.value }))}
+                placeholder="CEM-40KG"
+                required
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="price-catalog-unit">Unit</Label>
+              <Input
+                id="price-catalog-unit"
+                value={formState.unit}
+                onChange={(event) => setFormState((current) => ({ ...current, unit: event.target.value }))}
+                placeholder="bag"
+                required
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="price-catalog-description">Description</Label>
+            <Input
+              id="price-catalog-description"
+              value={formState.description}
+              onChange={(event) => setFormState((current) => ({ ...current, description: event.target.value }))}
+              placeholder="Portland cement, 40 kg bag"
+              required
+              disabled={isSaving}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="price-catalog-material-cost">Unit Material Cost</Label>
+              <Input
+                id="price-catalog-material-cost"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formState.unitMaterialCost}
+                onChange={(event) => setFormState((current) => ({ ...current, unitMaterialCost: event.target.value }))}
+                required
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="price-catalog-labor-cost">Unit Labor Cost</Label>
+              <Input
+                id="price-catalog-labor-cost"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formState.unitLaborCost}
+                onChange={(event) => setFormState((current) => ({ ...current, unitLaborCost: event.target.value }))}
+                required
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="price-catalog-supplier">Supplier</Label>
+              <Input
+                id="price-catalog-supplier"
+                value={formState.supplier}
+                onChange={(event) => setFormState((current) => ({ ...current, supplier: event.target.value }))}
+                placeholder="Optional"
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="price-catalog-effective-date">Effective Date</Label>
+              <Input
+                id="price-catalog-effective-date"
+                type="date"
+                value={formState.effectiveDate}
+                onChange={(event) => setFormState((current) => ({ ...current, effectiveDate: event.target.value }))}
+                required
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          {formError ? (
+            <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+              {formError}
+            </p>
+          ) : null}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={closeFormModal} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Catalog Item"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={catalogItemToDelete !== null}
+        title="Delete Catalog Item"
+        onClose={() => {
+          if (!isDeleting) {
+            setCatalogItemToDelete(null);
+            setDeleteError("");
+          }
+        }}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Delete <strong>{catalogItemToDelete?.itemCode}</strong>? Linked line items keep their current costs and are
+          unlinked from the catalog.
+        </p>
+        {deleteError ? (
+          <p role="alert" className="mt-4 text-sm text-rose-600 dark:text-rose-300">
+            {deleteError}
+          </p>
+        ) : null}
+        <div className="mt-4 flex justify-end gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => {
+              setCatalogItemToDelete(null);
+              setDeleteError("");
+            }}
+            disabled={isDeleting}
+          >
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDeleteCatalogItem} disabled={isDeleting}>
+            {isDeleting ? "Deleting..." : "Delete"}
+          </Button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
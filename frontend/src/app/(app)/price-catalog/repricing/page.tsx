@@ -0,0 +1,405 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  applyRepricing,
+  previewRepricing,
+  type RepriceEstimatesRequest,
+  type RepricingPrice,
+  type RepricingResponse,
+  type RepricingSource,
+} from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { formatCurrencyPhp } from "@/lib/format";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Toast } from "@/components/ui/toast";
+
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+const TEXTAREA_CLASS =
+  "min-h-40 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 font-mono text-sm text-[var(--color-text)]";
+const SOURCE_OPTIONS: Array<{ label: string; value: RepricingSource }> = [
+  { label: "Price catalog (item codes)", value: "CATALOG" },
+  { label: "Uploaded price list", value: "PRICE_LIST" },
+];
+
+function parsePriceList(priceListText: string): RepricingPrice[] {
+  const lines = priceListText
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  if (lines.length === 0) {
+    throw new Error("Add at least one price.");
+  }
+
+  return lines.map((line, index) => {
+    const parts = line.split(",").map((part) => part.trim());
+    const unitMaterialCost = Number(parts[1]);
+    const unitLaborCost = Number(parts[2]);
+
+    if (
+      parts.length !== 3 ||
+      !parts[0] ||
+      parts[1] === "" ||
+      parts[2] === "" ||
+      !Number.isFinite(unitMaterialCost) ||
+      !Number.isFinite(unitLaborCost)
+    ) {
+      throw new Error(`Price line ${index + 1} must be "key, material cost, labor cost".`);
+    }
+
+    return { priceReferenceKey: parts[0], unitMaterialCost, unitLaborCost };
+  });
+}
+
+function formatDelta(before: string, after: string): string {
+  const delta = Number(after) - Number(before);
+  return `${delta > 0 ? "+" : ""}${formatCurrencyPhp(delta)}`;
+}
+
+export default function RepricingPage() {
+  const router = useRouter();
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [source, setSource] = useState<RepricingSource>("CATALOG");
+  const [priceListText, setPriceListText] = useState("");
+  const [preview, setPreview] = useState<RepricingResponse | null>(null);
+  const [previewRequest, setPreviewRequest] = useState<RepriceEstimatesRequest | null>(null);
+  const [selectedEstimateIds, setSelectedEstimateIds] = useState<Set<string>>(new Set());
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [applyError, setApplyError] = useState("");
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const canReprice = useMemo(() => userRole === "ADMIN" || userRole === "ESTIMATOR", [userRole]);
+
+  const selectedLineItemCount = useMemo(() => {
+    return (preview?.estimates ?? [])
+      .filter((estimate) => selectedEstimateIds.has(estimate.estimateId))
+      .reduce((count, estimate) => count + estimate.lineItems.length, 0);
+  }, [preview, selectedEstimateIds]);
+
+  async function handlePriceListFile(event: React.ChangeEvent<HTMLInputElement>): Promise<void> {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setPriceListText(await file.text());
+    event.target.value = "";
+  }
+
+  async function handlePreview(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setErrorMessage("");
+
+    let request: RepriceEstimatesRequest;
+    try {
+      request = source === "PRICE_LIST" ? { source, prices: parsePriceList(priceListText) } : { source };
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Invalid price list");
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      const result = await previewRepricing(request);
+      setPreview(result);
+      setPreviewRequest(request);
+      setSelectedEstimateIds(new Set(result.estimates.map((estimate) => estimate.estimateId)));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to preview repricing");
+    } finally {
+      setIsPreviewing(false);
+    }
+  }
+
+  function toggleEstimate(estimateId: string, checked: boolean): void {
+    setSelectedEstimateIds((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(estimateId);
+      } else {
+        next.delete(estimateId);
+      }
+
+      return next;
+    });
+  }
+
+  async function handleApply(): Promise<void> {
+    if (!previewRequest) {
+      return;
+    }
+
+    setApplyError("");
+    setIsApplying(true);
+    try {
+      const expectedChanges = (preview?.estimates ?? [])
+        .filter((estimate) => selectedEstimateIds.has(estimate.estimateId))
+        .flatMap((estimate) =>
+          estimate.lineItems.map((lineItem) => ({
+            lineItemId: lineItem.lineItemId,
+            unitMaterialCost: lineItem.after.unitMaterialCost,
+            unitLaborCost: lineItem.after.unitLaborCost,
+            totalCost: lineItem.after.totalCost,
+          })),
+        );
+      const result = await applyRepricing({
+        ...previewRequest,
+        estimateIds: Array.from(selectedEstimateIds),
+        expectedChanges,
+      });
+      const lineItemCount = result.estimates.reduce((count, estimate) => count + estimate.lineItems.length, 0);
+      setIsConfirmOpen(false);
+      setPreview(null);
+      setPreviewRequest(null);
+      setSelectedEstimateIds(new Set());
+      setNotice({
+        variant: "success",
+        message: `Repriced ${lineItemCount} line item(s) across ${result.estimates.length} estimate(s).`,
+      });
+    } catch (error) {
+      setApplyError(error instanceof Error ? error.message : "Failed to apply repricing");
+    } finally {
+      setIsApplying(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Price Catalog
+          </p>
+          <h1 className="text-3xl font-semibold">Reprice Draft Estimates</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Updates unit costs of line items by their price reference key. Review the changes before applying them.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => router.push("/price-catalog")}>
+            Back to Catalog
+          </Button>
+          {canReprice ? (
+            <Button
+              onClick={() => {
+                setApplyError("");
+                setIsConfirmOpen(true);
+              }}
+              disabled={selectedEstimateIds.size === 0}
+            >
+              Apply Repricing ({selectedEstimateIds.size})
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      <form
+        className="space-y-4 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4"
+        onSubmit={handlePreview}
+      >
+        <div className="max-w-sm">
+          <Label htmlFor="repricing-source">Price Source</Label>
+          <select
+            id="repricing-source"
+            className={SELECT_CLASS}
+            value={source}
+            onChange={(event) => setSource(event.target.value as RepricingSource)}
+            disabled={isPreviewing}
+          >
+            {SOURCE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {source === "PRICE_LIST" ? (
+          <div>
+            <Label htmlFor="repricing-price-list">Price List</Label>
+            <textarea
+              id="repricing-price-list"
+              className={TEXTAREA_CLASS}
+              value={priceListText}
+              onChange={(event) => setPriceListText(event.target.value)}
+              placeholder={"CEM-40KG, 265, 0\nRSB-10MM, 58.5, 12"}
+              disabled={isPreviewing}
+            />
+            <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+              <p className="text-xs text-[var(--color-text-muted)]">
+                One &quot;key, material cost, labor cost&quot; line per price, or load a CSV file.
+              </p>
+              <input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                aria-label="Load price list file"
+                className="text-xs"
+                onChange={(event) => void handlePriceListFile(event)}
+                disabled={isPreviewing}
+              />
+            </div>
+          </div>
+        ) : null}
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isPreviewing}>
+            {isPreviewing ? "Previewing..." : "Preview Changes"}
+          </Button>
+        </div>
+      </form>
+
+      {preview ? (
+        <div className="space-y-4">
+          {preview.unmatchedKeys.length > 0 ? (
+            <p className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+              No price found for: <span className="font-mono">{preview.unmatchedKeys.join(", ")}</span>
+            </p>
+          ) : null}
+
+          {preview.estimates.length === 0 ? (
+            <div className="rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-6 py-12 text-center">
+              <p className="text-base font-medium">All draft estimates already match these prices.</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-[var(--color-text-muted)]">
+                {selectedLineItemCount} line item(s) selected across {selectedEstimateIds.size} estimate(s).
+              </p>
+              {preview.estimates.map((estimate) => (
+                <div
+                  key={estimate.estimateId}
+                  className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-3 bg-[var(--color-surface-2)] px-4 py-3">
+                    <label className="flex items-center gap-3">
+                      {canReprice ? (
+                        <input
+                          type="checkbox"
+                          checked={selectedEstimateIds.has(estimate.estimateId)}
+                          onChange={(event) => toggleEstimate(estimate.estimateId, event.target.checked)}
+                        />
+                      ) : null}
+                      <span>
+                        <Link
+                          href={`/projects/${estimate.project.id}/estimates/${estimate.estimateId}`}
+                          className="font-medium text-[var(--color-accent-strong)] hover:underline"
+                        >
+                          {estimate.project.name}
+                        </Link>
+                        <span className="ml-2 text-xs text-[var(--color-text-muted)]">
+                          v{estimate.versionNumber}
+                          {estimate.label ? ` · ${estimate.label}` : ""}
+                        </span>
+                      </span>
+                    </label>
+                    <div className="text-right text-sm">
+                      <p>
+                        {formatCurrencyPhp(estimate.before.totalAmount)} → {formatCurrencyPhp(estimate.after.totalAmount)}
+                      </p>
+                      <Badge
+                        variant={Number(estimate.after.totalAmount) > Number(estimate.before.totalAmount) ? "warning" : "success"}
+                      >
+                        {formatDelta(estimate.before.totalAmount, estimate.after.totalAmount)}
+                      </Badge>
+                    </div>
+                  </div>
+                  <table role="table" className="w-full text-sm">
+                    <thead className="text-left text-[var(--color-text-muted)]">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 font-medium">Line Item</th>
+                        <th scope="col" className="px-4 py-3 font-medium">Key</th>
+                        <th scope="col" className="px-4 py-3 text-right font-medium">Material</th>
+                        <th scope="col" className="px-4 py-3 text-right font-medium">Labor</th>
+                        <th scope="col" className="px-4 py-3 text-right font-medium">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {estimate.lineItems.map((lineItem) => (
+                        <tr key={lineItem.lineItemId} className="border-t border-[var(--color-border)]">
+                          <td className="px-4 py-3">
+                            <p>{lineItem.description}</p>
+                            <p className="text-xs text-[var(--color-text-muted)]">
+                              {lineItem.quantity} {lineItem.unit}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3 font-mono">{lineItem.priceReferenceKey}</td>
+                          <td className="px-4 py-3 text-right">
+                            {formatCurrencyPhp(lineItem.before.unitMaterialCost)} →{" "}
+                            {formatCurrencyPhp(lineItem.after.unitMaterialCost)}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {formatCurrencyPhp(lineItem.before.unitLaborCost)} → {formatCurrencyPhp(lineItem.after.unitLaborCost)}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {formatCurrencyPhp(lineItem.before.totalCost)} → {formatCurrencyPhp(lineItem.after.totalCost)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      ) : null}
+
+      <Modal
+        isOpen={isConfirmOpen}
+        title="Apply Repricing"
+        onClose={() => {
+          if (!isApplying) {
+            setIsConfirmOpen(false);
+          }
+        }}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Update {selectedLineItemCount} line item(s) in {selectedEstimateIds.size} draft estimate(s)? Totals are
+          recalculated and each change is recorded in the audit log. If estimates or prices changed since the preview,
+          nothing is applied and you are asked to preview again.
+        </p>
+        {applyError ? (
+          <p role="alert" className="mt-3 text-sm text-rose-600 dark:text-rose-300">
+            {applyError}
+          </p>
+        ) : null}
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="secondary" onClick={() => setIsConfirmOpen(false)} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isApplying || selectedEstimateIds.size === 0}>
+            {isApplying ? "Applying..." : "Apply Repricing"}
+          </Button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
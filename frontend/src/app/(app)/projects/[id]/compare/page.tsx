@@ -0,0 +1,502 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import {
+  compareEstimates,
+  getProject,
+  getProjectEstimates,
+  type ComparedLineItemField,
+  type EstimateComparisonResponse,
+  type LineItemComparison,
+  type ProjectEstimateSummary,
+  type ProjectSummary,
+} from "@/lib/api";
+import { formatCurrencyPhp } from "@/lib/format";
+import { cn } from "@/lib/cn";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+
+type StatusBadge = { label: string; variant: "neutral" | "success" | "warning" | "danger" };
+
+const STATUS_BADGES: Record<LineItemComparison["status"], StatusBadge> = {
+  ADDED: { label: "Added", variant: "success" },
+  REMOVED: { label: "Removed", variant: "danger" },
+  CHANGED: { label: "Changed", variant: "warning" },
+  UNCHANGED: { label: "Unchanged", variant: "neutral" },
+};
+
+const FIELD_LABELS: Record<ComparedLineItemField, string> = {
+  category: "category",
+  quantity: "quantity",
+  unit: "unit",
+  unitMaterialCost: "material cost",
+  unitLaborCost: "labor cost",
+  totalCost: "total",
+  markupRate: "markup",
+  vatExempt: "VAT exemption",
+};
+
+const TOTAL_ROWS: Array<{ key: keyof EstimateComparisonResponse["totals"]; label: string }> = [
+  { key: "subtotal", label: "Subtotal" },
+  { key: "regionalAdjustment", label: "Regional Adjustment" },
+  { key: "markupAmount", label: "Markup" },
+  { key: "vatableSales", label: "VATable Sales" },
+  { key: "vatExemptSales", label: "VAT-Exempt Sales" },
+  { key: "vatAmount", label: "VAT" },
+  { key: "totalAmount", label: "Total Amount" },
+];
+
+function formatVersion(estimate: { versionNumber: number; label: string | null }): string {
+  return `v${estimate.versionNumber}${estimate.label ? ` · ${estimate.label}` : ""}`;
+}
+
+function formatSignedCurrency(value: string): string {
+  const amount = Number.parseFloat(value);
+  if (amount > 0) {
+    return `+${formatCurrencyPhp(amount)}`;
+  }
+
+  return formatCurrencyPhp(amount);
+}
+
+function formatSignedQuantity(value: string): string {
+  const amount = Number.parseFloat(value);
+  const formatted = amount.toLocaleString("en-PH", { maximumFractionDigits: 4 });
+  return amount > 0 ? `+${formatted}` : formatted;
+}
+
+function deltaClassName(value: string): string {
+  const amount = Number.parseFloat(value);
+  if (amount > 0) {
+    return "text-rose-700 dark:text-rose-300";
+  }
+
+  if (amount < 0) {
+    return "text-emerald-700 dark:text-emerald-300";
+  }
+
+  return "text-[var(--color-text-muted)]";
+}
+
+function describeQuantity(item: { quantity: string; unit: string } | undefined): string {
+  if (!item) {
+    return "—";
+  }
+
+  return `${Number.parseFloat(item.quantity).toLocaleString("en-PH", { maximumFractionDigits: 4 })} ${item.unit}`;
+}
+
+function toCsvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Plain CSV so the comparison can be shared with clients or opened in a spreadsheet. */
+function buildComparisonCsv(comparison: EstimateComparisonResponse): string {
+  const base = formatVersion(comparison.base);
+  const compared = formatVersion(comparison.compared);
+  const rows: Array<Array<string | number>> = [
+    ["Project", comparison.project.name],
+    ["Comparing", base, compared],
+    [],
+    ["Totals", base, compared, "Change"],
+    ...TOTAL_ROWS.map(({ key, label }) => [
+      label,
+      comparison.totals[key].before,
+      comparison.totals[key].after,
+      comparison.totals[key].delta,
+    ]),
+    [],
+    ["Category", `${base} Items`, `${compared} Items`, `${base} Cost`, `${compared} Cost`, "Cost Change"],
+    ...comparison.categories.map((category) => [
+      `${"  ".repeat(category.depth - 1)}${category.name}`,
+      category.itemCount.before,
+      category.itemCount.after,
+      category.totalCost.before,
+      category.totalCost.after,
+      category.totalCost.delta,
+    ]),
+    [],
+    [
+      "Status",
+      "Category",
+      "Description",
+      `${base} Quantity`,
+      `${compared} Quantity`,
+      "Unit",
+      `${base} Total`,
+      `${compared} Total`,
+      "Cost Change",
+      "Changed Fields",
+    ],
+    ...comparison.lineItems.map((item) => {
+      const before = item.status === "ADDED" ? undefined : item.before;
+      const after = item.status === "REMOVED" ? undefined : item.after;
+      const reference = after ?? before;
+      return [
+        STATUS_BADGES[item.status].label,
+        reference?.category ?? "",
+        reference?.description ?? "",
+        before?.quantity ?? "",
+        after?.quantity ?? "",
+        reference?.unit ?? "",
+        before?.totalCost ?? "",
+        after?.totalCost ?? "",
+        item.costDelta,
+        "changedFields" in item ? item.changedFields.map((field) => FIELD_LABELS[field]).join("; ") : "",
+      ];
+    }),
+  ];
+
+  return rows.map((row) => row.map(toCsvCell).join(",")).join("\n");
+}
+
+export default function CompareEstimatesPage() {
+  const params = useParams<{ id: string }>();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const projectId = params.id;
+  const baseId = searchParams.get("base") ?? "";
+  const otherId = searchParams.get("other") ?? "";
+
+  const [project, setProject] = useState<ProjectSummary | null>(null);
+  const [estimates, setEstimates] = useState<ProjectEstimateSummary[]>([]);
+  const [comparison, setComparison] = useState<EstimateComparisonResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isComparing, setIsComparing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    async function loadVersions(): Promise<void> {
+      setIsLoading(true);
+      setErrorMessage("");
+      try {
+        const [projectResult, estimatesResult] = await Promise.all([
+          getProject(projectId),
+          getProjectEstimates(projectId, { page: 1, pageSize: 100 }),
+        ]);
+        if (!active) {
+          return;
+        }
+
+        setProject(projectResult);
+        setEstimates(estimatesResult.items);
+      } catch (error) {
+        if (active) {
+          setErrorMessage(error instanceof Error ? error.message : "Failed to load estimates");
+        }
+      } finally {
+        if (active) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadVersions();
+
+    return () => {
+      active = false;
+    };
+  }, [projectId]);
+
+  // Default to the two most recent versions, older one as the baseline.
+  useEffect(() => {
+    if (baseId || otherId || estimates.length < 2) {
+      return;
+    }
+
+    const [latest, previous] = [...estimates].sort((left, right) => right.versionNumber - left.versionNumber);
+    router.replace(`/projects/${projectId}/compare?base=${previous.id}&other=${latest.id}`);
+  }, [baseId, estimates, otherId, projectId, router]);
+
+  useEffect(() => {
+    if (!baseId || !otherId || baseId === otherId) {
+      setComparison(null);
+      return;
+    }
+
+    let active = true;
+    setIsComparing(true);
+    setErrorMessage("");
+    compareEstimates(baseId, otherId)
+      .then((result) => {
+        if (active) {
+          setComparison(result);
+        }
+      })
+      .catch((error: unknown) => {
+        if (active) {
+          setComparison(null);
+          setErrorMessage(error instanceof Error ? error.message : "Failed to compare estimates");
+        }
+      })
+      .finally(() => {
+        if (active) {
+          setIsComparing(false);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [baseId, otherId]);
+
+  const visibleLineItems = useMemo(
+    () => (comparison?.lineItems ?? []).filter((item) => showUnchanged || item.status !== "UNCHANGED"),
+    [comparison, showUnchanged],
+  );
+
+  function selectVersions(nextBaseId: string, nextOtherId: string): void {
+    router.replace(`/projects/${projectId}/compare?base=${nextBaseId}&other=${nextOtherId}`);
+  }
+
+  function handleExportCsv(): void {
+    if (!comparison) {
+      return;
+    }
+
+    const blob = new Blob([buildComparisonCsv(comparison)], { type: "text/csv;charset=utf-8" });
+    const objectUrl = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = objectUrl;
+    anchor.download = `comparison-v${comparison.base.versionNumber}-v${comparison.compared.versionNumber}.csv`;
+    anchor.click();
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            <Link href={`/projects/${projectId}`} className="hover:underline">
+              {project?.name ?? "Project"}
+            </Link>
+          </p>
+          <h1 className="text-3xl font-semibold">Compare Versions</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Changes are shown from the baseline to the compared version.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => window.print()} disabled={!comparison}>
+            Print
+          </Button>
+          <Button onClick={handleExportCsv} disabled={!comparison}>
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+          <Spinner />
+          <span>Loading versions...</span>
+        </div>
+      ) : estimates.length < 2 ? (
+        <p className="rounded-md border border-dashed border-[var(--color-border)] px-6 py-12 text-center text-sm text-[var(--color-text-muted)]">
+          This project needs at least two estimate versions to compare.
+        </p>
+      ) : (
+        <>
+          <div className="grid gap-4 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="compareBase">Baseline</Label>
+              <select
+                id="compareBase"
+                className={SELECT_CLASS}
+                value={baseId}
+                onChange={(event) => selectVersions(event.target.value, otherId)}
+              >
+                {estimates.map((estimate) => (
+                  <option key={estimate.id} value={estimate.id} disabled={estimate.id === otherId}>
+                    {formatVersion(estimate)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="compareOther">Compared Version</Label>
+              <select
+                id="compareOther"
+                className={SELECT_CLASS}
+                value={otherId}
+                onChange={(event) => selectVersions(baseId, event.target.value)}
+              >
+                {estimates.map((estimate) => (
+                  <option key={estimate.id} value={estimate.id} disabled={estimate.id === baseId}>
+                    {formatVersion(estimate)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {isComparing ? (
+            <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+              <Spinner />
+              <span>Comparing...</span>
+            </div>
+          ) : comparison ? (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="success">{comparison.summary.added} added</Badge>
+                <Badge variant="danger">{comparison.summary.removed} removed</Badge>
+                <Badge variant="warning">{comparison.summary.changed} changed</Badge>
+                <Badge variant="neutral">{comparison.summary.unchanged} unchanged</Badge>
+              </div>
+
+              <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+                <table role="table" className="w-full text-sm">
+                  <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+                    <tr>
+                      <th scope="col" className="px-4 py-3 font-medium">Totals</th>
+                      <th scope="col" className="px-4 py-3 text-right font-medium">{formatVersion(comparison.base)}</th>
+                      <th scope="col" className="px-4 py-3 text-right font-medium">
+                        {formatVersion(comparison.compared)}
+                      </th>
+                      <th scope="col" className="px-4 py-3 text-right font-medium">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {TOTAL_ROWS.map(({ key, label }) => (
+                      <tr
+                        key={key}
+                        className={cn("border-t border-[var(--color-border)]", key === "totalAmount" && "font-semibold")}
+                      >
+                        <td className="px-4 py-2">{label}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrencyPhp(comparison.totals[key].before)}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrencyPhp(comparison.totals[key].after)}</td>
+                        <td className={cn("px-4 py-2 text-right", deltaClassName(comparison.totals[key].delta))}>
+                          {formatSignedCurrency(comparison.totals[key].delta)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+                <table role="table" className="w-full text-sm">
+                  <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+                    <tr>
+                      <th scope="col" className="px-4 py-3 font-medium">Category</th>
+                      <th scope="col" className="px-4 py-3 text-right font-medium">Items</th>
+                      <th scope="col" className="px-4 py-3 font-medium">Quantity Change</th>
+                      <th scope="col" className="px-4 py-3 text-right font-medium">{formatVersion(comparison.base)}</th>
+                      <th scope="col" className="px-4 py-3 text-right font-medium">
+                        {formatVersion(comparison.compared)}
+                      </th>
+                      <th scope="col" className="px-4 py-3 text-right font-medium">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.categories.map((category) => (
+                      <tr key={category.code} className="border-t border-[var(--color-border)]">
+                        <td className="px-4 py-2" style={{ paddingLeft: `${category.depth}rem` }}>
+                          {category.name}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {category.itemCount.before} → {category.itemCount.after}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-[var(--color-text-muted)]">
+                          {category.quantities
+                            .filter((quantity) => Number.parseFloat(quantity.delta) !== 0)
+                            .map((quantity) => `${formatSignedQuantity(quantity.delta)} ${quantity.unit}`)
+                            .join(", ") || "—"}
+                        </td>
+                        <td className="px-4 py-2 text-right">{formatCurrencyPhp(category.totalCost.before)}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrencyPhp(category.totalCost.after)}</td>
+                        <td className={cn("px-4 py-2 text-right", deltaClassName(category.totalCost.delta))}>
+                          {formatSignedCurrency(category.totalCost.delta)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(event) => setShowUnchanged(event.target.checked)}
+                  />
+                  Show unchanged line items
+                </label>
+                <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+                  {visibleLineItems.length === 0 ? (
+                    <p className="px-6 py-8 text-center text-sm text-[var(--color-text-muted)]">
+                      No line item changes between these versions.
+                    </p>
+                  ) : (
+                    <table role="table" className="w-full text-sm">
+                      <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+                        <tr>
+                          <th scope="col" className="px-4 py-3 font-medium">Status</th>
+                          <th scope="col" className="px-4 py-3 font-medium">Line Item</th>
+                          <th scope="col" className="px-4 py-3 font-medium">Quantity</th>
+                          <th scope="col" className="px-4 py-3 text-right font-medium">Cost Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {visibleLineItems.map((item) => {
+                          const before = item.status === "ADDED" ? undefined : item.before;
+                          const after = item.status === "REMOVED" ? undefined : item.after;
+                          const reference = after ?? before;
+                          return (
+                            <tr
+                              key={`${before?.id ?? ""}-${after?.id ?? ""}`}
+                              className="border-t border-[var(--color-border)]"
+                            >
+                              <td className="px-4 py-2">
+                                <Badge variant={STATUS_BADGES[item.status].variant}>
+                                  {STATUS_BADGES[item.status].label}
+                                </Badge>
+                              </td>
+                              <td className="px-4 py-2">
+                                <p className="font-medium">{reference?.description}</p>
+                                {"changedFields" in item && item.changedFields.length > 0 ? (
+                                  <p className="text-xs text-[var(--color-text-muted)]">
+                                    Changed {item.changedFields.map((field) => FIELD_LABELS[field]).join(", ")}
+                                  </p>
+                                ) : null}
+                              </td>
+                              <td className="px-4 py-2">
+                                {describeQuantity(before)} → {describeQuantity(after)}
+                              </td>
+                              <td className={cn("px-4 py-2 text-right", deltaClassName(item.costDelta))}>
+                                {formatSignedCurrency(item.costDelta)}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            </>
+          ) : null}
+        </>
+      )}
+    </section>
+  );
+}
@@ -1,30 +1,46 @@
 ﻿"use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { useParams } from "next/navigation";
 import {
-  CATEGORY_VALUES,
   computeLineItem,
   createLineItem,
+  deleteComputationGroup,
   downloadPdfJob,
   deleteLineItem,
   finalizeEstimate,
+  getApprovalPolicy,
   getEstimate,
+  getEstimateComments,
+  getEstimateReviews,
+  getLineItemErrorMessage,
   getFormula,
   getFormulas,
+  getFormulaUnits,
   getFormulaVersions,
+  getCategories,
   getPdfJobStatus,
   getProject,
   overrideLineItem,
   requestEstimatePdf,
+  requestEstimateXlsx,
+  type ApprovalPolicy,
   type Category,
+  type CategoryNode,
+  type EstimateCommentsResponse,
   type EstimateDetailsResponse,
+  type EstimateExportFormat,
+  type EstimatePdfOptions,
   type EstimateLineItem,
+  type EstimateReviewTrail,
   type FormulaDetail,
   type FormulaSummary,
+  type FormulaUnit,
   type FormulaUsageRecord,
   type FormulaVersion,
   type LineItemMutationResponse,
+  type PriceCatalogItem,
   type ProjectSummary,
   type UpdateLineItemRequest,
   updateEstimate,
@@ -32,6 +48,21 @@ import {
 } from "@/lib/api";
 import { readAuthUser } from "@/lib/auth";
 import { formatCurrencyPhp } from "@/lib/format";
+import { getCompatibleUnitSymbols } from "@/lib/units";
+import {
+  ComputeIntoEstimateModal,
+  type ComputationGroupTarget,
+} from "@/components/estimates/compute-into-estimate-modal";
+import { EstimateCommentsPanel } from "@/components/estimates/estimate-comments-panel";
+import { EstimateReviewModal } from "@/components/estimates/estimate-review-modal";
+import { EstimateTemplateModal } from "@/components/estimates/estimate-template-modal";
+import { EstimateQuotationModal } from "@/components/estimates/estimate-quotation-modal";
+import { DEFAULT_PDF_OPTIONS, PdfOptionsModal } from "@/components/estimates/pdf-options-modal";
+import { ImportLineItemsModal } from "@/components/estimates/import-line-items-modal";
+import { MarkupComponentsModal } from "@/components/estimates/markup-components-modal";
+import { PriceCatalogPicker } from "@/components/estimates/price-catalog-picker";
+import { SendEstimateModal } from "@/components/estimates/send-estimate-modal";
+import { ShareLinksModal } from "@/components/estimates/share-links-modal";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -43,7 +74,7 @@ const SELECT_CLASS =
   "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
 
 type AutoSaveState = "saving" | "saved" | "retrying";
-type EstimateEditorTab = "line-items" | "formula-usage";
+type EstimateEditorTab = "line-items" | "formula-usage" | "comments";
 type PdfFlowState = "idle" | "requesting" | "polling" | "ready" | "failed";
 
 type LineItemFormState = {
@@ -53,17 +84,38 @@ type LineItemFormState = {
   unit: string;
   unitMaterialCost: string;
   unitLaborCost: string;
+  priceCatalogItemId: string | null;
+  priceCatalogItemCode: string;
+  priceReferenceKey: string;
+  markupRate: string;
+  vatExempt: boolean;
 };
 
 const INITIAL_LINE_ITEM_FORM: LineItemFormState = {
-  category: "CONCRETE_WORKS",
+  category: "",
   description: "",
   quantity: "",
   unit: "",
   unitMaterialCost: "",
   unitLaborCost: "",
+  priceCatalogItemId: null,
+  priceCatalogItemCode: "",
+  priceReferenceKey: "",
+  markupRate: "",
+  vatExempt: false,
 };
 
+function isLineItemPriceStale(lineItem: EstimateLineItem): boolean {
+  if (!lineItem.priceCatalogItem) {
+    return false;
+  }
+
+  return (
+    Number(lineItem.unitMaterialCost) !== Number(lineItem.priceCatalogItem.unitMaterialCost) ||
+    Number(lineItem.unitLaborCost) !== Number(lineItem.priceCatalogItem.unitLaborCost)
+  );
+}
+
 function formatCategoryLabel(category: Category): string {
   return category
     .split("_")
@@ -164,7 +216,13 @@ function mergeMutation(
     estimate: {
       ...current.estimate,
       subtotal: mutation.estimate.subtotal,
+      regionalMaterialFactor: mutation.estimate.regionalMaterialFactor,
+      regionalLaborFactor: mutation.estimate.regionalLaborFactor,
+      regionalAdjustment: mutation.estimate.regionalAdjustment,
+      markupComponents: mutation.estimate.markupComponents,
       markupAmount: mutation.estimate.markupAmount,
+      vatableSales: mutation.estimate.vatableSales,
+      vatExemptSales: mutation.estimate.vatExemptSales,
       vatAmount: mutation.estimate.vatAmount,
       totalAmount: mutation.estimate.totalAmount,
       updatedAt: mutation.estimate.updatedAt,
@@ -179,10 +237,16 @@ export default function EstimateEditorPage() {
   const estimateId = params.estimateId;
 
   const [project, setProject] = useState<ProjectSummary | null>(null);
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
   const [estimateData, setEstimateData] = useState<EstimateDetailsResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [errorMessage, setErrorMessage] = useState("");
   const [userRole, setUserRole] = useState("VIEWER");
+  const [userId, setUserId] = useState("");
+  const [reviewTrail, setReviewTrail] = useState<EstimateReviewTrail | null>(null);
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy | null>(null);
+  const [comments, setComments] = useState<EstimateCommentsResponse | null>(null);
+  const [commentLineItemId, setCommentLineItemId] = useState("");
 
   const [markupRateDraft, setMarkupRateDraft] = useState("");
   const [vatRateDraft, setVatRateDraft] = useState("");
@@ -220,6 +284,8 @@ export default function EstimateEditorPage() {
   const [selectedFormulaVersionId, setSelectedFormulaVersionId] = useState("");
   const [selectedFormulaDetail, setSelectedFormulaDetail] = useState<FormulaDetail | null>(null);
   const [formulaInputValues, setFormulaInputValues] = useState<Record<string, string>>({});
+  const [formulaInputUnits, setFormulaInputUnits] = useState<Record<string, string>>({});
+  const [formulaUnits, setFormulaUnits] = useState<FormulaUnit[]>([]);
   const [selectedOutputVariable, setSelectedOutputVariable] = useState("");
   const [formulaFieldErrors, setFormulaFieldErrors] = useState<Record<string, string>>({});
   const [formulaServerError, setFormulaServerError] = useState("");
@@ -231,6 +297,21 @@ export default function EstimateEditorPage() {
   } | null>(null);
   const [isComputing, setIsComputing] = useState(false);
 
+  const [isComputeIntoModalOpen, setIsComputeIntoModalOpen] = useState(false);
+  const [isMarkupComponentsModalOpen, setIsMarkupComponentsModalOpen] = useState(false);
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isQuotationModalOpen, setIsQuotationModalOpen] = useState(false);
+  const [savedTemplateName, setSavedTemplateName] = useState("");
+  const [isSendModalOpen, setIsSendModalOpen] = useState(false);
+  const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+  const [sentRecipients, setSentRecipients] = useState("");
+  const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
+  const [reviewMessage, setReviewMessage] = useState("");
+  const [computationGroupToRecompute, setComputationGroupToRecompute] = useState<ComputationGroupTarget | null>(null);
+  const [computationGroupToDelete, setComputationGroupToDelete] = useState<ComputationGroupTarget | null>(null);
+  const [isDeletingComputationGroup, setIsDeletingComputationGroup] = useState(false);
+
   const [isFinalizeModalOpen, setIsFinalizeModalOpen] = useState(false);
   const [isFinalizing, setIsFinalizing] = useState(false);
   const [activeTab, setActiveTab] = useState<EstimateEditorTab>("line-items");
@@ -247,12 +328,37 @@ export default function EstimateEditorPage() {
   const [pdfError, setPdfError] = useState("");
   const [pdfPreviewUrl, setPdfPreviewUrl] = useState<string | null>(null);
   const [pdfFileName, setPdfFileName] = useState("estimate.pdf");
-  const [isDownloadRequested, setIsDownloadRequested] = useState(false);
+  const [downloadFormat, setDownloadFormat] = useState<EstimateExportFormat | null>(null);
+  const [pdfOptions, setPdfOptions] = useState<EstimatePdfOptions>(DEFAULT_PDF_OPTIONS);
+  const [isPdfOptionsModalOpen, setIsPdfOptionsModalOpen] = useState(false);
   const pdfPreviewUrlRef = useRef<string | null>(null);
   const pdfRunIdRef = useRef(0);
 
   useEffect(() => {
-    setUserRole(readAuthUser()?.role ?? "VIEWER");
+    const authUser = readAuthUser();
+    setUserRole(authUser?.role ?? "VIEWER");
+    setUserId(authUser?.id ?? "");
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+
+    async function loadUnits(): Promise<void> {
+      try {
+        const result = await getFormulaUnits();
+        if (active) {
+          setFormulaUnits(result.items);
+        }
+      } catch {
+        // Without the registry, inputs are entered in their declared units only.
+      }
+    }
+
+    void loadUnits();
+
+    return () => {
+      active = false;
+    };
   }, []);
 
   useEffect(() => {
@@ -289,9 +395,21 @@ export default function EstimateEditorPage() {
     setErrorMessage("");
 
     try {
-      const [projectResult, estimateResult] = await Promise.all([getProject(projectId), getEstimate(estimateId)]);
+      const [projectResult, estimateResult, categoriesResult, reviewsResult, policyResult, commentsResult] =
+        await Promise.all([
+          getProject(projectId),
+          getEstimate(estimateId),
+          getCategories(),
+          getEstimateReviews(estimateId),
+          getApprovalPolicy(),
+          getEstimateComments(estimateId),
+        ]);
       setProject(projectResult);
+      setCategories(categoriesResult.items);
       setEstimateData(estimateResult);
+      setReviewTrail(reviewsResult);
+      setApprovalPolicy(policyResult);
+      setComments(commentsResult);
       hydrateRates(estimateResult.estimate);
     } catch (error) {
       setErrorMessage(error instanceof Error ? error.message : "Failed to load estimate editor");
@@ -304,6 +422,14 @@ export default function EstimateEditorPage() {
     void loadEstimateData();
   }, [loadEstimateData]);
 
+  const loadComments = useCallback(async (): Promise<void> => {
+    try {
+      setComments(await getEstimateComments(estimateId));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load comments");
+    }
+  }, [estimateId]);
+
   useEffect(() => {
     if (!estimateData || isReadOnly || isHydratingRatesRef.current) {
       return;
@@ -387,22 +513,103 @@ export default function EstimateEditorPage() {
       return [];
     }
 
-    return CATEGORY_VALUES.map((category) => {
-      const items = estimateData.lineItems.filter((lineItem) => lineItem.category === category);
-      const subtotal = items.reduce((sum, lineItem) => sum + Number.parseFloat(lineItem.totalCost || "0"), 0);
+    const itemsByCategory = new Map<Category, EstimateLineItem[]>();
+    for (const lineItem of estimateData.lineItems) {
+      itemsByCategory.set(lineItem.category, [...(itemsByCategory.get(lineItem.category) ?? []), lineItem]);
+    }
+
+    const sumItems = (items: EstimateLineItem[]): number =>
+      items.reduce((sum, lineItem) => sum + Number.parseFloat(lineItem.totalCost || "0"), 0);
 
-      return {
-        category,
-        items,
-        subtotal,
-      };
-    }).filter((group) => group.items.length > 0);
-  }, [estimateData]);
+    // Each category's subtotal also counts the line items of every category nested under it.
+    const categoriesById = new Map(categories.map((category) => [category.id, category]));
+    const rolledUpSubtotals = new Map<Category, number>();
+    for (const category of categories) {
+      const items = itemsByCategory.get(category.code);
+      if (!items) {
+        continue;
+      }
+
+      const subtotal = sumItems(items);
+      let current: CategoryNode | undefined = category;
+      while (current) {
+        rolledUpSubtotals.set(current.code, (rolledUpSubtotals.get(current.code) ?? 0) + subtotal);
+        current = current.parentId ? categoriesById.get(current.parentId) : undefined;
+      }
+    }
+
+    const groups = categories
+      .filter((category) => rolledUpSubtotals.has(category.code))
+      .map((category) => ({
+        category: category.code,
+        label: `${category.code} ${category.name}`,
+        depth: category.depth,
+        items: itemsByCategory.get(category.code) ?? [],
+        subtotal: rolledUpSubtotals.get(category.code) ?? 0,
+      }));
+
+    const knownCodes = new Set(categories.map((category) => category.code));
+    for (const [category, items] of Array.from(itemsByCategory.entries())) {
+      if (!knownCodes.has(category)) {
+        groups.push({ category, label: formatCategoryLabel(category), depth: 1, items, subtotal: sumItems(items) });
+      }
+    }
+
+    return groups;
+  }, [categories, estimateData]);
+
+  const categoryNames = useMemo(
+    () => new Map(categories.map((category) => [category.code, category.name])),
+    [categories],
+  );
+
+  const getCategoryLabel = useCallback(
+    (category: Category): string => categoryNames.get(category) ?? formatCategoryLabel(category),
+    [categoryNames],
+  );
 
   const formulaUsageRecords = useMemo<FormulaUsageRecord[]>(() => {
     return estimateData?.formulaUsage ?? [];
   }, [estimateData]);
 
+  // Usage records are newest first, so the first record seen for a group holds its current inputs.
+  const computationGroups = useMemo(() => {
+    const groups = new Map<string, ComputationGroupTarget>();
+
+    for (const record of formulaUsageRecords) {
+      if (!record.groupId || !record.outputVariable) {
+        continue;
+      }
+
+      const group = groups.get(record.groupId);
+      if (!group) {
+        groups.set(record.groupId, {
+          groupId: record.groupId,
+          formulaId: record.formulaId,
+          formulaName: record.formula.name,
+          inputValues: isObjectRecord(record.inputValues) ? record.inputValues : {},
+          inputUnits: isObjectRecord(record.inputUnits) ? (record.inputUnits as Record<string, string>) : {},
+          outputVariables: [record.outputVariable],
+        });
+      } else if (!group.outputVariables.includes(record.outputVariable)) {
+        group.outputVariables.push(record.outputVariable);
+      }
+    }
+
+    return groups;
+  }, [formulaUsageRecords]);
+
+  const computedInputVariables = useMemo(() => {
+    const variables = new Set<string>();
+    for (const record of formulaUsageRecords) {
+      if (record.outputVariable && isObjectRecord(record.inputValues)) {
+        Object.keys(record.inputValues).forEach((variable) => variables.add(variable));
+      }
+    }
+
+    return Array.from(variables).sort();
+  }, [formulaUsageRecords]);
+
   useEffect(() => {
     if (activeTab !== "formula-usage") {
       return;
@@ -478,7 +685,7 @@ export default function EstimateEditorPage() {
   function openCreateLineItemModal(): void {
     setLineItemFormMode("create");
     setLineItemToEdit(null);
-    setLineItemForm(INITIAL_LINE_ITEM_FORM);
+    setLineItemForm({ ...INITIAL_LINE_ITEM_FORM, category: categories[0]?.code ?? "" });
     setLineItemFormError("");
     setIsLineItemModalOpen(true);
   }
@@ -493,11 +700,29 @@ export default function EstimateEditorPage() {
       unit: lineItem.unit,
       unitMaterialCost: lineItem.unitMaterialCost,
       unitLaborCost: lineItem.unitLaborCost,
+      priceCatalogItemId: lineItem.priceCatalogItemId,
+      priceCatalogItemCode: lineItem.priceCatalogItem?.itemCode ?? "",
+      priceReferenceKey: lineItem.priceReferenceKey ?? "",
+      markupRate: lineItem.markupRate === null ? "" : normalizeRate(lineItem.markupRate),
+      vatExempt: lineItem.vatExempt,
     });
     setLineItemFormError("");
     setIsLineItemModalOpen(true);
   }
 
+  function applyPriceCatalogItem(catalogItem: PriceCatalogItem): void {
+    setLineItemForm((current) => ({
+      ...current,
+      description: catalogItem.description,
+      unit: catalogItem.unit,
+      unitMaterialCost: catalogItem.unitMaterialCost,
+      unitLaborCost: catalogItem.unitLaborCost,
+      priceCatalogItemId: catalogItem.id,
+      priceCatalogItemCode: catalogItem.itemCode,
+      priceReferenceKey: catalogItem.itemCode,
+    }));
+  }
+
   async function handleSubmitLineItem(event: React.FormEvent<HTMLFormElement>): Promise<void> {
     event.preventDefault();
     setLineItemFormError("");
@@ -523,6 +748,12 @@ export default function EstimateEditorPage() {
       return;
     }
 
+    const markupRate = lineItemForm.markupRate.trim() === "" ? null : parseRequiredNumber(lineItemForm.markupRate);
+    if (lineItemForm.markupRate.trim() !== "" && (markupRate === null || markupRate < 0 || markupRate > 100)) {
+      setLineItemFormError("Markup rate must be between 0 and 100, or left blank.");
+      return;
+    }
+
     setIsSubmittingLineItem(true);
 
     try {
@@ -534,6 +765,10 @@ export default function EstimateEditorPage() {
           unit: lineItemForm.unit.trim(),
           unitMaterialCost,
           unitLaborCost,
+          priceCatalogItemId: lineItemForm.priceCatalogItemId,
+          priceReferenceKey: lineItemForm.priceReferenceKey.trim() || null,
+          markupRate,
+          vatExempt: lineItemForm.vatExempt,
         });
 
         setEstimateData((current) => mergeMutation(current, created));
@@ -544,6 +779,10 @@ export default function EstimateEditorPage() {
           unit: lineItemForm.unit.trim(),
           unitMaterialCost,
           unitLaborCost,
+          priceCatalogItemId: lineItemForm.priceCatalogItemId,
+          priceReferenceKey: lineItemForm.priceReferenceKey.trim() || null,
+          markupRate,
+          vatExempt: lineItemForm.vatExempt,
         };
 
         if (lineItemToEdit.calculationSource === "MANUAL") {
@@ -558,7 +797,7 @@ export default function EstimateEditorPage() {
       setLineItemToEdit(null);
       setLineItemForm(INITIAL_LINE_ITEM_FORM);
     } catch (error) {
-      setLineItemFormError(error instanceof Error ? error.message : "Failed to save line item");
+      setLineItemFormError(getLineItemErrorMessage(error, "Failed to save line item"));
     } finally {
       setIsSubmittingLineItem(false);
     }
@@ -577,7 +816,13 @@ export default function EstimateEditorPage() {
         estimate: {
           ...estimateData.estimate,
           subtotal: result.estimate.subtotal,
+          regionalMaterialFactor: result.estimate.regionalMaterialFactor,
+          regionalLaborFactor: result.estimate.regionalLaborFactor,
+          regionalAdjustment: result.estimate.regionalAdjustment,
+          markupComponents: result.estimate.markupComponents,
           markupAmount: result.estimate.markupAmount,
+          vatableSales: result.estimate.vatableSales,
+          vatExemptSales: result.estimate.vatExemptSales,
           vatAmount: result.estimate.vatAmount,
           totalAmount: result.estimate.totalAmount,
           updatedAt: result.estimate.updatedAt,
@@ -586,7 +831,7 @@ export default function EstimateEditorPage() {
       });
       setLineItemToDelete(null);
     } catch (error) {
-      setErrorMessage(error instanceof Error ? error.message : "Failed to delete line item");
+      setErrorMessage(getLineItemErrorMessage(error, "Failed to delete line item"));
     } finally {
       setIsDeletingLineItem(false);
     }
@@ -626,7 +871,7 @@ export default function EstimateEditorPage() {
       setEstimateData((current) => mergeMutation(current, result));
       setLineItemToOverride(null);
     } catch (error) {
-      setOverrideError(error instanceof Error ? error.message : "Failed to override line item");
+      setOverrideError(getLineItemErrorMessage(error, "Failed to override line item"));
     } finally {
       setIsOverriding(false);
     }
@@ -674,6 +919,7 @@ export default function EstimateEditorPage() {
     setSelectedFormulaVersionId("");
     setSelectedFormulaDetail(null);
     setFormulaInputValues({});
+    setFormulaInputUnits({});
     setSelectedOutputVariable("");
     setFormulaFieldErrors({});
     setFormulaServerError("");
@@ -732,6 +978,7 @@ export default function EstimateEditorPage() {
             detail.inputs.map((input) => [input.variable, input.defaultValue !== undefined ? `${input.defaultValue}` : ""]),
           ),
         );
+        setFormulaInputUnits(Object.fromEntries(detail.inputs.map((input) => [input.variable, input.unit])));
 
         const outputByUnit = detail.outputs.find((output) =>
           formulaTargetItem ? output.unit.trim().toLowerCase() === formulaTargetItem.unit.trim().toLowerCase() : false,
@@ -760,9 +1007,12 @@ export default function EstimateEditorPage() {
 
     const fieldErrors: Record<string, string> = {};
     const inputValues: Record<string, number> = {};
+    const inputUnits: Record<string, string> = {};
 
     for (const input of selectedFormulaDetail.inputs) {
       const rawValue = formulaInputValues[input.variable]?.trim() ?? "";
+      const selectedUnit = formulaInputUnits[input.variable] ?? input.unit;
+      const isConverted = selectedUnit !== input.unit;
       if (!rawValue) {
         fieldErrors[input.variable] = "Required";
         continue;
@@ -774,22 +1024,26 @@ export default function EstimateEditorPage() {
         continue;
       }
 
-      if (input.type === "integer" && !Number.isInteger(parsed)) {
+      // Integer and range rules apply in the formula's unit, so converted values are checked by the server.
+      if (!isConverted && input.type === "integer" && !Number.isInteger(parsed)) {
         fieldErrors[input.variable] = "Must be an integer";
         continue;
       }
 
-      if (input.min !== undefined && parsed < input.min) {
+      if (!isConverted && input.min !== undefined && parsed < input.min) {
         fieldErrors[input.variable] = `Must be >= ${input.min}`;
         continue;
       }
 
-      if (input.max !== undefined && parsed > input.max) {
+      if (!isConverted && input.max !== undefined && parsed > input.max) {
         fieldErrors[input.variable] = `Must be <= ${input.max}`;
         continue;
       }
 
       inputValues[input.variable] = parsed;
+      if (isConverted) {
+        inputUnits[input.variable] = selectedUnit;
+      }
     }
 
     if (Object.keys(fieldErrors).length > 0) {
@@ -811,6 +1065,7 @@ export default function EstimateEditorPage() {
         formulaId: selectedFormulaVersionId,
         outputVariable: selectedFormulaDetail.outputs.length > 1 ? selectedOutputVariable : undefined,
         inputValues,
+        inputUnits,
       });
 
       setEstimateData((current) => mergeMutation(current, result));
@@ -821,12 +1076,60 @@ export default function EstimateEditorPage() {
         version: result.computation.formulaVersion,
       });
     } catch (error) {
-      setFormulaServerError(error instanceof Error ? error.message : "Failed to compute line item");
+      setFormulaServerError(getLineItemErrorMessage(error, "Failed to compute line item"));
     } finally {
       setIsComputing(false);
     }
   }
 
+  function handleComputationGroupComputed(): void {
+    setIsComputeIntoModalOpen(false);
+    setComputationGroupToRecompute(null);
+    void loadEstimateData();
+  }
+
+  async function handleDeleteComputationGroup(): Promise<void> {
+    if (!computationGroupToDelete || !estimateData) {
+      return;
+    }
+
+    setIsDeletingComputationGroup(true);
+    try {
+      const result = await deleteComputationGroup(estimateId, computationGroupToDelete.groupId);
+      setEstimateData({
+        ...estimateData,
+        estimate: {
+          ...estimateData.estimate,
+          subtotal: result.estimate.subtotal,
+          regionalMaterialFactor: result.estimate.regionalMaterialFactor,
+          regionalLaborFactor: result.estimate.regionalLaborFactor,
+          regionalAdjustment: result.estimate.regionalAdjustment,
+          markupComponents: result.estimate.markupComponents,
+          markupAmount: result.estimate.markupAmount,
+          vatableSales: result.estimate.vatableSales,
+          vatExemptSales: result.estimate.vatExemptSales,
+          vatAmount: result.estimate.vatAmount,
+          totalAmount: result.estimate.totalAmount,
+          updatedAt: result.estimate.updatedAt,
+        },
+        lineItems: estimateData.lineItems.filter((lineItem) => !result.deletedLineItemIds.includes(lineItem.id)),
+        formulaUsage: estimateData.formulaUsage.filter(
+          (usage) => !result.deletedLineItemIds.includes(usage.lineItemId),
+        ),
+      });
+      setComputationGroupToDelete(null);
+    } catch (error) {
+      setErrorMessage(getLineItemErrorMessage(error, "Failed to remove computed line items"));
+    } finally {
+      setIsDeletingComputationGroup(false);
+    }
+  }
+
+  function openLineItemComments(lineItem: EstimateLineItem): void {
+    setCommentLineItemId(lineItem.id);
+    setActiveTab("comments");
+  }
+
   async function handleFinalizeEstimate(): Promise<void> {
     setIsFinalizing(true);
     setErrorMessage("");
@@ -851,11 +1154,16 @@ export default function EstimateEditorPage() {
     URL.revokeObjectURL(objectUrl);
   }
 
-  async function runPdfFlow(options: { openPreview: boolean; triggerDownload: boolean }): Promise<void> {
+  async function runPdfFlow(options: {
+    format: EstimateExportFormat;
+    openPreview: boolean;
+    triggerDownload: boolean;
+  }): Promise<void> {
     const runId = ++pdfRunIdRef.current;
+    const formatLabel = options.format === "xlsx" ? "Excel workbook" : "PDF";
     setPdfError("");
     setPdfFlowState("requesting");
-    setPdfFlowMessage("Creating PDF job...");
+    setPdfFlowMessage(`Creating ${formatLabel} job...`);
     if (options.openPreview) {
       if (pdfPreviewUrlRef.current) {
         URL.revokeObjectURL(pdfPreviewUrlRef.current);
@@ -865,7 +1173,10 @@ export default function EstimateEditorPage() {
     }
 
     try {
-      const requestedJob = await requestEstimatePdf(estimateId);
+      const requestedJob =
+        options.format === "xlsx"
+          ? await requestEstimateXlsx(estimateId)
+          : await requestEstimatePdf(estimateId, pdfOptions);
       if (runId !== pdfRunIdRef.current) {
         return;
       }
@@ -875,7 +1186,7 @@ export default function EstimateEditorPage() {
 
       if (status === "pending") {
         setPdfFlowState("polling");
-        setPdfFlowMessage("Generating PDF...");
+        setPdfFlowMessage(`Generating ${formatLabel}...`);
       }
 
       while (status === "pending") {
@@ -894,7 +1205,7 @@ export default function EstimateEditorPage() {
 
         status = nextStatus.status;
         if (status === "failed") {
-          throw new Error(nextStatus.message ?? "PDF generation failed");
+          throw new Error(nextStatus.message ?? `${formatLabel} generation failed`);
         }
       }
 
@@ -903,9 +1214,8 @@ export default function EstimateEditorPage() {
         return;
       }
 
-      setPdfFileName(downloadedPdf.fileName);
-
       if (options.openPreview) {
+        setPdfFileName(downloadedPdf.fileName);
         if (pdfPreviewUrlRef.current) {
           URL.revokeObjectURL(pdfPreviewUrlRef.current);
         }
@@ -920,7 +1230,7 @@ export default function EstimateEditorPage() {
       }
 
       setPdfFlowState("ready");
-      setPdfFlowMessage("PDF is ready.");
+      setPdfFlowMessage(`${formatLabel} is ready.`);
     } catch (error) {
       if (runId !== pdfRunIdRef.current) {
         return;
@@ -928,23 +1238,40 @@ export default function EstimateEditorPage() {
 
       setPdfFlowState("failed");
       setPdfFlowMessage("");
-      setPdfError(error instanceof Error ? error.message : "PDF generation failed");
+      setPdfError(error instanceof Error ? error.message : `${formatLabel} generation failed`);
     }
   }
 
   async function handleOpenPdfPreview(): Promise<void> {
     setIsPdfModalOpen(true);
-    setIsDownloadRequested(false);
-    await runPdfFlow({ openPreview: true, triggerDownload: false });
+    setDownloadFormat(null);
+    await runPdfFlow({ format: "pdf", openPreview: true, triggerDownload: false });
   }
 
   async function handleDownloadPdf(): Promise<void> {
-    setIsDownloadRequested(true);
-    await runPdfFlow({ openPreview: false, triggerDownload: true });
+    setDownloadFormat("pdf");
+    await runPdfFlow({ format: "pdf", openPreview: false, triggerDownload: true });
+  }
+
+  async function handleDownloadExcel(): Promise<void> {
+    setDownloadFormat("xlsx");
+    await runPdfFlow({ format: "xlsx", openPreview: false, triggerDownload: true });
   }
 
   const estimate = estimateData?.estimate;
+  const hasRegionalFactors =
+    estimate !== undefined &&
+    (Number(estimate.regionalMaterialFactor) !== 1 || Number(estimate.regionalLaborFactor) !== 1);
+  const hasMarkupComponents = estimate !== undefined && estimate.markupComponents.length > 0;
   const isPdfProcessing = pdfFlowState === "requesting" || pdfFlowState === "polling";
+  const latestReview = reviewTrail?.items[0];
+  const unresolvedCommentCount = comments?.unresolvedCount ?? 0;
+  const openCommentsByLineItem = new Map<string, number>();
+  for (const thread of comments?.items ?? []) {
+    if (thread.lineItemId && thread.resolvedAt === null) {
+      openCommentsByLineItem.set(thread.lineItemId, (openCommentsByLineItem.get(thread.lineItemId) ?? 0) + 1);
+    }
+  }
 
   return (
     <section className="space-y-6 pb-28">
@@ -967,7 +1294,18 @@ export default function EstimateEditorPage() {
                 estimate.status === "DRAFT" ? "success" : estimate.status === "FINAL" ? "neutral" : "warning"
               }
             >
-              {estimate.status === "DRAFT" ? "Draft" : estimate.status === "FINAL" ? "Final" : "Archived"}
+              {estimate.status === "DRAFT"
+                ? "Draft"
+                : estimate.status === "FINAL"
+                  ? "Final"
+                  : estimate.status === "FOR_REVIEW"
+                    ? "For Review"
+                    : "Archived"}
+            </Badge>
+          ) : null}
+          {estimate?.clientDecision ? (
+            <Badge variant={estimate.clientDecision === "ACCEPTED" ? "success" : "warning"}>
+              {estimate.clientDecision === "ACCEPTED" ? "Accepted by client" : "Client requested changes"}
             </Badge>
           ) : null}
           <Badge variant={autoSaveState === "retrying" ? "danger" : "neutral"}>{autoSaveText}</Badge>
@@ -975,9 +1313,47 @@ export default function EstimateEditorPage() {
             {isPdfModalOpen && isPdfProcessing ? "Preparing Preview..." : "Preview PDF"}
           </Button>
           <Button onClick={() => void handleDownloadPdf()} disabled={isPdfProcessing}>
-            {isDownloadRequested && isPdfProcessing ? "Generating PDF..." : "Download PDF"}
+            {downloadFormat === "pdf" && isPdfProcessing ? "Generating PDF..." : "Download PDF"}
+          </Button>
+          <Button variant="secondary" onClick={() => setIsPdfOptionsModalOpen(true)} disabled={isPdfProcessing}>
+            PDF Options
+          </Button>
+          <Button variant="secondary" onClick={() => void handleDownloadExcel()} disabled={isPdfProcessing}>
+            {downloadFormat === "xlsx" && isPdfProcessing ? "Generating Excel..." : "Export Excel"}
           </Button>
-          {canEditByRole && isDraftEstimate ? (
+          {estimate ? (
+            <Button variant="secondary" onClick={() => setIsSendModalOpen(true)} disabled={isPdfProcessing}>
+              {canEditByRole ? "Email Client" : "Sent History"}
+            </Button>
+          ) : null}
+          {estimate && estimate.status !== "DRAFT" ? (
+            <Button variant="secondary" onClick={() => setIsShareModalOpen(true)}>
+              Share Link
+            </Button>
+          ) : null}
+          {canEditByRole && estimate ? (
+            <Button variant="secondary" onClick={() => setIsQuotationModalOpen(true)}>
+              Quotation
+            </Button>
+          ) : null}
+          {canEditByRole && estimate ? (
+            <Button variant="secondary" onClick={() => setIsTemplateModalOpen(true)}>
+              Save as Template
+            </Button>
+          ) : null}
+          {estimate && ((canEditByRole && isDraftEstimate) || (reviewTrail?.items.length ?? 0) > 0) ? (
+            <Button
+              variant={estimate.status === "FOR_REVIEW" ? "primary" : "secondary"}
+              onClick={() => setIsReviewModalOpen(true)}
+            >
+              {estimate.status === "FOR_REVIEW"
+                ? "Review"
+                : canEditByRole && isDraftEstimate
+                  ? "Submit for Review"
+                  : "Review History"}
+            </Button>
+          ) : null}
+          {canEditByRole && isDraftEstimate && !approvalPolicy?.requireReview ? (
             <Button variant="danger" onClick={() => setIsFinalizeModalOpen(true)}>
               Finalize
             </Button>
@@ -991,6 +1367,51 @@ export default function EstimateEditorPage() {
         </p>
       ) : null}
 
+      {downloadFormat && pdfError && !isPdfModalOpen ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {pdfError}
+        </p>
+      ) : null}
+
+      {estimate?.status === "FOR_REVIEW" ? (
+        <p className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          Awaiting review
+          {reviewTrail?.pending?.submittedBy ? ` (submitted by ${reviewTrail.pending.submittedBy.name})` : ""}. Editing
+          is locked until a reviewer approves or rejects this estimate.
+        </p>
+      ) : latestReview?.action === "REJECTED" && isDraftEstimate ? (
+        <p className="whitespace-pre-line rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          {`Returned by ${latestReview.performedBy.name}: ${latestReview.comment}`}
+        </p>
+      ) : null}
+
+      {reviewMessage ? (
+        <p
+          role="status"
+          className="rounded-md border border-emerald-300 bg-emerald-50 px-3 py-2 text-sm text-emerald-700"
+        >
+          {reviewMessage}
+        </p>
+      ) : null}
+
+      {sentRecipients ? (
+        <p
+          role="status"
+          className="rounded-md border border-emerald-300 bg-emerald-50 px-3 py-2 text-sm text-emerald-700"
+        >
+          Emailed the quotation to {sentRecipients}.
+        </p>
+      ) : null}
+
+      {savedTemplateName ? (
+        <p
+          role="status"
+          className="rounded-md border border-emerald-300 bg-emerald-50 px-3 py-2 text-sm text-emerald-700"
+        >
+          Saved template {savedTemplateName}. New estimates in any project can start from it.
+        </p>
+      ) : null}
+
       <div className="grid gap-4 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4 md:grid-cols-2">
         <div>
           <Label htmlFor="markupRate">Markup Rate (%)</Label>
@@ -1001,8 +1422,13 @@ export default function EstimateEditorPage() {
             step="0.01"
             value={markupRateDraft}
             onChange={(event) => setMarkupRateDraft(event.target.value)}
-            disabled={isReadOnly || isLoading}
+            disabled={isReadOnly || isLoading || hasMarkupComponents}
           />
+          {hasMarkupComponents ? (
+            <p className="mt-1 text-xs text-[var(--color-text-muted)]">
+              Markup is itemized into components. Remove all components to use a single rate.
+            </p>
+          ) : null}
         </div>
         <div>
           <Label htmlFor="vatRate">VAT Rate (%)</Label>
@@ -1050,13 +1476,36 @@ export default function EstimateEditorPage() {
           >
             Formula Usage
           </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={activeTab === "comments"}
+            className={`rounded-sm px-3 py-1.5 text-sm transition-colors ${
+              activeTab === "comments"
+                ? "bg-[var(--color-accent-soft)] text-[var(--color-accent-strong)]"
+                : "text-[var(--color-text-muted)] hover:bg-[var(--color-surface-2)]"
+            }`}
+            onClick={() => setActiveTab("comments")}
+          >
+            {unresolvedCommentCount > 0 ? `Comments (${unresolvedCommentCount})` : "Comments"}
+          </button>
         </div>
 
         {activeTab === "line-items" ? (
           <>
             <div className="flex items-center justify-between gap-2">
               <p className="text-sm text-[var(--color-text-muted)]">{estimateData?.lineItems.length ?? 0} line item(s)</p>
-              {!isReadOnly ? <Button onClick={openCreateLineItemModal}>Add Line Item</Button> : null}
+              {!isReadOnly ? (
+                <div className="flex gap-2">
+                  <Button variant="secondary" onClick={() => setIsImportModalOpen(true)}>
+                    Import
+                  </Button>
+                  <Button variant="secondary" onClick={() => setIsComputeIntoModalOpen(true)}>
+                    Compute Into Estimate
+                  </Button>
+                  <Button onClick={openCreateLineItemModal}>Add Line Item</Button>
+                </div>
+              ) : null}
             </div>
 
             {isLoading ? (
@@ -1075,104 +1524,151 @@ export default function EstimateEditorPage() {
                   <div
                     key={group.category}
                     className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]"
+                    style={{ marginLeft: `${(group.depth - 1) * 1.5}rem` }}
                   >
                     <div className="flex items-center justify-between border-b border-[var(--color-border)] bg-[var(--color-surface-2)] px-4 py-3">
-                      <p className="text-sm font-semibold">{formatCategoryLabel(group.category)}</p>
+                      <p className="text-sm font-semibold">{group.label}</p>
                       <p className="text-sm font-medium text-[var(--color-text-muted)]">
                         Subtotal: {formatCurrencyPhp(group.subtotal)}
                       </p>
                     </div>
-                    <div>
-                      <table role="table" className="w-full table-fixed text-sm">
-                        <thead className="text-left text-[var(--color-text-muted)]">
-                          <tr>
-                            <th scope="col" className="hidden px-4 py-3 font-medium md:table-cell">Category</th>
-                            <th scope="col" className="px-4 py-3 font-medium">Description</th>
-                            <th scope="col" className="px-4 py-3 font-medium">Quantity</th>
-                            <th scope="col" className="hidden px-4 py-3 font-medium md:table-cell">Unit</th>
-                            <th scope="col" className="hidden px-4 py-3 font-medium lg:table-cell">Unit Material</th>
-                            <th scope="col" className="hidden px-4 py-3 font-medium lg:table-cell">Unit Labor</th>
-                            <th scope="col" className="px-4 py-3 font-medium">Total</th>
-                            <th scope="col" className="hidden px-4 py-3 font-medium lg:table-cell">Source</th>
-                            <th scope="col" className="hidden px-4 py-3 font-medium lg:table-cell">Override</th>
-                            <th scope="col" className="px-4 py-3 text-right font-medium">Actions</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {group.items.map((lineItem) => (
-                            <tr key={lineItem.id} className="border-t border-[var(--color-border)]">
-                              <td className="hidden px-4 py-3 md:table-cell">{formatCategoryLabel(lineItem.category)}</td>
-                              <td className="px-4 py-3 break-words">{lineItem.description}</td>
-                              <td className="px-4 py-3">{formatQuantity(lineItem.quantity)}</td>
-                              <td className="hidden px-4 py-3 md:table-cell">{lineItem.unit}</td>
-                              <td className="hidden px-4 py-3 lg:table-cell">{formatCurrencyPhp(lineItem.unitMaterialCost)}</td>
-                              <td className="hidden px-4 py-3 lg:table-cell">{formatCurrencyPhp(lineItem.unitLaborCost)}</td>
-                              <td className="px-4 py-3 font-medium">{formatCurrencyPhp(lineItem.totalCost)}</td>
-                              <td className="hidden px-4 py-3 lg:table-cell">
-                                <Badge
-                                  variant={
-                                    lineItem.calculationSource === "COMPUTED"
-                                      ? "success"
-                                      : lineItem.calculationSource === "ADJUSTED"
-                                        ? "warning"
-                                        : "neutral"
-                                  }
-                                >
-                                  {lineItem.calculationSource}
-                                </Badge>
-                              </td>
-                              <td className="hidden px-4 py-3 lg:table-cell">
-                                <Badge variant={lineItem.overrideReason ? "warning" : "neutral"}>
-                                  {lineItem.overrideReason ? "Yes" : "No"}
-                                </Badge>
-                              </td>
-                              <td className="px-4 py-3 text-right">
-                                {!isReadOnly ? (
-                                  <div className="flex flex-wrap justify-end gap-1">
-                                    <Button
-                                      variant="ghost"
-                                      className="h-8 px-2 text-xs"
-                                      onClick={() => openEditLineItemModal(lineItem)}
-                                    >
-                                      Edit
-                                    </Button>
-                                    <Button
-                                      variant="ghost"
-                                      className="h-8 px-2 text-xs"
-                                      onClick={() => openFormulaModal(lineItem)}
+                    {group.items.length > 0 ? (
+                      <div>
+                        <table role="table" className="w-full table-fixed text-sm">
+                          <thead className="text-left text-[var(--color-text-muted)]">
+                            <tr>
+                              <th scope="col" className="hidden px-4 py-3 font-medium md:table-cell">Category</th>
+                              <th scope="col" className="px-4 py-3 font-medium">Description</th>
+                              <th scope="col" className="px-4 py-3 font-medium">Quantity</th>
+                              <th scope="col" className="hidden px-4 py-3 font-medium md:table-cell">Unit</th>
+                              <th scope="col" className="hidden px-4 py-3 font-medium lg:table-cell">Unit Material</th>
+                              <th scope="col" className="hidden px-4 py-3 font-medium lg:table-cell">Unit Labor</th>
+                              <th scope="col" className="px-4 py-3 font-medium">Total</th>
+                              <th scope="col" className="hidden px-4 py-3 font-medium lg:table-cell">Source</th>
+                              <th scope="col" className="hidden px-4 py-3 font-medium lg:table-cell">Override</th>
+                              <th scope="col" className="px-4 py-3 text-right font-medium">Actions</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {group.items.map((lineItem) => (
+                              <tr key={lineItem.id} className="border-t border-[var(--color-border)]">
+                                <td className="hidden px-4 py-3 md:table-cell">{getCategoryLabel(lineItem.category)}</td>
+                                <td className="px-4 py-3 break-words">
+                                  {lineItem.description}
+                                  {isLineItemPriceStale(lineItem) ? (
+                                    <Badge variant="warning" className="ml-2">
+                                      Stale price ({lineItem.priceCatalogItem?.itemCode})
+                                    </Badge>
+                                  ) : null}
+                                  {lineItem.markupRate !== null ? (
+                                    <Badge variant="neutral" className="ml-2">
+                                      Markup {formatQuantity(lineItem.markupRate)}%
+                                    </Badge>
+                                  ) : null}
+                                  {lineItem.vatExempt ? (
+                                    <Badge variant="neutral" className="ml-2">
+                                      VAT-exempt
+                                    </Badge>
+                                  ) : null}
+                                  {openCommentsByLineItem.has(lineItem.id) ? (
+                                    <button
+                                      type="button"
+                                      className="ml-2 align-middle"
+                                      onClick={() => openLineItemComments(lineItem)}
                                     >
-                                      Compute
-                                    </Button>
+                                      <Badge variant="warning">
+                                        {openCommentsByLineItem.get(lineItem.id)} open comment
+                                        {openCommentsByLineItem.get(lineItem.id) === 1 ? "" : "s"}
+                                      </Badge>
+                                    </button>
+                                  ) : null}
+                                </td>
+                                <td className="px-4 py-3">{formatQuantity(lineItem.quantity)}</td>
+                                <td className="hidden px-4 py-3 md:table-cell">{lineItem.unit}</td>
+                                <td className="hidden px-4 py-3 lg:table-cell">{formatCurrencyPhp(lineItem.unitMaterialCost)}</td>
+                                <td className="hidden px-4 py-3 lg:table-cell">{formatCurrencyPhp(lineItem.unitLaborCost)}</td>
+                                <td className="px-4 py-3 font-medium">{formatCurrencyPhp(lineItem.totalCost)}</td>
+                                <td className="hidden px-4 py-3 lg:table-cell">
+                                  <Badge
+                                    variant={
+                                      lineItem.calculationSource === "COMPUTED"
+                                        ? "success"
+                                        : lineItem.calculationSource === "ADJUSTED"
+                                          ? "warning"
+                                          : "neutral"
+                                    }
+                                  >
+                                    {lineItem.calculationSource}
+                                  </Badge>
+                                </td>
+                                <td className="hidden px-4 py-3 lg:table-cell">
+                                  <Badge variant={lineItem.overrideReason ? "warning" : "neutral"}>
+                                    {lineItem.overrideReason ? "Yes" : "No"}
+                                  </Badge>
+                                </td>
+                                <td className="px-4 py-3 text-right">
+                                  {!isReadOnly ? (
+                                    <div className="flex flex-wrap justify-end gap-1">
+                                      <Button
+                                        variant="ghost"
+                                        className="h-8 px-2 text-xs"
+                                        onClick={() => openEditLineItemModal(lineItem)}
+                                      >
+                                        Edit
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        className="h-8 px-2 text-xs"
+                                        onClick={() => openLineItemComments(lineItem)}
+                                      >
+                                        Comment
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        className="h-8 px-2 text-xs"
+                                        onClick={() => openFormulaModal(lineItem)}
+                                      >
+                                        Compute
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        className="h-8 px-2 text-xs"
+                                        onClick={() => openOverrideModal(lineItem)}
+                                      >
+                                        Override
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                                        onClick={() => setLineItemToDelete(lineItem)}
+                                      >
+                                        Delete
+                                      </Button>
+                                    </div>
+                                  ) : canEditByRole ? (
                                     <Button
                                       variant="ghost"
                                       className="h-8 px-2 text-xs"
-                                      onClick={() => openOverrideModal(lineItem)}
-                                    >
-                                      Override
-                                    </Button>
-                                    <Button
-                                      variant="ghost"
-                                      className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
-                                      onClick={() => setLineItemToDelete(lineItem)}
+                                      onClick={() => openLineItemComments(lineItem)}
                                     >
-                                      Delete
+                                      Comment
                                     </Button>
-                                  </div>
-                                ) : (
-                                  <span className="text-xs text-[var(--color-text-muted)]">Read only</span>
-                                )}
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
+                                  ) : (
+                                    <span className="text-xs text-[var(--color-text-muted)]">Read only</span>
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ) : null}
                   </div>
                 ))}
               </div>
             )}
           </>
-        ) : (
+        ) : activeTab === "formula-usage" ? (
           <>
             {isLoading ? (
               <div className="flex items-center justify-center gap-2 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-6 py-12 text-sm text-[var(--color-text-muted)]">
@@ -1206,6 +1702,7 @@ export default function EstimateEditorPage() {
                   const outputEntries = isObjectRecord(usage.computedResults)
                     ? Object.entries(usage.computedResults)
                     : [];
+                  const computationGroup = usage.groupId ? computationGroups.get(usage.groupId) : undefined;
 
                   return (
                     <article
@@ -1222,11 +1719,28 @@ export default function EstimateEditorPage() {
                             {formatDateTime(usageMeta?.versionDate ?? usage.formula.createdAt)}
                           </p>
                         </div>
-                        {hasNewerVersion ? (
-                          <Badge variant="warning">Newer version available (v{usageMeta?.latestVersion})</Badge>
-                        ) : (
-                          <Badge variant="neutral">Up to date</Badge>
-                        )}
+                        <div className="flex flex-wrap items-center gap-2">
+                          {computationGroup ? (
+                            <Badge variant="neutral">
+                              {usage.outputVariable} · group of {computationGroup.outputVariables.length}
+                            </Badge>
+                          ) : null}
+                          {hasNewerVersion ? (
+                            <>
+                              <Badge variant="warning">Newer version available (v{usageMeta?.latestVersion})</Badge>
+                              {!isReadOnly ? (
+                                <Link
+                                  href="/formulas/updates"
+                                  className="text-xs font-medium text-[var(--color-accent-strong)] hover:underline"
+                                >
+                                  Review upgrade
+                                </Link>
+                              ) : null}
+                            </>
+                          ) : (
+                            <Badge variant="neutral">Up to date</Badge>
+                          )}
+                        </div>
                       </div>
 
                       <div className="mt-3 grid gap-3 md:grid-cols-2">
@@ -1236,7 +1750,7 @@ export default function EstimateEditorPage() {
                           </p>
                           <p className="mt-1 text-sm">{usage.lineItem.description}</p>
                           <p className="text-xs text-[var(--color-text-muted)]">
-                            {formatCategoryLabel(usage.lineItem.category)}
+                            {getCategoryLabel(usage.lineItem.category)}
                           </p>
                           <p className="mt-2 text-xs text-[var(--color-text-muted)]">
                             Computed at {formatDateTime(usage.computedAt)}
@@ -1278,33 +1792,100 @@ export default function EstimateEditorPage() {
                           </div>
                         )}
                       </div>
+
+                      {computationGroup && !isReadOnly ? (
+                        <div className="mt-3 flex justify-end gap-2">
+                          <Button variant="secondary" onClick={() => setComputationGroupToRecompute(computationGroup)}>
+                            Recompute Group
+                          </Button>
+                          <Button variant="danger" onClick={() => setComputationGroupToDelete(computationGroup)}>
+                            Remove Group
+                          </Button>
+                        </div>
+                      ) : null}
                     </article>
                   );
                 })}
               </div>
             )}
           </>
-        )}
+        ) : estimate ? (
+          <EstimateCommentsPanel
+            estimateId={estimate.id}
+            comments={comments}
+            lineItems={estimateData?.lineItems ?? []}
+            lineItemId={commentLineItemId}
+            currentUserId={userId}
+            currentUserRole={userRole}
+            canComment={canEditByRole}
+            onLineItemChange={setCommentLineItemId}
+            onChanged={() => void loadComments()}
+          />
+        ) : null}
       </div>
 
       {estimate ? (
         <div className="sticky bottom-2 z-20 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]/95 p-4 shadow-lg backdrop-blur">
-          <div className="grid gap-4 md:grid-cols-4">
+          <div className={hasRegionalFactors ? "grid gap-4 md:grid-cols-5" : "grid gap-4 md:grid-cols-4"}>
             <div>
               <p className="text-xs uppercase tracking-[0.12em] text-[var(--color-text-muted)]">Subtotal</p>
               <p className="text-lg font-semibold">{formatCurrencyPhp(estimate.subtotal)}</p>
             </div>
+            {hasRegionalFactors ? (
+              <div>
+                <p className="text-xs uppercase tracking-[0.12em] text-[var(--color-text-muted)]">
+                  Regional Adj. (M ×{formatQuantity(estimate.regionalMaterialFactor)}, L ×
+                  {formatQuantity(estimate.regionalLaborFactor)})
+                </p>
+                <p className="text-lg font-semibold">{formatCurrencyPhp(estimate.regionalAdjustment)}</p>
+              </div>
+            ) : null}
             <div>
-              <p className="text-xs uppercase tracking-[0.12em] text-[var(--color-text-muted)]">
-                Markup ({formatQuantity(estimate.markupRate)}%)
-              </p>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs uppercase tracking-[0.12em] text-[var(--color-text-muted)]">
+                  {hasMarkupComponents ? "Markup" : `Markup (${formatQuantity(estimate.markupRate)}%)`}
+                </p>
+                {!isReadOnly ? (
+                  <Button
+                    variant="ghost"
+                    className="h-6 px-1.5 text-xs"
+                    onClick={() => setIsMarkupComponentsModalOpen(true)}
+                  >
+                    Edit
+                  </Button>
+                ) : null}
+              </div>
               <p className="text-lg font-semibold">{formatCurrencyPhp(estimate.markupAmount)}</p>
+              {hasMarkupComponents ? (
+                <ul className="mt-1 space-y-0.5 text-xs text-[var(--color-text-muted)]">
+                  {estimate.markupComponents.map((component) => (
+                    <li key={component.name} className="flex justify-between gap-2">
+                      <span>
+                        {component.name} ({formatQuantity(component.rate)}%)
+                      </span>
+                      <span>{formatCurrencyPhp(component.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
             </div>
             <div>
               <p className="text-xs uppercase tracking-[0.12em] text-[var(--color-text-muted)]">
                 VAT ({formatQuantity(estimate.vatRate)}%)
               </p>
               <p className="text-lg font-semibold">{formatCurrencyPhp(estimate.vatAmount)}</p>
+              {Number(estimate.vatExemptSales) !== 0 ? (
+                <ul className="mt-1 space-y-0.5 text-xs text-[var(--color-text-muted)]">
+                  <li className="flex justify-between gap-2">
+                    <span>VATable sales</span>
+                    <span>{formatCurrencyPhp(estimate.vatableSales)}</span>
+                  </li>
+                  <li className="flex justify-between gap-2">
+                    <span>VAT-exempt sales</span>
+                    <span>{formatCurrencyPhp(estimate.vatExemptSales)}</span>
+                  </li>
+                </ul>
+              ) : null}
             </div>
             <div>
               <p className="text-xs uppercase tracking-[0.12em] text-[var(--color-text-muted)]">Grand Total</p>
@@ -1336,13 +1917,35 @@ export default function EstimateEditorPage() {
               }
               disabled={isSubmittingLineItem}
             >
-              {CATEGORY_VALUES.map((category) => (
-                <option key={category} value={category}>
-                  {formatCategoryLabel(category)}
+              {lineItemForm.category && !categoryNames.has(lineItemForm.category) ? (
+                <option value={lineItemForm.category}>{formatCategoryLabel(lineItemForm.category)}</option>
+              ) : null}
+              {categories.map((category) => (
+                <option key={category.id} value={category.code}>
+                  {`${"\u00a0\u00a0".repeat(category.depth - 1)}${category.code} ${category.name}`}
                 </option>
               ))}
             </select>
           </div>
+          <PriceCatalogPicker disabled={isSubmittingLineItem} onSelect={applyPriceCatalogItem} />
+          {lineItemForm.priceCatalogItemId ? (
+            <div className="flex items-center justify-between gap-2 rounded-md bg-[var(--color-surface-2)] px-3 py-2 text-sm">
+              <span>
+                Priced from catalog item <span className="font-mono">{lineItemForm.priceCatalogItemCode}</span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                className="h-8 px-2 text-xs"
+                onClick={() =>
+                  setLineItemForm((current) => ({ ...current, priceCatalogItemId: null, priceCatalogItemCode: "" }))
+                }
+                disabled={isSubmittingLineItem}
+              >
+                Unlink
+              </Button>
+            </div>
+          ) : null}
           <div>
             <Label htmlFor="lineItemDescription">Description</Label>
             <Input
@@ -1409,6 +2012,49 @@ export default function EstimateEditorPage() {
               />
             </div>
           </div>
+          <div>
+            <Label htmlFor="lineItemPriceReferenceKey">Price Reference Key</Label>
+            <Input
+              id="lineItemPriceReferenceKey"
+              value={lineItemForm.priceReferenceKey}
+              onChange={(event) => setLineItemForm((current) => ({ ...current, priceReferenceKey: event.target.value }))}
+              placeholder="e.g. CEM-40KG"
+              maxLength={64}
+              disabled={isSubmittingLineItem}
+            />
+            <p className="mt-1 text-xs text-[var(--color-text-muted)]">
+              Material code used when repricing draft estimates from a price list.
+            </p>
+          </div>
+          <div className="grid items-end gap-3 md:grid-cols-2">
+            <div>
+              <Label htmlFor="lineItemMarkupRate">Markup Rate Override (%)</Label>
+              <Input
+                id="lineItemMarkupRate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={lineItemForm.markupRate}
+                onChange={(event) => setLineItemForm((current) => ({ ...current, markupRate: event.target.value }))}
+                placeholder={
+                  estimate?.categoryMarkupRates[lineItemForm.category] !== undefined
+                    ? `Category rate ${formatQuantity(estimate.categoryMarkupRates[lineItemForm.category] ?? "0")}%`
+                    : "Estimate markup"
+                }
+                disabled={isSubmittingLineItem}
+              />
+            </div>
+            <label className="flex h-10 items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={lineItemForm.vatExempt}
+                onChange={(event) => setLineItemForm((current) => ({ ...current, vatExempt: event.target.checked }))}
+                disabled={isSubmittingLineItem}
+              />
+              <span>VAT-exempt (e.g. owner-supplied materials, professional fees)</span>
+            </label>
+          </div>
           {lineItemFormError ? (
             <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
               {lineItemFormError}
@@ -1504,7 +2150,7 @@ export default function EstimateEditorPage() {
         <div className="space-y-4">
           {formulaTargetItem ? (
             <p className="text-sm text-[var(--color-text-muted)]">
-              Target: <strong>{formulaTargetItem.description}</strong> ({formatCategoryLabel(formulaTargetItem.category)})
+              Target: <strong>{formulaTargetItem.description}</strong> ({getCategoryLabel(formulaTargetItem.category)})
             </p>
           ) : null}
 
@@ -1572,36 +2218,64 @@ export default function EstimateEditorPage() {
                 {selectedFormulaDetail.name} · v{selectedFormulaDetail.version}
               </p>
               <div className="grid gap-3 md:grid-cols-2">
-                {selectedFormulaDetail.inputs.map((input) => (
-                  <div key={input.variable}>
-                    <Label htmlFor={`formula-input-${input.variable}`}>
-                      {input.label} ({input.unit})
-                    </Label>
-                    <Input
-                      id={`formula-input-${input.variable}`}
-                      type="number"
-                      step={input.type === "integer" ? "1" : "0.0001"}
-                      min={input.min}
-                      max={input.max}
-                      value={formulaInputValues[input.variable] ?? ""}
-                      onChange={(event) =>
-                        setFormulaInputValues((current) => ({
-                          ...current,
-                          [input.variable]: event.target.value,
-                        }))
-                      }
-                      disabled={isComputing}
-                    />
-                    <p className="mt-1 text-xs text-[var(--color-text-muted)]">
-                      {input.min !== undefined ? `min ${input.min}` : "no min"} · {input.max !== undefined ? `max ${input.max}` : "no max"}
-                    </p>
-                    {formulaFieldErrors[input.variable] ? (
-                      <p role="alert" className="mt-1 text-xs text-rose-600 dark:text-rose-300">
-                        {formulaFieldErrors[input.variable]}
+                {selectedFormulaDetail.inputs.map((input) => {
+                  const unitOptions = getCompatibleUnitSymbols(formulaUnits, input.unit);
+                  const selectedUnit = formulaInputUnits[input.variable] ?? input.unit;
+
+                  return (
+                    <div key={input.variable}>
+                      <Label htmlFor={`formula-input-${input.variable}`}>
+                        {input.label} ({input.unit})
+                      </Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id={`formula-input-${input.variable}`}
+                          type="number"
+                          step={input.type === "integer" && selectedUnit === input.unit ? "1" : "0.0001"}
+                          min={selectedUnit === input.unit ? input.min : undefined}
+                          max={selectedUnit === input.unit ? input.max : undefined}
+                          value={formulaInputValues[input.variable] ?? ""}
+                          onChange={(event) =>
+                            setFormulaInputValues((current) => ({
+                              ...current,
+                              [input.variable]: event.target.value,
+                            }))
+                          }
+                          disabled={isComputing}
+                        />
+                        {unitOptions.length > 1 ? (
+                          <select
+                            aria-label={`${input.label} unit`}
+                            className={`${SELECT_CLASS} max-w-24`}
+                            value={selectedUnit}
+                            onChange={(event) =>
+                              setFormulaInputUnits((current) => ({
+                                ...current,
+                                [input.variable]: event.target.value,
+                              }))
+                            }
+                            disabled={isComputing}
+                          >
+                            {unitOptions.map((unit) => (
+                              <option key={unit} value={unit}>
+                                {unit}
+                              </option>
+                            ))}
+                          </select>
+                        ) : null}
+                      </div>
+                      <p className="mt-1 text-xs text-[var(--color-text-muted)]">
+                        {input.min !== undefined ? `min ${input.min}` : "no min"} · {input.max !== undefined ? `max ${input.max}` : "no max"}
+                        {selectedUnit !== input.unit ? ` (in ${input.unit}, converted from ${selectedUnit})` : ""}
                       </p>
-                    ) : null}
-                  </div>
-                ))}
+                      {formulaFieldErrors[input.variable] ? (
+                        <p role="alert" className="mt-1 text-xs text-rose-600 dark:text-rose-300">
+                          {formulaFieldErrors[input.variable]}
+                        </p>
+                      ) : null}
+                    </div>
+                  );
+                })}
               </div>
 
               {selectedFormulaDetail.outputs.length > 1 ? (
@@ -1666,6 +2340,150 @@ export default function EstimateEditorPage() {
         </div>
       </Modal>
 
+      <ComputeIntoEstimateModal
+        isOpen={isComputeIntoModalOpen || computationGroupToRecompute !== null}
+        estimateId={estimateId}
+        formulaUnits={formulaUnits}
+        group={computationGroupToRecompute}
+        onClose={() => {
+          setIsComputeIntoModalOpen(false);
+          setComputationGroupToRecompute(null);
+        }}
+        onComputed={handleComputationGroupComputed}
+      />
+
+      {estimate ? (
+        <MarkupComponentsModal
+          isOpen={isMarkupComponentsModalOpen}
+          estimate={estimate}
+          categories={categories}
+          onClose={() => setIsMarkupComponentsModalOpen(false)}
+          onSaved={(updated) => {
+            setEstimateData((current) => (current ? { ...current, estimate: updated } : current));
+            setIsMarkupComponentsModalOpen(false);
+          }}
+        />
+      ) : null}
+
+      {estimate ? (
+        <ImportLineItemsModal
+          isOpen={isImportModalOpen}
+          estimateId={estimate.id}
+          onClose={() => setIsImportModalOpen(false)}
+          onImported={() => {
+            setIsImportModalOpen(false);
+            void loadEstimateData();
+          }}
+        />
+      ) : null}
+
+      {estimate ? (
+        <EstimateQuotationModal
+          isOpen={isQuotationModalOpen}
+          estimateId={estimate.id}
+          isReadOnly={isReadOnly}
+          onClose={() => setIsQuotationModalOpen(false)}
+          onSaved={() => {
+            setIsQuotationModalOpen(false);
+            void loadEstimateData();
+          }}
+        />
+      ) : null}
+
+      {estimate ? (
+        <SendEstimateModal
+          isOpen={isSendModalOpen}
+          estimateId={estimate.id}
+          pdfOptions={pdfOptions}
+          canSend={canEditByRole}
+          onClose={() => setIsSendModalOpen(false)}
+          onSent={(email) => {
+            setSentRecipients(email.recipients.join(", "));
+            setIsSendModalOpen(false);
+          }}
+        />
+      ) : null}
+
+      {estimate ? (
+        <EstimateReviewModal
+          isOpen={isReviewModalOpen}
+          estimateId={estimate.id}
+          status={estimate.status}
+          trail={reviewTrail}
+          currentUserId={userId}
+          currentUserRole={userRole}
+          canSubmit={canEditByRole}
+          unresolvedCommentCount={unresolvedCommentCount}
+          blockUnresolvedComments={approvalPolicy?.blockUnresolvedComments ?? false}
+          onClose={() => setIsReviewModalOpen(false)}
+          onReviewed={(message) => {
+            setReviewMessage(message);
+            setIsReviewModalOpen(false);
+            void loadEstimateData();
+          }}
+        />
+      ) : null}
+
+      {estimate ? (
+        <ShareLinksModal
+          isOpen={isShareModalOpen}
+          estimateId={estimate.id}
+          pdfOptions={pdfOptions}
+          canCreate={canEditByRole && estimate.status === "FINAL"}
+          canRevoke={canEditByRole}
+          onClose={() => {
+            setIsShareModalOpen(false);
+            void loadEstimateData();
+          }}
+        />
+      ) : null}
+
+      <PdfOptionsModal
+        isOpen={isPdfOptionsModalOpen}
+        value={pdfOptions}
+        onClose={() => setIsPdfOptionsModalOpen(false)}
+        onApply={(options) => {
+          setPdfOptions(options);
+          setIsPdfOptionsModalOpen(false);
+        }}
+      />
+
+      {estimate ? (
+        <EstimateTemplateModal
+          isOpen={isTemplateModalOpen}
+          estimateId={estimate.id}
+          inputVariables={computedInputVariables}
+          onClose={() => setIsTemplateModalOpen(false)}
+          onSaved={(template) => {
+            setSavedTemplateName(template.name);
+            setIsTemplateModalOpen(false);
+          }}
+        />
+      ) : null}
+
+      <Modal
+        isOpen={computationGroupToDelete !== null}
+        title="Remove Computed Line Items"
+        onClose={() => !isDeletingComputationGroup && setComputationGroupToDelete(null)}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Remove the {computationGroupToDelete?.outputVariables.length} line item(s) computed by{" "}
+          <strong>{computationGroupToDelete?.formulaName}</strong>? This action cannot be undone.
+        </p>
+        <div className="mt-4 flex justify-end gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => setComputationGroupToDelete(null)}
+            disabled={isDeletingComputationGroup}
+          >
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDeleteComputationGroup} disabled={isDeletingComputationGroup}>
+            {isDeletingComputationGroup ? "Removing..." : "Remove"}
+          </Button>
+        </div>
+      </Modal>
+
       <Modal
         isOpen={isPdfModalOpen}
         title="PDF Preview"
@@ -1727,11 +2545,23 @@ export default function EstimateEditorPage() {
         <p className="text-sm text-[var(--color-text-muted)]">
           Finalize this estimate? All line items will be locked and editing will be disabled.
         </p>
+        {unresolvedCommentCount > 0 ? (
+          <p className="mt-3 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            {`${unresolvedCommentCount} comment thread${unresolvedCommentCount === 1 ? " is" : "s are"} still open. `}
+            {approvalPolicy?.blockUnresolvedComments
+              ? "Resolve them before finalizing."
+              : "You can finalize anyway, but the open threads will stay unanswered."}
+          </p>
+        ) : null}
         <div className="mt-4 flex justify-end gap-2">
           <Button variant="secondary" onClick={() => setIsFinalizeModalOpen(false)} disabled={isFinalizing}>
             Cancel
           </Button>
-          <Button variant="danger" onClick={handleFinalizeEstimate} disabled={isFinalizing}>
+          <Button
+            variant="danger"
+            onClick={handleFinalizeEstimate}
+            disabled={isFinalizing || (unresolvedCommentCount > 0 && approvalPolicy?.blockUnresolvedComments === true)}
+          >
             {isFinalizing ? "Finalizing..." : "Finalize"}
           </Button>
         </div>
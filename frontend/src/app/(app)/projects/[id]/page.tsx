@@ -6,11 +6,18 @@ import {
   archiveEstimate,
   createEstimate,
   duplicateEstimate,
+  getClients,
   getProject,
+  getEstimateTemplates,
   getProjectEstimates,
+  getRegions,
   softDeleteEstimate,
+  updateProject,
+  type ClientSummary,
+  type EstimateTemplateSummary,
   type ProjectEstimateSummary,
   type ProjectSummary,
+  type Region,
 } from "@/lib/api";
 import { readAuthUser } from "@/lib/auth";
 import { formatCurrencyPhp, formatDate } from "@/lib/format";
@@ -22,17 +29,23 @@ import { Modal } from "@/components/ui/modal";
 import { Spinner } from "@/components/ui/spinner";
 
 const PAGE_SIZE = 20;
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
 
 type EstimateFormState = {
   label: string;
   markupRate: string;
   vatRate: string;
+  templateId: string;
+  templateParameters: Record<string, string>;
 };
 
 const INITIAL_ESTIMATE_FORM: EstimateFormState = {
   label: "",
   markupRate: "",
   vatRate: "12",
+  templateId: "",
+  templateParameters: {},
 };
 
 export default function ProjectDetailPage() {
@@ -52,12 +65,25 @@ export default function ProjectDetailPage() {
   const [estimateForm, setEstimateForm] = useState<EstimateFormState>(INITIAL_ESTIMATE_FORM);
   const [isCreating, setIsCreating] = useState(false);
   const [createError, setCreateError] = useState("");
+  const [templates, setTemplates] = useState<EstimateTemplateSummary[]>([]);
 
   const [estimateToDuplicate, setEstimateToDuplicate] = useState<ProjectEstimateSummary | null>(null);
   const [estimateToArchive, setEstimateToArchive] = useState<ProjectEstimateSummary | null>(null);
   const [estimateToDelete, setEstimateToDelete] = useState<ProjectEstimateSummary | null>(null);
   const [isWorking, setIsWorking] = useState(false);
 
+  const [isRegionModalOpen, setIsRegionModalOpen] = useState(false);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [selectedRegionId, setSelectedRegionId] = useState("");
+  const [regionError, setRegionError] = useState("");
+  const [isSavingRegion, setIsSavingRegion] = useState(false);
+
+  const [isClientModalOpen, setIsClientModalOpen] = useState(false);
+  const [clients, setClients] = useState<ClientSummary[]>([]);
+  const [selectedClientId, setSelectedClientId] = useState("");
+  const [clientError, setClientError] = useState("");
+  const [isSavingClient, setIsSavingClient] = useState(false);
+
   useEffect(() => {
     setUserRole(readAuthUser()?.role ?? "VIEWER");
   }, []);
@@ -113,13 +139,100 @@ export default function ProjectDetailPage() {
     setTotalPages(result.pagination.totalPages);
   }
 
+  const selectedTemplate = useMemo(
+    () => templates.find((template) => template.id === estimateForm.templateId) ?? null,
+    [estimateForm.templateId, templates],
+  );
+
+  async function openCreateModal(): Promise<void> {
+    setEstimateForm(INITIAL_ESTIMATE_FORM);
+    setCreateError("");
+    setIsCreateModalOpen(true);
+    try {
+      const result = await getEstimateTemplates();
+      setTemplates(result.items);
+    } catch (error) {
+      setCreateError(error instanceof Error ? error.message : "Failed to load templates");
+    }
+  }
+
+  function handleTemplateChange(templateId: string): void {
+    const template = templates.find((candidate) => candidate.id === templateId);
+    setEstimateForm((current) => ({
+      ...current,
+      templateId,
+      // Blank rates fall back to the template's own markup and VAT.
+      markupRate: template ? "" : current.markupRate,
+      vatRate: template ? "" : "12",
+      templateParameters: Object.fromEntries(
+        (template?.parameters ?? []).map((parameter) => [parameter.key, parameter.defaultValue?.toString() ?? ""]),
+      ),
+    }));
+  }
+
+  async function openRegionModal(): Promise<void> {
+    setSelectedRegionId(project?.region?.id ?? "");
+    setRegionError("");
+    setIsRegionModalOpen(true);
+    try {
+      const result = await getRegions();
+      setRegions(result.items);
+    } catch (error) {
+      setRegionError(error instanceof Error ? error.message : "Failed to load regions");
+    }
+  }
+
+  async function handleSaveRegion(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setRegionError("");
+    setIsSavingRegion(true);
+    try {
+      const updated = await updateProject(projectId, { regionId: selectedRegionId || null });
+      setProject(updated);
+      setIsRegionModalOpen(false);
+      await reloadEstimates();
+    } catch (error) {
+      setRegionError(error instanceof Error ? error.message : "Failed to update region");
+    } finally {
+      setIsSavingRegion(false);
+    }
+  }
+
+  async function openClientModal(): Promise<void> {
+    setSelectedClientId(project?.client?.id ?? "");
+    setClientError("");
+    setIsClientModalOpen(true);
+    try {
+      const result = await getClients({ pageSize: 100 });
+      setClients(result.items);
+    } catch (error) {
+      setClientError(error instanceof Error ? error.message : "Failed to load clients");
+    }
+  }
+
+  async function handleSaveClient(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setClientError("");
+    setIsSavingClient(true);
+    try {
+      const updated = await updateProject(projectId, { clientId: selectedClientId || null });
+      setProject(updated);
+      setIsClientModalOpen(false);
+    } catch (error) {
+      setClientError(error instanceof Error ? error.message : "Failed to update client");
+    } finally {
+      setIsSavingClient(false);
+    }
+  }
+
   async function handleCreateEstimate(event: React.FormEvent<HTMLFormElement>): Promise<void> {
     event.preventDefault();
     setCreateError("");
 
-    const markupRate = Number.parseFloat(estimateForm.markupRate);
-    const vatRate = Number.parseFloat(estimateForm.vatRate || "12");
-    if (!Number.isFinite(markupRate) || markupRate < 0) {
+    const markupRate = estimateForm.markupRate.trim() ? Number.parseFloat(estimateForm.markupRate) : undefined;
+    const vatRate = Number.parseFloat(estimateForm.vatRate || (selectedTemplate ? selectedTemplate.vatRate : "12"));
+    const isMarkupRateMissing = markupRate === undefined && !selectedTemplate;
+    if (isMarkupRateMissing || (markupRate !== undefined && (!Number.isFinite(markupRate) || markupRate < 0))) {
       setCreateError("Markup rate is required and must be 0 or greater.");
       return;
     }
@@ -129,12 +242,29 @@ export default function ProjectDetailPage() {
       return;
     }
 
+    const templateParameters: Record<string, number> = {};
+    for (const parameter of selectedTemplate?.parameters ?? []) {
+      const value = estimateForm.templateParameters[parameter.key]?.trim() ?? "";
+      if (value === "") {
+        continue;
+      }
+
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) {
+        setCreateError(`${parameter.label} must be a number.`);
+        return;
+      }
+
+      templateParameters[parameter.key] = parsed;
+    }
+
     setIsCreating(true);
     try {
       await createEstimate(projectId, {
         label: estimateForm.label.trim() ? estimateForm.label.trim() : undefined,
         markupRate,
         vatRate,
+        ...(selectedTemplate ? { templateId: selectedTemplate.id, templateParameters } : {}),
       });
       setIsCreateModalOpen(false);
       setEstimateForm(INITIAL_ESTIMATE_FORM);
@@ -217,14 +347,42 @@ export default function ProjectDetailPage() {
           <p className="mt-1 text-sm text-[var(--color-text-muted)]">
             {project ? `${project.location} · ${project.projectType}` : "Loading project details..."}
           </p>
+          {project ? (
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              Region:{" "}
+              {project.region
+                ? `${project.region.name} (materials ×${project.region.materialFactor}, labor ×${project.region.laborFactor})`
+                : "None (base prices)"}
+            </p>
+          ) : null}
+          {project ? (
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              Client: {project.client ? project.client.name : "None"}
+            </p>
+          ) : null}
         </div>
         {project ? (
           <div className="flex items-center gap-2">
             <Badge variant={project.status === "ACTIVE" ? "success" : "neutral"}>
               {project.status === "ACTIVE" ? "Active" : "Archived"}
             </Badge>
+            {estimates.length > 1 ? (
+              <Button variant="secondary" onClick={() => router.push(`/projects/${projectId}/compare`)}>
+                Compare Versions
+              </Button>
+            ) : null}
             {canManageEstimates ? (
-              <Button onClick={() => setIsCreateModalOpen(true)}>New Estimate</Button>
+              <Button variant="secondary" onClick={() => void openRegionModal()}>
+                Change Region
+              </Button>
+            ) : null}
+            {canManageEstimates ? (
+              <Button variant="secondary" onClick={() => void openClientModal()}>
+                Change Client
+              </Button>
+            ) : null}
+            {canManageEstimates ? (
+              <Button onClick={() => void openCreateModal()}>New Estimate</Button>
             ) : null}
           </div>
         ) : null}
@@ -284,7 +442,7 @@ export default function ProjectDetailPage() {
                       variant={
                         estimate.status === "FINAL"
                           ? "neutral"
-                          : estimate.status === "ARCHIVED"
+                          : estimate.status === "ARCHIVED" || estimate.status === "FOR_REVIEW"
                             ? "warning"
                             : "success"
                       }
@@ -293,7 +451,9 @@ export default function ProjectDetailPage() {
                         ? "Draft"
                         : estimate.status === "FINAL"
                           ? "Final"
-                          : "Archived"}
+                          : estimate.status === "FOR_REVIEW"
+                            ? "For Review"
+                            : "Archived"}
                     </Badge>
                   </td>
                   <td className="px-4 py-3">{formatCurrencyPhp(estimate.totalAmount)}</td>
@@ -365,6 +525,52 @@ export default function ProjectDetailPage() {
 
       <Modal isOpen={isCreateModalOpen} title="New Estimate" onClose={() => setIsCreateModalOpen(false)}>
         <form className="space-y-4" onSubmit={handleCreateEstimate}>
+          {templates.length > 0 ? (
+            <div>
+              <Label htmlFor="estimateTemplate">Template</Label>
+              <select
+                id="estimateTemplate"
+                className={SELECT_CLASS}
+                value={estimateForm.templateId}
+                onChange={(event) => handleTemplateChange(event.target.value)}
+              >
+                <option value="">Blank estimate</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+              {selectedTemplate?.description ? (
+                <p className="mt-1 text-xs text-[var(--color-text-muted)]">{selectedTemplate.description}</p>
+              ) : null}
+            </div>
+          ) : null}
+          {selectedTemplate && selectedTemplate.parameters.length > 0 ? (
+            <div className="grid gap-3 sm:grid-cols-2">
+              {selectedTemplate.parameters.map((parameter) => (
+                <div key={parameter.key}>
+                  <Label htmlFor={`templateParameter-${parameter.key}`}>
+                    {parameter.label}
+                    {parameter.unit ? ` (${parameter.unit})` : ""}
+                  </Label>
+                  <Input
+                    id={`templateParameter-${parameter.key}`}
+                    type="number"
+                    step="any"
+                    value={estimateForm.templateParameters[parameter.key] ?? ""}
+                    onChange={(event) =>
+                      setEstimateForm((current) => ({
+                        ...current,
+                        templateParameters: { ...current.templateParameters, [parameter.key]: event.target.value },
+                      }))
+                    }
+                    placeholder="Saved value"
+                  />
+                </div>
+              ))}
+            </div>
+          ) : null}
           <div>
             <Label htmlFor="estimateLabel">Estimate Label (optional)</Label>
             <Input
@@ -393,7 +599,7 @@ export default function ProjectDetailPage() {
                   markupRate: event.target.value,
                 }))
               }
-              placeholder="e.g. 10"
+              placeholder={selectedTemplate ? `Template: ${Number.parseFloat(selectedTemplate.markupRate)}` : "e.g. 10"}
             />
           </div>
           <div>
@@ -410,6 +616,7 @@ export default function ProjectDetailPage() {
                   vatRate: event.target.value,
                 }))
               }
+              placeholder={selectedTemplate ? `Template: ${Number.parseFloat(selectedTemplate.vatRate)}` : undefined}
             />
           </div>
           {createError ? (
@@ -428,6 +635,98 @@ export default function ProjectDetailPage() {
         </form>
       </Modal>
 
+      <Modal
+        isOpen={isRegionModalOpen}
+        title="Change Region"
+        onClose={() => {
+          if (!isSavingRegion) {
+            setIsRegionModalOpen(false);
+          }
+        }}
+      >
+        <form className="space-y-4" onSubmit={handleSaveRegion}>
+          <div>
+            <Label htmlFor="projectRegion">Region</Label>
+            <select
+              id="projectRegion"
+              className={SELECT_CLASS}
+              value={selectedRegionId}
+              onChange={(event) => setSelectedRegionId(event.target.value)}
+              disabled={isSavingRegion}
+            >
+              <option value="">No region (base prices)</option>
+              {regions.map((region) => (
+                <option key={region.id} value={region.id}>
+                  {region.name} (materials ×{region.materialFactor}, labor ×{region.laborFactor})
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-[var(--color-text-muted)]">
+              Draft estimates are recalculated with the new regional factors. Finalized estimates keep their totals.
+            </p>
+          </div>
+          {regionError ? (
+            <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+              {regionError}
+            </p>
+          ) : null}
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setIsRegionModalOpen(false)} disabled={isSavingRegion}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSavingRegion}>
+              {isSavingRegion ? "Saving..." : "Save Region"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={isClientModalOpen}
+        title="Change Client"
+        onClose={() => {
+          if (!isSavingClient) {
+            setIsClientModalOpen(false);
+          }
+        }}
+      >
+        <form className="space-y-4" onSubmit={handleSaveClient}>
+          <div>
+            <Label htmlFor="projectClient">Client</Label>
+            <select
+              id="projectClient"
+              className={SELECT_CLASS}
+              value={selectedClientId}
+              onChange={(event) => setSelectedClientId(event.target.value)}
+              disabled={isSavingClient}
+            >
+              <option value="">No client</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>
+                  {client.name}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-[var(--color-text-muted)]">
+              Quotation PDFs are addressed to this client and its primary contact.
+            </p>
+          </div>
+          {clientError ? (
+            <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+              {clientError}
+            </p>
+          ) : null}
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setIsClientModalOpen(false)} disabled={isSavingClient}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSavingClient}>
+              {isSavingClient ? "Saving..." : "Save Client"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
       <Modal isOpen={estimateToDuplicate !== null} title="Duplicate Estimate" onClose={() => setEstimateToDuplicate(null)}>
         <p className="text-sm text-[var(--color-text-muted)]">
           Create a new draft version from <strong>v{estimateToDuplicate?.versionNumber}</strong>?
@@ -0,0 +1,224 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getApprovalPolicy, updateApprovalPolicy, type ApprovalPolicy } from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { formatCurrencyPhp, formatDate } from "@/lib/format";
+import { SettingsTabs } from "@/components/layout/settings-tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+type ApprovalPolicyFormState = {
+  requireReview: boolean;
+  adminApprovalThreshold: string;
+  blockUnresolvedComments: boolean;
+};
+
+function toFormState(policy: ApprovalPolicy): ApprovalPolicyFormState {
+  return {
+    requireReview: policy.requireReview,
+    adminApprovalThreshold: policy.adminApprovalThreshold ? String(Number(policy.adminApprovalThreshold)) : "",
+    blockUnresolvedComments: policy.blockUnresolvedComments,
+  };
+}
+
+export default function ApprovalSettingsPage() {
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [policy, setPolicy] = useState<ApprovalPolicy | null>(null);
+  const [formState, setFormState] = useState<ApprovalPolicyFormState>({
+    requireReview: false,
+    adminApprovalThreshold: "",
+    blockUnresolvedComments: false,
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [formError, setFormError] = useState("");
+  const [notice, setNotice] = useState<{
+    message: string;
+    variant: "success" | "error" | "info";
+  } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+
+  const loadPolicy = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      const result = await getApprovalPolicy();
+      setPolicy(result);
+      setFormState(toFormState(result));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load approval settings");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPolicy();
+  }, [loadPolicy]);
+
+  async function handleSave(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setFormError("");
+
+    const thresholdText = formState.adminApprovalThreshold.trim();
+    const threshold = thresholdText ? Number(thresholdText) : null;
+    if (threshold !== null && (!Number.isFinite(threshold) || threshold < 0)) {
+      setFormError("The admin approval threshold must be a positive amount.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await updateApprovalPolicy({
+        requireReview: formState.requireReview,
+        adminApprovalThreshold: threshold,
+        blockUnresolvedComments: formState.blockUnresolvedComments,
+      });
+      setPolicy(updated);
+      setFormState(toFormState(updated));
+      setNotice({ variant: "success", message: "Saved approval settings." });
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save approval settings");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Organization
+          </p>
+          <h1 className="text-3xl font-semibold">Approvals</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Decide whether estimates need a second reviewer before they are finalized.
+          </p>
+        </div>
+      </div>
+
+      <SettingsTabs />
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+          <Spinner />
+          <span>Loading approval settings...</span>
+        </div>
+      ) : policy ? (
+        <form className="max-w-2xl space-y-4" onSubmit={handleSave}>
+          <fieldset
+            className="space-y-4 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4"
+            disabled={!isAdmin || isSaving}
+          >
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={formState.requireReview}
+                onChange={(event) => setFormState((current) => ({ ...current, requireReview: event.target.checked }))}
+              />
+              <span>
+                <span className="block font-medium">Require review before finalizing</span>
+                <span className="block text-[var(--color-text-muted)]">
+                  Estimators submit drafts for review; a different user approves them. Estimates can still be submitted
+                  for review when this is off.
+                </span>
+              </span>
+            </label>
+
+            <div className="max-w-xs">
+              <Label htmlFor="adminApprovalThreshold">Admin approval above (PHP)</Label>
+              <Input
+                id="adminApprovalThreshold"
+                type="number"
+                min={0}
+                step="0.01"
+                value={formState.adminApprovalThreshold}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    adminApprovalThreshold: event.target.value,
+                  }))
+                }
+                placeholder="No threshold"
+              />
+              <p className="mt-1 text-xs text-[var(--color-text-muted)]">
+                Estimates totalling more than this can only be approved or rejected by an administrator. Leave blank to
+                let estimators review any estimate.
+              </p>
+            </div>
+
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={formState.blockUnresolvedComments}
+                onChange={(event) =>
+                  setFormState((current) => ({ ...current, blockUnresolvedComments: event.target.checked }))
+                }
+              />
+              <span>
+                <span className="block font-medium">Block finalizing with open comments</span>
+                <span className="block text-[var(--color-text-muted)]">
+                  Every comment thread must be resolved before an estimate is finalized or approved. When this is off,
+                  the editor only warns about open threads.
+                </span>
+              </span>
+            </label>
+          </fieldset>
+
+          {formError ? (
+            <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+              {formError}
+            </p>
+          ) : null}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-[var(--color-text-muted)]">
+              {policy.updatedAt
+                ? `Last updated ${formatDate(policy.updatedAt)}${policy.updatedBy ? ` by ${policy.updatedBy.name}` : ""}.`
+                : "Estimates can be finalized without review."}
+              {policy.adminApprovalThreshold
+                ? ` Admin approval applies above ${formatCurrencyPhp(policy.adminApprovalThreshold)}.`
+                : ""}
+            </p>
+            {isAdmin ? (
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save Changes"}
+              </Button>
+            ) : (
+              <p className="text-xs text-[var(--color-text-muted)]">Only administrators can change these settings.</p>
+            )}
+          </div>
+        </form>
+      ) : null}
+    </section>
+  );
+}
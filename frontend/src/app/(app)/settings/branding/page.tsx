@@ -0,0 +1,442 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  deleteBrandingLogo,
+  getBranding,
+  getBrandingLogo,
+  previewQuotation,
+  updateBranding,
+  uploadBrandingLogo,
+  type BrandingFields,
+  type OrganizationBranding,
+  type QuotationSections,
+} from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { formatDate } from "@/lib/format";
+import { QuotationSectionsEditor } from "@/components/branding/quotation-sections-editor";
+import { SettingsTabs } from "@/components/layout/settings-tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+const TEXTAREA_CLASS =
+  "min-h-20 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-sm text-[var(--color-text)]";
+
+type BrandingFormState = {
+  primaryColor: string;
+  accentColor: string;
+  address: string;
+  tin: string;
+  email: string;
+  phone: string;
+  website: string;
+};
+
+function toFormState(branding: OrganizationBranding): BrandingFormState {
+  return {
+    primaryColor: branding.primaryColor,
+    accentColor: branding.accentColor,
+    address: branding.address ?? "",
+    tin: branding.tin ?? "",
+    email: branding.email ?? "",
+    phone: branding.phone ?? "",
+    website: branding.website ?? "",
+  };
+}
+
+function toBrandingFields(formState: BrandingFormState): BrandingFields {
+  return {
+    primaryColor: formState.primaryColor,
+    accentColor: formState.accentColor,
+    address: formState.address.trim() || null,
+    tin: formState.tin.trim() || null,
+    email: formState.email.trim() || null,
+    phone: formState.phone.trim() || null,
+    website: formState.website.trim() || null,
+  };
+}
+
+export default function BrandingPage() {
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [branding, setBranding] = useState<OrganizationBranding | null>(null);
+  const [formState, setFormState] = useState<BrandingFormState | null>(null);
+  const [sections, setSections] = useState<QuotationSections>({});
+  const [logoPreviewUrl, setLogoPreviewUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [formError, setFormError] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+
+  const applyBranding = useCallback((next: OrganizationBranding): void => {
+    setBranding(next);
+    setFormState(toFormState(next));
+    setSections(next.sections);
+  }, []);
+
+  const loadBranding = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      applyBranding(await getBranding());
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load branding");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applyBranding]);
+
+  useEffect(() => {
+    void loadBranding();
+  }, [loadBranding]);
+
+  // The logo endpoint needs the access token, so it is fetched as a blob rather than linked.
+  const logoVersion = branding?.logoUrl ? branding.updatedAt : null;
+  useEffect(() => {
+    if (!logoVersion) {
+      setLogoPreviewUrl(null);
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let isCancelled = false;
+    void getBrandingLogo()
+      .then((blob) => {
+        if (!isCancelled) {
+          objectUrl = URL.createObjectURL(blob);
+          setLogoPreviewUrl(objectUrl);
+        }
+      })
+      .catch(() => {
+        if (!isCancelled) {
+          setLogoPreviewUrl(null);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [logoVersion]);
+
+  function updateField(field: keyof BrandingFormState, value: string): void {
+    setFormState((current) => (current ? { ...current, [field]: value } : current));
+  }
+
+  async function handleSave(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    if (!formState) {
+      return;
+    }
+
+    setFormError("");
+    setIsSaving(true);
+    try {
+      applyBranding(await updateBranding({ ...toBrandingFields(formState), sections }));
+      setNotice({ variant: "success", message: "Saved quotation branding." });
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save branding");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleLogoSelected(file: File | null): Promise<void> {
+    if (!file) {
+      return;
+    }
+
+    setFormError("");
+    setIsUploadingLogo(true);
+    try {
+      const updated = await uploadBrandingLogo(file);
+      setBranding(updated);
+      setNotice({ variant: "success", message: "Uploaded logo." });
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to upload logo");
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  }
+
+  async function handleRemoveLogo(): Promise<void> {
+    setFormError("");
+    setIsUploadingLogo(true);
+    try {
+      const updated = await deleteBrandingLogo();
+      setBranding(updated);
+      setNotice({ variant: "success", message: "Removed logo." });
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to remove logo");
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  }
+
+  async function handlePreview(): Promise<void> {
+    if (!formState) {
+      return;
+    }
+
+    setFormError("");
+    setIsPreviewing(true);
+    try {
+      const result = await previewQuotation({ branding: toBrandingFields(formState), sections });
+      setPreviewHtml(result.html);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to preview quotation");
+    } finally {
+      setIsPreviewing(false);
+    }
+  }
+
+  const isBusy = isSaving || isUploadingLogo || isPreviewing;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Organization
+          </p>
+          <h1 className="text-3xl font-semibold">Branding</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Company details and standard sections printed on every quotation PDF.
+          </p>
+        </div>
+      </div>
+
+      <SettingsTabs />
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+          <Spinner />
+          <span>Loading branding...</span>
+        </div>
+      ) : formState ? (
+        <form className="space-y-6" onSubmit={handleSave}>
+          <div className="space-y-4 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4">
+            <p className="text-base font-semibold">Company Details</p>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex h-16 w-44 items-center justify-center rounded-md border border-dashed border-[var(--color-border)] bg-white">
+                {logoPreviewUrl ? (
+                  // eslint-disable-next-line @next/next/no-img-element -- blob URLs cannot go through next/image
+                  <img src={logoPreviewUrl} alt="Organization logo" className="max-h-14 max-w-40 object-contain" />
+                ) : (
+                  <span className="text-xs text-gray-500">No logo</span>
+                )}
+              </div>
+              {isAdmin ? (
+                <div className="space-y-2">
+                  <input
+                    id="brandingLogo"
+                    type="file"
+                    accept=".png,.jpg,.jpeg,.webp,image/png,image/jpeg,image/webp"
+                    className="block text-sm"
+                    onChange={(event) => {
+                      void handleLogoSelected(event.target.files?.[0] ?? null);
+                      event.target.value = "";
+                    }}
+                    disabled={isBusy}
+                    aria-label="Upload logo"
+                  />
+                  <p className="text-xs text-[var(--color-text-muted)]">PNG, JPEG or WebP, up to 1 MB.</p>
+                  {branding?.logoUrl ? (
+                    <Button
+                      variant="ghost"
+                      className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                      onClick={() => void handleRemoveLogo()}
+                      disabled={isBusy}
+                    >
+                      Remove Logo
+                    </Button>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+
+            <fieldset className="space-y-4" disabled={!isAdmin || isBusy}>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="brandingPrimaryColor">Primary Color</Label>
+                  <div className="flex gap-2">
+                    <input
+                      type="color"
+                      aria-label="Pick primary color"
+                      className="h-10 w-12 rounded-md border border-[var(--color-border)]"
+                      value={formState.primaryColor}
+                      onChange={(event) => updateField("primaryColor", event.target.value)}
+                    />
+                    <Input
+                      id="brandingPrimaryColor"
+                      value={formState.primaryColor}
+                      onChange={(event) => updateField("primaryColor", event.target.value)}
+                      pattern="#[0-9a-fA-F]{6}"
+                      required
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="brandingAccentColor">Accent Color</Label>
+                  <div className="flex gap-2">
+                    <input
+                      type="color"
+                      aria-label="Pick accent color"
+                      className="h-10 w-12 rounded-md border border-[var(--color-border)]"
+                      value={formState.accentColor}
+                      onChange={(event) => updateField("accentColor", event.target.value)}
+                    />
+                    <Input
+                      id="brandingAccentColor"
+                      value={formState.accentColor}
+                      onChange={(event) => updateField("accentColor", event.target.value)}
+                      pattern="#[0-9a-fA-F]{6}"
+                      required
+                    />
+                  </div>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="brandingAddress">Address</Label>
+                <textarea
+                  id="brandingAddress"
+                  className={TEXTAREA_CLASS}
+                  value={formState.address}
+                  onChange={(event) => updateField("address", event.target.value)}
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="brandingTin">TIN</Label>
+                  <Input
+                    id="brandingTin"
+                    value={formState.tin}
+                    onChange={(event) => updateField("tin", event.target.value)}
+                    placeholder="000-000-000-000"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="brandingEmail">Email</Label>
+                  <Input
+                    id="brandingEmail"
+                    type="email"
+                    value={formState.email}
+                    onChange={(event) => updateField("email", event.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="brandingPhone">Phone</Label>
+                  <Input
+                    id="brandingPhone"
+                    value={formState.phone}
+                    onChange={(event) => updateField("phone", event.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="brandingWebsite">Website</Label>
+                  <Input
+                    id="brandingWebsite"
+                    value={formState.website}
+                    onChange={(event) => updateField("website", event.target.value)}
+                  />
+                </div>
+              </div>
+            </fieldset>
+          </div>
+
+          <div className="space-y-4 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4">
+            <div>
+              <p className="text-base font-semibold">Quotation Sections</p>
+              <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+                Defaults for every estimate. Estimators can override any section on a single estimate.
+              </p>
+            </div>
+            <QuotationSectionsEditor
+              idPrefix="branding"
+              value={sections}
+              onChange={setSections}
+              disabled={!isAdmin || isBusy}
+            />
+          </div>
+
+          {formError ? (
+            <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+              {formError}
+            </p>
+          ) : null}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-[var(--color-text-muted)]">
+              {branding?.updatedAt
+                ? `Last updated ${formatDate(branding.updatedAt)}${branding.updatedBy ? ` by ${branding.updatedBy.name}` : ""}.`
+                : "Using the default layout."}
+            </p>
+            <div className="flex gap-2">
+              {userRole !== "VIEWER" ? (
+                <Button variant="secondary" onClick={() => void handlePreview()} disabled={isBusy}>
+                  {isPreviewing ? "Rendering..." : "Preview"}
+                </Button>
+              ) : null}
+              {isAdmin ? (
+                <Button type="submit" disabled={isBusy}>
+                  {isSaving ? "Saving..." : "Save Changes"}
+                </Button>
+              ) : null}
+            </div>
+          </div>
+        </form>
+      ) : null}
+
+      <Modal
+        isOpen={previewHtml !== null}
+        title="Quotation Preview"
+        className="max-w-4xl"
+        onClose={() => {
+          setPreviewHtml(null);
+        }}
+      >
+        <p className="mb-3 text-sm text-[var(--color-text-muted)]">
+          Shown with the most recently updated estimate. Unsaved changes are included.
+        </p>
+        <iframe
+          title="Quotation preview"
+          sandbox=""
+          srcDoc={previewHtml ?? ""}
+          className="h-[70vh] w-full rounded-md border border-[var(--color-border)] bg-white"
+        />
+      </Modal>
+    </section>
+  );
+}
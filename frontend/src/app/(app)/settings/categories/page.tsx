@@ -0,0 +1,406 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createCategory, deleteCategory, getCategories, updateCategory, type CategoryNode } from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { formatDate } from "@/lib/format";
+import { SettingsTabs } from "@/components/layout/settings-tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+const MAX_CATEGORY_DEPTH = 3;
+const DEPTH_LABELS = ["Division", "Section", "Item"];
+
+type CategoryFormState = {
+  code: string;
+  name: string;
+  parentId: string;
+  sortOrder: string;
+};
+
+const INITIAL_CATEGORY_FORM: CategoryFormState = {
+  code: "",
+  name: "",
+  parentId: "",
+  sortOrder: "0",
+};
+
+/** Ids of the category and everything nested under it; `categories` must be in tree order. */
+function collectSubtreeIds(categories: CategoryNode[], categoryId: string): Set<string> {
+  const ids = new Set<string>();
+  const startIndex = categories.findIndex((category) => category.id === categoryId);
+  if (startIndex === -1) {
+    return ids;
+  }
+
+  const root = categories[startIndex];
+  ids.add(root.id);
+  for (let index = startIndex + 1; index < categories.length; index += 1) {
+    if (categories[index].depth <= root.depth) {
+      break;
+    }
+    ids.add(categories[index].id);
+  }
+
+  return ids;
+}
+
+export default function CategoriesPage() {
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [categoryToEdit, setCategoryToEdit] = useState<CategoryNode | null>(null);
+  const [formState, setFormState] = useState<CategoryFormState>(INITIAL_CATEGORY_FORM);
+  const [formError, setFormError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [categoryToDelete, setCategoryToDelete] = useState<CategoryNode | null>(null);
+  const [deleteError, setDeleteError] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+
+  const parentOptions = useMemo(() => {
+    const excludedIds = categoryToEdit ? collectSubtreeIds(categories, categoryToEdit.id) : new Set<string>();
+    return categories.filter((category) => category.depth < MAX_CATEGORY_DEPTH && !excludedIds.has(category.id));
+  }, [categories, categoryToEdit]);
+
+  const loadCategories = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      const result = await getCategories();
+      setCategories(result.items);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load categories");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCategories();
+  }, [loadCategories]);
+
+  function openCreateModal(parent: CategoryNode | null): void {
+    setCategoryToEdit(null);
+    setFormState({ ...INITIAL_CATEGORY_FORM, parentId: parent?.id ?? "" });
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function openEditModal(category: CategoryNode): void {
+    setCategoryToEdit(category);
+    setFormState({
+      code: category.code,
+      name: category.name,
+      parentId: category.parentId ?? "",
+      sortOrder: category.sortOrder.toString(),
+    });
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function closeFormModal(): void {
+    setIsFormOpen(false);
+    setCategoryToEdit(null);
+    setFormError("");
+  }
+
+  async function handleSaveCategory(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setFormError("");
+
+    const sortOrder = Number(formState.sortOrder);
+    if (!Number.isInteger(sortOrder) || sortOrder < 0) {
+      setFormError("Sort order must be a whole number of zero or more.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        code: formState.code.trim().toUpperCase(),
+        name: formState.name.trim(),
+        parentId: formState.parentId || null,
+        sortOrder,
+      };
+
+      if (categoryToEdit) {
+        const updated = await updateCategory(categoryToEdit.id, payload);
+        setNotice({ variant: "success", message: `Updated category ${updated.name}.` });
+      } else {
+        const created = await createCategory(payload);
+        setNotice({ variant: "success", message: `Created category ${created.name}.` });
+      }
+
+      closeFormModal();
+      await loadCategories();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save category");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeleteCategory(): Promise<void> {
+    if (!categoryToDelete) {
+      return;
+    }
+
+    setDeleteError("");
+    setIsDeleting(true);
+    try {
+      await deleteCategory(categoryToDelete.id);
+      setNotice({ variant: "success", message: `Deleted category ${categoryToDelete.name}.` });
+      setCategoryToDelete(null);
+      await loadCategories();
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : "Failed to delete category");
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  const isCodeLocked =
+    categoryToEdit !== null &&
+    categoryToEdit.lineItemCount + categoryToEdit.formulaCount + categoryToEdit.templateLineItemCount > 0;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Organization
+          </p>
+          <h1 className="text-3xl font-semibold">Categories</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Work breakdown used to group line items and formulas, nested as division, section and item.
+          </p>
+        </div>
+        {isAdmin ? <Button onClick={() => openCreateModal(null)}>New Division</Button> : null}
+      </div>
+
+      <SettingsTabs />
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Loading categories...</span>
+          </div>
+        ) : categories.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <p className="text-base font-medium">No categories yet.</p>
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              Add a division to start filing line items and formulas.
+            </p>
+          </div>
+        ) : (
+          <table role="table" className="w-full text-sm">
+            <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+              <tr>
+                <th scope="col" className="px-4 py-3 font-medium">Category</th>
+                <th scope="col" className="px-4 py-3 font-medium">Code</th>
+                <th scope="col" className="px-4 py-3 font-medium">Level</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Line Items</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Formulas</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Template Items</th>
+                <th scope="col" className="px-4 py-3 font-medium">Updated</th>
+                {isAdmin ? <th scope="col" className="px-4 py-3 text-right font-medium">Actions</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((category) => (
+                <tr key={category.id} className="border-t border-[var(--color-border)]">
+                  <td className="px-4 py-3 font-medium">
+                    <span style={{ paddingLeft: `${(category.depth - 1) * 1.25}rem` }}>{category.name}</span>
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs">{category.code}</td>
+                  <td className="px-4 py-3">{DEPTH_LABELS[category.depth - 1] ?? "Item"}</td>
+                  <td className="px-4 py-3 text-right">{category.lineItemCount}</td>
+                  <td className="px-4 py-3 text-right">{category.formulaCount}</td>
+                  <td className="px-4 py-3 text-right">{category.templateLineItemCount}</td>
+                  <td className="px-4 py-3">{formatDate(category.updatedAt)}</td>
+                  {isAdmin ? (
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex justify-end gap-1">
+                        {category.depth < MAX_CATEGORY_DEPTH ? (
+                          <Button
+                            variant="ghost"
+                            className="h-8 px-2 text-xs"
+                            onClick={() => openCreateModal(category)}
+                          >
+                            Add {DEPTH_LABELS[category.depth]}
+                          </Button>
+                        ) : null}
+                        <Button variant="ghost" className="h-8 px-2 text-xs" onClick={() => openEditModal(category)}>
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                          onClick={() => {
+                            setDeleteError("");
+                            setCategoryToDelete(category);
+                          }}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Modal
+        isOpen={isFormOpen}
+        title={categoryToEdit ? "Edit Category" : "New Category"}
+        onClose={() => {
+          if (!isSaving) {
+            closeFormModal();
+          }
+        }}
+      >
+        <form className="space-y-4" onSubmit={handleSaveCategory}>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="categoryCode">Code</Label>
+              <Input
+                id="categoryCode"
+                value={formState.code}
+                onChange={(event) => setFormState((current) => ({ ...current, code: event.target.value }))}
+                placeholder="e.g. ELECTRICAL or 03-100"
+                required
+                disabled={isSaving || isCodeLocked}
+              />
+              {isCodeLocked ? (
+                <p className="mt-1 text-xs text-[var(--color-text-muted)]">
+                  The code cannot change while line items, formulas or estimate templates use this category.
+                </p>
+              ) : null}
+            </div>
+            <div>
+              <Label htmlFor="categorySortOrder">Sort Order</Label>
+              <Input
+                id="categorySortOrder"
+                type="number"
+                min="0"
+                step="1"
+                value={formState.sortOrder}
+                onChange={(event) => setFormState((current) => ({ ...current, sortOrder: event.target.value }))}
+                required
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="categoryName">Name</Label>
+            <Input
+              id="categoryName"
+              value={formState.name}
+              onChange={(event) => setFormState((current) => ({ ...current, name: event.target.value }))}
+              placeholder="e.g. Electrical Works"
+              required
+              disabled={isSaving}
+            />
+          </div>
+          <div>
+            <Label htmlFor="categoryParent">Parent</Label>
+            <select
+              id="categoryParent"
+              className={SELECT_CLASS}
+              value={formState.parentId}
+              onChange={(event) => setFormState((current) => ({ ...current, parentId: event.target.value }))}
+              disabled={isSaving}
+            >
+              <option value="">None (division)</option>
+              {parentOptions.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {`${"  ".repeat(category.depth - 1)}${category.code} ${category.name}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {formError ? (
+            <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+              {formError}
+            </p>
+          ) : null}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={closeFormModal} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : categoryToEdit ? "Save Changes" : "Create Category"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={categoryToDelete !== null}
+        title="Delete Category"
+        onClose={() => {
+          if (!isDeleting) {
+            setCategoryToDelete(null);
+          }
+        }}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Delete <strong>{categoryToDelete?.name}</strong>? Categories with subcategories, line items or formulas cannot
+          be deleted.
+        </p>
+        {deleteError ? (
+          <p role="alert" className="mt-3 text-sm text-rose-600 dark:text-rose-300">
+            {deleteError}
+          </p>
+        ) : null}
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="secondary" onClick={() => setCategoryToDelete(null)} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDeleteCategory} disabled={isDeleting}>
+            {isDeleting ? "Deleting..." : "Delete"}
+          </Button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  getEmailTemplates,
+  previewEmailTemplate,
+  resetEmailTemplate,
+  updateEmailTemplate,
+  type EmailTemplate,
+  type EmailTemplateContent,
+  type EmailTemplateKey,
+} from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { formatDate } from "@/lib/format";
+import { SettingsTabs } from "@/components/layout/settings-tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+const TEXTAREA_CLASS =
+  "min-h-40 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 font-mono text-xs text-[var(--color-text)]";
+
+function toContent(template: EmailTemplate): EmailTemplateContent {
+  return {
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  };
+}
+
+export default function EmailTemplatesPage() {
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey | null>(null);
+  const [formState, setFormState] = useState<EmailTemplateContent | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [formError, setFormError] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const [preview, setPreview] = useState<EmailTemplateContent | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+
+  const selectedTemplate = useMemo(
+    () => templates.find((template) => template.key === selectedKey) ?? null,
+    [selectedKey, templates],
+  );
+
+  const loadTemplates = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      const result = await getEmailTemplates();
+      setTemplates(result.items);
+      const first = result.items[0];
+      if (first) {
+        setSelectedKey(first.key);
+        setFormState(toContent(first));
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load email templates");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      void loadTemplates();
+    } else {
+      setIsLoading(false);
+    }
+  }, [isAdmin, loadTemplates]);
+
+  function selectTemplate(template: EmailTemplate): void {
+    setSelectedKey(template.key);
+    setFormState(toContent(template));
+    setFormError("");
+  }
+
+  function applyTemplate(next: EmailTemplate): void {
+    setTemplates((current) => current.map((template) => (template.key === next.key ? next : template)));
+    setFormState(toContent(next));
+  }
+
+  function updateField(field: keyof EmailTemplateContent, value: string): void {
+    setFormState((current) => (current ? { ...current, [field]: value } : current));
+  }
+
+  async function handleSave(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    if (!selectedKey || !formState) {
+      return;
+    }
+
+    setFormError("");
+    setIsSaving(true);
+    try {
+      applyTemplate(await updateEmailTemplate(selectedKey, formState));
+      setNotice({ variant: "success", message: "Saved email template." });
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save email template");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleReset(): Promise<void> {
+    if (!selectedKey) {
+      return;
+    }
+
+    setFormError("");
+    setIsResetting(true);
+    try {
+      applyTemplate(await resetEmailTemplate(selectedKey));
+      setNotice({ variant: "success", message: "Restored the default template." });
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to reset email template");
+    } finally {
+      setIsResetting(false);
+    }
+  }
+
+  async function handlePreview(): Promise<void> {
+    if (!selectedKey || !formState) {
+      return;
+    }
+
+    setFormError("");
+    setIsPreviewing(true);
+    try {
+      setPreview(await previewEmailTemplate(selectedKey, formState));
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to preview email template");
+    } finally {
+      setIsPreviewing(false);
+    }
+  }
+
+  const isBusy = isSaving || isResetting || isPreviewing;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Organization
+          </p>
+          <h1 className="text-3xl font-semibold">Email</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Subject, HTML and plain-text versions of the emails EstimatePro sends for your organization.
+          </p>
+        </div>
+      </div>
+
+      <SettingsTabs />
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      {!isAdmin && !isLoading ? (
+        <p className="rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-4 py-6 text-sm text-[var(--color-text-muted)]">
+          Only administrators can manage email templates.
+        </p>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+          <Spinner />
+          <span>Loading email templates...</span>
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+          <nav aria-label="Email templates" className="space-y-1">
+            {templates.map((template) => {
+              const active = template.key === selectedKey;
+              return (
+                <button
+                  key={template.key}
+                  type="button"
+                  aria-current={active ? "true" : undefined}
+                  className={
+                    active
+                      ? "w-full rounded-md border border-[var(--color-accent-strong)] bg-[var(--color-surface)] px-3 py-2 text-left text-sm"
+                      : "w-full rounded-md border border-transparent px-3 py-2 text-left text-sm hover:bg-[var(--color-surface)]"
+                  }
+                  onClick={() => selectTemplate(template)}
+                  disabled={isBusy}
+                >
+                  <span className="block font-medium">{template.label}</span>
+                  <span className="block text-xs text-[var(--color-text-muted)]">
+                    {template.isCustomized ? "Customized" : "Default"}
+                  </span>
+                </button>
+              );
+            })}
+          </nav>
+
+          {selectedTemplate && formState ? (
+            <form className="space-y-4" onSubmit={handleSave}>
+              <div className="space-y-4 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4">
+                <div>
+                  <p className="text-base font-semibold">{selectedTemplate.label}</p>
+                  <p className="mt-1 text-sm text-[var(--color-text-muted)]">{selectedTemplate.description}</p>
+                </div>
+
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <span className="text-[var(--color-text-muted)]">Placeholders:</span>
+                  {selectedTemplate.variables.map((variable) => (
+                    <code
+                      key={variable}
+                      className="rounded bg-[var(--color-surface-2)] px-1.5 py-0.5 text-[var(--color-text)]"
+                    >
+                      {`{{${variable}}}`}
+                    </code>
+                  ))}
+                </div>
+
+                <fieldset className="space-y-4" disabled={isBusy}>
+                  <div>
+                    <Label htmlFor="emailTemplateSubject">Subject</Label>
+                    <Input
+                      id="emailTemplateSubject"
+                      value={formState.subject}
+                      onChange={(event) => updateField("subject", event.target.value)}
+                      maxLength={200}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="emailTemplateHtml">HTML Body</Label>
+                    <textarea
+                      id="emailTemplateHtml"
+                      className={TEXTAREA_CLASS}
+                      value={formState.html}
+                      onChange={(event) => updateField("html", event.target.value)}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="emailTemplateText">Plain-Text Body</Label>
+                    <textarea
+                      id="emailTemplateText"
+                      className={TEXTAREA_CLASS}
+                      value={formState.text}
+                      onChange={(event) => updateField("text", event.target.value)}
+                      required
+                    />
+                  </div>
+                </fieldset>
+              </div>
+
+              {formError ? (
+                <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+                  {formError}
+                </p>
+              ) : null}
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-xs text-[var(--color-text-muted)]">
+                  {selectedTemplate.isCustomized && selectedTemplate.updatedAt
+                    ? `Last updated ${formatDate(selectedTemplate.updatedAt)}${selectedTemplate.updatedBy ? ` by ${selectedTemplate.updatedBy.name}` : ""}.`
+                    : "Using the built-in template."}
+                </p>
+                <div className="flex gap-2">
+                  {selectedTemplate.isCustomized ? (
+                    <Button variant="ghost" onClick={() => void handleReset()} disabled={isBusy}>
+                      {isResetting ? "Restoring..." : "Restore Default"}
+                    </Button>
+                  ) : null}
+                  <Button variant="secondary" onClick={() => void handlePreview()} disabled={isBusy}>
+                    {isPreviewing ? "Rendering..." : "Preview"}
+                  </Button>
+                  <Button type="submit" disabled={isBusy}>
+                    {isSaving ? "Saving..." : "Save Changes"}
+                  </Button>
+                </div>
+              </div>
+            </form>
+          ) : null}
+        </div>
+      )}
+
+      <Modal
+        isOpen={preview !== null}
+        title="Email Preview"
+        className="max-w-3xl"
+        onClose={() => {
+          setPreview(null);
+        }}
+      >
+        {preview ? (
+          <div className="space-y-3">
+            <p className="text-sm text-[var(--color-text-muted)]">
+              Rendered with sample values. Unsaved changes are included.
+            </p>
+            <p className="text-sm">
+              <span className="font-medium">Subject:</span> {preview.subject}
+            </p>
+            <iframe
+              title="Email HTML preview"
+              sandbox=""
+              srcDoc={preview.html}
+              className="h-72 w-full rounded-md border border-[var(--color-border)] bg-white"
+            />
+            <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-3 text-xs">
+              {preview.text}
+            </pre>
+          </div>
+        ) : null}
+      </Modal>
+    </section>
+  );
+}
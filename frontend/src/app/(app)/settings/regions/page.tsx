@@ -0,0 +1,344 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createRegion, deleteRegion, getRegions, updateRegion, type Region } from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { formatDate } from "@/lib/format";
+import { SettingsTabs } from "@/components/layout/settings-tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+type RegionFormState = {
+  name: string;
+  materialFactor: string;
+  laborFactor: string;
+};
+
+const INITIAL_REGION_FORM: RegionFormState = {
+  name: "",
+  materialFactor: "1",
+  laborFactor: "1",
+};
+
+function formatFactor(value: string): string {
+  return `×${Number.parseFloat(value).toString()}`;
+}
+
+export default function RegionsPage() {
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [regionToEdit, setRegionToEdit] = useState<Region | null>(null);
+  const [formState, setFormState] = useState<RegionFormState>(INITIAL_REGION_FORM);
+  const [formError, setFormError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [regionToDelete, setRegionToDelete] = useState<Region | null>(null);
+  const [deleteError, setDeleteError] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+
+  const loadRegions = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      const result = await getRegions();
+      setRegions(result.items);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load regions");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRegions();
+  }, [loadRegions]);
+
+  function openCreateModal(): void {
+    setRegionToEdit(null);
+    setFormState(INITIAL_REGION_FORM);
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function openEditModal(region: Region): void {
+    setRegionToEdit(region);
+    setFormState({
+      name: region.name,
+      materialFactor: Number.parseFloat(region.materialFactor).toString(),
+      laborFactor: Number.parseFloat(region.laborFactor).toString(),
+    });
+    setFormError("");
+    setIsFormOpen(true);
+  }
+
+  function closeFormModal(): void {
+    setIsFormOpen(false);
+    setRegionToEdit(null);
+    setFormError("");
+  }
+
+  async function handleSaveRegion(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setFormError("");
+
+    const materialFactor = Number(formState.materialFactor);
+    const laborFactor = Number(formState.laborFactor);
+    if (!Number.isFinite(materialFactor) || materialFactor <= 0 || !Number.isFinite(laborFactor) || laborFactor <= 0) {
+      setFormError("Material and labor factors must be positive numbers.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        name: formState.name.trim(),
+        materialFactor,
+        laborFactor,
+      };
+
+      if (regionToEdit) {
+        const updated = await updateRegion(regionToEdit.id, payload);
+        setNotice({ variant: "success", message: `Updated region ${updated.name}.` });
+      } else {
+        const created = await createRegion(payload);
+        setNotice({ variant: "success", message: `Created region ${created.name}.` });
+      }
+
+      closeFormModal();
+      await loadRegions();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save region");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeleteRegion(): Promise<void> {
+    if (!regionToDelete) {
+      return;
+    }
+
+    setDeleteError("");
+    setIsDeleting(true);
+    try {
+      const result = await deleteRegion(regionToDelete.id);
+      setNotice({
+        variant: "success",
+        message: `Deleted region ${regionToDelete.name}. ${result.unassignedProjectCount} project(s) unassigned.`,
+      });
+      setRegionToDelete(null);
+      await loadRegions();
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : "Failed to delete region");
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+            Organization
+          </p>
+          <h1 className="text-3xl font-semibold">Regions</h1>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            Material and labor cost factors applied to estimate totals for projects in each region.
+          </p>
+        </div>
+        {isAdmin ? <Button onClick={openCreateModal}>New Region</Button> : null}
+      </div>
+
+      <SettingsTabs />
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Loading regions...</span>
+          </div>
+        ) : regions.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <p className="text-base font-medium">No regions yet.</p>
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              Projects without a region are estimated at base prices.
+            </p>
+          </div>
+        ) : (
+          <table role="table" className="w-full text-sm">
+            <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+              <tr>
+                <th scope="col" className="px-4 py-3 font-medium">Name</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Material Factor</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Labor Factor</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Projects</th>
+                <th scope="col" className="px-4 py-3 font-medium">Updated</th>
+                {isAdmin ? <th scope="col" className="px-4 py-3 text-right font-medium">Actions</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {regions.map((region) => (
+                <tr key={region.id} className="border-t border-[var(--color-border)]">
+                  <td className="px-4 py-3 font-medium">{region.name}</td>
+                  <td className="px-4 py-3 text-right">{formatFactor(region.materialFactor)}</td>
+                  <td className="px-4 py-3 text-right">{formatFactor(region.laborFactor)}</td>
+                  <td className="px-4 py-3 text-right">{region.projectCount}</td>
+                  <td className="px-4 py-3">{formatDate(region.updatedAt)}</td>
+                  {isAdmin ? (
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" className="h-8 px-2 text-xs" onClick={() => openEditModal(region)}>
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                          onClick={() => {
+                            setDeleteError("");
+                            setRegionToDelete(region);
+                          }}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Modal
+        isOpen={isFormOpen}
+        title={regionToEdit ? "Edit Region" : "New Region"}
+        onClose={() => {
+          if (!isSaving) {
+            closeFormModal();
+          }
+        }}
+      >
+        <form className="space-y-4" onSubmit={handleSaveRegion}>
+          <div>
+            <Label htmlFor="regionName">Name</Label>
+            <Input
+              id="regionName"
+              value={formState.name}
+              onChange={(event) => setFormState((current) => ({ ...current, name: event.target.value }))}
+              placeholder="e.g. Metro Manila"
+              required
+              disabled={isSaving}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="regionMaterialFactor">Material Factor</Label>
+              <Input
+                id="regionMaterialFactor"
+                type="number"
+                min="0"
+                step="0.0001"
+                value={formState.materialFactor}
+                onChange={(event) => setFormState((current) => ({ ...current, materialFactor: event.target.value }))}
+                required
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="regionLaborFactor">Labor Factor</Label>
+              <Input
+                id="regionLaborFactor"
+                type="number"
+                min="0"
+                step="0.0001"
+                value={formState.laborFactor}
+                onChange={(event) => setFormState((current) => ({ ...current, laborFactor: event.target.value }))}
+                required
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-[var(--color-text-muted)]">
+            A factor of 1 keeps base prices. Changing factors recalculates draft estimates of projects in this region.
+          </p>
+
+          {formError ? (
+            <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+              {formError}
+            </p>
+          ) : null}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={closeFormModal} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : regionToEdit ? "Save Changes" : "Create Region"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={regionToDelete !== null}
+        title="Delete Region"
+        onClose={() => {
+          if (!isDeleting) {
+            setRegionToDelete(null);
+          }
+        }}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Delete <strong>{regionToDelete?.name}</strong>? Its {regionToDelete?.projectCount ?? 0} project(s) will have no
+          region, and their draft estimates will be recalculated at base prices.
+        </p>
+        {deleteError ? (
+          <p role="alert" className="mt-3 text-sm text-rose-600 dark:text-rose-300">
+            {deleteError}
+          </p>
+        ) : null}
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="secondary" onClick={() => setRegionToDelete(null)} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDeleteRegion} disabled={isDeleting}>
+            {isDeleting ? "Deleting..." : "Delete"}
+          </Button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  deleteEstimateTemplate,
+  getEstimateTemplate,
+  getEstimateTemplates,
+  type EstimateTemplateDetail,
+  type EstimateTemplateSummary,
+} from "@/lib/api";
+import { readAuthUser } from "@/lib/auth";
+import { formatDate } from "@/lib/format";
+import { EstimateTemplateModal } from "@/components/estimates/estimate-template-modal";
+import { SettingsTabs } from "@/components/layout/settings-tabs";
+import { Button } from "@/components/ui/button";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+import { Toast } from "@/components/ui/toast";
+
+function formatParameters(template: EstimateTemplateSummary): string {
+  if (template.parameters.length === 0) {
+    return "—";
+  }
+
+  return template.parameters
+    .map((parameter) => (parameter.unit ? `${parameter.label} (${parameter.unit})` : parameter.label))
+    .join(", ");
+}
+
+export default function EstimateTemplatesPage() {
+  const [userRole, setUserRole] = useState("VIEWER");
+  const [templates, setTemplates] = useState<EstimateTemplateSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [notice, setNotice] = useState<{ message: string; variant: "success" | "error" | "info" } | null>(null);
+
+  const [templateToEdit, setTemplateToEdit] = useState<EstimateTemplateDetail | null>(null);
+
+  const [templateToDelete, setTemplateToDelete] = useState<EstimateTemplateSummary | null>(null);
+  const [deleteError, setDeleteError] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setUserRole(readAuthUser()?.role ?? "VIEWER");
+  }, []);
+
+  const canEdit = useMemo(() => userRole === "ADMIN" || userRole === "ESTIMATOR", [userRole]);
+  const isAdmin = useMemo(() => userRole === "ADMIN", [userRole]);
+
+  const templateInputVariables = useMemo(() => {
+    const variables = new Set<string>();
+    for (const binding of templateToEdit?.formulaBindings ?? []) {
+      Object.keys(binding.inputValues).forEach((variable) => variables.add(variable));
+    }
+
+    return Array.from(variables).sort();
+  }, [templateToEdit]);
+
+  const loadTemplates = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setErrorMessage("");
+    try {
+      const result = await getEstimateTemplates();
+      setTemplates(result.items);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load templates");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTemplates();
+  }, [loadTemplates]);
+
+  async function openEditModal(template: EstimateTemplateSummary): Promise<void> {
+    try {
+      setTemplateToEdit(await getEstimateTemplate(template.id));
+    } catch (error) {
+      setNotice({ variant: "error", message: error instanceof Error ? error.message : "Failed to load template" });
+    }
+  }
+
+  async function handleDeleteTemplate(): Promise<void> {
+    if (!templateToDelete) {
+      return;
+    }
+
+    setDeleteError("");
+    setIsDeleting(true);
+    try {
+      await deleteEstimateTemplate(templateToDelete.id);
+      setNotice({ variant: "success", message: `Deleted template ${templateToDelete.name}.` });
+      setTemplateToDelete(null);
+      await loadTemplates();
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : "Failed to delete template");
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+          Organization
+        </p>
+        <h1 className="text-3xl font-semibold">Estimate Templates</h1>
+        <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+          Saved estimates that new estimates can start from. Save a template from the estimate editor.
+        </p>
+      </div>
+
+      <SettingsTabs />
+
+      {notice ? (
+        <Toast
+          variant={notice.variant}
+          message={notice.message}
+          onClose={() => {
+            setNotice(null);
+          }}
+        />
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      <div className="overflow-hidden rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Loading templates...</span>
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <p className="text-base font-medium">No templates yet.</p>
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              Open an estimate and choose Save as Template to reuse it.
+            </p>
+          </div>
+        ) : (
+          <table role="table" className="w-full text-sm">
+            <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+              <tr>
+                <th scope="col" className="px-4 py-3 font-medium">Name</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Line Items</th>
+                <th scope="col" className="px-4 py-3 text-right font-medium">Formulas</th>
+                <th scope="col" className="px-4 py-3 font-medium">Parameters</th>
+                <th scope="col" className="px-4 py-3 font-medium">Updated</th>
+                {canEdit ? <th scope="col" className="px-4 py-3 text-right font-medium">Actions</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map((template) => (
+                <tr key={template.id} className="border-t border-[var(--color-border)]">
+                  <td className="px-4 py-3">
+                    <p className="font-medium">{template.name}</p>
+                    {template.description ? (
+                      <p className="text-xs text-[var(--color-text-muted)]">{template.description}</p>
+                    ) : null}
+                  </td>
+                  <td className="px-4 py-3 text-right">{template.lineItemCount}</td>
+                  <td className="px-4 py-3 text-right">{template.formulaBindingCount}</td>
+                  <td className="px-4 py-3">{formatParameters(template)}</td>
+                  <td className="px-4 py-3">{formatDate(template.updatedAt)}</td>
+                  {canEdit ? (
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          className="h-8 px-2 text-xs"
+                          onClick={() => void openEditModal(template)}
+                        >
+                          Edit
+                        </Button>
+                        {isAdmin ? (
+                          <Button
+                            variant="ghost"
+                            className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                            onClick={() => {
+                              setDeleteError("");
+                              setTemplateToDelete(template);
+                            }}
+                          >
+                            Delete
+                          </Button>
+                        ) : null}
+                      </div>
+                    </td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <EstimateTemplateModal
+        isOpen={templateToEdit !== null}
+        template={templateToEdit}
+        inputVariables={templateInputVariables}
+        onClose={() => setTemplateToEdit(null)}
+        onSaved={(updated) => {
+          setTemplateToEdit(null);
+          setNotice({ variant: "success", message: `Updated template ${updated.name}.` });
+          void loadTemplates();
+        }}
+      />
+
+      <Modal
+        isOpen={templateToDelete !== null}
+        title="Delete Template"
+        onClose={() => {
+          if (!isDeleting) {
+            setTemplateToDelete(null);
+          }
+        }}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Delete <strong>{templateToDelete?.name}</strong>? Estimates already created from it are not affected.
+        </p>
+        {deleteError ? (
+          <p role="alert" className="mt-3 text-sm text-rose-600 dark:text-rose-300">
+            {deleteError}
+          </p>
+        ) : null}
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="secondary" onClick={() => setTemplateToDelete(null)} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDeleteTemplate} disabled={isDeleting}>
+            {isDeleting ? "Deleting..." : "Delete"}
+          </Button>
+        </div>
+      </Modal>
+    </section>
+  );
+}
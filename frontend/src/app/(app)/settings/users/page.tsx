@@ -11,6 +11,7 @@ import {
 } from "@/lib/api";
 import { readAuthUser } from "@/lib/auth";
 import { formatDate } from "@/lib/format";
+import { SettingsTabs } from "@/components/layout/settings-tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -225,6 +226,8 @@ export default function UsersPage() {
         {isAdmin ? <Button onClick={() => setIsInviteModalOpen(true)}>Invite User</Button> : null}
       </div>
 
+      <SettingsTabs />
+
       {!isAdmin ? (
         <p role="alert" className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
           Only Admin users can access user management.
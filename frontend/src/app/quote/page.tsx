@@ -0,0 +1,233 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  respondToSharedEstimate,
+  viewSharedEstimate,
+  type EstimateClientDecision,
+  type SharedEstimateView,
+} from "@/lib/api";
+import { formatCurrencyPhp, formatDate } from "@/lib/format";
+
+const TEXTAREA_CLASS =
+  "min-h-24 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-sm text-[var(--color-text)]";
+
+export default function SharedQuotationPage() {
+  const searchParams = useSearchParams();
+  const token = useMemo(() => searchParams.get("token")?.trim() ?? "", [searchParams]);
+
+  const [view, setView] = useState<SharedEstimateView | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [decision, setDecision] = useState<EstimateClientDecision>("ACCEPTED");
+  const [name, setName] = useState("");
+  const [comment, setComment] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  useEffect(() => {
+    if (!token) {
+      setLoadError("This link is missing its access token.");
+      setIsLoading(false);
+      return;
+    }
+
+    let isCancelled = false;
+    void viewSharedEstimate(token)
+      .then((result) => {
+        if (!isCancelled) {
+          setView(result);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!isCancelled) {
+          setLoadError(error instanceof Error ? error.message : "This link is invalid or has expired");
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [token]);
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setErrorMessage("");
+
+    if (!name.trim()) {
+      setErrorMessage("Enter your name.");
+      return;
+    }
+
+    if (decision === "DECLINED" && !comment.trim()) {
+      setErrorMessage("Describe the changes you need.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await respondToSharedEstimate({
+        token,
+        decision,
+        name: name.trim(),
+        comment: comment.trim(),
+      });
+      setView((current) => (current ? { ...current, response } : current));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to send your response");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <main className="flex min-h-screen items-center justify-center gap-2 bg-[var(--color-bg)] text-sm text-[var(--color-text-muted)]">
+        <Spinner />
+        <span>Loading quotation...</span>
+      </main>
+    );
+  }
+
+  if (!view) {
+    return (
+      <main className="grid min-h-screen place-items-center bg-[var(--color-bg)] px-4 py-10">
+        <section className="w-full max-w-md rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-6 shadow-xl">
+          <p className="text-xs font-semibold uppercase tracking-[0.12em] text-[var(--color-text-muted)]">
+            EstimatePro PH
+          </p>
+          <h1 className="mt-2 text-2xl font-semibold">Quotation unavailable</h1>
+          <p role="alert" className="mt-2 text-sm text-rose-600 dark:text-rose-300">
+            {loadError}
+          </p>
+          <p className="mt-2 text-sm text-[var(--color-text-muted)]">
+            Ask the sender for a new link if you still need to review this quotation.
+          </p>
+        </section>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-[var(--color-bg)] px-4 py-8">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
+              {view.organizationName}
+            </p>
+            <h1 className="text-3xl font-semibold">{view.projectName}</h1>
+            <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+              {`Quotation v${view.versionNumber}${view.label ? ` · ${view.label}` : ""}`}
+              {view.clientName ? ` · Prepared for ${view.clientName}` : ""}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-2xl font-semibold">{formatCurrencyPhp(view.totalAmount)}</p>
+            <p className="text-xs text-[var(--color-text-muted)]">Link expires {formatDate(view.expiresAt)}</p>
+          </div>
+        </div>
+
+        <iframe
+          title="Quotation"
+          sandbox=""
+          srcDoc={view.html}
+          className="h-[75vh] w-full rounded-md border border-[var(--color-border)] bg-white"
+        />
+
+        <section className="rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4">
+          {view.response ? (
+            <div className="space-y-2">
+              <Badge variant={view.response.decision === "ACCEPTED" ? "success" : "warning"}>
+                {view.response.decision === "ACCEPTED" ? "Accepted" : "Changes requested"}
+              </Badge>
+              <p className="text-sm">
+                {view.response.respondentName ?? "You"} responded on {formatDate(view.response.respondedAt)}.
+              </p>
+              {view.response.comment ? (
+                <p className="whitespace-pre-line text-sm text-[var(--color-text-muted)]">{view.response.comment}</p>
+              ) : null}
+              <p className="text-sm text-[var(--color-text-muted)]">
+                Thank you. {view.organizationName} has received your response.
+              </p>
+            </div>
+          ) : (
+            <form className="space-y-4" onSubmit={onSubmit} noValidate>
+              <div>
+                <p className="text-base font-semibold">Your response</p>
+                <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+                  Accept the quotation or tell {view.organizationName} what should change.
+                </p>
+              </div>
+              <fieldset className="flex flex-wrap gap-4" disabled={isSubmitting}>
+                <legend className="sr-only">Decision</legend>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="decision"
+                    checked={decision === "ACCEPTED"}
+                    onChange={() => setDecision("ACCEPTED")}
+                  />
+                  Accept quotation
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="decision"
+                    checked={decision === "DECLINED"}
+                    onChange={() => setDecision("DECLINED")}
+                  />
+                  Request changes
+                </label>
+              </fieldset>
+              <div>
+                <Label htmlFor="respondentName">Your name</Label>
+                <Input
+                  id="respondentName"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                  maxLength={120}
+                  autoComplete="name"
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div>
+                <Label htmlFor="respondentComment">
+                  {decision === "DECLINED" ? "Requested changes" : "Comment (optional)"}
+                </Label>
+                <textarea
+                  id="respondentComment"
+                  className={TEXTAREA_CLASS}
+                  value={comment}
+                  onChange={(event) => setComment(event.target.value)}
+                  maxLength={2000}
+                  disabled={isSubmitting}
+                />
+              </div>
+              {errorMessage ? (
+                <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+                  {errorMessage}
+                </p>
+              ) : null}
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Sending..." : decision === "ACCEPTED" ? "Accept Quotation" : "Request Changes"}
+              </Button>
+            </form>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { QuotationPaymentMilestone, QuotationSections, QuotationSignatureBlock } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const TEXTAREA_CLASS =
+  "min-h-28 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-sm text-[var(--color-text)]";
+const MAX_PAYMENT_MILESTONES = 12;
+const MAX_SIGNATURE_BLOCKS = 4;
+
+const EMPTY_SECTIONS: Required<QuotationSections> = {
+  coverLetter: "",
+  scopeNotes: "",
+  exclusions: "",
+  termsAndConditions: "",
+  validityDays: null,
+  paymentSchedule: [],
+  signatureBlocks: [],
+};
+
+type TextSectionKey = "coverLetter" | "scopeNotes" | "exclusions" | "termsAndConditions";
+
+const TEXT_SECTIONS: Array<{ key: TextSectionKey; label: string; placeholder: string }> = [
+  { key: "coverLetter", label: "Cover Letter", placeholder: "Dear client, we are pleased to submit..." },
+  { key: "scopeNotes", label: "Scope of Work", placeholder: "Supply of labor and materials for..." },
+  { key: "exclusions", label: "Exclusions", placeholder: "Permits and government fees..." },
+  { key: "termsAndConditions", label: "Terms and Conditions", placeholder: "Prices are subject to..." },
+];
+
+export const QUOTATION_PLACEHOLDERS = [
+  "{{organizationName}}",
+  "{{clientName}}",
+  "{{projectName}}",
+  "{{projectLocation}}",
+  "{{estimateVersion}}",
+  "{{totalAmount}}",
+  "{{validUntil}}",
+];
+
+type QuotationSectionsEditorProps = {
+  idPrefix: string;
+  value: QuotationSections;
+  onChange: (value: QuotationSections) => void;
+  disabled?: boolean;
+  /**
+   * Organization defaults. When given, every section can be left to inherit its default, and
+   * only the sections switched off inheritance are kept in `value`.
+   */
+  inherited?: QuotationSections;
+};
+
+export function QuotationSectionsEditor({ idPrefix, value, onChange, disabled, inherited }: QuotationSectionsEditorProps) {
+  function setSection<K extends keyof QuotationSections>(key: K, next: QuotationSections[K]): void {
+    onChange({ ...value, [key]: next });
+  }
+
+  function toggleInherit<K extends keyof QuotationSections>(key: K, inherit: boolean): void {
+    const next = { ...value };
+    if (inherit) {
+      delete next[key];
+    } else {
+      next[key] = inherited?.[key] ?? EMPTY_SECTIONS[key];
+    }
+    onChange(next);
+  }
+
+  function renderSection<K extends keyof QuotationSections>(
+    key: K,
+    label: string,
+    body: (current: QuotationSections[K]) => ReactNode,
+  ) {
+    const isInherited = inherited !== undefined && value[key] === undefined;
+    const current = isInherited ? inherited?.[key] : value[key];
+
+    return (
+      <fieldset key={key} className="space-y-2" aria-label={label} disabled={disabled}>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm font-semibold">{label}</p>
+          {inherited !== undefined ? (
+            <label className="flex items-center gap-2 text-xs text-[var(--color-text-muted)]">
+              <input
+                type="checkbox"
+                checked={isInherited}
+                onChange={(event) => toggleInherit(key, event.target.checked)}
+              />
+              Use organization default
+            </label>
+          ) : null}
+        </div>
+        <div className={isInherited ? "pointer-events-none opacity-60" : undefined} aria-disabled={isInherited}>
+          {body(current)}
+        </div>
+      </fieldset>
+    );
+  }
+
+  function updateMilestone(index: number, patch: Partial<QuotationPaymentMilestone>): void {
+    const milestones = [...(value.paymentSchedule ?? [])];
+    milestones[index] = { ...milestones[index], ...patch };
+    setSection("paymentSchedule", milestones);
+  }
+
+  function updateSignature(index: number, patch: Partial<QuotationSignatureBlock>): void {
+    const blocks = [...(value.signatureBlocks ?? [])];
+    blocks[index] = { ...blocks[index], ...patch };
+    setSection("signatureBlocks", blocks);
+  }
+
+  const paymentTotal = (value.paymentSchedule ?? []).reduce((sum, milestone) => sum + milestone.percentage, 0);
+
+  return (
+    <div className="space-y-5">
+      <p className="text-xs text-[var(--color-text-muted)]">
+        Leave a section empty to omit it. Text sections may use {QUOTATION_PLACEHOLDERS.join(", ")}; a blank line starts
+        a new paragraph.
+      </p>
+
+      {TEXT_SECTIONS.map(({ key, label, placeholder }) =>
+        renderSection(key, label, (current) => (
+          <textarea
+            id={`${idPrefix}-${key}`}
+            aria-label={label}
+            className={TEXTAREA_CLASS}
+            value={current ?? ""}
+            onChange={(event) => setSection(key, event.target.value)}
+            placeholder={placeholder}
+          />
+        )),
+      )}
+
+      {renderSection("validityDays", "Validity Period", (current) => (
+        <div className="max-w-48">
+          <Label htmlFor={`${idPrefix}-validityDays`}>Days after issue</Label>
+          <Input
+            id={`${idPrefix}-validityDays`}
+            type="number"
+            min="1"
+            max="365"
+            step="1"
+            value={current ?? ""}
+            onChange={(event) =>
+              setSection("validityDays", event.target.value === "" ? null : Number.parseInt(event.target.value, 10))
+            }
+            placeholder="Not stated"
+          />
+        </div>
+      ))}
+
+      {renderSection("paymentSchedule", "Payment Schedule", (current) => (
+        <div className="space-y-2">
+          {(current ?? []).map((milestone, index) => (
+            <div key={index} className="grid grid-cols-[1fr_120px_auto] items-end gap-2">
+              <div>
+                <Label htmlFor={`${idPrefix}-milestone-${index}-label`}>Milestone</Label>
+                <Input
+                  id={`${idPrefix}-milestone-${index}-label`}
+                  value={milestone.label}
+                  onChange={(event) => updateMilestone(index, { label: event.target.value })}
+                  placeholder="e.g. Downpayment"
+                />
+              </div>
+              <div>
+                <Label htmlFor={`${idPrefix}-milestone-${index}-percentage`}>Share (%)</Label>
+                <Input
+                  id={`${idPrefix}-milestone-${index}-percentage`}
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={milestone.percentage}
+                  onChange={(event) => updateMilestone(index, { percentage: Number(event.target.value) })}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                className="h-10 px-2 text-xs"
+                onClick={() =>
+                  setSection(
+                    "paymentSchedule",
+                    (value.paymentSchedule ?? []).filter((_, candidate) => candidate !== index),
+                  )
+                }
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <Button
+              variant="secondary"
+              onClick={() =>
+                setSection("paymentSchedule", [...(value.paymentSchedule ?? []), { label: "", percentage: 0 }])
+              }
+              disabled={disabled || (current ?? []).length >= MAX_PAYMENT_MILESTONES}
+            >
+              Add Milestone
+            </Button>
+            {(current ?? []).length > 0 && value.paymentSchedule !== undefined ? (
+              <p
+                className={
+                  Math.abs(paymentTotal - 100) < 0.001
+                    ? "text-xs text-[var(--color-text-muted)]"
+                    : "text-xs text-rose-600 dark:text-rose-300"
+                }
+              >
+                Total {Number(paymentTotal.toFixed(2))}% of 100%
+              </p>
+            ) : null}
+          </div>
+        </div>
+      ))}
+
+      {renderSection("signatureBlocks", "Signature Blocks", (current) => (
+        <div className="space-y-2">
+          {(current ?? []).map((block, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] items-end gap-2">
+              <div>
+                <Label htmlFor={`${idPrefix}-signature-${index}-label`}>Caption</Label>
+                <Input
+                  id={`${idPrefix}-signature-${index}-label`}
+                  value={block.label}
+                  onChange={(event) => updateSignature(index, { label: event.target.value })}
+                  placeholder="e.g. Prepared by"
+                />
+              </div>
+              <div>
+                <Label htmlFor={`${idPrefix}-signature-${index}-name`}>Name</Label>
+                <Input
+                  id={`${idPrefix}-signature-${index}-name`}
+                  value={block.name ?? ""}
+                  onChange={(event) => updateSignature(index, { name: event.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor={`${idPrefix}-signature-${index}-title`}>Title</Label>
+                <Input
+                  id={`${idPrefix}-signature-${index}-title`}
+                  value={block.title ?? ""}
+                  onChange={(event) => updateSignature(index, { title: event.target.value })}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                className="h-10 px-2 text-xs"
+                onClick={() =>
+                  setSection(
+                    "signatureBlocks",
+                    (value.signatureBlocks ?? []).filter((_, candidate) => candidate !== index),
+                  )
+                }
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="secondary"
+            onClick={() => setSection("signatureBlocks", [...(value.signatureBlocks ?? []), { label: "" }])}
+            disabled={disabled || (current ?? []).length >= MAX_SIGNATURE_BLOCKS}
+          >
+            Add Signature Block
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,486 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  computeIntoEstimate,
+  getFormula,
+  getFormulas,
+  getFormulaVersions,
+  getLineItemErrorMessage,
+  recomputeComputationGroup,
+  type ComputationGroupResponse,
+  type FormulaDetail,
+  type FormulaSummary,
+  type FormulaUnit,
+  type FormulaVersion,
+} from "@/lib/api";
+import { getCompatibleUnitSymbols } from "@/lib/units";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+
+export type ComputationGroupTarget = {
+  groupId: string;
+  formulaId: string;
+  formulaName: string;
+  inputValues: Record<string, unknown>;
+  inputUnits: Record<string, string>;
+  outputVariables: string[];
+};
+
+type OutputSelection = {
+  selected: boolean;
+  description: string;
+};
+
+type ComputeIntoEstimateModalProps = {
+  isOpen: boolean;
+  estimateId: string;
+  formulaUnits: FormulaUnit[];
+  /** When set, the modal recomputes this group instead of creating new line items. */
+  group?: ComputationGroupTarget | null;
+  onClose: () => void;
+  onComputed: (result: ComputationGroupResponse) => void;
+};
+
+function formatOutputDescription(formulaName: string, variable: string): string {
+  return `${formulaName} - ${variable.replace(/_/g, " ")}`;
+}
+
+export function ComputeIntoEstimateModal({
+  isOpen,
+  estimateId,
+  formulaUnits,
+  group,
+  onClose,
+  onComputed,
+}: ComputeIntoEstimateModalProps) {
+  const [formulas, setFormulas] = useState<FormulaSummary[]>([]);
+  const [isLoadingFormulas, setIsLoadingFormulas] = useState(false);
+  const [selectedFormulaId, setSelectedFormulaId] = useState("");
+  const [versions, setVersions] = useState<FormulaVersion[]>([]);
+  const [latestVersionId, setLatestVersionId] = useState("");
+  const [selectedVersionId, setSelectedVersionId] = useState("");
+  const [detail, setDetail] = useState<FormulaDetail | null>(null);
+  const [inputValues, setInputValues] = useState<Record<string, string>>({});
+  const [inputUnits, setInputUnits] = useState<Record<string, string>>({});
+  const [outputs, setOutputs] = useState<Record<string, OutputSelection>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [serverError, setServerError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    setSelectedFormulaId(group?.formulaId ?? "");
+    setVersions([]);
+    setLatestVersionId("");
+    setSelectedVersionId(group?.formulaId ?? "");
+    setDetail(null);
+    setFieldErrors({});
+    setServerError("");
+
+    if (group) {
+      return;
+    }
+
+    let active = true;
+    setIsLoadingFormulas(true);
+
+    async function loadFormulas(): Promise<void> {
+      try {
+        const result = await getFormulas({ page: 1, pageSize: 100 });
+        if (active) {
+          setFormulas(result.items);
+        }
+      } catch (error) {
+        if (active) {
+          setServerError(error instanceof Error ? error.message : "Failed to load formulas");
+        }
+      } finally {
+        if (active) {
+          setIsLoadingFormulas(false);
+        }
+      }
+    }
+
+    void loadFormulas();
+
+    return () => {
+      active = false;
+    };
+  }, [group, isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !selectedFormulaId) {
+      return;
+    }
+
+    let active = true;
+
+    async function loadVersions(): Promise<void> {
+      try {
+        const result = await getFormulaVersions(selectedFormulaId);
+        if (!active) {
+          return;
+        }
+
+        setVersions(result.versions);
+        setLatestVersionId(result.latestFormulaId);
+        setSelectedVersionId((current) => current || result.latestFormulaId);
+      } catch (error) {
+        if (active) {
+          setServerError(error instanceof Error ? error.message : "Failed to load formula versions");
+        }
+      }
+    }
+
+    void loadVersions();
+
+    return () => {
+      active = false;
+    };
+  }, [isOpen, selectedFormulaId]);
+
+  useEffect(() => {
+    if (!isOpen || !selectedVersionId) {
+      return;
+    }
+
+    let active = true;
+
+    async function loadDetail(): Promise<void> {
+      try {
+        const result = await getFormula(selectedVersionId);
+        if (!active) {
+          return;
+        }
+
+        setDetail(result);
+        setInputValues(
+          Object.fromEntries(
+            result.inputs.map((input) => {
+              const storedValue = group?.inputValues[input.variable];
+              if (typeof storedValue === "number" || typeof storedValue === "string") {
+                return [input.variable, `${storedValue}`];
+              }
+
+              return [input.variable, input.defaultValue !== undefined ? `${input.defaultValue}` : ""];
+            }),
+          ),
+        );
+        setInputUnits(
+          Object.fromEntries(
+            result.inputs.map((input) => [input.variable, group?.inputUnits[input.variable] ?? input.unit]),
+          ),
+        );
+        setOutputs(
+          Object.fromEntries(
+            result.outputs.map((output) => [
+              output.variable,
+              { selected: true, description: formatOutputDescription(result.name, output.variable) },
+            ]),
+          ),
+        );
+        setFieldErrors({});
+        setServerError("");
+      } catch (error) {
+        if (active) {
+          setServerError(error instanceof Error ? error.message : "Failed to load formula");
+        }
+      }
+    }
+
+    void loadDetail();
+
+    return () => {
+      active = false;
+    };
+  }, [group, isOpen, selectedVersionId]);
+
+  async function handleSubmit(): Promise<void> {
+    if (!detail) {
+      return;
+    }
+
+    const nextFieldErrors: Record<string, string> = {};
+    const parsedValues: Record<string, number> = {};
+    const convertedUnits: Record<string, string> = {};
+
+    for (const input of detail.inputs) {
+      const rawValue = inputValues[input.variable]?.trim() ?? "";
+      const selectedUnit = inputUnits[input.variable] ?? input.unit;
+      const isConverted = selectedUnit !== input.unit;
+      if (!rawValue) {
+        nextFieldErrors[input.variable] = "Required";
+        continue;
+      }
+
+      const parsed = Number.parseFloat(rawValue);
+      if (!Number.isFinite(parsed)) {
+        nextFieldErrors[input.variable] = "Must be a number";
+        continue;
+      }
+
+      if (!isConverted && input.type === "integer" && !Number.isInteger(parsed)) {
+        nextFieldErrors[input.variable] = "Must be an integer";
+        continue;
+      }
+
+      if (!isConverted && input.min !== undefined && parsed < input.min) {
+        nextFieldErrors[input.variable] = `Must be >= ${input.min}`;
+        continue;
+      }
+
+      if (!isConverted && input.max !== undefined && parsed > input.max) {
+        nextFieldErrors[input.variable] = `Must be <= ${input.max}`;
+        continue;
+      }
+
+      parsedValues[input.variable] = parsed;
+      if (isConverted) {
+        convertedUnits[input.variable] = selectedUnit;
+      }
+    }
+
+    if (Object.keys(nextFieldErrors).length > 0) {
+      setFieldErrors(nextFieldErrors);
+      return;
+    }
+
+    const selectedOutputs = detail.outputs.filter((output) => outputs[output.variable]?.selected);
+    if (!group && selectedOutputs.length === 0) {
+      setServerError("Select at least one output.");
+      return;
+    }
+
+    setFieldErrors({});
+    setServerError("");
+    setIsSubmitting(true);
+
+    try {
+      const result = group
+        ? await recomputeComputationGroup(estimateId, group.groupId, {
+            formulaId: selectedVersionId,
+            inputValues: parsedValues,
+            inputUnits: convertedUnits,
+          })
+        : await computeIntoEstimate(estimateId, {
+            formulaId: selectedVersionId,
+            inputValues: parsedValues,
+            inputUnits: convertedUnits,
+            outputs: selectedOutputs.map((output) => ({
+              outputVariable: output.variable,
+              description: outputs[output.variable]?.description.trim() || undefined,
+            })),
+          });
+
+      onComputed(result);
+    } catch (error) {
+      setServerError(getLineItemErrorMessage(error, "Failed to compute formula"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title={group ? `Recompute ${group.formulaName}` : "Compute Into Estimate"}
+      className="max-w-3xl"
+      onClose={() => !isSubmitting && onClose()}
+    >
+      <div className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-2">
+          {!group ? (
+            <div>
+              <Label htmlFor="computeIntoFormulaId">Formula</Label>
+              <select
+                id="computeIntoFormulaId"
+                className={SELECT_CLASS}
+                value={selectedFormulaId}
+                onChange={(event) => {
+                  setSelectedFormulaId(event.target.value);
+                  setSelectedVersionId("");
+                  setDetail(null);
+                }}
+                disabled={isLoadingFormulas || isSubmitting}
+              >
+                <option value="">Select formula</option>
+                {formulas.map((formula) => (
+                  <option key={formula.id} value={formula.id}>
+                    {formula.name} (v{formula.currentVersion})
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null}
+          <div>
+            <Label htmlFor="computeIntoFormulaVersion">Version</Label>
+            <select
+              id="computeIntoFormulaVersion"
+              className={SELECT_CLASS}
+              value={selectedVersionId}
+              onChange={(event) => setSelectedVersionId(event.target.value)}
+              disabled={isSubmitting || versions.length === 0}
+            >
+              <option value="">Select version</option>
+              {versions.map((version) => (
+                <option key={version.id} value={version.id}>
+                  v{version.version} {version.isActive ? "(Active)" : "(Inactive)"}
+                </option>
+              ))}
+            </select>
+            {selectedVersionId && latestVersionId && selectedVersionId !== latestVersionId ? (
+              <p className="mt-1 text-xs text-amber-700 dark:text-amber-300">Warning: older formula version selected.</p>
+            ) : null}
+          </div>
+        </div>
+
+        {isLoadingFormulas ? (
+          <div className="flex items-center gap-2 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Loading formulas...</span>
+          </div>
+        ) : null}
+
+        {detail ? (
+          <div className="space-y-3 rounded-md border border-[var(--color-border)] bg-[var(--color-surface-2)] p-4">
+            <p className="text-sm font-semibold">
+              {detail.name} · v{detail.version}
+            </p>
+            <div className="grid gap-3 md:grid-cols-2">
+              {detail.inputs.map((input) => {
+                const unitOptions = getCompatibleUnitSymbols(formulaUnits, input.unit);
+                const selectedUnit = inputUnits[input.variable] ?? input.unit;
+
+                return (
+                  <div key={input.variable}>
+                    <Label htmlFor={`compute-into-input-${input.variable}`}>
+                      {input.label} ({input.unit})
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id={`compute-into-input-${input.variable}`}
+                        type="number"
+                        step={input.type === "integer" && selectedUnit === input.unit ? "1" : "0.0001"}
+                        value={inputValues[input.variable] ?? ""}
+                        onChange={(event) =>
+                          setInputValues((current) => ({
+                            ...current,
+                            [input.variable]: event.target.value,
+                          }))
+                        }
+                        disabled={isSubmitting}
+                      />
+                      {unitOptions.length > 1 ? (
+                        <select
+                          aria-label={`${input.label} unit`}
+                          className={`${SELECT_CLASS} max-w-24`}
+                          value={selectedUnit}
+                          onChange={(event) =>
+                            setInputUnits((current) => ({
+                              ...current,
+                              [input.variable]: event.target.value,
+                            }))
+                          }
+                          disabled={isSubmitting}
+                        >
+                          {unitOptions.map((unit) => (
+                            <option key={unit} value={unit}>
+                              {unit}
+                            </option>
+                          ))}
+                        </select>
+                      ) : null}
+                    </div>
+                    {fieldErrors[input.variable] ? (
+                      <p role="alert" className="mt-1 text-xs text-rose-600 dark:text-rose-300">
+                        {fieldErrors[input.variable]}
+                      </p>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-[0.12em] text-[var(--color-text-muted)]">
+                {group ? "Updated Line Items" : "Line Items To Create"}
+              </p>
+              <div className="mt-2 space-y-2">
+                {detail.outputs
+                  .filter((output) => !group || group.outputVariables.includes(output.variable))
+                  .map((output) =>
+                    group ? (
+                      <p key={output.variable} className="text-sm">
+                        {output.variable} <span className="text-[var(--color-text-muted)]">({output.unit})</span>
+                      </p>
+                    ) : (
+                      <div key={output.variable} className="grid items-center gap-2 md:grid-cols-[180px_1fr]">
+                        <label className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={outputs[output.variable]?.selected ?? false}
+                            onChange={(event) =>
+                              setOutputs((current) => ({
+                                ...current,
+                                [output.variable]: {
+                                  description: current[output.variable]?.description ?? "",
+                                  selected: event.target.checked,
+                                },
+                              }))
+                            }
+                            disabled={isSubmitting}
+                          />
+                          <span>
+                            {output.variable} ({output.unit})
+                          </span>
+                        </label>
+                        <Input
+                          aria-label={`${output.variable} description`}
+                          value={outputs[output.variable]?.description ?? ""}
+                          onChange={(event) =>
+                            setOutputs((current) => ({
+                              ...current,
+                              [output.variable]: {
+                                selected: current[output.variable]?.selected ?? true,
+                                description: event.target.value,
+                              },
+                            }))
+                          }
+                          disabled={isSubmitting || !outputs[output.variable]?.selected}
+                        />
+                      </div>
+                    ),
+                  )}
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        {serverError ? (
+          <p role="alert" className="rounded-md border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {serverError}
+          </p>
+        ) : null}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !detail}>
+            {isSubmitting ? "Computing..." : group ? "Recompute" : "Compute"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,460 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  createEstimateComment,
+  deleteEstimateComment,
+  getEstimateCommentParticipants,
+  setEstimateCommentResolved,
+  updateEstimateComment,
+  type EstimateComment,
+  type EstimateCommentThread,
+  type EstimateCommentUser,
+  type EstimateCommentsResponse,
+} from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+
+const TEXTAREA_CLASS =
+  "min-h-20 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-sm text-[var(--color-text)]";
+
+const SELECT_CLASS =
+  "h-10 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+
+type CommentLineItem = {
+  id: string;
+  description: string;
+};
+
+type EstimateCommentsPanelProps = {
+  estimateId: string;
+  comments: EstimateCommentsResponse | null;
+  lineItems: CommentLineItem[];
+  /** Line item whose threads are shown and that new threads attach to; empty for the whole estimate. */
+  lineItemId: string;
+  currentUserId: string;
+  currentUserRole: string;
+  /** Admins and estimators may comment; viewers only read. */
+  canComment: boolean;
+  onLineItemChange: (lineItemId: string) => void;
+  onChanged: () => void;
+};
+
+type CommentComposerProps = {
+  id: string;
+  participants: EstimateCommentUser[];
+  currentUserId: string;
+  initialBody?: string;
+  initialMentionIds?: string[];
+  submitLabel: string;
+  placeholder: string;
+  onSubmit: (body: string, mentionUserIds: string[]) => Promise<void>;
+  onCancel?: () => void;
+};
+
+function formatDateTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+
+  return new Intl.DateTimeFormat("en-PH", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+}
+
+function CommentComposer({
+  id,
+  participants,
+  currentUserId,
+  initialBody = "",
+  initialMentionIds = [],
+  submitLabel,
+  placeholder,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) {
+  const [body, setBody] = useState(initialBody);
+  const [mentionIds, setMentionIds] = useState<string[]>(initialMentionIds);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const mentionable = participants.filter((participant) => participant.id !== currentUserId);
+
+  function toggleMention(userId: string): void {
+    setMentionIds((current) =>
+      current.includes(userId) ? current.filter((value) => value !== userId) : [...current, userId],
+    );
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    if (!body.trim()) {
+      setErrorMessage("Write a comment.");
+      return;
+    }
+
+    setErrorMessage("");
+    setIsSaving(true);
+    try {
+      await onSubmit(body.trim(), mentionIds);
+      setBody("");
+      setMentionIds([]);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to save comment");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <form className="space-y-2" onSubmit={handleSubmit}>
+      <textarea
+        id={id}
+        aria-label={placeholder}
+        className={TEXTAREA_CLASS}
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        placeholder={placeholder}
+        maxLength={5000}
+        disabled={isSaving}
+      />
+      {mentionable.length > 0 ? (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-[var(--color-text-muted)]">
+            Mention{mentionIds.length > 0 ? ` (${mentionIds.length})` : ""}
+          </summary>
+          <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+            {mentionable.map((participant) => (
+              <label key={participant.id} className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={mentionIds.includes(participant.id)}
+                  onChange={() => toggleMention(participant.id)}
+                  disabled={isSaving}
+                />
+                {participant.name}
+              </label>
+            ))}
+          </div>
+        </details>
+      ) : null}
+      {errorMessage ? (
+        <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+          {errorMessage}
+        </p>
+      ) : null}
+      <div className="flex justify-end gap-2">
+        {onCancel ? (
+          <Button variant="secondary" className="h-8 px-3 text-xs" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+        ) : null}
+        <Button type="submit" className="h-8 px-3 text-xs" disabled={isSaving}>
+          {isSaving ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function EstimateCommentsPanel({
+  estimateId,
+  comments,
+  lineItems,
+  lineItemId,
+  currentUserId,
+  currentUserRole,
+  canComment,
+  onLineItemChange,
+  onChanged,
+}: EstimateCommentsPanelProps) {
+  const [participants, setParticipants] = useState<EstimateCommentUser[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [commentToDelete, setCommentToDelete] = useState<EstimateComment | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  useEffect(() => {
+    let isCancelled = false;
+    void getEstimateCommentParticipants(estimateId)
+      .then((result) => {
+        if (!isCancelled) {
+          setParticipants(result.items);
+        }
+      })
+      .catch(() => {
+        // Mentions are optional; comments still work without the participant list.
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [estimateId]);
+
+  const lineItemLabels = useMemo(
+    () => new Map(lineItems.map((lineItem) => [lineItem.id, lineItem.description])),
+    [lineItems],
+  );
+
+  const visibleThreads = useMemo(
+    () =>
+      (comments?.items ?? []).filter(
+        (thread) =>
+          (showResolved || thread.resolvedAt === null) && (lineItemId === "" || thread.lineItemId === lineItemId),
+      ),
+    [comments, lineItemId, showResolved],
+  );
+
+  async function runAction(action: () => Promise<unknown>, fallbackMessage: string): Promise<void> {
+    setErrorMessage("");
+    setIsWorking(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : fallbackMessage);
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function handleDelete(): Promise<void> {
+    if (!commentToDelete) {
+      return;
+    }
+
+    await runAction(() => deleteEstimateComment(estimateId, commentToDelete.id), "Failed to delete comment");
+    setCommentToDelete(null);
+  }
+
+  function renderComment(comment: EstimateComment) {
+    const isAuthor = comment.createdBy.id === currentUserId;
+
+    if (editingId === comment.id) {
+      return (
+        <CommentComposer
+          id={`editComment-${comment.id}`}
+          participants={participants}
+          currentUserId={currentUserId}
+          initialBody={comment.body}
+          initialMentionIds={comment.mentions.map((mention) => mention.id)}
+          submitLabel="Save"
+          placeholder="Edit comment"
+          onCancel={() => setEditingId(null)}
+          onSubmit={async (body, mentionUserIds) => {
+            await updateEstimateComment(estimateId, comment.id, { body, mentionUserIds });
+            setEditingId(null);
+            onChanged();
+          }}
+        />
+      );
+    }
+
+    return (
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-[var(--color-text-muted)]">
+          <span className="font-medium text-[var(--color-text)]">{comment.createdBy.name}</span>
+          <span>{formatDateTime(comment.createdAt)}</span>
+          {comment.updatedAt !== comment.createdAt ? <span>(edited)</span> : null}
+          {canComment && isAuthor ? (
+            <button type="button" className="underline" onClick={() => setEditingId(comment.id)} disabled={isWorking}>
+              Edit
+            </button>
+          ) : null}
+          {canComment && (isAuthor || currentUserRole === "ADMIN") ? (
+            <button
+              type="button"
+              className="underline"
+              onClick={() => setCommentToDelete(comment)}
+              disabled={isWorking}
+            >
+              Delete
+            </button>
+          ) : null}
+        </div>
+        <p className="whitespace-pre-line text-sm">{comment.body}</p>
+        {comment.mentions.length > 0 ? (
+          <p className="text-xs text-[var(--color-text-muted)]">
+            {comment.mentions.map((mention) => `@${mention.name}`).join(" ")}
+          </p>
+        ) : null}
+      </div>
+    );
+  }
+
+  function renderThread(thread: EstimateCommentThread) {
+    const lineItemLabel = thread.lineItemId ? (lineItemLabels.get(thread.lineItemId) ?? "Removed line item") : null;
+
+    return (
+      <li key={thread.id} className="space-y-3 px-4 py-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant={thread.resolvedAt ? "neutral" : "warning"}>{thread.resolvedAt ? "Resolved" : "Open"}</Badge>
+            <span className="text-xs text-[var(--color-text-muted)]">{lineItemLabel ?? "Whole estimate"}</span>
+          </div>
+          {canComment ? (
+            <Button
+              variant="ghost"
+              className="h-8 px-2 text-xs"
+              disabled={isWorking}
+              onClick={() =>
+                void runAction(
+                  () => setEstimateCommentResolved(estimateId, thread.id, thread.resolvedAt === null),
+                  "Failed to update comment thread",
+                )
+              }
+            >
+              {thread.resolvedAt ? "Reopen" : "Resolve"}
+            </Button>
+          ) : null}
+        </div>
+
+        {renderComment(thread)}
+
+        {thread.replies.length > 0 ? (
+          <ul className="space-y-3 border-l-2 border-[var(--color-border)] pl-4">
+            {thread.replies.map((reply) => (
+              <li key={reply.id}>{renderComment(reply)}</li>
+            ))}
+          </ul>
+        ) : null}
+
+        {thread.resolvedAt && thread.resolvedBy ? (
+          <p className="text-xs text-[var(--color-text-muted)]">
+            Resolved by {thread.resolvedBy.name} on {formatDateTime(thread.resolvedAt)}
+          </p>
+        ) : null}
+
+        {canComment ? (
+          replyingToId === thread.id ? (
+            <div className="pl-4">
+              <CommentComposer
+                id={`replyComment-${thread.id}`}
+                participants={participants}
+                currentUserId={currentUserId}
+                submitLabel="Reply"
+                placeholder="Write a reply"
+                onCancel={() => setReplyingToId(null)}
+                onSubmit={async (body, mentionUserIds) => {
+                  await createEstimateComment(estimateId, { body, parentId: thread.id, mentionUserIds });
+                  setReplyingToId(null);
+                  onChanged();
+                }}
+              />
+            </div>
+          ) : (
+            <button
+              type="button"
+              className="text-xs text-[var(--color-accent-strong)] underline"
+              onClick={() => setReplyingToId(thread.id)}
+            >
+              Reply
+            </button>
+          )
+        ) : null}
+      </li>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <Label htmlFor="commentLineItem">Show comments on</Label>
+          <select
+            id="commentLineItem"
+            className={SELECT_CLASS}
+            value={lineItemId}
+            onChange={(event) => onLineItemChange(event.target.value)}
+          >
+            <option value="">Whole estimate (all threads)</option>
+            {lineItems.map((lineItem) => (
+              <option key={lineItem.id} value={lineItem.id}>
+                {lineItem.description}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={showResolved} onChange={(event) => setShowResolved(event.target.checked)} />
+          Show resolved threads
+        </label>
+      </div>
+
+      {canComment ? (
+        <div className="rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4">
+          <CommentComposer
+            key={lineItemId}
+            id="newComment"
+            participants={participants}
+            currentUserId={currentUserId}
+            submitLabel="Comment"
+            placeholder={
+              lineItemId
+                ? `Comment on ${lineItemLabels.get(lineItemId) ?? "this line item"}`
+                : "Comment on this estimate"
+            }
+            onSubmit={async (body, mentionUserIds) => {
+              await createEstimateComment(estimateId, { body, lineItemId: lineItemId || null, mentionUserIds });
+              onChanged();
+            }}
+          />
+        </div>
+      ) : null}
+
+      {errorMessage ? (
+        <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      {!comments ? (
+        <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+          <Spinner />
+          <span>Loading comments...</span>
+        </div>
+      ) : visibleThreads.length === 0 ? (
+        <div className="rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-6 py-12 text-center">
+          <p className="text-base font-medium">{showResolved ? "No comments yet." : "No open comments."}</p>
+          <p className="mt-1 text-sm text-[var(--color-text-muted)]">
+            {lineItemId
+              ? "Threads on this line item appear here."
+              : "Threads on the estimate and its line items appear here."}
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-[var(--color-border)] rounded-md border border-[var(--color-border)] bg-[var(--color-surface)]">
+          {visibleThreads.map(renderThread)}
+        </ul>
+      )}
+
+      <Modal
+        isOpen={commentToDelete !== null}
+        title="Delete Comment"
+        onClose={() => !isWorking && setCommentToDelete(null)}
+      >
+        <p className="text-sm text-[var(--color-text-muted)]">
+          {commentToDelete?.parentId === null ? "Delete this comment and all of its replies?" : "Delete this reply?"}
+        </p>
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="secondary" onClick={() => setCommentToDelete(null)} disabled={isWorking}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={() => void handleDelete()} disabled={isWorking}>
+            {isWorking ? "Deleting..." : "Delete"}
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getEstimateQuotation,
+  previewQuotation,
+  updateEstimateQuotation,
+  type EstimateQuotation,
+  type QuotationSections,
+} from "@/lib/api";
+import { QuotationSectionsEditor } from "@/components/branding/quotation-sections-editor";
+import { Button } from "@/components/ui/button";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+
+type EstimateQuotationModalProps = {
+  isOpen: boolean;
+  estimateId: string;
+  /** Shows the sections without saving, e.g. for finalized estimates. */
+  isReadOnly: boolean;
+  onClose: () => void;
+  onSaved: (quotation: EstimateQuotation) => void;
+};
+
+export function EstimateQuotationModal({
+  isOpen,
+  estimateId,
+  isReadOnly,
+  onClose,
+  onSaved,
+}: EstimateQuotationModalProps) {
+  const [quotation, setQuotation] = useState<EstimateQuotation | null>(null);
+  const [overrides, setOverrides] = useState<QuotationSections>({});
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let isCancelled = false;
+    setQuotation(null);
+    setOverrides({});
+    setPreviewHtml(null);
+    setErrorMessage("");
+    setIsLoading(true);
+    void getEstimateQuotation(estimateId)
+      .then((result) => {
+        if (!isCancelled) {
+          setQuotation(result);
+          setOverrides(result.overrides);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!isCancelled) {
+          setErrorMessage(error instanceof Error ? error.message : "Failed to load quotation sections");
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, estimateId]);
+
+  async function handlePreview(): Promise<void> {
+    setErrorMessage("");
+    setIsWorking(true);
+    try {
+      const result = await previewQuotation({ estimateId, overrides });
+      setPreviewHtml(result.html);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to preview quotation");
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function handleSave(): Promise<void> {
+    setErrorMessage("");
+    setIsWorking(true);
+    try {
+      onSaved(await updateEstimateQuotation(estimateId, overrides));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to save quotation sections");
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Quotation Sections"
+      className="max-w-4xl"
+      onClose={() => {
+        if (!isWorking) {
+          onClose();
+        }
+      }}
+    >
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 px-6 py-12 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Loading quotation sections...</span>
+          </div>
+        ) : previewHtml !== null ? (
+          <iframe
+            title="Quotation preview"
+            sandbox=""
+            srcDoc={previewHtml}
+            className="h-[65vh] w-full rounded-md border border-[var(--color-border)] bg-white"
+          />
+        ) : quotation ? (
+          <div className="max-h-[65vh] space-y-4 overflow-y-auto pr-1">
+            <p className="text-sm text-[var(--color-text-muted)]">
+              Sections use the organization defaults from Settings &rsaquo; Branding unless overridden for this estimate.
+            </p>
+            <QuotationSectionsEditor
+              idPrefix="estimateQuotation"
+              value={overrides}
+              onChange={setOverrides}
+              inherited={quotation.defaults}
+              disabled={isReadOnly || isWorking}
+            />
+          </div>
+        ) : null}
+
+        {errorMessage ? (
+          <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+            {errorMessage}
+          </p>
+        ) : null}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isWorking}>
+            {isReadOnly ? "Close" : "Cancel"}
+          </Button>
+          {previewHtml !== null ? (
+            <Button variant="secondary" onClick={() => setPreviewHtml(null)} disabled={isWorking}>
+              Back to Sections
+            </Button>
+          ) : (
+            <Button
+              variant="secondary"
+              onClick={() => void handlePreview()}
+              disabled={isWorking || isLoading || !quotation}
+            >
+              Preview
+            </Button>
+          )}
+          {isReadOnly ? null : (
+            <Button onClick={() => void handleSave()} disabled={isWorking || isLoading || !quotation}>
+              {isWorking ? "Working..." : "Save Sections"}
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  approveEstimate,
+  rejectEstimate,
+  submitEstimateForReview,
+  type EstimateReviewAction,
+  type EstimateReviewTrail,
+  type EstimateStatus,
+  type SubmitEstimateForReviewResult,
+} from "@/lib/api";
+import { formatCurrencyPhp } from "@/lib/format";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+
+const TEXTAREA_CLASS =
+  "min-h-24 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-sm text-[var(--color-text)]";
+
+const ACTION_LABELS: Record<EstimateReviewAction, { label: string; variant: "neutral" | "success" | "danger" }> = {
+  SUBMITTED: { label: "Submitted", variant: "neutral" },
+  APPROVED: { label: "Approved", variant: "success" },
+  REJECTED: { label: "Rejected", variant: "danger" },
+};
+
+type EstimateReviewModalProps = {
+  isOpen: boolean;
+  estimateId: string;
+  status: EstimateStatus;
+  trail: EstimateReviewTrail | null;
+  currentUserId: string;
+  currentUserRole: string;
+  /** Admins and estimators may submit drafts; viewers only see the trail. */
+  canSubmit: boolean;
+  /** Open comment threads; approval is refused while any remain if the policy blocks on them. */
+  unresolvedCommentCount: number;
+  blockUnresolvedComments: boolean;
+  onClose: () => void;
+  onReviewed: (message: string) => void;
+};
+
+function formatDateTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+
+  return new Intl.DateTimeFormat("en-PH", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+}
+
+function describeSubmission(result: SubmitEstimateForReviewResult): string {
+  if (result.emailDelivery === "SENT") {
+    return `Submitted for review. Notified ${result.reviewersNotified} reviewer${result.reviewersNotified === 1 ? "" : "s"}.`;
+  }
+
+  if (result.emailDelivery === "FAILED") {
+    return "Submitted for review, but reviewers could not be emailed. Let them know directly.";
+  }
+
+  return "Submitted for review. No other users can review it yet.";
+}
+
+export function EstimateReviewModal({
+  isOpen,
+  estimateId,
+  status,
+  trail,
+  currentUserId,
+  currentUserRole,
+  canSubmit,
+  unresolvedCommentCount,
+  blockUnresolvedComments,
+  onClose,
+  onReviewed,
+}: EstimateReviewModalProps) {
+  const [comment, setComment] = useState("");
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setComment("");
+      setErrorMessage("");
+    }
+  }, [isOpen]);
+
+  const pending = trail?.pending ?? null;
+  const canDecide =
+    status === "FOR_REVIEW" && pending !== null && pending.reviewerRoles.some((role) => role === currentUserRole);
+  const isSubmitter = pending?.submittedBy?.id === currentUserId;
+  const isBlockedByComments = blockUnresolvedComments && unresolvedCommentCount > 0;
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setErrorMessage("");
+    setIsWorking(true);
+    try {
+      const result = await submitEstimateForReview(estimateId, comment.trim());
+      onReviewed(describeSubmission(result));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to submit estimate for review");
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function handleDecision(decision: "approve" | "reject"): Promise<void> {
+    if (!comment.trim()) {
+      setErrorMessage("Add a review comment.");
+      return;
+    }
+
+    setErrorMessage("");
+    setIsWorking(true);
+    try {
+      if (decision === "approve") {
+        await approveEstimate(estimateId, comment.trim());
+        onReviewed("Approved and finalized the estimate.");
+      } else {
+        await rejectEstimate(estimateId, comment.trim());
+        onReviewed("Returned the estimate to draft with your comments.");
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : `Failed to ${decision} estimate`);
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title={
+        status === "FOR_REVIEW"
+          ? "Review Estimate"
+          : status === "DRAFT" && canSubmit
+            ? "Submit for Review"
+            : "Review History"
+      }
+      className="max-w-2xl"
+      onClose={() => {
+        if (!isWorking) {
+          onClose();
+        }
+      }}
+    >
+      <div className="space-y-6">
+        {status === "DRAFT" && canSubmit ? (
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <p className="text-sm text-[var(--color-text-muted)]">
+              Editing is locked while the estimate is in review. Reviewers are notified by email.
+            </p>
+            <div>
+              <Label htmlFor="reviewSubmitComment">Note for reviewers (optional)</Label>
+              <textarea
+                id="reviewSubmitComment"
+                className={TEXTAREA_CLASS}
+                value={comment}
+                onChange={(event) => setComment(event.target.value)}
+                maxLength={2000}
+                disabled={isWorking}
+              />
+            </div>
+            {errorMessage ? (
+              <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+                {errorMessage}
+              </p>
+            ) : null}
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={onClose} disabled={isWorking}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isWorking}>
+                {isWorking ? "Submitting..." : "Submit for Review"}
+              </Button>
+            </div>
+          </form>
+        ) : null}
+
+        {status === "FOR_REVIEW" && pending ? (
+          canDecide ? (
+            <div className="space-y-4">
+              <p className="text-sm text-[var(--color-text-muted)]">
+                Approving finalizes the estimate and locks its line items. Rejecting returns it to draft.
+              </p>
+              <div>
+                <Label htmlFor="reviewDecisionComment">Review comment</Label>
+                <textarea
+                  id="reviewDecisionComment"
+                  className={TEXTAREA_CLASS}
+                  value={comment}
+                  onChange={(event) => setComment(event.target.value)}
+                  maxLength={2000}
+                  required
+                  disabled={isWorking}
+                />
+              </div>
+              {isSubmitter ? (
+                <p className="text-xs text-[var(--color-text-muted)]">
+                  You submitted this estimate, so someone else has to approve it. You can still reject it to make
+                  changes.
+                </p>
+              ) : null}
+              {unresolvedCommentCount > 0 ? (
+                <p className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                  {`${unresolvedCommentCount} comment thread${unresolvedCommentCount === 1 ? " is" : "s are"} still open. `}
+                  {isBlockedByComments
+                    ? "Resolve them before approving, or reject the estimate so the author can address them."
+                    : "Check that they have been addressed before approving."}
+                </p>
+              ) : null}
+              {errorMessage ? (
+                <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+                  {errorMessage}
+                </p>
+              ) : null}
+              <div className="flex justify-end gap-2">
+                <Button variant="danger" onClick={() => void handleDecision("reject")} disabled={isWorking}>
+                  {isWorking ? "Saving..." : "Reject"}
+                </Button>
+                <Button onClick={() => void handleDecision("approve")} disabled={isWorking || isSubmitter || isBlockedByComments}>
+                  {isWorking ? "Saving..." : "Approve & Finalize"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-[var(--color-text-muted)]">
+              {pending.reviewerRoles.length === 1
+                ? "This estimate is above the approval threshold and is waiting for an administrator."
+                : "This estimate is waiting for a reviewer."}
+            </p>
+          )
+        ) : null}
+
+        <div className="space-y-2">
+          <p className="text-sm font-semibold">Review Trail</p>
+          {!trail || trail.items.length === 0 ? (
+            <p className="text-sm text-[var(--color-text-muted)]">This estimate has not been submitted for review.</p>
+          ) : (
+            <ul className="divide-y divide-[var(--color-border)] rounded-md border border-[var(--color-border)]">
+              {trail.items.map((review) => (
+                <li key={review.id} className="space-y-1 px-3 py-2 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={ACTION_LABELS[review.action].variant}>{ACTION_LABELS[review.action].label}</Badge>
+                    <span className="text-xs text-[var(--color-text-muted)]">
+                      {formatDateTime(review.createdAt)} by {review.performedBy.name} ·{" "}
+                      {formatCurrencyPhp(review.totalAmount)}
+                    </span>
+                  </div>
+                  {review.comment ? <p className="whitespace-pre-line">{review.comment}</p> : null}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  createEstimateTemplate,
+  updateEstimateTemplate,
+  type EstimateTemplateDetail,
+  type EstimateTemplateParameterInput,
+} from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+
+const MAX_PARAMETERS = 20;
+const PARAMETER_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+type ParameterRow = {
+  rowKey: number;
+  key: string;
+  label: string;
+  unit: string;
+  defaultValue: string;
+  inputVariables: string[];
+};
+
+type EstimateTemplateModalProps = {
+  isOpen: boolean;
+  /** Saves a new template from this estimate. Omit when editing an existing template. */
+  estimateId?: string;
+  template?: EstimateTemplateDetail | null;
+  /** Formula inputs the template's parameters can drive. */
+  inputVariables: string[];
+  onClose: () => void;
+  onSaved: (template: EstimateTemplateDetail) => void;
+};
+
+let nextRowKey = 0;
+
+function createRow(row: Omit<ParameterRow, "rowKey">): ParameterRow {
+  nextRowKey += 1;
+  return { rowKey: nextRowKey, ...row };
+}
+
+export function EstimateTemplateModal({
+  isOpen,
+  estimateId,
+  template,
+  inputVariables,
+  onClose,
+  onSaved,
+}: EstimateTemplateModalProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rows, setRows] = useState<ParameterRow[]>([]);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    setName(template?.name ?? "");
+    setDescription(template?.description ?? "");
+    setRows(
+      (template?.parameters ?? []).map((parameter) =>
+        createRow({
+          key: parameter.key,
+          label: parameter.label,
+          unit: parameter.unit ?? "",
+          defaultValue: parameter.defaultValue?.toString() ?? "",
+          inputVariables: parameter.inputVariables,
+        }),
+      ),
+    );
+    setErrorMessage("");
+  }, [isOpen, template]);
+
+  function updateRow(rowKey: number, patch: Partial<Omit<ParameterRow, "rowKey">>): void {
+    setRows((current) => current.map((row) => (row.rowKey === rowKey ? { ...row, ...patch } : row)));
+  }
+
+  function toggleVariable(row: ParameterRow, variable: string): void {
+    updateRow(row.rowKey, {
+      inputVariables: row.inputVariables.includes(variable)
+        ? row.inputVariables.filter((candidate) => candidate !== variable)
+        : [...row.inputVariables, variable],
+    });
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setErrorMessage("");
+
+    const parameters: EstimateTemplateParameterInput[] = [];
+    for (const row of rows) {
+      const key = row.key.trim();
+      if (!PARAMETER_KEY_PATTERN.test(key)) {
+        setErrorMessage("Parameter keys must be identifiers such as floor_area.");
+        return;
+      }
+
+      if (!row.label.trim()) {
+        setErrorMessage(`Parameter ${key} needs a label.`);
+        return;
+      }
+
+      if (row.inputVariables.length === 0) {
+        setErrorMessage(`Choose at least one formula input for ${row.label.trim()}.`);
+        return;
+      }
+
+      const defaultValue = row.defaultValue.trim() === "" ? null : Number(row.defaultValue);
+      if (defaultValue !== null && !Number.isFinite(defaultValue)) {
+        setErrorMessage(`Default value for ${row.label.trim()} must be a number.`);
+        return;
+      }
+
+      parameters.push({
+        key,
+        label: row.label.trim(),
+        unit: row.unit.trim() || null,
+        defaultValue,
+        inputVariables: row.inputVariables,
+      });
+    }
+
+    if (new Set(parameters.map((parameter) => parameter.key)).size !== parameters.length) {
+      setErrorMessage("Parameter keys must be unique.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        name: name.trim(),
+        description: description.trim() || null,
+        parameters,
+      };
+      const saved = template
+        ? await updateEstimateTemplate(template.id, payload)
+        : await createEstimateTemplate({ ...payload, estimateId: estimateId ?? "" });
+      onSaved(saved);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title={template ? "Edit Template" : "Save as Template"}
+      className="max-w-3xl"
+      onClose={() => {
+        if (!isSaving) {
+          onClose();
+        }
+      }}
+    >
+      <form className="space-y-4" onSubmit={handleSubmit}>
+        {template ? null : (
+          <p className="text-sm text-[var(--color-text-muted)]">
+            Saves the line items, formula computations and markup settings of this estimate so new estimates can start
+            from them.
+          </p>
+        )}
+        <div>
+          <Label htmlFor="templateName">Name</Label>
+          <Input
+            id="templateName"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="e.g. Two-storey residence"
+            required
+            disabled={isSaving}
+          />
+        </div>
+        <div>
+          <Label htmlFor="templateDescription">Description (optional)</Label>
+          <Input
+            id="templateDescription"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="space-y-2 border-t border-[var(--color-border)] pt-4">
+          <div>
+            <p className="text-sm font-semibold">Parameters</p>
+            <p className="text-xs text-[var(--color-text-muted)]">
+              Parameters such as floor area or storeys are asked for when an estimate is created from the template. Each
+              replaces the saved value of the formula inputs it drives.
+            </p>
+          </div>
+          {rows.map((row) => (
+            <div key={row.rowKey} className="space-y-2 rounded-md border border-[var(--color-border)] p-3">
+              <div className="grid items-end gap-2 md:grid-cols-[1fr_1fr_90px_110px_auto]">
+                <div>
+                  <Label htmlFor={`templateParameterKey-${row.rowKey}`}>Key</Label>
+                  <Input
+                    id={`templateParameterKey-${row.rowKey}`}
+                    value={row.key}
+                    onChange={(event) => updateRow(row.rowKey, { key: event.target.value })}
+                    placeholder="floor_area"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`templateParameterLabel-${row.rowKey}`}>Label</Label>
+                  <Input
+                    id={`templateParameterLabel-${row.rowKey}`}
+                    value={row.label}
+                    onChange={(event) => updateRow(row.rowKey, { label: event.target.value })}
+                    placeholder="Floor area"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`templateParameterUnit-${row.rowKey}`}>Unit</Label>
+                  <Input
+                    id={`templateParameterUnit-${row.rowKey}`}
+                    value={row.unit}
+                    onChange={(event) => updateRow(row.rowKey, { unit: event.target.value })}
+                    placeholder="m2"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`templateParameterDefault-${row.rowKey}`}>Default</Label>
+                  <Input
+                    id={`templateParameterDefault-${row.rowKey}`}
+                    type="number"
+                    step="any"
+                    value={row.defaultValue}
+                    onChange={(event) => updateRow(row.rowKey, { defaultValue: event.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  className="h-10 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                  onClick={() => setRows((current) => current.filter((candidate) => candidate.rowKey !== row.rowKey))}
+                  disabled={isSaving}
+                >
+                  Remove
+                </Button>
+              </div>
+              <fieldset>
+                <legend className="text-xs text-[var(--color-text-muted)]">Drives formula inputs</legend>
+                <div className="mt-1 flex flex-wrap gap-3">
+                  {inputVariables.map((variable) => (
+                    <label key={variable} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={row.inputVariables.includes(variable)}
+                        onChange={() => toggleVariable(row, variable)}
+                        disabled={isSaving}
+                      />
+                      <span className="font-mono text-xs">{variable}</span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            </div>
+          ))}
+          {inputVariables.length === 0 ? (
+            <p className="text-xs text-[var(--color-text-muted)]">
+              No formula computations in this estimate, so there is nothing for parameters to drive.
+            </p>
+          ) : (
+            <Button
+              variant="secondary"
+              onClick={() =>
+                setRows((current) => [
+                  ...current,
+                  createRow({ key: "", label: "", unit: "", defaultValue: "", inputVariables: [] }),
+                ])
+              }
+              disabled={isSaving || rows.length >= MAX_PARAMETERS}
+            >
+              Add Parameter
+            </Button>
+          )}
+        </div>
+
+        {errorMessage ? (
+          <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+            {errorMessage}
+          </p>
+        ) : null}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? "Saving..." : template ? "Save Changes" : "Save Template"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
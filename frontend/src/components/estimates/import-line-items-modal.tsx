@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  importLineItems,
+  type ImportLineItemsResponse,
+  type LineItemImportField,
+} from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+const MAX_LISTED_ERRORS = 50;
+
+const IMPORT_FIELDS: Array<{ field: LineItemImportField; label: string; required: boolean }> = [
+  { field: "category", label: "Category", required: true },
+  { field: "description", label: "Description", required: true },
+  { field: "quantity", label: "Quantity", required: true },
+  { field: "unit", label: "Unit", required: true },
+  { field: "unitMaterialCost", label: "Unit Material Cost", required: true },
+  { field: "unitLaborCost", label: "Unit Labor Cost", required: true },
+  { field: "markupRate", label: "Markup Rate (%)", required: false },
+  { field: "vatExempt", label: "VAT Exempt", required: false },
+  { field: "priceReferenceKey", label: "Price Reference Key", required: false },
+];
+
+type ImportLineItemsModalProps = {
+  isOpen: boolean;
+  estimateId: string;
+  onClose: () => void;
+  onImported: (result: ImportLineItemsResponse) => void;
+};
+
+export function ImportLineItemsModal({ isOpen, estimateId, onClose, onImported }: ImportLineItemsModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [sheet, setSheet] = useState("");
+  const [mapping, setMapping] = useState<Partial<Record<LineItemImportField, string>>>({});
+  const [preview, setPreview] = useState<ImportLineItemsResponse | null>(null);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    setFile(null);
+    setSheet("");
+    setMapping({});
+    setPreview(null);
+    setErrorMessage("");
+  }, [isOpen]);
+
+  async function runImport(dryRun: boolean): Promise<void> {
+    if (!file) {
+      setErrorMessage("Choose a CSV or Excel file first.");
+      return;
+    }
+
+    setErrorMessage("");
+    setIsWorking(true);
+    try {
+      const result = await importLineItems(estimateId, {
+        file,
+        mapping: preview ? mapping : undefined,
+        sheet: sheet.trim() || undefined,
+        dryRun,
+      });
+
+      if (dryRun) {
+        setPreview(result);
+        setMapping(result.mapping);
+      } else {
+        onImported(result);
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to import line items");
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  const isExcel = file?.name.toLowerCase().endsWith(".xlsx") ?? false;
+  const skippedRows = preview ? new Set(preview.errors.map((error) => error.row)).size : 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Import Line Items"
+      className="max-w-3xl"
+      onClose={() => {
+        if (!isWorking) {
+          onClose();
+        }
+      }}
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Upload a bill of quantities as CSV or Excel (.xlsx). The first non-empty row must hold column headers.
+          Categories may be given by code or name. Rows with errors are skipped; all valid rows are added together.
+        </p>
+
+        <div className="grid gap-4 md:grid-cols-[1fr_200px]">
+          <div>
+            <Label htmlFor="importFile">File</Label>
+            <input
+              id="importFile"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="block w-full text-sm"
+              onChange={(event) => {
+                setFile(event.target.files?.[0] ?? null);
+                setPreview(null);
+                setMapping({});
+              }}
+              disabled={isWorking}
+            />
+          </div>
+          {isExcel ? (
+            <div>
+              <Label htmlFor="importSheet">Worksheet (optional)</Label>
+              <Input
+                id="importSheet"
+                value={sheet}
+                onChange={(event) => setSheet(event.target.value)}
+                placeholder="First sheet"
+                disabled={isWorking}
+              />
+            </div>
+          ) : null}
+        </div>
+
+        {preview ? (
+          <>
+            <div className="space-y-2 border-t border-[var(--color-border)] pt-4">
+              <p className="text-sm font-semibold">Column Mapping</p>
+              <div className="grid gap-3 sm:grid-cols-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <Label htmlFor={`importMapping-${field}`}>
+                      {label}
+                      {required ? " *" : ""}
+                    </Label>
+                    <select
+                      id={`importMapping-${field}`}
+                      className={SELECT_CLASS}
+                      value={mapping[field] ?? ""}
+                      onChange={(event) =>
+                        setMapping((current) => {
+                          const next = { ...current };
+                          if (event.target.value) {
+                            next[field] = event.target.value;
+                          } else {
+                            delete next[field];
+                          }
+                          return next;
+                        })
+                      }
+                      disabled={isWorking}
+                    >
+                      <option value="">Not imported</option>
+                      {preview.headers
+                        .filter((header) => header !== "")
+                        .map((header) => (
+                          <option key={header} value={header}>
+                            {header}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2 border-t border-[var(--color-border)] pt-4">
+              <p className="text-sm">
+                <strong>{preview.validRows}</strong> of {preview.totalRows} row(s) ready to import
+                {skippedRows > 0 ? `, ${skippedRows} row(s) will be skipped` : ""}.
+              </p>
+              {preview.errors.length > 0 ? (
+                <div className="max-h-56 overflow-y-auto rounded-md border border-[var(--color-border)]">
+                  <table role="table" className="w-full text-sm">
+                    <thead className="bg-[var(--color-surface-2)] text-left text-[var(--color-text-muted)]">
+                      <tr>
+                        <th scope="col" className="px-3 py-2 font-medium">Row</th>
+                        <th scope="col" className="px-3 py-2 font-medium">Field</th>
+                        <th scope="col" className="px-3 py-2 font-medium">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                        <tr
+                          key={`${error.row}-${error.field ?? ""}-${index}`}
+                          className="border-t border-[var(--color-border)]"
+                        >
+                          <td className="px-3 py-2">{error.row}</td>
+                          <td className="px-3 py-2">
+                            {IMPORT_FIELDS.find((candidate) => candidate.field === error.field)?.label ?? "—"}
+                          </td>
+                          <td className="px-3 py-2">{error.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {preview.errors.length > MAX_LISTED_ERRORS ? (
+                    <p className="px-3 py-2 text-xs text-[var(--color-text-muted)]">
+                      {preview.errors.length - MAX_LISTED_ERRORS} more problem(s) not shown.
+                    </p>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+          </>
+        ) : null}
+
+        {errorMessage ? (
+          <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+            {errorMessage}
+          </p>
+        ) : null}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isWorking}>
+            Cancel
+          </Button>
+          <Button variant="secondary" onClick={() => void runImport(true)} disabled={isWorking || !file}>
+            {preview ? "Check Again" : "Preview"}
+          </Button>
+          <Button
+            onClick={() => void runImport(false)}
+            disabled={isWorking || !preview || preview.validRows === 0}
+          >
+            {isWorking ? "Working..." : `Import ${preview?.validRows ?? 0} Row(s)`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
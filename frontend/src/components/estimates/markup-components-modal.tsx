@@ -0,0 +1,310 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  updateEstimate,
+  type Category,
+  type CategoryNode,
+  type EstimateSummary,
+  type MarkupBase,
+} from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+const MAX_COMPONENTS = 10;
+
+type MarkupComponentRow = {
+  key: number;
+  name: string;
+  rate: string;
+  base: MarkupBase;
+};
+
+type MarkupComponentsModalProps = {
+  isOpen: boolean;
+  estimate: EstimateSummary;
+  categories: CategoryNode[];
+  onClose: () => void;
+  onSaved: (estimate: EstimateSummary) => void;
+};
+
+/** Common Philippine quotation breakdown: OCM on direct cost, then profit on direct cost. */
+const PRESET_ROWS: Array<Omit<MarkupComponentRow, "key">> = [
+  { name: "OCM", rate: "10", base: "DIRECT_COST" },
+  { name: "Contractor's Profit", rate: "10", base: "DIRECT_COST" },
+];
+
+let nextRowKey = 0;
+
+function createRow(row: Omit<MarkupComponentRow, "key">): MarkupComponentRow {
+  nextRowKey += 1;
+  return { key: nextRowKey, ...row };
+}
+
+export function MarkupComponentsModal({ isOpen, estimate, categories, onClose, onSaved }: MarkupComponentsModalProps) {
+  const [rows, setRows] = useState<MarkupComponentRow[]>([]);
+  const [categoryRates, setCategoryRates] = useState<Record<Category, string>>({});
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    setRows(
+      estimate.markupComponents.map((component) =>
+        createRow({
+          name: component.name,
+          rate: Number.parseFloat(component.rate).toString(),
+          base: component.base,
+        }),
+      ),
+    );
+    setCategoryRates(
+      Object.fromEntries(
+        Object.entries(estimate.categoryMarkupRates).map(([category, rate]) => [
+          category,
+          Number.parseFloat(rate ?? "0").toString(),
+        ]),
+      ),
+    );
+    setErrorMessage("");
+  }, [estimate.categoryMarkupRates, estimate.markupComponents, isOpen]);
+
+  function updateRow(key: number, patch: Partial<Omit<MarkupComponentRow, "key">>): void {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+  }
+
+  function moveRow(index: number, offset: -1 | 1): void {
+    setRows((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) {
+        return current;
+      }
+
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setErrorMessage("");
+
+    const markupComponents = [];
+    for (const row of rows) {
+      const rate = Number(row.rate);
+      if (!row.name.trim()) {
+        setErrorMessage("Every markup component needs a name.");
+        return;
+      }
+
+      if (row.rate.trim() === "" || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+        setErrorMessage(`Rate for ${row.name.trim()} must be between 0 and 100.`);
+        return;
+      }
+
+      markupComponents.push({ name: row.name.trim(), rate, base: row.base });
+    }
+
+    const names = new Set(markupComponents.map((component) => component.name.toLowerCase()));
+    if (names.size !== markupComponents.length) {
+      setErrorMessage("Markup component names must be unique.");
+      return;
+    }
+
+    const categoryMarkupRates: Record<Category, number> = {};
+    for (const { code, name } of categories) {
+      const value = categoryRates[code]?.trim() ?? "";
+      if (value === "") {
+        continue;
+      }
+
+      const rate = Number(value);
+      if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+        setErrorMessage(`Markup rate for ${name} must be between 0 and 100.`);
+        return;
+      }
+
+      categoryMarkupRates[code] = rate;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await updateEstimate(estimate.id, {
+        markupRate: Number(estimate.markupRate),
+        vatRate: Number(estimate.vatRate),
+        markupComponents,
+        categoryMarkupRates,
+      });
+      onSaved(updated);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to save markup");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Markup"
+      className="max-w-3xl"
+      onClose={() => {
+        if (!isSaving) {
+          onClose();
+        }
+      }}
+    >
+      <form className="space-y-4" onSubmit={handleSubmit}>
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Components are applied in order. Direct cost is the subtotal after regional adjustment; running total also
+          includes the components above. With no components, the single markup rate is used.
+        </p>
+
+        {rows.length === 0 ? (
+          <p className="rounded-md border border-dashed border-[var(--color-border)] px-3 py-4 text-center text-sm text-[var(--color-text-muted)]">
+            No markup components. The estimate uses its single markup rate.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rows.map((row, index) => (
+              <div key={row.key} className="grid items-end gap-2 md:grid-cols-[1fr_110px_170px_auto]">
+                <div>
+                  <Label htmlFor={`markupComponentName-${row.key}`}>Name</Label>
+                  <Input
+                    id={`markupComponentName-${row.key}`}
+                    value={row.name}
+                    onChange={(event) => updateRow(row.key, { name: event.target.value })}
+                    placeholder="e.g. OCM"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`markupComponentRate-${row.key}`}>Rate (%)</Label>
+                  <Input
+                    id={`markupComponentRate-${row.key}`}
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={row.rate}
+                    onChange={(event) => updateRow(row.key, { rate: event.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`markupComponentBase-${row.key}`}>Applied To</Label>
+                  <select
+                    id={`markupComponentBase-${row.key}`}
+                    className={SELECT_CLASS}
+                    value={row.base}
+                    onChange={(event) => updateRow(row.key, { base: event.target.value as MarkupBase })}
+                    disabled={isSaving}
+                  >
+                    <option value="DIRECT_COST">Direct cost</option>
+                    <option value="RUNNING_TOTAL">Running total</option>
+                  </select>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    className="h-10 px-2 text-xs"
+                    aria-label={`Move ${row.name || "component"} up`}
+                    onClick={() => moveRow(index, -1)}
+                    disabled={isSaving || index === 0}
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    className="h-10 px-2 text-xs"
+                    aria-label={`Move ${row.name || "component"} down`}
+                    onClick={() => moveRow(index, 1)}
+                    disabled={isSaving || index === rows.length - 1}
+                  >
+                    ↓
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    className="h-10 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                    onClick={() => setRows((current) => current.filter((candidate) => candidate.key !== row.key))}
+                    disabled={isSaving}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => setRows((current) => [...current, createRow({ name: "", rate: "", base: "DIRECT_COST" })])}
+            disabled={isSaving || rows.length >= MAX_COMPONENTS}
+          >
+            Add Component
+          </Button>
+          {rows.length === 0 ? (
+            <Button variant="ghost" onClick={() => setRows(PRESET_ROWS.map(createRow))} disabled={isSaving}>
+              Use OCM + Profit
+            </Button>
+          ) : null}
+        </div>
+
+        <div className="space-y-2 border-t border-[var(--color-border)] pt-4">
+          <div>
+            <p className="text-sm font-semibold">Category Rates</p>
+            <p className="text-xs text-[var(--color-text-muted)]">
+              A category rate replaces the markup above for every line item filed directly under that category. Leave
+              blank to use the estimate markup. A rate set on a line item takes precedence.
+            </p>
+          </div>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {categories.map((category) => (
+              <div key={category.id}>
+                <Label htmlFor={`categoryMarkupRate-${category.code}`}>{category.name} (%)</Label>
+                <Input
+                  id={`categoryMarkupRate-${category.code}`}
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={categoryRates[category.code] ?? ""}
+                  onChange={(event) =>
+                    setCategoryRates((current) => ({ ...current, [category.code]: event.target.value }))
+                  }
+                  placeholder="Default"
+                  disabled={isSaving}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {errorMessage ? (
+          <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+            {errorMessage}
+          </p>
+        ) : null}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Markup"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { EstimatePdfOptions, PdfCostColumns, PdfDetailLevel, PdfLanguage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
+
+export const DEFAULT_PDF_OPTIONS: EstimatePdfOptions = {
+  detailLevel: "itemized",
+  hideUnitCosts: false,
+  hideFormulaAppendix: false,
+  costColumns: "split",
+  language: "en",
+};
+
+type PdfOptionsModalProps = {
+  isOpen: boolean;
+  value: EstimatePdfOptions;
+  onClose: () => void;
+  onApply: (options: EstimatePdfOptions) => void;
+};
+
+export function PdfOptionsModal({ isOpen, value, onClose, onApply }: PdfOptionsModalProps) {
+  const [draft, setDraft] = useState<EstimatePdfOptions>(value);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(value);
+    }
+  }, [isOpen, value]);
+
+  function update(patch: Partial<EstimatePdfOptions>): void {
+    setDraft((current) => ({ ...current, ...patch }));
+  }
+
+  const isSummary = draft.detailLevel === "summary";
+
+  return (
+    <Modal isOpen={isOpen} title="PDF Options" onClose={onClose}>
+      <div className="space-y-4">
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Choose what the client sees. These options apply to PDF previews and downloads of this estimate.
+        </p>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <Label htmlFor="pdfDetailLevel">Detail level</Label>
+            <select
+              id="pdfDetailLevel"
+              className={SELECT_CLASS}
+              value={draft.detailLevel}
+              onChange={(event) => update({ detailLevel: event.target.value as PdfDetailLevel })}
+            >
+              <option value="itemized">Itemized line items</option>
+              <option value="summary">Category totals only</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="pdfCostColumns">Cost columns</Label>
+            <select
+              id="pdfCostColumns"
+              className={SELECT_CLASS}
+              value={draft.costColumns}
+              onChange={(event) => update({ costColumns: event.target.value as PdfCostColumns })}
+            >
+              <option value="split">Material and labor</option>
+              <option value="combined">Combined</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="pdfLanguage">Labels</Label>
+            <select
+              id="pdfLanguage"
+              className={SELECT_CLASS}
+              value={draft.language}
+              onChange={(event) => update({ language: event.target.value as PdfLanguage })}
+            >
+              <option value="en">English</option>
+              <option value="fil">Filipino</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.hideUnitCosts}
+              onChange={(event) => update({ hideUnitCosts: event.target.checked })}
+              disabled={isSummary}
+            />
+            Hide unit costs (show quantities and line totals only)
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.hideFormulaAppendix}
+              onChange={(event) => update({ hideFormulaAppendix: event.target.checked })}
+            />
+            Hide formula usage appendix
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_PDF_OPTIONS)}>
+            Reset
+          </Button>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onApply(draft)}>Apply</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { getPriceCatalogItems, type PriceCatalogItem } from "@/lib/api";
+import { formatCurrencyPhp } from "@/lib/format";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+
+const RESULT_LIMIT = 8;
+
+type PriceCatalogPickerProps = {
+  disabled?: boolean;
+  onSelect: (catalogItem: PriceCatalogItem) => void;
+};
+
+/**
+ * Searches the organization price catalog from inside the line item form. Rendered within a form,
+ * so searching is triggered by button or Enter without submitting the surrounding form.
+ */
+export function PriceCatalogPicker({ disabled, onSelect }: PriceCatalogPickerProps) {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [results, setResults] = useState<PriceCatalogItem[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  async function runSearch(): Promise<void> {
+    setIsSearching(true);
+    setErrorMessage("");
+    try {
+      const result = await getPriceCatalogItems({
+        page: 1,
+        pageSize: RESULT_LIMIT,
+        search: searchTerm.trim() || undefined,
+      });
+      setResults(result.items);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to search price catalog");
+    } finally {
+      setIsSearching(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="priceCatalogSearch">Price Catalog</Label>
+      <div className="flex gap-2">
+        <Input
+          id="priceCatalogSearch"
+          value={searchTerm}
+          onChange={(event) => setSearchTerm(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              void runSearch();
+            }
+          }}
+          placeholder="Search item code or description"
+          disabled={disabled || isSearching}
+        />
+        <Button type="button" variant="secondary" onClick={() => void runSearch()} disabled={disabled || isSearching}>
+          {isSearching ? <Spinner /> : "Search"}
+        </Button>
+      </div>
+      {errorMessage ? (
+        <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+          {errorMessage}
+        </p>
+      ) : null}
+      {results !== null ? (
+        results.length === 0 ? (
+          <p className="text-xs text-[var(--color-text-muted)]">No catalog items found.</p>
+        ) : (
+          <ul className="max-h-48 overflow-y-auto rounded-md border border-[var(--color-border)]">
+            {results.map((catalogItem) => (
+              <li key={catalogItem.id} className="border-t border-[var(--color-border)] first:border-t-0">
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm hover:bg-[var(--color-surface-2)]"
+                  onClick={() => {
+                    onSelect(catalogItem);
+                    setResults(null);
+                  }}
+                  disabled={disabled}
+                >
+                  <span className="min-w-0">
+                    <span className="font-mono text-xs text-[var(--color-text-muted)]">{catalogItem.itemCode}</span>
+                    <span className="block truncate">{catalogItem.description}</span>
+                  </span>
+                  <span className="shrink-0 text-right text-xs text-[var(--color-text-muted)]">
+                    {formatCurrencyPhp(catalogItem.unitMaterialCost)} + {formatCurrencyPhp(catalogItem.unitLaborCost)} /{" "}
+                    {catalogItem.unit}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getEstimateEmails,
+  sendEstimateEmail,
+  type EstimateEmailRecord,
+  type EstimatePdfOptions,
+} from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+
+const TEXTAREA_CLASS =
+  "min-h-28 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-sm text-[var(--color-text)]";
+
+const DEFAULT_MESSAGE = "Good day! Please find attached our quotation for your review.";
+
+type SendEstimateModalProps = {
+  isOpen: boolean;
+  estimateId: string;
+  /** Layout of the attached PDF, as chosen in PDF Options. */
+  pdfOptions: EstimatePdfOptions;
+  /** Viewers see the sent history without the send form. */
+  canSend: boolean;
+  onClose: () => void;
+  onSent: (email: EstimateEmailRecord) => void;
+};
+
+function formatDateTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+
+  return new Intl.DateTimeFormat("en-PH", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+}
+
+function parseRecipients(value: string): string[] {
+  const seen = new Set<string>();
+  return value
+    .split(/[\s,;]+/)
+    .map((recipient) => recipient.trim())
+    .filter((recipient) => {
+      const key = recipient.toLowerCase();
+      if (!recipient || seen.has(key)) {
+        return false;
+      }
+
+      seen.add(key);
+      return true;
+    });
+}
+
+export function SendEstimateModal({
+  isOpen,
+  estimateId,
+  pdfOptions,
+  canSend,
+  onClose,
+  onSent,
+}: SendEstimateModalProps) {
+  const [recipients, setRecipients] = useState("");
+  const [message, setMessage] = useState(DEFAULT_MESSAGE);
+  const [history, setHistory] = useState<EstimateEmailRecord[]>([]);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let isCancelled = false;
+    setErrorMessage("");
+    setIsLoading(true);
+    void getEstimateEmails(estimateId)
+      .then((result) => {
+        if (!isCancelled) {
+          setHistory(result.items);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!isCancelled) {
+          setErrorMessage(error instanceof Error ? error.message : "Failed to load sent history");
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, estimateId]);
+
+  async function handleSend(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    const parsedRecipients = parseRecipients(recipients);
+    if (parsedRecipients.length === 0) {
+      setErrorMessage("Enter at least one recipient.");
+      return;
+    }
+
+    setErrorMessage("");
+    setIsSending(true);
+    try {
+      const sent = await sendEstimateEmail(estimateId, {
+        recipients: parsedRecipients,
+        message,
+        options: pdfOptions,
+      });
+      setHistory((current) => [sent, ...current]);
+      setRecipients("");
+      onSent(sent);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to send quotation");
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Email Quotation"
+      className="max-w-2xl"
+      onClose={() => {
+        if (!isSending) {
+          onClose();
+        }
+      }}
+    >
+      <div className="space-y-6">
+        {canSend ? (
+          <form className="space-y-4" onSubmit={handleSend}>
+            <p className="text-sm text-[var(--color-text-muted)]">
+              The quotation PDF is attached using the current PDF options
+              {pdfOptions.detailLevel === "summary" ? " (category totals only)" : ""}.
+            </p>
+            <div>
+              <Label htmlFor="sendEstimateRecipients">Recipients</Label>
+              <Input
+                id="sendEstimateRecipients"
+                value={recipients}
+                onChange={(event) => setRecipients(event.target.value)}
+                placeholder="client@example.com, engineer@example.com"
+                disabled={isSending}
+              />
+              <p className="mt-1 text-xs text-[var(--color-text-muted)]">Separate addresses with commas. Up to 10.</p>
+            </div>
+            <div>
+              <Label htmlFor="sendEstimateMessage">Message</Label>
+              <textarea
+                id="sendEstimateMessage"
+                className={TEXTAREA_CLASS}
+                value={message}
+                onChange={(event) => setMessage(event.target.value)}
+                maxLength={5000}
+                disabled={isSending}
+              />
+            </div>
+            {errorMessage ? (
+              <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+                {errorMessage}
+              </p>
+            ) : null}
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={onClose} disabled={isSending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSending}>
+                {isSending ? "Sending..." : "Send"}
+              </Button>
+            </div>
+          </form>
+        ) : errorMessage ? (
+          <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+            {errorMessage}
+          </p>
+        ) : null}
+
+        <div className="space-y-2">
+          <p className="text-sm font-semibold">Sent History</p>
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-[var(--color-text-muted)]">
+              <Spinner />
+              <span>Loading sent history...</span>
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-[var(--color-text-muted)]">This estimate has not been emailed yet.</p>
+          ) : (
+            <ul className="divide-y divide-[var(--color-border)] rounded-md border border-[var(--color-border)]">
+              {history.map((email) => (
+                <li key={email.id} className="space-y-1 px-3 py-2 text-sm">
+                  <p className="font-medium">{email.recipients.join(", ")}</p>
+                  <p className="text-xs text-[var(--color-text-muted)]">
+                    {formatDateTime(email.sentAt)} by {email.sentBy.name} · {email.fileName}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
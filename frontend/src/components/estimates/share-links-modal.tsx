@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  createEstimateShareLink,
+  getEstimateShareLinks,
+  revokeEstimateShareLink,
+  type EstimatePdfOptions,
+  type EstimateShareLink,
+} from "@/lib/api";
+import { formatDate } from "@/lib/format";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Modal } from "@/components/ui/modal";
+import { Spinner } from "@/components/ui/spinner";
+
+type ShareLinksModalProps = {
+  isOpen: boolean;
+  estimateId: string;
+  /** Layout of the shared view, as chosen in PDF Options. */
+  pdfOptions: EstimatePdfOptions;
+  /** Links can only be created for final estimates by estimators and admins. */
+  canCreate: boolean;
+  canRevoke: boolean;
+  onClose: () => void;
+};
+
+function describeLink(link: EstimateShareLink): { label: string; variant: "success" | "neutral" | "warning" | "danger" } {
+  if (link.response) {
+    return link.response.decision === "ACCEPTED"
+      ? { label: "Accepted", variant: "success" }
+      : { label: "Changes requested", variant: "warning" };
+  }
+
+  if (link.revokedAt) {
+    return { label: "Revoked", variant: "danger" };
+  }
+
+  return link.isActive ? { label: "Active", variant: "neutral" } : { label: "Expired", variant: "danger" };
+}
+
+export function ShareLinksModal({
+  isOpen,
+  estimateId,
+  pdfOptions,
+  canCreate,
+  canRevoke,
+  onClose,
+}: ShareLinksModalProps) {
+  const [links, setLinks] = useState<EstimateShareLink[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState("14");
+  const [createdUrl, setCreatedUrl] = useState("");
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let isCancelled = false;
+    setCreatedUrl("");
+    setErrorMessage("");
+    setIsLoading(true);
+    void getEstimateShareLinks(estimateId)
+      .then((result) => {
+        if (!isCancelled) {
+          setLinks(result.items);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!isCancelled) {
+          setErrorMessage(error instanceof Error ? error.message : "Failed to load share links");
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, estimateId]);
+
+  async function handleCreate(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setErrorMessage("");
+    setIsWorking(true);
+    try {
+      const created = await createEstimateShareLink(estimateId, {
+        expiresInDays: Number.parseInt(expiresInDays, 10),
+        options: pdfOptions,
+      });
+      const { url, ...link } = created;
+      setCreatedUrl(url);
+      setLinks((current) => [link, ...current]);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to create share link");
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function handleRevoke(linkId: string): Promise<void> {
+    setErrorMessage("");
+    setIsWorking(true);
+    try {
+      const revoked = await revokeEstimateShareLink(estimateId, linkId);
+      setLinks((current) => current.map((link) => (link.id === revoked.id ? revoked : link)));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to revoke share link");
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function handleCopy(): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+    } catch {
+      setErrorMessage("Copy the link manually; the clipboard is not available.");
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Share Links"
+      className="max-w-2xl"
+      onClose={() => {
+        if (!isWorking) {
+          onClose();
+        }
+      }}
+    >
+      <div className="space-y-6">
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Clients can open a share link without an account to view this estimate and accept it or request changes.
+        </p>
+
+        {canCreate ? (
+          <form className="flex flex-wrap items-end gap-3" onSubmit={handleCreate}>
+            <div className="w-40">
+              <Label htmlFor="shareLinkExpiry">Expires after (days)</Label>
+              <Input
+                id="shareLinkExpiry"
+                type="number"
+                min={1}
+                max={90}
+                value={expiresInDays}
+                onChange={(event) => setExpiresInDays(event.target.value)}
+                required
+                disabled={isWorking}
+              />
+            </div>
+            <Button type="submit" disabled={isWorking}>
+              {isWorking ? "Creating..." : "Create Link"}
+            </Button>
+          </form>
+        ) : null}
+
+        {createdUrl ? (
+          <div className="space-y-2 rounded-md border border-emerald-300 bg-emerald-50 p-3 text-sm text-emerald-800">
+            <p>Copy this link now. It will not be shown again.</p>
+            <div className="flex gap-2">
+              <Input value={createdUrl} readOnly aria-label="Share link" onFocus={(event) => event.target.select()} />
+              <Button variant="secondary" onClick={() => void handleCopy()}>
+                Copy
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        {errorMessage ? (
+          <p role="alert" className="text-sm text-rose-600 dark:text-rose-300">
+            {errorMessage}
+          </p>
+        ) : null}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-[var(--color-text-muted)]">
+            <Spinner />
+            <span>Loading share links...</span>
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-[var(--color-text-muted)]">This estimate has not been shared yet.</p>
+        ) : (
+          <ul className="divide-y divide-[var(--color-border)] rounded-md border border-[var(--color-border)]">
+            {links.map((link) => {
+              const state = describeLink(link);
+              return (
+                <li key={link.id} className="space-y-1 px-3 py-2 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={state.variant}>{state.label}</Badge>
+                      <span className="text-xs text-[var(--color-text-muted)]">
+                        Created {formatDate(link.createdAt)} by {link.createdBy.name} · expires{" "}
+                        {formatDate(link.expiresAt)}
+                      </span>
+                    </div>
+                    {canRevoke && link.isActive && !link.response ? (
+                      <Button
+                        variant="ghost"
+                        className="h-8 px-2 text-xs text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+                        onClick={() => void handleRevoke(link.id)}
+                        disabled={isWorking}
+                      >
+                        Revoke
+                      </Button>
+                    ) : null}
+                  </div>
+                  <p className="text-xs text-[var(--color-text-muted)]">
+                    {link.viewCount === 0
+                      ? "Not viewed yet"
+                      : `Viewed ${link.viewCount} time${link.viewCount === 1 ? "" : "s"}${link.lastViewedAt ? `, last on ${formatDate(link.lastViewedAt)}` : ""}`}
+                  </p>
+                  {link.response ? (
+                    <p className="text-xs">
+                      {link.response.respondentName ?? "Client"} on {formatDate(link.response.respondedAt)}
+                      {link.response.comment ? `: ${link.response.comment}` : ""}
+                    </p>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+}
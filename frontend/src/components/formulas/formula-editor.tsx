@@ -4,15 +4,19 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   ApiError,
-  CATEGORY_VALUES,
   createFormula,
+  getCategories,
   getFormula,
+  getFormulaUnits,
   testFormula,
   updateFormula,
   type Category,
+  type CategoryNode,
   type FormulaCreateOrUpdatePayload,
+  type FormulaUnit,
 } from "@/lib/api";
 import { readAuthUser } from "@/lib/auth";
+import { getCompatibleUnitSymbols } from "@/lib/units";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -45,6 +49,14 @@ type OutputRow = {
   unit: string;
 };
 
+type DependencyRow = {
+  id: string;
+  alias: string;
+  formulaName: string;
+  version: string;
+  bindings: string;
+};
+
 const SELECT_CLASS =
   "h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-sm text-[var(--color-text)]";
 
@@ -98,6 +110,43 @@ function createOutputRow(id: string): OutputRow {
   };
 }
 
+function createDependencyRow(id: string): DependencyRow {
+  return {
+    id,
+    alias: "",
+    formulaName: "",
+    version: "",
+    bindings: "",
+  };
+}
+
+function formatInputBindings(bindings: Record<string, string>): string {
+  return Object.entries(bindings)
+    .map(([variable, expression]) => `${variable} = ${expression}`)
+    .join("\n");
+}
+
+function parseInputBindings(value: string, alias: string): Record<string, string> {
+  const bindings: Record<string, string> = {};
+  for (const line of value.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const separatorIndex = trimmed.indexOf("=");
+    const variable = separatorIndex > 0 ? trimmed.slice(0, separatorIndex).trim() : "";
+    const expression = separatorIndex > 0 ? trimmed.slice(separatorIndex + 1).trim() : "";
+    if (!variable || !expression) {
+      throw new Error(`Invalid input binding for ${alias}: use "input = expression" per line.`);
+    }
+
+    bindings[variable] = expression;
+  }
+
+  return bindings;
+}
+
 function parseExpressionErrorVariable(message: string): string | null {
   const match = message.match(/Expression for ([A-Za-z_][A-Za-z0-9_]*)/);
   return match?.[1] ?? null;
@@ -115,17 +164,22 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
 
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
-  const [category, setCategory] = useState<Category>("CONCRETE_WORKS");
+  const [category, setCategory] = useState<Category>("");
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
   const [inputs, setInputs] = useState<InputRow[]>([]);
   const [expressions, setExpressions] = useState<ExpressionRow[]>([]);
   const [outputs, setOutputs] = useState<OutputRow[]>([]);
+  const [dependencies, setDependencies] = useState<DependencyRow[]>([]);
 
   const [testPanelOpen, setTestPanelOpen] = useState(true);
   const [testInputValues, setTestInputValues] = useState<Record<string, string>>({});
+  const [testInputUnits, setTestInputUnits] = useState<Record<string, string>>({});
+  const [formulaUnits, setFormulaUnits] = useState<FormulaUnit[]>([]);
   const [testResult, setTestResult] = useState<{
     resolvedInputs: Record<string, number>;
     computedResults: Record<string, number>;
     outputValues: Record<string, number>;
+    dependencyOutputs: Record<string, number>;
   } | null>(null);
   const [testError, setTestError] = useState("");
 
@@ -146,6 +200,51 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
     setOutputs([createOutputRow(nextRowId("output"))]);
   }, []);
 
+  useEffect(() => {
+    let active = true;
+
+    async function loadUnits(): Promise<void> {
+      try {
+        const result = await getFormulaUnits();
+        if (active) {
+          setFormulaUnits(result.items);
+        }
+      } catch {
+        // Unit suggestions are optional; free-text units still work without them.
+      }
+    }
+
+    void loadUnits();
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+
+    async function loadCategories(): Promise<void> {
+      try {
+        const result = await getCategories();
+        if (active) {
+          setCategories(result.items);
+          setCategory((current) => current || (result.items[0]?.code ?? ""));
+        }
+      } catch (error) {
+        if (active) {
+          setErrorMessage(error instanceof Error ? error.message : "Failed to load categories");
+        }
+      }
+    }
+
+    void loadCategories();
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
   useEffect(() => {
     if (!formulaId) {
       return;
@@ -192,6 +291,15 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
             unit: output.unit,
           })),
         );
+        setDependencies(
+          (formula.dependencies ?? []).map((dependency) => ({
+            id: nextRowId("dependency"),
+            alias: dependency.alias,
+            formulaName: dependency.formulaName,
+            version: dependency.version !== undefined ? `${dependency.version}` : "",
+            bindings: formatInputBindings(dependency.inputBindings),
+          })),
+        );
         setTestInputValues(
           Object.fromEntries(
             formula.inputs.map((input) => [
@@ -259,6 +367,19 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
     );
   }
 
+  function updateDependencyRow(id: string, field: keyof DependencyRow, value: string): void {
+    setDependencies((current) =>
+      current.map((row) =>
+        row.id === id
+          ? {
+              ...row,
+              [field]: value,
+            }
+          : row,
+      ),
+    );
+  }
+
   function addInputRow(): void {
     setInputs((current) => [...current, createInputRow(nextRowId("input"))]);
   }
@@ -271,6 +392,14 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
     setOutputs((current) => [...current, createOutputRow(nextRowId("output"))]);
   }
 
+  function addDependencyRow(): void {
+    setDependencies((current) => [...current, createDependencyRow(nextRowId("dependency"))]);
+  }
+
+  function removeDependencyRow(id: string): void {
+    setDependencies((current) => current.filter((row) => row.id !== id));
+  }
+
   function removeInputRow(id: string): void {
     setInputs((current) => (current.length > 1 ? current.filter((row) => row.id !== id) : current));
   }
@@ -341,6 +470,25 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
           unit,
         };
       }),
+      dependencies: dependencies.map((row) => {
+        const alias = row.alias.trim();
+        const formulaName = row.formulaName.trim();
+        if (!alias || !formulaName) {
+          throw new Error("Each dependency row requires alias and formula name.");
+        }
+
+        const version = row.version.trim() ? Number.parseInt(row.version.trim(), 10) : undefined;
+        if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+          throw new Error(`Invalid version for dependency ${alias}.`);
+        }
+
+        return {
+          alias,
+          formulaName,
+          version,
+          inputBindings: parseInputBindings(row.bindings, alias),
+        };
+      }),
     };
   }
 
@@ -404,6 +552,7 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
     }
 
     const inputValues: Record<string, number> = {};
+    const inputUnits: Record<string, string> = {};
     for (const input of inputs) {
       const key = input.variable.trim();
       if (!key) {
@@ -424,6 +573,11 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
       }
 
       inputValues[key] = parsed;
+
+      const selectedUnit = testInputUnits[key];
+      if (selectedUnit && selectedUnit !== input.unit.trim()) {
+        inputUnits[key] = selectedUnit;
+      }
     }
 
     setIsTesting(true);
@@ -431,11 +585,16 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
     setTestResult(null);
 
     try {
-      const result = await testFormula(formulaId, { inputValues });
+      const result = await testFormula(formulaId, { inputValues, inputUnits });
       setTestResult({
         resolvedInputs: result.resolvedInputs,
         computedResults: result.computedResults,
         outputValues: result.outputValues,
+        dependencyOutputs: Object.fromEntries(
+          Object.entries(result.dependencyResults ?? {}).flatMap(([alias, dependencyResult]) =>
+            Object.entries(dependencyResult.outputValues).map(([key, value]) => [`${alias}.${key}`, value]),
+          ),
+        ),
       });
     } catch (error) {
       setTestError(error instanceof Error ? error.message : "Formula test failed");
@@ -446,6 +605,13 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
 
   return (
     <section className="space-y-6">
+      <datalist id="formula-unit-options">
+        {formulaUnits.map((unit) => (
+          <option key={unit.symbol} value={unit.symbol}>
+            {unit.label}
+          </option>
+        ))}
+      </datalist>
       <div>
         <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--color-text-muted)]">
           Formula Editor
@@ -506,9 +672,12 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
                 onChange={(event) => setCategory(event.target.value as Category)}
                 disabled={!isAdmin || isSaving}
               >
-                {CATEGORY_VALUES.map((item) => (
-                  <option key={item} value={item}>
-                    {formatCategoryLabel(item)}
+                {category && !categories.some((item) => item.code === category) ? (
+                  <option value={category}>{formatCategoryLabel(category)}</option>
+                ) : null}
+                {categories.map((item) => (
+                  <option key={item.id} value={item.code}>
+                    {`${"\u00a0\u00a0".repeat(item.depth - 1)}${item.code} ${item.name}`}
                   </option>
                 ))}
               </select>
@@ -543,6 +712,7 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
                     value={row.unit}
                     onChange={(event) => updateInputRow(row.id, "unit", event.target.value)}
                     placeholder="unit"
+                    list="formula-unit-options"
                     aria-label={`Input definition row ${rowIndex + 1} unit`}
                     disabled={!isAdmin || isSaving}
                   />
@@ -596,7 +766,79 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
 
           <div className="space-y-3 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4">
             <div className="flex items-center justify-between">
-              <h2 className="text-base font-semibold">Expression Definitions</h2>
+              <div>
+                <h2 className="text-base font-semibold">Formula Dependencies</h2>
+                <p className="text-xs text-[var(--color-text-muted)]">
+                  Reference outputs of other formulas in expressions as alias.output.
+                </p>
+              </div>
+              <Button type="button" variant="secondary" onClick={addDependencyRow} disabled={!isAdmin || isSaving}>
+                Add Dependency
+              </Button>
+            </div>
+            {dependencies.length === 0 ? (
+              <p className="text-sm text-[var(--color-text-muted)]">This formula does not reference other formulas.</p>
+            ) : (
+              <div className="space-y-3">
+                {dependencies.map((row, rowIndex) => (
+                  <div
+                    key={row.id}
+                    className="grid gap-2 rounded-md border border-[var(--color-border)] p-3 md:grid-cols-[160px_1fr_100px_1fr_120px]"
+                  >
+                    <Input
+                      value={row.alias}
+                      onChange={(event) => updateDependencyRow(row.id, "alias", event.target.value)}
+                      placeholder="alias"
+                      aria-label={`Dependency row ${rowIndex + 1} alias`}
+                      disabled={!isAdmin || isSaving}
+                    />
+                    <Input
+                      value={row.formulaName}
+                      onChange={(event) => updateDependencyRow(row.id, "formulaName", event.target.value)}
+                      placeholder="formula name"
+                      aria-label={`Dependency row ${rowIndex + 1} formula name`}
+                      disabled={!isAdmin || isSaving}
+                    />
+                    <Input
+                      value={row.version}
+                      onChange={(event) => updateDependencyRow(row.id, "version", event.target.value)}
+                      placeholder="latest"
+                      aria-label={`Dependency row ${rowIndex + 1} version`}
+                      type="number"
+                      disabled={!isAdmin || isSaving}
+                    />
+                    <textarea
+                      className="min-h-10 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-sm text-[var(--color-text)]"
+                      value={row.bindings}
+                      onChange={(event) => updateDependencyRow(row.id, "bindings", event.target.value)}
+                      placeholder={"input = expression\n(one per line)"}
+                      aria-label={`Dependency row ${rowIndex + 1} input bindings`}
+                      disabled={!isAdmin || isSaving}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      className="h-10 text-xs"
+                      onClick={() => removeDependencyRow(row.id)}
+                      disabled={!isAdmin || isSaving}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-base font-semibold">Expression Definitions</h2>
+                <p className="text-xs text-[var(--color-text-muted)]">
+                  Use if(condition, a, b) or condition ? a : b for conditionals and lookup(&quot;table&quot;, key) for
+                  lookup tables.
+                </p>
+              </div>
               <Button type="button" variant="secondary" onClick={addExpressionRow} disabled={!isAdmin || isSaving}>
                 Add Expression
               </Button>
@@ -660,6 +902,7 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
                     value={row.unit}
                     onChange={(event) => updateOutputRow(row.id, "unit", event.target.value)}
                     placeholder="unit"
+                    list="formula-unit-options"
                     aria-label={`Output mapping row ${rowIndex + 1} unit`}
                     disabled={!isAdmin || isSaving}
                   />
@@ -696,26 +939,50 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
                     <div className="grid gap-3 md:grid-cols-2">
                       {inputs.map((input) => {
                         const key = input.variable.trim();
+                        const declaredUnit = input.unit.trim();
+                        const unitOptions = declaredUnit ? getCompatibleUnitSymbols(formulaUnits, declaredUnit) : [];
                         return (
                           <div key={input.id}>
                             <Label htmlFor={`test-input-${input.id}`}>
                               {input.label.trim() || key || "Input"} ({input.unit.trim() || "unit"})
                             </Label>
-                            <Input
-                              id={`test-input-${input.id}`}
-                              type="number"
-                              value={key ? testInputValues[key] ?? "" : ""}
-                              onChange={(event) => {
-                                if (!key) {
-                                  return;
-                                }
-                                setTestInputValues((current) => ({
-                                  ...current,
-                                  [key]: event.target.value,
-                                }));
-                              }}
-                              disabled={isTesting}
-                            />
+                            <div className="flex gap-2">
+                              <Input
+                                id={`test-input-${input.id}`}
+                                type="number"
+                                value={key ? testInputValues[key] ?? "" : ""}
+                                onChange={(event) => {
+                                  if (!key) {
+                                    return;
+                                  }
+                                  setTestInputValues((current) => ({
+                                    ...current,
+                                    [key]: event.target.value,
+                                  }));
+                                }}
+                                disabled={isTesting}
+                              />
+                              {key && unitOptions.length > 1 ? (
+                                <select
+                                  aria-label={`${input.label.trim() || key} test unit`}
+                                  className={`${SELECT_CLASS} max-w-24`}
+                                  value={testInputUnits[key] ?? declaredUnit}
+                                  onChange={(event) =>
+                                    setTestInputUnits((current) => ({
+                                      ...current,
+                                      [key]: event.target.value,
+                                    }))
+                                  }
+                                  disabled={isTesting}
+                                >
+                                  {unitOptions.map((unit) => (
+                                    <option key={unit} value={unit}>
+                                      {unit}
+                                    </option>
+                                  ))}
+                                </select>
+                              ) : null}
+                            </div>
                           </div>
                         );
                       })}
@@ -745,6 +1012,21 @@ export function FormulaEditor({ formulaId }: FormulaEditorProps) {
                             ))}
                           </div>
                         </div>
+                        {Object.keys(testResult.dependencyOutputs).length > 0 ? (
+                          <div>
+                            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-[var(--color-text-muted)]">
+                              Dependency Outputs
+                            </p>
+                            <div className="mt-1 grid gap-1 md:grid-cols-2">
+                              {Object.entries(testResult.dependencyOutputs).map(([key, value]) => (
+                                <p key={key} className="text-sm">
+                                  <span className="text-[var(--color-text-muted)]">{key}: </span>
+                                  {value}
+                                </p>
+                              ))}
+                            </div>
+                          </div>
+                        ) : null}
                         <div>
                           <p className="text-xs font-semibold uppercase tracking-[0.12em] text-[var(--color-text-muted)]">
                             Computed Results
@@ -12,11 +12,13 @@ import { cn } from "@/lib/cn";
 
 const SIDEBAR_COLLAPSED_KEY = "estimatepro_sidebar_collapsed";
 
-type NavIcon = "projects" | "formulas" | "audit" | "settings";
+type NavIcon = "projects" | "clients" | "formulas" | "catalog" | "audit" | "settings";
 
 const navItems = [
   { href: "/", label: "Projects", icon: "projects" as NavIcon },
+  { href: "/clients", label: "Clients", icon: "clients" as NavIcon },
   { href: "/formulas", label: "Formula Library", icon: "formulas" as NavIcon },
+  { href: "/price-catalog", label: "Price Catalog", icon: "catalog" as NavIcon },
   { href: "/audit", label: "Audit Log", icon: "audit" as NavIcon },
 ];
 
@@ -56,6 +58,10 @@ function getBackFallbackPath(pathname: string): string {
     return "/formulas";
   }
 
+  if (pathname.startsWith("/price-catalog/")) {
+    return "/price-catalog";
+  }
+
   if (pathname.startsWith("/settings/")) {
     return "/settings/users";
   }
@@ -72,6 +78,20 @@ function SidebarIcon({ icon, className }: { icon: NavIcon; className?: string })
     );
   }
 
+  if (icon === "clients") {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" aria-hidden="true" className={className}>
+        <path
+          d="M16 20v-1a4 4 0 00-4-4H7a4 4 0 00-4 4v1M9.5 11a3.5 3.5 0 100-7 3.5 3.5 0 000 7zM21 20v-1a4 4 0 00-3-3.87M16 4.13a3.5 3.5 0 010 6.74"
+          stroke="currentColor"
+          strokeWidth="1.8"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      </svg>
+    );
+  }
+
   if (icon === "formulas") {
     return (
       <svg viewBox="0 0 24 24" fill="none" aria-hidden="true" className={className}>
@@ -86,6 +106,20 @@ function SidebarIcon({ icon, className }: { icon: NavIcon; className?: string })
     );
   }
 
+  if (icon === "catalog") {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" aria-hidden="true" className={className}>
+        <path
+          d="M3 12V4h8l10 10-8 8L3 12zM7.5 8.5h.01"
+          stroke="currentColor"
+          strokeWidth="1.8"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      </svg>
+    );
+  }
+
   if (icon === "audit") {
     return (
       <svg viewBox="0 0 24 24" fill="none" aria-hidden="true" className={className}>
@@ -234,7 +268,9 @@ export function AppShell({ children }: AppShellProps) {
                 const active =
                   item.href === "/"
                     ? pathname === "/" || pathname.startsWith("/projects")
-                    : pathname === item.href || pathname.startsWith(`${item.href}/`);
+                    : item.href.startsWith("/settings/")
+                      ? pathname.startsWith("/settings/")
+                      : pathname === item.href || pathname.startsWith(`${item.href}/`);
                 return (
                   <li key={item.href}>
                     <Link
@@ -0,0 +1,42 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { cn } from "@/lib/cn";
+
+const settingsTabs = [
+  { href: "/settings/users", label: "Users" },
+  { href: "/settings/regions", label: "Regions" },
+  { href: "/settings/categories", label: "Categories" },
+  { href: "/settings/templates", label: "Templates" },
+  { href: "/settings/branding", label: "Branding" },
+  { href: "/settings/email", label: "Email" },
+  { href: "/settings/approvals", label: "Approvals" },
+];
+
+export function SettingsTabs() {
+  const pathname = usePathname();
+
+  return (
+    <nav aria-label="Settings" className="flex gap-1 border-b border-[var(--color-border)]">
+      {settingsTabs.map((tab) => {
+        const active = pathname === tab.href;
+        return (
+          <Link
+            key={tab.href}
+            href={tab.href}
+            aria-current={active ? "page" : undefined}
+            className={cn(
+              "-mb-px border-b-2 px-3 py-2 text-sm transition-colors duration-200",
+              active
+                ? "border-[var(--color-accent-strong)] text-[var(--color-accent-strong)]"
+                : "border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text)]",
+            )}
+          >
+            {tab.label}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
@@ -34,6 +34,18 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Message for a failed line item change. Locked line items belong to a finalized estimate, so the
+ * user is told why the change was refused instead of seeing a generic failure.
+ */
+export function getLineItemErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError && error.code === "LINE_ITEM_LOCKED") {
+    return `${error.message} and can no longer be changed. Reload the estimate to see its current status.`;
+  }
+
+  return error instanceof Error ? error.message : fallback;
+}
+
 type RequestOptions = {
   auth?: boolean;
   retryOnUnauthorized?: boolean;
@@ -97,7 +109,9 @@ async function requestJson<T>(path: string, init?: RequestInit, options?: Reques
   const authRequired = options?.auth ?? false;
   const retryOnUnauthorized = options?.retryOnUnauthorized ?? authRequired;
 
-  if (!headers.has("Content-Type") && init?.body !== undefined) {
+  // Multipart bodies need the browser to set the boundary in Content-Type.
+  const isJsonBody = init?.body !== undefined && !(init.body instanceof FormData);
+  if (!headers.has("Content-Type") && isJsonBody) {
     headers.set("Content-Type", "application/json");
   }
 
@@ -118,7 +132,7 @@ async function requestJson<T>(path: string, init?: RequestInit, options?: Reques
     if (didRefresh) {
       const retryHeaders = new Headers(init?.headers);
       const nextAccessToken = readAccessToken();
-      if (!retryHeaders.has("Content-Type") && init?.body !== undefined) {
+      if (!retryHeaders.has("Content-Type") && isJsonBody) {
         retryHeaders.set("Content-Type", "application/json");
       }
       if (nextAccessToken) {
@@ -244,31 +258,12 @@ export type AcceptInviteRequest = {
 };
 
 export type ProjectStatus = "ACTIVE" | "ARCHIVED";
-export type EstimateStatus = "DRAFT" | "FINAL" | "ARCHIVED";
+export type EstimateStatus = "DRAFT" | "FOR_REVIEW" | "FINAL" | "ARCHIVED";
+export type EstimateClientDecision = "ACCEPTED" | "DECLINED";
 export type LineItemCalculationSource = "MANUAL" | "COMPUTED" | "ADJUSTED";
 
-export type Category =
-  | "CONCRETE_WORKS"
-  | "MASONRY_WORKS"
-  | "PAINTING_WORKS"
-  | "FORMWORKS"
-  | "STEEL_WORKS"
-  | "CARPENTRY"
-  | "DOORS_AND_WINDOWS"
-  | "WATERPROOFING"
-  | "GENERAL_REQUIREMENTS";
-
-export const CATEGORY_VALUES: Category[] = [
-  "CONCRETE_WORKS",
-  "MASONRY_WORKS",
-  "PAINTING_WORKS",
-  "FORMWORKS",
-  "STEEL_WORKS",
-  "CARPENTRY",
-  "DOORS_AND_WINDOWS",
-  "WATERPROOFING",
-  "GENERAL_REQUIREMENTS",
-];
+/** Code of an organization-managed category, e.g. CONCRETE_WORKS. */
+export type Category = string;
 
 export type Pagination = {
   page: number;
@@ -277,12 +272,26 @@ export type Pagination = {
   totalPages: number;
 };
 
+export type ProjectRegion = {
+  id: string;
+  name: string;
+  materialFactor: string;
+  laborFactor: string;
+};
+
+export type ProjectClient = {
+  id: string;
+  name: string;
+};
+
 export type ProjectSummary = {
   id: string;
   name: string;
   location: string;
   projectType: string;
   status: ProjectStatus;
+  region: ProjectRegion | null;
+  client: ProjectClient | null;
   createdAt: string;
   updatedAt: string;
   createdBy: {
@@ -300,12 +309,74 @@ export type GetProjectsQuery = {
   page?: number;
   pageSize?: number;
   status?: ProjectStatus;
+  clientId?: string;
 };
 
 export type CreateProjectRequest = {
   name: string;
   location: string;
   projectType: string;
+  regionId?: string | null;
+  clientId?: string | null;
+};
+
+export type UpdateProjectRequest = Partial<CreateProjectRequest>;
+
+export type ClientContact = {
+  id: string;
+  name: string;
+  title: string | null;
+  email: string | null;
+  phone: string | null;
+  isPrimary: boolean;
+};
+
+export type ClientSummary = {
+  id: string;
+  name: string;
+  tin: string | null;
+  billingAddress: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  contacts: ClientContact[];
+  projectCount: number;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type GetClientsQuery = {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+};
+
+export type GetClientsResponse = {
+  items: ClientSummary[];
+  pagination: Pagination;
+};
+
+export type ClientContactPayload = Omit<ClientContact, "id">;
+
+export type CreateClientPayload = {
+  name: string;
+  tin?: string | null;
+  billingAddress?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+  contacts?: ClientContactPayload[];
+};
+
+export type UpdateClientPayload = Partial<CreateClientPayload>;
+
+export type DeleteClientResponse = {
+  deletedClientId: string;
+  unlinkedProjectCount: number;
 };
 
 export type ProjectEstimateSummary = {
@@ -315,8 +386,15 @@ export type ProjectEstimateSummary = {
   label: string | null;
   status: EstimateStatus;
   subtotal: string;
+  regionalMaterialFactor: string;
+  regionalLaborFactor: string;
+  regionalAdjustment: string;
   markupRate: string;
+  markupComponents: MarkupComponent[];
+  categoryMarkupRates: CategoryMarkupRates;
   markupAmount: string;
+  vatableSales: string;
+  vatExemptSales: string;
   vatRate: string;
   vatAmount: string;
   totalAmount: string;
@@ -338,10 +416,32 @@ export type GetProjectEstimatesQuery = {
   pageSize?: number;
 };
 
+export type MarkupBase = "DIRECT_COST" | "RUNNING_TOTAL";
+
+export type MarkupComponent = {
+  name: string;
+  rate: string;
+  base: MarkupBase;
+  amount: string;
+};
+
+export type MarkupComponentInput = {
+  name: string;
+  rate: number;
+  base: MarkupBase;
+};
+
+export type CategoryMarkupRates = Record<Category, string>;
+
 export type CreateEstimateRequest = {
   label?: string;
-  markupRate: number;
+  /** Required unless the estimate is created from a template, which supplies its own markup. */
+  markupRate?: number;
+  markupComponents?: MarkupComponentInput[];
+  categoryMarkupRates?: Record<Category, number>;
   vatRate?: number;
+  templateId?: string;
+  templateParameters?: Record<string, number>;
 };
 
 export type EstimateSummary = {
@@ -351,11 +451,20 @@ export type EstimateSummary = {
   label: string | null;
   status: EstimateStatus;
   subtotal: string;
+  regionalMaterialFactor: string;
+  regionalLaborFactor: string;
+  regionalAdjustment: string;
   markupRate: string;
+  markupComponents: MarkupComponent[];
+  categoryMarkupRates: CategoryMarkupRates;
   markupAmount: string;
+  vatableSales: string;
+  vatExemptSales: string;
   vatRate: string;
   vatAmount: string;
   totalAmount: string;
+  clientDecision: EstimateClientDecision | null;
+  clientDecisionAt: string | null;
   createdAt: string;
   updatedAt: string;
   createdBy: {
@@ -373,15 +482,28 @@ export type EstimateLineItem = {
   unitMaterialCost: string;
   unitLaborCost: string;
   totalCost: string;
+  markupRate: string | null;
+  vatExempt: boolean;
   calculationSource: LineItemCalculationSource;
   originalComputedQuantity: string | null;
   originalComputedCost: string | null;
   overrideReason: string | null;
   locked: boolean;
+  priceCatalogItemId: string | null;
+  priceCatalogItem: LinkedPriceCatalogItem | null;
+  priceReferenceKey: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
+export type LinkedPriceCatalogItem = {
+  id: string;
+  itemCode: string;
+  unitMaterialCost: string;
+  unitLaborCost: string;
+  effectiveDate: string;
+};
+
 export type FormulaUsageRecord = {
   id: string;
   lineItemId: string;
@@ -389,7 +511,10 @@ export type FormulaUsageRecord = {
   formulaVersion: number;
   formulaSnapshot: unknown;
   inputValues: Record<string, unknown>;
+  inputUnits: Record<string, string>;
   computedResults: Record<string, unknown>;
+  groupId: string | null;
+  outputVariable: string | null;
   computedAt: string;
   computedBy: {
     id: string;
@@ -418,13 +543,22 @@ export type EstimateDetailsResponse = {
 
 export type UpdateEstimateRequest = {
   markupRate: number;
+  markupComponents?: MarkupComponentInput[];
+  categoryMarkupRates?: Record<Category, number>;
   vatRate: number;
 };
 
 export type EstimateTotalsSnapshot = {
   id: string;
   subtotal: string;
+  regionalMaterialFactor: string;
+  regionalLaborFactor: string;
+  regionalAdjustment: string;
+  markupComponents: MarkupComponent[];
+  categoryMarkupRates: CategoryMarkupRates;
   markupAmount: string;
+  vatableSales: string;
+  vatExemptSales: string;
   vatAmount: string;
   totalAmount: string;
   updatedAt: string;
@@ -437,6 +571,10 @@ export type CreateLineItemRequest = {
   unit: string;
   unitMaterialCost: number;
   unitLaborCost: number;
+  priceCatalogItemId?: string | null;
+  priceReferenceKey?: string | null;
+  markupRate?: number | null;
+  vatExempt?: boolean;
 };
 
 export type UpdateLineItemRequest = {
@@ -446,6 +584,10 @@ export type UpdateLineItemRequest = {
   unit?: string;
   unitMaterialCost?: number;
   unitLaborCost?: number;
+  priceCatalogItemId?: string | null;
+  priceReferenceKey?: string | null;
+  markupRate?: number | null;
+  vatExempt?: boolean;
 };
 
 export type LineItemMutationResponse = {
@@ -463,11 +605,49 @@ export type DeleteLineItemResponse = {
   estimate: EstimateTotalsSnapshot;
 };
 
+export type LineItemImportField =
+  | "category"
+  | "description"
+  | "quantity"
+  | "unit"
+  | "unitMaterialCost"
+  | "unitLaborCost"
+  | "markupRate"
+  | "vatExempt"
+  | "priceReferenceKey";
+
+export type ImportLineItemsRequest = {
+  file: File;
+  /** Column header for each field; unmapped fields are matched by common header names. */
+  mapping?: Partial<Record<LineItemImportField, string>>;
+  sheet?: string;
+  dryRun?: boolean;
+};
+
+export type LineItemImportRowError = {
+  row: number;
+  field: LineItemImportField | null;
+  message: string;
+};
+
+export type ImportLineItemsResponse = {
+  fileName: string;
+  dryRun: boolean;
+  headers: string[];
+  mapping: Partial<Record<LineItemImportField, string>>;
+  totalRows: number;
+  validRows: number;
+  importedCount: number;
+  errors: LineItemImportRowError[];
+  estimate: EstimateTotalsSnapshot | null;
+};
+
 export type ComputeLineItemRequest = {
   formulaId?: string;
   formulaName?: string;
   outputVariable?: string;
   inputValues: Record<string, unknown>;
+  inputUnits?: Record<string, string>;
 };
 
 export type ComputeLineItemResponse = LineItemMutationResponse & {
@@ -478,6 +658,108 @@ export type ComputeLineItemResponse = LineItemMutationResponse & {
   };
 };
 
+export type ComputeIntoEstimateOutput = {
+  outputVariable: string;
+  lineItemId?: string;
+  description?: string;
+  unit?: string;
+  unitMaterialCost?: number;
+  unitLaborCost?: number;
+};
+
+export type ComputeIntoEstimateRequest = {
+  formulaId?: string;
+  formulaName?: string;
+  inputValues: Record<string, unknown>;
+  inputUnits?: Record<string, string>;
+  outputs?: ComputeIntoEstimateOutput[];
+};
+
+export type RecomputeComputationGroupRequest = {
+  formulaId?: string;
+  inputValues: Record<string, unknown>;
+  inputUnits?: Record<string, string>;
+};
+
+export type ComputationGroupResponse = {
+  groupId: string;
+  formula: {
+    id: string;
+    name: string;
+    version: number;
+  };
+  lineItems: EstimateLineItem[];
+  computations: Array<{
+    id: string;
+    lineItemId: string;
+    outputVariable: string;
+  }>;
+  estimate: EstimateTotalsSnapshot;
+};
+
+export type DeleteComputationGroupResponse = {
+  groupId: string;
+  deletedLineItemIds: string[];
+  estimate: EstimateTotalsSnapshot;
+};
+
+export type OutdatedComputation = {
+  lineItemId: string;
+  description: string;
+  category: Category;
+  unit: string;
+  currentQuantity: string;
+  estimate: {
+    id: string;
+    versionNumber: number;
+    label: string | null;
+    project: {
+      id: string;
+      name: string;
+    };
+  };
+  computationId: string;
+  groupId: string | null;
+  outputVariable: string | null;
+  currentFormula: {
+    id: string;
+    name: string;
+    version: number;
+  };
+  latestFormula: {
+    id: string;
+    name: string;
+    version: number;
+  };
+  proposedQuantity: number | null;
+  quantityDelta: number | null;
+  error: {
+    code: string;
+    message: string;
+  } | null;
+};
+
+export type GetOutdatedComputationsResponse = {
+  items: OutdatedComputation[];
+};
+
+export type ApplyFormulaUpgradesRequest = {
+  lineItemIds: string[];
+};
+
+export type ApplyFormulaUpgradesResponse = {
+  items: Array<{
+    lineItemId: string;
+    estimateId: string;
+    computationId: string;
+    fromVersion: number;
+    toVersion: number;
+    previousQuantity: string;
+    quantity: string;
+  }>;
+  estimates: EstimateTotalsSnapshot[];
+};
+
 export type FormulaStatus = "ACTIVE" | "INACTIVE";
 
 export type FormulaSummary = {
@@ -521,6 +803,13 @@ export type FormulaOutputDefinition = {
   unit: string;
 };
 
+export type FormulaDependencyDefinition = {
+  alias: string;
+  formulaName: string;
+  version?: number;
+  inputBindings: Record<string, string>;
+};
+
 export type FormulaDetail = {
   id: string;
   name: string;
@@ -532,6 +821,7 @@ export type FormulaDetail = {
   inputs: FormulaInputDefinition[];
   expressions: FormulaExpressionDefinition[];
   outputs: FormulaOutputDefinition[];
+  dependencies: FormulaDependencyDefinition[];
   createdAt: string;
   createdBy: {
     id: string;
@@ -539,154 +829,876 @@ export type FormulaDetail = {
   };
 };
 
-export type FormulaVersion = {
+export type LookupTableMatchMode = "EXACT" | "RANGE";
+
+export type LookupTableEntry = {
+  key: number;
+  value: number;
+};
+
+export type LookupTable = {
   id: string;
   name: string;
   description: string;
-  category: Category;
-  version: number;
-  isActive: boolean;
-  previousVersionId: string | null;
+  keyUnit: string;
+  valueUnit: string;
+  matchMode: LookupTableMatchMode;
+  entries: LookupTableEntry[];
   createdAt: string;
+  updatedAt: string;
   createdBy: {
     id: string;
     name: string;
   };
 };
 
-export type FormulaVersionsResponse = {
-  rootFormulaId: string;
-  latestFormulaId: string;
-  versions: FormulaVersion[];
-};
-
-export type GetFormulasQuery = {
-  page?: number;
-  pageSize?: number;
+export type GetLookupTablesResponse = {
+  items: LookupTable[];
+  pagination: Pagination;
 };
 
-export type UserRole = "ADMIN" | "ESTIMATOR" | "VIEWER";
-export type UserStatus = "ACTIVE" | "INACTIVE";
-
-export type UserSummary = {
-  id: string;
+export type CreateLookupTablePayload = {
   name: string;
-  email: string;
-  role: UserRole;
-  status: UserStatus;
-  createdAt: string;
-  pendingInvite?: boolean;
-  inviteExpiresAt?: string | null;
+  description: string;
+  keyUnit: string;
+  valueUnit: string;
+  matchMode: LookupTableMatchMode;
+  entries: LookupTableEntry[];
 };
 
-export type GetUsersResponse = {
-  items: UserSummary[];
-  pagination: Pagination;
-};
+export type UpdateLookupTablePayload = Partial<Omit<CreateLookupTablePayload, "name">>;
 
-export type GetUsersQuery = {
-  page?: number;
-  pageSize?: number;
+export type DeleteLookupTableResponse = {
+  deletedLookupTableId: string;
 };
 
-export type AuditEntityType = "Project" | "Estimate" | "LineItem" | "Formula" | "User";
-
-export type AuditLogEntry = {
+export type PriceCatalogItem = {
   id: string;
-  entityType: AuditEntityType;
-  entityId: string;
-  action: string;
-  beforeState: unknown;
-  afterState: unknown;
-  performedAt: string;
-  performedBy: {
+  itemCode: string;
+  description: string;
+  unit: string;
+  unitMaterialCost: string;
+  unitLaborCost: string;
+  supplier: string | null;
+  effectiveDate: string;
+  lineItemCount: number;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: {
     id: string;
     name: string;
-    email: string;
   };
 };
 
-export type GetAuditLogsResponse = {
-  items: AuditLogEntry[];
+export type GetPriceCatalogItemsQuery = {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+};
+
+export type GetPriceCatalogItemsResponse = {
+  items: PriceCatalogItem[];
   pagination: Pagination;
 };
 
-export type GetAuditLogsQuery = {
-  page?: number;
-  pageSize?: number;
-  from?: string;
-  to?: string;
-  userId?: string;
-  entityType?: AuditEntityType;
+export type CreatePriceCatalogItemPayload = {
+  itemCode: string;
+  description: string;
+  unit: string;
+  unitMaterialCost: number;
+  unitLaborCost: number;
+  supplier?: string | null;
+  effectiveDate: string;
 };
 
-export type InviteUserRequest = {
-  email: string;
-  role: UserRole;
+export type UpdatePriceCatalogItemPayload = Partial<CreatePriceCatalogItemPayload>;
+
+export type DeletePriceCatalogItemResponse = {
+  deletedPriceCatalogItemId: string;
+  unlinkedLineItemCount: number;
 };
 
-export type InviteUserResponse = {
-  user: UserSummary;
-  inviteExpiresAt: string;
-  emailDelivery: "SENT" | "FAILED";
-  setupLink?: string;
-  emailDeliveryErrorCode?: string;
+export type StalePriceLineItem = {
+  lineItemId: string;
+  description: string;
+  unit: string;
+  unitMaterialCost: string;
+  unitLaborCost: string;
+  estimate: {
+    id: string;
+    versionNumber: number;
+    label: string | null;
+    status: EstimateStatus;
+    project: {
+      id: string;
+      name: string;
+    };
+  };
+  priceCatalogItem: LinkedPriceCatalogItem;
 };
 
-export type UpdateUserRoleRequest = {
-  role: UserRole;
+export type GetStalePriceLineItemsResponse = {
+  items: StalePriceLineItem[];
 };
 
-export type UserMutationResponse = {
-  user: UserSummary;
+export type Region = {
+  id: string;
+  name: string;
+  materialFactor: string;
+  laborFactor: string;
+  projectCount: number;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
 };
 
-export type FormulaCreateOrUpdatePayload = {
+export type GetRegionsResponse = {
+  items: Region[];
+};
+
+export type CreateRegionPayload = {
   name: string;
-  description: string;
-  category: Category;
-  inputs: FormulaInputDefinition[];
-  expressions: FormulaExpressionDefinition[];
-  outputs: FormulaOutputDefinition[];
+  materialFactor: number;
+  laborFactor: number;
 };
 
-export type TestFormulaPayload = {
-  inputValues: Record<string, number>;
+export type UpdateRegionPayload = Partial<CreateRegionPayload>;
+
+export type DeleteRegionResponse = {
+  deletedRegionId: string;
+  unassignedProjectCount: number;
 };
 
-export type TestFormulaResponse = {
-  formula: {
+/** Divisions are at depth 1, sections at depth 2 and items at depth 3. */
+export type CategoryNode = {
+  id: string;
+  code: Category;
+  name: string;
+  parentId: string | null;
+  sortOrder: number;
+  depth: number;
+  lineItemCount: number;
+  formulaCount: number;
+  templateLineItemCount: number;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: {
     id: string;
     name: string;
-    category: Category;
-    version: number;
-    isActive: boolean;
   };
-  resolvedInputs: Record<string, number>;
-  computedResults: Record<string, number>;
-  outputValues: Record<string, number>;
 };
 
-export type PdfJobStatus = "pending" | "complete" | "failed";
+export type GetCategoriesResponse = {
+  items: CategoryNode[];
+};
 
-export type RequestEstimatePdfResponse = {
-  jobId: string;
-  status: PdfJobStatus;
+export type CreateCategoryPayload = {
+  code: string;
+  name: string;
+  parentId?: string | null;
+  sortOrder?: number;
 };
 
-export type PdfJobStatusResponse = {
-  jobId: string;
-  status: PdfJobStatus;
-  downloadUrl?: string;
-  message?: string;
+export type UpdateCategoryPayload = Partial<CreateCategoryPayload>;
+
+export type DeleteCategoryResponse = {
+  deletedCategoryId: string;
 };
 
-export type DownloadPdfJobResponse = {
-  blob: Blob;
-  fileName: string;
+/** Replaces the saved value of each listed formula input when an estimate is created from a template. */
+export type EstimateTemplateParameter = {
+  key: string;
+  label: string;
+  unit: string | null;
+  defaultValue: number | null;
+  inputVariables: string[];
 };
 
-export async function getSetupStatus(): Promise<SetupStatus> {
+export type EstimateTemplateLineItem = {
+  category: Category;
+  description: string;
+  quantity: string;
+  unit: string;
+  unitMaterialCost: string;
+  unitLaborCost: string;
+  markupRate: string | null;
+  vatExempt: boolean;
+  priceCatalogItemId: string | null;
+  priceReferenceKey: string | null;
+};
+
+export type EstimateTemplateFormulaBinding = {
+  formulaName: string;
+  inputValues: Record<string, unknown>;
+  inputUnits: Record<string, string>;
+  outputs: Array<Omit<EstimateTemplateLineItem, "quantity"> & { outputVariable: string }>;
+};
+
+export type EstimateTemplateSummary = {
+  id: string;
+  name: string;
+  description: string | null;
+  markupRate: string;
+  vatRate: string;
+  lineItemCount: number;
+  formulaBindingCount: number;
+  parameters: EstimateTemplateParameter[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type EstimateTemplateDetail = EstimateTemplateSummary & {
+  markupComponents: MarkupComponent[];
+  categoryMarkupRates: CategoryMarkupRates;
+  lineItems: EstimateTemplateLineItem[];
+  formulaBindings: EstimateTemplateFormulaBinding[];
+};
+
+export type GetEstimateTemplatesResponse = {
+  items: EstimateTemplateSummary[];
+};
+
+export type EstimateTemplateParameterInput = {
+  key: string;
+  label: string;
+  unit?: string | null;
+  defaultValue?: number | null;
+  inputVariables: string[];
+};
+
+export type CreateEstimateTemplatePayload = {
+  estimateId: string;
+  name: string;
+  description?: string | null;
+  parameters?: EstimateTemplateParameterInput[];
+};
+
+export type UpdateEstimateTemplatePayload = Partial<Omit<CreateEstimateTemplatePayload, "estimateId">>;
+
+export type DeleteEstimateTemplateResponse = {
+  deletedTemplateId: string;
+};
+
+export type ComparisonDelta = {
+  before: string;
+  after: string;
+  delta: string;
+};
+
+export type ComparedLineItem = {
+  id: string;
+  category: Category;
+  description: string;
+  quantity: string;
+  unit: string;
+  unitMaterialCost: string;
+  unitLaborCost: string;
+  totalCost: string;
+  markupRate: string | null;
+  vatExempt: boolean;
+};
+
+export type ComparedLineItemField =
+  | "category"
+  | "quantity"
+  | "unit"
+  | "unitMaterialCost"
+  | "unitLaborCost"
+  | "totalCost"
+  | "markupRate"
+  | "vatExempt";
+
+export type LineItemComparison =
+  | { status: "ADDED"; after: ComparedLineItem; costDelta: string }
+  | { status: "REMOVED"; before: ComparedLineItem; costDelta: string }
+  | {
+      status: "CHANGED" | "UNCHANGED";
+      before: ComparedLineItem;
+      after: ComparedLineItem;
+      changedFields: ComparedLineItemField[];
+      quantityDelta: string | null;
+      costDelta: string;
+    };
+
+/** Counts and quantities are for items filed directly under the category; costs include subcategories. */
+export type CategoryComparison = {
+  code: Category;
+  name: string;
+  depth: number;
+  itemCount: { before: number; after: number };
+  quantities: Array<ComparisonDelta & { unit: string }>;
+  totalCost: ComparisonDelta;
+};
+
+export type ComparedEstimate = {
+  id: string;
+  versionNumber: number;
+  label: string | null;
+  status: EstimateStatus;
+  createdAt: string;
+};
+
+export type EstimateComparisonResponse = {
+  project: {
+    id: string;
+    name: string;
+  };
+  base: ComparedEstimate;
+  compared: ComparedEstimate;
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+  lineItems: LineItemComparison[];
+  categories: CategoryComparison[];
+  totals: Record<
+    "subtotal" | "regionalAdjustment" | "markupAmount" | "vatableSales" | "vatExemptSales" | "vatAmount" | "totalAmount",
+    ComparisonDelta
+  >;
+};
+
+export type RepricingSource = "CATALOG" | "PRICE_LIST";
+
+export type RepricingPrice = {
+  priceReferenceKey: string;
+  unitMaterialCost: number;
+  unitLaborCost: number;
+};
+
+export type RepriceEstimatesRequest = {
+  source: RepricingSource;
+  prices?: RepricingPrice[];
+  estimateIds?: string[];
+};
+
+export type ApplyRepricingRequest = RepriceEstimatesRequest & {
+  /** The previewed line item changes; the server refuses to apply if they no longer match. */
+  expectedChanges: Array<{
+    lineItemId: string;
+    unitMaterialCost: string;
+    unitLaborCost: string;
+    totalCost: string;
+  }>;
+};
+
+export type RepricingCosts = {
+  unitMaterialCost: string;
+  unitLaborCost: string;
+  totalCost: string;
+};
+
+export type RepricingTotals = {
+  subtotal: string;
+  regionalAdjustment: string;
+  markupAmount: string;
+  vatAmount: string;
+  totalAmount: string;
+};
+
+export type RepricingEstimateDiff = {
+  estimateId: string;
+  versionNumber: number;
+  label: string | null;
+  project: {
+    id: string;
+    name: string;
+  };
+  lineItems: Array<{
+    lineItemId: string;
+    description: string;
+    priceReferenceKey: string;
+    quantity: string;
+    unit: string;
+    before: RepricingCosts;
+    after: RepricingCosts;
+  }>;
+  before: RepricingTotals;
+  after: RepricingTotals;
+};
+
+export type RepricingResponse = {
+  source: RepricingSource;
+  estimates: RepricingEstimateDiff[];
+  unmatchedKeys: string[];
+};
+
+export type QuotationPaymentMilestone = {
+  label: string;
+  percentage: number;
+};
+
+export type QuotationSignatureBlock = {
+  label: string;
+  name?: string;
+  title?: string;
+};
+
+export type QuotationSections = {
+  coverLetter?: string;
+  scopeNotes?: string;
+  exclusions?: string;
+  termsAndConditions?: string;
+  validityDays?: number | null;
+  paymentSchedule?: QuotationPaymentMilestone[];
+  signatureBlocks?: QuotationSignatureBlock[];
+};
+
+export type BrandingFields = {
+  primaryColor: string;
+  accentColor: string;
+  address: string | null;
+  tin: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+};
+
+export type OrganizationBranding = BrandingFields & {
+  logoUrl: string | null;
+  sections: QuotationSections;
+  updatedAt: string | null;
+  updatedBy: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+export type UpdateBrandingRequest = Partial<BrandingFields> & {
+  sections?: QuotationSections;
+};
+
+export type EmailTemplateKey =
+  | "PASSWORD_RESET"
+  | "USER_INVITE"
+  | "ESTIMATE_SEND"
+  | "ESTIMATE_REVIEW_REQUESTED"
+  | "ESTIMATE_COMMENT_MENTION";
+
+export type EmailTemplateContent = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export type EmailTemplate = EmailTemplateContent & {
+  key: EmailTemplateKey;
+  label: string;
+  description: string;
+  variables: string[];
+  isCustomized: boolean;
+  updatedAt: string | null;
+  updatedBy: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+export type EmailTemplatesResponse = {
+  items: EmailTemplate[];
+};
+
+export type PreviewQuotationRequest = {
+  estimateId?: string;
+  branding?: Partial<BrandingFields>;
+  sections?: QuotationSections;
+  overrides?: QuotationSections;
+  options?: Partial<EstimatePdfOptions>;
+};
+
+export type PreviewQuotationResponse = {
+  html: string;
+};
+
+export type EstimateQuotation = {
+  estimateId: string;
+  overrides: QuotationSections;
+  defaults: QuotationSections;
+  effective: Required<QuotationSections>;
+};
+
+export type FormulaVersion = {
+  id: string;
+  name: string;
+  description: string;
+  category: Category;
+  version: number;
+  isActive: boolean;
+  previousVersionId: string | null;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type FormulaVersionsResponse = {
+  rootFormulaId: string;
+  latestFormulaId: string;
+  versions: FormulaVersion[];
+};
+
+export type GetFormulasQuery = {
+  page?: number;
+  pageSize?: number;
+};
+
+export type UserRole = "ADMIN" | "ESTIMATOR" | "VIEWER";
+export type UserStatus = "ACTIVE" | "INACTIVE";
+
+export type UserSummary = {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  status: UserStatus;
+  createdAt: string;
+  pendingInvite?: boolean;
+  inviteExpiresAt?: string | null;
+};
+
+export type GetUsersResponse = {
+  items: UserSummary[];
+  pagination: Pagination;
+};
+
+export type GetUsersQuery = {
+  page?: number;
+  pageSize?: number;
+};
+
+export type AuditEntityType =
+  | "Project"
+  | "Estimate"
+  | "EstimateApprovalPolicy"
+  | "EstimateTemplate"
+  | "LineItem"
+  | "Formula"
+  | "LookupTable"
+  | "PriceCatalogItem"
+  | "Region"
+  | "Category"
+  | "Client"
+  | "OrganizationBranding"
+  | "EmailTemplate"
+  | "User";
+
+export type AuditLogEntry = {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  beforeState: unknown;
+  afterState: unknown;
+  performedAt: string;
+  performedBy: {
+    id: string;
+    name: string;
+    email: string;
+  };
+};
+
+export type GetAuditLogsResponse = {
+  items: AuditLogEntry[];
+  pagination: Pagination;
+};
+
+export type GetAuditLogsQuery = {
+  page?: number;
+  pageSize?: number;
+  from?: string;
+  to?: string;
+  userId?: string;
+  entityType?: AuditEntityType;
+};
+
+export type InviteUserRequest = {
+  email: string;
+  role: UserRole;
+};
+
+export type InviteUserResponse = {
+  user: UserSummary;
+  inviteExpiresAt: string;
+  emailDelivery: "SENT" | "FAILED";
+  setupLink?: string;
+  emailDeliveryErrorCode?: string;
+};
+
+export type UpdateUserRoleRequest = {
+  role: UserRole;
+};
+
+export type UserMutationResponse = {
+  user: UserSummary;
+};
+
+export type FormulaCreateOrUpdatePayload = {
+  name: string;
+  description: string;
+  category: Category;
+  inputs: FormulaInputDefinition[];
+  expressions: FormulaExpressionDefinition[];
+  outputs: FormulaOutputDefinition[];
+  dependencies: FormulaDependencyDefinition[];
+};
+
+export type TestFormulaPayload = {
+  inputValues: Record<string, number>;
+  inputUnits?: Record<string, string>;
+};
+
+export type UnitDimension = "length" | "area" | "volume" | "mass" | "count";
+
+export type FormulaUnit = {
+  symbol: string;
+  label: string;
+  dimension: UnitDimension;
+  factor: number;
+  aliases: string[];
+};
+
+export type GetFormulaUnitsResponse = {
+  items: FormulaUnit[];
+};
+
+export type FormulaEvaluationResult = {
+  resolvedInputs: Record<string, number>;
+  computedResults: Record<string, number>;
+  outputValues: Record<string, number>;
+  dependencyResults: Record<string, FormulaEvaluationResult>;
+};
+
+export type TestFormulaResponse = FormulaEvaluationResult & {
+  formula: {
+    id: string;
+    name: string;
+    category: Category;
+    version: number;
+    isActive: boolean;
+  };
+};
+
+export type PdfJobStatus = "pending" | "complete" | "failed";
+
+export type EstimateExportFormat = "pdf" | "xlsx";
+
+export type PdfDetailLevel = "itemized" | "summary";
+
+export type PdfCostColumns = "split" | "combined";
+
+export type PdfLanguage = "en" | "fil";
+
+export type EstimatePdfOptions = {
+  detailLevel: PdfDetailLevel;
+  hideUnitCosts: boolean;
+  hideFormulaAppendix: boolean;
+  costColumns: PdfCostColumns;
+  language: PdfLanguage;
+};
+
+export type SendEstimateEmailRequest = {
+  recipients: string[];
+  message: string;
+  options?: Partial<EstimatePdfOptions>;
+};
+
+export type EstimateEmailRecord = {
+  id: string;
+  recipients: string[];
+  subject: string;
+  message: string;
+  fileName: string;
+  options: Partial<EstimatePdfOptions>;
+  sentAt: string;
+  sentBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type EstimateEmailsResponse = {
+  items: EstimateEmailRecord[];
+};
+
+export type ShareLinkResponse = {
+  decision: EstimateClientDecision;
+  respondentName: string | null;
+  comment: string | null;
+  respondedAt: string;
+};
+
+export type EstimateShareLink = {
+  id: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  isActive: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  response: ShareLinkResponse | null;
+  options: Partial<EstimatePdfOptions>;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type CreatedEstimateShareLink = EstimateShareLink & {
+  url: string;
+};
+
+export type EstimateShareLinksResponse = {
+  items: EstimateShareLink[];
+};
+
+export type CreateShareLinkRequest = {
+  expiresInDays: number;
+  options?: Partial<EstimatePdfOptions>;
+};
+
+export type SharedEstimateView = {
+  organizationName: string;
+  projectName: string;
+  clientName: string | null;
+  versionNumber: number;
+  label: string | null;
+  totalAmount: string;
+  expiresAt: string;
+  response: ShareLinkResponse | null;
+  html: string;
+};
+
+export type RespondToSharedEstimateRequest = {
+  token: string;
+  decision: EstimateClientDecision;
+  name: string;
+  comment: string;
+};
+
+export type EstimateReviewAction = "SUBMITTED" | "APPROVED" | "REJECTED";
+
+export type EstimateReviewRecord = {
+  id: string;
+  action: EstimateReviewAction;
+  comment: string;
+  totalAmount: string;
+  createdAt: string;
+  performedBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type EstimateReviewTrail = {
+  items: EstimateReviewRecord[];
+  /** Set while the estimate is awaiting review. */
+  pending: {
+    submittedBy: {
+      id: string;
+      name: string;
+    } | null;
+    reviewerRoles: UserRole[];
+  } | null;
+};
+
+export type EstimateReviewResult = {
+  status: EstimateStatus;
+  review: EstimateReviewRecord;
+};
+
+export type SubmitEstimateForReviewResult = EstimateReviewResult & {
+  reviewersNotified: number;
+  emailDelivery: "SENT" | "FAILED" | "SKIPPED";
+};
+
+export type ApprovalPolicy = {
+  requireReview: boolean;
+  adminApprovalThreshold: string | null;
+  blockUnresolvedComments: boolean;
+  updatedAt: string | null;
+  updatedBy: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+export type UpdateApprovalPolicyRequest = {
+  requireReview: boolean;
+  adminApprovalThreshold: number | null;
+  blockUnresolvedComments: boolean;
+};
+
+export type EstimateCommentUser = {
+  id: string;
+  name: string;
+};
+
+export type EstimateComment = {
+  id: string;
+  lineItemId: string | null;
+  parentId: string | null;
+  body: string;
+  mentions: EstimateCommentUser[];
+  resolvedAt: string | null;
+  resolvedBy: EstimateCommentUser | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: EstimateCommentUser;
+};
+
+export type EstimateCommentThread = EstimateComment & {
+  replies: EstimateComment[];
+};
+
+export type EstimateCommentsResponse = {
+  items: EstimateCommentThread[];
+  unresolvedCount: number;
+};
+
+export type CreateEstimateCommentRequest = {
+  body: string;
+  lineItemId?: string | null;
+  parentId?: string;
+  mentionUserIds: string[];
+};
+
+export type UpdateEstimateCommentRequest = {
+  body: string;
+  mentionUserIds: string[];
+};
+
+export type DeleteEstimateCommentResponse = {
+  deletedCommentId: string;
+  deletedReplyCount: number;
+};
+
+export type RequestEstimatePdfResponse = {
+  jobId: string;
+  status: PdfJobStatus;
+};
+
+export type PdfJobStatusResponse = {
+  jobId: string;
+  status: PdfJobStatus;
+  downloadUrl?: string;
+  message?: string;
+};
+
+export type DownloadPdfJobResponse = {
+  blob: Blob;
+  fileName: string;
+};
+
+export async function getSetupStatus(): Promise<SetupStatus> {
   return requestJson<SetupStatus>(
     "/setup",
     {
@@ -694,61 +1706,1035 @@ export async function getSetupStatus(): Promise<SetupStatus> {
       cache: "no-store",
     },
     {
-      auth: false,
-      retryOnUnauthorized: false,
+      auth: false,
+      retryOnUnauthorized: false,
+    },
+  );
+}
+
+export async function postSetup(payload: SetupRequest): Promise<AuthResponse> {
+  return requestJson<AuthResponse>(
+    "/setup",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: false,
+      retryOnUnauthorized: false,
+    },
+  );
+}
+
+export async function login(payload: LoginRequest): Promise<AuthResponse> {
+  return requestJson<AuthResponse>(
+    "/auth/login",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: false,
+      retryOnUnauthorized: false,
+    },
+  );
+}
+
+export async function forgotPassword(payload: ForgotPasswordRequest): Promise<{ success: true; message: string }> {
+  return requestJson<{ success: true; message: string }>(
+    "/auth/forgot-password",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: false,
+      retryOnUnauthorized: false,
+    },
+  );
+}
+
+export async function resetPassword(payload: ResetPasswordRequest): Promise<{ success: true }> {
+  return requestJson<{ success: true }>(
+    "/auth/reset-password",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: false,
+      retryOnUnauthorized: false,
+    },
+  );
+}
+
+export async function acceptInvite(payload: AcceptInviteRequest): Promise<UserMutationResponse> {
+  return requestJson<UserMutationResponse>(
+    "/users/accept-invite",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: false,
+      retryOnUnauthorized: false,
+    },
+  );
+}
+
+export async function logout(): Promise<void> {
+  const refreshToken = readRefreshToken();
+  if (!refreshToken) {
+    clearAuthSession();
+    return;
+  }
+
+  try {
+    await requestJson<{ success: true }>(
+      "/auth/logout",
+      {
+        method: "POST",
+        body: JSON.stringify({ refreshToken }),
+      },
+      {
+        auth: false,
+        retryOnUnauthorized: false,
+      },
+    );
+  } finally {
+    clearAuthSession();
+  }
+}
+
+function toQueryString(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined) {
+      return;
+    }
+
+    query.set(key, `${value}`);
+  });
+
+  const encoded = query.toString();
+  return encoded ? `?${encoded}` : "";
+}
+
+export async function getProjects(query: GetProjectsQuery = {}): Promise<GetProjectsResponse> {
+  const queryString = toQueryString({
+    page: query.page,
+    pageSize: query.pageSize,
+    status: query.status,
+    clientId: query.clientId,
+  });
+
+  return requestJson<GetProjectsResponse>(
+    `/projects${queryString}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function createProject(payload: CreateProjectRequest): Promise<ProjectSummary> {
+  return requestJson<ProjectSummary>(
+    "/projects",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getProject(projectId: string): Promise<ProjectSummary> {
+  return requestJson<ProjectSummary>(
+    `/projects/${projectId}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function updateProject(projectId: string, payload: UpdateProjectRequest): Promise<ProjectSummary> {
+  return requestJson<ProjectSummary>(
+    `/projects/${projectId}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function archiveProject(projectId: string): Promise<ProjectSummary> {
+  return requestJson<ProjectSummary>(
+    `/projects/${projectId}/archive`,
+    {
+      method: "PATCH",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getClients(query: GetClientsQuery = {}): Promise<GetClientsResponse> {
+  const queryString = toQueryString({
+    page: query.page,
+    pageSize: query.pageSize,
+    search: query.search,
+  });
+
+  return requestJson<GetClientsResponse>(
+    `/clients${queryString}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function createClient(payload: CreateClientPayload): Promise<ClientSummary> {
+  return requestJson<ClientSummary>(
+    "/clients",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function updateClient(clientId: string, payload: UpdateClientPayload): Promise<ClientSummary> {
+  return requestJson<ClientSummary>(
+    `/clients/${clientId}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function deleteClient(clientId: string): Promise<DeleteClientResponse> {
+  return requestJson<DeleteClientResponse>(
+    `/clients/${clientId}`,
+    {
+      method: "DELETE",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getProjectEstimates(
+  projectId: string,
+  query: GetProjectEstimatesQuery = {},
+): Promise<GetProjectEstimatesResponse> {
+  const queryString = toQueryString({
+    page: query.page,
+    pageSize: query.pageSize,
+  });
+
+  return requestJson<GetProjectEstimatesResponse>(
+    `/projects/${projectId}/estimates${queryString}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function createEstimate(
+  projectId: string,
+  payload: CreateEstimateRequest,
+): Promise<ProjectEstimateSummary> {
+  return requestJson<ProjectEstimateSummary>(
+    `/projects/${projectId}/estimates`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function compareEstimates(
+  estimateId: string,
+  otherEstimateId: string,
+): Promise<EstimateComparisonResponse> {
+  return requestJson<EstimateComparisonResponse>(
+    `/estimates/${estimateId}/compare/${otherEstimateId}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function duplicateEstimate(estimateId: string): Promise<ProjectEstimateSummary> {
+  return requestJson<ProjectEstimateSummary>(
+    `/estimates/${estimateId}/duplicate`,
+    {
+      method: "POST",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function archiveEstimate(estimateId: string): Promise<ProjectEstimateSummary> {
+  return requestJson<ProjectEstimateSummary>(
+    `/estimates/${estimateId}/archive`,
+    {
+      method: "PATCH",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function softDeleteEstimate(estimateId: string): Promise<ProjectEstimateSummary> {
+  return requestJson<ProjectEstimateSummary>(
+    `/estimates/${estimateId}`,
+    {
+      method: "DELETE",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getEstimate(estimateId: string): Promise<EstimateDetailsResponse> {
+  return requestJson<EstimateDetailsResponse>(
+    `/estimates/${estimateId}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function updateEstimate(
+  estimateId: string,
+  payload: UpdateEstimateRequest,
+): Promise<EstimateSummary> {
+  return requestJson<EstimateSummary>(
+    `/estimates/${estimateId}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function finalizeEstimate(estimateId: string): Promise<EstimateSummary> {
+  return requestJson<EstimateSummary>(
+    `/estimates/${estimateId}/finalize`,
+    {
+      method: "POST",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function createLineItem(
+  estimateId: string,
+  payload: CreateLineItemRequest,
+): Promise<LineItemMutationResponse> {
+  return requestJson<LineItemMutationResponse>(
+    `/estimates/${estimateId}/line-items`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function importLineItems(
+  estimateId: string,
+  payload: ImportLineItemsRequest,
+): Promise<ImportLineItemsResponse> {
+  const formData = new FormData();
+  formData.append("file", payload.file);
+  if (payload.mapping) {
+    formData.append("mapping", JSON.stringify(payload.mapping));
+  }
+  if (payload.sheet) {
+    formData.append("sheet", payload.sheet);
+  }
+  formData.append("dryRun", payload.dryRun ? "true" : "false");
+
+  return requestJson<ImportLineItemsResponse>(
+    `/estimates/${estimateId}/line-items/import`,
+    {
+      method: "POST",
+      body: formData,
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function updateLineItem(
+  lineItemId: string,
+  payload: UpdateLineItemRequest,
+): Promise<LineItemMutationResponse> {
+  return requestJson<LineItemMutationResponse>(
+    `/line-items/${lineItemId}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function overrideLineItem(
+  lineItemId: string,
+  payload: OverrideLineItemRequest,
+): Promise<LineItemMutationResponse> {
+  return requestJson<LineItemMutationResponse>(
+    `/line-items/${lineItemId}/override`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function deleteLineItem(lineItemId: string): Promise<DeleteLineItemResponse> {
+  return requestJson<DeleteLineItemResponse>(
+    `/line-items/${lineItemId}`,
+    {
+      method: "DELETE",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function computeLineItem(
+  lineItemId: string,
+  payload: ComputeLineItemRequest,
+): Promise<ComputeLineItemResponse> {
+  return requestJson<ComputeLineItemResponse>(
+    `/line-items/${lineItemId}/compute`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function computeIntoEstimate(
+  estimateId: string,
+  payload: ComputeIntoEstimateRequest,
+): Promise<ComputationGroupResponse> {
+  return requestJson<ComputationGroupResponse>(
+    `/estimates/${estimateId}/computations`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function recomputeComputationGroup(
+  estimateId: string,
+  groupId: string,
+  payload: RecomputeComputationGroupRequest,
+): Promise<ComputationGroupResponse> {
+  return requestJson<ComputationGroupResponse>(
+    `/estimates/${estimateId}/computations/${groupId}/recompute`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function deleteComputationGroup(
+  estimateId: string,
+  groupId: string,
+): Promise<DeleteComputationGroupResponse> {
+  return requestJson<DeleteComputationGroupResponse>(
+    `/estimates/${estimateId}/computations/${groupId}`,
+    {
+      method: "DELETE",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getFormulas(query: GetFormulasQuery = {}): Promise<GetFormulasResponse> {
+  const queryString = toQueryString({
+    page: query.page,
+    pageSize: query.pageSize,
+  });
+
+  return requestJson<GetFormulasResponse>(
+    `/formulas${queryString}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getFormulaUnits(): Promise<GetFormulaUnitsResponse> {
+  return requestJson<GetFormulaUnitsResponse>(
+    "/formulas/units",
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getOutdatedComputations(formulaId?: string): Promise<GetOutdatedComputationsResponse> {
+  const queryString = toQueryString({ formulaId });
+
+  return requestJson<GetOutdatedComputationsResponse>(
+    `/formulas/outdated-computations${queryString}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function applyFormulaUpgrades(
+  payload: ApplyFormulaUpgradesRequest,
+): Promise<ApplyFormulaUpgradesResponse> {
+  return requestJson<ApplyFormulaUpgradesResponse>(
+    "/formulas/outdated-computations/apply",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getFormula(formulaId: string): Promise<FormulaDetail> {
+  return requestJson<FormulaDetail>(
+    `/formulas/${formulaId}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getFormulaVersions(formulaId: string): Promise<FormulaVersionsResponse> {
+  return requestJson<FormulaVersionsResponse>(
+    `/formulas/${formulaId}/versions`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getUsers(query: GetUsersQuery = {}): Promise<GetUsersResponse> {
+  const queryString = toQueryString({
+    page: query.page,
+    pageSize: query.pageSize,
+  });
+
+  return requestJson<GetUsersResponse>(
+    `/users${queryString}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getAuditLogs(query: GetAuditLogsQuery = {}): Promise<GetAuditLogsResponse> {
+  const queryString = toQueryString({
+    page: query.page,
+    pageSize: query.pageSize,
+    from: query.from,
+    to: query.to,
+    userId: query.userId,
+    entityType: query.entityType,
+  });
+
+  return requestJson<GetAuditLogsResponse>(
+    `/audit${queryString}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function inviteUser(payload: InviteUserRequest): Promise<InviteUserResponse> {
+  return requestJson<InviteUserResponse>(
+    "/users/invite",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function updateUserRole(
+  userId: string,
+  payload: UpdateUserRoleRequest,
+): Promise<UserMutationResponse> {
+  return requestJson<UserMutationResponse>(
+    `/users/${userId}/role`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function deactivateUser(userId: string): Promise<UserMutationResponse> {
+  return requestJson<UserMutationResponse>(
+    `/users/${userId}/deactivate`,
+    {
+      method: "PATCH",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function createFormula(payload: FormulaCreateOrUpdatePayload): Promise<FormulaDetail> {
+  return requestJson<FormulaDetail>(
+    "/formulas",
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function updateFormula(
+  formulaId: string,
+  payload: FormulaCreateOrUpdatePayload,
+): Promise<FormulaDetail> {
+  return requestJson<FormulaDetail>(
+    `/formulas/${formulaId}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function deactivateFormula(formulaId: string): Promise<FormulaDetail> {
+  return requestJson<FormulaDetail>(
+    `/formulas/${formulaId}/deactivate`,
+    {
+      method: "POST",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function testFormula(
+  formulaId: string,
+  payload: TestFormulaPayload,
+): Promise<TestFormulaResponse> {
+  return requestJson<TestFormulaResponse>(
+    `/formulas/${formulaId}/test`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+function parseDownloadFilename(disposition: string | null, fallback: string): string {
+  if (!disposition) {
+    return fallback;
+  }
+
+  const starMatch = disposition.match(/filename\*=UTF-8''([^;]+)/i);
+  if (starMatch?.[1]) {
+    return decodeURIComponent(starMatch[1]);
+  }
+
+  const filenameMatch = disposition.match(/filename=\"?([^\";]+)\"?/i);
+  if (filenameMatch?.[1]) {
+    return filenameMatch[1];
+  }
+
+  return fallback;
+}
+
+export async function requestEstimatePdf(
+  estimateId: string,
+  options?: Partial<EstimatePdfOptions>,
+): Promise<RequestEstimatePdfResponse> {
+  return requestJson<RequestEstimatePdfResponse>(
+    `/estimates/${estimateId}/pdf`,
+    {
+      method: "POST",
+      body: JSON.stringify(options ?? {}),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function sendEstimateEmail(
+  estimateId: string,
+  payload: SendEstimateEmailRequest,
+): Promise<EstimateEmailRecord> {
+  return requestJson<EstimateEmailRecord>(
+    `/estimates/${estimateId}/send`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getEstimateEmails(estimateId: string): Promise<EstimateEmailsResponse> {
+  return requestJson<EstimateEmailsResponse>(
+    `/estimates/${estimateId}/sends`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
     },
   );
 }
 
-export async function postSetup(payload: SetupRequest): Promise<AuthResponse> {
-  return requestJson<AuthResponse>(
-    "/setup",
+export async function getEstimateShareLinks(estimateId: string): Promise<EstimateShareLinksResponse> {
+  return requestJson<EstimateShareLinksResponse>(
+    `/estimates/${estimateId}/share-links`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function createEstimateShareLink(
+  estimateId: string,
+  payload: CreateShareLinkRequest,
+): Promise<CreatedEstimateShareLink> {
+  return requestJson<CreatedEstimateShareLink>(
+    `/estimates/${estimateId}/share-links`,
     {
       method: "POST",
       body: JSON.stringify(payload),
     },
     {
-      auth: false,
-      retryOnUnauthorized: false,
+      auth: true,
     },
   );
 }
 
-export async function login(payload: LoginRequest): Promise<AuthResponse> {
-  return requestJson<AuthResponse>(
-    "/auth/login",
+export async function revokeEstimateShareLink(estimateId: string, linkId: string): Promise<EstimateShareLink> {
+  return requestJson<EstimateShareLink>(
+    `/estimates/${estimateId}/share-links/${linkId}`,
+    {
+      method: "DELETE",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getEstimateReviews(estimateId: string): Promise<EstimateReviewTrail> {
+  return requestJson<EstimateReviewTrail>(
+    `/estimates/${estimateId}/reviews`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function submitEstimateForReview(
+  estimateId: string,
+  comment: string,
+): Promise<SubmitEstimateForReviewResult> {
+  return requestJson<SubmitEstimateForReviewResult>(
+    `/estimates/${estimateId}/submit-review`,
     {
       method: "POST",
-      body: JSON.stringify(payload),
+      body: JSON.stringify({ comment }),
     },
     {
-      auth: false,
-      retryOnUnauthorized: false,
+      auth: true,
     },
   );
 }
 
-export async function forgotPassword(payload: ForgotPasswordRequest): Promise<{ success: true; message: string }> {
-  return requestJson<{ success: true; message: string }>(
-    "/auth/forgot-password",
+export async function approveEstimate(estimateId: string, comment: string): Promise<EstimateReviewResult> {
+  return requestJson<EstimateReviewResult>(
+    `/estimates/${estimateId}/approve`,
+    {
+      method: "POST",
+      body: JSON.stringify({ comment }),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function rejectEstimate(estimateId: string, comment: string): Promise<EstimateReviewResult> {
+  return requestJson<EstimateReviewResult>(
+    `/estimates/${estimateId}/reject`,
+    {
+      method: "POST",
+      body: JSON.stringify({ comment }),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getEstimateComments(estimateId: string): Promise<EstimateCommentsResponse> {
+  return requestJson<EstimateCommentsResponse>(
+    `/estimates/${estimateId}/comments`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getEstimateCommentParticipants(estimateId: string): Promise<{ items: EstimateCommentUser[] }> {
+  return requestJson<{ items: EstimateCommentUser[] }>(
+    `/estimates/${estimateId}/comments/participants`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function createEstimateComment(
+  estimateId: string,
+  payload: CreateEstimateCommentRequest,
+): Promise<EstimateComment> {
+  return requestJson<EstimateComment>(
+    `/estimates/${estimateId}/comments`,
     {
       method: "POST",
       body: JSON.stringify(payload),
     },
     {
-      auth: false,
-      retryOnUnauthorized: false,
+      auth: true,
     },
   );
 }
 
-export async function resetPassword(payload: ResetPasswordRequest): Promise<{ success: true }> {
-  return requestJson<{ success: true }>(
-    "/auth/reset-password",
+export async function updateEstimateComment(
+  estimateId: string,
+  commentId: string,
+  payload: UpdateEstimateCommentRequest,
+): Promise<EstimateComment> {
+  return requestJson<EstimateComment>(
+    `/estimates/${estimateId}/comments/${commentId}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function deleteEstimateComment(
+  estimateId: string,
+  commentId: string,
+): Promise<DeleteEstimateCommentResponse> {
+  return requestJson<DeleteEstimateCommentResponse>(
+    `/estimates/${estimateId}/comments/${commentId}`,
+    {
+      method: "DELETE",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function setEstimateCommentResolved(
+  estimateId: string,
+  commentId: string,
+  resolved: boolean,
+): Promise<EstimateCommentThread> {
+  return requestJson<EstimateCommentThread>(
+    `/estimates/${estimateId}/comments/${commentId}/${resolved ? "resolve" : "unresolve"}`,
     {
       method: "POST",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function getApprovalPolicy(): Promise<ApprovalPolicy> {
+  return requestJson<ApprovalPolicy>(
+    "/approval-policy",
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function updateApprovalPolicy(payload: UpdateApprovalPolicyRequest): Promise<ApprovalPolicy> {
+  return requestJson<ApprovalPolicy>(
+    "/approval-policy",
+    {
+      method: "PUT",
       body: JSON.stringify(payload),
     },
+    {
+      auth: true,
+    },
+  );
+}
+
+export async function viewSharedEstimate(token: string): Promise<SharedEstimateView> {
+  return requestJson<SharedEstimateView>(
+    "/shared-estimates/view",
+    {
+      method: "POST",
+      body: JSON.stringify({ token }),
+    },
     {
       auth: false,
       retryOnUnauthorized: false,
@@ -756,9 +2742,11 @@ export async function resetPassword(payload: ResetPasswordRequest): Promise<{ su
   );
 }
 
-export async function acceptInvite(payload: AcceptInviteRequest): Promise<UserMutationResponse> {
-  return requestJson<UserMutationResponse>(
-    "/users/accept-invite",
+export async function respondToSharedEstimate(
+  payload: RespondToSharedEstimateRequest,
+): Promise<ShareLinkResponse> {
+  return requestJson<ShareLinkResponse>(
+    "/shared-estimates/respond",
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -770,53 +2758,62 @@ export async function acceptInvite(payload: AcceptInviteRequest): Promise<UserMu
   );
 }
 
-export async function logout(): Promise<void> {
-  const refreshToken = readRefreshToken();
-  if (!refreshToken) {
-    clearAuthSession();
-    return;
-  }
+export async function requestEstimateXlsx(estimateId: string): Promise<RequestEstimatePdfResponse> {
+  return requestJson<RequestEstimatePdfResponse>(
+    `/estimates/${estimateId}/xlsx`,
+    {
+      method: "POST",
+    },
+    {
+      auth: true,
+    },
+  );
+}
 
-  try {
-    await requestJson<{ success: true }>(
-      "/auth/logout",
-      {
-        method: "POST",
-        body: JSON.stringify({ refreshToken }),
-      },
-      {
-        auth: false,
-        retryOnUnauthorized: false,
-      },
-    );
-  } finally {
-    clearAuthSession();
-  }
+export async function getPdfJobStatus(jobId: string): Promise<PdfJobStatusResponse> {
+  return requestJson<PdfJobStatusResponse>(
+    `/pdf-jobs/${jobId}`,
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
 }
 
-function toQueryString(params: Record<string, string | number | undefined>): string {
-  const query = new URLSearchParams();
-  Object.entries(params).forEach(([key, value]) => {
-    if (value === undefined) {
-      return;
-    }
+export async function downloadPdfJob(jobId: string): Promise<DownloadPdfJobResponse> {
+  const response = await requestBinary(
+    `/pdf-jobs/${jobId}/download`,
+    {
+      method: "GET",
+    },
+    {
+      auth: true,
+    },
+  );
 
-    query.set(key, `${value}`);
-  });
+  const blob = await response.blob();
+  const fileName = parseDownloadFilename(
+    response.headers.get("content-disposition"),
+    `estimate-${jobId}.pdf`,
+  );
 
-  const encoded = query.toString();
-  return encoded ? `?${encoded}` : "";
+  return {
+    blob,
+    fileName,
+  };
 }
 
-export async function getProjects(query: GetProjectsQuery = {}): Promise<GetProjectsResponse> {
+export async function getLookupTables(query: GetFormulasQuery = {}): Promise<GetLookupTablesResponse> {
   const queryString = toQueryString({
     page: query.page,
     pageSize: query.pageSize,
-    status: query.status,
   });
 
-  return requestJson<GetProjectsResponse>(
-    `/projects${queryString}`,
+  return requestJson<GetLookupTablesResponse>(
+    `/lookup-tables${queryString}`,
     {
       method: "GET",
       cache: "no-store",
@@ -827,9 +2824,9 @@ export async function getProjects(query: GetProjectsQuery = {}): Promise<GetProj
   );
 }
 
-export async function createProject(payload: CreateProjectRequest): Promise<ProjectSummary> {
-  return requestJson<ProjectSummary>(
-    "/projects",
+export async function createLookupTable(payload: CreateLookupTablePayload): Promise<LookupTable> {
+  return requestJson<LookupTable>(
+    "/lookup-tables",
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -839,13 +2836,16 @@ export async function createProject(payload: CreateProjectRequest): Promise<Proj
     },
   );
 }
-
-export async function getProject(projectId: string): Promise<ProjectSummary> {
-  return requestJson<ProjectSummary>(
-    `/projects/${projectId}`,
+
+export async function updateLookupTable(
+  lookupTableId: string,
+  payload: UpdateLookupTablePayload,
+): Promise<LookupTable> {
+  return requestJson<LookupTable>(
+    `/lookup-tables/${lookupTableId}`,
     {
-      method: "GET",
-      cache: "no-store",
+      method: "PUT",
+      body: JSON.stringify(payload),
     },
     {
       auth: true,
@@ -853,11 +2853,11 @@ export async function getProject(projectId: string): Promise<ProjectSummary> {
   );
 }
 
-export async function archiveProject(projectId: string): Promise<ProjectSummary> {
-  return requestJson<ProjectSummary>(
-    `/projects/${projectId}/archive`,
+export async function deleteLookupTable(lookupTableId: string): Promise<DeleteLookupTableResponse> {
+  return requestJson<DeleteLookupTableResponse>(
+    `/lookup-tables/${lookupTableId}`,
     {
-      method: "PATCH",
+      method: "DELETE",
     },
     {
       auth: true,
@@ -865,17 +2865,17 @@ export async function archiveProject(projectId: string): Promise<ProjectSummary>
   );
 }
 
-export async function getProjectEstimates(
-  projectId: string,
-  query: GetProjectEstimatesQuery = {},
-): Promise<GetProjectEstimatesResponse> {
+export async function getPriceCatalogItems(
+  query: GetPriceCatalogItemsQuery = {},
+): Promise<GetPriceCatalogItemsResponse> {
   const queryString = toQueryString({
     page: query.page,
     pageSize: query.pageSize,
+    search: query.search,
   });
 
-  return requestJson<GetProjectEstimatesResponse>(
-    `/projects/${projectId}/estimates${queryString}`,
+  return requestJson<GetPriceCatalogItemsResponse>(
+    `/price-catalog${queryString}`,
     {
       method: "GET",
       cache: "no-store",
@@ -886,15 +2886,12 @@ export async function getProjectEstimates(
   );
 }
 
-export async function createEstimate(
-  projectId: string,
-  payload: CreateEstimateRequest,
-): Promise<ProjectEstimateSummary> {
-  return requestJson<ProjectEstimateSummary>(
-    `/projects/${projectId}/estimates`,
+export async function getStalePriceLineItems(): Promise<GetStalePriceLineItemsResponse> {
+  return requestJson<GetStalePriceLineItemsResponse>(
+    "/price-catalog/stale-line-items",
     {
-      method: "POST",
-      body: JSON.stringify(payload),
+      method: "GET",
+      cache: "no-store",
     },
     {
       auth: true,
@@ -902,11 +2899,12 @@ export async function createEstimate(
   );
 }
 
-export async function duplicateEstimate(estimateId: string): Promise<ProjectEstimateSummary> {
-  return requestJson<ProjectEstimateSummary>(
-    `/estimates/${estimateId}/duplicate`,
+export async function createPriceCatalogItem(payload: CreatePriceCatalogItemPayload): Promise<PriceCatalogItem> {
+  return requestJson<PriceCatalogItem>(
+    "/price-catalog",
     {
       method: "POST",
+      body: JSON.stringify(payload),
     },
     {
       auth: true,
@@ -914,11 +2912,15 @@ export async function duplicateEstimate(estimateId: string): Promise<ProjectEsti
   );
 }
 
-export async function archiveEstimate(estimateId: string): Promise<ProjectEstimateSummary> {
-  return requestJson<ProjectEstimateSummary>(
-    `/estimates/${estimateId}/archive`,
+export async function updatePriceCatalogItem(
+  priceCatalogItemId: string,
+  payload: UpdatePriceCatalogItemPayload,
+): Promise<PriceCatalogItem> {
+  return requestJson<PriceCatalogItem>(
+    `/price-catalog/${priceCatalogItemId}`,
     {
-      method: "PATCH",
+      method: "PUT",
+      body: JSON.stringify(payload),
     },
     {
       auth: true,
@@ -926,9 +2928,9 @@ export async function archiveEstimate(estimateId: string): Promise<ProjectEstima
   );
 }
 
-export async function softDeleteEstimate(estimateId: string): Promise<ProjectEstimateSummary> {
-  return requestJson<ProjectEstimateSummary>(
-    `/estimates/${estimateId}`,
+export async function deletePriceCatalogItem(priceCatalogItemId: string): Promise<DeletePriceCatalogItemResponse> {
+  return requestJson<DeletePriceCatalogItemResponse>(
+    `/price-catalog/${priceCatalogItemId}`,
     {
       method: "DELETE",
     },
@@ -938,9 +2940,9 @@ export async function softDeleteEstimate(estimateId: string): Promise<ProjectEst
   );
 }
 
-export async function getEstimate(estimateId: string): Promise<EstimateDetailsResponse> {
-  return requestJson<EstimateDetailsResponse>(
-    `/estimates/${estimateId}`,
+export async function getRegions(): Promise<GetRegionsResponse> {
+  return requestJson<GetRegionsResponse>(
+    "/regions",
     {
       method: "GET",
       cache: "no-store",
@@ -951,14 +2953,11 @@ export async function getEstimate(estimateId: string): Promise<EstimateDetailsRe
   );
 }
 
-export async function updateEstimate(
-  estimateId: string,
-  payload: UpdateEstimateRequest,
-): Promise<EstimateSummary> {
-  return requestJson<EstimateSummary>(
-    `/estimates/${estimateId}`,
+export async function createRegion(payload: CreateRegionPayload): Promise<Region> {
+  return requestJson<Region>(
+    "/regions",
     {
-      method: "PATCH",
+      method: "POST",
       body: JSON.stringify(payload),
     },
     {
@@ -967,11 +2966,12 @@ export async function updateEstimate(
   );
 }
 
-export async function finalizeEstimate(estimateId: string): Promise<EstimateSummary> {
-  return requestJson<EstimateSummary>(
-    `/estimates/${estimateId}/finalize`,
+export async function updateRegion(regionId: string, payload: UpdateRegionPayload): Promise<Region> {
+  return requestJson<Region>(
+    `/regions/${regionId}`,
     {
-      method: "POST",
+      method: "PUT",
+      body: JSON.stringify(payload),
     },
     {
       auth: true,
@@ -979,15 +2979,11 @@ export async function finalizeEstimate(estimateId: string): Promise<EstimateSumm
   );
 }
 
-export async function createLineItem(
-  estimateId: string,
-  payload: CreateLineItemRequest,
-): Promise<LineItemMutationResponse> {
-  return requestJson<LineItemMutationResponse>(
-    `/estimates/${estimateId}/line-items`,
+export async function deleteRegion(regionId: string): Promise<DeleteRegionResponse> {
+  return requestJson<DeleteRegionResponse>(
+    `/regions/${regionId}`,
     {
-      method: "POST",
-      body: JSON.stringify(payload),
+      method: "DELETE",
     },
     {
       auth: true,
@@ -995,15 +2991,12 @@ export async function createLineItem(
   );
 }
 
-export async function updateLineItem(
-  lineItemId: string,
-  payload: UpdateLineItemRequest,
-): Promise<LineItemMutationResponse> {
-  return requestJson<LineItemMutationResponse>(
-    `/line-items/${lineItemId}`,
+export async function getCategories(): Promise<GetCategoriesResponse> {
+  return requestJson<GetCategoriesResponse>(
+    "/categories",
     {
-      method: "PATCH",
-      body: JSON.stringify(payload),
+      method: "GET",
+      cache: "no-store",
     },
     {
       auth: true,
@@ -1011,12 +3004,9 @@ export async function updateLineItem(
   );
 }
 
-export async function overrideLineItem(
-  lineItemId: string,
-  payload: OverrideLineItemRequest,
-): Promise<LineItemMutationResponse> {
-  return requestJson<LineItemMutationResponse>(
-    `/line-items/${lineItemId}/override`,
+export async function createCategory(payload: CreateCategoryPayload): Promise<CategoryNode> {
+  return requestJson<CategoryNode>(
+    "/categories",
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -1027,11 +3017,12 @@ export async function overrideLineItem(
   );
 }
 
-export async function deleteLineItem(lineItemId: string): Promise<DeleteLineItemResponse> {
-  return requestJson<DeleteLineItemResponse>(
-    `/line-items/${lineItemId}`,
+export async function updateCategory(categoryId: string, payload: UpdateCategoryPayload): Promise<CategoryNode> {
+  return requestJson<CategoryNode>(
+    `/categories/${categoryId}`,
     {
-      method: "DELETE",
+      method: "PUT",
+      body: JSON.stringify(payload),
     },
     {
       auth: true,
@@ -1039,15 +3030,11 @@ export async function deleteLineItem(lineItemId: string): Promise<DeleteLineItem
   );
 }
 
-export async function computeLineItem(
-  lineItemId: string,
-  payload: ComputeLineItemRequest,
-): Promise<ComputeLineItemResponse> {
-  return requestJson<ComputeLineItemResponse>(
-    `/line-items/${lineItemId}/compute`,
+export async function deleteCategory(categoryId: string): Promise<DeleteCategoryResponse> {
+  return requestJson<DeleteCategoryResponse>(
+    `/categories/${categoryId}`,
     {
-      method: "POST",
-      body: JSON.stringify(payload),
+      method: "DELETE",
     },
     {
       auth: true,
@@ -1055,14 +3042,9 @@ export async function computeLineItem(
   );
 }
 
-export async function getFormulas(query: GetFormulasQuery = {}): Promise<GetFormulasResponse> {
-  const queryString = toQueryString({
-    page: query.page,
-    pageSize: query.pageSize,
-  });
-
-  return requestJson<GetFormulasResponse>(
-    `/formulas${queryString}`,
+export async function getEstimateTemplates(): Promise<GetEstimateTemplatesResponse> {
+  return requestJson<GetEstimateTemplatesResponse>(
+    "/estimate-templates",
     {
       method: "GET",
       cache: "no-store",
@@ -1073,9 +3055,9 @@ export async function getFormulas(query: GetFormulasQuery = {}): Promise<GetForm
   );
 }
 
-export async function getFormula(formulaId: string): Promise<FormulaDetail> {
-  return requestJson<FormulaDetail>(
-    `/formulas/${formulaId}`,
+export async function getEstimateTemplate(templateId: string): Promise<EstimateTemplateDetail> {
+  return requestJson<EstimateTemplateDetail>(
+    `/estimate-templates/${templateId}`,
     {
       method: "GET",
       cache: "no-store",
@@ -1086,12 +3068,12 @@ export async function getFormula(formulaId: string): Promise<FormulaDetail> {
   );
 }
 
-export async function getFormulaVersions(formulaId: string): Promise<FormulaVersionsResponse> {
-  return requestJson<FormulaVersionsResponse>(
-    `/formulas/${formulaId}/versions`,
+export async function createEstimateTemplate(payload: CreateEstimateTemplatePayload): Promise<EstimateTemplateDetail> {
+  return requestJson<EstimateTemplateDetail>(
+    "/estimate-templates",
     {
-      method: "GET",
-      cache: "no-store",
+      method: "POST",
+      body: JSON.stringify(payload),
     },
     {
       auth: true,
@@ -1099,17 +3081,15 @@ export async function getFormulaVersions(formulaId: string): Promise<FormulaVers
   );
 }
 
-export async function getUsers(query: GetUsersQuery = {}): Promise<GetUsersResponse> {
-  const queryString = toQueryString({
-    page: query.page,
-    pageSize: query.pageSize,
-  });
-
-  return requestJson<GetUsersResponse>(
-    `/users${queryString}`,
+export async function updateEstimateTemplate(
+  templateId: string,
+  payload: UpdateEstimateTemplatePayload,
+): Promise<EstimateTemplateDetail> {
+  return requestJson<EstimateTemplateDetail>(
+    `/estimate-templates/${templateId}`,
     {
-      method: "GET",
-      cache: "no-store",
+      method: "PUT",
+      body: JSON.stringify(payload),
     },
     {
       auth: true,
@@ -1117,21 +3097,11 @@ export async function getUsers(query: GetUsersQuery = {}): Promise<GetUsersRespo
   );
 }
 
-export async function getAuditLogs(query: GetAuditLogsQuery = {}): Promise<GetAuditLogsResponse> {
-  const queryString = toQueryString({
-    page: query.page,
-    pageSize: query.pageSize,
-    from: query.from,
-    to: query.to,
-    userId: query.userId,
-    entityType: query.entityType,
-  });
-
-  return requestJson<GetAuditLogsResponse>(
-    `/audit${queryString}`,
+export async function deleteEstimateTemplate(templateId: string): Promise<DeleteEstimateTemplateResponse> {
+  return requestJson<DeleteEstimateTemplateResponse>(
+    `/estimate-templates/${templateId}`,
     {
-      method: "GET",
-      cache: "no-store",
+      method: "DELETE",
     },
     {
       auth: true,
@@ -1139,9 +3109,9 @@ export async function getAuditLogs(query: GetAuditLogsQuery = {}): Promise<GetAu
   );
 }
 
-export async function inviteUser(payload: InviteUserRequest): Promise<InviteUserResponse> {
-  return requestJson<InviteUserResponse>(
-    "/users/invite",
+export async function previewRepricing(payload: RepriceEstimatesRequest): Promise<RepricingResponse> {
+  return requestJson<RepricingResponse>(
+    "/estimates/repricing/preview",
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -1152,14 +3122,11 @@ export async function inviteUser(payload: InviteUserRequest): Promise<InviteUser
   );
 }
 
-export async function updateUserRole(
-  userId: string,
-  payload: UpdateUserRoleRequest,
-): Promise<UserMutationResponse> {
-  return requestJson<UserMutationResponse>(
-    `/users/${userId}/role`,
+export async function applyRepricing(payload: ApplyRepricingRequest): Promise<RepricingResponse> {
+  return requestJson<RepricingResponse>(
+    "/estimates/repricing/apply",
     {
-      method: "PATCH",
+      method: "POST",
       body: JSON.stringify(payload),
     },
     {
@@ -1168,11 +3135,12 @@ export async function updateUserRole(
   );
 }
 
-export async function deactivateUser(userId: string): Promise<UserMutationResponse> {
-  return requestJson<UserMutationResponse>(
-    `/users/${userId}/deactivate`,
+export async function getBranding(): Promise<OrganizationBranding> {
+  return requestJson<OrganizationBranding>(
+    "/branding",
     {
-      method: "PATCH",
+      method: "GET",
+      cache: "no-store",
     },
     {
       auth: true,
@@ -1180,11 +3148,11 @@ export async function deactivateUser(userId: string): Promise<UserMutationRespon
   );
 }
 
-export async function createFormula(payload: FormulaCreateOrUpdatePayload): Promise<FormulaDetail> {
-  return requestJson<FormulaDetail>(
-    "/formulas",
+export async function updateBranding(payload: UpdateBrandingRequest): Promise<OrganizationBranding> {
+  return requestJson<OrganizationBranding>(
+    "/branding",
     {
-      method: "POST",
+      method: "PUT",
       body: JSON.stringify(payload),
     },
     {
@@ -1193,15 +3161,15 @@ export async function createFormula(payload: FormulaCreateOrUpdatePayload): Prom
   );
 }
 
-export async function updateFormula(
-  formulaId: string,
-  payload: FormulaCreateOrUpdatePayload,
-): Promise<FormulaDetail> {
-  return requestJson<FormulaDetail>(
-    `/formulas/${formulaId}`,
+export async function uploadBrandingLogo(file: File): Promise<OrganizationBranding> {
+  const formData = new FormData();
+  formData.append("logo", file);
+
+  return requestJson<OrganizationBranding>(
+    "/branding/logo",
     {
       method: "PUT",
-      body: JSON.stringify(payload),
+      body: formData,
     },
     {
       auth: true,
@@ -1209,11 +3177,11 @@ export async function updateFormula(
   );
 }
 
-export async function deactivateFormula(formulaId: string): Promise<FormulaDetail> {
-  return requestJson<FormulaDetail>(
-    `/formulas/${formulaId}/deactivate`,
+export async function deleteBrandingLogo(): Promise<OrganizationBranding> {
+  return requestJson<OrganizationBranding>(
+    "/branding/logo",
     {
-      method: "POST",
+      method: "DELETE",
     },
     {
       auth: true,
@@ -1221,12 +3189,24 @@ export async function deactivateFormula(formulaId: string): Promise<FormulaDetai
   );
 }
 
-export async function testFormula(
-  formulaId: string,
-  payload: TestFormulaPayload,
-): Promise<TestFormulaResponse> {
-  return requestJson<TestFormulaResponse>(
-    `/formulas/${formulaId}/test`,
+export async function getBrandingLogo(): Promise<Blob> {
+  const response = await requestBinary(
+    "/branding/logo",
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+
+  return response.blob();
+}
+
+export async function previewQuotation(payload: PreviewQuotationRequest): Promise<PreviewQuotationResponse> {
+  return requestJson<PreviewQuotationResponse>(
+    "/branding/preview",
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -1237,29 +3217,56 @@ export async function testFormula(
   );
 }
 
-function parseDownloadFilename(disposition: string | null, fallback: string): string {
-  if (!disposition) {
-    return fallback;
-  }
-
-  const starMatch = disposition.match(/filename\*=UTF-8''([^;]+)/i);
-  if (starMatch?.[1]) {
-    return decodeURIComponent(starMatch[1]);
-  }
+export async function getEmailTemplates(): Promise<EmailTemplatesResponse> {
+  return requestJson<EmailTemplatesResponse>(
+    "/email-templates",
+    {
+      method: "GET",
+      cache: "no-store",
+    },
+    {
+      auth: true,
+    },
+  );
+}
 
-  const filenameMatch = disposition.match(/filename=\"?([^\";]+)\"?/i);
-  if (filenameMatch?.[1]) {
-    return filenameMatch[1];
-  }
+export async function updateEmailTemplate(
+  key: EmailTemplateKey,
+  payload: EmailTemplateContent,
+): Promise<EmailTemplate> {
+  return requestJson<EmailTemplate>(
+    `/email-templates/${key}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    },
+    {
+      auth: true,
+    },
+  );
+}
 
-  return fallback;
+export async function resetEmailTemplate(key: EmailTemplateKey): Promise<EmailTemplate> {
+  return requestJson<EmailTemplate>(
+    `/email-templates/${key}`,
+    {
+      method: "DELETE",
+    },
+    {
+      auth: true,
+    },
+  );
 }
 
-export async function requestEstimatePdf(estimateId: string): Promise<RequestEstimatePdfResponse> {
-  return requestJson<RequestEstimatePdfResponse>(
-    `/estimates/${estimateId}/pdf`,
+export async function previewEmailTemplate(
+  key: EmailTemplateKey,
+  payload: Partial<EmailTemplateContent>,
+): Promise<EmailTemplateContent> {
+  return requestJson<EmailTemplateContent>(
+    `/email-templates/${key}/preview`,
     {
       method: "POST",
+      body: JSON.stringify(payload),
     },
     {
       auth: true,
@@ -1267,9 +3274,9 @@ export async function requestEstimatePdf(estimateId: string): Promise<RequestEst
   );
 }
 
-export async function getPdfJobStatus(jobId: string): Promise<PdfJobStatusResponse> {
-  return requestJson<PdfJobStatusResponse>(
-    `/pdf-jobs/${jobId}`,
+export async function getEstimateQuotation(estimateId: string): Promise<EstimateQuotation> {
+  return requestJson<EstimateQuotation>(
+    `/estimates/${estimateId}/quotation`,
     {
       method: "GET",
       cache: "no-store",
@@ -1280,25 +3287,18 @@ export async function getPdfJobStatus(jobId: string): Promise<PdfJobStatusRespon
   );
 }
 
-export async function downloadPdfJob(jobId: string): Promise<DownloadPdfJobResponse> {
-  const response = await requestBinary(
-    `/pdf-jobs/${jobId}/download`,
+export async function updateEstimateQuotation(
+  estimateId: string,
+  overrides: QuotationSections,
+): Promise<EstimateQuotation> {
+  return requestJson<EstimateQuotation>(
+    `/estimates/${estimateId}/quotation`,
     {
-      method: "GET",
+      method: "PUT",
+      body: JSON.stringify({ overrides }),
     },
     {
       auth: true,
     },
   );
-
-  const blob = await response.blob();
-  const fileName = parseDownloadFilename(
-    response.headers.get("content-disposition"),
-    `estimate-${jobId}.pdf`,
-  );
-
-  return {
-    blob,
-    fileName,
-  };
 }
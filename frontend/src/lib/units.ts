@@ -0,0 +1,30 @@
+import type { FormulaUnit } from "@/lib/api";
+
+function normalizeUnit(unit: string): string {
+  return unit.trim().toLowerCase().replace(/\s+/g, "");
+}
+
+export function findFormulaUnit(units: FormulaUnit[], unit: string): FormulaUnit | undefined {
+  const normalized = normalizeUnit(unit);
+  return units.find(
+    (candidate) =>
+      normalizeUnit(candidate.symbol) === normalized ||
+      candidate.aliases.some((alias) => normalizeUnit(alias) === normalized),
+  );
+}
+
+/**
+ * Units an input declared in `unit` can be entered in. Unregistered units only offer themselves.
+ */
+export function getCompatibleUnitSymbols(units: FormulaUnit[], unit: string): string[] {
+  const definition = findFormulaUnit(units, unit);
+  if (!definition) {
+    return [unit];
+  }
+
+  const symbols = units
+    .filter((candidate) => candidate.dimension === definition.dimension)
+    .map((candidate) => candidate.symbol);
+
+  return [unit, ...symbols.filter((symbol) => symbol !== definition.symbol)];
+}
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Formula" ADD COLUMN     "dependencies" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "LookupTableMatchMode" AS ENUM ('EXACT', 'RANGE');
+
+-- CreateTable
+CREATE TABLE "LookupTable" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "keyUnit" TEXT NOT NULL,
+    "valueUnit" TEXT NOT NULL,
+    "matchMode" "LookupTableMatchMode" NOT NULL DEFAULT 'EXACT',
+    "entries" JSONB NOT NULL,
+    "createdBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LookupTable_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LookupTable_organizationId_idx" ON "LookupTable"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LookupTable_organizationId_name_key" ON "LookupTable"("organizationId", "name");
+
+-- AddForeignKey
+ALTER TABLE "LookupTable" ADD CONSTRAINT "LookupTable_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LookupTable" ADD CONSTRAINT "LookupTable_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ComputationInstance" ADD COLUMN     "inputUnits" JSONB NOT NULL DEFAULT '{}';
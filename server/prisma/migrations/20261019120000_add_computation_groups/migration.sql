@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ComputationInstance" ADD COLUMN     "groupId" UUID,
+ADD COLUMN     "outputVariable" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ComputationInstance_groupId_idx" ON "ComputationInstance"("groupId");
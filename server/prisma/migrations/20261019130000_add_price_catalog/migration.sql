@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "LineItem" ADD COLUMN "priceCatalogItemId" UUID;
+
+-- CreateTable
+CREATE TABLE "PriceCatalogItem" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "itemCode" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "unitMaterialCost" DECIMAL(65,30) NOT NULL,
+    "unitLaborCost" DECIMAL(65,30) NOT NULL,
+    "supplier" TEXT,
+    "effectiveDate" DATE NOT NULL,
+    "createdBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceCatalogItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LineItem_priceCatalogItemId_idx" ON "LineItem"("priceCatalogItemId");
+
+-- CreateIndex
+CREATE INDEX "PriceCatalogItem_organizationId_idx" ON "PriceCatalogItem"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceCatalogItem_organizationId_itemCode_key" ON "PriceCatalogItem"("organizationId", "itemCode");
+
+-- AddForeignKey
+ALTER TABLE "LineItem" ADD CONSTRAINT "LineItem_priceCatalogItemId_fkey" FOREIGN KEY ("priceCatalogItemId") REFERENCES "PriceCatalogItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceCatalogItem" ADD CONSTRAINT "PriceCatalogItem_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceCatalogItem" ADD CONSTRAINT "PriceCatalogItem_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "LineItem" ADD COLUMN "priceReferenceKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "LineItem_priceReferenceKey_idx" ON "LineItem"("priceReferenceKey");
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Estimate" ADD COLUMN     "regionalAdjustment" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "regionalLaborFactor" DECIMAL(65,30) NOT NULL DEFAULT 1,
+ADD COLUMN     "regionalMaterialFactor" DECIMAL(65,30) NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "regionId" UUID;
+
+-- CreateTable
+CREATE TABLE "Region" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "materialFactor" DECIMAL(65,30) NOT NULL,
+    "laborFactor" DECIMAL(65,30) NOT NULL,
+    "createdBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Region_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Project_regionId_idx" ON "Project"("regionId");
+
+-- CreateIndex
+CREATE INDEX "Region_organizationId_idx" ON "Region"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Region_organizationId_name_key" ON "Region"("organizationId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_regionId_fkey" FOREIGN KEY ("regionId") REFERENCES "Region"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Region" ADD CONSTRAINT "Region_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Region" ADD CONSTRAINT "Region_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Estimate" ADD COLUMN     "markupComponents" JSONB NOT NULL DEFAULT '[]';
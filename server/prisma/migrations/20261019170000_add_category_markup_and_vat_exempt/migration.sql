@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Estimate" ADD COLUMN     "categoryMarkupRates" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "vatExemptSales" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "vatableSales" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "LineItem" ADD COLUMN     "markupRate" DECIMAL(65,30),
+ADD COLUMN     "vatExempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing estimates have no exempt items, so all of their sales are vatable.
+UPDATE "Estimate" SET "vatableSales" = "subtotal" + "regionalAdjustment" + "markupAmount";
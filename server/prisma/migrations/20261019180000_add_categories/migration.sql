@@ -0,0 +1,62 @@
+-- AlterTable
+ALTER TABLE "Formula" ALTER COLUMN "category" SET DATA TYPE TEXT USING "category"::TEXT;
+
+-- AlterTable
+ALTER TABLE "LineItem" ALTER COLUMN "category" SET DATA TYPE TEXT USING "category"::TEXT;
+
+-- DropEnum
+DROP TYPE "Category";
+
+-- CreateTable
+CREATE TABLE "Category" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "parentId" UUID,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Category_organizationId_idx" ON "Category"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_idx" ON "Category"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_organizationId_code_key" ON "Category"("organizationId", "code");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Give every existing organization the nine former trade categories, keeping the old enum values
+-- as codes so existing line items and formulas still resolve.
+INSERT INTO "Category" ("id", "organizationId", "code", "name", "sortOrder", "createdBy", "updatedAt")
+SELECT gen_random_uuid(), o."id", d."code", d."name", d."sortOrder", u."id", CURRENT_TIMESTAMP
+FROM "Organization" o
+CROSS JOIN (
+    VALUES
+        ('CONCRETE_WORKS', 'Concrete Works', 1),
+        ('MASONRY_WORKS', 'Masonry Works', 2),
+        ('PAINTING_WORKS', 'Painting Works', 3),
+        ('FORMWORKS', 'Formworks', 4),
+        ('STEEL_WORKS', 'Steel Works', 5),
+        ('CARPENTRY', 'Carpentry', 6),
+        ('DOORS_AND_WINDOWS', 'Doors and Windows', 7),
+        ('WATERPROOFING', 'Waterproofing', 8),
+        ('GENERAL_REQUIREMENTS', 'General Requirements', 9)
+) AS d("code", "name", "sortOrder")
+JOIN LATERAL (
+    SELECT "id" FROM "User" WHERE "organizationId" = o."id" ORDER BY "createdAt" ASC LIMIT 1
+) u ON TRUE;
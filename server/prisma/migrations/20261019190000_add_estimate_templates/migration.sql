@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "EstimateTemplate" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "markupRate" DECIMAL(65,30) NOT NULL,
+    "markupComponents" JSONB NOT NULL DEFAULT '[]',
+    "categoryMarkupRates" JSONB NOT NULL DEFAULT '{}',
+    "vatRate" DECIMAL(65,30) NOT NULL,
+    "lineItems" JSONB NOT NULL DEFAULT '[]',
+    "formulaBindings" JSONB NOT NULL DEFAULT '[]',
+    "parameters" JSONB NOT NULL DEFAULT '[]',
+    "createdBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EstimateTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EstimateTemplate_organizationId_idx" ON "EstimateTemplate"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EstimateTemplate_organizationId_name_key" ON "EstimateTemplate"("organizationId", "name");
+
+-- AddForeignKey
+ALTER TABLE "EstimateTemplate" ADD CONSTRAINT "EstimateTemplate_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateTemplate" ADD CONSTRAINT "EstimateTemplate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
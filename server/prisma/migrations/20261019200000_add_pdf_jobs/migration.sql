@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "PdfJobStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "PdfJob" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "estimateId" UUID NOT NULL,
+    "requestedBy" UUID NOT NULL,
+    "format" TEXT NOT NULL DEFAULT 'pdf',
+    "cacheKey" TEXT NOT NULL,
+    "status" "PdfJobStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "storageKey" TEXT,
+    "fileName" TEXT,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PdfJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PdfJob_status_runAfter_idx" ON "PdfJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "PdfJob_organizationId_cacheKey_idx" ON "PdfJob"("organizationId", "cacheKey");
+
+-- CreateIndex
+CREATE INDEX "PdfJob_estimateId_idx" ON "PdfJob"("estimateId");
+
+-- AddForeignKey
+ALTER TABLE "PdfJob" ADD CONSTRAINT "PdfJob_estimateId_fkey" FOREIGN KEY ("estimateId") REFERENCES "Estimate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PdfJob" ADD CONSTRAINT "PdfJob_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PdfJob" ADD CONSTRAINT "PdfJob_requestedBy_fkey" FOREIGN KEY ("requestedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Estimate" ADD COLUMN "quotationOverrides" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "OrganizationBranding" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "logoStorageKey" TEXT,
+    "logoContentType" TEXT,
+    "primaryColor" TEXT NOT NULL DEFAULT '#111827',
+    "accentColor" TEXT NOT NULL DEFAULT '#f3f4f6',
+    "address" TEXT,
+    "tin" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "website" TEXT,
+    "sections" JSONB NOT NULL DEFAULT '{}',
+    "updatedBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrganizationBranding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationBranding_organizationId_key" ON "OrganizationBranding"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "OrganizationBranding" ADD CONSTRAINT "OrganizationBranding_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationBranding" ADD CONSTRAINT "OrganizationBranding_updatedBy_fkey" FOREIGN KEY ("updatedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
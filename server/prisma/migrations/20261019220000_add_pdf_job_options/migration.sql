@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PdfJob" ADD COLUMN "options" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "EstimateEmail" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "estimateId" UUID NOT NULL,
+    "recipients" TEXT[],
+    "subject" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "options" JSONB NOT NULL DEFAULT '{}',
+    "sentBy" UUID NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EstimateEmail_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EstimateEmail_estimateId_sentAt_idx" ON "EstimateEmail"("estimateId", "sentAt");
+
+-- AddForeignKey
+ALTER TABLE "EstimateEmail" ADD CONSTRAINT "EstimateEmail_estimateId_fkey" FOREIGN KEY ("estimateId") REFERENCES "Estimate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateEmail" ADD CONSTRAINT "EstimateEmail_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateEmail" ADD CONSTRAINT "EstimateEmail_sentBy_fkey" FOREIGN KEY ("sentBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "EstimateClientDecision" AS ENUM ('ACCEPTED', 'DECLINED');
+
+-- AlterTable
+ALTER TABLE "Estimate" ADD COLUMN "clientDecision" "EstimateClientDecision",
+ADD COLUMN "clientDecisionAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "EstimateShareLink" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "estimateId" UUID NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "options" JSONB NOT NULL DEFAULT '{}',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "decision" "EstimateClientDecision",
+    "respondentName" TEXT,
+    "responseComment" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EstimateShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EstimateShareLink_tokenHash_key" ON "EstimateShareLink"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "EstimateShareLink_estimateId_idx" ON "EstimateShareLink"("estimateId");
+
+-- AddForeignKey
+ALTER TABLE "EstimateShareLink" ADD CONSTRAINT "EstimateShareLink_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateShareLink" ADD CONSTRAINT "EstimateShareLink_estimateId_fkey" FOREIGN KEY ("estimateId") REFERENCES "Estimate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateShareLink" ADD CONSTRAINT "EstimateShareLink_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
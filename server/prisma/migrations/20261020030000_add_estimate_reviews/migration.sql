@@ -0,0 +1,53 @@
+-- AlterEnum
+ALTER TYPE "EstimateStatus" ADD VALUE 'FOR_REVIEW' BEFORE 'FINAL';
+
+-- CreateEnum
+CREATE TYPE "EstimateReviewAction" AS ENUM ('SUBMITTED', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "EstimateApprovalPolicy" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "requireReview" BOOLEAN NOT NULL DEFAULT false,
+    "adminApprovalThreshold" DECIMAL(65,30),
+    "updatedBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EstimateApprovalPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EstimateReview" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "estimateId" UUID NOT NULL,
+    "action" "EstimateReviewAction" NOT NULL,
+    "comment" TEXT NOT NULL DEFAULT '',
+    "totalAmount" DECIMAL(65,30) NOT NULL,
+    "performedBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EstimateReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EstimateApprovalPolicy_organizationId_key" ON "EstimateApprovalPolicy"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "EstimateReview_estimateId_createdAt_idx" ON "EstimateReview"("estimateId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EstimateApprovalPolicy" ADD CONSTRAINT "EstimateApprovalPolicy_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateApprovalPolicy" ADD CONSTRAINT "EstimateApprovalPolicy_updatedBy_fkey" FOREIGN KEY ("updatedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateReview" ADD CONSTRAINT "EstimateReview_estimateId_fkey" FOREIGN KEY ("estimateId") REFERENCES "Estimate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateReview" ADD CONSTRAINT "EstimateReview_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateReview" ADD CONSTRAINT "EstimateReview_performedBy_fkey" FOREIGN KEY ("performedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "EstimateApprovalPolicy" ADD COLUMN "blockUnresolvedComments" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "EstimateComment" (
+    "id" UUID NOT NULL,
+    "organizationId" UUID NOT NULL,
+    "estimateId" UUID NOT NULL,
+    "lineItemId" UUID,
+    "parentId" UUID,
+    "body" TEXT NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" UUID,
+    "createdBy" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EstimateComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EstimateCommentMention" (
+    "commentId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+
+    CONSTRAINT "EstimateCommentMention_pkey" PRIMARY KEY ("commentId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "EstimateComment_estimateId_createdAt_idx" ON "EstimateComment"("estimateId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EstimateComment_parentId_idx" ON "EstimateComment"("parentId");
+
+-- CreateIndex
+CREATE INDEX "EstimateCommentMention_userId_idx" ON "EstimateCommentMention"("userId");
+
+-- AddForeignKey
+ALTER TABLE "EstimateComment" ADD CONSTRAINT "EstimateComment_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateComment" ADD CONSTRAINT "EstimateComment_estimateId_fkey" FOREIGN KEY ("estimateId") REFERENCES "Estimate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateComment" ADD CONSTRAINT "EstimateComment_lineItemId_fkey" FOREIGN KEY ("lineItemId") REFERENCES "LineItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateComment" ADD CONSTRAINT "EstimateComment_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateComment" ADD CONSTRAINT "EstimateComment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "EstimateComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateComment" ADD CONSTRAINT "EstimateComment_resolvedBy_fkey" FOREIGN KEY ("resolvedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateCommentMention" ADD CONSTRAINT "EstimateCommentMention_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "EstimateComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateCommentMention" ADD CONSTRAINT "EstimateCommentMention_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
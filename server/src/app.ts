@@ -3,14 +3,24 @@ import express from "express";
 import helmet from "helmet";
 import { v4 as uuidv4 } from "uuid";
 import type { Application, NextFunction, Request, Response } from "express";
+import { approvalPolicyRouter } from "./routes/approval-policy.routes";
 import { auditRouter } from "./routes/audit.routes";
 import { authRouter } from "./routes/auth.routes";
+import { brandingRouter } from "./routes/branding.routes";
+import { categoriesRouter } from "./routes/categories.routes";
+import { clientsRouter } from "./routes/clients.routes";
+import { emailTemplatesRouter } from "./routes/email-templates.routes";
+import { estimateTemplatesRouter } from "./routes/estimate-templates.routes";
 import { estimatesRouter } from "./routes/estimates.routes";
 import { formulasRouter } from "./routes/formulas.routes";
 import { lineItemsRouter } from "./routes/line-items.routes";
+import { lookupTablesRouter } from "./routes/lookup-tables.routes";
 import { pdfJobsRouter } from "./routes/pdf-jobs.routes";
+import { priceCatalogRouter } from "./routes/price-catalog.routes";
 import { projectsRouter } from "./routes/projects.routes";
+import { regionsRouter } from "./routes/regions.routes";
 import { setupRouter } from "./routes/setup.routes";
+import { sharedEstimatesRouter } from "./routes/shared-estimates.routes";
 import { usersRouter } from "./routes/users.routes";
 
 type RequestWithId = Request & { requestId?: string };
@@ -64,14 +74,24 @@ export function createApp(): Application {
     res.status(200).json({ status: "ok" });
   });
 
+  app.use("/approval-policy", approvalPolicyRouter);
   app.use("/auth", authRouter);
+  app.use("/branding", brandingRouter);
   app.use("/audit", auditRouter);
+  app.use("/categories", categoriesRouter);
+  app.use("/clients", clientsRouter);
+  app.use("/email-templates", emailTemplatesRouter);
+  app.use("/estimate-templates", estimateTemplatesRouter);
   app.use("/estimates", estimatesRouter);
   app.use("/formulas", formulasRouter);
   app.use("/line-items", lineItemsRouter);
+  app.use("/lookup-tables", lookupTablesRouter);
   app.use("/pdf-jobs", pdfJobsRouter);
+  app.use("/price-catalog", priceCatalogRouter);
   app.use("/projects", projectsRouter);
+  app.use("/regions", regionsRouter);
   app.use("/setup", setupRouter);
+  app.use("/shared-estimates", sharedEstimatesRouter);
   app.use("/users", usersRouter);
 
   app.use((req: RequestWithId, res: Response) => {
@@ -0,0 +1,48 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type { UpdateApprovalPolicyBodyInput } from "../schemas/approval-policy.schemas";
+import { getApprovalPolicy, updateApprovalPolicy } from "../services/approval-policy.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getApprovalPolicyController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await getApprovalPolicy({ organizationId: req.organizationId });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateApprovalPolicyController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as UpdateApprovalPolicyBodyInput;
+    const result = await updateApprovalPolicy({
+      organizationId: req.organizationId,
+      requireReview: body.requireReview,
+      adminApprovalThreshold: body.adminApprovalThreshold,
+      blockUnresolvedComments: body.blockUnresolvedComments,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,197 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  PreviewQuotationBodyInput,
+  UpdateBrandingBodyInput,
+  UpdateEstimateQuotationBodyInput,
+} from "../schemas/branding.schemas";
+import type { EstimateIdParamInput } from "../schemas/estimate.schemas";
+import {
+  deleteBrandingLogo,
+  getBrandingLogo,
+  getEstimateQuotation,
+  getOrganizationBranding,
+  updateEstimateQuotation,
+  updateOrganizationBranding,
+  uploadBrandingLogo,
+} from "../services/branding.service";
+import { renderQuotationPreviewHtml } from "../services/pdf.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getBrandingController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await getOrganizationBranding({ organizationId: req.organizationId });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateBrandingController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as UpdateBrandingBodyInput;
+    const result = await updateOrganizationBranding({
+      organizationId: req.organizationId,
+      ...body,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function uploadBrandingLogoController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    if (!req.file) {
+      throw new AppError(400, "UPLOAD_MISSING", "A file is required");
+    }
+
+    const result = await uploadBrandingLogo({
+      organizationId: req.organizationId,
+      fileName: req.file.originalname,
+      buffer: req.file.buffer,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteBrandingLogoController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await deleteBrandingLogo({
+      organizationId: req.organizationId,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getBrandingLogoController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await getBrandingLogo({ organizationId: req.organizationId });
+
+    res.setHeader("Content-Type", result.contentType);
+    res.setHeader("Cache-Control", "private, no-cache");
+    result.openStream().pipe(res);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function previewQuotationController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as PreviewQuotationBodyInput;
+    const html = await renderQuotationPreviewHtml({
+      organizationId: req.organizationId,
+      ...body,
+    });
+
+    res.status(200).json({ data: { html } });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getEstimateQuotationController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const result = await getEstimateQuotation({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateEstimateQuotationController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const body = req.body as UpdateEstimateQuotationBodyInput;
+    const result = await updateEstimateQuotation({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      overrides: body.overrides,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
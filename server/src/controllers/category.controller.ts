@@ -0,0 +1,134 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  CreateCategoryBodyInput,
+  CategoryIdParamInput,
+  UpdateCategoryBodyInput,
+} from "../schemas/category.schemas";
+import {
+  createCategory,
+  deleteCategory,
+  getCategoryById,
+  getCategories,
+  updateCategory,
+} from "../services/category.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getCategoriesController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await getCategories({
+      organizationId: req.organizationId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getCategoryByIdController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as CategoryIdParamInput;
+    const result = await getCategoryById({
+      organizationId: req.organizationId,
+      categoryId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createCategoryController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as CreateCategoryBodyInput;
+    const result = await createCategory({
+      organizationId: req.organizationId,
+      code: body.code,
+      name: body.name,
+      parentId: body.parentId,
+      sortOrder: body.sortOrder,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateCategoryController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as CategoryIdParamInput;
+    const body = req.body as UpdateCategoryBodyInput;
+    const result = await updateCategory({
+      organizationId: req.organizationId,
+      categoryId: params.id,
+      code: body.code,
+      name: body.name,
+      parentId: body.parentId,
+      sortOrder: body.sortOrder,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteCategoryController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as CategoryIdParamInput;
+    const result = await deleteCategory({
+      organizationId: req.organizationId,
+      categoryId: params.id,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
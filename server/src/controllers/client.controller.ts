@@ -0,0 +1,133 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  ClientIdParamInput,
+  CreateClientBodyInput,
+  GetClientsQueryInput,
+  UpdateClientBodyInput,
+} from "../schemas/client.schemas";
+import {
+  createClient,
+  deleteClient,
+  getClientById,
+  getClients,
+  updateClient,
+} from "../services/client.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getClientsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const query = req.query as unknown as GetClientsQueryInput;
+    const result = await getClients({
+      organizationId: req.organizationId,
+      page: query.page,
+      pageSize: query.pageSize,
+      search: query.search,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createClientController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as CreateClientBodyInput;
+    const result = await createClient({
+      organizationId: req.organizationId,
+      ...body,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getClientByIdController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as ClientIdParamInput;
+    const result = await getClientById({
+      organizationId: req.organizationId,
+      clientId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateClientController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as ClientIdParamInput;
+    const body = req.body as UpdateClientBodyInput;
+    const result = await updateClient({
+      organizationId: req.organizationId,
+      clientId: params.id,
+      ...body,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteClientController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as ClientIdParamInput;
+    const result = await deleteClient({
+      organizationId: req.organizationId,
+      clientId: params.id,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type { CompareEstimatesParamInput } from "../schemas/comparison.schemas";
+import { compareEstimates } from "../services/comparison.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function compareEstimatesController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as CompareEstimatesParamInput;
+
+    const result = await compareEstimates({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      otherEstimateId: params.otherId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
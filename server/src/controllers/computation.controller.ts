@@ -0,0 +1,149 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  ApplyFormulaUpgradesBodyInput,
+  ComputationGroupParamInput,
+  ComputeIntoEstimateBodyInput,
+  EstimateComputationsParamInput,
+  GetOutdatedComputationsQueryInput,
+  RecomputeComputationGroupBodyInput,
+} from "../schemas/computation.schemas";
+import {
+  applyFormulaUpgrades,
+  computeIntoEstimate,
+  deleteComputationGroup,
+  getOutdatedComputations,
+  recomputeComputationGroup,
+} from "../services/computation.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function computeIntoEstimateController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateComputationsParamInput;
+    const body = req.body as ComputeIntoEstimateBodyInput;
+
+    const result = await computeIntoEstimate({
+      organizationId: req.organizationId,
+      estimateId: params.estimateId,
+      formulaId: body.formulaId,
+      formulaName: body.formulaName,
+      inputValues: body.inputValues,
+      inputUnits: body.inputUnits,
+      outputs: body.outputs,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function recomputeComputationGroupController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as ComputationGroupParamInput;
+    const body = req.body as RecomputeComputationGroupBodyInput;
+
+    const result = await recomputeComputationGroup({
+      organizationId: req.organizationId,
+      estimateId: params.estimateId,
+      groupId: params.groupId,
+      formulaId: body.formulaId,
+      inputValues: body.inputValues,
+      inputUnits: body.inputUnits,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteComputationGroupController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as ComputationGroupParamInput;
+
+    const result = await deleteComputationGroup({
+      organizationId: req.organizationId,
+      estimateId: params.estimateId,
+      groupId: params.groupId,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getOutdatedComputationsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const query = req.query as unknown as GetOutdatedComputationsQueryInput;
+
+    const result = await getOutdatedComputations({
+      organizationId: req.organizationId,
+      formulaId: query.formulaId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function applyFormulaUpgradesController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as ApplyFormulaUpgradesBodyInput;
+
+    const result = await applyFormulaUpgrades({
+      organizationId: req.organizationId,
+      lineItemIds: body.lineItemIds,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,104 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  EmailTemplateKeyParamInput,
+  PreviewEmailTemplateBodyInput,
+  UpdateEmailTemplateBodyInput,
+} from "../schemas/email-template.schemas";
+import {
+  getEmailTemplates,
+  previewEmailTemplate,
+  resetEmailTemplate,
+  updateEmailTemplate,
+} from "../services/email-template.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getEmailTemplatesController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await getEmailTemplates({ organizationId: req.organizationId });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateEmailTemplateController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EmailTemplateKeyParamInput;
+    const body = req.body as UpdateEmailTemplateBodyInput;
+    const result = await updateEmailTemplate({
+      organizationId: req.organizationId,
+      key: params.key,
+      ...body,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resetEmailTemplateController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EmailTemplateKeyParamInput;
+    const result = await resetEmailTemplate({
+      organizationId: req.organizationId,
+      key: params.key,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function previewEmailTemplateController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EmailTemplateKeyParamInput;
+    const body = req.body as PreviewEmailTemplateBodyInput;
+    const result = await previewEmailTemplate({
+      organizationId: req.organizationId,
+      key: params.key,
+      ...body,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
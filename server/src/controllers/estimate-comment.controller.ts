@@ -0,0 +1,192 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  CreateEstimateCommentBodyInput,
+  EstimateCommentParamInput,
+  UpdateEstimateCommentBodyInput,
+} from "../schemas/estimate-comment.schemas";
+import type { EstimateIdParamInput } from "../schemas/estimate.schemas";
+import {
+  createEstimateComment,
+  deleteEstimateComment,
+  getCommentParticipants,
+  getEstimateComments,
+  resolveEstimateComment,
+  unresolveEstimateComment,
+  updateEstimateComment,
+} from "../services/estimate-comment.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getEstimateCommentsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const result = await getEstimateComments({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getCommentParticipantsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const result = await getCommentParticipants({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createEstimateCommentController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const body = req.body as CreateEstimateCommentBodyInput;
+    const result = await createEstimateComment({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      body: body.body,
+      lineItemId: body.lineItemId,
+      parentId: body.parentId,
+      mentionUserIds: body.mentionUserIds,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateEstimateCommentController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateCommentParamInput;
+    const body = req.body as UpdateEstimateCommentBodyInput;
+    const result = await updateEstimateComment({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      commentId: params.commentId,
+      body: body.body,
+      mentionUserIds: body.mentionUserIds,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteEstimateCommentController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateCommentParamInput;
+    const result = await deleteEstimateComment({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      commentId: params.commentId,
+      performedBy: req.auth.userId,
+      performedByRole: req.auth.role,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resolveEstimateCommentController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateCommentParamInput;
+    const result = await resolveEstimateComment({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      commentId: params.commentId,
+      performedBy: req.auth.userId,
+      performedByRole: req.auth.role,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function unresolveEstimateCommentController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateCommentParamInput;
+    const result = await unresolveEstimateComment({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      commentId: params.commentId,
+      performedBy: req.auth.userId,
+      performedByRole: req.auth.role,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
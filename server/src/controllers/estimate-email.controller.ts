@@ -0,0 +1,55 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type { SendEstimateEmailBodyInput } from "../schemas/estimate-email.schemas";
+import type { EstimateIdParamInput } from "../schemas/estimate.schemas";
+import { getEstimateEmails, sendEstimateEmail } from "../services/estimate-email.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getEstimateEmailsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const result = await getEstimateEmails({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function sendEstimateEmailController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const body = req.body as SendEstimateEmailBodyInput;
+    const result = await sendEstimateEmail({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      recipients: body.recipients,
+      message: body.message,
+      options: body.options,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,113 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type { EstimateIdParamInput } from "../schemas/estimate.schemas";
+import type {
+  ReviewEstimateBodyInput,
+  SubmitEstimateReviewBodyInput,
+} from "../schemas/estimate-review.schemas";
+import {
+  approveEstimate,
+  getEstimateReviews,
+  rejectEstimate,
+  submitEstimateForReview,
+} from "../services/estimate-review.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getEstimateReviewsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const result = await getEstimateReviews({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function submitEstimateForReviewController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const body = req.body as SubmitEstimateReviewBodyInput;
+    const result = await submitEstimateForReview({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      comment: body.comment,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function approveEstimateController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const body = req.body as ReviewEstimateBodyInput;
+    const result = await approveEstimate({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      comment: body.comment,
+      performedBy: req.auth.userId,
+      performedByRole: req.auth.role,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function rejectEstimateController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const body = req.body as ReviewEstimateBodyInput;
+    const result = await rejectEstimate({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      comment: body.comment,
+      performedBy: req.auth.userId,
+      performedByRole: req.auth.role,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
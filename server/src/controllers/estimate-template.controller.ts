@@ -0,0 +1,133 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  CreateEstimateTemplateBodyInput,
+  EstimateTemplateIdParamInput,
+  UpdateEstimateTemplateBodyInput,
+} from "../schemas/estimate-template.schemas";
+import {
+  createEstimateTemplate,
+  deleteEstimateTemplate,
+  getEstimateTemplateById,
+  getEstimateTemplates,
+  updateEstimateTemplate,
+} from "../services/estimate-template.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getEstimateTemplatesController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await getEstimateTemplates({
+      organizationId: req.organizationId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getEstimateTemplateByIdController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateTemplateIdParamInput;
+    const result = await getEstimateTemplateById({
+      organizationId: req.organizationId,
+      templateId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createEstimateTemplateController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as CreateEstimateTemplateBodyInput;
+    const result = await createEstimateTemplate({
+      organizationId: req.organizationId,
+      estimateId: body.estimateId,
+      name: body.name,
+      description: body.description,
+      parameters: body.parameters,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateEstimateTemplateController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateTemplateIdParamInput;
+    const body = req.body as UpdateEstimateTemplateBodyInput;
+    const result = await updateEstimateTemplate({
+      organizationId: req.organizationId,
+      templateId: params.id,
+      name: body.name,
+      description: body.description,
+      parameters: body.parameters,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteEstimateTemplateController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateTemplateIdParamInput;
+    const result = await deleteEstimateTemplate({
+      organizationId: req.organizationId,
+      templateId: params.id,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -7,6 +7,7 @@ import type {
   ProjectEstimatesParamInput,
   UpdateEstimateBodyInput,
 } from "../schemas/estimate.schemas";
+import { createProjectEstimateFromTemplate } from "../services/estimate-template.service";
 import {
   archiveEstimate,
   createProjectEstimate,
@@ -59,14 +60,29 @@ export async function createProjectEstimateController(
     const params = req.params as unknown as ProjectEstimatesParamInput;
     const body = req.body as CreateProjectEstimateBodyInput;
 
-    const result = await createProjectEstimate({
-      organizationId: req.organizationId,
-      projectId: params.projectId,
-      label: body.label,
-      markupRate: body.markupRate,
-      vatRate: body.vatRate,
-      performedBy: req.auth.userId,
-    });
+    const result = body.templateId
+      ? await createProjectEstimateFromTemplate({
+          organizationId: req.organizationId,
+          projectId: params.projectId,
+          templateId: body.templateId,
+          templateParameters: body.templateParameters,
+          label: body.label,
+          markupRate: body.markupRate,
+          markupComponents: body.markupComponents,
+          categoryMarkupRates: body.categoryMarkupRates,
+          vatRate: body.vatRate,
+          performedBy: req.auth.userId,
+        })
+      : await createProjectEstimate({
+          organizationId: req.organizationId,
+          projectId: params.projectId,
+          label: body.label,
+          markupRate: body.markupRate ?? 0,
+          markupComponents: body.markupComponents,
+          categoryMarkupRates: body.categoryMarkupRates,
+          vatRate: body.vatRate,
+          performedBy: req.auth.userId,
+        });
 
     res.status(201).json({ data: result });
   } catch (error) {
@@ -113,6 +129,8 @@ export async function updateEstimateController(
       organizationId: req.organizationId,
       estimateId: params.id,
       markupRate: body.markupRate,
+      markupComponents: body.markupComponents,
+      categoryMarkupRates: body.categoryMarkupRates,
       vatRate: body.vatRate,
       performedBy: req.auth.userId,
     });
@@ -161,6 +179,7 @@ export async function finalizeEstimateController(
       organizationId: req.organizationId,
       estimateId: params.id,
       performedBy: req.auth.userId,
+      performedByRole: req.auth.role,
     });
 
     res.status(200).json({ data: result });
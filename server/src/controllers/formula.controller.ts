@@ -12,6 +12,7 @@ import {
   deactivateFormula,
   getFormulaById,
   getFormulas,
+  getFormulaUnits,
   getFormulaVersions,
   testFormula,
   updateFormula,
@@ -104,6 +105,7 @@ export async function createFormulaController(
       inputs: body.inputs,
       expressions: body.expressions,
       outputs: body.outputs,
+      dependencies: body.dependencies,
       performedBy: req.auth.userId,
     });
 
@@ -134,6 +136,7 @@ export async function updateFormulaController(
       inputs: body.inputs,
       expressions: body.expressions,
       outputs: body.outputs,
+      dependencies: body.dependencies,
       performedBy: req.auth.userId,
     });
 
@@ -182,6 +185,7 @@ export async function testFormulaController(
       organizationId: req.organizationId,
       formulaId: params.id,
       inputValues: body.inputValues,
+      inputUnits: body.inputUnits,
     });
 
     res.status(200).json({ data: result });
@@ -189,3 +193,19 @@ export async function testFormulaController(
     next(error);
   }
 }
+
+export async function getFormulaUnitsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    res.status(200).json({ data: getFormulaUnits() });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -4,6 +4,7 @@ import type {
   ComputeLineItemBodyInput,
   CreateEstimateLineItemBodyInput,
   EstimateLineItemsParamInput,
+  ImportLineItemsBodyInput,
   LineItemIdParamInput,
   OverrideLineItemBodyInput,
   UpdateLineItemBodyInput,
@@ -15,6 +16,7 @@ import {
   overrideLineItem,
   updateLineItem,
 } from "../services/line-item.service";
+import { importEstimateLineItems } from "../services/line-item-import.service";
 import type { RequestWithAuth } from "../types/auth";
 
 export async function createEstimateLineItemController(
@@ -39,6 +41,10 @@ export async function createEstimateLineItemController(
       unit: body.unit,
       unitMaterialCost: body.unitMaterialCost,
       unitLaborCost: body.unitLaborCost,
+      priceCatalogItemId: body.priceCatalogItemId,
+      priceReferenceKey: body.priceReferenceKey,
+      markupRate: body.markupRate,
+      vatExempt: body.vatExempt,
       performedBy: req.auth.userId,
     });
 
@@ -48,6 +54,39 @@ export async function createEstimateLineItemController(
   }
 }
 
+export async function importEstimateLineItemsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    if (!req.file) {
+      throw new AppError(400, "UPLOAD_MISSING", "A file is required");
+    }
+
+    const params = req.params as unknown as EstimateLineItemsParamInput;
+    const body = req.body as ImportLineItemsBodyInput;
+
+    const result = await importEstimateLineItems({
+      organizationId: req.organizationId,
+      estimateId: params.estimateId,
+      file: req.file,
+      mapping: body.mapping,
+      sheet: body.sheet,
+      dryRun: body.dryRun,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(result.importedCount > 0 ? 201 : 200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function updateLineItemController(
   req: RequestWithAuth,
   res: Response,
@@ -70,6 +109,10 @@ export async function updateLineItemController(
       unit: body.unit,
       unitMaterialCost: body.unitMaterialCost,
       unitLaborCost: body.unitLaborCost,
+      priceCatalogItemId: body.priceCatalogItemId,
+      priceReferenceKey: body.priceReferenceKey,
+      markupRate: body.markupRate,
+      vatExempt: body.vatExempt,
       performedBy: req.auth.userId,
     });
 
@@ -150,6 +193,7 @@ export async function computeLineItemController(
       formulaName: body.formulaName,
       outputVariable: body.outputVariable,
       inputValues: body.inputValues,
+      inputUnits: body.inputUnits,
       performedBy: req.auth.userId,
     });
 
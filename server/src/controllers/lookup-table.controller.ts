@@ -0,0 +1,141 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  CreateLookupTableBodyInput,
+  GetLookupTablesQueryInput,
+  LookupTableIdParamInput,
+  UpdateLookupTableBodyInput,
+} from "../schemas/lookup-table.schemas";
+import {
+  createLookupTable,
+  deleteLookupTable,
+  getLookupTableById,
+  getLookupTables,
+  updateLookupTable,
+} from "../services/lookup-table.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getLookupTablesController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const query = req.query as unknown as GetLookupTablesQueryInput;
+    const result = await getLookupTables({
+      organizationId: req.organizationId,
+      page: query.page,
+      pageSize: query.pageSize,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getLookupTableByIdController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as LookupTableIdParamInput;
+    const result = await getLookupTableById({
+      organizationId: req.organizationId,
+      lookupTableId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createLookupTableController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as CreateLookupTableBodyInput;
+    const result = await createLookupTable({
+      organizationId: req.organizationId,
+      name: body.name,
+      description: body.description,
+      keyUnit: body.keyUnit,
+      valueUnit: body.valueUnit,
+      matchMode: body.matchMode,
+      entries: body.entries,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateLookupTableController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as LookupTableIdParamInput;
+    const body = req.body as UpdateLookupTableBodyInput;
+    const result = await updateLookupTable({
+      organizationId: req.organizationId,
+      lookupTableId: params.id,
+      description: body.description,
+      keyUnit: body.keyUnit,
+      valueUnit: body.valueUnit,
+      matchMode: body.matchMode,
+      entries: body.entries,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteLookupTableController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as LookupTableIdParamInput;
+    const result = await deleteLookupTable({
+      organizationId: req.organizationId,
+      lookupTableId: params.id,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,11 +1,11 @@
-import { createReadStream } from "fs";
 import type { NextFunction, Response } from "express";
 import { AppError } from "../errors/app-error";
 import type { EstimateIdParamInput } from "../schemas/estimate.schemas";
-import type { PdfJobIdParamInput } from "../schemas/pdf.schemas";
+import type { PdfJobIdParamInput, RequestEstimatePdfBodyInput } from "../schemas/pdf.schemas";
 import {
   enqueueEstimatePdfJob,
   getPdfJobDownload,
+  getPdfJobMetrics,
   getPdfJobStatus,
 } from "../services/pdf.service";
 import type { RequestWithAuth } from "../types/auth";
@@ -21,10 +21,36 @@ export async function requestEstimatePdfController(
     }
 
     const params = req.params as unknown as EstimateIdParamInput;
+    const body = req.body as RequestEstimatePdfBodyInput;
     const result = await enqueueEstimatePdfJob({
       organizationId: req.organizationId,
       estimateId: params.id,
       requestedBy: req.auth.userId,
+      options: body,
+    });
+
+    res.status(202).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function requestEstimateXlsxController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const result = await enqueueEstimatePdfJob({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      requestedBy: req.auth.userId,
+      format: "xlsx",
     });
 
     res.status(202).json({ data: result });
@@ -44,7 +70,7 @@ export async function getPdfJobStatusController(
     }
 
     const params = req.params as unknown as PdfJobIdParamInput;
-    const result = getPdfJobStatus({
+    const result = await getPdfJobStatus({
       organizationId: req.organizationId,
       jobId: params.jobId,
     });
@@ -71,9 +97,27 @@ export async function downloadPdfJobController(
       jobId: params.jobId,
     });
 
-    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Type", result.contentType);
     res.setHeader("Content-Disposition", `attachment; filename="${result.fileName}"`);
-    createReadStream(result.filePath).pipe(res);
+    result.openStream().pipe(res);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getPdfJobMetricsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await getPdfJobMetrics({ organizationId: req.organizationId });
+
+    res.status(200).json({ data: result });
   } catch (error) {
     next(error);
   }
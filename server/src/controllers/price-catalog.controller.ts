@@ -0,0 +1,166 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  CreatePriceCatalogItemBodyInput,
+  GetPriceCatalogItemsQueryInput,
+  PriceCatalogItemIdParamInput,
+  UpdatePriceCatalogItemBodyInput,
+} from "../schemas/price-catalog.schemas";
+import {
+  createPriceCatalogItem,
+  deletePriceCatalogItem,
+  getPriceCatalogItemById,
+  getPriceCatalogItems,
+  getStalePriceLineItems,
+  updatePriceCatalogItem,
+} from "../services/price-catalog.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getPriceCatalogItemsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const query = req.query as unknown as GetPriceCatalogItemsQueryInput;
+    const result = await getPriceCatalogItems({
+      organizationId: req.organizationId,
+      page: query.page,
+      pageSize: query.pageSize,
+      search: query.search,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getStalePriceLineItemsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await getStalePriceLineItems({
+      organizationId: req.organizationId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getPriceCatalogItemByIdController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as PriceCatalogItemIdParamInput;
+    const result = await getPriceCatalogItemById({
+      organizationId: req.organizationId,
+      priceCatalogItemId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createPriceCatalogItemController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as CreatePriceCatalogItemBodyInput;
+    const result = await createPriceCatalogItem({
+      organizationId: req.organizationId,
+      itemCode: body.itemCode,
+      description: body.description,
+      unit: body.unit,
+      unitMaterialCost: body.unitMaterialCost,
+      unitLaborCost: body.unitLaborCost,
+      supplier: body.supplier,
+      effectiveDate: body.effectiveDate,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updatePriceCatalogItemController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as PriceCatalogItemIdParamInput;
+    const body = req.body as UpdatePriceCatalogItemBodyInput;
+    const result = await updatePriceCatalogItem({
+      organizationId: req.organizationId,
+      priceCatalogItemId: params.id,
+      itemCode: body.itemCode,
+      description: body.description,
+      unit: body.unit,
+      unitMaterialCost: body.unitMaterialCost,
+      unitLaborCost: body.unitLaborCost,
+      supplier: body.supplier,
+      effectiveDate: body.effectiveDate,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deletePriceCatalogItemController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as PriceCatalogItemIdParamInput;
+    const result = await deletePriceCatalogItem({
+      organizationId: req.organizationId,
+      priceCatalogItemId: params.id,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
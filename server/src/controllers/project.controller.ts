@@ -31,6 +31,7 @@ export async function getProjectsController(
       page: query.page,
       pageSize: query.pageSize,
       status: query.status,
+      clientId: query.clientId,
     });
 
     res.status(200).json({ data: result });
@@ -55,6 +56,8 @@ export async function createProjectController(
       name: body.name,
       location: body.location,
       projectType: body.projectType,
+      regionId: body.regionId,
+      clientId: body.clientId,
       performedBy: req.auth.userId,
     });
 
@@ -105,6 +108,8 @@ export async function updateProjectController(
       name: body.name,
       location: body.location,
       projectType: body.projectType,
+      regionId: body.regionId,
+      clientId: body.clientId,
       performedBy: req.auth.userId,
     });
 
@@ -0,0 +1,132 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  CreateRegionBodyInput,
+  RegionIdParamInput,
+  UpdateRegionBodyInput,
+} from "../schemas/region.schemas";
+import {
+  createRegion,
+  deleteRegion,
+  getRegionById,
+  getRegions,
+  updateRegion,
+} from "../services/region.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getRegionsController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const result = await getRegions({
+      organizationId: req.organizationId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getRegionByIdController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as RegionIdParamInput;
+    const result = await getRegionById({
+      organizationId: req.organizationId,
+      regionId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createRegionController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as CreateRegionBodyInput;
+    const result = await createRegion({
+      organizationId: req.organizationId,
+      name: body.name,
+      materialFactor: body.materialFactor,
+      laborFactor: body.laborFactor,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateRegionController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as RegionIdParamInput;
+    const body = req.body as UpdateRegionBodyInput;
+    const result = await updateRegion({
+      organizationId: req.organizationId,
+      regionId: params.id,
+      name: body.name,
+      materialFactor: body.materialFactor,
+      laborFactor: body.laborFactor,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteRegionController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as RegionIdParamInput;
+    const result = await deleteRegion({
+      organizationId: req.organizationId,
+      regionId: params.id,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,60 @@
+import type { NextFunction, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type {
+  ApplyRepricingBodyInput,
+  RepriceEstimatesBodyInput,
+} from "../schemas/repricing.schemas";
+import { applyRepricing, previewRepricing } from "../services/repricing.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function previewRepricingController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as RepriceEstimatesBodyInput;
+
+    const result = await previewRepricing({
+      organizationId: req.organizationId,
+      source: body.source,
+      prices: body.prices,
+      estimateIds: body.estimateIds,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function applyRepricingController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const body = req.body as ApplyRepricingBodyInput;
+
+    const result = await applyRepricing({
+      organizationId: req.organizationId,
+      source: body.source,
+      prices: body.prices,
+      estimateIds: body.estimateIds,
+      expectedChanges: body.expectedChanges,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
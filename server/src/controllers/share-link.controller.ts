@@ -0,0 +1,124 @@
+import type { NextFunction, Request, Response } from "express";
+import { AppError } from "../errors/app-error";
+import type { EstimateIdParamInput } from "../schemas/estimate.schemas";
+import type {
+  CreateShareLinkBodyInput,
+  RespondToSharedEstimateBodyInput,
+  ShareLinkParamInput,
+  ViewSharedEstimateBodyInput,
+} from "../schemas/share-link.schemas";
+import {
+  createShareLink,
+  getShareLinks,
+  respondToSharedEstimate,
+  revokeShareLink,
+  viewSharedEstimate,
+} from "../services/share-link.service";
+import type { RequestWithAuth } from "../types/auth";
+
+export async function getShareLinksController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const result = await getShareLinks({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createShareLinkController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as EstimateIdParamInput;
+    const body = req.body as CreateShareLinkBodyInput;
+    const result = await createShareLink({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      expiresInDays: body.expiresInDays,
+      options: body.options,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeShareLinkController(
+  req: RequestWithAuth,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.organizationId || !req.auth?.userId) {
+      throw new AppError(401, "AUTH_UNAUTHORIZED", "Authentication required");
+    }
+
+    const params = req.params as unknown as ShareLinkParamInput;
+    const result = await revokeShareLink({
+      organizationId: req.organizationId,
+      estimateId: params.id,
+      linkId: params.linkId,
+      performedBy: req.auth.userId,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function viewSharedEstimateController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = req.body as ViewSharedEstimateBodyInput;
+    const result = await viewSharedEstimate({ token: body.token });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function respondToSharedEstimateController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = req.body as RespondToSharedEstimateBodyInput;
+    const result = await respondToSharedEstimate({
+      token: body.token,
+      decision: body.decision,
+      name: body.name,
+      comment: body.comment,
+    });
+
+    res.status(200).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,103 @@
+import type {
+  FormulaDefinition,
+  FormulaDependencyLookup,
+  ResolvedFormulaDependencies,
+} from "./types";
+
+export class FormulaDependencyError extends Error {
+  code: string;
+  details?: unknown;
+
+  constructor(code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = "FormulaDependencyError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export function normalizeFormulaName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function resolveDependencyTree(
+  formula: FormulaDefinition,
+  lookup: FormulaDependencyLookup,
+  path: string[],
+): ResolvedFormulaDependencies {
+  const resolved: ResolvedFormulaDependencies = {};
+
+  for (const dependency of formula.dependencies ?? []) {
+    const entry = lookup({ formulaName: dependency.formulaName, version: dependency.version });
+    if (!entry) {
+      throw new FormulaDependencyError(
+        "FORMULA_DEPENDENCY_NOT_FOUND",
+        dependency.version !== undefined
+          ? `Dependency ${dependency.alias} references unknown formula ${dependency.formulaName} v${dependency.version}`
+          : `Dependency ${dependency.alias} references unknown formula ${dependency.formulaName}`,
+      );
+    }
+
+    const normalizedName = normalizeFormulaName(entry.name);
+    if (path.includes(normalizedName)) {
+      throw new FormulaDependencyError(
+        "FORMULA_DEPENDENCY_CYCLE",
+        `Formula dependency cycle detected: ${[...path, normalizedName].join(" -> ")}`,
+        { path: [...path, normalizedName] },
+      );
+    }
+
+    resolved[dependency.alias] = {
+      ...entry,
+      alias: dependency.alias,
+      inputBindings: dependency.inputBindings,
+      dependencies: resolveDependencyTree(entry.definition, lookup, [...path, normalizedName]),
+    };
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolves the declared dependencies of a formula into a tree of concrete formula versions.
+ * `formulaName` is the name of the formula being resolved and seeds cycle detection.
+ */
+export function resolveFormulaDependencies(
+  formula: FormulaDefinition,
+  lookup: FormulaDependencyLookup,
+  formulaName?: string,
+): ResolvedFormulaDependencies {
+  return resolveDependencyTree(
+    formula,
+    lookup,
+    formulaName ? [normalizeFormulaName(formulaName)] : [],
+  );
+}
+
+export type FormulaDependencySnapshot = {
+  alias: string;
+  id: string;
+  name: string;
+  version: number;
+  inputBindings: Record<string, string>;
+  inputs: FormulaDefinition["inputs"];
+  expressions: FormulaDefinition["expressions"];
+  outputs: NonNullable<FormulaDefinition["outputs"]>;
+  dependencies: FormulaDependencySnapshot[];
+};
+
+export function buildDependencySnapshot(
+  dependencies: ResolvedFormulaDependencies,
+): FormulaDependencySnapshot[] {
+  return Object.values(dependencies).map((dependency) => ({
+    alias: dependency.alias,
+    id: dependency.id,
+    name: dependency.name,
+    version: dependency.version,
+    inputBindings: dependency.inputBindings,
+    inputs: dependency.definition.inputs,
+    expressions: dependency.definition.expressions,
+    outputs: dependency.definition.outputs ?? [],
+    dependencies: buildDependencySnapshot(dependency.dependencies),
+  }));
+}
@@ -1,8 +1,9 @@
 import assert from "node:assert/strict";
 import test from "node:test";
+import { resolveFormulaDependencies } from "./dependencies";
 import { evaluateFormula, FormulaEvaluationError } from "./evaluator";
 import { validateFormula, FormulaValidationError } from "./validator";
-import type { FormulaDefinition } from "./types";
+import type { FormulaDefinition, FormulaLookupTables } from "./types";
 
 const validFormula: FormulaDefinition = {
   inputs: [
@@ -74,3 +75,215 @@ test("validateFormula rejects undefined variable references", () => {
 test("validateFormula supports boundary-value dry-run for valid formulas", () => {
   assert.doesNotThrow(() => validateFormula(validFormula));
 });
+
+const formworkFormula: FormulaDefinition = {
+  inputs: [
+    { variable: "length", label: "Length", unit: "m", type: "number", min: 0 },
+    { variable: "height", label: "Height", unit: "m", type: "number", min: 0 },
+  ],
+  expressions: [{ variable: "area", expression: "length * height * 2" }],
+  outputs: [{ variable: "area", lineItemField: "quantity", unit: "m2" }],
+};
+
+const footingFormula: FormulaDefinition = {
+  inputs: [
+    { variable: "length", label: "Length", unit: "m", type: "number", min: 0, max: 10 },
+    { variable: "depth", label: "Depth", unit: "m", type: "number", min: 0, max: 2 },
+  ],
+  dependencies: [
+    {
+      alias: "formwork",
+      formulaName: "Formwork",
+      inputBindings: { length: "length", height: "depth" },
+    },
+  ],
+  expressions: [{ variable: "plywood_sheets", expression: "ceil(formwork.area / 2.88)" }],
+  outputs: [{ variable: "plywood_sheets", lineItemField: "quantity", unit: "pcs" }],
+};
+
+const formulaLibrary: Record<string, FormulaDefinition> = {
+  formwork: formworkFormula,
+  footing: footingFormula,
+};
+
+function lookupFormula(reference: { formulaName: string }) {
+  const definition = formulaLibrary[reference.formulaName.toLowerCase()];
+  return definition
+    ? { id: reference.formulaName, name: reference.formulaName, version: 1, definition }
+    : undefined;
+}
+
+test("evaluateFormula resolves outputs of referenced formulas", () => {
+  const result = evaluateFormula(
+    footingFormula,
+    { length: 3, depth: 1.2 },
+    { dependencies: resolveFormulaDependencies(footingFormula, lookupFormula, "Footing") },
+  );
+
+  assert.equal(result.dependencyResults.formwork.outputValues.area, 7.2);
+  assert.equal(result.outputValues.plywood_sheets, 3);
+});
+
+test("validateFormula accepts formulas referencing other formulas", () => {
+  assert.doesNotThrow(() =>
+    validateFormula(footingFormula, { formulaName: "Footing", lookup: lookupFormula }),
+  );
+});
+
+test("validateFormula detects formula dependency cycles", () => {
+  formulaLibrary.formwork = {
+    ...formworkFormula,
+    dependencies: [{ alias: "footing", formulaName: "Footing", inputBindings: {} }],
+  };
+
+  try {
+    assert.throws(
+      () => validateFormula(footingFormula, { formulaName: "Footing", lookup: lookupFormula }),
+      (error: unknown) =>
+        error instanceof FormulaValidationError && error.code === "FORMULA_DEPENDENCY_CYCLE",
+    );
+  } finally {
+    formulaLibrary.formwork = formworkFormula;
+  }
+});
+
+test("validateFormula rejects references to undeclared dependency outputs", () => {
+  assert.throws(
+    () =>
+      validateFormula(
+        {
+          ...footingFormula,
+          expressions: [{ variable: "plywood_sheets", expression: "formwork.volume / 2.88" }],
+        },
+        { formulaName: "Footing", lookup: lookupFormula },
+      ),
+    (error: unknown) =>
+      error instanceof FormulaValidationError && error.code === "FORMULA_UNDEFINED_VARIABLE",
+  );
+});
+
+const rebarWeights: FormulaLookupTables = {
+  rebar_weight: {
+    name: "rebar_weight",
+    matchMode: "EXACT",
+    entries: [
+      { key: 10, value: 0.617 },
+      { key: 12, value: 0.888 },
+      { key: 16, value: 1.578 },
+    ],
+  },
+};
+
+const rebarFormula: FormulaDefinition = {
+  inputs: [
+    { variable: "diameter", label: "Bar Diameter", unit: "mm", type: "integer", min: 10, max: 16 },
+    { variable: "length", label: "Length", unit: "m", type: "number", min: 0, max: 12 },
+  ],
+  expressions: [
+    { variable: "weight", expression: 'lookup("rebar_weight", diameter) * length' },
+    { variable: "tie_wire", expression: "if(length > 6, 2, 1)" },
+    { variable: "splices", expression: "length > 6 ? 1 : 0" },
+  ],
+};
+
+test("evaluateFormula supports conditionals and lookup tables", () => {
+  const result = evaluateFormula(
+    rebarFormula,
+    { diameter: 12, length: 9 },
+    {
+      lookupTables: rebarWeights,
+    },
+  );
+
+  assert.equal(result.computedResults.weight, 7.992);
+  assert.equal(result.computedResults.tie_wire, 2);
+  assert.equal(result.computedResults.splices, 1);
+});
+
+test("evaluateFormula only evaluates the branch of if() that the condition selects", () => {
+  const guardedLookup: FormulaDefinition = {
+    inputs: [
+      { variable: "diameter", label: "Bar Diameter", unit: "mm", type: "integer", min: 0, max: 16 },
+    ],
+    expressions: [
+      { variable: "weight", expression: 'if(diameter > 0, lookup("rebar_weight", diameter), 0)' },
+      { variable: "ternary", expression: 'diameter > 0 ? lookup("rebar_weight", diameter) : 0' },
+    ],
+  };
+
+  const skipped = evaluateFormula(guardedLookup, { diameter: 0 }, { lookupTables: rebarWeights });
+  assert.equal(skipped.computedResults.weight, 0);
+  assert.equal(skipped.computedResults.ternary, 0);
+
+  const taken = evaluateFormula(guardedLookup, { diameter: 16 }, { lookupTables: rebarWeights });
+  assert.equal(taken.computedResults.weight, 1.578);
+});
+
+test("validateFormula rejects unknown lookup tables", () => {
+  assert.throws(
+    () => validateFormula(rebarFormula),
+    (error: unknown) =>
+      error instanceof FormulaValidationError && error.code === "FORMULA_LOOKUP_TABLE_NOT_FOUND",
+  );
+});
+
+test("validateFormula dry-run catches lookup keys missing at input boundaries", () => {
+  assert.throws(
+    () =>
+      validateFormula(
+        {
+          ...rebarFormula,
+          inputs: [
+            {
+              variable: "diameter",
+              label: "Bar Diameter",
+              unit: "mm",
+              type: "integer",
+              min: 8,
+              max: 16,
+            },
+            { variable: "length", label: "Length", unit: "m", type: "number", min: 0, max: 12 },
+          ],
+        },
+        { lookupTables: rebarWeights },
+      ),
+    (error: unknown) =>
+      error instanceof FormulaValidationError && error.code === "FORMULA_DRY_RUN_FAILED",
+  );
+});
+
+test("evaluateFormula converts inputs entered in compatible units", () => {
+  const result = evaluateFormula(
+    validFormula,
+    { length: 2500, width: 10 },
+    { inputUnits: { length: "mm", width: "ft" } },
+  );
+
+  assert.equal(result.resolvedInputs.length, 2.5);
+  assert.equal(result.resolvedInputs.width, 3.048);
+  assert.equal(result.computedResults.area, 7.62);
+});
+
+test("evaluateFormula rejects inputs entered in incompatible units", () => {
+  assert.throws(
+    () => evaluateFormula(validFormula, { length: 2, width: 3 }, { inputUnits: { length: "kg" } }),
+    (error: unknown) =>
+      error instanceof FormulaEvaluationError && error.code === "FORMULA_INCOMPATIBLE_UNIT",
+  );
+});
+
+test("validateFormula rejects expressions that mix dimensions", () => {
+  assert.throws(
+    () =>
+      validateFormula({
+        ...validFormula,
+        expressions: [
+          { variable: "area", expression: "length * width" },
+          { variable: "perimeter_plus_area", expression: "2 * (length + width) + area" },
+        ],
+        outputs: [{ variable: "perimeter_plus_area", lineItemField: "quantity", unit: "m" }],
+      }),
+    (error: unknown) =>
+      error instanceof FormulaValidationError && error.code === "FORMULA_DIMENSION_MISMATCH",
+  );
+});
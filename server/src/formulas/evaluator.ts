@@ -1,8 +1,35 @@
-import { all, create } from "mathjs";
-import type { FormulaDefinition, FormulaInputDefinition, FormulaInputValues } from "./types";
+import { all, create, type MathNode } from "mathjs";
+import type {
+  FormulaDefinition,
+  FormulaInputDefinition,
+  FormulaInputValues,
+  FormulaLookupTable,
+  FormulaLookupTables,
+  ResolvedFormulaDependencies,
+  ResolvedFormulaDependency,
+} from "./types";
+import { convertUnitValue, findUnit, UnitConversionError } from "./units";
 
 const math = create(all, {});
 const ROUNDING_FACTOR = 10_000;
+const LOOKUP_KEY_TOLERANCE = 1e-9;
+
+export const LOOKUP_FUNCTION_NAME = "lookup";
+
+/**
+ * `if(condition, whenTrue, whenFalse)` takes its arguments unevaluated, like the ternary operator,
+ * so a branch that is not taken cannot fail, e.g. a lookup guarded by the condition.
+ */
+function lazyIf(args: MathNode[], _math: unknown, scope: Map<string, unknown>): unknown {
+  if (args.length !== 3) {
+    throw new Error("Function if expects a condition, a true branch and a false branch");
+  }
+
+  const [condition, whenTrue, whenFalse] = args;
+  const branch = condition.compile().evaluate(scope) ? whenTrue : whenFalse;
+  return branch.compile().evaluate(scope);
+}
+lazyIf.rawArgs = true;
 
 // Disable mutating/runtime-capable helpers to keep evaluation sandboxed to pure math.
 math.import(
@@ -13,6 +40,7 @@ math.import(
     createUnit: () => {
       throw new Error("Function createUnit is disabled in formula evaluation");
     },
+    if: lazyIf,
   },
   { override: true },
 );
@@ -33,13 +61,53 @@ export type FormulaEvaluationResult = {
   resolvedInputs: FormulaInputValues;
   computedResults: Record<string, number>;
   outputValues: Record<string, number>;
+  dependencyResults: Record<string, FormulaEvaluationResult>;
 };
 
+export type FormulaEvaluationContext = {
+  dependencies?: ResolvedFormulaDependencies;
+  lookupTables?: FormulaLookupTables;
+  /** Units the caller entered inputs in, keyed by input variable; omitted inputs use the formula's unit. */
+  inputUnits?: Record<string, string>;
+};
+
+type LookupFunction = (tableName: unknown, key: unknown) => number;
+
+type EvaluationScope = Record<string, number | Record<string, number> | LookupFunction>;
+
 function roundToFourDecimals(value: number): number {
   return Math.round((value + Number.EPSILON) * ROUNDING_FACTOR) / ROUNDING_FACTOR;
 }
 
-function resolveInputValue(definition: FormulaInputDefinition, rawValue: unknown): number {
+function convertInputValue(
+  definition: FormulaInputDefinition,
+  value: number,
+  unit: string | undefined,
+): number {
+  if (unit === undefined) {
+    return value;
+  }
+
+  try {
+    return convertUnitValue(value, unit, definition.unit);
+  } catch (error) {
+    if (error instanceof UnitConversionError) {
+      throw new FormulaEvaluationError(
+        "FORMULA_INCOMPATIBLE_UNIT",
+        `Input ${definition.variable} cannot be converted from ${unit} to ${definition.unit}`,
+        error.details,
+      );
+    }
+
+    throw error;
+  }
+}
+
+function resolveInputValue(
+  definition: FormulaInputDefinition,
+  rawValue: unknown,
+  unit: string | undefined,
+): number {
   const value = rawValue ?? definition.defaultValue;
 
   if (value === undefined) {
@@ -49,14 +117,20 @@ function resolveInputValue(definition: FormulaInputDefinition, rawValue: unknown
     );
   }
 
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed)) {
+  const numericValue = Number(value);
+  if (!Number.isFinite(numericValue)) {
     throw new FormulaEvaluationError(
       "FORMULA_INVALID_INPUT",
       `Input ${definition.variable} must be a finite number`,
     );
   }
 
+  // Defaults are declared in the formula's own unit, so only caller-supplied values are converted.
+  const parsed =
+    rawValue === undefined || rawValue === null
+      ? numericValue
+      : convertInputValue(definition, numericValue, unit);
+
   if (definition.type === "integer" && !Number.isInteger(parsed)) {
     throw new FormulaEvaluationError(
       "FORMULA_INVALID_INPUT",
@@ -84,16 +158,172 @@ function resolveInputValue(definition: FormulaInputDefinition, rawValue: unknown
 function normalizeInputs(
   formula: FormulaDefinition,
   inputValues: Record<string, unknown>,
+  inputUnits: Record<string, string>,
 ): FormulaInputValues {
   return formula.inputs.reduce<FormulaInputValues>((accumulator, input) => {
-    accumulator[input.variable] = resolveInputValue(input, inputValues[input.variable]);
+    accumulator[input.variable] = resolveInputValue(
+      input,
+      inputValues[input.variable],
+      inputUnits[input.variable],
+    );
     return accumulator;
   }, {});
 }
 
+function resolveLookupValue(table: FormulaLookupTable, key: number): number {
+  if (table.matchMode === "EXACT") {
+    const entry = table.entries.find(
+      (candidate) => Math.abs(candidate.key - key) <= LOOKUP_KEY_TOLERANCE,
+    );
+    if (!entry) {
+      throw new FormulaEvaluationError(
+        "FORMULA_LOOKUP_KEY_NOT_FOUND",
+        `Lookup table ${table.name} has no entry for key ${key}`,
+      );
+    }
+
+    return entry.value;
+  }
+
+  const entry = table.entries
+    .filter((candidate) => candidate.key <= key + LOOKUP_KEY_TOLERANCE)
+    .sort((a, b) => b.key - a.key)[0];
+  if (!entry) {
+    throw new FormulaEvaluationError(
+      "FORMULA_LOOKUP_KEY_NOT_FOUND",
+      `Lookup table ${table.name} has no range covering key ${key}`,
+    );
+  }
+
+  return entry.value;
+}
+
+function createLookupFunction(lookupTables: FormulaLookupTables): LookupFunction {
+  return (tableName, key) => {
+    const table = lookupTables[String(tableName)];
+    if (!table) {
+      throw new FormulaEvaluationError(
+        "FORMULA_LOOKUP_TABLE_NOT_FOUND",
+        `Lookup table ${String(tableName)} does not exist`,
+      );
+    }
+
+    const numericKey = Number(key);
+    if (!Number.isFinite(numericKey)) {
+      throw new FormulaEvaluationError(
+        "FORMULA_INVALID_LOOKUP_KEY",
+        `Lookup key for table ${table.name} must be a finite number`,
+      );
+    }
+
+    return resolveLookupValue(table, numericKey);
+  };
+}
+
+function evaluateNumericExpression(
+  expression: string,
+  scope: EvaluationScope,
+  label: string,
+): number {
+  let rawResult: unknown;
+
+  try {
+    rawResult = math.compile(expression).evaluate(scope);
+  } catch (error) {
+    if (error instanceof FormulaEvaluationError) {
+      throw error;
+    }
+
+    throw new FormulaEvaluationError(
+      "FORMULA_EVALUATION_FAILED",
+      `Failed to evaluate expression for ${label}`,
+      error,
+    );
+  }
+
+  const numericResult = Number(rawResult);
+  if (!Number.isFinite(numericResult)) {
+    throw new FormulaEvaluationError(
+      "FORMULA_INVALID_RESULT",
+      `Expression ${label} must resolve to a finite number`,
+    );
+  }
+
+  return roundToFourDecimals(numericResult);
+}
+
+/**
+ * Bindings that pass a parent input straight through carry that input's unit, so the dependency
+ * receives the value converted into the unit it declares. Unregistered units are passed as-is.
+ */
+function resolveBindingUnits(
+  formula: FormulaDefinition,
+  dependency: ResolvedFormulaDependency,
+): Record<string, string> {
+  const parentInputs = new Map(formula.inputs.map((input) => [input.variable, input]));
+  const dependencyInputs = new Map(
+    dependency.definition.inputs.map((input) => [input.variable, input]),
+  );
+
+  return Object.entries(dependency.inputBindings).reduce<Record<string, string>>(
+    (accumulator, [variable, expression]) => {
+      const parentInput = parentInputs.get(expression.trim());
+      const dependencyInput = dependencyInputs.get(variable);
+      if (
+        parentInput &&
+        dependencyInput &&
+        findUnit(parentInput.unit) &&
+        findUnit(dependencyInput.unit)
+      ) {
+        accumulator[variable] = parentInput.unit;
+      }
+
+      return accumulator;
+    },
+    {},
+  );
+}
+
+function evaluateDependency(
+  formula: FormulaDefinition,
+  dependency: ResolvedFormulaDependency,
+  bindingScope: EvaluationScope,
+  lookupTables: FormulaLookupTables | undefined,
+): FormulaEvaluationResult {
+  const boundInputs = Object.entries(dependency.inputBindings).reduce<FormulaInputValues>(
+    (accumulator, [variable, expression]) => {
+      accumulator[variable] = evaluateNumericExpression(
+        expression,
+        bindingScope,
+        `${dependency.alias}.${variable}`,
+      );
+      return accumulator;
+    },
+    {},
+  );
+
+  try {
+    return evaluateFormula(dependency.definition, boundInputs, {
+      dependencies: dependency.dependencies,
+      lookupTables,
+      inputUnits: resolveBindingUnits(formula, dependency),
+    });
+  } catch (error) {
+    if (error instanceof FormulaEvaluationError) {
+      throw new FormulaEvaluationError(
+        error.code,
+        `Dependency ${dependency.alias} (${dependency.name} v${dependency.version}): ${error.message}`,
+        error.details,
+      );
+    }
+
+    throw error;
+  }
+}
+
 function resolveOutputValues(
   formula: FormulaDefinition,
-  scope: Record<string, number>,
+  scope: EvaluationScope,
   computedResults: Record<string, number>,
 ): Record<string, number> {
   if (!formula.outputs || formula.outputs.length === 0) {
@@ -102,7 +332,7 @@ function resolveOutputValues(
 
   return formula.outputs.reduce<Record<string, number>>((accumulator, output) => {
     const value = scope[output.variable];
-    if (value === undefined) {
+    if (typeof value !== "number") {
       throw new FormulaEvaluationError(
         "FORMULA_INVALID_OUTPUT_MAPPING",
         `Output variable ${output.variable} is not defined in formula scope`,
@@ -114,43 +344,56 @@ function resolveOutputValues(
   }, {});
 }
 
+/**
+ * Evaluates a formula against the provided inputs. Declared dependencies must be supplied
+ * already resolved (see `resolveFormulaDependencies`); their outputs are exposed to
+ * expressions as `alias.output`. Lookup tables are available through `lookup("table", key)`.
+ * Inputs entered in another unit of the same dimension are converted before evaluation.
+ */
 export function evaluateFormula(
   formula: FormulaDefinition,
   inputValues: Record<string, unknown>,
+  context: FormulaEvaluationContext = {},
 ): FormulaEvaluationResult {
-  const resolvedInputs = normalizeInputs(formula, inputValues);
-  const scope: Record<string, number> = { ...resolvedInputs };
+  const dependencies = context.dependencies ?? {};
+  const resolvedInputs = normalizeInputs(formula, inputValues, context.inputUnits ?? {});
+  const scope: EvaluationScope = {
+    ...resolvedInputs,
+    [LOOKUP_FUNCTION_NAME]: createLookupFunction(context.lookupTables ?? {}),
+  };
+  const bindingScope: EvaluationScope = { ...scope };
   const computedResults: Record<string, number> = {};
+  const dependencyResults: Record<string, FormulaEvaluationResult> = {};
 
-  for (const expression of formula.expressions) {
-    let rawResult: unknown;
-
-    try {
-      rawResult = math.compile(expression.expression).evaluate(scope);
-    } catch (error) {
+  for (const declaredDependency of formula.dependencies ?? []) {
+    const dependency = dependencies[declaredDependency.alias];
+    if (!dependency) {
       throw new FormulaEvaluationError(
-        "FORMULA_EVALUATION_FAILED",
-        `Failed to evaluate expression for ${expression.variable}`,
-        error,
+        "FORMULA_DEPENDENCY_UNRESOLVED",
+        `Dependency ${declaredDependency.alias} has not been resolved`,
       );
     }
 
-    const numericResult = Number(rawResult);
-    if (!Number.isFinite(numericResult)) {
-      throw new FormulaEvaluationError(
-        "FORMULA_INVALID_RESULT",
-        `Expression ${expression.variable} must resolve to a finite number`,
-      );
-    }
+    const dependencyResult = evaluateDependency(
+      formula,
+      dependency,
+      bindingScope,
+      context.lookupTables,
+    );
+    dependencyResults[declaredDependency.alias] = dependencyResult;
+    scope[declaredDependency.alias] = dependencyResult.outputValues;
+  }
 
-    const roundedResult = roundToFourDecimals(numericResult);
-    scope[expression.variable] = roundedResult;
-    computedResults[expression.variable] = roundedResult;
+  for (const expression of formula.expressions) {
+    const result = evaluateNumericExpression(expression.expression, scope, expression.variable);
+    scope[expression.variable] = result;
+    computedResults[expression.variable] = result;
   }
 
   return {
     resolvedInputs,
     computedResults,
     outputValues: resolveOutputValues(formula, scope, computedResults),
+    dependencyResults,
   };
 }
@@ -1,10 +1,9 @@
-import { Category } from "@prisma/client";
 import type { FormulaSeedDefinition } from "../types";
 
 export const chbWallSeed: FormulaSeedDefinition = {
   name: "CHB Wall",
   description: "Computes CHB wall quantities based on wall dimensions and openings.",
-  category: Category.MASONRY_WORKS,
+  category: "MASONRY_WORKS",
   inputs: [
     { variable: "length", label: "Length", unit: "m", type: "number", min: 0 },
     { variable: "height", label: "Height", unit: "m", type: "number", min: 0 },
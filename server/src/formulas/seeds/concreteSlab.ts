@@ -1,10 +1,9 @@
-import { Category } from "@prisma/client";
 import type { FormulaSeedDefinition } from "../types";
 
 export const concreteSlabSeed: FormulaSeedDefinition = {
   name: "Concrete Slab",
   description: "Computes concrete slab material quantities from slab dimensions.",
-  category: Category.CONCRETE_WORKS,
+  category: "CONCRETE_WORKS",
   inputs: [
     { variable: "length", label: "Length", unit: "m", type: "number", min: 0 },
     { variable: "width", label: "Width", unit: "m", type: "number", min: 0 },
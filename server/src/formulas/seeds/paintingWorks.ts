@@ -1,10 +1,9 @@
-import { Category } from "@prisma/client";
 import type { FormulaSeedDefinition } from "../types";
 
 export const paintingWorksSeed: FormulaSeedDefinition = {
   name: "Painting Works",
   description: "Computes painting requirements from area, coats, and coverage.",
-  category: Category.PAINTING_WORKS,
+  category: "PAINTING_WORKS",
   inputs: [
     { variable: "area", label: "Area", unit: "m2", type: "number", min: 0 },
     { variable: "coats", label: "Coats", unit: "count", type: "integer", min: 1, defaultValue: 2 },
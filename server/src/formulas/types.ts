@@ -1,5 +1,3 @@
-import type { Category } from "@prisma/client";
-
 export type FormulaInputDefinition = {
   variable: string;
   label: string;
@@ -21,17 +19,58 @@ export type FormulaOutputDefinition = {
   unit: string;
 };
 
+export type FormulaDependencyDefinition = {
+  alias: string;
+  formulaName: string;
+  version?: number;
+  inputBindings: Record<string, string>;
+};
+
 export type FormulaDefinition = {
   inputs: FormulaInputDefinition[];
   expressions: FormulaExpressionDefinition[];
   outputs?: FormulaOutputDefinition[];
+  dependencies?: FormulaDependencyDefinition[];
+};
+
+export type FormulaLibraryEntry = {
+  id: string;
+  name: string;
+  version: number;
+  definition: FormulaDefinition;
+};
+
+export type FormulaDependencyLookup = (reference: {
+  formulaName: string;
+  version?: number;
+}) => FormulaLibraryEntry | undefined;
+
+export type ResolvedFormulaDependency = FormulaLibraryEntry & {
+  alias: string;
+  inputBindings: Record<string, string>;
+  dependencies: ResolvedFormulaDependencies;
 };
 
+export type ResolvedFormulaDependencies = Record<string, ResolvedFormulaDependency>;
+
 export type FormulaSeedDefinition = FormulaDefinition & {
   name: string;
   description: string;
-  category: Category;
+  category: string;
   outputs: FormulaOutputDefinition[];
 };
 
 export type FormulaInputValues = Record<string, number>;
+
+export type FormulaLookupTableEntry = {
+  key: number;
+  value: number;
+};
+
+export type FormulaLookupTable = {
+  name: string;
+  matchMode: "EXACT" | "RANGE";
+  entries: FormulaLookupTableEntry[];
+};
+
+export type FormulaLookupTables = Record<string, FormulaLookupTable>;
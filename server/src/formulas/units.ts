@@ -0,0 +1,183 @@
+export type UnitDimension = "length" | "area" | "volume" | "mass" | "count";
+
+export type UnitDefinition = {
+  symbol: string;
+  label: string;
+  dimension: UnitDimension;
+  /** Multiplier that converts a value in this unit into the dimension's base unit. */
+  factor: number;
+  aliases: string[];
+};
+
+/** Length and mass exponents of a dimension; area is length^2, counts are dimensionless. */
+export type DimensionVector = {
+  length: number;
+  mass: number;
+};
+
+const CONVERSION_PRECISION = 12;
+
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  { symbol: "mm", label: "Millimeter", dimension: "length", factor: 0.001, aliases: [] },
+  { symbol: "cm", label: "Centimeter", dimension: "length", factor: 0.01, aliases: [] },
+  { symbol: "m", label: "Meter", dimension: "length", factor: 1, aliases: ["lm", "l.m."] },
+  { symbol: "km", label: "Kilometer", dimension: "length", factor: 1000, aliases: [] },
+  { symbol: "in", label: "Inch", dimension: "length", factor: 0.0254, aliases: ["inch", '"'] },
+  { symbol: "ft", label: "Foot", dimension: "length", factor: 0.3048, aliases: ["feet", "'"] },
+  { symbol: "yd", label: "Yard", dimension: "length", factor: 0.9144, aliases: [] },
+  { symbol: "mm2", label: "Square millimeter", dimension: "area", factor: 1e-6, aliases: ["mm²"] },
+  { symbol: "cm2", label: "Square centimeter", dimension: "area", factor: 1e-4, aliases: ["cm²"] },
+  {
+    symbol: "m2",
+    label: "Square meter",
+    dimension: "area",
+    factor: 1,
+    aliases: ["m²", "sqm", "sq.m", "sq.m."],
+  },
+  { symbol: "in2", label: "Square inch", dimension: "area", factor: 0.00064516, aliases: ["in²"] },
+  {
+    symbol: "ft2",
+    label: "Square foot",
+    dimension: "area",
+    factor: 0.09290304,
+    aliases: ["ft²", "sqft", "sq.ft", "sq.ft."],
+  },
+  { symbol: "ha", label: "Hectare", dimension: "area", factor: 10_000, aliases: [] },
+  {
+    symbol: "cm3",
+    label: "Cubic centimeter",
+    dimension: "volume",
+    factor: 1e-6,
+    aliases: ["cm³", "cc"],
+  },
+  {
+    symbol: "m3",
+    label: "Cubic meter",
+    dimension: "volume",
+    factor: 1,
+    aliases: ["m³", "cu.m", "cu.m.", "cbm"],
+  },
+  { symbol: "L", label: "Liter", dimension: "volume", factor: 0.001, aliases: ["liter", "litre"] },
+  { symbol: "mL", label: "Milliliter", dimension: "volume", factor: 1e-6, aliases: [] },
+  { symbol: "gal", label: "US gallon", dimension: "volume", factor: 0.003785411784, aliases: [] },
+  {
+    symbol: "ft3",
+    label: "Cubic foot",
+    dimension: "volume",
+    factor: 0.028316846592,
+    aliases: ["ft³", "cu.ft", "cu.ft."],
+  },
+  {
+    symbol: "yd3",
+    label: "Cubic yard",
+    dimension: "volume",
+    factor: 0.764554857984,
+    aliases: ["yd³", "cu.yd", "cu.yd."],
+  },
+  { symbol: "g", label: "Gram", dimension: "mass", factor: 0.001, aliases: [] },
+  { symbol: "kg", label: "Kilogram", dimension: "mass", factor: 1, aliases: ["kgs"] },
+  { symbol: "t", label: "Metric ton", dimension: "mass", factor: 1000, aliases: ["tonne", "mt"] },
+  { symbol: "lb", label: "Pound", dimension: "mass", factor: 0.45359237, aliases: ["lbs"] },
+  {
+    symbol: "pcs",
+    label: "Pieces",
+    dimension: "count",
+    factor: 1,
+    aliases: ["pc", "piece", "pieces", "ea", "each", "count", "nos"],
+  },
+  { symbol: "dozen", label: "Dozen", dimension: "count", factor: 12, aliases: ["doz"] },
+];
+
+const DIMENSION_VECTORS: Record<UnitDimension, DimensionVector> = {
+  length: { length: 1, mass: 0 },
+  area: { length: 2, mass: 0 },
+  volume: { length: 3, mass: 0 },
+  mass: { length: 0, mass: 1 },
+  count: { length: 0, mass: 0 },
+};
+
+function normalizeUnitKey(unit: string): string {
+  return unit.trim().toLowerCase().replace(/\s+/g, "");
+}
+
+const UNIT_INDEX = UNIT_DEFINITIONS.reduce<Map<string, UnitDefinition>>((index, definition) => {
+  for (const key of [definition.symbol, ...definition.aliases]) {
+    index.set(normalizeUnitKey(key), definition);
+  }
+
+  return index;
+}, new Map());
+
+export class UnitConversionError extends Error {
+  code: string;
+  details?: unknown;
+
+  constructor(code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = "UnitConversionError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export function listUnits(): UnitDefinition[] {
+  return UNIT_DEFINITIONS;
+}
+
+/**
+ * Finds a registered unit by symbol or alias. Units outside the registry (e.g. "bags" or "m2/L")
+ * are treated as opaque labels and only match themselves.
+ */
+export function findUnit(unit: string): UnitDefinition | undefined {
+  return UNIT_INDEX.get(normalizeUnitKey(unit));
+}
+
+export function getUnitDimensionVector(unit: string): DimensionVector | undefined {
+  const definition = findUnit(unit);
+  return definition ? DIMENSION_VECTORS[definition.dimension] : undefined;
+}
+
+export function isSameUnit(unitA: string, unitB: string): boolean {
+  const definitionA = findUnit(unitA);
+  const definitionB = findUnit(unitB);
+
+  if (definitionA || definitionB) {
+    return definitionA === definitionB;
+  }
+
+  return normalizeUnitKey(unitA) === normalizeUnitKey(unitB);
+}
+
+export function areUnitsCompatible(unitA: string, unitB: string): boolean {
+  const definitionA = findUnit(unitA);
+  const definitionB = findUnit(unitB);
+
+  if (definitionA && definitionB) {
+    return definitionA.dimension === definitionB.dimension;
+  }
+
+  return isSameUnit(unitA, unitB);
+}
+
+/**
+ * Converts a value between two compatible units. Results are trimmed to 12 significant digits so
+ * round trips such as in -> ft -> in do not accumulate floating point noise.
+ */
+export function convertUnitValue(value: number, fromUnit: string, toUnit: string): number {
+  if (isSameUnit(fromUnit, toUnit)) {
+    return value;
+  }
+
+  const fromDefinition = findUnit(fromUnit);
+  const toDefinition = findUnit(toUnit);
+
+  if (!fromDefinition || !toDefinition || fromDefinition.dimension !== toDefinition.dimension) {
+    throw new UnitConversionError("UNIT_INCOMPATIBLE", `Cannot convert ${fromUnit} to ${toUnit}`, {
+      fromUnit,
+      toUnit,
+    });
+  }
+
+  const converted = (value * fromDefinition.factor) / toDefinition.factor;
+  return Number(converted.toPrecision(CONVERSION_PRECISION));
+}
@@ -1,9 +1,44 @@
 import { all, create, type MathNode } from "mathjs";
-import { evaluateFormula, FormulaEvaluationError } from "./evaluator";
-import type { FormulaDefinition, FormulaInputDefinition, FormulaInputValues } from "./types";
+import { FormulaDependencyError, resolveFormulaDependencies } from "./dependencies";
+import { evaluateFormula, FormulaEvaluationError, LOOKUP_FUNCTION_NAME } from "./evaluator";
+import type {
+  FormulaDefinition,
+  FormulaDependencyLookup,
+  FormulaInputDefinition,
+  FormulaInputValues,
+  FormulaLookupTables,
+  ResolvedFormulaDependencies,
+} from "./types";
+import {
+  areUnitsCompatible,
+  type DimensionVector,
+  findUnit,
+  getUnitDimensionVector,
+} from "./units";
 
 const math = create(all, {});
-const ALLOWED_FUNCTIONS = new Set(["ceil", "floor", "round", "sqrt", "abs", "max", "min"]);
+const ALLOWED_FUNCTIONS = new Set([
+  "ceil",
+  "floor",
+  "round",
+  "sqrt",
+  "abs",
+  "max",
+  "min",
+  "if",
+  LOOKUP_FUNCTION_NAME,
+]);
+const RESERVED_VARIABLES = new Set(["if", LOOKUP_FUNCTION_NAME]);
+const DIMENSIONLESS: DimensionVector = { length: 0, mass: 0 };
+const DIMENSION_PRESERVING_FUNCTIONS = new Set(["ceil", "floor", "round", "abs"]);
+const COMPARISON_OPERATORS = new Set([
+  "equal",
+  "unequal",
+  "larger",
+  "largerEq",
+  "smaller",
+  "smallerEq",
+]);
 
 export class FormulaValidationError extends Error {
   code: string;
@@ -25,6 +60,307 @@ function isFunctionNameNode(node: MathNode, parent: MathNode | null): boolean {
   return "fn" in parent && parent.fn === node;
 }
 
+export type FormulaValidationOptions = {
+  formulaName?: string;
+  lookup?: FormulaDependencyLookup;
+  lookupTables?: FormulaLookupTables;
+};
+
+/** Output units keyed by output variable, per dependency alias. */
+type DependencyOutputs = Map<string, Map<string, string | undefined>>;
+
+/** Inferred dimension per variable; `undefined` when it cannot be derived from units. */
+type VariableDimensions = Map<string, DimensionVector | undefined>;
+
+type ExpressionReferences = {
+  dependencyOutputs: DependencyOutputs;
+  lookupTables: FormulaLookupTables;
+  variableDimensions: VariableDimensions;
+};
+
+function getFunctionName(node: MathNode): string | undefined {
+  const fn = (node as unknown as { fn: MathNode }).fn;
+  return isNodeOfType(fn, "isSymbolNode")
+    ? String((fn as unknown as { name: string }).name)
+    : undefined;
+}
+
+function validateFunctionCall(
+  node: MathNode,
+  expressionVariable: string,
+  lookupTables: FormulaLookupTables,
+): void {
+  const functionName = getFunctionName(node);
+  const args = (node as unknown as { args: MathNode[] }).args;
+
+  if (functionName === "if" && args.length !== 3) {
+    throw new FormulaValidationError(
+      "FORMULA_INVALID_EXPRESSION",
+      `Expression for ${expressionVariable} must call if(condition, whenTrue, whenFalse)`,
+    );
+  }
+
+  if (functionName !== LOOKUP_FUNCTION_NAME) {
+    return;
+  }
+
+  const tableNode = args[0];
+  const tableName =
+    args.length === 2 && isNodeOfType(tableNode, "isConstantNode")
+      ? (tableNode as unknown as { value: unknown }).value
+      : undefined;
+
+  if (typeof tableName !== "string") {
+    throw new FormulaValidationError(
+      "FORMULA_INVALID_EXPRESSION",
+      `Expression for ${expressionVariable} must call lookup("table_name", key)`,
+    );
+  }
+
+  if (!lookupTables[tableName]) {
+    throw new FormulaValidationError(
+      "FORMULA_LOOKUP_TABLE_NOT_FOUND",
+      `Expression for ${expressionVariable} references unknown lookup table ${tableName}`,
+    );
+  }
+}
+
+function isLookupTableNameNode(path: string, parent: MathNode | null): boolean {
+  return (
+    path === "args[0]" &&
+    parent !== null &&
+    isNodeOfType(parent, "isFunctionNode") &&
+    getFunctionName(parent) === LOOKUP_FUNCTION_NAME
+  );
+}
+
+function isNodeOfType(node: MathNode | null, flag: string): boolean {
+  return (
+    node !== null && flag in node && Boolean((node as unknown as Record<string, unknown>)[flag])
+  );
+}
+
+function validateDependencyAccessor(
+  node: MathNode,
+  expressionVariable: string,
+  dependencyOutputs: DependencyOutputs,
+): void {
+  const accessor = node as unknown as {
+    object: MathNode;
+    index: { dotNotation?: boolean; dimensions: MathNode[] };
+  };
+  const objectName = isNodeOfType(accessor.object, "isSymbolNode")
+    ? String((accessor.object as unknown as { name: string }).name)
+    : undefined;
+  const outputs = objectName ? dependencyOutputs.get(objectName) : undefined;
+  const propertyNode = accessor.index.dimensions[0];
+  const propertyName =
+    accessor.index.dotNotation &&
+    accessor.index.dimensions.length === 1 &&
+    isNodeOfType(propertyNode, "isConstantNode")
+      ? String((propertyNode as unknown as { value: unknown }).value)
+      : undefined;
+
+  if (!outputs || propertyName === undefined) {
+    throw new FormulaValidationError(
+      "FORMULA_UNSAFE_EXPRESSION",
+      `Expression for ${expressionVariable} may only access dependency outputs as alias.output`,
+    );
+  }
+
+  if (!outputs.has(propertyName)) {
+    throw new FormulaValidationError(
+      "FORMULA_UNDEFINED_VARIABLE",
+      `Expression for ${expressionVariable} references unknown output ${objectName}.${propertyName}`,
+    );
+  }
+}
+
+function isSameDimension(a: DimensionVector, b: DimensionVector): boolean {
+  return a.length === b.length && a.mass === b.mass;
+}
+
+function describeDimension(dimension: DimensionVector): string {
+  const named: Array<[DimensionVector, string]> = [
+    [{ length: 1, mass: 0 }, "length"],
+    [{ length: 2, mass: 0 }, "area"],
+    [{ length: 3, mass: 0 }, "volume"],
+    [{ length: 0, mass: 1 }, "mass"],
+    [DIMENSIONLESS, "a plain number"],
+  ];
+  const match = named.find(([candidate]) => isSameDimension(candidate, dimension));
+
+  return match ? match[1] : `length^${dimension.length}·mass^${dimension.mass}`;
+}
+
+/**
+ * Operands that are added, compared or chosen between must share a dimension. Plain numbers are
+ * accepted alongside any dimension so constants such as `length + 0.5` stay valid.
+ */
+function combineDimensions(
+  dimensions: Array<DimensionVector | undefined>,
+  expressionVariable: string,
+): DimensionVector | undefined {
+  let combined: DimensionVector | undefined;
+
+  for (const dimension of dimensions) {
+    if (!dimension || isSameDimension(dimension, DIMENSIONLESS)) {
+      continue;
+    }
+
+    if (combined && !isSameDimension(combined, dimension)) {
+      throw new FormulaValidationError(
+        "FORMULA_DIMENSION_MISMATCH",
+        `Expression for ${expressionVariable} combines ${describeDimension(combined)} with ${describeDimension(dimension)}`,
+      );
+    }
+
+    combined = dimension;
+  }
+
+  if (combined) {
+    return combined;
+  }
+
+  return dimensions.every((dimension) => dimension !== undefined) ? DIMENSIONLESS : undefined;
+}
+
+function scaleDimension(dimension: DimensionVector, exponent: number): DimensionVector | undefined {
+  const scaled = { length: dimension.length * exponent, mass: dimension.mass * exponent };
+  return Number.isInteger(scaled.length) && Number.isInteger(scaled.mass) ? scaled : undefined;
+}
+
+function inferOperatorDimension(
+  operator: string,
+  args: Array<DimensionVector | undefined>,
+  argNodes: MathNode[],
+  expressionVariable: string,
+): DimensionVector | undefined {
+  const [left, right] = args;
+
+  if (operator === "add" || operator === "subtract" || operator === "mod") {
+    return combineDimensions(args, expressionVariable);
+  }
+
+  if (operator === "unaryMinus" || operator === "unaryPlus") {
+    return left;
+  }
+
+  if (operator === "multiply" || operator === "divide") {
+    if (!left || !right) {
+      return undefined;
+    }
+
+    const sign = operator === "multiply" ? 1 : -1;
+    return { length: left.length + sign * right.length, mass: left.mass + sign * right.mass };
+  }
+
+  if (operator === "pow") {
+    const exponentNode = argNodes[1];
+    const exponent = isNodeOfType(exponentNode, "isConstantNode")
+      ? Number((exponentNode as unknown as { value: unknown }).value)
+      : Number.NaN;
+
+    if (left && isSameDimension(left, DIMENSIONLESS)) {
+      return DIMENSIONLESS;
+    }
+
+    return left && Number.isFinite(exponent) ? scaleDimension(left, exponent) : undefined;
+  }
+
+  if (COMPARISON_OPERATORS.has(operator)) {
+    combineDimensions(args, expressionVariable);
+    return DIMENSIONLESS;
+  }
+
+  if (operator === "and" || operator === "or" || operator === "xor" || operator === "not") {
+    return DIMENSIONLESS;
+  }
+
+  return undefined;
+}
+
+function inferDimension(
+  node: MathNode,
+  expressionVariable: string,
+  references: ExpressionReferences,
+): DimensionVector | undefined {
+  const infer = (child: MathNode): DimensionVector | undefined =>
+    inferDimension(child, expressionVariable, references);
+
+  if (isNodeOfType(node, "isParenthesisNode")) {
+    return infer((node as unknown as { content: MathNode }).content);
+  }
+
+  if (isNodeOfType(node, "isConstantNode")) {
+    return typeof (node as unknown as { value: unknown }).value === "number"
+      ? DIMENSIONLESS
+      : undefined;
+  }
+
+  if (isNodeOfType(node, "isSymbolNode")) {
+    return references.variableDimensions.get(String((node as unknown as { name: string }).name));
+  }
+
+  if (isNodeOfType(node, "isAccessorNode")) {
+    const accessor = node as unknown as {
+      object: { name: string };
+      index: { dimensions: Array<{ value: unknown }> };
+    };
+    const unit = references.dependencyOutputs
+      .get(accessor.object.name)
+      ?.get(String(accessor.index.dimensions[0].value));
+    return unit ? getUnitDimensionVector(unit) : undefined;
+  }
+
+  if (isNodeOfType(node, "isConditionalNode")) {
+    const conditional = node as unknown as {
+      condition: MathNode;
+      trueExpr: MathNode;
+      falseExpr: MathNode;
+    };
+    infer(conditional.condition);
+    return combineDimensions(
+      [infer(conditional.trueExpr), infer(conditional.falseExpr)],
+      expressionVariable,
+    );
+  }
+
+  if (isNodeOfType(node, "isOperatorNode")) {
+    const operator = node as unknown as { fn: string; args: MathNode[] };
+    return inferOperatorDimension(
+      operator.fn,
+      operator.args.map((arg) => infer(arg)),
+      operator.args,
+      expressionVariable,
+    );
+  }
+
+  if (isNodeOfType(node, "isFunctionNode")) {
+    const functionName = getFunctionName(node);
+    const argNodes = (node as unknown as { args: MathNode[] }).args;
+    const args = argNodes.map((arg) => infer(arg));
+
+    if (functionName && DIMENSION_PRESERVING_FUNCTIONS.has(functionName)) {
+      return args[0];
+    }
+
+    if (functionName === "sqrt") {
+      return args[0] ? scaleDimension(args[0], 0.5) : undefined;
+    }
+
+    if (functionName === "max" || functionName === "min") {
+      return combineDimensions(args, expressionVariable);
+    }
+
+    if (functionName === "if") {
+      return combineDimensions(args.slice(1), expressionVariable);
+    }
+  }
+
+  return undefined;
+}
+
 function validateInputConstraints(formula: FormulaDefinition): void {
   for (const input of formula.inputs) {
     if (input.min !== undefined && input.max !== undefined && input.min > input.max) {
@@ -40,7 +376,8 @@ function validateSingleExpression(
   expression: string,
   expressionVariable: string,
   availableVariables: Set<string>,
-): void {
+  references: ExpressionReferences,
+): DimensionVector | undefined {
   let parsedNode: MathNode;
 
   try {
@@ -53,7 +390,7 @@ function validateSingleExpression(
     );
   }
 
-  parsedNode.traverse((node, _path, parent) => {
+  parsedNode.traverse((node, path, parent) => {
     if ("isAssignmentNode" in node && node.isAssignmentNode) {
       throw new FormulaValidationError(
         "FORMULA_UNSAFE_EXPRESSION",
@@ -68,9 +405,40 @@ function validateSingleExpression(
       );
     }
 
+    if ("isAccessorNode" in node && node.isAccessorNode) {
+      validateDependencyAccessor(node, expressionVariable, references.dependencyOutputs);
+      return;
+    }
+
+    if ("isFunctionNode" in node && node.isFunctionNode) {
+      validateFunctionCall(node, expressionVariable, references.lookupTables);
+      return;
+    }
+
+    if ("isConstantNode" in node && node.isConstantNode) {
+      const value = (node as unknown as { value: unknown }).value;
+      const isAccessorProperty = isNodeOfType(parent, "isIndexNode");
+      if (
+        typeof value === "string" &&
+        !isAccessorProperty &&
+        !isLookupTableNameNode(path, parent)
+      ) {
+        throw new FormulaValidationError(
+          "FORMULA_UNSAFE_EXPRESSION",
+          `Text values are only allowed as lookup table names in expression for ${expressionVariable}`,
+        );
+      }
+
+      return;
+    }
+
     if ("isSymbolNode" in node && node.isSymbolNode) {
       const symbolName = String((node as unknown as { name: string }).name);
 
+      if (path === "object" && isNodeOfType(parent, "isAccessorNode")) {
+        return;
+      }
+
       if (isFunctionNameNode(node, parent)) {
         if (!ALLOWED_FUNCTIONS.has(symbolName)) {
           throw new FormulaValidationError(
@@ -90,6 +458,8 @@ function validateSingleExpression(
       }
     }
   });
+
+  return inferDimension(parsedNode, expressionVariable, references);
 }
 
 function resolveBoundaryValue(definition: FormulaInputDefinition, mode: "min" | "max"): number {
@@ -128,10 +498,165 @@ function buildBoundaryInputs(formula: FormulaDefinition, mode: "min" | "max"): F
   }, {});
 }
 
-function dryRunBoundaryEvaluation(formula: FormulaDefinition): void {
+function resolveDependencies(
+  formula: FormulaDefinition,
+  options: FormulaValidationOptions,
+): ResolvedFormulaDependencies {
+  if (!formula.dependencies || formula.dependencies.length === 0) {
+    return {};
+  }
+
+  if (!options.lookup) {
+    throw new FormulaValidationError(
+      "FORMULA_DEPENDENCY_UNRESOLVED",
+      "Formula dependencies cannot be resolved without a formula library",
+    );
+  }
+
   try {
-    evaluateFormula(formula, buildBoundaryInputs(formula, "min"));
-    evaluateFormula(formula, buildBoundaryInputs(formula, "max"));
+    return resolveFormulaDependencies(formula, options.lookup, options.formulaName);
+  } catch (error) {
+    if (error instanceof FormulaDependencyError) {
+      throw new FormulaValidationError(error.code, error.message, error.details);
+    }
+
+    throw error;
+  }
+}
+
+function validateDependencyBindings(
+  formula: FormulaDefinition,
+  dependencies: ResolvedFormulaDependencies,
+  lookupTables: FormulaLookupTables,
+): DependencyOutputs {
+  const inputVariables = new Set(formula.inputs.map((input) => input.variable));
+  const inputUnits = new Map(formula.inputs.map((input) => [input.variable, input.unit]));
+  const inputDimensions: VariableDimensions = new Map(
+    formula.inputs.map((input) => [input.variable, getUnitDimensionVector(input.unit)]),
+  );
+  const expressionVariables = new Set(formula.expressions.map((expression) => expression.variable));
+  const dependencyOutputs: DependencyOutputs = new Map();
+
+  for (const declaredDependency of formula.dependencies ?? []) {
+    const { alias } = declaredDependency;
+    if (
+      dependencyOutputs.has(alias) ||
+      inputVariables.has(alias) ||
+      expressionVariables.has(alias)
+    ) {
+      throw new FormulaValidationError(
+        "FORMULA_DUPLICATE_VARIABLE",
+        `Dependency alias ${alias} is already defined`,
+      );
+    }
+
+    const dependency = dependencies[alias];
+    const dependencyInputs = new Map(
+      dependency.definition.inputs.map((input) => [input.variable, input]),
+    );
+
+    for (const [variable, expression] of Object.entries(declaredDependency.inputBindings)) {
+      const dependencyInput = dependencyInputs.get(variable);
+      if (!dependencyInput) {
+        throw new FormulaValidationError(
+          "FORMULA_INVALID_DEPENDENCY_BINDING",
+          `Dependency ${alias} has no input named ${variable}`,
+        );
+      }
+
+      const bindingDimension = validateSingleExpression(
+        expression,
+        `${alias}.${variable}`,
+        inputVariables,
+        {
+          dependencyOutputs: new Map(),
+          lookupTables,
+          variableDimensions: inputDimensions,
+        },
+      );
+      validateBindingUnit(
+        alias,
+        dependencyInput,
+        inputUnits.get(expression.trim()),
+        bindingDimension,
+      );
+    }
+
+    for (const input of dependency.definition.inputs) {
+      if (
+        input.defaultValue === undefined &&
+        !(input.variable in declaredDependency.inputBindings)
+      ) {
+        throw new FormulaValidationError(
+          "FORMULA_INVALID_DEPENDENCY_BINDING",
+          `Dependency ${alias} requires a binding for input ${input.variable}`,
+        );
+      }
+    }
+
+    const outputs: Array<[string, string | undefined]> = dependency.definition.outputs?.length
+      ? dependency.definition.outputs.map((output) => [output.variable, output.unit])
+      : dependency.definition.expressions.map((expression) => [expression.variable, undefined]);
+    dependencyOutputs.set(alias, new Map(outputs));
+  }
+
+  return dependencyOutputs;
+}
+
+function validateBindingUnit(
+  alias: string,
+  dependencyInput: FormulaInputDefinition,
+  sourceUnit: string | undefined,
+  bindingDimension: DimensionVector | undefined,
+): void {
+  const targetDimension = getUnitDimensionVector(dependencyInput.unit);
+  const isIncompatibleUnit =
+    sourceUnit !== undefined &&
+    findUnit(sourceUnit) !== undefined &&
+    findUnit(dependencyInput.unit) !== undefined &&
+    !areUnitsCompatible(sourceUnit, dependencyInput.unit);
+  const isIncompatibleDimension =
+    bindingDimension !== undefined &&
+    targetDimension !== undefined &&
+    !isSameDimension(bindingDimension, DIMENSIONLESS) &&
+    !isSameDimension(targetDimension, DIMENSIONLESS) &&
+    !isSameDimension(bindingDimension, targetDimension);
+
+  if (isIncompatibleUnit || isIncompatibleDimension) {
+    throw new FormulaValidationError(
+      "FORMULA_INCOMPATIBLE_UNIT",
+      `Dependency ${alias} input ${dependencyInput.variable} expects ${dependencyInput.unit}`,
+    );
+  }
+}
+
+function validateReservedVariables(formula: FormulaDefinition): void {
+  const variables = [
+    ...formula.inputs.map((input) => input.variable),
+    ...formula.expressions.map((expression) => expression.variable),
+    ...(formula.dependencies ?? []).map((dependency) => dependency.alias),
+  ];
+
+  for (const variable of variables) {
+    if (RESERVED_VARIABLES.has(variable)) {
+      throw new FormulaValidationError(
+        "FORMULA_RESERVED_VARIABLE",
+        `Variable name ${variable} is reserved`,
+      );
+    }
+  }
+}
+
+function dryRunBoundaryEvaluation(
+  formula: FormulaDefinition,
+  dependencies: ResolvedFormulaDependencies,
+  lookupTables: FormulaLookupTables,
+): void {
+  const context = { dependencies, lookupTables };
+
+  try {
+    evaluateFormula(formula, buildBoundaryInputs(formula, "min"), context);
+    evaluateFormula(formula, buildBoundaryInputs(formula, "max"), context);
   } catch (error) {
     if (error instanceof FormulaEvaluationError) {
       throw new FormulaValidationError("FORMULA_DRY_RUN_FAILED", error.message, error.details);
@@ -141,10 +666,28 @@ function dryRunBoundaryEvaluation(formula: FormulaDefinition): void {
   }
 }
 
-export function validateFormula(formula: FormulaDefinition): void {
+/**
+ * Validates a formula definition. Formulas that declare dependencies need `options.lookup`
+ * to resolve them; `options.formulaName` lets a formula that references itself be reported
+ * as a cycle. `lookup("table", key)` calls are checked against `options.lookupTables`.
+ * Dimensions are inferred from registered input units so that, for example, adding a length to
+ * an area is rejected.
+ */
+export function validateFormula(
+  formula: FormulaDefinition,
+  options: FormulaValidationOptions = {},
+): void {
   validateInputConstraints(formula);
+  validateReservedVariables(formula);
+
+  const lookupTables = options.lookupTables ?? {};
+  const dependencies = resolveDependencies(formula, options);
+  const dependencyOutputs = validateDependencyBindings(formula, dependencies, lookupTables);
 
   const availableVariables = new Set(formula.inputs.map((input) => input.variable));
+  const variableDimensions: VariableDimensions = new Map(
+    formula.inputs.map((input) => [input.variable, getUnitDimensionVector(input.unit)]),
+  );
 
   for (const expression of formula.expressions) {
     if (availableVariables.has(expression.variable)) {
@@ -154,9 +697,68 @@ export function validateFormula(formula: FormulaDefinition): void {
       );
     }
 
-    validateSingleExpression(expression.expression, expression.variable, availableVariables);
+    const dimension = validateSingleExpression(
+      expression.expression,
+      expression.variable,
+      availableVariables,
+      {
+        dependencyOutputs,
+        lookupTables,
+        variableDimensions,
+      },
+    );
     availableVariables.add(expression.variable);
+    variableDimensions.set(expression.variable, dimension);
+  }
+
+  dryRunBoundaryEvaluation(formula, dependencies, lookupTables);
+}
+
+function collectExpressionLookupTableNames(expression: string, names: Set<string>): void {
+  let parsedNode: MathNode;
+
+  try {
+    parsedNode = math.parse(expression);
+  } catch {
+    return;
+  }
+
+  parsedNode.traverse((node, path, parent) => {
+    if (!isNodeOfType(node, "isConstantNode") || !isLookupTableNameNode(path, parent)) {
+      return;
+    }
+
+    const value = (node as unknown as { value: unknown }).value;
+    if (typeof value === "string") {
+      names.add(value);
+    }
+  });
+}
+
+/**
+ * Lists the lookup tables referenced by a formula and, when provided, its resolved dependencies.
+ */
+export function collectLookupTableNames(
+  formula: FormulaDefinition,
+  dependencies: ResolvedFormulaDependencies = {},
+): string[] {
+  const names = new Set<string>();
+
+  for (const expression of formula.expressions) {
+    collectExpressionLookupTableNames(expression.expression, names);
+  }
+
+  for (const dependency of formula.dependencies ?? []) {
+    for (const expression of Object.values(dependency.inputBindings)) {
+      collectExpressionLookupTableNames(expression, names);
+    }
+  }
+
+  for (const dependency of Object.values(dependencies)) {
+    for (const name of collectLookupTableNames(dependency.definition, dependency.dependencies)) {
+      names.add(name);
+    }
   }
 
-  dryRunBoundaryEvaluation(formula);
+  return [...names];
 }
@@ -1,9 +1,44 @@
 import { createApp } from "./app";
+import { prisma } from "./prisma/client";
+import { startPdfJobWorker, stopPdfJobWorker } from "./services/pdf.service";
 
 const PORT = process.env.PORT ? Number(process.env.PORT) : 4000;
 const app = createApp();
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   // eslint-disable-next-line no-console
   console.log(`Server listening on port ${PORT}`);
 });
+
+// Instances that should only serve HTTP can leave rendering to dedicated worker instances.
+if (process.env.PDF_WORKER_ENABLED !== "false") {
+  startPdfJobWorker();
+}
+
+let shuttingDown = false;
+
+// The worker and its browsers stop before Prisma disconnects, so no job is claimed or finished on a
+// closed connection.
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+
+  // eslint-disable-next-line no-console
+  console.log(`Received ${signal}, shutting down`);
+  server.close();
+
+  try {
+    await stopPdfJobWorker();
+    await prisma.$disconnect();
+  } catch (error) {
+    console.error("Shutdown failed.", error);
+    process.exitCode = 1;
+  }
+
+  process.exit();
+}
+
+process.on("SIGTERM", (signal) => void shutdown(signal));
+process.on("SIGINT", (signal) => void shutdown(signal));
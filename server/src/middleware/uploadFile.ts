@@ -0,0 +1,63 @@
+import type { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import { AppError } from "../errors/app-error";
+
+type UploadOptions = {
+  maxBytes: number;
+  allowedExtensions: string[];
+};
+
+/**
+ * Accepts a single multipart file held in memory as `req.file`. Other multipart fields land in
+ * `req.body` as strings for `validate` to parse.
+ */
+export function uploadSingleFile(fieldName: string, options: UploadOptions) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: options.maxBytes,
+      files: 1,
+    },
+  }).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        next(
+          error.code === "LIMIT_FILE_SIZE"
+            ? new AppError(
+                413,
+                "UPLOAD_TOO_LARGE",
+                `File must be at most ${Math.floor(options.maxBytes / (1024 * 1024))} MB`,
+              )
+            : new AppError(400, "UPLOAD_INVALID", error.message),
+        );
+        return;
+      }
+
+      if (error) {
+        next(error);
+        return;
+      }
+
+      if (!req.file) {
+        next(new AppError(400, "UPLOAD_MISSING", `A file is required in the ${fieldName} field`));
+        return;
+      }
+
+      const extension = req.file.originalname.split(".").pop()?.toLowerCase() ?? "";
+      if (!options.allowedExtensions.includes(extension)) {
+        next(
+          new AppError(
+            415,
+            "UPLOAD_UNSUPPORTED_TYPE",
+            `Only ${options.allowedExtensions.map((value) => `.${value}`).join(", ")} files are accepted`,
+          ),
+        );
+        return;
+      }
+
+      next();
+    });
+  };
+}
@@ -1,7 +1,6 @@
 import bcrypt from "bcrypt";
 import {
   CalculationSource,
-  Category,
   EstimateStatus,
   Prisma,
   ProjectStatus,
@@ -12,9 +11,16 @@ import { MVP_FORMULA_SEEDS } from "../formulas/seeds";
 import { evaluateFormula } from "../formulas/evaluator";
 import type { FormulaSeedDefinition } from "../formulas/types";
 import { prisma } from "./client";
+import { seedDefaultCategoriesForOrganization } from "../services/category.service";
 import { seedMvpFormulasForOrganization } from "../services/formula-seed.service";
 import { calculateTotals } from "../services/estimate.service";
-import { enqueueEstimatePdfJob, getPdfJobDownload, getPdfJobStatus } from "../services/pdf.service";
+import {
+  enqueueEstimatePdfJob,
+  getPdfJobDownload,
+  getPdfJobStatus,
+  startPdfJobWorker,
+  stopPdfJobWorker,
+} from "../services/pdf.service";
 import { logAudit } from "../services/audit.service";
 
 const DEMO_ORGANIZATION_NAME = "Demo Construction Co.";
@@ -46,7 +52,7 @@ type FormulaRecord = {
   id: string;
   name: string;
   description: string;
-  category: Category;
+  category: string;
   version: number;
   isActive: boolean;
   createdBy: string;
@@ -55,7 +61,7 @@ type FormulaRecord = {
 
 type ManualLineItemSeed = {
   kind: "manual";
-  category: Category;
+  category: string;
   description: string;
   quantity: number;
   unit: string;
@@ -65,7 +71,7 @@ type ManualLineItemSeed = {
 
 type FormulaLineItemSeed = {
   kind: "formula";
-  category: Category;
+  category: string;
   description: string;
   formulaName: string;
   outputVariable: string;
@@ -141,7 +147,7 @@ async function waitForPdfJobCompletion(
   const pollIntervalMs = 500;
 
   for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
-    const status = getPdfJobStatus({
+    const status = await getPdfJobStatus({
       organizationId,
       jobId,
     });
@@ -207,10 +213,12 @@ async function createEstimateSeed(input: CreateEstimateSeedInput): Promise<{ est
 
     const itemsForTotals: Array<{
       id: string;
-      category: Category;
+      category: string;
       quantity: Prisma.Decimal;
       unitMaterialCost: Prisma.Decimal;
       unitLaborCost: Prisma.Decimal;
+      markupRate: Prisma.Decimal | null;
+      vatExempt: boolean;
     }> = [];
 
     for (const lineItemSeed of input.lineItems) {
@@ -272,6 +280,8 @@ async function createEstimateSeed(input: CreateEstimateSeedInput): Promise<{ est
           quantity: lineItem.quantity,
           unitMaterialCost: lineItem.unitMaterialCost,
           unitLaborCost: lineItem.unitLaborCost,
+          markupRate: null,
+          vatExempt: false,
         });
         continue;
       }
@@ -376,6 +386,8 @@ async function createEstimateSeed(input: CreateEstimateSeedInput): Promise<{ est
         quantity: lineItem.quantity,
         unitMaterialCost: lineItem.unitMaterialCost,
         unitLaborCost: lineItem.unitLaborCost,
+        markupRate: null,
+        vatExempt: false,
       });
     }
 
@@ -401,6 +413,8 @@ async function createEstimateSeed(input: CreateEstimateSeedInput): Promise<{ est
         status: input.status,
         subtotal: totals.subtotal,
         markupAmount: totals.markupAmount,
+        vatableSales: totals.vatableSales,
+        vatExemptSales: totals.vatExemptSales,
         vatAmount: totals.vatAmount,
         totalAmount: totals.totalAmount,
       },
@@ -530,6 +544,11 @@ async function main(): Promise<void> {
     }),
   ]);
 
+  await seedDefaultCategoriesForOrganization({
+    organizationId: organization.id,
+    createdBy: adminUser.id,
+  });
+
   await seedMvpFormulasForOrganization({
     organizationId: organization.id,
     createdBy: adminUser.id,
@@ -628,7 +647,7 @@ async function main(): Promise<void> {
     lineItems: [
       {
         kind: "formula",
-        category: Category.CONCRETE_WORKS,
+        category: "CONCRETE_WORKS",
         description: "Concrete - Portland Cement",
         formulaName: "Concrete Slab",
         outputVariable: "cement_bags",
@@ -643,7 +662,7 @@ async function main(): Promise<void> {
       },
       {
         kind: "formula",
-        category: Category.MASONRY_WORKS,
+        category: "MASONRY_WORKS",
         description: "CHB 4in Blocks",
         formulaName: "CHB Wall",
         outputVariable: "chb_count",
@@ -658,7 +677,7 @@ async function main(): Promise<void> {
       },
       {
         kind: "formula",
-        category: Category.PAINTING_WORKS,
+        category: "PAINTING_WORKS",
         description: "Wall Topcoat Paint",
         formulaName: "Painting Works",
         outputVariable: "paint_liters",
@@ -674,7 +693,7 @@ async function main(): Promise<void> {
       },
       {
         kind: "manual",
-        category: Category.GENERAL_REQUIREMENTS,
+        category: "GENERAL_REQUIREMENTS",
         description: "Temporary Site Signages",
         quantity: 8,
         unit: "pcs",
@@ -683,7 +702,7 @@ async function main(): Promise<void> {
       },
       {
         kind: "manual",
-        category: Category.GENERAL_REQUIREMENTS,
+        category: "GENERAL_REQUIREMENTS",
         description: "Post-Work Site Cleanup",
         quantity: 1,
         unit: "lot",
@@ -706,7 +725,7 @@ async function main(): Promise<void> {
     lineItems: [
       {
         kind: "formula",
-        category: Category.CONCRETE_WORKS,
+        category: "CONCRETE_WORKS",
         description: "Concrete - Portland Cement",
         formulaName: "Concrete Slab",
         outputVariable: "cement_bags",
@@ -721,7 +740,7 @@ async function main(): Promise<void> {
       },
       {
         kind: "manual",
-        category: Category.GENERAL_REQUIREMENTS,
+        category: "GENERAL_REQUIREMENTS",
         description: "Mobilization and Demobilization",
         quantity: 1,
         unit: "lot",
@@ -744,7 +763,7 @@ async function main(): Promise<void> {
     lineItems: [
       {
         kind: "manual",
-        category: Category.CARPENTRY,
+        category: "CARPENTRY",
         description: "Gypsum Ceiling Framing",
         quantity: 120,
         unit: "m2",
@@ -753,7 +772,7 @@ async function main(): Promise<void> {
       },
       {
         kind: "manual",
-        category: Category.DOORS_AND_WINDOWS,
+        category: "DOORS_AND_WINDOWS",
         description: "Aluminum Window Supply and Install",
         quantity: 18,
         unit: "set",
@@ -764,6 +783,7 @@ async function main(): Promise<void> {
   });
 
   let pdfGenerationStatus = "not-attempted";
+  startPdfJobWorker();
   try {
     const queued = await enqueueEstimatePdfJob({
       organizationId: organization.id,
@@ -787,6 +807,8 @@ async function main(): Promise<void> {
     }
   } catch (error) {
     pdfGenerationStatus = `failed (${error instanceof Error ? error.message : "unknown error"})`;
+  } finally {
+    await stopPdfJobWorker();
   }
 
   console.info(`Demo seed complete for organization: ${organization.name}`);
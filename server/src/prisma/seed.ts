@@ -1,5 +1,6 @@
 import { UserRole } from "@prisma/client";
 import { prisma } from "./client";
+import { seedDefaultCategoriesForOrganization } from "../services/category.service";
 import { seedMvpFormulasForOrganization } from "../services/formula-seed.service";
 
 async function main(): Promise<void> {
@@ -23,6 +24,11 @@ async function main(): Promise<void> {
     return;
   }
 
+  await seedDefaultCategoriesForOrganization({
+    organizationId: seedOwner.organizationId,
+    createdBy: seedOwner.id,
+  });
+
   const createdCount = await seedMvpFormulasForOrganization({
     organizationId: seedOwner.organizationId,
     createdBy: seedOwner.id,
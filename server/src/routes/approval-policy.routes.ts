@@ -0,0 +1,30 @@
+import { UserRole } from "@prisma/client";
+import { Router } from "express";
+import {
+  getApprovalPolicyController,
+  updateApprovalPolicyController,
+} from "../controllers/approval-policy.controller";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { scopeToOrg } from "../middleware/scopeToOrg";
+import { validate } from "../middleware/validate";
+import { updateApprovalPolicyBodySchema } from "../schemas/approval-policy.schemas";
+
+const approvalPolicyRouter = Router();
+
+approvalPolicyRouter.use(authenticate, scopeToOrg);
+
+approvalPolicyRouter.get(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  getApprovalPolicyController,
+);
+
+approvalPolicyRouter.put(
+  "/",
+  authorize([UserRole.ADMIN]),
+  validate({ body: updateApprovalPolicyBodySchema }),
+  updateApprovalPolicyController,
+);
+
+export { approvalPolicyRouter };
@@ -0,0 +1,61 @@
+import { UserRole } from "@prisma/client";
+import { Router } from "express";
+import {
+  deleteBrandingLogoController,
+  getBrandingController,
+  getBrandingLogoController,
+  previewQuotationController,
+  updateBrandingController,
+  uploadBrandingLogoController,
+} from "../controllers/branding.controller";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { scopeToOrg } from "../middleware/scopeToOrg";
+import { uploadSingleFile } from "../middleware/uploadFile";
+import { validate } from "../middleware/validate";
+import { previewQuotationBodySchema, updateBrandingBodySchema } from "../schemas/branding.schemas";
+import { LOGO_FILE_EXTENSIONS, MAX_LOGO_FILE_BYTES } from "../services/branding.service";
+
+const brandingRouter = Router();
+
+brandingRouter.use(authenticate, scopeToOrg);
+
+brandingRouter.get(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  getBrandingController,
+);
+
+brandingRouter.put(
+  "/",
+  authorize([UserRole.ADMIN]),
+  validate({ body: updateBrandingBodySchema }),
+  updateBrandingController,
+);
+
+brandingRouter.get(
+  "/logo",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  getBrandingLogoController,
+);
+
+brandingRouter.put(
+  "/logo",
+  authorize([UserRole.ADMIN]),
+  uploadSingleFile("logo", {
+    maxBytes: MAX_LOGO_FILE_BYTES,
+    allowedExtensions: LOGO_FILE_EXTENSIONS,
+  }),
+  uploadBrandingLogoController,
+);
+
+brandingRouter.delete("/logo", authorize([UserRole.ADMIN]), deleteBrandingLogoController);
+
+brandingRouter.post(
+  "/preview",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ body: previewQuotationBodySchema }),
+  previewQuotationController,
+);
+
+export { brandingRouter };
@@ -0,0 +1,58 @@
+import { UserRole } from "@prisma/client";
+import { Router } from "express";
+import {
+  createCategoryController,
+  deleteCategoryController,
+  getCategoryByIdController,
+  getCategoriesController,
+  updateCategoryController,
+} from "../controllers/category.controller";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { scopeToOrg } from "../middleware/scopeToOrg";
+import { validate } from "../middleware/validate";
+import {
+  createCategoryBodySchema,
+  categoryIdParamSchema,
+  updateCategoryBodySchema,
+} from "../schemas/category.schemas";
+
+const categoriesRouter = Router();
+
+categoriesRouter.use(authenticate, scopeToOrg);
+
+categoriesRouter.get(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  getCategoriesController,
+);
+
+categoriesRouter.post(
+  "/",
+  authorize([UserRole.ADMIN]),
+  validate({ body: createCategoryBodySchema }),
+  createCategoryController,
+);
+
+categoriesRouter.get(
+  "/:id",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: categoryIdParamSchema }),
+  getCategoryByIdController,
+);
+
+categoriesRouter.put(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: categoryIdParamSchema, body: updateCategoryBodySchema }),
+  updateCategoryController,
+);
+
+categoriesRouter.delete(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: categoryIdParamSchema }),
+  deleteCategoryController,
+);
+
+export { categoriesRouter };
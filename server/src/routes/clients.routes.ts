@@ -0,0 +1,60 @@
+import { UserRole } from "@prisma/client";
+import { Router } from "express";
+import {
+  createClientController,
+  deleteClientController,
+  getClientByIdController,
+  getClientsController,
+  updateClientController,
+} from "../controllers/client.controller";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { scopeToOrg } from "../middleware/scopeToOrg";
+import { validate } from "../middleware/validate";
+import {
+  clientIdParamSchema,
+  createClientBodySchema,
+  getClientsQuerySchema,
+  updateClientBodySchema,
+} from "../schemas/client.schemas";
+
+const clientsRouter = Router();
+
+clientsRouter.use(authenticate, scopeToOrg);
+
+clientsRouter.get(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ query: getClientsQuerySchema }),
+  getClientsController,
+);
+
+clientsRouter.post(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ body: createClientBodySchema }),
+  createClientController,
+);
+
+clientsRouter.get(
+  "/:id",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: clientIdParamSchema }),
+  getClientByIdController,
+);
+
+clientsRouter.put(
+  "/:id",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: clientIdParamSchema, body: updateClientBodySchema }),
+  updateClientController,
+);
+
+clientsRouter.delete(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: clientIdParamSchema }),
+  deleteClientController,
+);
+
+export { clientsRouter };
@@ -0,0 +1,43 @@
+import { UserRole } from "@prisma/client";
+import { Router } from "express";
+import {
+  getEmailTemplatesController,
+  previewEmailTemplateController,
+  resetEmailTemplateController,
+  updateEmailTemplateController,
+} from "../controllers/email-template.controller";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { scopeToOrg } from "../middleware/scopeToOrg";
+import { validate } from "../middleware/validate";
+import {
+  emailTemplateKeyParamSchema,
+  previewEmailTemplateBodySchema,
+  updateEmailTemplateBodySchema,
+} from "../schemas/email-template.schemas";
+
+const emailTemplatesRouter = Router();
+
+emailTemplatesRouter.use(authenticate, scopeToOrg, authorize([UserRole.ADMIN]));
+
+emailTemplatesRouter.get("/", getEmailTemplatesController);
+
+emailTemplatesRouter.put(
+  "/:key",
+  validate({ params: emailTemplateKeyParamSchema, body: updateEmailTemplateBodySchema }),
+  updateEmailTemplateController,
+);
+
+emailTemplatesRouter.delete(
+  "/:key",
+  validate({ params: emailTemplateKeyParamSchema }),
+  resetEmailTemplateController,
+);
+
+emailTemplatesRouter.post(
+  "/:key/preview",
+  validate({ params: emailTemplateKeyParamSchema, body: previewEmailTemplateBodySchema }),
+  previewEmailTemplateController,
+);
+
+export { emailTemplatesRouter };
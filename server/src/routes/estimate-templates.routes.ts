@@ -0,0 +1,58 @@
+import { UserRole } from "@prisma/client";
+import { Router } from "express";
+import {
+  createEstimateTemplateController,
+  deleteEstimateTemplateController,
+  getEstimateTemplateByIdController,
+  getEstimateTemplatesController,
+  updateEstimateTemplateController,
+} from "../controllers/estimate-template.controller";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { scopeToOrg } from "../middleware/scopeToOrg";
+import { validate } from "../middleware/validate";
+import {
+  createEstimateTemplateBodySchema,
+  estimateTemplateIdParamSchema,
+  updateEstimateTemplateBodySchema,
+} from "../schemas/estimate-template.schemas";
+
+const estimateTemplatesRouter = Router();
+
+estimateTemplatesRouter.use(authenticate, scopeToOrg);
+
+estimateTemplatesRouter.get(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  getEstimateTemplatesController,
+);
+
+estimateTemplatesRouter.post(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ body: createEstimateTemplateBodySchema }),
+  createEstimateTemplateController,
+);
+
+estimateTemplatesRouter.get(
+  "/:id",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: estimateTemplateIdParamSchema }),
+  getEstimateTemplateByIdController,
+);
+
+estimateTemplatesRouter.put(
+  "/:id",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateTemplateIdParamSchema, body: updateEstimateTemplateBodySchema }),
+  updateEstimateTemplateController,
+);
+
+estimateTemplatesRouter.delete(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: estimateTemplateIdParamSchema }),
+  deleteEstimateTemplateController,
+);
+
+export { estimateTemplatesRouter };
@@ -1,5 +1,34 @@
 import { UserRole } from "@prisma/client";
 import { Router } from "express";
+import {
+  getEstimateQuotationController,
+  updateEstimateQuotationController,
+} from "../controllers/branding.controller";
+import { compareEstimatesController } from "../controllers/comparison.controller";
+import {
+  computeIntoEstimateController,
+  deleteComputationGroupController,
+  recomputeComputationGroupController,
+} from "../controllers/computation.controller";
+import {
+  createEstimateCommentController,
+  deleteEstimateCommentController,
+  getCommentParticipantsController,
+  getEstimateCommentsController,
+  resolveEstimateCommentController,
+  unresolveEstimateCommentController,
+  updateEstimateCommentController,
+} from "../controllers/estimate-comment.controller";
+import {
+  getEstimateEmailsController,
+  sendEstimateEmailController,
+} from "../controllers/estimate-email.controller";
+import {
+  approveEstimateController,
+  getEstimateReviewsController,
+  rejectEstimateController,
+  submitEstimateForReviewController,
+} from "../controllers/estimate-review.controller";
 import {
   archiveEstimateController,
   duplicateEstimateController,
@@ -9,22 +38,78 @@ import {
   softDeleteEstimateController,
   updateEstimateController,
 } from "../controllers/estimate.controller";
-import { requestEstimatePdfController } from "../controllers/pdf.controller";
-import { createEstimateLineItemController } from "../controllers/line-item.controller";
+import {
+  requestEstimatePdfController,
+  requestEstimateXlsxController,
+} from "../controllers/pdf.controller";
+import {
+  applyRepricingController,
+  previewRepricingController,
+} from "../controllers/repricing.controller";
+import {
+  createShareLinkController,
+  getShareLinksController,
+  revokeShareLinkController,
+} from "../controllers/share-link.controller";
+import {
+  createEstimateLineItemController,
+  importEstimateLineItemsController,
+} from "../controllers/line-item.controller";
 import { authenticate } from "../middleware/authenticate";
 import { authorize } from "../middleware/authorize";
 import { scopeToOrg } from "../middleware/scopeToOrg";
+import { uploadSingleFile } from "../middleware/uploadFile";
 import { validate } from "../middleware/validate";
+import { updateEstimateQuotationBodySchema } from "../schemas/branding.schemas";
+import { compareEstimatesParamSchema } from "../schemas/comparison.schemas";
+import {
+  computationGroupParamSchema,
+  computeIntoEstimateBodySchema,
+  estimateComputationsParamSchema,
+  recomputeComputationGroupBodySchema,
+} from "../schemas/computation.schemas";
+import {
+  createEstimateCommentBodySchema,
+  estimateCommentParamSchema,
+  updateEstimateCommentBodySchema,
+} from "../schemas/estimate-comment.schemas";
+import { sendEstimateEmailBodySchema } from "../schemas/estimate-email.schemas";
+import {
+  reviewEstimateBodySchema,
+  submitEstimateReviewBodySchema,
+} from "../schemas/estimate-review.schemas";
 import { estimateIdParamSchema, updateEstimateBodySchema } from "../schemas/estimate.schemas";
 import {
   createEstimateLineItemBodySchema,
   estimateLineItemsParamSchema,
+  importLineItemsBodySchema,
 } from "../schemas/line-item.schemas";
+import { requestEstimatePdfBodySchema } from "../schemas/pdf.schemas";
+import { applyRepricingBodySchema, repriceEstimatesBodySchema } from "../schemas/repricing.schemas";
+import { createShareLinkBodySchema, shareLinkParamSchema } from "../schemas/share-link.schemas";
+import {
+  IMPORT_FILE_EXTENSIONS,
+  MAX_IMPORT_FILE_BYTES,
+} from "../services/line-item-import.service";
 
 const estimatesRouter = Router();
 
 estimatesRouter.use(authenticate, scopeToOrg);
 
+estimatesRouter.post(
+  "/repricing/preview",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ body: repriceEstimatesBodySchema }),
+  previewRepricingController,
+);
+
+estimatesRouter.post(
+  "/repricing/apply",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ body: applyRepricingBodySchema }),
+  applyRepricingController,
+);
+
 estimatesRouter.get(
   "/:id",
   authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
@@ -32,6 +117,13 @@ estimatesRouter.get(
   getEstimateByIdController,
 );
 
+estimatesRouter.get(
+  "/:id/compare/:otherId",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: compareEstimatesParamSchema }),
+  compareEstimatesController,
+);
+
 estimatesRouter.patch(
   "/:id",
   authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
@@ -46,6 +138,38 @@ estimatesRouter.post(
   createEstimateLineItemController,
 );
 
+estimatesRouter.post(
+  "/:estimateId/line-items/import",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  uploadSingleFile("file", {
+    maxBytes: MAX_IMPORT_FILE_BYTES,
+    allowedExtensions: IMPORT_FILE_EXTENSIONS,
+  }),
+  validate({ params: estimateLineItemsParamSchema, body: importLineItemsBodySchema }),
+  importEstimateLineItemsController,
+);
+
+estimatesRouter.post(
+  "/:estimateId/computations",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateComputationsParamSchema, body: computeIntoEstimateBodySchema }),
+  computeIntoEstimateController,
+);
+
+estimatesRouter.post(
+  "/:estimateId/computations/:groupId/recompute",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: computationGroupParamSchema, body: recomputeComputationGroupBodySchema }),
+  recomputeComputationGroupController,
+);
+
+estimatesRouter.delete(
+  "/:estimateId/computations/:groupId",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: computationGroupParamSchema }),
+  deleteComputationGroupController,
+);
+
 estimatesRouter.post(
   "/:id/duplicate",
   authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
@@ -60,13 +184,146 @@ estimatesRouter.post(
   finalizeEstimateController,
 );
 
+estimatesRouter.get(
+  "/:id/reviews",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: estimateIdParamSchema }),
+  getEstimateReviewsController,
+);
+
 estimatesRouter.post(
-  "/:id/pdf",
+  "/:id/submit-review",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateIdParamSchema, body: submitEstimateReviewBodySchema }),
+  submitEstimateForReviewController,
+);
+
+estimatesRouter.post(
+  "/:id/approve",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateIdParamSchema, body: reviewEstimateBodySchema }),
+  approveEstimateController,
+);
+
+estimatesRouter.post(
+  "/:id/reject",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateIdParamSchema, body: reviewEstimateBodySchema }),
+  rejectEstimateController,
+);
+
+estimatesRouter.get(
+  "/:id/comments",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: estimateIdParamSchema }),
+  getEstimateCommentsController,
+);
+
+estimatesRouter.get(
+  "/:id/comments/participants",
   authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
   validate({ params: estimateIdParamSchema }),
+  getCommentParticipantsController,
+);
+
+estimatesRouter.post(
+  "/:id/comments",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateIdParamSchema, body: createEstimateCommentBodySchema }),
+  createEstimateCommentController,
+);
+
+estimatesRouter.patch(
+  "/:id/comments/:commentId",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateCommentParamSchema, body: updateEstimateCommentBodySchema }),
+  updateEstimateCommentController,
+);
+
+estimatesRouter.delete(
+  "/:id/comments/:commentId",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateCommentParamSchema }),
+  deleteEstimateCommentController,
+);
+
+estimatesRouter.post(
+  "/:id/comments/:commentId/resolve",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateCommentParamSchema }),
+  resolveEstimateCommentController,
+);
+
+estimatesRouter.post(
+  "/:id/comments/:commentId/unresolve",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateCommentParamSchema }),
+  unresolveEstimateCommentController,
+);
+
+estimatesRouter.post(
+  "/:id/pdf",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: estimateIdParamSchema, body: requestEstimatePdfBodySchema }),
   requestEstimatePdfController,
 );
 
+estimatesRouter.post(
+  "/:id/xlsx",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: estimateIdParamSchema }),
+  requestEstimateXlsxController,
+);
+
+estimatesRouter.post(
+  "/:id/send",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateIdParamSchema, body: sendEstimateEmailBodySchema }),
+  sendEstimateEmailController,
+);
+
+estimatesRouter.get(
+  "/:id/sends",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: estimateIdParamSchema }),
+  getEstimateEmailsController,
+);
+
+estimatesRouter.get(
+  "/:id/share-links",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: estimateIdParamSchema }),
+  getShareLinksController,
+);
+
+estimatesRouter.post(
+  "/:id/share-links",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateIdParamSchema, body: createShareLinkBodySchema }),
+  createShareLinkController,
+);
+
+estimatesRouter.delete(
+  "/:id/share-links/:linkId",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: shareLinkParamSchema }),
+  revokeShareLinkController,
+);
+
+estimatesRouter.get(
+  "/:id/quotation",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: estimateIdParamSchema }),
+  getEstimateQuotationController,
+);
+
+estimatesRouter.put(
+  "/:id/quotation",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ params: estimateIdParamSchema, body: updateEstimateQuotationBodySchema }),
+  updateEstimateQuotationController,
+);
+
 estimatesRouter.patch(
   "/:id/archive",
   authorize([UserRole.ADMIN]),
@@ -1,10 +1,15 @@
 import { UserRole } from "@prisma/client";
 import { Router } from "express";
+import {
+  applyFormulaUpgradesController,
+  getOutdatedComputationsController,
+} from "../controllers/computation.controller";
 import {
   createFormulaController,
   deactivateFormulaController,
   getFormulaByIdController,
   getFormulasController,
+  getFormulaUnitsController,
   getFormulaVersionsController,
   testFormulaController,
   updateFormulaController,
@@ -13,6 +18,10 @@ import { authenticate } from "../middleware/authenticate";
 import { authorize } from "../middleware/authorize";
 import { scopeToOrg } from "../middleware/scopeToOrg";
 import { validate } from "../middleware/validate";
+import {
+  applyFormulaUpgradesBodySchema,
+  getOutdatedComputationsQuerySchema,
+} from "../schemas/computation.schemas";
 import {
   createFormulaBodySchema,
   formulaIdParamSchema,
@@ -32,6 +41,26 @@ formulasRouter.get(
   getFormulasController,
 );
 
+formulasRouter.get(
+  "/units",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  getFormulaUnitsController,
+);
+
+formulasRouter.get(
+  "/outdated-computations",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ query: getOutdatedComputationsQuerySchema }),
+  getOutdatedComputationsController,
+);
+
+formulasRouter.post(
+  "/outdated-computations/apply",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR]),
+  validate({ body: applyFormulaUpgradesBodySchema }),
+  applyFormulaUpgradesController,
+);
+
 formulasRouter.post(
   "/",
   authorize([UserRole.ADMIN]),
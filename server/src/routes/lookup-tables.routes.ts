@@ -0,0 +1,60 @@
+import { UserRole } from "@prisma/client";
+import { Router } from "express";
+import {
+  createLookupTableController,
+  deleteLookupTableController,
+  getLookupTableByIdController,
+  getLookupTablesController,
+  updateLookupTableController,
+} from "../controllers/lookup-table.controller";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { scopeToOrg } from "../middleware/scopeToOrg";
+import { validate } from "../middleware/validate";
+import {
+  createLookupTableBodySchema,
+  getLookupTablesQuerySchema,
+  lookupTableIdParamSchema,
+  updateLookupTableBodySchema,
+} from "../schemas/lookup-table.schemas";
+
+const lookupTablesRouter = Router();
+
+lookupTablesRouter.use(authenticate, scopeToOrg);
+
+lookupTablesRouter.get(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ query: getLookupTablesQuerySchema }),
+  getLookupTablesController,
+);
+
+lookupTablesRouter.post(
+  "/",
+  authorize([UserRole.ADMIN]),
+  validate({ body: createLookupTableBodySchema }),
+  createLookupTableController,
+);
+
+lookupTablesRouter.get(
+  "/:id",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: lookupTableIdParamSchema }),
+  getLookupTableByIdController,
+);
+
+lookupTablesRouter.put(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: lookupTableIdParamSchema, body: updateLookupTableBodySchema }),
+  updateLookupTableController,
+);
+
+lookupTablesRouter.delete(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: lookupTableIdParamSchema }),
+  deleteLookupTableController,
+);
+
+export { lookupTablesRouter };
@@ -1,6 +1,12 @@
+import { UserRole } from "@prisma/client";
 import { Router } from "express";
-import { downloadPdfJobController, getPdfJobStatusController } from "../controllers/pdf.controller";
+import {
+  downloadPdfJobController,
+  getPdfJobMetricsController,
+  getPdfJobStatusController,
+} from "../controllers/pdf.controller";
 import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
 import { scopeToOrg } from "../middleware/scopeToOrg";
 import { validate } from "../middleware/validate";
 import { pdfJobIdParamSchema } from "../schemas/pdf.schemas";
@@ -9,6 +15,7 @@ const pdfJobsRouter = Router();
 
 pdfJobsRouter.use(authenticate, scopeToOrg);
 
+pdfJobsRouter.get("/metrics", authorize([UserRole.ADMIN]), getPdfJobMetricsController);
 pdfJobsRouter.get("/:jobId", validate({ params: pdfJobIdParamSchema }), getPdfJobStatusController);
 pdfJobsRouter.get(
   "/:jobId/download",
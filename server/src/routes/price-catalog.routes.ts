@@ -0,0 +1,67 @@
+import { UserRole } from "@prisma/client";
+import { Router } from "express";
+import {
+  createPriceCatalogItemController,
+  deletePriceCatalogItemController,
+  getPriceCatalogItemByIdController,
+  getPriceCatalogItemsController,
+  getStalePriceLineItemsController,
+  updatePriceCatalogItemController,
+} from "../controllers/price-catalog.controller";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { scopeToOrg } from "../middleware/scopeToOrg";
+import { validate } from "../middleware/validate";
+import {
+  createPriceCatalogItemBodySchema,
+  getPriceCatalogItemsQuerySchema,
+  priceCatalogItemIdParamSchema,
+  updatePriceCatalogItemBodySchema,
+} from "../schemas/price-catalog.schemas";
+
+const priceCatalogRouter = Router();
+
+priceCatalogRouter.use(authenticate, scopeToOrg);
+
+priceCatalogRouter.get(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ query: getPriceCatalogItemsQuerySchema }),
+  getPriceCatalogItemsController,
+);
+
+priceCatalogRouter.post(
+  "/",
+  authorize([UserRole.ADMIN]),
+  validate({ body: createPriceCatalogItemBodySchema }),
+  createPriceCatalogItemController,
+);
+
+priceCatalogRouter.get(
+  "/stale-line-items",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  getStalePriceLineItemsController,
+);
+
+priceCatalogRouter.get(
+  "/:id",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: priceCatalogItemIdParamSchema }),
+  getPriceCatalogItemByIdController,
+);
+
+priceCatalogRouter.put(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: priceCatalogItemIdParamSchema, body: updatePriceCatalogItemBodySchema }),
+  updatePriceCatalogItemController,
+);
+
+priceCatalogRouter.delete(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: priceCatalogItemIdParamSchema }),
+  deletePriceCatalogItemController,
+);
+
+export { priceCatalogRouter };
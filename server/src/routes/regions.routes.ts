@@ -0,0 +1,58 @@
+import { UserRole } from "@prisma/client";
+import { Router } from "express";
+import {
+  createRegionController,
+  deleteRegionController,
+  getRegionByIdController,
+  getRegionsController,
+  updateRegionController,
+} from "../controllers/region.controller";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { scopeToOrg } from "../middleware/scopeToOrg";
+import { validate } from "../middleware/validate";
+import {
+  createRegionBodySchema,
+  regionIdParamSchema,
+  updateRegionBodySchema,
+} from "../schemas/region.schemas";
+
+const regionsRouter = Router();
+
+regionsRouter.use(authenticate, scopeToOrg);
+
+regionsRouter.get(
+  "/",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  getRegionsController,
+);
+
+regionsRouter.post(
+  "/",
+  authorize([UserRole.ADMIN]),
+  validate({ body: createRegionBodySchema }),
+  createRegionController,
+);
+
+regionsRouter.get(
+  "/:id",
+  authorize([UserRole.ADMIN, UserRole.ESTIMATOR, UserRole.VIEWER]),
+  validate({ params: regionIdParamSchema }),
+  getRegionByIdController,
+);
+
+regionsRouter.put(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: regionIdParamSchema, body: updateRegionBodySchema }),
+  updateRegionController,
+);
+
+regionsRouter.delete(
+  "/:id",
+  authorize([UserRole.ADMIN]),
+  validate({ params: regionIdParamSchema }),
+  deleteRegionController,
+);
+
+export { regionsRouter };
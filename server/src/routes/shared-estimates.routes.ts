@@ -0,0 +1,34 @@
+import { Router } from "express";
+import {
+  respondToSharedEstimateController,
+  viewSharedEstimateController,
+} from "../controllers/share-link.controller";
+import { rateLimitByIp } from "../middleware/rateLimiter";
+import { validate } from "../middleware/validate";
+import {
+  respondToSharedEstimateBodySchema,
+  viewSharedEstimateBodySchema,
+} from "../schemas/share-link.schemas";
+
+// Public routes for clients holding a share link. The token travels in the body so it stays out
+// of request logs.
+const sharedEstimatesRouter = Router();
+const FIFTEEN_MINUTES_MS = 15 * 60 * 1000;
+const viewRateLimiter = rateLimitByIp({ windowMs: FIFTEEN_MINUTES_MS, maxRequests: 60 });
+const respondRateLimiter = rateLimitByIp({ windowMs: FIFTEEN_MINUTES_MS, maxRequests: 10 });
+
+sharedEstimatesRouter.post(
+  "/view",
+  viewRateLimiter,
+  validate({ body: viewSharedEstimateBodySchema }),
+  viewSharedEstimateController,
+);
+
+sharedEstimatesRouter.post(
+  "/respond",
+  respondRateLimiter,
+  validate({ body: respondToSharedEstimateBodySchema }),
+  respondToSharedEstimateController,
+);
+
+export { sharedEstimatesRouter };
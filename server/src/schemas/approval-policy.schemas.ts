@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const updateApprovalPolicyBodySchema = z.object({
+  requireReview: z.boolean(),
+  /** Estimates totalling more than this need an administrator to approve; null lets any reviewer. */
+  adminApprovalThreshold: z.coerce.number().min(0).max(1_000_000_000_000).nullable(),
+  /** Refuse to finalize while comment threads are open; otherwise the editor only warns. */
+  blockUnresolvedComments: z.boolean(),
+});
+
+export type UpdateApprovalPolicyBodyInput = z.infer<typeof updateApprovalPolicyBodySchema>;
@@ -1,7 +1,22 @@
 import { z } from "zod";
 import { dateRangeQuerySchema, paginationQuerySchema, uuidSchema } from "./common.schemas";
 
-export const auditEntityTypeSchema = z.enum(["Project", "Estimate", "LineItem", "Formula", "User"]);
+export const auditEntityTypeSchema = z.enum([
+  "Project",
+  "Estimate",
+  "EstimateApprovalPolicy",
+  "EstimateTemplate",
+  "LineItem",
+  "Formula",
+  "LookupTable",
+  "PriceCatalogItem",
+  "Region",
+  "Category",
+  "Client",
+  "OrganizationBranding",
+  "EmailTemplate",
+  "User",
+]);
 
 export const getAuditLogsQuerySchema = paginationQuerySchema.merge(dateRangeQuerySchema).extend({
   userId: uuidSchema.optional(),
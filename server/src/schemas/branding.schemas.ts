@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { uuidSchema } from "./common.schemas";
+import { pdfOptionsSchema } from "./pdf.schemas";
+
+const hexColorField = z
+  .string()
+  .trim()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Colors must be hex values such as #1f2937");
+const optionalTextField = (max: number) => z.string().trim().max(max).nullable().optional();
+const sectionTextField = (max: number) => z.string().trim().max(max).optional();
+
+const paymentMilestoneSchema = z.object({
+  label: z.string().trim().min(1).max(120),
+  percentage: z.number().gt(0).max(100),
+});
+
+const signatureBlockSchema = z.object({
+  label: z.string().trim().min(1).max(80),
+  name: z.string().trim().max(120).optional(),
+  title: z.string().trim().max(120).optional(),
+});
+
+/**
+ * Editable quotation sections. Text sections support the placeholders listed in
+ * `QUOTATION_PLACEHOLDERS`; an empty string hides the section.
+ */
+export const quotationSectionsSchema = z.object({
+  coverLetter: sectionTextField(5000),
+  scopeNotes: sectionTextField(5000),
+  exclusions: sectionTextField(5000),
+  termsAndConditions: sectionTextField(10000),
+  validityDays: z.number().int().min(1).max(365).nullable().optional(),
+  paymentSchedule: z
+    .array(paymentMilestoneSchema)
+    .max(12)
+    .refine(
+      (milestones) =>
+        milestones.length === 0 ||
+        Math.abs(milestones.reduce((sum, milestone) => sum + milestone.percentage, 0) - 100) <
+          0.001,
+      { message: "Payment schedule percentages must add up to 100" },
+    )
+    .optional(),
+  signatureBlocks: z.array(signatureBlockSchema).max(4).optional(),
+});
+
+const brandingFieldsSchema = z.object({
+  primaryColor: hexColorField.optional(),
+  accentColor: hexColorField.optional(),
+  address: optionalTextField(500),
+  tin: optionalTextField(40),
+  email: z
+    .union([z.literal(""), z.string().trim().email().max(200)])
+    .nullable()
+    .optional(),
+  phone: optionalTextField(60),
+  website: optionalTextField(200),
+});
+
+export const updateBrandingBodySchema = brandingFieldsSchema.extend({
+  sections: quotationSectionsSchema.optional(),
+});
+
+export const previewQuotationBodySchema = z.object({
+  estimateId: uuidSchema.optional(),
+  branding: brandingFieldsSchema.optional(),
+  sections: quotationSectionsSchema.optional(),
+  overrides: quotationSectionsSchema.optional(),
+  options: pdfOptionsSchema.optional(),
+});
+
+export const updateEstimateQuotationBodySchema = z.object({
+  overrides: quotationSectionsSchema,
+});
+
+export type QuotationSectionsInput = z.infer<typeof quotationSectionsSchema>;
+export type BrandingFieldsInput = z.infer<typeof brandingFieldsSchema>;
+export type UpdateBrandingBodyInput = z.infer<typeof updateBrandingBodySchema>;
+export type PreviewQuotationBodyInput = z.infer<typeof previewQuotationBodySchema>;
+export type UpdateEstimateQuotationBodyInput = z.infer<typeof updateEstimateQuotationBodySchema>;
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { idParamSchema, uuidSchema } from "./common.schemas";
+
+export const categoryIdParamSchema = idParamSchema;
+
+/** Codes file line items and formulas under a category, e.g. ELECTRICAL or 03-100. */
+export const categoryCodeSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(40)
+  .transform((value) => value.toUpperCase())
+  .refine((value) => /^[A-Z0-9][A-Z0-9_.-]*$/.test(value), {
+    message: "Code may only contain letters, digits, dots, dashes and underscores",
+  });
+
+const categoryNameField = z.string().trim().min(1).max(100);
+const categorySortOrderField = z.coerce.number().int().min(0).max(10000);
+
+export const createCategoryBodySchema = z.object({
+  code: categoryCodeSchema,
+  name: categoryNameField,
+  parentId: uuidSchema.nullable().optional(),
+  sortOrder: categorySortOrderField.optional(),
+});
+
+export const updateCategoryBodySchema = z
+  .object({
+    code: categoryCodeSchema.optional(),
+    name: categoryNameField.optional(),
+    parentId: uuidSchema.nullable().optional(),
+    sortOrder: categorySortOrderField.optional(),
+  })
+  .refine(
+    (body) =>
+      body.code !== undefined ||
+      body.name !== undefined ||
+      body.parentId !== undefined ||
+      body.sortOrder !== undefined,
+    {
+      message: "At least one field must be provided",
+      path: ["root"],
+    },
+  );
+
+export type CategoryIdParamInput = z.infer<typeof categoryIdParamSchema>;
+export type CreateCategoryBodyInput = z.infer<typeof createCategoryBodySchema>;
+export type UpdateCategoryBodyInput = z.infer<typeof updateCategoryBodySchema>;
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { idParamSchema, paginationQuerySchema } from "./common.schemas";
+
+export const getClientsQuerySchema = paginationQuerySchema.extend({
+  search: z.string().trim().min(1).optional(),
+});
+
+export const clientIdParamSchema = idParamSchema;
+
+const clientNameField = z.string().trim().min(1).max(200);
+const optionalTextField = (max: number) => z.string().trim().max(max).nullable().optional();
+const optionalEmailField = z
+  .union([z.literal(""), z.string().trim().email().max(200)])
+  .nullable()
+  .optional();
+
+const clientContactSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  title: optionalTextField(120),
+  email: optionalEmailField,
+  phone: optionalTextField(60),
+  isPrimary: z.boolean().default(false),
+});
+
+const clientContactsField = z
+  .array(clientContactSchema)
+  .max(20)
+  .refine((contacts) => contacts.filter((contact) => contact.isPrimary).length <= 1, {
+    message: "Only one contact can be marked as primary",
+  });
+
+export const createClientBodySchema = z.object({
+  name: clientNameField,
+  tin: optionalTextField(40),
+  billingAddress: optionalTextField(500),
+  email: optionalEmailField,
+  phone: optionalTextField(60),
+  notes: optionalTextField(2000),
+  contacts: clientContactsField.default([]),
+});
+
+/**
+ * Partial client update. When `contacts` is given it replaces the whole contact list.
+ */
+export const updateClientBodySchema = z
+  .object({
+    name: clientNameField.optional(),
+    tin: optionalTextField(40),
+    billingAddress: optionalTextField(500),
+    email: optionalEmailField,
+    phone: optionalTextField(60),
+    notes: optionalTextField(2000),
+    contacts: clientContactsField.optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+    path: ["root"],
+  });
+
+export type GetClientsQueryInput = z.infer<typeof getClientsQuerySchema>;
+export type ClientIdParamInput = z.infer<typeof clientIdParamSchema>;
+export type ClientContactInput = z.infer<typeof clientContactSchema>;
+export type CreateClientBodyInput = z.infer<typeof createClientBodySchema>;
+export type UpdateClientBodyInput = z.infer<typeof updateClientBodySchema>;
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { uuidSchema } from "./common.schemas";
+
+export const compareEstimatesParamSchema = z
+  .object({
+    id: uuidSchema,
+    otherId: uuidSchema,
+  })
+  .refine((params) => params.id !== params.otherId, {
+    message: "Choose two different estimates to compare",
+    path: ["otherId"],
+  });
+
+export type CompareEstimatesParamInput = z.infer<typeof compareEstimatesParamSchema>;
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { uuidSchema } from "./common.schemas";
+
+const computationTextField = z.string().trim().min(1);
+const computationInputUnitsSchema = z.record(z.string(), computationTextField).default({});
+
+export const estimateComputationsParamSchema = z.object({
+  estimateId: uuidSchema,
+});
+
+export const computationGroupParamSchema = z.object({
+  estimateId: uuidSchema,
+  groupId: uuidSchema,
+});
+
+const computeIntoEstimateOutputSchema = z.object({
+  outputVariable: computationTextField,
+  lineItemId: uuidSchema.optional(),
+  description: computationTextField.optional(),
+  unit: computationTextField.optional(),
+  unitMaterialCost: z.coerce.number().min(0).optional(),
+  unitLaborCost: z.coerce.number().min(0).optional(),
+});
+
+export const computeIntoEstimateBodySchema = z
+  .object({
+    formulaId: uuidSchema.optional(),
+    formulaName: computationTextField.optional(),
+    inputValues: z.record(z.string(), z.unknown()),
+    inputUnits: computationInputUnitsSchema,
+    outputs: z.array(computeIntoEstimateOutputSchema).min(1).optional(),
+  })
+  .refine((body) => body.formulaId !== undefined || body.formulaName !== undefined, {
+    message: "Either formulaId or formulaName must be provided",
+    path: ["formulaId"],
+  })
+  .refine(
+    (body) =>
+      !body.outputs ||
+      new Set(body.outputs.map((output) => output.outputVariable)).size === body.outputs.length,
+    {
+      message: "Each output variable can only be mapped once",
+      path: ["outputs"],
+    },
+  );
+
+export const recomputeComputationGroupBodySchema = z.object({
+  formulaId: uuidSchema.optional(),
+  inputValues: z.record(z.string(), z.unknown()),
+  inputUnits: computationInputUnitsSchema,
+});
+
+export const getOutdatedComputationsQuerySchema = z.object({
+  formulaId: uuidSchema.optional(),
+});
+
+export const applyFormulaUpgradesBodySchema = z.object({
+  lineItemIds: z
+    .array(uuidSchema)
+    .min(1)
+    .max(200)
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "Line item ids must be unique",
+    }),
+});
+
+export type EstimateComputationsParamInput = z.infer<typeof estimateComputationsParamSchema>;
+export type ComputationGroupParamInput = z.infer<typeof computationGroupParamSchema>;
+export type ComputeIntoEstimateBodyInput = z.infer<typeof computeIntoEstimateBodySchema>;
+export type RecomputeComputationGroupBodyInput = z.infer<
+  typeof recomputeComputationGroupBodySchema
+>;
+export type GetOutdatedComputationsQueryInput = z.infer<typeof getOutdatedComputationsQuerySchema>;
+export type ApplyFormulaUpgradesBodyInput = z.infer<typeof applyFormulaUpgradesBodySchema>;
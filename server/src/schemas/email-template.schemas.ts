@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+export const emailTemplateKeySchema = z.enum([
+  "PASSWORD_RESET",
+  "USER_INVITE",
+  "ESTIMATE_SEND",
+  "ESTIMATE_REVIEW_REQUESTED",
+  "ESTIMATE_COMMENT_MENTION",
+]);
+
+export const emailTemplateKeyParamSchema = z.object({
+  key: emailTemplateKeySchema,
+});
+
+const templateFields = {
+  subject: z.string().trim().min(1).max(200),
+  html: z.string().trim().min(1).max(50000),
+  text: z.string().trim().min(1).max(20000),
+};
+
+export const updateEmailTemplateBodySchema = z.object(templateFields);
+
+/** Unsaved edits to preview; missing parts fall back to the current template. */
+export const previewEmailTemplateBodySchema = z.object({
+  subject: templateFields.subject.optional(),
+  html: templateFields.html.optional(),
+  text: templateFields.text.optional(),
+});
+
+export type EmailTemplateKey = z.infer<typeof emailTemplateKeySchema>;
+export type EmailTemplateKeyParamInput = z.infer<typeof emailTemplateKeyParamSchema>;
+export type UpdateEmailTemplateBodyInput = z.infer<typeof updateEmailTemplateBodySchema>;
+export type PreviewEmailTemplateBodyInput = z.infer<typeof previewEmailTemplateBodySchema>;
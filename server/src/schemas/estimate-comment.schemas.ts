@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { uuidSchema } from "./common.schemas";
+
+export const estimateCommentParamSchema = z.object({
+  id: uuidSchema,
+  commentId: uuidSchema,
+});
+
+const commentBodyField = z.string().trim().min(1).max(5000);
+const mentionUserIdsField = z.array(uuidSchema).max(20).default([]);
+
+/** A reply names its parent; a new thread may be attached to one line item of the estimate. */
+export const createEstimateCommentBodySchema = z.object({
+  body: commentBodyField,
+  lineItemId: uuidSchema.nullable().optional(),
+  parentId: uuidSchema.optional(),
+  mentionUserIds: mentionUserIdsField,
+});
+
+export const updateEstimateCommentBodySchema = z.object({
+  body: commentBodyField,
+  mentionUserIds: mentionUserIdsField,
+});
+
+export type EstimateCommentParamInput = z.infer<typeof estimateCommentParamSchema>;
+export type CreateEstimateCommentBodyInput = z.infer<typeof createEstimateCommentBodySchema>;
+export type UpdateEstimateCommentBodyInput = z.infer<typeof updateEstimateCommentBodySchema>;
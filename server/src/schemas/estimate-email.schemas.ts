@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { pdfOptionsSchema } from "./pdf.schemas";
+
+export const sendEstimateEmailBodySchema = z.object({
+  recipients: z
+    .array(z.string().trim().email().max(200))
+    .min(1)
+    .max(10)
+    .refine(
+      (recipients) =>
+        new Set(recipients.map((recipient) => recipient.toLowerCase())).size === recipients.length,
+      {
+        message: "Recipients must be unique",
+      },
+    ),
+  message: z.string().trim().max(5000).default(""),
+  options: pdfOptionsSchema.optional(),
+});
+
+export type SendEstimateEmailBodyInput = z.infer<typeof sendEstimateEmailBodySchema>;
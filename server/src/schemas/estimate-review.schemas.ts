@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+export const submitEstimateReviewBodySchema = z.object({
+  comment: z.string().trim().max(2000).default(""),
+});
+
+/** Approvals and rejections must explain the decision. */
+export const reviewEstimateBodySchema = z.object({
+  comment: z.string().trim().min(1, "A review comment is required").max(2000),
+});
+
+export type SubmitEstimateReviewBodyInput = z.infer<typeof submitEstimateReviewBodySchema>;
+export type ReviewEstimateBodyInput = z.infer<typeof reviewEstimateBodySchema>;
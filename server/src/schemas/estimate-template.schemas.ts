@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { idParamSchema, uuidSchema } from "./common.schemas";
+
+export const estimateTemplateIdParamSchema = idParamSchema;
+
+const templateNameField = z.string().trim().min(1).max(100);
+const templateDescriptionField = z.string().trim().max(500).nullable();
+
+export const templateParameterKeySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Parameter keys must be identifiers such as floor_area")
+  .max(60);
+
+const templateParameterSchema = z.object({
+  key: templateParameterKeySchema,
+  label: z.string().trim().min(1).max(100),
+  unit: z.string().trim().min(1).max(20).nullable().optional(),
+  defaultValue: z.coerce.number().nullable().optional(),
+  inputVariables: z.array(z.string().trim().min(1)).min(1).max(20),
+});
+
+const templateParametersSchema = z
+  .array(templateParameterSchema)
+  .max(20)
+  .refine(
+    (parameters) =>
+      new Set(parameters.map((parameter) => parameter.key)).size === parameters.length,
+    {
+      message: "Template parameter keys must be unique",
+    },
+  );
+
+export const createEstimateTemplateBodySchema = z.object({
+  estimateId: uuidSchema,
+  name: templateNameField,
+  description: templateDescriptionField.optional(),
+  parameters: templateParametersSchema.default([]),
+});
+
+export const updateEstimateTemplateBodySchema = z
+  .object({
+    name: templateNameField.optional(),
+    description: templateDescriptionField.optional(),
+    parameters: templateParametersSchema.optional(),
+  })
+  .refine(
+    (body) =>
+      body.name !== undefined || body.description !== undefined || body.parameters !== undefined,
+    {
+      message: "At least one field must be provided",
+      path: ["root"],
+    },
+  );
+
+export type EstimateTemplateIdParamInput = z.infer<typeof estimateTemplateIdParamSchema>;
+export type EstimateTemplateParameterInput = z.infer<typeof templateParameterSchema>;
+export type CreateEstimateTemplateBodyInput = z.infer<typeof createEstimateTemplateBodySchema>;
+export type UpdateEstimateTemplateBodyInput = z.infer<typeof updateEstimateTemplateBodySchema>;
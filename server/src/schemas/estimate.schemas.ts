@@ -1,5 +1,7 @@
 import { z } from "zod";
+import { categoryCodeSchema } from "./category.schemas";
 import { idParamSchema, paginationQuerySchema, uuidSchema } from "./common.schemas";
+import { templateParameterKeySchema } from "./estimate-template.schemas";
 
 export const projectEstimatesParamSchema = z.object({
   projectId: uuidSchema,
@@ -9,14 +11,51 @@ export const getProjectEstimatesQuerySchema = paginationQuerySchema;
 
 export const estimateIdParamSchema = idParamSchema;
 
-export const createProjectEstimateBodySchema = z.object({
-  label: z.string().trim().min(1).optional(),
-  markupRate: z.coerce.number().min(0),
-  vatRate: z.coerce.number().min(0).default(12),
+export const markupBaseSchema = z.enum(["DIRECT_COST", "RUNNING_TOTAL"]);
+
+const markupComponentSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  rate: z.coerce.number().min(0).max(100),
+  base: markupBaseSchema,
 });
 
+const markupComponentsSchema = z
+  .array(markupComponentSchema)
+  .max(10)
+  .refine(
+    (components) =>
+      new Set(components.map((component) => component.name.toLowerCase())).size ===
+      components.length,
+    {
+      message: "Markup component names must be unique",
+    },
+  );
+
+const categoryMarkupRatesSchema = z.record(categoryCodeSchema, z.coerce.number().min(0).max(100));
+
+export const createProjectEstimateBodySchema = z
+  .object({
+    label: z.string().trim().min(1).optional(),
+    templateId: uuidSchema.optional(),
+    templateParameters: z.record(templateParameterKeySchema, z.coerce.number()).optional(),
+    markupRate: z.coerce.number().min(0).optional(),
+    markupComponents: markupComponentsSchema.optional(),
+    categoryMarkupRates: categoryMarkupRatesSchema.optional(),
+    vatRate: z.coerce.number().min(0).optional(),
+  })
+  .refine((body) => body.templateId !== undefined || body.markupRate !== undefined, {
+    message: "markupRate is required unless the estimate is created from a template",
+    path: ["markupRate"],
+  })
+  .refine((body) => body.templateId !== undefined || body.templateParameters === undefined, {
+    message: "templateParameters can only be used with templateId",
+    path: ["templateParameters"],
+  });
+
 export const updateEstimateBodySchema = z.object({
   markupRate: z.coerce.number().min(0),
+  markupComponents: markupComponentsSchema.optional(),
+  categoryMarkupRates: categoryMarkupRatesSchema.optional(),
   vatRate: z.coerce.number().min(0),
 });
 
@@ -24,4 +63,5 @@ export type ProjectEstimatesParamInput = z.infer<typeof projectEstimatesParamSch
 export type GetProjectEstimatesQueryInput = z.infer<typeof getProjectEstimatesQuerySchema>;
 export type CreateProjectEstimateBodyInput = z.infer<typeof createProjectEstimateBodySchema>;
 export type EstimateIdParamInput = z.infer<typeof estimateIdParamSchema>;
+export type MarkupBaseInput = z.infer<typeof markupBaseSchema>;
 export type UpdateEstimateBodyInput = z.infer<typeof updateEstimateBodySchema>;
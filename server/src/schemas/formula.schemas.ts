@@ -1,6 +1,6 @@
-import { Category } from "@prisma/client";
 import { z } from "zod";
 import { idParamSchema, paginationQuerySchema } from "./common.schemas";
+import { categoryCodeSchema } from "./category.schemas";
 
 export const getFormulasQuerySchema = paginationQuerySchema;
 export const formulaIdParamSchema = idParamSchema;
@@ -34,6 +34,13 @@ const formulaOutputSchema = z.object({
   unit: formulaTextFieldSchema,
 });
 
+const formulaDependencySchema = z.object({
+  alias: variableNameSchema,
+  formulaName: formulaTextFieldSchema,
+  version: z.number().int().positive().optional(),
+  inputBindings: z.record(variableNameSchema, formulaTextFieldSchema).default({}),
+});
+
 function hasDuplicateVariables(values: Array<{ variable: string }>): boolean {
   const normalized = values.map((value) => value.variable.trim().toLowerCase());
   return new Set(normalized).size !== normalized.length;
@@ -43,10 +50,11 @@ export const createFormulaBodySchema = z
   .object({
     name: formulaTextFieldSchema,
     description: formulaTextFieldSchema,
-    category: z.nativeEnum(Category),
+    category: categoryCodeSchema,
     inputs: z.array(formulaInputSchema).min(1),
     expressions: z.array(formulaExpressionSchema).min(1),
     outputs: z.array(formulaOutputSchema).min(1),
+    dependencies: z.array(formulaDependencySchema).default([]),
   })
   .refine((body) => !hasDuplicateVariables(body.inputs), {
     message: "Input variable names must be unique",
@@ -55,11 +63,22 @@ export const createFormulaBodySchema = z
   .refine((body) => !hasDuplicateVariables(body.expressions), {
     message: "Expression variable names must be unique",
     path: ["expressions"],
-  });
+  })
+  .refine(
+    (body) =>
+      !hasDuplicateVariables(
+        body.dependencies.map((dependency) => ({ variable: dependency.alias })),
+      ),
+    {
+      message: "Dependency aliases must be unique",
+      path: ["dependencies"],
+    },
+  );
 
 export const updateFormulaBodySchema = createFormulaBodySchema;
 export const testFormulaBodySchema = z.object({
   inputValues: z.record(z.string(), z.unknown()),
+  inputUnits: z.record(z.string(), formulaTextFieldSchema).default({}),
 });
 
 export type GetFormulasQueryInput = z.infer<typeof getFormulasQuerySchema>;
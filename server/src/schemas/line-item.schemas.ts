@@ -1,5 +1,5 @@
-import { Category } from "@prisma/client";
 import { z } from "zod";
+import { categoryCodeSchema } from "./category.schemas";
 import { idParamSchema, uuidSchema } from "./common.schemas";
 
 export const estimateLineItemsParamSchema = z.object({
@@ -7,26 +7,36 @@ export const estimateLineItemsParamSchema = z.object({
 });
 
 const lineItemTextField = z.string().trim().min(1);
+const priceReferenceKeySchema = z.string().trim().min(1).max(64);
+const lineItemMarkupRateSchema = z.coerce.number().min(0).max(100);
 
 export const createEstimateLineItemBodySchema = z.object({
-  category: z.nativeEnum(Category),
+  category: categoryCodeSchema,
   description: lineItemTextField,
   quantity: z.coerce.number().min(0),
   unit: lineItemTextField,
   unitMaterialCost: z.coerce.number().min(0),
   unitLaborCost: z.coerce.number().min(0),
+  priceCatalogItemId: uuidSchema.nullable().optional(),
+  priceReferenceKey: priceReferenceKeySchema.nullable().optional(),
+  markupRate: lineItemMarkupRateSchema.nullable().optional(),
+  vatExempt: z.boolean().optional(),
 });
 
 export const lineItemIdParamSchema = idParamSchema;
 
 export const updateLineItemBodySchema = z
   .object({
-    category: z.nativeEnum(Category).optional(),
+    category: categoryCodeSchema.optional(),
     description: lineItemTextField.optional(),
     quantity: z.coerce.number().min(0).optional(),
     unit: lineItemTextField.optional(),
     unitMaterialCost: z.coerce.number().min(0).optional(),
     unitLaborCost: z.coerce.number().min(0).optional(),
+    priceCatalogItemId: uuidSchema.nullable().optional(),
+    priceReferenceKey: priceReferenceKeySchema.nullable().optional(),
+    markupRate: lineItemMarkupRateSchema.nullable().optional(),
+    vatExempt: z.boolean().optional(),
   })
   .refine(
     (body) =>
@@ -35,7 +45,11 @@ export const updateLineItemBodySchema = z
       body.quantity !== undefined ||
       body.unit !== undefined ||
       body.unitMaterialCost !== undefined ||
-      body.unitLaborCost !== undefined,
+      body.unitLaborCost !== undefined ||
+      body.priceCatalogItemId !== undefined ||
+      body.priceReferenceKey !== undefined ||
+      body.markupRate !== undefined ||
+      body.vatExempt !== undefined,
     {
       message: "At least one field must be provided",
       path: ["root"],
@@ -53,15 +67,55 @@ export const computeLineItemBodySchema = z
     formulaName: z.string().trim().min(1).optional(),
     outputVariable: z.string().trim().min(1).optional(),
     inputValues: z.record(z.string(), z.unknown()),
+    inputUnits: z.record(z.string(), z.string().trim().min(1)).default({}),
   })
   .refine((body) => body.formulaId !== undefined || body.formulaName !== undefined, {
     message: "Either formulaId or formulaName must be provided",
     path: ["formulaId"],
   });
 
+export const lineItemImportFieldSchema = z.enum([
+  "category",
+  "description",
+  "quantity",
+  "unit",
+  "unitMaterialCost",
+  "unitLaborCost",
+  "markupRate",
+  "vatExempt",
+  "priceReferenceKey",
+]);
+
+// Multipart fields arrive as strings, so the column mapping is sent as JSON text.
+export const importLineItemsBodySchema = z.object({
+  mapping: z
+    .preprocess(
+      (value) => {
+        if (typeof value !== "string") {
+          return value;
+        }
+
+        try {
+          return JSON.parse(value) as unknown;
+        } catch {
+          return value;
+        }
+      },
+      z.partialRecord(lineItemImportFieldSchema, z.string().trim().min(1)),
+    )
+    .optional(),
+  sheet: z.string().trim().min(1).optional(),
+  dryRun: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
 export type EstimateLineItemsParamInput = z.infer<typeof estimateLineItemsParamSchema>;
 export type CreateEstimateLineItemBodyInput = z.infer<typeof createEstimateLineItemBodySchema>;
 export type LineItemIdParamInput = z.infer<typeof lineItemIdParamSchema>;
+export type LineItemImportFieldInput = z.infer<typeof lineItemImportFieldSchema>;
+export type ImportLineItemsBodyInput = z.infer<typeof importLineItemsBodySchema>;
 export type UpdateLineItemBodyInput = z.infer<typeof updateLineItemBodySchema>;
 export type OverrideLineItemBodyInput = z.infer<typeof overrideLineItemBodySchema>;
 export type ComputeLineItemBodyInput = z.infer<typeof computeLineItemBodySchema>;
@@ -0,0 +1,53 @@
+import { LookupTableMatchMode } from "@prisma/client";
+import { z } from "zod";
+import { idParamSchema, paginationQuerySchema } from "./common.schemas";
+
+export const getLookupTablesQuerySchema = paginationQuerySchema;
+export const lookupTableIdParamSchema = idParamSchema;
+
+const lookupTableTextField = z.string().trim().min(1);
+
+const lookupTableNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Name must start with a letter or underscore");
+
+const lookupTableEntrySchema = z.object({
+  key: z.number().finite(),
+  value: z.number().finite(),
+});
+
+const lookupTableEntriesSchema = z
+  .array(lookupTableEntrySchema)
+  .min(1)
+  .refine((entries) => new Set(entries.map((entry) => entry.key)).size === entries.length, {
+    message: "Lookup table keys must be unique",
+  });
+
+export const createLookupTableBodySchema = z.object({
+  name: lookupTableNameSchema,
+  description: lookupTableTextField,
+  keyUnit: lookupTableTextField,
+  valueUnit: lookupTableTextField,
+  matchMode: z.nativeEnum(LookupTableMatchMode).default(LookupTableMatchMode.EXACT),
+  entries: lookupTableEntriesSchema,
+});
+
+export const updateLookupTableBodySchema = z
+  .object({
+    description: lookupTableTextField.optional(),
+    keyUnit: lookupTableTextField.optional(),
+    valueUnit: lookupTableTextField.optional(),
+    matchMode: z.nativeEnum(LookupTableMatchMode).optional(),
+    entries: lookupTableEntriesSchema.optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+    path: ["root"],
+  });
+
+export type GetLookupTablesQueryInput = z.infer<typeof getLookupTablesQuerySchema>;
+export type LookupTableIdParamInput = z.infer<typeof lookupTableIdParamSchema>;
+export type CreateLookupTableBodyInput = z.infer<typeof createLookupTableBodySchema>;
+export type UpdateLookupTableBodyInput = z.infer<typeof updateLookupTableBodySchema>;
@@ -7,5 +7,22 @@ export const pdfJobIdParamSchema = z.object({
   jobId: uuidSchema,
 });
 
+/**
+ * Layout of an estimate PDF. `summary` lists category lump sums without line items, and
+ * `combined` shows one unit cost instead of separate material and labor costs.
+ */
+export const pdfOptionsSchema = z.object({
+  detailLevel: z.enum(["itemized", "summary"]).default("itemized"),
+  hideUnitCosts: z.boolean().default(false),
+  hideFormulaAppendix: z.boolean().default(false),
+  costColumns: z.enum(["split", "combined"]).default("split"),
+  language: z.enum(["en", "fil"]).default("en"),
+});
+
+export const requestEstimatePdfBodySchema = pdfOptionsSchema;
+
 export type EstimatePdfParamInput = z.infer<typeof estimatePdfParamSchema>;
 export type PdfJobIdParamInput = z.infer<typeof pdfJobIdParamSchema>;
+export type PdfOptionsInput = z.infer<typeof pdfOptionsSchema>;
+export type PdfLanguage = PdfOptionsInput["language"];
+export type RequestEstimatePdfBodyInput = z.infer<typeof requestEstimatePdfBodySchema>;
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { idParamSchema, paginationQuerySchema } from "./common.schemas";
+
+export const getPriceCatalogItemsQuerySchema = paginationQuerySchema.extend({
+  search: z.string().trim().min(1).optional(),
+});
+export const priceCatalogItemIdParamSchema = idParamSchema;
+
+const priceCatalogTextField = z.string().trim().min(1);
+
+export const createPriceCatalogItemBodySchema = z.object({
+  itemCode: priceCatalogTextField,
+  description: priceCatalogTextField,
+  unit: priceCatalogTextField,
+  unitMaterialCost: z.coerce.number().min(0),
+  unitLaborCost: z.coerce.number().min(0),
+  supplier: priceCatalogTextField.nullable().optional(),
+  effectiveDate: z.coerce.date(),
+});
+
+export const updatePriceCatalogItemBodySchema = z
+  .object({
+    itemCode: priceCatalogTextField.optional(),
+    description: priceCatalogTextField.optional(),
+    unit: priceCatalogTextField.optional(),
+    unitMaterialCost: z.coerce.number().min(0).optional(),
+    unitLaborCost: z.coerce.number().min(0).optional(),
+    supplier: priceCatalogTextField.nullable().optional(),
+    effectiveDate: z.coerce.date().optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+    path: ["root"],
+  });
+
+export type GetPriceCatalogItemsQueryInput = z.infer<typeof getPriceCatalogItemsQuerySchema>;
+export type PriceCatalogItemIdParamInput = z.infer<typeof priceCatalogItemIdParamSchema>;
+export type CreatePriceCatalogItemBodyInput = z.infer<typeof createPriceCatalogItemBodySchema>;
+export type UpdatePriceCatalogItemBodyInput = z.infer<typeof updatePriceCatalogItemBodySchema>;
@@ -1,9 +1,10 @@
 import { ProjectStatus } from "@prisma/client";
 import { z } from "zod";
-import { idParamSchema, paginationQuerySchema } from "./common.schemas";
+import { idParamSchema, paginationQuerySchema, uuidSchema } from "./common.schemas";
 
 export const getProjectsQuerySchema = paginationQuerySchema.extend({
   status: z.nativeEnum(ProjectStatus).optional(),
+  clientId: uuidSchema.optional(),
 });
 
 export const projectIdParamSchema = idParamSchema;
@@ -14,6 +15,8 @@ export const createProjectBodySchema = z.object({
   name: projectTextField,
   location: projectTextField,
   projectType: projectTextField,
+  regionId: uuidSchema.nullable().optional(),
+  clientId: uuidSchema.nullable().optional(),
 });
 
 export const updateProjectBodySchema = z
@@ -21,9 +24,16 @@ export const updateProjectBodySchema = z
     name: projectTextField.optional(),
     location: projectTextField.optional(),
     projectType: projectTextField.optional(),
+    regionId: uuidSchema.nullable().optional(),
+    clientId: uuidSchema.nullable().optional(),
   })
   .refine(
-    (body) => body.name !== undefined || body.location !== undefined || body.projectType !== undefined,
+    (body) =>
+      body.name !== undefined ||
+      body.location !== undefined ||
+      body.projectType !== undefined ||
+      body.regionId !== undefined ||
+      body.clientId !== undefined,
     {
       message: "At least one field must be provided",
       path: ["root"],
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { idParamSchema } from "./common.schemas";
+
+export const regionIdParamSchema = idParamSchema;
+
+const regionNameField = z.string().trim().min(1).max(100);
+const regionFactorField = z.coerce.number().positive().max(10);
+
+export const createRegionBodySchema = z.object({
+  name: regionNameField,
+  materialFactor: regionFactorField,
+  laborFactor: regionFactorField,
+});
+
+export const updateRegionBodySchema = z
+  .object({
+    name: regionNameField.optional(),
+    materialFactor: regionFactorField.optional(),
+    laborFactor: regionFactorField.optional(),
+  })
+  .refine(
+    (body) =>
+      body.name !== undefined ||
+      body.materialFactor !== undefined ||
+      body.laborFactor !== undefined,
+    {
+      message: "At least one field must be provided",
+      path: ["root"],
+    },
+  );
+
+export type RegionIdParamInput = z.infer<typeof regionIdParamSchema>;
+export type CreateRegionBodyInput = z.infer<typeof createRegionBodySchema>;
+export type UpdateRegionBodyInput = z.infer<typeof updateRegionBodySchema>;
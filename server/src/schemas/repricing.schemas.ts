@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { uuidSchema } from "./common.schemas";
+
+export const repricingSourceSchema = z.enum(["CATALOG", "PRICE_LIST"]);
+
+const repricingPriceSchema = z.object({
+  priceReferenceKey: z.string().trim().min(1).max(64),
+  unitMaterialCost: z.coerce.number().min(0),
+  unitLaborCost: z.coerce.number().min(0),
+});
+
+const repricingBodySchema = z.object({
+  source: repricingSourceSchema,
+  prices: z.array(repricingPriceSchema).min(1).max(5000).optional(),
+  estimateIds: z
+    .array(uuidSchema)
+    .min(1)
+    .max(200)
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "Estimate ids must be unique",
+    })
+    .optional(),
+});
+
+function withPriceListRules<T extends z.ZodType<z.infer<typeof repricingBodySchema>>>(
+  schema: T,
+): T {
+  return schema
+    .refine((body) => body.source !== "PRICE_LIST" || body.prices !== undefined, {
+      message: "prices are required when source is PRICE_LIST",
+      path: ["prices"],
+    })
+    .refine((body) => body.source !== "CATALOG" || body.prices === undefined, {
+      message: "prices are only accepted when source is PRICE_LIST",
+      path: ["prices"],
+    })
+    .refine(
+      (body) =>
+        !body.prices ||
+        new Set(body.prices.map((price) => price.priceReferenceKey)).size === body.prices.length,
+      {
+        message: "Price reference keys must be unique",
+        path: ["prices"],
+      },
+    );
+}
+
+export const repriceEstimatesBodySchema = withPriceListRules(repricingBodySchema);
+
+/** The line item changes shown in the preview; applying is refused if the rebuilt plan differs. */
+const expectedRepricingChangeSchema = z.object({
+  lineItemId: uuidSchema,
+  unitMaterialCost: z.coerce.number().min(0),
+  unitLaborCost: z.coerce.number().min(0),
+  totalCost: z.coerce.number().min(0),
+});
+
+export const applyRepricingBodySchema = withPriceListRules(
+  repricingBodySchema.extend({
+    expectedChanges: z
+      .array(expectedRepricingChangeSchema)
+      .min(1)
+      .max(20000)
+      .refine(
+        (changes) => new Set(changes.map((change) => change.lineItemId)).size === changes.length,
+        { message: "Line item ids must be unique" },
+      ),
+  }),
+);
+
+export type RepricingSourceInput = z.infer<typeof repricingSourceSchema>;
+export type RepriceEstimatesBodyInput = z.infer<typeof repriceEstimatesBodySchema>;
+export type ApplyRepricingBodyInput = z.infer<typeof applyRepricingBodySchema>;
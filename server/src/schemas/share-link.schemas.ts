@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { uuidSchema } from "./common.schemas";
+import { pdfOptionsSchema } from "./pdf.schemas";
+
+export const shareLinkParamSchema = z.object({
+  id: uuidSchema,
+  linkId: uuidSchema,
+});
+
+export const createShareLinkBodySchema = z.object({
+  expiresInDays: z.coerce.number().int().min(1).max(90).default(14),
+  options: pdfOptionsSchema.optional(),
+});
+
+const shareTokenSchema = z.string().trim().min(1).max(200);
+
+export const viewSharedEstimateBodySchema = z.object({
+  token: shareTokenSchema,
+});
+
+export const respondToSharedEstimateBodySchema = z
+  .object({
+    token: shareTokenSchema,
+    decision: z.enum(["ACCEPTED", "DECLINED"]),
+    name: z.string().trim().min(1).max(120),
+    comment: z.string().trim().max(2000).default(""),
+  })
+  .refine((value) => value.decision === "ACCEPTED" || value.comment.length > 0, {
+    message: "Describe the changes you need",
+    path: ["comment"],
+  });
+
+export type ShareLinkParamInput = z.infer<typeof shareLinkParamSchema>;
+export type CreateShareLinkBodyInput = z.infer<typeof createShareLinkBodySchema>;
+export type ViewSharedEstimateBodyInput = z.infer<typeof viewSharedEstimateBodySchema>;
+export type RespondToSharedEstimateBodyInput = z.infer<typeof respondToSharedEstimateBodySchema>;
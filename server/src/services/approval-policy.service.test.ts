@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Prisma, UserRole } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import {
+  assertCanFinalizeWithoutReview,
+  assertCommentsAllowFinalization,
+  getReviewerRoles,
+  type ApprovalPolicyDetail,
+} from "./approval-policy.service";
+
+function policy(overrides: Partial<ApprovalPolicyDetail> = {}): ApprovalPolicyDetail {
+  return {
+    requireReview: false,
+    adminApprovalThreshold: null,
+    blockUnresolvedComments: false,
+    updatedAt: null,
+    updatedBy: null,
+    ...overrides,
+  };
+}
+
+function hasCode(code: string) {
+  return (error: unknown): boolean => error instanceof AppError && error.code === code;
+}
+
+const threshold = policy({ adminApprovalThreshold: new Prisma.Decimal(1_000_000) });
+
+test("getReviewerRoles lets estimators review when no threshold is set", () => {
+  assert.deepEqual(getReviewerRoles(policy(), new Prisma.Decimal(50_000_000)), [
+    UserRole.ADMIN,
+    UserRole.ESTIMATOR,
+  ]);
+});
+
+test("getReviewerRoles requires an administrator only above the threshold", () => {
+  assert.deepEqual(getReviewerRoles(threshold, new Prisma.Decimal(1_000_000)), [
+    UserRole.ADMIN,
+    UserRole.ESTIMATOR,
+  ]);
+  assert.deepEqual(getReviewerRoles(threshold, new Prisma.Decimal("1000000.01")), [UserRole.ADMIN]);
+});
+
+test("assertCanFinalizeWithoutReview sends drafts to review when the organization requires it", () => {
+  assert.throws(
+    () =>
+      assertCanFinalizeWithoutReview(
+        policy({ requireReview: true }),
+        new Prisma.Decimal(100),
+        UserRole.ADMIN,
+      ),
+    hasCode("ESTIMATE_REVIEW_REQUIRED"),
+  );
+});
+
+test("assertCanFinalizeWithoutReview applies the admin threshold to direct finalization", () => {
+  const aboveThreshold = new Prisma.Decimal(2_500_000);
+
+  assert.throws(
+    () => assertCanFinalizeWithoutReview(threshold, aboveThreshold, UserRole.ESTIMATOR),
+    (error: unknown) =>
+      hasCode("ESTIMATE_ADMIN_APPROVAL_REQUIRED")(error) && (error as AppError).statusCode === 403,
+  );
+  assert.doesNotThrow(() =>
+    assertCanFinalizeWithoutReview(threshold, aboveThreshold, UserRole.ADMIN),
+  );
+  assert.doesNotThrow(() =>
+    assertCanFinalizeWithoutReview(threshold, new Prisma.Decimal(900_000), UserRole.ESTIMATOR),
+  );
+});
+
+test("assertCommentsAllowFinalization blocks open threads only when the policy says so", () => {
+  assert.doesNotThrow(() => assertCommentsAllowFinalization(policy(), 3));
+  assert.doesNotThrow(() =>
+    assertCommentsAllowFinalization(policy({ blockUnresolvedComments: true }), 0),
+  );
+  assert.throws(
+    () => assertCommentsAllowFinalization(policy({ blockUnresolvedComments: true }), 1),
+    (error: unknown) =>
+      hasCode("ESTIMATE_HAS_UNRESOLVED_COMMENTS")(error) &&
+      (error as AppError).message === "Resolve the 1 open comment thread before finalizing",
+  );
+});
@@ -0,0 +1,176 @@
+import { Prisma, UserRole } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { formatMoney } from "../utils/format";
+import { logAudit } from "./audit.service";
+
+type GetApprovalPolicyInput = {
+  organizationId: string;
+};
+
+type UpdateApprovalPolicyInput = {
+  organizationId: string;
+  requireReview: boolean;
+  adminApprovalThreshold: number | null;
+  blockUnresolvedComments: boolean;
+  performedBy: string;
+};
+
+export type ApprovalPolicyDetail = {
+  requireReview: boolean;
+  adminApprovalThreshold: Prisma.Decimal | null;
+  blockUnresolvedComments: boolean;
+  updatedAt: Date | null;
+  updatedBy: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+const approvalPolicySelect = {
+  requireReview: true,
+  adminApprovalThreshold: true,
+  blockUnresolvedComments: true,
+  updatedAt: true,
+  updatedByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.EstimateApprovalPolicySelect;
+
+type ApprovalPolicyRecord = Prisma.EstimateApprovalPolicyGetPayload<{
+  select: typeof approvalPolicySelect;
+}>;
+
+function toApprovalPolicyDetail(policy: ApprovalPolicyRecord | null): ApprovalPolicyDetail {
+  return {
+    requireReview: policy?.requireReview ?? false,
+    adminApprovalThreshold: policy?.adminApprovalThreshold ?? null,
+    blockUnresolvedComments: policy?.blockUnresolvedComments ?? false,
+    updatedAt: policy?.updatedAt ?? null,
+    updatedBy: policy?.updatedByUser ?? null,
+  };
+}
+
+function toAuditState(policy: ApprovalPolicyDetail): Prisma.InputJsonValue {
+  return {
+    requireReview: policy.requireReview,
+    adminApprovalThreshold: policy.adminApprovalThreshold?.toString() ?? null,
+    blockUnresolvedComments: policy.blockUnresolvedComments,
+  };
+}
+
+/** Roles allowed to approve or reject an estimate with the given total. */
+export function getReviewerRoles(
+  policy: ApprovalPolicyDetail,
+  totalAmount: Prisma.Decimal,
+): UserRole[] {
+  if (policy.adminApprovalThreshold !== null && totalAmount.gt(policy.adminApprovalThreshold)) {
+    return [UserRole.ADMIN];
+  }
+
+  return [UserRole.ADMIN, UserRole.ESTIMATOR];
+}
+
+/**
+ * Finalizing a draft directly skips review, so it is only allowed when the organization does not
+ * require review and the user could have approved an estimate with this total.
+ */
+export function assertCanFinalizeWithoutReview(
+  policy: ApprovalPolicyDetail,
+  totalAmount: Prisma.Decimal,
+  performedByRole: string,
+): void {
+  if (policy.requireReview) {
+    throw new AppError(
+      409,
+      "ESTIMATE_REVIEW_REQUIRED",
+      "Estimates must be submitted for review and approved before they are finalized",
+    );
+  }
+
+  if (!getReviewerRoles(policy, totalAmount).includes(performedByRole as UserRole)) {
+    throw new AppError(
+      403,
+      "ESTIMATE_ADMIN_APPROVAL_REQUIRED",
+      `Estimates above ${formatMoney(policy.adminApprovalThreshold ?? new Prisma.Decimal(0))} must be finalized by an administrator or submitted for review`,
+    );
+  }
+}
+
+/** Open threads only block when the organization asks for it; the editor warns either way. */
+export function assertCommentsAllowFinalization(
+  policy: ApprovalPolicyDetail,
+  unresolvedComments: number,
+): void {
+  if (unresolvedComments > 0 && policy.blockUnresolvedComments) {
+    throw new AppError(
+      409,
+      "ESTIMATE_HAS_UNRESOLVED_COMMENTS",
+      `Resolve the ${unresolvedComments} open comment thread${unresolvedComments === 1 ? "" : "s"} before finalizing`,
+    );
+  }
+}
+
+export async function getApprovalPolicy(
+  input: GetApprovalPolicyInput,
+): Promise<ApprovalPolicyDetail> {
+  const policy = await prisma.estimateApprovalPolicy.findUnique({
+    where: { organizationId: input.organizationId },
+    select: approvalPolicySelect,
+  });
+
+  return toApprovalPolicyDetail(policy);
+}
+
+export async function updateApprovalPolicy(
+  input: UpdateApprovalPolicyInput,
+): Promise<ApprovalPolicyDetail> {
+  const data = {
+    requireReview: input.requireReview,
+    adminApprovalThreshold:
+      input.adminApprovalThreshold === null
+        ? null
+        : new Prisma.Decimal(input.adminApprovalThreshold),
+    blockUnresolvedComments: input.blockUnresolvedComments,
+  };
+
+  return prisma.$transaction(async (tx) => {
+    const before = await tx.estimateApprovalPolicy.findUnique({
+      where: { organizationId: input.organizationId },
+      select: approvalPolicySelect,
+    });
+
+    const updated = await tx.estimateApprovalPolicy.upsert({
+      where: { organizationId: input.organizationId },
+      create: {
+        ...data,
+        organizationId: input.organizationId,
+        updatedBy: input.performedBy,
+      },
+      update: {
+        ...data,
+        updatedBy: input.performedBy,
+      },
+      select: approvalPolicySelect,
+    });
+
+    const detail = toApprovalPolicyDetail(updated);
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "EstimateApprovalPolicy",
+        entityId: input.organizationId,
+        action: "APPROVAL_POLICY_UPDATED",
+        beforeState: toAuditState(toApprovalPolicyDetail(before)),
+        afterState: toAuditState(detail),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return detail;
+  });
+}
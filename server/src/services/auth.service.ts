@@ -5,6 +5,8 @@ import { v4 as uuidv4 } from "uuid";
 import { UserStatus } from "@prisma/client";
 import { prisma } from "../prisma/client";
 import { AppError } from "../errors/app-error";
+import { getFrontendBaseUrl } from "../utils/frontend-url";
+import { hashToken } from "../utils/tokens";
 import { logAudit } from "./audit.service";
 import { sendPasswordResetEmail } from "./email.service";
 import type {
@@ -65,10 +67,6 @@ function getJwtConfig(): {
   };
 }
 
-function hashToken(rawToken: string): string {
-  return crypto.createHash("sha256").update(rawToken).digest("hex");
-}
-
 function getBcryptCostFactor(): number {
   const parsed = Number.parseInt(process.env.BCRYPT_COST_FACTOR ?? `${MIN_BCRYPT_COST_FACTOR}`, 10);
 
@@ -128,20 +126,6 @@ function issueTokenPair(user: {
   };
 }
 
-function getFrontendBaseUrl(): string {
-  const configuredOrigin = (process.env.FRONTEND_URL ?? "")
-    .split(",")
-    .map((origin) => origin.trim())
-    .find((origin) => origin.length > 0);
-
-  if (!configuredOrigin) {
-    throw new AppError(500, "SERVER_MISCONFIGURED", "FRONTEND_URL is not configured");
-  }
-
-  return configuredOrigin.replace(/\/+$/, "");
-}
-
-
 function buildResetPasswordLink(token: string): string {
   const baseUrl = getFrontendBaseUrl().replace(/\/+$/, "");
   return `${baseUrl}/reset-password?token=${encodeURIComponent(token)}`;
@@ -400,6 +384,7 @@ export async function forgotPassword(input: ForgotPasswordInput): Promise<void>
 
   try {
     await sendPasswordResetEmail({
+      organizationId: user.organizationId,
       to: user.email,
       recipientName: user.name,
       resetLink: buildResetPasswordLink(rawToken),
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  detectLogoContentType,
+  parseQuotationSections,
+  resolveQuotationSections,
+} from "./branding.service";
+
+const defaults = parseQuotationSections({
+  coverLetter: "We are pleased to submit our quotation.",
+  termsAndConditions: "Prices are exclusive of permits.",
+  validityDays: 30,
+  paymentSchedule: [
+    { label: "Downpayment", percentage: 30 },
+    { label: "Completion", percentage: 70 },
+  ],
+});
+
+test("parseQuotationSections keeps stored sections that still validate", () => {
+  assert.equal(defaults.validityDays, 30);
+  assert.equal(defaults.paymentSchedule?.length, 2);
+});
+
+test("parseQuotationSections drops stored sections that no longer validate", () => {
+  assert.deepEqual(parseQuotationSections(null), {});
+  assert.deepEqual(parseQuotationSections("cover letter"), {});
+  assert.deepEqual(
+    parseQuotationSections({ paymentSchedule: [{ label: "Downpayment", percentage: 40 }] }),
+    {},
+  );
+});
+
+test("resolveQuotationSections falls back to empty sections without defaults", () => {
+  assert.deepEqual(resolveQuotationSections({}), {
+    coverLetter: "",
+    scopeNotes: "",
+    exclusions: "",
+    termsAndConditions: "",
+    validityDays: null,
+    paymentSchedule: [],
+    signatureBlocks: [],
+  });
+});
+
+test("resolveQuotationSections lets estimate overrides win per section", () => {
+  const sections = resolveQuotationSections(defaults, {
+    coverLetter: "Revised offer for the warehouse extension.",
+    validityDays: 15,
+    signatureBlocks: [{ label: "Prepared by", name: "Estimator" }],
+  });
+
+  assert.equal(sections.coverLetter, "Revised offer for the warehouse extension.");
+  assert.equal(sections.validityDays, 15);
+  assert.deepEqual(sections.signatureBlocks, [{ label: "Prepared by", name: "Estimator" }]);
+  assert.equal(sections.termsAndConditions, "Prices are exclusive of permits.");
+  assert.deepEqual(
+    sections.paymentSchedule.map((milestone) => milestone.label),
+    ["Downpayment", "Completion"],
+  );
+  assert.equal(sections.scopeNotes, "");
+});
+
+test("resolveQuotationSections keeps an override that clears a section", () => {
+  const sections = resolveQuotationSections(defaults, { coverLetter: "", paymentSchedule: [] });
+
+  assert.equal(sections.coverLetter, "");
+  assert.deepEqual(sections.paymentSchedule, []);
+});
+
+test("detectLogoContentType recognizes PNG, JPEG and WEBP by their leading bytes", () => {
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+  const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+  const webp = Buffer.concat([
+    Buffer.from("RIFF", "ascii"),
+    Buffer.from([0x24, 0x00, 0x00, 0x00]),
+    Buffer.from("WEBPVP8 ", "ascii"),
+  ]);
+
+  assert.deepEqual(detectLogoContentType(png), { contentType: "image/png", extension: "png" });
+  assert.deepEqual(detectLogoContentType(jpeg), { contentType: "image/jpeg", extension: "jpg" });
+  assert.deepEqual(detectLogoContentType(webp), { contentType: "image/webp", extension: "webp" });
+});
+
+test("detectLogoContentType rejects files that only claim to be images", () => {
+  assert.equal(
+    detectLogoContentType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>')),
+    null,
+  );
+  assert.equal(detectLogoContentType(Buffer.from("RIFF0000WAVE", "ascii")), null);
+  assert.equal(detectLogoContentType(Buffer.alloc(0)), null);
+});
@@ -0,0 +1,533 @@
+import { randomUUID } from "crypto";
+import type { Readable } from "stream";
+import { EstimateStatus, type Prisma } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { quotationSectionsSchema, type QuotationSectionsInput } from "../schemas/branding.schemas";
+import { logAudit } from "./audit.service";
+import { getFileStorage } from "./file-storage.service";
+
+type GetOrganizationBrandingInput = {
+  organizationId: string;
+};
+
+type UpdateOrganizationBrandingInput = {
+  organizationId: string;
+  primaryColor?: string;
+  accentColor?: string;
+  address?: string | null;
+  tin?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  sections?: QuotationSectionsInput;
+  performedBy: string;
+};
+
+type UploadBrandingLogoInput = {
+  organizationId: string;
+  fileName: string;
+  buffer: Buffer;
+  performedBy: string;
+};
+
+type DeleteBrandingLogoInput = {
+  organizationId: string;
+  performedBy: string;
+};
+
+type GetEstimateQuotationInput = {
+  organizationId: string;
+  estimateId: string;
+};
+
+type UpdateEstimateQuotationInput = GetEstimateQuotationInput & {
+  overrides: QuotationSectionsInput;
+  performedBy: string;
+};
+
+export type QuotationPaymentMilestone = {
+  label: string;
+  percentage: number;
+};
+
+export type QuotationSignatureBlock = {
+  label: string;
+  name?: string;
+  title?: string;
+};
+
+/**
+ * The sections printed on a quotation after organization defaults and estimate overrides are
+ * merged. Empty text and empty lists are left out of the document.
+ */
+export type QuotationSections = {
+  coverLetter: string;
+  scopeNotes: string;
+  exclusions: string;
+  termsAndConditions: string;
+  validityDays: number | null;
+  paymentSchedule: QuotationPaymentMilestone[];
+  signatureBlocks: QuotationSignatureBlock[];
+};
+
+export type BrandingDetail = {
+  primaryColor: string;
+  accentColor: string;
+  address: string | null;
+  tin: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  logoUrl: string | null;
+  sections: QuotationSectionsInput;
+  updatedAt: Date | null;
+  updatedBy: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+/** Branding as the PDF renderer needs it, with the logo inlined so the page loads no resources. */
+export type QuotationBranding = {
+  primaryColor: string;
+  accentColor: string;
+  address: string | null;
+  tin: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  logoDataUri: string | null;
+  sections: QuotationSectionsInput;
+  updatedAt: Date | null;
+};
+
+export type EstimateQuotation = {
+  estimateId: string;
+  overrides: QuotationSectionsInput;
+  defaults: QuotationSectionsInput;
+  effective: QuotationSections;
+};
+
+export type BrandingLogo = {
+  contentType: string;
+  openStream: () => Readable;
+};
+
+export const MAX_LOGO_FILE_BYTES = 1024 * 1024;
+export const LOGO_FILE_EXTENSIONS = ["png", "jpg", "jpeg", "webp"];
+
+const DEFAULT_PRIMARY_COLOR = "#111827";
+const DEFAULT_ACCENT_COLOR = "#f3f4f6";
+
+const DEFAULT_QUOTATION_SECTIONS: QuotationSections = {
+  coverLetter: "",
+  scopeNotes: "",
+  exclusions: "",
+  termsAndConditions: "",
+  validityDays: null,
+  paymentSchedule: [],
+  signatureBlocks: [],
+};
+
+const brandingSelect = {
+  logoStorageKey: true,
+  logoContentType: true,
+  primaryColor: true,
+  accentColor: true,
+  address: true,
+  tin: true,
+  email: true,
+  phone: true,
+  website: true,
+  sections: true,
+  updatedAt: true,
+  updatedByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.OrganizationBrandingSelect;
+
+type BrandingRecord = Prisma.OrganizationBrandingGetPayload<{ select: typeof brandingSelect }>;
+
+function toNullableText(value: string | null | undefined): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  return value?.trim() || null;
+}
+
+/** Reads stored sections leniently so a section that no longer validates is dropped, not fatal. */
+export function parseQuotationSections(
+  value: Prisma.JsonValue | null | undefined,
+): QuotationSectionsInput {
+  const parsed = quotationSectionsSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+/** Overrides win per section; a section the estimate does not override uses the default. */
+export function resolveQuotationSections(
+  defaults: QuotationSectionsInput,
+  overrides: QuotationSectionsInput = {},
+): QuotationSections {
+  const pick = <K extends keyof QuotationSectionsInput>(key: K) =>
+    overrides[key] !== undefined ? overrides[key] : defaults[key];
+
+  return {
+    coverLetter: pick("coverLetter") ?? DEFAULT_QUOTATION_SECTIONS.coverLetter,
+    scopeNotes: pick("scopeNotes") ?? DEFAULT_QUOTATION_SECTIONS.scopeNotes,
+    exclusions: pick("exclusions") ?? DEFAULT_QUOTATION_SECTIONS.exclusions,
+    termsAndConditions: pick("termsAndConditions") ?? DEFAULT_QUOTATION_SECTIONS.termsAndConditions,
+    validityDays: pick("validityDays") ?? DEFAULT_QUOTATION_SECTIONS.validityDays,
+    paymentSchedule: pick("paymentSchedule") ?? DEFAULT_QUOTATION_SECTIONS.paymentSchedule,
+    signatureBlocks: pick("signatureBlocks") ?? DEFAULT_QUOTATION_SECTIONS.signatureBlocks,
+  };
+}
+
+function toBrandingDetail(branding: BrandingRecord | null): BrandingDetail {
+  return {
+    primaryColor: branding?.primaryColor ?? DEFAULT_PRIMARY_COLOR,
+    accentColor: branding?.accentColor ?? DEFAULT_ACCENT_COLOR,
+    address: branding?.address ?? null,
+    tin: branding?.tin ?? null,
+    email: branding?.email ?? null,
+    phone: branding?.phone ?? null,
+    website: branding?.website ?? null,
+    logoUrl: branding?.logoStorageKey ? "/branding/logo" : null,
+    sections: parseQuotationSections(branding?.sections),
+    updatedAt: branding?.updatedAt ?? null,
+    updatedBy: branding?.updatedByUser ?? null,
+  };
+}
+
+function toAuditState(branding: BrandingDetail): Prisma.InputJsonValue {
+  return {
+    primaryColor: branding.primaryColor,
+    accentColor: branding.accentColor,
+    address: branding.address,
+    tin: branding.tin,
+    email: branding.email,
+    phone: branding.phone,
+    website: branding.website,
+    hasLogo: branding.logoUrl !== null,
+    sections: branding.sections as Prisma.InputJsonValue,
+  };
+}
+
+/** Identifies the image from its leading bytes; the file extension alone is not trusted. */
+export function detectLogoContentType(buffer: Buffer): { contentType: string; extension: string } | null {
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { contentType: "image/png", extension: "png" };
+  }
+
+  if (buffer.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) {
+    return { contentType: "image/jpeg", extension: "jpg" };
+  }
+
+  if (
+    buffer.subarray(0, 4).toString("ascii") === "RIFF" &&
+    buffer.subarray(8, 12).toString("ascii") === "WEBP"
+  ) {
+    return { contentType: "image/webp", extension: "webp" };
+  }
+
+  return null;
+}
+
+async function findBranding(organizationId: string): Promise<BrandingRecord | null> {
+  return prisma.organizationBranding.findUnique({
+    where: { organizationId },
+    select: brandingSelect,
+  });
+}
+
+async function deleteStoredLogo(storageKey: string | null | undefined): Promise<void> {
+  if (!storageKey) {
+    return;
+  }
+
+  try {
+    await getFileStorage().delete(storageKey);
+  } catch (error) {
+    console.error("Failed to delete replaced branding logo.", error);
+  }
+}
+
+export async function getOrganizationBranding(
+  input: GetOrganizationBrandingInput,
+): Promise<BrandingDetail> {
+  return toBrandingDetail(await findBranding(input.organizationId));
+}
+
+export async function updateOrganizationBranding(
+  input: UpdateOrganizationBrandingInput,
+): Promise<BrandingDetail> {
+  const data = {
+    primaryColor: input.primaryColor,
+    accentColor: input.accentColor,
+    address: toNullableText(input.address),
+    tin: toNullableText(input.tin),
+    email: toNullableText(input.email),
+    phone: toNullableText(input.phone),
+    website: toNullableText(input.website),
+    ...(input.sections ? { sections: input.sections as Prisma.InputJsonValue } : {}),
+  };
+
+  return prisma.$transaction(async (tx) => {
+    const before = await tx.organizationBranding.findUnique({
+      where: { organizationId: input.organizationId },
+      select: brandingSelect,
+    });
+
+    const updated = await tx.organizationBranding.upsert({
+      where: { organizationId: input.organizationId },
+      create: {
+        ...data,
+        organizationId: input.organizationId,
+        updatedBy: input.performedBy,
+      },
+      update: {
+        ...data,
+        updatedBy: input.performedBy,
+      },
+      select: brandingSelect,
+    });
+
+    const detail = toBrandingDetail(updated);
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "OrganizationBranding",
+        entityId: input.organizationId,
+        action: "BRANDING_UPDATED",
+        beforeState: toAuditState(toBrandingDetail(before)),
+        afterState: toAuditState(detail),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return detail;
+  });
+}
+
+export async function uploadBrandingLogo(input: UploadBrandingLogoInput): Promise<BrandingDetail> {
+  const detected = detectLogoContentType(input.buffer);
+  if (!detected) {
+    throw new AppError(415, "BRANDING_LOGO_INVALID", "Logo must be a PNG, JPEG or WebP image");
+  }
+
+  const storageKey = `branding/${input.organizationId}/logo-${randomUUID()}.${detected.extension}`;
+  await getFileStorage().put(storageKey, input.buffer);
+
+  let previousKey: string | null = null;
+  try {
+    const detail = await prisma.$transaction(async (tx) => {
+      const before = await tx.organizationBranding.findUnique({
+        where: { organizationId: input.organizationId },
+        select: { logoStorageKey: true },
+      });
+      previousKey = before?.logoStorageKey ?? null;
+
+      const updated = await tx.organizationBranding.upsert({
+        where: { organizationId: input.organizationId },
+        create: {
+          organizationId: input.organizationId,
+          logoStorageKey: storageKey,
+          logoContentType: detected.contentType,
+          updatedBy: input.performedBy,
+        },
+        update: {
+          logoStorageKey: storageKey,
+          logoContentType: detected.contentType,
+          updatedBy: input.performedBy,
+        },
+        select: brandingSelect,
+      });
+
+      await logAudit(
+        {
+          organizationId: input.organizationId,
+          entityType: "OrganizationBranding",
+          entityId: input.organizationId,
+          action: "BRANDING_LOGO_UPDATED",
+          beforeState: { hasLogo: previousKey !== null },
+          afterState: {
+            hasLogo: true,
+            fileName: input.fileName,
+            contentType: detected.contentType,
+            sizeBytes: input.buffer.length,
+          },
+          performedBy: input.performedBy,
+        },
+        tx,
+      );
+
+      return toBrandingDetail(updated);
+    });
+
+    await deleteStoredLogo(previousKey);
+    return detail;
+  } catch (error) {
+    await deleteStoredLogo(storageKey);
+    throw error;
+  }
+}
+
+export async function deleteBrandingLogo(input: DeleteBrandingLogoInput): Promise<BrandingDetail> {
+  const existing = await findBranding(input.organizationId);
+  if (!existing?.logoStorageKey) {
+    throw new AppError(404, "BRANDING_LOGO_NOT_FOUND", "No logo has been uploaded");
+  }
+
+  const detail = await prisma.$transaction(async (tx) => {
+    const updated = await tx.organizationBranding.update({
+      where: { organizationId: input.organizationId },
+      data: {
+        logoStorageKey: null,
+        logoContentType: null,
+        updatedBy: input.performedBy,
+      },
+      select: brandingSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "OrganizationBranding",
+        entityId: input.organizationId,
+        action: "BRANDING_LOGO_REMOVED",
+        beforeState: { hasLogo: true },
+        afterState: { hasLogo: false },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return toBrandingDetail(updated);
+  });
+
+  await deleteStoredLogo(existing.logoStorageKey);
+  return detail;
+}
+
+export async function getBrandingLogo(input: GetOrganizationBrandingInput): Promise<BrandingLogo> {
+  const branding = await prisma.organizationBranding.findUnique({
+    where: { organizationId: input.organizationId },
+    select: { logoStorageKey: true, logoContentType: true },
+  });
+
+  const storage = getFileStorage();
+  const storageKey = branding?.logoStorageKey;
+  if (!storageKey || !branding.logoContentType || !(await storage.exists(storageKey))) {
+    throw new AppError(404, "BRANDING_LOGO_NOT_FOUND", "No logo has been uploaded");
+  }
+
+  return {
+    contentType: branding.logoContentType,
+    openStream: () => storage.createReadStream(storageKey),
+  };
+}
+
+export async function loadQuotationBranding(organizationId: string): Promise<QuotationBranding> {
+  const branding = await findBranding(organizationId);
+  const detail = toBrandingDetail(branding);
+
+  let logoDataUri: string | null = null;
+  if (branding?.logoStorageKey && branding.logoContentType) {
+    try {
+      const logo = await getFileStorage().read(branding.logoStorageKey);
+      logoDataUri = `data:${branding.logoContentType};base64,${logo.toString("base64")}`;
+    } catch (error) {
+      // A missing logo file should not stop the quotation from rendering.
+      console.error("Failed to read branding logo.", error);
+    }
+  }
+
+  return {
+    primaryColor: detail.primaryColor,
+    accentColor: detail.accentColor,
+    address: detail.address,
+    tin: detail.tin,
+    email: detail.email,
+    phone: detail.phone,
+    website: detail.website,
+    logoDataUri,
+    sections: detail.sections,
+    updatedAt: detail.updatedAt,
+  };
+}
+
+export async function getEstimateQuotation(
+  input: GetEstimateQuotationInput,
+): Promise<EstimateQuotation> {
+  const estimate = await prisma.estimate.findFirst({
+    where: {
+      id: input.estimateId,
+      deletedAt: null,
+      project: { organizationId: input.organizationId },
+    },
+    select: { id: true, quotationOverrides: true },
+  });
+
+  if (!estimate) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+  }
+
+  const branding = await findBranding(input.organizationId);
+  const defaults = parseQuotationSections(branding?.sections);
+  const overrides = parseQuotationSections(estimate.quotationOverrides);
+
+  return {
+    estimateId: estimate.id,
+    overrides,
+    defaults,
+    effective: resolveQuotationSections(defaults, overrides),
+  };
+}
+
+export async function updateEstimateQuotation(
+  input: UpdateEstimateQuotationInput,
+): Promise<EstimateQuotation> {
+  await prisma.$transaction(async (tx) => {
+    const estimate = await tx.estimate.findFirst({
+      where: {
+        id: input.estimateId,
+        deletedAt: null,
+        project: { organizationId: input.organizationId },
+      },
+      select: { id: true, status: true, quotationOverrides: true },
+    });
+
+    if (!estimate) {
+      throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+    }
+
+    if (estimate.status !== EstimateStatus.DRAFT) {
+      throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
+    }
+
+    await tx.estimate.update({
+      where: { id: estimate.id },
+      data: { quotationOverrides: input.overrides as Prisma.InputJsonValue },
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "ESTIMATE_QUOTATION_UPDATED",
+        beforeState: { quotationOverrides: estimate.quotationOverrides ?? {} },
+        afterState: { quotationOverrides: input.overrides as Prisma.InputJsonValue },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+  });
+
+  return getEstimateQuotation(input);
+}
@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import test, { type TestContext } from "node:test";
+import puppeteer, { type Browser } from "puppeteer";
+import { closeBrowserPool, getBrowserPoolMetrics, withPooledPage } from "./browser-pool.service";
+
+type FakePage = {
+  closed: boolean;
+  setDefaultTimeout(timeout: number): void;
+  goto(url: string): Promise<void>;
+  isClosed(): boolean;
+  close(): Promise<void>;
+};
+
+type FakeBrowser = {
+  closed: boolean;
+  broken: boolean;
+  readonly connected: boolean;
+  pages: FakePage[];
+  on(event: string, listener: () => void): void;
+  newPage(): Promise<FakePage>;
+  version(): Promise<string>;
+  close(): Promise<void>;
+};
+
+function createFakeBrowser(): FakeBrowser {
+  const browser: FakeBrowser = {
+    closed: false,
+    broken: false,
+    get connected() {
+      if (browser.broken) {
+        throw new Error("Browser connection lost");
+      }
+      return !browser.closed;
+    },
+    pages: [],
+    on() {},
+    async newPage() {
+      const page: FakePage = {
+        closed: false,
+        setDefaultTimeout() {},
+        async goto() {},
+        isClosed: () => page.closed,
+        async close() {
+          page.closed = true;
+        },
+      };
+      browser.pages.push(page);
+      return page;
+    },
+    async version() {
+      return "HeadlessChrome";
+    },
+    async close() {
+      browser.closed = true;
+    },
+  };
+
+  return browser;
+}
+
+/** Replaces the real browser launch for one test; the pool is reset afterwards. */
+function useFakeBrowsers(t: TestContext): FakeBrowser[] {
+  const browsers: FakeBrowser[] = [];
+  t.mock.method(puppeteer, "launch", async () => {
+    const browser = createFakeBrowser();
+    browsers.push(browser);
+    return browser as unknown as Browser;
+  });
+  t.after(() => closeBrowserPool());
+
+  return browsers;
+}
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve = () => {};
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+test("withPooledPage reuses a warm page for consecutive renders", async (t) => {
+  const browsers = useFakeBrowsers(t);
+
+  assert.equal(await withPooledPage(async () => "first"), "first");
+  assert.equal(await withPooledPage(async () => "second"), "second");
+
+  assert.equal(browsers.length, 1);
+  assert.equal(browsers[0].pages.length, 1);
+  assert.equal(browsers[0].pages[0].closed, false);
+});
+
+test("withPooledPage closes the page of a failed render instead of reusing it", async (t) => {
+  const browsers = useFakeBrowsers(t);
+  const failedBefore = getBrowserPoolMetrics().failedRenders;
+
+  await assert.rejects(
+    withPooledPage(async () => {
+      throw new Error("Render failed");
+    }),
+    /Render failed/,
+  );
+  await withPooledPage(async () => undefined);
+
+  assert.equal(getBrowserPoolMetrics().failedRenders, failedBefore + 1);
+  assert.equal(browsers[0].pages.length, 2);
+  assert.equal(browsers[0].pages[0].closed, true);
+});
+
+test("withPooledPage returns a page only once when returning it fails", async (t) => {
+  const browsers = useFakeBrowsers(t);
+  const failedBefore = getBrowserPoolMetrics().failedRenders;
+
+  await assert.rejects(
+    withPooledPage(async () => {
+      browsers[0].broken = true;
+    }),
+    /Browser connection lost/,
+  );
+
+  browsers[0].broken = false;
+
+  // A second, failed return would have closed the page and counted a failed render.
+  assert.equal(browsers[0].pages[0].closed, false);
+  assert.equal(getBrowserPoolMetrics().failedRenders, failedBefore);
+  assert.equal(getBrowserPoolMetrics().busySlots, 0);
+});
+
+test("withPooledPage queues renders beyond the pool size", async (t) => {
+  useFakeBrowsers(t);
+  process.env.PDF_BROWSER_POOL_SIZE = "1";
+  t.after(() => {
+    delete process.env.PDF_BROWSER_POOL_SIZE;
+  });
+
+  const firstRender = deferred();
+  const order: string[] = [];
+  const first = withPooledPage(async () => {
+    order.push("first started");
+    await firstRender.promise;
+    order.push("first finished");
+  });
+  const second = withPooledPage(async () => {
+    order.push("second started");
+  });
+
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(getBrowserPoolMetrics().queuedRenders, 1);
+
+  firstRender.resolve();
+  await Promise.all([first, second]);
+
+  assert.deepEqual(order, ["first started", "first finished", "second started"]);
+  assert.equal(getBrowserPoolMetrics().queuedRenders, 0);
+});
+
+test("withPooledPage replaces the browser after the configured number of renders", async (t) => {
+  const browsers = useFakeBrowsers(t);
+  process.env.PDF_BROWSER_MAX_RENDERS = "2";
+  t.after(() => {
+    delete process.env.PDF_BROWSER_MAX_RENDERS;
+  });
+
+  for (let render = 0; render < 3; render += 1) {
+    await withPooledPage(async () => undefined);
+  }
+
+  assert.equal(browsers.length, 2);
+  assert.equal(browsers[0].closed, true);
+  assert.equal(browsers[1].closed, false);
+});
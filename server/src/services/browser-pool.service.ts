@@ -0,0 +1,376 @@
+import puppeteer, { type Browser, type Page } from "puppeteer";
+import { AppError } from "../errors/app-error";
+
+type PooledPage = {
+  browser: Browser;
+  page: Page;
+};
+
+type Waiter = {
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+type DurationSummary = {
+  count: number;
+  averageMs: number | null;
+  p95Ms: number | null;
+  maxMs: number | null;
+};
+
+export type BrowserPoolMetrics = {
+  size: number;
+  maxRendersPerBrowser: number;
+  browserRunning: boolean;
+  busySlots: number;
+  idlePages: number;
+  queuedRenders: number;
+  browserLaunches: number;
+  browserRecycles: number;
+  browserCrashes: number;
+  renders: number;
+  failedRenders: number;
+  renderTime: DurationSummary;
+  queueWait: DurationSummary;
+};
+
+const DEFAULT_POOL_SIZE = 2;
+const DEFAULT_MAX_RENDERS_PER_BROWSER = 50;
+const QUEUE_TIMEOUT_MS = 2 * 60_000;
+const PAGE_TIMEOUT_MS = 60_000;
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+const MAX_DURATION_SAMPLES = 200;
+
+let currentBrowser: Browser | null = null;
+let launchingBrowser: Promise<Browser> | null = null;
+let rendersOnCurrentBrowser = 0;
+let busySlots = 0;
+let healthCheckTimer: NodeJS.Timeout | null = null;
+const idlePages: PooledPage[] = [];
+const waiters: Waiter[] = [];
+const busyPagesByBrowser = new Map<Browser, number>();
+const retiringBrowsers = new Set<Browser>();
+
+const counters = {
+  browserLaunches: 0,
+  browserRecycles: 0,
+  browserCrashes: 0,
+  renders: 0,
+  failedRenders: 0,
+};
+const renderDurations: number[] = [];
+const queueWaitDurations: number[] = [];
+
+function readPositiveInteger(name: string, fallback: number): number {
+  const parsed = Number.parseInt(process.env[name] ?? `${fallback}`, 10);
+
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return fallback;
+  }
+
+  return parsed;
+}
+
+function getPoolSize(): number {
+  return readPositiveInteger("PDF_BROWSER_POOL_SIZE", DEFAULT_POOL_SIZE);
+}
+
+function getMaxRendersPerBrowser(): number {
+  return readPositiveInteger("PDF_BROWSER_MAX_RENDERS", DEFAULT_MAX_RENDERS_PER_BROWSER);
+}
+
+function recordDuration(samples: number[], durationMs: number): void {
+  samples.push(durationMs);
+  if (samples.length > MAX_DURATION_SAMPLES) {
+    samples.shift();
+  }
+}
+
+function summarizeDurations(samples: number[]): DurationSummary {
+  if (samples.length === 0) {
+    return { count: 0, averageMs: null, p95Ms: null, maxMs: null };
+  }
+
+  const sorted = [...samples].sort((left, right) => left - right);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  return {
+    count: sorted.length,
+    averageMs: Math.round(total / sorted.length),
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)],
+    maxMs: sorted[sorted.length - 1],
+  };
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error("Browser did not respond")), timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function closeBrowserQuietly(browser: Browser): Promise<void> {
+  retiringBrowsers.delete(browser);
+  busyPagesByBrowser.delete(browser);
+  try {
+    await browser.close();
+  } catch {
+    // The process may already be gone after a crash.
+  }
+}
+
+/**
+ * Stops handing out pages from `browser`. Idle pages are dropped at once; the process is closed
+ * when the renders still running on it finish.
+ */
+function retireBrowser(browser: Browser): void {
+  if (currentBrowser === browser) {
+    currentBrowser = null;
+  }
+
+  for (let index = idlePages.length - 1; index >= 0; index -= 1) {
+    if (idlePages[index].browser === browser) {
+      idlePages.splice(index, 1);
+    }
+  }
+
+  if ((busyPagesByBrowser.get(browser) ?? 0) === 0) {
+    void closeBrowserQuietly(browser);
+  } else {
+    retiringBrowsers.add(browser);
+  }
+}
+
+async function getBrowser(): Promise<Browser> {
+  if (currentBrowser?.connected) {
+    return currentBrowser;
+  }
+
+  if (!launchingBrowser) {
+    const executablePath = process.env.PUPPETEER_EXECUTABLE_PATH;
+    launchingBrowser = puppeteer
+      .launch({
+        headless: true,
+        args: ["--no-sandbox", "--disable-setuid-sandbox"],
+        ...(executablePath ? { executablePath } : {}),
+      })
+      .then((browser) => {
+        browser.on("disconnected", () => {
+          if (currentBrowser === browser) {
+            counters.browserCrashes += 1;
+            retireBrowser(browser);
+          }
+        });
+        currentBrowser = browser;
+        rendersOnCurrentBrowser = 0;
+        counters.browserLaunches += 1;
+        startHealthChecks();
+        return browser;
+      })
+      .finally(() => {
+        launchingBrowser = null;
+      });
+  }
+
+  return launchingBrowser;
+}
+
+async function takePage(): Promise<PooledPage> {
+  while (idlePages.length > 0) {
+    const pooled = idlePages.pop() as PooledPage;
+    if (pooled.browser === currentBrowser && pooled.browser.connected && !pooled.page.isClosed()) {
+      return pooled;
+    }
+  }
+
+  const browser = await getBrowser();
+  const page = await browser.newPage();
+  page.setDefaultTimeout(PAGE_TIMEOUT_MS);
+  return { browser, page };
+}
+
+async function returnPage(pooled: PooledPage, failed: boolean): Promise<void> {
+  const { browser, page } = pooled;
+  const busyPages = (busyPagesByBrowser.get(browser) ?? 1) - 1;
+  if (busyPages > 0) {
+    busyPagesByBrowser.set(browser, busyPages);
+  } else {
+    busyPagesByBrowser.delete(browser);
+  }
+
+  if (browser === currentBrowser) {
+    rendersOnCurrentBrowser += 1;
+    if (rendersOnCurrentBrowser >= getMaxRendersPerBrowser()) {
+      counters.browserRecycles += 1;
+      retireBrowser(browser);
+    }
+  }
+
+  let reusable = !failed && browser === currentBrowser && browser.connected;
+  if (reusable) {
+    try {
+      await page.goto("about:blank");
+    } catch {
+      reusable = false;
+    }
+  }
+
+  if (reusable) {
+    idlePages.push(pooled);
+  } else {
+    await page.close().catch(() => undefined);
+  }
+
+  if (retiringBrowsers.has(browser) && (busyPagesByBrowser.get(browser) ?? 0) === 0) {
+    await closeBrowserQuietly(browser);
+  }
+}
+
+async function acquireSlot(): Promise<void> {
+  if (busySlots < getPoolSize() && waiters.length === 0) {
+    busySlots += 1;
+    recordDuration(queueWaitDurations, 0);
+    return;
+  }
+
+  // The slot is handed over by `releaseSlot`, so `busySlots` already counts this render.
+  await new Promise<void>((resolve, reject) => {
+    const waiter: Waiter = {
+      enqueuedAt: Date.now(),
+      resolve,
+      reject,
+      timer: setTimeout(() => {
+        const index = waiters.indexOf(waiter);
+        if (index >= 0) {
+          waiters.splice(index, 1);
+        }
+        reject(new AppError(503, "PDF_RENDERER_BUSY", "PDF renderer is busy, try again shortly"));
+      }, QUEUE_TIMEOUT_MS),
+    };
+    waiters.push(waiter);
+  });
+}
+
+function releaseSlot(): void {
+  const next = waiters.shift();
+  if (!next) {
+    busySlots -= 1;
+    return;
+  }
+
+  clearTimeout(next.timer);
+  recordDuration(queueWaitDurations, Date.now() - next.enqueuedAt);
+  next.resolve();
+}
+
+async function checkBrowserHealth(): Promise<void> {
+  const browser = currentBrowser;
+  if (!browser) {
+    return;
+  }
+
+  try {
+    await withTimeout(browser.version(), HEALTH_CHECK_TIMEOUT_MS);
+  } catch {
+    counters.browserCrashes += 1;
+    retireBrowser(browser);
+    return;
+  }
+
+  for (let index = idlePages.length - 1; index >= 0; index -= 1) {
+    if (idlePages[index].page.isClosed()) {
+      idlePages.splice(index, 1);
+    }
+  }
+}
+
+function startHealthChecks(): void {
+  if (healthCheckTimer) {
+    return;
+  }
+
+  healthCheckTimer = setInterval(() => {
+    void checkBrowserHealth();
+  }, HEALTH_CHECK_INTERVAL_MS);
+  healthCheckTimer.unref();
+}
+
+/**
+ * Runs `render` on a warm page from the shared browser. At most `PDF_BROWSER_POOL_SIZE` renders
+ * run at once and the rest wait in order. The browser is replaced after `PDF_BROWSER_MAX_RENDERS`
+ * renders, and a page whose render failed is closed rather than reused.
+ */
+export async function withPooledPage<T>(render: (page: Page) => Promise<T>): Promise<T> {
+  await acquireSlot();
+
+  let pooled: PooledPage | null = null;
+  // Set before the page goes back, so a failing return is not followed by a second one.
+  let released = false;
+  const startedAt = Date.now();
+  try {
+    pooled = await takePage();
+    busyPagesByBrowser.set(pooled.browser, (busyPagesByBrowser.get(pooled.browser) ?? 0) + 1);
+    const result = await render(pooled.page);
+    counters.renders += 1;
+    recordDuration(renderDurations, Date.now() - startedAt);
+    released = true;
+    await returnPage(pooled, false);
+    return result;
+  } catch (error) {
+    if (!released) {
+      counters.failedRenders += 1;
+      if (pooled) {
+        released = true;
+        await returnPage(pooled, true);
+      }
+    }
+    throw error;
+  } finally {
+    releaseSlot();
+  }
+}
+
+export function getBrowserPoolMetrics(): BrowserPoolMetrics {
+  return {
+    size: getPoolSize(),
+    maxRendersPerBrowser: getMaxRendersPerBrowser(),
+    browserRunning: currentBrowser?.connected ?? false,
+    busySlots,
+    idlePages: idlePages.length,
+    queuedRenders: waiters.length,
+    ...counters,
+    renderTime: summarizeDurations(renderDurations),
+    queueWait: summarizeDurations(queueWaitDurations),
+  };
+}
+
+/** Closes every browser and rejects queued renders, for process shutdown. */
+export async function closeBrowserPool(): Promise<void> {
+  if (healthCheckTimer) {
+    clearInterval(healthCheckTimer);
+    healthCheckTimer = null;
+  }
+
+  for (const waiter of waiters.splice(0)) {
+    clearTimeout(waiter.timer);
+    waiter.reject(new AppError(503, "PDF_RENDERER_STOPPED", "PDF renderer is shutting down"));
+  }
+
+  const browsers = new Set<Browser>([...retiringBrowsers, ...busyPagesByBrowser.keys()]);
+  if (currentBrowser) {
+    browsers.add(currentBrowser);
+  }
+  currentBrowser = null;
+  idlePages.splice(0);
+
+  await Promise.all(Array.from(browsers, (browser) => closeBrowserQuietly(browser)));
+}
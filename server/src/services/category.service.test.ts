@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Prisma } from "@prisma/client";
+import {
+  countTemplateCategoryUsage,
+  orderCategoryTree,
+  rollUpCategorySubtotals,
+} from "./category.service";
+import { calculateTotals } from "./estimate.service";
+
+const categories = [
+  { id: "finishes", code: "FINISHES", parentId: null, sortOrder: 2 },
+  { id: "structure", code: "STRUCTURE", parentId: null, sortOrder: 1 },
+  { id: "concrete", code: "CONCRETE", parentId: "structure", sortOrder: 1 },
+  { id: "footings", code: "FOOTINGS", parentId: "concrete", sortOrder: 1 },
+  { id: "masonry", code: "MASONRY", parentId: "structure", sortOrder: 0 },
+  { id: "painting", code: "PAINTING", parentId: "finishes", sortOrder: 0 },
+];
+
+test("orderCategoryTree orders depth-first by sort order and annotates depth", () => {
+  const ordered = orderCategoryTree(categories);
+
+  assert.deepEqual(
+    ordered.map((category) => [category.code, category.depth]),
+    [
+      ["STRUCTURE", 1],
+      ["MASONRY", 2],
+      ["CONCRETE", 2],
+      ["FOOTINGS", 3],
+      ["FINISHES", 1],
+      ["PAINTING", 2],
+    ],
+  );
+});
+
+test("orderCategoryTree treats categories with a missing parent as top-level", () => {
+  const ordered = orderCategoryTree([
+    { id: "orphan", code: "ORPHAN", parentId: "deleted", sortOrder: 0 },
+  ]);
+
+  assert.equal(ordered[0].depth, 1);
+});
+
+test("rollUpCategorySubtotals adds estimate category subtotals to every ancestor", () => {
+  const totals = calculateTotals({
+    lineItems: [
+      {
+        id: "footing",
+        category: "FOOTINGS",
+        quantity: new Prisma.Decimal(2),
+        unitMaterialCost: new Prisma.Decimal(1500),
+        unitLaborCost: new Prisma.Decimal(500),
+        markupRate: null,
+        vatExempt: false,
+      },
+      {
+        id: "slab",
+        category: "CONCRETE",
+        quantity: new Prisma.Decimal(1),
+        unitMaterialCost: new Prisma.Decimal(1000),
+        unitLaborCost: new Prisma.Decimal(0),
+        markupRate: null,
+        vatExempt: false,
+      },
+      {
+        id: "paint",
+        category: "PAINTING",
+        quantity: new Prisma.Decimal(10),
+        unitMaterialCost: new Prisma.Decimal(25.5),
+        unitLaborCost: new Prisma.Decimal(0),
+        markupRate: null,
+        vatExempt: false,
+      },
+      {
+        id: "legacy",
+        category: "UNLISTED",
+        quantity: new Prisma.Decimal(1),
+        unitMaterialCost: new Prisma.Decimal(99),
+        unitLaborCost: new Prisma.Decimal(0),
+        markupRate: null,
+        vatExempt: false,
+      },
+    ],
+    markupRate: new Prisma.Decimal(0),
+    vatRate: new Prisma.Decimal(0),
+  });
+
+  const rolledUp = rollUpCategorySubtotals(categories, totals.categorySubtotals);
+
+  assert.equal(rolledUp.FOOTINGS.toFixed(2), "4000.00");
+  assert.equal(rolledUp.CONCRETE.toFixed(2), "5000.00");
+  assert.equal(rolledUp.STRUCTURE.toFixed(2), "5000.00");
+  assert.equal(rolledUp.PAINTING.toFixed(2), "255.00");
+  assert.equal(rolledUp.FINISHES.toFixed(2), "255.00");
+  assert.equal(rolledUp.UNLISTED.toFixed(2), "99.00");
+  assert.equal(rolledUp.MASONRY, undefined);
+});
+
+test("countTemplateCategoryUsage counts template line items and formula binding outputs", () => {
+  const usage = countTemplateCategoryUsage(
+    [
+      {
+        lineItems: [{ category: "MASONRY" }, { category: "PAINTING" }, { category: "MASONRY" }],
+        formulaBindings: [
+          { formulaName: "CHB Wall", outputs: [{ category: "MASONRY" }, { category: "CONCRETE" }] },
+        ],
+      },
+      { lineItems: [{ category: "PAINTING" }], formulaBindings: [] },
+    ],
+    ["MASONRY", "PAINTING", "FOOTINGS"],
+  );
+
+  assert.deepEqual(Object.fromEntries(usage), { MASONRY: 3, PAINTING: 2 });
+});
+
+test("countTemplateCategoryUsage skips template contents it cannot read", () => {
+  const usage = countTemplateCategoryUsage(
+    [
+      {
+        lineItems: null,
+        formulaBindings: [{ outputs: "MASONRY" }, null, [{ category: "MASONRY" }]],
+      },
+    ],
+    ["MASONRY"],
+  );
+
+  assert.equal(usage.size, 0);
+});
@@ -0,0 +1,635 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { logAudit } from "./audit.service";
+
+/** Division > section > item. */
+export const MAX_CATEGORY_DEPTH = 3;
+
+/** Trades every new organization starts with; the codes match the former fixed category list. */
+export const DEFAULT_CATEGORIES: Array<{ code: string; name: string }> = [
+  { code: "CONCRETE_WORKS", name: "Concrete Works" },
+  { code: "MASONRY_WORKS", name: "Masonry Works" },
+  { code: "PAINTING_WORKS", name: "Painting Works" },
+  { code: "FORMWORKS", name: "Formworks" },
+  { code: "STEEL_WORKS", name: "Steel Works" },
+  { code: "CARPENTRY", name: "Carpentry" },
+  { code: "DOORS_AND_WINDOWS", name: "Doors and Windows" },
+  { code: "WATERPROOFING", name: "Waterproofing" },
+  { code: "GENERAL_REQUIREMENTS", name: "General Requirements" },
+];
+
+type CategoryDbClient = Pick<PrismaClient, "category"> | Prisma.TransactionClient;
+
+type CreateCategoryInput = {
+  organizationId: string;
+  code: string;
+  name: string;
+  parentId?: string | null;
+  sortOrder?: number;
+  performedBy: string;
+};
+
+type UpdateCategoryInput = {
+  organizationId: string;
+  categoryId: string;
+  code?: string;
+  name?: string;
+  parentId?: string | null;
+  sortOrder?: number;
+  performedBy: string;
+};
+
+type DeleteCategoryInput = {
+  organizationId: string;
+  categoryId: string;
+  performedBy: string;
+};
+
+type CategoryTreeInput = {
+  id: string;
+  code: string;
+  parentId: string | null;
+  sortOrder: number;
+};
+
+export type CategoryTreeNode<T extends CategoryTreeInput = CategoryTreeInput> = T & {
+  depth: number;
+};
+
+export type OrganizationCategory = CategoryTreeNode<{
+  id: string;
+  code: string;
+  name: string;
+  parentId: string | null;
+  sortOrder: number;
+}>;
+
+export type CategorySummary = OrganizationCategory & {
+  lineItemCount: number;
+  formulaCount: number;
+  templateLineItemCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+const categorySelect = {
+  id: true,
+  code: true,
+  name: true,
+  parentId: true,
+  sortOrder: true,
+  createdAt: true,
+  updatedAt: true,
+  createdByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.CategorySelect;
+
+type CategorySelectedShape = Prisma.CategoryGetPayload<{ select: typeof categorySelect }>;
+
+/**
+ * Orders categories depth-first, siblings by sort order then code, and annotates each with its
+ * depth (1 for divisions). Categories whose parent is missing are treated as top-level.
+ */
+export function orderCategoryTree<T extends CategoryTreeInput>(
+  categories: T[],
+): Array<CategoryTreeNode<T>> {
+  const ids = new Set(categories.map((category) => category.id));
+  const childrenByParent = new Map<string | null, T[]>();
+  for (const category of categories) {
+    const parentKey = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+    const siblings = childrenByParent.get(parentKey) ?? [];
+    siblings.push(category);
+    childrenByParent.set(parentKey, siblings);
+  }
+
+  const ordered: Array<CategoryTreeNode<T>> = [];
+  const visit = (parentKey: string | null, depth: number): void => {
+    const siblings = [...(childrenByParent.get(parentKey) ?? [])].sort(
+      (left, right) => left.sortOrder - right.sortOrder || left.code.localeCompare(right.code),
+    );
+    for (const category of siblings) {
+      ordered.push({ ...category, depth });
+      visit(category.id, depth + 1);
+    }
+  };
+  visit(null, 1);
+
+  return ordered;
+}
+
+/**
+ * Adds each category's direct subtotal to all of its ancestors, so a division's subtotal covers
+ * every section and item below it. Codes missing from `categories` keep their direct subtotal.
+ */
+export function rollUpCategorySubtotals(
+  categories: CategoryTreeInput[],
+  directSubtotals: Record<string, Prisma.Decimal>,
+): Record<string, Prisma.Decimal> {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const byCode = new Map(categories.map((category) => [category.code, category]));
+  const rolledUp: Record<string, Prisma.Decimal> = {};
+
+  for (const [code, subtotal] of Object.entries(directSubtotals)) {
+    rolledUp[code] = (rolledUp[code] ?? new Prisma.Decimal(0)).plus(subtotal);
+
+    let parentId = byCode.get(code)?.parentId ?? null;
+    while (parentId) {
+      const parent = byId.get(parentId);
+      if (!parent) {
+        break;
+      }
+
+      rolledUp[parent.code] = (rolledUp[parent.code] ?? new Prisma.Decimal(0)).plus(subtotal);
+      parentId = parent.parentId;
+    }
+  }
+
+  return rolledUp;
+}
+
+export async function loadOrganizationCategories(
+  client: CategoryDbClient,
+  organizationId: string,
+): Promise<OrganizationCategory[]> {
+  const categories = await client.category.findMany({
+    where: { organizationId },
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      parentId: true,
+      sortOrder: true,
+    },
+  });
+
+  return orderCategoryTree(categories);
+}
+
+/**
+ * Confirms a category code exists in the organization before line items or formulas are filed
+ * under it.
+ */
+export async function assertCategoryInOrganization(
+  client: CategoryDbClient,
+  input: { organizationId: string; code: string },
+): Promise<void> {
+  const category = await client.category.findUnique({
+    where: {
+      organizationId_code: {
+        organizationId: input.organizationId,
+        code: input.code,
+      },
+    },
+    select: { id: true },
+  });
+
+  if (!category) {
+    throw new AppError(404, "CATEGORY_NOT_FOUND", `Category ${input.code} not found`);
+  }
+}
+
+export async function seedDefaultCategoriesForOrganization(
+  input: { organizationId: string; createdBy: string },
+  db?: CategoryDbClient,
+): Promise<number> {
+  const client = db ?? prisma;
+  const existingCategoryCount = await client.category.count({
+    where: { organizationId: input.organizationId },
+  });
+
+  if (existingCategoryCount > 0) {
+    return 0;
+  }
+
+  const created = await client.category.createMany({
+    data: DEFAULT_CATEGORIES.map((category, index) => ({
+      organizationId: input.organizationId,
+      code: category.code,
+      name: category.name,
+      sortOrder: index + 1,
+      createdBy: input.createdBy,
+    })),
+  });
+
+  return created.count;
+}
+
+function readStoredCategories(value: Prisma.JsonValue): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((item) =>
+    typeof item === "object" &&
+    item !== null &&
+    !Array.isArray(item) &&
+    typeof item.category === "string"
+      ? [item.category]
+      : [],
+  );
+}
+
+/**
+ * Counts template line items per category code, including the line items a template's formula
+ * bindings create. Template contents are JSON, so they cannot be grouped in the database.
+ */
+export function countTemplateCategoryUsage(
+  templates: Array<{ lineItems: Prisma.JsonValue; formulaBindings: Prisma.JsonValue }>,
+  codes: string[],
+): Map<string, number> {
+  const wanted = new Set(codes);
+  const counts = new Map<string, number>();
+
+  for (const template of templates) {
+    const bindings = Array.isArray(template.formulaBindings) ? template.formulaBindings : [];
+    const categories = [
+      ...readStoredCategories(template.lineItems),
+      ...bindings.flatMap((binding) =>
+        typeof binding === "object" && binding !== null && !Array.isArray(binding)
+          ? readStoredCategories(binding.outputs ?? null)
+          : [],
+      ),
+    ];
+
+    for (const category of categories) {
+      if (wanted.has(category)) {
+        counts.set(category, (counts.get(category) ?? 0) + 1);
+      }
+    }
+  }
+
+  return counts;
+}
+
+async function countCategoryUsage(
+  client: Prisma.TransactionClient,
+  organizationId: string,
+  codes: string[],
+): Promise<{
+  lineItems: Map<string, number>;
+  formulas: Map<string, number>;
+  templateLineItems: Map<string, number>;
+}> {
+  const [lineItemGroups, formulaGroups, templates] = await Promise.all([
+    client.lineItem.groupBy({
+      by: ["category"],
+      where: {
+        category: { in: codes },
+        estimate: {
+          project: {
+            organizationId,
+          },
+        },
+      },
+      _count: { _all: true },
+    }),
+    client.formula.groupBy({
+      by: ["category"],
+      where: {
+        organizationId,
+        category: { in: codes },
+      },
+      _count: { _all: true },
+    }),
+    client.estimateTemplate.findMany({
+      where: { organizationId },
+      select: { lineItems: true, formulaBindings: true },
+    }),
+  ]);
+
+  return {
+    lineItems: new Map(lineItemGroups.map((group) => [group.category, group._count._all])),
+    formulas: new Map(formulaGroups.map((group) => [group.category, group._count._all])),
+    templateLineItems: countTemplateCategoryUsage(templates, codes),
+  };
+}
+
+function isCategoryInUse(
+  usage: Awaited<ReturnType<typeof countCategoryUsage>>,
+  code: string,
+): boolean {
+  return usage.lineItems.has(code) || usage.formulas.has(code) || usage.templateLineItems.has(code);
+}
+
+function toCategoryAuditState(category: CategorySelectedShape): Prisma.InputJsonObject {
+  return {
+    code: category.code,
+    name: category.name,
+    parentId: category.parentId,
+    sortOrder: category.sortOrder,
+  };
+}
+
+async function findCategoryOrThrow(
+  client: CategoryDbClient,
+  input: { organizationId: string; categoryId: string },
+): Promise<CategorySelectedShape> {
+  const category = await client.category.findFirst({
+    where: {
+      id: input.categoryId,
+      organizationId: input.organizationId,
+    },
+    select: categorySelect,
+  });
+
+  if (!category) {
+    throw new AppError(404, "CATEGORY_NOT_FOUND", "Category not found");
+  }
+
+  return category;
+}
+
+async function ensureCategoryCodeIsUnique(input: {
+  tx: Prisma.TransactionClient;
+  organizationId: string;
+  code: string;
+  excludeId?: string;
+}): Promise<void> {
+  const existing = await input.tx.category.findFirst({
+    where: {
+      organizationId: input.organizationId,
+      code: input.code,
+      ...(input.excludeId ? { id: { not: input.excludeId } } : {}),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new AppError(
+      409,
+      "CATEGORY_CODE_CONFLICT",
+      "A category with this code already exists in your organization",
+    );
+  }
+}
+
+/**
+ * Checks that placing `categoryId` (or a new category when omitted) under `parentId` keeps the tree
+ * acyclic and no deeper than `MAX_CATEGORY_DEPTH`.
+ */
+async function assertValidParent(
+  tx: Prisma.TransactionClient,
+  input: { organizationId: string; parentId: string; categoryId?: string },
+): Promise<void> {
+  const categories = await loadOrganizationCategories(tx, input.organizationId);
+  const parent = categories.find((category) => category.id === input.parentId);
+  if (!parent) {
+    throw new AppError(404, "CATEGORY_NOT_FOUND", "Parent category not found");
+  }
+
+  let subtreeHeight = 1;
+  if (input.categoryId) {
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    let ancestorId: string | null = parent.id;
+    while (ancestorId) {
+      if (ancestorId === input.categoryId) {
+        throw new AppError(
+          400,
+          "CATEGORY_INVALID_PARENT",
+          "A category cannot be moved under itself or one of its subcategories",
+        );
+      }
+      ancestorId = byId.get(ancestorId)?.parentId ?? null;
+    }
+
+    // `categories` is depth-first, so the subtree is the run of deeper nodes after the category.
+    const startIndex = categories.findIndex((category) => category.id === input.categoryId);
+    if (startIndex !== -1) {
+      const current = categories[startIndex];
+      for (let index = startIndex + 1; index < categories.length; index += 1) {
+        if (categories[index].depth <= current.depth) {
+          break;
+        }
+        subtreeHeight = Math.max(subtreeHeight, categories[index].depth - current.depth + 1);
+      }
+    }
+  }
+
+  if (parent.depth + subtreeHeight > MAX_CATEGORY_DEPTH) {
+    throw new AppError(
+      400,
+      "CATEGORY_TOO_DEEP",
+      `Categories can be nested at most ${MAX_CATEGORY_DEPTH} levels deep`,
+    );
+  }
+}
+
+export async function getCategories(input: {
+  organizationId: string;
+}): Promise<{ items: CategorySummary[] }> {
+  const categories = await prisma.category.findMany({
+    where: {
+      organizationId: input.organizationId,
+    },
+    select: categorySelect,
+  });
+
+  const usage = await countCategoryUsage(
+    prisma,
+    input.organizationId,
+    categories.map((category) => category.code),
+  );
+
+  return {
+    items: orderCategoryTree(categories).map((category) => ({
+      id: category.id,
+      code: category.code,
+      name: category.name,
+      parentId: category.parentId,
+      sortOrder: category.sortOrder,
+      depth: category.depth,
+      lineItemCount: usage.lineItems.get(category.code) ?? 0,
+      formulaCount: usage.formulas.get(category.code) ?? 0,
+      templateLineItemCount: usage.templateLineItems.get(category.code) ?? 0,
+      createdAt: category.createdAt,
+      updatedAt: category.updatedAt,
+      createdBy: category.createdByUser,
+    })),
+  };
+}
+
+export async function getCategoryById(input: {
+  organizationId: string;
+  categoryId: string;
+}): Promise<CategorySummary> {
+  const category = await findCategoryOrThrow(prisma, input);
+  const { items } = await getCategories({ organizationId: input.organizationId });
+  const summary = items.find((item) => item.id === category.id);
+  if (!summary) {
+    throw new AppError(404, "CATEGORY_NOT_FOUND", "Category not found");
+  }
+
+  return summary;
+}
+
+export async function createCategory(input: CreateCategoryInput): Promise<CategorySummary> {
+  const created = await prisma.$transaction(async (tx) => {
+    await ensureCategoryCodeIsUnique({
+      tx,
+      organizationId: input.organizationId,
+      code: input.code,
+    });
+
+    if (input.parentId) {
+      await assertValidParent(tx, {
+        organizationId: input.organizationId,
+        parentId: input.parentId,
+      });
+    }
+
+    const category = await tx.category.create({
+      data: {
+        organizationId: input.organizationId,
+        parentId: input.parentId ?? null,
+        code: input.code,
+        name: input.name,
+        sortOrder: input.sortOrder ?? 0,
+        createdBy: input.performedBy,
+      },
+      select: categorySelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Category",
+        entityId: category.id,
+        action: "CATEGORY_CREATED",
+        beforeState: {},
+        afterState: toCategoryAuditState(category),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return category;
+  });
+
+  return getCategoryById({ organizationId: input.organizationId, categoryId: created.id });
+}
+
+/**
+ * Updates a category. The code is what line items and formulas are filed under, so it can only be
+ * changed while nothing uses it.
+ */
+export async function updateCategory(input: UpdateCategoryInput): Promise<CategorySummary> {
+  const beforeState = await findCategoryOrThrow(prisma, {
+    organizationId: input.organizationId,
+    categoryId: input.categoryId,
+  });
+
+  await prisma.$transaction(async (tx) => {
+    if (input.code !== undefined && input.code !== beforeState.code) {
+      await ensureCategoryCodeIsUnique({
+        tx,
+        organizationId: input.organizationId,
+        code: input.code,
+        excludeId: beforeState.id,
+      });
+
+      const usage = await countCategoryUsage(tx, input.organizationId, [beforeState.code]);
+      if (isCategoryInUse(usage, beforeState.code)) {
+        throw new AppError(
+          409,
+          "CATEGORY_IN_USE",
+          "The code of a category used by line items, formulas or estimate templates cannot be changed",
+        );
+      }
+    }
+
+    if (input.parentId) {
+      await assertValidParent(tx, {
+        organizationId: input.organizationId,
+        parentId: input.parentId,
+        categoryId: beforeState.id,
+      });
+    }
+
+    const category = await tx.category.update({
+      where: { id: beforeState.id },
+      data: {
+        ...(input.code !== undefined ? { code: input.code } : {}),
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.parentId !== undefined ? { parentId: input.parentId } : {}),
+        ...(input.sortOrder !== undefined ? { sortOrder: input.sortOrder } : {}),
+      },
+      select: categorySelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Category",
+        entityId: category.id,
+        action: "CATEGORY_UPDATED",
+        beforeState: toCategoryAuditState(beforeState),
+        afterState: toCategoryAuditState(category),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+  });
+
+  return getCategoryById({ organizationId: input.organizationId, categoryId: beforeState.id });
+}
+
+export async function deleteCategory(
+  input: DeleteCategoryInput,
+): Promise<{ deletedCategoryId: string }> {
+  const category = await findCategoryOrThrow(prisma, {
+    organizationId: input.organizationId,
+    categoryId: input.categoryId,
+  });
+
+  await prisma.$transaction(async (tx) => {
+    const childCount = await tx.category.count({
+      where: { parentId: category.id },
+    });
+    if (childCount > 0) {
+      throw new AppError(
+        409,
+        "CATEGORY_HAS_CHILDREN",
+        "Move or delete the subcategories of this category first",
+      );
+    }
+
+    const usage = await countCategoryUsage(tx, input.organizationId, [category.code]);
+    if (isCategoryInUse(usage, category.code)) {
+      throw new AppError(
+        409,
+        "CATEGORY_IN_USE",
+        "Categories used by line items, formulas or estimate templates cannot be deleted",
+      );
+    }
+
+    await tx.category.delete({
+      where: { id: category.id },
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Category",
+        entityId: category.id,
+        action: "CATEGORY_DELETED",
+        beforeState: toCategoryAuditState(category),
+        afterState: {},
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+  });
+
+  return {
+    deletedCategoryId: category.id,
+  };
+}
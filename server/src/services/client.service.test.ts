@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { getAttentionContact, toContactRows } from "./client.service";
+
+type ContactInput = Parameters<typeof toContactRows>[0][number];
+
+function contact(name: string, overrides: Partial<ContactInput> = {}): ContactInput {
+  return {
+    name,
+    title: null,
+    email: null,
+    phone: null,
+    isPrimary: false,
+    ...overrides,
+  };
+}
+
+test("getAttentionContact addresses the primary contact wherever it is listed", () => {
+  const contacts = [contact("Site Engineer"), contact("Owner", { isPrimary: true })];
+
+  assert.equal(getAttentionContact(contacts)?.name, "Owner");
+});
+
+test("getAttentionContact falls back to the first contact and to nobody", () => {
+  assert.equal(
+    getAttentionContact([contact("Site Engineer"), contact("Owner")])?.name,
+    "Site Engineer",
+  );
+  assert.equal(getAttentionContact([]), null);
+});
+
+test("toContactRows keeps the submitted order and stores blank fields as null", () => {
+  const rows = toContactRows([
+    contact("Owner", { title: "  President ", email: "", isPrimary: true }),
+    contact("Site Engineer", { phone: "   ", email: "engineer@example.com" }),
+  ]);
+
+  assert.deepEqual(rows, [
+    {
+      name: "Owner",
+      title: "President",
+      email: null,
+      phone: null,
+      isPrimary: true,
+      sortOrder: 0,
+    },
+    {
+      name: "Site Engineer",
+      title: null,
+      email: "engineer@example.com",
+      phone: null,
+      isPrimary: false,
+      sortOrder: 1,
+    },
+  ]);
+});
@@ -0,0 +1,446 @@
+import type { Prisma } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import type { ClientContactInput } from "../schemas/client.schemas";
+import { logAudit } from "./audit.service";
+
+type GetClientsInput = {
+  organizationId: string;
+  page: number;
+  pageSize: number;
+  search?: string;
+};
+
+type ClientFieldsInput = {
+  tin?: string | null;
+  billingAddress?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+};
+
+type CreateClientInput = ClientFieldsInput & {
+  organizationId: string;
+  name: string;
+  contacts: ClientContactInput[];
+  performedBy: string;
+};
+
+type UpdateClientInput = ClientFieldsInput & {
+  organizationId: string;
+  clientId: string;
+  name?: string;
+  contacts?: ClientContactInput[];
+  performedBy: string;
+};
+
+type DeleteClientInput = {
+  organizationId: string;
+  clientId: string;
+  performedBy: string;
+};
+
+export type ClientContact = {
+  id: string;
+  name: string;
+  title: string | null;
+  email: string | null;
+  phone: string | null;
+  isPrimary: boolean;
+};
+
+export type ClientSummary = {
+  id: string;
+  name: string;
+  tin: string | null;
+  billingAddress: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  contacts: ClientContact[];
+  projectCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type GetClientsResult = {
+  items: ClientSummary[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalItems: number;
+    totalPages: number;
+  };
+};
+
+export const clientContactSelect = {
+  id: true,
+  name: true,
+  title: true,
+  email: true,
+  phone: true,
+  isPrimary: true,
+} satisfies Prisma.ClientContactSelect;
+
+const clientSelect = {
+  id: true,
+  name: true,
+  tin: true,
+  billingAddress: true,
+  email: true,
+  phone: true,
+  notes: true,
+  createdAt: true,
+  updatedAt: true,
+  contacts: {
+    orderBy: { sortOrder: "asc" },
+    select: clientContactSelect,
+  },
+  createdByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  _count: {
+    select: {
+      projects: true,
+    },
+  },
+} satisfies Prisma.ClientSelect;
+
+type ClientSelectedShape = Prisma.ClientGetPayload<{ select: typeof clientSelect }>;
+
+function toClientSummary(client: ClientSelectedShape): ClientSummary {
+  return {
+    id: client.id,
+    name: client.name,
+    tin: client.tin,
+    billingAddress: client.billingAddress,
+    email: client.email,
+    phone: client.phone,
+    notes: client.notes,
+    contacts: client.contacts,
+    projectCount: client._count.projects,
+    createdAt: client.createdAt,
+    updatedAt: client.updatedAt,
+    createdBy: client.createdByUser,
+  };
+}
+
+function toClientAuditState(client: ClientSelectedShape): Prisma.InputJsonObject {
+  return {
+    name: client.name,
+    tin: client.tin,
+    billingAddress: client.billingAddress,
+    email: client.email,
+    phone: client.phone,
+    notes: client.notes,
+    contacts: client.contacts.map((contact) => ({
+      name: contact.name,
+      title: contact.title,
+      email: contact.email,
+      phone: contact.phone,
+      isPrimary: contact.isPrimary,
+    })),
+  };
+}
+
+function toNullableText(value: string | null | undefined): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  return value?.trim() || null;
+}
+
+/** Contact rows keep the submitted order; blank optional fields are stored as null. */
+export function toContactRows(
+  contacts: ClientContactInput[],
+): Prisma.ClientContactCreateManyClientInput[] {
+  return contacts.map((contact, index) => ({
+    name: contact.name,
+    title: toNullableText(contact.title) ?? null,
+    email: toNullableText(contact.email) ?? null,
+    phone: toNullableText(contact.phone) ?? null,
+    isPrimary: contact.isPrimary,
+    sortOrder: index,
+  }));
+}
+
+/**
+ * Picks the contact a quotation is addressed to: the primary contact, or the first one listed.
+ */
+export function getAttentionContact<T extends { isPrimary: boolean }>(contacts: T[]): T | null {
+  return contacts.find((contact) => contact.isPrimary) ?? contacts[0] ?? null;
+}
+
+async function findClientOrThrow(input: {
+  organizationId: string;
+  clientId: string;
+}): Promise<ClientSelectedShape> {
+  const client = await prisma.client.findFirst({
+    where: {
+      id: input.clientId,
+      organizationId: input.organizationId,
+    },
+    select: clientSelect,
+  });
+
+  if (!client) {
+    throw new AppError(404, "CLIENT_NOT_FOUND", "Client not found");
+  }
+
+  return client;
+}
+
+async function ensureClientNameIsUnique(input: {
+  tx: Prisma.TransactionClient;
+  organizationId: string;
+  name: string;
+  excludeId?: string;
+}): Promise<void> {
+  const existing = await input.tx.client.findFirst({
+    where: {
+      organizationId: input.organizationId,
+      name: {
+        equals: input.name,
+        mode: "insensitive",
+      },
+      ...(input.excludeId ? { id: { not: input.excludeId } } : {}),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new AppError(
+      409,
+      "CLIENT_NAME_CONFLICT",
+      "A client with this name already exists in your organization",
+    );
+  }
+}
+
+/**
+ * Confirms a client belongs to the organization before a project is linked to it.
+ */
+export async function assertClientInOrganization(
+  tx: Prisma.TransactionClient,
+  input: { organizationId: string; clientId: string },
+): Promise<void> {
+  const client = await tx.client.findFirst({
+    where: {
+      id: input.clientId,
+      organizationId: input.organizationId,
+    },
+    select: { id: true },
+  });
+
+  if (!client) {
+    throw new AppError(404, "CLIENT_NOT_FOUND", "Client not found");
+  }
+}
+
+export async function getClients(input: GetClientsInput): Promise<GetClientsResult> {
+  const where: Prisma.ClientWhereInput = {
+    organizationId: input.organizationId,
+    ...(input.search
+      ? {
+          OR: [
+            { name: { contains: input.search, mode: "insensitive" } },
+            { email: { contains: input.search, mode: "insensitive" } },
+            { tin: { contains: input.search, mode: "insensitive" } },
+            {
+              contacts: {
+                some: {
+                  OR: [
+                    { name: { contains: input.search, mode: "insensitive" } },
+                    { email: { contains: input.search, mode: "insensitive" } },
+                  ],
+                },
+              },
+            },
+          ],
+        }
+      : {}),
+  };
+  const skip = (input.page - 1) * input.pageSize;
+
+  const [items, totalItems] = await prisma.$transaction([
+    prisma.client.findMany({
+      where,
+      skip,
+      take: input.pageSize,
+      orderBy: { name: "asc" },
+      select: clientSelect,
+    }),
+    prisma.client.count({ where }),
+  ]);
+
+  return {
+    items: items.map((client) => toClientSummary(client)),
+    pagination: {
+      page: input.page,
+      pageSize: input.pageSize,
+      totalItems,
+      totalPages: totalItems === 0 ? 0 : Math.ceil(totalItems / input.pageSize),
+    },
+  };
+}
+
+export async function getClientById(input: {
+  organizationId: string;
+  clientId: string;
+}): Promise<ClientSummary> {
+  const client = await findClientOrThrow(input);
+  return toClientSummary(client);
+}
+
+export async function createClient(input: CreateClientInput): Promise<ClientSummary> {
+  const created = await prisma.$transaction(async (tx) => {
+    await ensureClientNameIsUnique({
+      tx,
+      organizationId: input.organizationId,
+      name: input.name,
+    });
+
+    const client = await tx.client.create({
+      data: {
+        organizationId: input.organizationId,
+        name: input.name,
+        tin: toNullableText(input.tin) ?? null,
+        billingAddress: toNullableText(input.billingAddress) ?? null,
+        email: toNullableText(input.email) ?? null,
+        phone: toNullableText(input.phone) ?? null,
+        notes: toNullableText(input.notes) ?? null,
+        createdBy: input.performedBy,
+        contacts: {
+          createMany: {
+            data: toContactRows(input.contacts),
+          },
+        },
+      },
+      select: clientSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Client",
+        entityId: client.id,
+        action: "CLIENT_CREATED",
+        beforeState: {},
+        afterState: toClientAuditState(client),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return client;
+  });
+
+  return toClientSummary(created);
+}
+
+/**
+ * Updates a client. A given contact list replaces the stored contacts as a whole.
+ */
+export async function updateClient(input: UpdateClientInput): Promise<ClientSummary> {
+  const beforeState = await findClientOrThrow({
+    organizationId: input.organizationId,
+    clientId: input.clientId,
+  });
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (input.name !== undefined) {
+      await ensureClientNameIsUnique({
+        tx,
+        organizationId: input.organizationId,
+        name: input.name,
+        excludeId: beforeState.id,
+      });
+    }
+
+    if (input.contacts !== undefined) {
+      await tx.clientContact.deleteMany({
+        where: { clientId: beforeState.id },
+      });
+    }
+
+    const client = await tx.client.update({
+      where: { id: beforeState.id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        tin: toNullableText(input.tin),
+        billingAddress: toNullableText(input.billingAddress),
+        email: toNullableText(input.email),
+        phone: toNullableText(input.phone),
+        notes: toNullableText(input.notes),
+        ...(input.contacts !== undefined
+          ? { contacts: { createMany: { data: toContactRows(input.contacts) } } }
+          : {}),
+      },
+      select: clientSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Client",
+        entityId: client.id,
+        action: "CLIENT_UPDATED",
+        beforeState: toClientAuditState(beforeState),
+        afterState: toClientAuditState(client),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return client;
+  });
+
+  return toClientSummary(updated);
+}
+
+/**
+ * Deletes a client and its contacts. Linked projects are kept and left without a client.
+ */
+export async function deleteClient(
+  input: DeleteClientInput,
+): Promise<{ deletedClientId: string; unlinkedProjectCount: number }> {
+  const client = await findClientOrThrow({
+    organizationId: input.organizationId,
+    clientId: input.clientId,
+  });
+
+  await prisma.$transaction(async (tx) => {
+    await tx.client.delete({
+      where: { id: client.id },
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Client",
+        entityId: client.id,
+        action: "CLIENT_DELETED",
+        beforeState: {
+          ...toClientAuditState(client),
+          projectCount: client._count.projects,
+        },
+        afterState: {},
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+  });
+
+  return {
+    deletedClientId: client.id,
+    unlinkedProjectCount: client._count.projects,
+  };
+}
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Prisma } from "@prisma/client";
+import { orderCategoryTree } from "./category.service";
+import {
+  compareCategories,
+  compareLineItems,
+  type ComparedLineItem,
+  type LineItemComparison,
+} from "./comparison.service";
+
+function lineItem(
+  id: string,
+  values: Partial<Omit<ComparedLineItem, "quantity" | "totalCost">> & {
+    quantity?: number;
+    totalCost?: number;
+  } = {},
+): ComparedLineItem {
+  return {
+    id,
+    category: values.category ?? "MASONRY",
+    description: values.description ?? id,
+    quantity: new Prisma.Decimal(values.quantity ?? 1),
+    unit: values.unit ?? "pc",
+    unitMaterialCost: values.unitMaterialCost ?? new Prisma.Decimal(10),
+    unitLaborCost: values.unitLaborCost ?? new Prisma.Decimal(0),
+    totalCost: new Prisma.Decimal(values.totalCost ?? 10),
+    markupRate: values.markupRate ?? null,
+    vatExempt: values.vatExempt ?? false,
+  };
+}
+
+function summarize(comparison: LineItemComparison): string {
+  if (comparison.status === "ADDED") {
+    return `ADDED ${comparison.after.id} ${comparison.costDelta.toFixed(2)}`;
+  }
+
+  if (comparison.status === "REMOVED") {
+    return `REMOVED ${comparison.before.id} ${comparison.costDelta.toFixed(2)}`;
+  }
+
+  return [
+    comparison.status,
+    `${comparison.before.id}->${comparison.after.id}`,
+    comparison.changedFields.join(",") || "-",
+    comparison.quantityDelta?.toFixed(2) ?? "null",
+    comparison.costDelta.toFixed(2),
+  ].join(" ");
+}
+
+const categories = orderCategoryTree([
+  { id: "structure", code: "STRUCTURE", name: "Structure", parentId: null, sortOrder: 1 },
+  { id: "masonry", code: "MASONRY", name: "Masonry", parentId: "structure", sortOrder: 1 },
+  { id: "finishes", code: "FINISHES", name: "Finishes", parentId: null, sortOrder: 2 },
+]);
+
+test("compareLineItems pairs line items by content and reports the changes", () => {
+  const comparisons = compareLineItems(
+    [
+      lineItem("chb-v1", { description: "CHB 4in", quantity: 100, totalCost: 1500 }),
+      lineItem("paint-v1", { category: "FINISHES", description: "Paint", totalCost: 300 }),
+      lineItem("rebar-v1", { description: "Rebar 10mm", totalCost: 200 }),
+    ],
+    [
+      lineItem("chb-v2", { description: "  chb   4IN ", quantity: 120, totalCost: 1800 }),
+      lineItem("paint-v2", { category: "FINISHES", description: "Paint", totalCost: 300 }),
+      lineItem("sand-v2", { description: "Sand", totalCost: 450 }),
+    ],
+  );
+
+  assert.deepEqual(comparisons.map(summarize), [
+    "CHANGED chb-v1->chb-v2 quantity,totalCost 20.00 300.00",
+    "UNCHANGED paint-v1->paint-v2 - 0.00 0.00",
+    "REMOVED rebar-v1 -200.00",
+    "ADDED sand-v2 450.00",
+  ]);
+});
+
+test("compareLineItems follows line items moved to another category or unit", () => {
+  const comparisons = compareLineItems(
+    [lineItem("gravel-v1", { description: "Gravel", unit: "m3", quantity: 2, totalCost: 2000 })],
+    [
+      lineItem("gravel-v2", {
+        category: "FINISHES",
+        description: "Gravel",
+        unit: "bag",
+        quantity: 80,
+        totalCost: 2400,
+      }),
+    ],
+  );
+
+  assert.deepEqual(comparisons.map(summarize), [
+    "CHANGED gravel-v1->gravel-v2 category,quantity,unit,totalCost null 400.00",
+  ]);
+});
+
+test("compareLineItems pairs duplicate line items in creation order", () => {
+  const comparisons = compareLineItems(
+    [
+      lineItem("cement-1", { description: "Cement", quantity: 10 }),
+      lineItem("cement-2", { description: "Cement", quantity: 20 }),
+    ],
+    [lineItem("cement-a", { description: "Cement", quantity: 10 })],
+  );
+
+  assert.deepEqual(comparisons.map(summarize), [
+    "UNCHANGED cement-1->cement-a - 0.00 0.00",
+    "REMOVED cement-2 -10.00",
+  ]);
+});
+
+test("compareCategories rolls costs up to parent categories and keeps unknown codes last", () => {
+  const rows = compareCategories(
+    categories,
+    [
+      lineItem("chb", { quantity: 100, totalCost: 1500 }),
+      lineItem("mortar", { unit: "bag", quantity: 5, totalCost: 1000 }),
+    ],
+    [
+      lineItem("chb", { quantity: 120, totalCost: 1800 }),
+      lineItem("tiles", { category: "TILING", unit: "m2", quantity: 30, totalCost: 900 }),
+    ],
+  );
+
+  assert.deepEqual(
+    rows.map((row) => [
+      row.code,
+      row.depth,
+      `${row.itemCount.before}->${row.itemCount.after}`,
+      row.quantities.map((quantity) => `${quantity.unit}:${quantity.delta.toFixed(0)}`).join(" "),
+      row.totalCost.delta.toFixed(2),
+    ]),
+    [
+      ["STRUCTURE", 1, "0->0", "", "-700.00"],
+      ["MASONRY", 2, "2->1", "bag:-5 pc:20", "-700.00"],
+      ["TILING", 1, "0->1", "m2:30", "900.00"],
+    ],
+  );
+});
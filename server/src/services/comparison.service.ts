@@ -0,0 +1,406 @@
+import { Prisma } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { loadOrganizationCategories, rollUpCategorySubtotals } from "./category.service";
+
+type CompareEstimatesInput = {
+  organizationId: string;
+  estimateId: string;
+  otherEstimateId: string;
+};
+
+type ComparedLineItemField =
+  | "category"
+  | "quantity"
+  | "unit"
+  | "unitMaterialCost"
+  | "unitLaborCost"
+  | "totalCost"
+  | "markupRate"
+  | "vatExempt";
+
+type ComparedTotalsField =
+  | "subtotal"
+  | "regionalAdjustment"
+  | "markupAmount"
+  | "vatableSales"
+  | "vatExemptSales"
+  | "vatAmount"
+  | "totalAmount";
+
+export type ComparisonDelta = {
+  before: Prisma.Decimal;
+  after: Prisma.Decimal;
+  delta: Prisma.Decimal;
+};
+
+export type ComparedLineItem = {
+  id: string;
+  category: string;
+  description: string;
+  quantity: Prisma.Decimal;
+  unit: string;
+  unitMaterialCost: Prisma.Decimal;
+  unitLaborCost: Prisma.Decimal;
+  totalCost: Prisma.Decimal;
+  markupRate: Prisma.Decimal | null;
+  vatExempt: boolean;
+};
+
+export type LineItemComparison =
+  | { status: "ADDED"; after: ComparedLineItem; costDelta: Prisma.Decimal }
+  | { status: "REMOVED"; before: ComparedLineItem; costDelta: Prisma.Decimal }
+  | {
+      status: "CHANGED" | "UNCHANGED";
+      before: ComparedLineItem;
+      after: ComparedLineItem;
+      changedFields: ComparedLineItemField[];
+      quantityDelta: Prisma.Decimal | null;
+      costDelta: Prisma.Decimal;
+    };
+
+/**
+ * Item counts and quantities cover line items filed directly under the category; quantities are
+ * only summed per unit. Costs are rolled up through subcategories, matching estimate subtotals.
+ */
+export type CategoryComparison = {
+  code: string;
+  name: string;
+  depth: number;
+  itemCount: { before: number; after: number };
+  quantities: Array<ComparisonDelta & { unit: string }>;
+  totalCost: ComparisonDelta;
+};
+
+type ComparedEstimate = {
+  id: string;
+  versionNumber: number;
+  label: string | null;
+  status: string;
+  createdAt: Date;
+};
+
+export type EstimateComparisonResult = {
+  project: {
+    id: string;
+    name: string;
+  };
+  base: ComparedEstimate;
+  compared: ComparedEstimate;
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+  lineItems: LineItemComparison[];
+  categories: CategoryComparison[];
+  totals: Record<ComparedTotalsField, ComparisonDelta>;
+};
+
+const TOTALS_FIELDS: ComparedTotalsField[] = [
+  "subtotal",
+  "regionalAdjustment",
+  "markupAmount",
+  "vatableSales",
+  "vatExemptSales",
+  "vatAmount",
+  "totalAmount",
+];
+
+const comparisonEstimateSelect = {
+  id: true,
+  projectId: true,
+  versionNumber: true,
+  label: true,
+  status: true,
+  createdAt: true,
+  subtotal: true,
+  regionalAdjustment: true,
+  markupAmount: true,
+  vatableSales: true,
+  vatExemptSales: true,
+  vatAmount: true,
+  totalAmount: true,
+  project: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  lineItems: {
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    select: {
+      id: true,
+      category: true,
+      description: true,
+      quantity: true,
+      unit: true,
+      unitMaterialCost: true,
+      unitLaborCost: true,
+      totalCost: true,
+      markupRate: true,
+      vatExempt: true,
+    },
+  },
+} satisfies Prisma.EstimateSelect;
+
+type ComparisonEstimate = Prisma.EstimateGetPayload<{ select: typeof comparisonEstimateSelect }>;
+
+function toDelta(before: Prisma.Decimal, after: Prisma.Decimal): ComparisonDelta {
+  return { before, after, delta: after.minus(before) };
+}
+
+function normalizeText(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function decimalsDiffer(left: Prisma.Decimal | null, right: Prisma.Decimal | null): boolean {
+  if (left === null || right === null) {
+    return left !== right;
+  }
+
+  return !left.equals(right);
+}
+
+function getChangedFields(
+  before: ComparedLineItem,
+  after: ComparedLineItem,
+): ComparedLineItemField[] {
+  const differs: Record<ComparedLineItemField, boolean> = {
+    category: before.category !== after.category,
+    quantity: decimalsDiffer(before.quantity, after.quantity),
+    unit: before.unit !== after.unit,
+    unitMaterialCost: decimalsDiffer(before.unitMaterialCost, after.unitMaterialCost),
+    unitLaborCost: decimalsDiffer(before.unitLaborCost, after.unitLaborCost),
+    totalCost: decimalsDiffer(before.totalCost, after.totalCost),
+    markupRate: decimalsDiffer(before.markupRate, after.markupRate),
+    vatExempt: before.vatExempt !== after.vatExempt,
+  };
+
+  return (Object.keys(differs) as ComparedLineItemField[]).filter((field) => differs[field]);
+}
+
+/**
+ * Line items have no identity across versions, so they are paired by content: first on category,
+ * description and unit, then on description alone to catch items that were moved or re-measured
+ * in another unit. Duplicates pair up in creation order. A renamed item shows as removed + added.
+ */
+function matchLineItems(
+  beforeItems: ComparedLineItem[],
+  afterItems: ComparedLineItem[],
+): Array<[ComparedLineItem | null, ComparedLineItem | null]> {
+  const pairs = new Map<string, ComparedLineItem>();
+  const unmatchedAfter = new Set(afterItems.map((item) => item.id));
+
+  const passes: Array<(item: ComparedLineItem) => string> = [
+    (item) => [item.category, normalizeText(item.description), normalizeText(item.unit)].join("|"),
+    (item) => normalizeText(item.description),
+  ];
+
+  for (const toKey of passes) {
+    const candidatesByKey = new Map<string, ComparedLineItem[]>();
+    for (const item of afterItems) {
+      if (!unmatchedAfter.has(item.id)) {
+        continue;
+      }
+
+      const candidates = candidatesByKey.get(toKey(item)) ?? [];
+      candidates.push(item);
+      candidatesByKey.set(toKey(item), candidates);
+    }
+
+    for (const item of beforeItems) {
+      if (pairs.has(item.id)) {
+        continue;
+      }
+
+      const match = candidatesByKey.get(toKey(item))?.shift();
+      if (match) {
+        pairs.set(item.id, match);
+        unmatchedAfter.delete(match.id);
+      }
+    }
+  }
+
+  return [
+    ...beforeItems.map((item): [ComparedLineItem | null, ComparedLineItem | null] => [
+      item,
+      pairs.get(item.id) ?? null,
+    ]),
+    ...afterItems
+      .filter((item) => unmatchedAfter.has(item.id))
+      .map((item): [ComparedLineItem | null, ComparedLineItem | null] => [null, item]),
+  ];
+}
+
+function compareLineItem(
+  before: ComparedLineItem | null,
+  after: ComparedLineItem | null,
+): LineItemComparison {
+  if (!before && after) {
+    return { status: "ADDED", after, costDelta: after.totalCost };
+  }
+
+  if (before && !after) {
+    return { status: "REMOVED", before, costDelta: before.totalCost.negated() };
+  }
+
+  // matchLineItems never yields an empty pair.
+  const beforeItem = before as ComparedLineItem;
+  const afterItem = after as ComparedLineItem;
+  const changedFields = getChangedFields(beforeItem, afterItem);
+
+  return {
+    status: changedFields.length > 0 ? "CHANGED" : "UNCHANGED",
+    before: beforeItem,
+    after: afterItem,
+    changedFields,
+    quantityDelta:
+      beforeItem.unit === afterItem.unit ? afterItem.quantity.minus(beforeItem.quantity) : null,
+    costDelta: afterItem.totalCost.minus(beforeItem.totalCost),
+  };
+}
+
+/** Pairs the line items of two versions and classifies each pair; deltas are `after - before`. */
+export function compareLineItems(
+  beforeItems: ComparedLineItem[],
+  afterItems: ComparedLineItem[],
+): LineItemComparison[] {
+  return matchLineItems(beforeItems, afterItems).map(([before, after]) =>
+    compareLineItem(before, after),
+  );
+}
+
+export function compareCategories(
+  categories: Awaited<ReturnType<typeof loadOrganizationCategories>>,
+  beforeItems: ComparedLineItem[],
+  afterItems: ComparedLineItem[],
+): CategoryComparison[] {
+  const directCosts = (items: ComparedLineItem[]): Record<string, Prisma.Decimal> => {
+    const costs: Record<string, Prisma.Decimal> = {};
+    for (const item of items) {
+      costs[item.category] = (costs[item.category] ?? new Prisma.Decimal(0)).plus(item.totalCost);
+    }
+    return costs;
+  };
+
+  const beforeCosts = rollUpCategorySubtotals(categories, directCosts(beforeItems));
+  const afterCosts = rollUpCategorySubtotals(categories, directCosts(afterItems));
+
+  // Codes no longer in the organization keep their rows, listed after the tree.
+  const knownCodes = new Set(categories.map((category) => category.code));
+  const orphanCodes = Array.from(
+    new Set([...beforeItems, ...afterItems].map((item) => item.category)),
+  ).filter((code) => !knownCodes.has(code));
+  const rows = [
+    ...categories.map((category) => ({
+      code: category.code,
+      name: category.name,
+      depth: category.depth,
+    })),
+    ...orphanCodes.sort().map((code) => ({ code, name: code, depth: 1 })),
+  ];
+
+  const zero = new Prisma.Decimal(0);
+  return rows
+    .filter((row) => beforeCosts[row.code] !== undefined || afterCosts[row.code] !== undefined)
+    .map((row) => {
+      const beforeDirect = beforeItems.filter((item) => item.category === row.code);
+      const afterDirect = afterItems.filter((item) => item.category === row.code);
+      const units = Array.from(
+        new Set([...beforeDirect, ...afterDirect].map((item) => item.unit)),
+      ).sort();
+      const sumQuantity = (items: ComparedLineItem[], unit: string): Prisma.Decimal =>
+        items
+          .filter((item) => item.unit === unit)
+          .reduce((sum, item) => sum.plus(item.quantity), new Prisma.Decimal(0));
+
+      return {
+        ...row,
+        itemCount: { before: beforeDirect.length, after: afterDirect.length },
+        quantities: units.map((unit) => ({
+          unit,
+          ...toDelta(sumQuantity(beforeDirect, unit), sumQuantity(afterDirect, unit)),
+        })),
+        totalCost: toDelta(beforeCosts[row.code] ?? zero, afterCosts[row.code] ?? zero),
+      };
+    });
+}
+
+async function findComparisonEstimateOrThrow(input: {
+  organizationId: string;
+  estimateId: string;
+}): Promise<ComparisonEstimate> {
+  const estimate = await prisma.estimate.findFirst({
+    where: {
+      id: input.estimateId,
+      deletedAt: null,
+      project: {
+        organizationId: input.organizationId,
+      },
+    },
+    select: comparisonEstimateSelect,
+  });
+
+  if (!estimate) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+  }
+
+  return estimate;
+}
+
+function toComparedEstimate(estimate: ComparisonEstimate): ComparedEstimate {
+  return {
+    id: estimate.id,
+    versionNumber: estimate.versionNumber,
+    label: estimate.label,
+    status: estimate.status,
+    createdAt: estimate.createdAt,
+  };
+}
+
+/**
+ * Compares two estimate versions of the same project. `estimateId` is the baseline; every delta is
+ * the other estimate's value minus the baseline's.
+ */
+export async function compareEstimates(
+  input: CompareEstimatesInput,
+): Promise<EstimateComparisonResult> {
+  const base = await findComparisonEstimateOrThrow({
+    organizationId: input.organizationId,
+    estimateId: input.estimateId,
+  });
+  const compared = await findComparisonEstimateOrThrow({
+    organizationId: input.organizationId,
+    estimateId: input.otherEstimateId,
+  });
+
+  if (base.projectId !== compared.projectId) {
+    throw new AppError(
+      400,
+      "ESTIMATE_COMPARE_PROJECT_MISMATCH",
+      "Only estimate versions of the same project can be compared",
+    );
+  }
+
+  const lineItems = compareLineItems(base.lineItems, compared.lineItems);
+  const categories = await loadOrganizationCategories(prisma, input.organizationId);
+
+  return {
+    project: base.project,
+    base: toComparedEstimate(base),
+    compared: toComparedEstimate(compared),
+    summary: {
+      added: lineItems.filter((item) => item.status === "ADDED").length,
+      removed: lineItems.filter((item) => item.status === "REMOVED").length,
+      changed: lineItems.filter((item) => item.status === "CHANGED").length,
+      unchanged: lineItems.filter((item) => item.status === "UNCHANGED").length,
+    },
+    lineItems,
+    categories: compareCategories(categories, base.lineItems, compared.lineItems),
+    totals: Object.fromEntries(
+      TOTALS_FIELDS.map((field) => [field, toDelta(base[field], compared[field])]),
+    ) as Record<ComparedTotalsField, ComparisonDelta>,
+  };
+}
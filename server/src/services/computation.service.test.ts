@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { AppError } from "../errors/app-error";
+import {
+  assertUpgradeSelectionKeepsGroups,
+  groupUpgradePlans,
+  resolveLatestFormulaVersions,
+} from "./computation.service";
+
+type FormulaVersionNode = Parameters<typeof resolveLatestFormulaVersions>[0][number];
+type UpgradePlanMember = Parameters<typeof assertUpgradeSelectionKeepsGroups>[1][number];
+
+function formula(
+  id: string,
+  version: number,
+  previousVersionId: string | null,
+  overrides: Partial<FormulaVersionNode> = {},
+): FormulaVersionNode {
+  return {
+    id,
+    name: "CHB Wall",
+    version,
+    isActive: true,
+    previousVersionId,
+    createdAt: new Date("2026-10-19T08:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+function plan(lineItemId: string, groupId: string | null): UpgradePlanMember {
+  return {
+    candidate: { id: lineItemId, description: lineItemId },
+    computation: { groupId },
+  };
+}
+
+test("resolveLatestFormulaVersions follows the version chain to its newest formula", () => {
+  const latest = resolveLatestFormulaVersions([
+    formula("v1", 1, null),
+    formula("v2", 2, "v1", { name: "CHB Wall (renamed)" }),
+    formula("v3", 3, "v2"),
+    formula("other", 1, null),
+  ]);
+
+  assert.equal(latest.get("v1")?.id, "v3");
+  assert.equal(latest.get("v2")?.id, "v3");
+  assert.equal(latest.get("v3")?.id, "v3");
+  assert.equal(latest.get("other")?.id, "other");
+});
+
+test("resolveLatestFormulaVersions prefers the newest successor when a version was branched", () => {
+  const latest = resolveLatestFormulaVersions([
+    formula("v1", 1, null),
+    formula("v2-early", 2, "v1", { createdAt: new Date("2026-10-19T08:00:00.000Z") }),
+    formula("v2-late", 2, "v1", { createdAt: new Date("2026-10-19T09:00:00.000Z") }),
+  ]);
+
+  assert.equal(latest.get("v1")?.id, "v2-late");
+});
+
+test("resolveLatestFormulaVersions stops on a cycle in the version chain", () => {
+  const latest = resolveLatestFormulaVersions([formula("a", 1, "b"), formula("b", 2, "a")]);
+
+  assert.ok(latest.has("a"));
+  assert.ok(latest.has("b"));
+});
+
+test("groupUpgradePlans keeps members of one computation together in plan order", () => {
+  const groups = groupUpgradePlans([
+    plan("chb", "group-1"),
+    plan("footing", null),
+    plan("cement", "group-1"),
+    plan("slab", null),
+    plan("sand", "group-1"),
+  ]);
+
+  assert.deepEqual(
+    groups.map((group) => group.map((member) => member.candidate.id)),
+    [["chb", "cement", "sand"], ["footing"], ["slab"]],
+  );
+});
+
+test("assertUpgradeSelectionKeepsGroups accepts whole groups and ungrouped line items", () => {
+  const groupPlans = [plan("chb", "group-1"), plan("cement", "group-1"), plan("sand", "group-1")];
+
+  assert.doesNotThrow(() =>
+    assertUpgradeSelectionKeepsGroups(["chb", "cement", "sand", "footing"], groupPlans),
+  );
+});
+
+test("assertUpgradeSelectionKeepsGroups rejects a selection that splits a group", () => {
+  const groupPlans = [plan("chb", "group-1"), plan("cement", "group-1"), plan("sand", "group-1")];
+
+  assert.throws(
+    () => assertUpgradeSelectionKeepsGroups(["chb"], groupPlans),
+    (error: unknown) => {
+      assert.ok(error instanceof AppError);
+      assert.equal(error.statusCode, 409);
+      assert.equal(error.code, "FORMULA_UPGRADE_SPLITS_GROUP");
+      assert.deepEqual(error.details, { groupId: "group-1", lineItemIds: ["cement", "sand"] });
+      return true;
+    },
+  );
+});
@@ -0,0 +1,1218 @@
+import { CalculationSource, EstimateStatus, Prisma } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { AppError } from "../errors/app-error";
+import type { FormulaOutputDefinition } from "../formulas/types";
+import { prisma } from "../prisma/client";
+import { logAudit } from "./audit.service";
+import { parseStoredFormulaDefinition } from "./formula.service";
+import {
+  assertLineItemUnlocked,
+  type ComputeFormula,
+  type CreateEstimateLineItemResult,
+  findComputeFormula,
+  type FormulaComputationRun,
+  getLineItemWithTotals,
+  type LineItemWithTotals,
+  recalculateEstimateTotals,
+  resolveComputedOutput,
+  resolveOutputMapping,
+  runFormulaComputation,
+} from "./line-item.service";
+
+type ComputeIntoEstimateOutput = {
+  outputVariable: string;
+  lineItemId?: string;
+  description?: string;
+  unit?: string;
+  unitMaterialCost?: number;
+  unitLaborCost?: number;
+};
+
+type ComputeIntoEstimateInput = {
+  organizationId: string;
+  estimateId: string;
+  formulaId?: string;
+  formulaName?: string;
+  inputValues: Record<string, unknown>;
+  inputUnits: Record<string, string>;
+  outputs?: ComputeIntoEstimateOutput[];
+  performedBy: string;
+};
+
+type RecomputeComputationGroupInput = {
+  organizationId: string;
+  estimateId: string;
+  groupId: string;
+  formulaId?: string;
+  inputValues: Record<string, unknown>;
+  inputUnits: Record<string, string>;
+  performedBy: string;
+};
+
+type DeleteComputationGroupInput = {
+  organizationId: string;
+  estimateId: string;
+  groupId: string;
+  performedBy: string;
+};
+
+type GetOutdatedComputationsInput = {
+  organizationId: string;
+  formulaId?: string;
+};
+
+type ApplyFormulaUpgradesInput = {
+  organizationId: string;
+  lineItemIds: string[];
+  performedBy: string;
+};
+
+export type ComputationGroupResult = {
+  groupId: string;
+  formula: {
+    id: string;
+    name: string;
+    version: number;
+  };
+  lineItems: LineItemWithTotals[];
+  computations: Array<{
+    id: string;
+    lineItemId: string;
+    outputVariable: string;
+  }>;
+  estimate: CreateEstimateLineItemResult["estimate"];
+};
+
+export type DeleteComputationGroupResult = {
+  groupId: string;
+  deletedLineItemIds: string[];
+  estimate: CreateEstimateLineItemResult["estimate"];
+};
+
+export type OutdatedComputationItem = {
+  lineItemId: string;
+  description: string;
+  category: string;
+  unit: string;
+  currentQuantity: Prisma.Decimal;
+  estimate: {
+    id: string;
+    versionNumber: number;
+    label: string | null;
+    project: {
+      id: string;
+      name: string;
+    };
+  };
+  computationId: string;
+  groupId: string | null;
+  outputVariable: string | null;
+  currentFormula: {
+    id: string;
+    name: string;
+    version: number;
+  };
+  latestFormula: {
+    id: string;
+    name: string;
+    version: number;
+  };
+  proposedQuantity: number | null;
+  quantityDelta: number | null;
+  error: {
+    code: string;
+    message: string;
+  } | null;
+};
+
+export type GetOutdatedComputationsResult = {
+  items: OutdatedComputationItem[];
+};
+
+export type ApplyFormulaUpgradesResult = {
+  items: Array<{
+    lineItemId: string;
+    estimateId: string;
+    computationId: string;
+    fromVersion: number;
+    toVersion: number;
+    previousQuantity: Prisma.Decimal;
+    quantity: Prisma.Decimal;
+  }>;
+  estimates: CreateEstimateLineItemResult["estimate"][];
+};
+
+type EditableEstimate = {
+  id: string;
+  markupRate: Prisma.Decimal;
+  vatRate: Prisma.Decimal;
+};
+
+const groupLineItemSelect = {
+  id: true,
+  category: true,
+  description: true,
+  quantity: true,
+  unit: true,
+  unitMaterialCost: true,
+  unitLaborCost: true,
+  totalCost: true,
+  markupRate: true,
+  vatExempt: true,
+  calculationSource: true,
+  originalComputedQuantity: true,
+  originalComputedCost: true,
+  overrideReason: true,
+  locked: true,
+} satisfies Prisma.LineItemSelect;
+
+type GroupLineItem = Prisma.LineItemGetPayload<{ select: typeof groupLineItemSelect }>;
+
+type GroupMember = GroupLineItem & {
+  outputVariable: string;
+  formulaId: string;
+  formulaName: string;
+};
+
+async function findEditableEstimate(
+  tx: Prisma.TransactionClient,
+  input: { organizationId: string; estimateId: string },
+): Promise<EditableEstimate> {
+  const estimate = await tx.estimate.findFirst({
+    where: {
+      id: input.estimateId,
+      deletedAt: null,
+      project: {
+        organizationId: input.organizationId,
+      },
+    },
+    select: {
+      id: true,
+      status: true,
+      markupRate: true,
+      vatRate: true,
+    },
+  });
+
+  if (!estimate) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+  }
+
+  if (estimate.status !== EstimateStatus.DRAFT) {
+    throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
+  }
+
+  return estimate;
+}
+
+/**
+ * A line item belongs to a group while its most recent computation carries the group id, so
+ * recomputing the item on its own detaches it from the group.
+ */
+async function findGroupMembers(
+  tx: Prisma.TransactionClient,
+  input: { estimateId: string; groupId: string },
+): Promise<GroupMember[]> {
+  const lineItems = await tx.lineItem.findMany({
+    where: {
+      estimateId: input.estimateId,
+      computations: {
+        some: { groupId: input.groupId },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+    select: {
+      ...groupLineItemSelect,
+      computations: {
+        orderBy: { computedAt: "desc" },
+        take: 1,
+        select: {
+          groupId: true,
+          outputVariable: true,
+          formula: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return lineItems.flatMap(({ computations, ...lineItem }) => {
+    const latest = computations[0];
+    if (!latest || latest.groupId !== input.groupId || !latest.outputVariable) {
+      return [];
+    }
+
+    return [
+      {
+        ...lineItem,
+        outputVariable: latest.outputVariable,
+        formulaId: latest.formula.id,
+        formulaName: latest.formula.name,
+      },
+    ];
+  });
+}
+
+function getFormulaOutputs(formula: ComputeFormula): FormulaOutputDefinition[] {
+  const outputs = parseStoredFormulaDefinition(formula).outputs ?? [];
+  if (outputs.length === 0) {
+    throw new AppError(
+      409,
+      "FORMULA_OUTPUT_MAPPING_MISSING",
+      "Formula does not define any output mappings",
+    );
+  }
+
+  return outputs;
+}
+
+function findOutputOrThrow(
+  outputs: FormulaOutputDefinition[],
+  outputVariable: string,
+): FormulaOutputDefinition {
+  const output = outputs.find((candidate) => candidate.variable === outputVariable);
+  if (!output) {
+    throw new AppError(
+      400,
+      "FORMULA_OUTPUT_NOT_FOUND",
+      `Output variable ${outputVariable} is not available for this formula`,
+    );
+  }
+
+  return output;
+}
+
+function formatOutputDescription(formulaName: string, outputVariable: string): string {
+  return `${formulaName} - ${outputVariable.replace(/_/g, " ")}`;
+}
+
+function toLineItemAuditState(lineItem: GroupLineItem): Prisma.InputJsonObject {
+  return {
+    category: lineItem.category,
+    description: lineItem.description,
+    quantity: lineItem.quantity.toString(),
+    unit: lineItem.unit,
+    unitMaterialCost: lineItem.unitMaterialCost.toString(),
+    unitLaborCost: lineItem.unitLaborCost.toString(),
+    totalCost: lineItem.totalCost.toString(),
+    calculationSource: lineItem.calculationSource,
+    originalComputedQuantity: lineItem.originalComputedQuantity?.toString() ?? null,
+    originalComputedCost: lineItem.originalComputedCost?.toString() ?? null,
+    overrideReason: lineItem.overrideReason,
+  };
+}
+
+async function recordGroupComputation(
+  tx: Prisma.TransactionClient,
+  input: {
+    estimateId: string;
+    lineItemId: string;
+    groupId: string;
+    outputVariable: string;
+    formulaRun: FormulaComputationRun;
+    inputValues: Record<string, unknown>;
+    inputUnits: Record<string, string>;
+    performedBy: string;
+  },
+): Promise<ComputationGroupResult["computations"][number]> {
+  const computation = await tx.computationInstance.create({
+    data: {
+      estimateId: input.estimateId,
+      lineItemId: input.lineItemId,
+      formulaId: input.formulaRun.formula.id,
+      formulaVersion: input.formulaRun.formula.version,
+      formulaSnapshot: input.formulaRun.formulaSnapshot,
+      inputValues: input.inputValues as Prisma.InputJsonValue,
+      inputUnits: input.inputUnits,
+      computedResults: input.formulaRun.evaluationResult.computedResults as Prisma.InputJsonValue,
+      groupId: input.groupId,
+      outputVariable: input.outputVariable,
+      computedBy: input.performedBy,
+    },
+    select: {
+      id: true,
+      lineItemId: true,
+    },
+  });
+
+  return { ...computation, outputVariable: input.outputVariable };
+}
+
+async function buildGroupResult(
+  tx: Prisma.TransactionClient,
+  input: {
+    estimate: EditableEstimate;
+    groupId: string;
+    formula: ComputeFormula;
+    computations: ComputationGroupResult["computations"];
+  },
+): Promise<ComputationGroupResult> {
+  const updatedEstimate = await recalculateEstimateTotals(
+    tx,
+    input.estimate.id,
+    input.estimate.markupRate,
+    input.estimate.vatRate,
+  );
+  const lineItems = [];
+  for (const computation of input.computations) {
+    lineItems.push(await getLineItemWithTotals(tx, computation.lineItemId));
+  }
+
+  return {
+    groupId: input.groupId,
+    formula: {
+      id: input.formula.id,
+      name: input.formula.name,
+      version: input.formula.version,
+    },
+    lineItems,
+    computations: input.computations,
+    estimate: updatedEstimate,
+  };
+}
+
+/**
+ * Evaluates a formula once and writes every selected output into its own line item, creating
+ * line items that are not supplied. All resulting computations share one group id.
+ */
+export async function computeIntoEstimate(
+  input: ComputeIntoEstimateInput,
+): Promise<ComputationGroupResult> {
+  return prisma.$transaction((tx) => applyComputationToEstimate(tx, input));
+}
+
+/**
+ * Transactional body of `computeIntoEstimate`, for callers that build an estimate in their own
+ * transaction.
+ */
+export async function applyComputationToEstimate(
+  tx: Prisma.TransactionClient,
+  input: ComputeIntoEstimateInput,
+): Promise<ComputationGroupResult> {
+  const estimate = await findEditableEstimate(tx, input);
+  const formula = await findComputeFormula(tx, input);
+  const formulaOutputs = getFormulaOutputs(formula);
+  const requestedOutputs: ComputeIntoEstimateOutput[] =
+    input.outputs ?? formulaOutputs.map((output) => ({ outputVariable: output.variable }));
+
+  const targetLineItemIds = requestedOutputs.flatMap((output) =>
+    output.lineItemId ? [output.lineItemId] : [],
+  );
+  if (new Set(targetLineItemIds).size !== targetLineItemIds.length) {
+    throw new AppError(
+      400,
+      "COMPUTATION_DUPLICATE_LINE_ITEM",
+      "Each line item can only receive one output",
+    );
+  }
+
+  const formulaRun = await runFormulaComputation(tx, {
+    organizationId: input.organizationId,
+    formula,
+    inputValues: input.inputValues,
+    inputUnits: input.inputUnits,
+  });
+  const groupId = randomUUID();
+  const computations: ComputationGroupResult["computations"] = [];
+
+  for (const requested of requestedOutputs) {
+    const output = findOutputOrThrow(formulaOutputs, requested.outputVariable);
+    let lineItemId: string;
+
+    if (requested.lineItemId) {
+      const lineItem = await tx.lineItem.findFirst({
+        where: {
+          id: requested.lineItemId,
+          estimateId: estimate.id,
+        },
+        select: groupLineItemSelect,
+      });
+
+      if (!lineItem) {
+        throw new AppError(404, "LINE_ITEM_NOT_FOUND", "Line item not found");
+      }
+
+      assertLineItemUnlocked(lineItem);
+
+      if (lineItem.category !== formula.category) {
+        throw new AppError(
+          409,
+          "FORMULA_CATEGORY_MISMATCH",
+          "Selected formula category does not match the line item category",
+        );
+      }
+
+      const computedOutput = resolveComputedOutput(formulaRun, output, lineItem.unit);
+      const updated = await tx.lineItem.update({
+        where: { id: lineItem.id },
+        data: {
+          quantity: new Prisma.Decimal(computedOutput.quantity),
+          unit: computedOutput.unit,
+          calculationSource: CalculationSource.COMPUTED,
+          overrideReason: null,
+          originalComputedQuantity: null,
+          originalComputedCost: null,
+          ...(requested.description !== undefined ? { description: requested.description } : {}),
+          ...(requested.unitMaterialCost !== undefined
+            ? { unitMaterialCost: new Prisma.Decimal(requested.unitMaterialCost) }
+            : {}),
+          ...(requested.unitLaborCost !== undefined
+            ? { unitLaborCost: new Prisma.Decimal(requested.unitLaborCost) }
+            : {}),
+        },
+        select: groupLineItemSelect,
+      });
+
+      await logAudit(
+        {
+          organizationId: input.organizationId,
+          entityType: "LineItem",
+          entityId: lineItem.id,
+          action: "LINE_ITEM_COMPUTED",
+          beforeState: toLineItemAuditState(lineItem),
+          afterState: {
+            ...toLineItemAuditState(updated),
+            formulaId: formula.id,
+            formulaVersion: formula.version,
+            outputVariable: output.variable,
+            computationGroupId: groupId,
+            inputValues: input.inputValues as Prisma.InputJsonValue,
+            inputUnits: input.inputUnits,
+          },
+          performedBy: input.performedBy,
+        },
+        tx,
+      );
+      lineItemId = lineItem.id;
+    } else {
+      const computedOutput = resolveComputedOutput(
+        formulaRun,
+        output,
+        requested.unit ?? output.unit,
+      );
+      const created = await tx.lineItem.create({
+        data: {
+          estimateId: estimate.id,
+          category: formula.category,
+          description:
+            requested.description ?? formatOutputDescription(formula.name, output.variable),
+          quantity: new Prisma.Decimal(computedOutput.quantity),
+          unit: computedOutput.unit,
+          unitMaterialCost: new Prisma.Decimal(requested.unitMaterialCost ?? 0),
+          unitLaborCost: new Prisma.Decimal(requested.unitLaborCost ?? 0),
+          totalCost: new Prisma.Decimal(0),
+          calculationSource: CalculationSource.COMPUTED,
+          originalComputedQuantity: null,
+          originalComputedCost: null,
+          overrideReason: null,
+          locked: false,
+          createdBy: input.performedBy,
+        },
+        select: groupLineItemSelect,
+      });
+
+      await logAudit(
+        {
+          organizationId: input.organizationId,
+          entityType: "LineItem",
+          entityId: created.id,
+          action: "LINE_ITEM_CREATED",
+          beforeState: {},
+          afterState: {
+            estimateId: estimate.id,
+            ...toLineItemAuditState(created),
+            formulaId: formula.id,
+            formulaVersion: formula.version,
+            outputVariable: output.variable,
+            computationGroupId: groupId,
+            inputValues: input.inputValues as Prisma.InputJsonValue,
+            inputUnits: input.inputUnits,
+          },
+          performedBy: input.performedBy,
+        },
+        tx,
+      );
+      lineItemId = created.id;
+    }
+
+    computations.push(
+      await recordGroupComputation(tx, {
+        estimateId: estimate.id,
+        lineItemId,
+        groupId,
+        outputVariable: output.variable,
+        formulaRun,
+        inputValues: input.inputValues,
+        inputUnits: input.inputUnits,
+        performedBy: input.performedBy,
+      }),
+    );
+  }
+
+  return buildGroupResult(tx, { estimate, groupId, formula, computations });
+}
+
+/**
+ * Re-evaluates the formula behind a computation group with new inputs and updates every line
+ * item still in the group. Passing `formulaId` moves the group to another version of the same
+ * formula.
+ */
+export async function recomputeComputationGroup(
+  input: RecomputeComputationGroupInput,
+): Promise<ComputationGroupResult> {
+  return prisma.$transaction(async (tx) => {
+    const estimate = await findEditableEstimate(tx, input);
+    const members = await findGroupMembers(tx, {
+      estimateId: estimate.id,
+      groupId: input.groupId,
+    });
+
+    if (members.length === 0) {
+      throw new AppError(404, "COMPUTATION_GROUP_NOT_FOUND", "Computation group not found");
+    }
+
+    const formula = await findComputeFormula(tx, {
+      organizationId: input.organizationId,
+      formulaId: input.formulaId ?? members[0].formulaId,
+    });
+
+    if (formula.name.trim().toLowerCase() !== members[0].formulaName.trim().toLowerCase()) {
+      throw new AppError(
+        409,
+        "COMPUTATION_FORMULA_MISMATCH",
+        "A computation group can only be recomputed with a version of its original formula",
+      );
+    }
+
+    const formulaOutputs = getFormulaOutputs(formula);
+    const formulaRun = await runFormulaComputation(tx, {
+      organizationId: input.organizationId,
+      formula,
+      inputValues: input.inputValues,
+      inputUnits: input.inputUnits,
+    });
+    const computations: ComputationGroupResult["computations"] = [];
+
+    for (const member of members) {
+      assertLineItemUnlocked(member);
+
+      const output = findOutputOrThrow(formulaOutputs, member.outputVariable);
+      const computedOutput = resolveComputedOutput(formulaRun, output, member.unit);
+      const updated = await tx.lineItem.update({
+        where: { id: member.id },
+        data: {
+          quantity: new Prisma.Decimal(computedOutput.quantity),
+          unit: computedOutput.unit,
+          calculationSource: CalculationSource.COMPUTED,
+          overrideReason: null,
+          originalComputedQuantity: null,
+          originalComputedCost: null,
+        },
+        select: groupLineItemSelect,
+      });
+
+      await logAudit(
+        {
+          organizationId: input.organizationId,
+          entityType: "LineItem",
+          entityId: member.id,
+          action: "LINE_ITEM_COMPUTED",
+          beforeState: toLineItemAuditState(member),
+          afterState: {
+            ...toLineItemAuditState(updated),
+            formulaId: formula.id,
+            formulaVersion: formula.version,
+            outputVariable: output.variable,
+            computationGroupId: input.groupId,
+            inputValues: input.inputValues as Prisma.InputJsonValue,
+            inputUnits: input.inputUnits,
+          },
+          performedBy: input.performedBy,
+        },
+        tx,
+      );
+
+      computations.push(
+        await recordGroupComputation(tx, {
+          estimateId: estimate.id,
+          lineItemId: member.id,
+          groupId: input.groupId,
+          outputVariable: output.variable,
+          formulaRun,
+          inputValues: input.inputValues,
+          inputUnits: input.inputUnits,
+          performedBy: input.performedBy,
+        }),
+      );
+    }
+
+    return buildGroupResult(tx, { estimate, groupId: input.groupId, formula, computations });
+  });
+}
+
+export async function deleteComputationGroup(
+  input: DeleteComputationGroupInput,
+): Promise<DeleteComputationGroupResult> {
+  return prisma.$transaction(async (tx) => {
+    const estimate = await findEditableEstimate(tx, input);
+    const members = await findGroupMembers(tx, {
+      estimateId: estimate.id,
+      groupId: input.groupId,
+    });
+
+    if (members.length === 0) {
+      throw new AppError(404, "COMPUTATION_GROUP_NOT_FOUND", "Computation group not found");
+    }
+
+    for (const member of members) {
+      assertLineItemUnlocked(member);
+    }
+
+    await tx.lineItem.deleteMany({
+      where: {
+        id: { in: members.map((member) => member.id) },
+      },
+    });
+
+    const updatedEstimate = await recalculateEstimateTotals(
+      tx,
+      estimate.id,
+      estimate.markupRate,
+      estimate.vatRate,
+    );
+
+    for (const member of members) {
+      await logAudit(
+        {
+          organizationId: input.organizationId,
+          entityType: "LineItem",
+          entityId: member.id,
+          action: "LINE_ITEM_DELETED",
+          beforeState: {
+            estimateId: estimate.id,
+            ...toLineItemAuditState(member),
+            outputVariable: member.outputVariable,
+            computationGroupId: input.groupId,
+          },
+          afterState: {
+            deleted: true,
+          },
+          performedBy: input.performedBy,
+        },
+        tx,
+      );
+    }
+
+    return {
+      groupId: input.groupId,
+      deletedLineItemIds: members.map((member) => member.id),
+      estimate: updatedEstimate,
+    };
+  });
+}
+
+type FormulaVersionNode = {
+  id: string;
+  name: string;
+  version: number;
+  isActive: boolean;
+  previousVersionId: string | null;
+  createdAt: Date;
+};
+
+const upgradeCandidateSelect = {
+  id: true,
+  category: true,
+  description: true,
+  quantity: true,
+  unit: true,
+  estimate: {
+    select: {
+      id: true,
+      versionNumber: true,
+      label: true,
+      markupRate: true,
+      vatRate: true,
+      project: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  computations: {
+    orderBy: { computedAt: "desc" },
+    take: 1,
+    select: {
+      id: true,
+      formulaId: true,
+      formulaVersion: true,
+      inputValues: true,
+      inputUnits: true,
+      groupId: true,
+      outputVariable: true,
+      formula: {
+        select: {
+          id: true,
+          name: true,
+          version: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.LineItemSelect;
+
+type UpgradeCandidate = Prisma.LineItemGetPayload<{ select: typeof upgradeCandidateSelect }>;
+
+type UpgradePlan = {
+  candidate: UpgradeCandidate;
+  computation: UpgradeCandidate["computations"][number];
+  latestFormula: FormulaVersionNode;
+};
+
+type UpgradePlanMember = {
+  candidate: { id: string; description: string };
+  computation: { groupId: string | null };
+};
+
+/**
+ * Line items created from one multi-output run share a `groupId` and are upgraded together from a
+ * single run of the new version. Ungrouped line items form a group of their own.
+ */
+export function groupUpgradePlans<T extends UpgradePlanMember>(plans: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const plan of plans) {
+    const key = plan.computation.groupId ?? `line-item:${plan.candidate.id}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(plan);
+    } else {
+      groups.set(key, [plan]);
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Rejects an upgrade that would leave some members of a computation group on the old version.
+ * `groupPlans` holds every pending upgrade in the groups touched by the selection.
+ */
+export function assertUpgradeSelectionKeepsGroups(
+  selectedIds: string[],
+  groupPlans: UpgradePlanMember[],
+): void {
+  const selected = new Set(selectedIds);
+
+  for (const group of groupUpgradePlans(groupPlans)) {
+    const missing = group.filter((plan) => !selected.has(plan.candidate.id));
+    if (missing.length > 0 && missing.length < group.length) {
+      throw new AppError(
+        409,
+        "FORMULA_UPGRADE_SPLITS_GROUP",
+        `Line item "${missing[0].candidate.description}" was computed together with the selected line items; upgrade the whole group`,
+        {
+          groupId: group[0].computation.groupId,
+          lineItemIds: missing.map((plan) => plan.candidate.id),
+        },
+      );
+    }
+  }
+}
+
+/**
+ * Maps every formula version to the newest version in its chain. The newest version is reached by
+ * following `previousVersionId` links forward, so renamed formulas still resolve to their
+ * successor.
+ */
+export function resolveLatestFormulaVersions(
+  formulas: FormulaVersionNode[],
+): Map<string, FormulaVersionNode> {
+  const nextVersionById = new Map<string, FormulaVersionNode>();
+  for (const formula of formulas) {
+    if (!formula.previousVersionId) {
+      continue;
+    }
+
+    const current = nextVersionById.get(formula.previousVersionId);
+    if (
+      !current ||
+      formula.version > current.version ||
+      (formula.version === current.version && formula.createdAt > current.createdAt)
+    ) {
+      nextVersionById.set(formula.previousVersionId, formula);
+    }
+  }
+
+  const latestById = new Map<string, FormulaVersionNode>();
+  for (const formula of formulas) {
+    let latest = formula;
+    const visited = new Set<string>([latest.id]);
+    let next = nextVersionById.get(latest.id);
+
+    while (next && !visited.has(next.id)) {
+      visited.add(next.id);
+      latest = next;
+      next = nextVersionById.get(latest.id);
+    }
+
+    latestById.set(formula.id, latest);
+  }
+
+  return latestById;
+}
+
+async function loadLatestFormulaVersions(
+  db: Prisma.TransactionClient,
+  organizationId: string,
+): Promise<Map<string, FormulaVersionNode>> {
+  const formulas = await db.formula.findMany({
+    where: { organizationId },
+    select: {
+      id: true,
+      name: true,
+      version: true,
+      isActive: true,
+      previousVersionId: true,
+      createdAt: true,
+    },
+  });
+
+  return resolveLatestFormulaVersions(formulas);
+}
+
+/**
+ * Finds computed line items in draft estimates whose latest computation used a formula version
+ * that has an active successor. Overridden and manual line items are left alone.
+ */
+async function findUpgradePlans(
+  db: Prisma.TransactionClient,
+  input: {
+    organizationId: string;
+    lineItemIds?: string[];
+    groupIds?: string[];
+    formulaId?: string;
+  },
+): Promise<UpgradePlan[]> {
+  const latestVersions = await loadLatestFormulaVersions(db, input.organizationId);
+  let filterLatestId: string | undefined;
+
+  if (input.formulaId) {
+    const latest = latestVersions.get(input.formulaId);
+    if (!latest) {
+      throw new AppError(404, "FORMULA_NOT_FOUND", "Formula not found");
+    }
+
+    filterLatestId = latest.id;
+  }
+
+  const candidates = await db.lineItem.findMany({
+    where: {
+      ...(input.lineItemIds ? { id: { in: input.lineItemIds } } : {}),
+      locked: false,
+      calculationSource: CalculationSource.COMPUTED,
+      estimate: {
+        deletedAt: null,
+        status: EstimateStatus.DRAFT,
+        project: {
+          organizationId: input.organizationId,
+        },
+      },
+      computations: {
+        some: input.groupIds ? { groupId: { in: input.groupIds } } : {},
+      },
+    },
+    orderBy: [{ estimateId: "asc" }, { createdAt: "asc" }],
+    select: upgradeCandidateSelect,
+  });
+
+  return candidates.flatMap((candidate) => {
+    const computation = candidate.computations[0];
+    const latestFormula = computation ? latestVersions.get(computation.formulaId) : undefined;
+
+    if (
+      !computation ||
+      !latestFormula ||
+      latestFormula.id === computation.formulaId ||
+      !latestFormula.isActive ||
+      (filterLatestId !== undefined && latestFormula.id !== filterLatestId) ||
+      (input.groupIds !== undefined &&
+        (!computation.groupId || !input.groupIds.includes(computation.groupId)))
+    ) {
+      return [];
+    }
+
+    return [{ candidate, computation, latestFormula }];
+  });
+}
+
+function readStoredInputValues(value: Prisma.JsonValue): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? value : {};
+}
+
+function readStoredInputUnits(value: Prisma.JsonValue): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(readStoredInputValues(value)).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string",
+    ),
+  );
+}
+
+/**
+ * Re-evaluates a group of line items with the latest formula version, running it once with the
+ * inputs recorded on the group's last computation.
+ */
+async function evaluateUpgradeGroup(
+  db: Prisma.TransactionClient,
+  organizationId: string,
+  group: UpgradePlan[],
+): Promise<{
+  formulaRun: FormulaComputationRun;
+  inputValues: Record<string, unknown>;
+  inputUnits: Record<string, string>;
+  members: Array<{
+    plan: UpgradePlan;
+    output: FormulaOutputDefinition;
+    computedOutput: { quantity: number; unit: string };
+  }>;
+}> {
+  const [first] = group;
+  const formula = await findComputeFormula(db, {
+    organizationId,
+    formulaId: first.latestFormula.id,
+  });
+  const outputs = parseStoredFormulaDefinition(formula).outputs ?? [];
+
+  for (const plan of group) {
+    if (formula.category !== plan.candidate.category) {
+      throw new AppError(
+        409,
+        "FORMULA_CATEGORY_MISMATCH",
+        "Selected formula category does not match the line item category",
+      );
+    }
+  }
+
+  const inputValues = readStoredInputValues(first.computation.inputValues);
+  const inputUnits = readStoredInputUnits(first.computation.inputUnits);
+  const formulaRun = await runFormulaComputation(db, {
+    organizationId,
+    formula,
+    inputValues,
+    inputUnits,
+  });
+
+  return {
+    formulaRun,
+    inputValues,
+    inputUnits,
+    members: group.map((plan) => {
+      const output = resolveOutputMapping(
+        outputs,
+        plan.candidate.unit,
+        plan.computation.outputVariable ?? undefined,
+      );
+
+      return {
+        plan,
+        output,
+        computedOutput: resolveComputedOutput(formulaRun, output, plan.candidate.unit),
+      };
+    }),
+  };
+}
+
+export async function getOutdatedComputations(
+  input: GetOutdatedComputationsInput,
+): Promise<GetOutdatedComputationsResult> {
+  const plans = await findUpgradePlans(prisma, input);
+  const proposedQuantities = new Map<string, number>();
+  const errors = new Map<string, NonNullable<OutdatedComputationItem["error"]>>();
+
+  for (const group of groupUpgradePlans(plans)) {
+    try {
+      const evaluated = await evaluateUpgradeGroup(prisma, input.organizationId, group);
+      for (const member of evaluated.members) {
+        proposedQuantities.set(member.plan.candidate.id, member.computedOutput.quantity);
+      }
+    } catch (caught) {
+      if (!(caught instanceof AppError)) {
+        throw caught;
+      }
+
+      for (const plan of group) {
+        errors.set(plan.candidate.id, { code: caught.code, message: caught.message });
+      }
+    }
+  }
+
+  const items: OutdatedComputationItem[] = [];
+  for (const plan of plans) {
+    const proposedQuantity = proposedQuantities.get(plan.candidate.id) ?? null;
+
+    items.push({
+      lineItemId: plan.candidate.id,
+      description: plan.candidate.description,
+      category: plan.candidate.category,
+      unit: plan.candidate.unit,
+      currentQuantity: plan.candidate.quantity,
+      estimate: {
+        id: plan.candidate.estimate.id,
+        versionNumber: plan.candidate.estimate.versionNumber,
+        label: plan.candidate.estimate.label,
+        project: plan.candidate.estimate.project,
+      },
+      computationId: plan.computation.id,
+      groupId: plan.computation.groupId,
+      outputVariable: plan.computation.outputVariable,
+      currentFormula: plan.computation.formula,
+      latestFormula: {
+        id: plan.latestFormula.id,
+        name: plan.latestFormula.name,
+        version: plan.latestFormula.version,
+      },
+      proposedQuantity,
+      quantityDelta:
+        proposedQuantity === null
+          ? null
+          : new Prisma.Decimal(proposedQuantity).minus(plan.candidate.quantity).toNumber(),
+      error: errors.get(plan.candidate.id) ?? null,
+    });
+  }
+
+  return { items };
+}
+
+/**
+ * Recomputes the selected line items with the latest version of their formula, reusing the
+ * recorded inputs. The whole batch fails if any line item can no longer be upgraded or if the
+ * selection covers only part of a computation group.
+ */
+export async function applyFormulaUpgrades(
+  input: ApplyFormulaUpgradesInput,
+): Promise<ApplyFormulaUpgradesResult> {
+  return prisma.$transaction(async (tx) => {
+    const plans = await findUpgradePlans(tx, {
+      organizationId: input.organizationId,
+      lineItemIds: input.lineItemIds,
+    });
+    const plannedIds = new Set(plans.map((plan) => plan.candidate.id));
+    const unavailableId = input.lineItemIds.find((lineItemId) => !plannedIds.has(lineItemId));
+
+    if (unavailableId) {
+      throw new AppError(
+        409,
+        "FORMULA_UPGRADE_NOT_AVAILABLE",
+        `Line item ${unavailableId} has no pending formula upgrade`,
+      );
+    }
+
+    const groupIds = Array.from(
+      new Set(
+        plans.flatMap((plan) => (plan.computation.groupId ? [plan.computation.groupId] : [])),
+      ),
+    );
+    if (groupIds.length > 0) {
+      const groupPlans = await findUpgradePlans(tx, {
+        organizationId: input.organizationId,
+        groupIds,
+      });
+      assertUpgradeSelectionKeepsGroups(input.lineItemIds, groupPlans);
+    }
+
+    const items: ApplyFormulaUpgradesResult["items"] = [];
+    const estimatesById = new Map<string, UpgradeCandidate["estimate"]>();
+
+    for (const group of groupUpgradePlans(plans)) {
+      const evaluated = await evaluateUpgradeGroup(tx, input.organizationId, group);
+      const { formula } = evaluated.formulaRun;
+
+      for (const { plan, output, computedOutput } of evaluated.members) {
+        const updated = await tx.lineItem.update({
+          where: { id: plan.candidate.id },
+          data: {
+            quantity: new Prisma.Decimal(computedOutput.quantity),
+            unit: computedOutput.unit,
+          },
+          select: {
+            quantity: true,
+            unit: true,
+          },
+        });
+
+        const computation = await tx.computationInstance.create({
+          data: {
+            estimateId: plan.candidate.estimate.id,
+            lineItemId: plan.candidate.id,
+            formulaId: formula.id,
+            formulaVersion: formula.version,
+            formulaSnapshot: evaluated.formulaRun.formulaSnapshot,
+            inputValues: evaluated.inputValues as Prisma.InputJsonValue,
+            inputUnits: evaluated.inputUnits,
+            computedResults: evaluated.formulaRun.evaluationResult
+              .computedResults as Prisma.InputJsonValue,
+            groupId: plan.computation.groupId,
+            outputVariable: output.variable,
+            computedBy: input.performedBy,
+          },
+          select: {
+            id: true,
+          },
+        });
+
+        await logAudit(
+          {
+            organizationId: input.organizationId,
+            entityType: "LineItem",
+            entityId: plan.candidate.id,
+            action: "LINE_ITEM_FORMULA_UPGRADED",
+            beforeState: {
+              quantity: plan.candidate.quantity.toString(),
+              unit: plan.candidate.unit,
+              formulaId: plan.computation.formulaId,
+              formulaVersion: plan.computation.formulaVersion,
+            },
+            afterState: {
+              quantity: updated.quantity.toString(),
+              unit: updated.unit,
+              formulaId: formula.id,
+              formulaVersion: formula.version,
+              outputVariable: output.variable,
+              inputValues: evaluated.inputValues as Prisma.InputJsonValue,
+              inputUnits: evaluated.inputUnits,
+              computedResults: evaluated.formulaRun.evaluationResult
+                .computedResults as Prisma.InputJsonValue,
+            },
+            performedBy: input.performedBy,
+          },
+          tx,
+        );
+
+        estimatesById.set(plan.candidate.estimate.id, plan.candidate.estimate);
+        items.push({
+          lineItemId: plan.candidate.id,
+          estimateId: plan.candidate.estimate.id,
+          computationId: computation.id,
+          fromVersion: plan.computation.formulaVersion,
+          toVersion: formula.version,
+          previousQuantity: plan.candidate.quantity,
+          quantity: updated.quantity,
+        });
+      }
+    }
+
+    const estimates: ApplyFormulaUpgradesResult["estimates"] = [];
+    for (const estimate of estimatesById.values()) {
+      estimates.push(
+        await recalculateEstimateTotals(tx, estimate.id, estimate.markupRate, estimate.vatRate),
+      );
+    }
+
+    return { items, estimates };
+  });
+}
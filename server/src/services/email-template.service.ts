@@ -0,0 +1,447 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../prisma/client";
+import type { EmailTemplateKey } from "../schemas/email-template.schemas";
+import { escapeHtml } from "../utils/format";
+import { logAudit } from "./audit.service";
+
+type EmailTemplateContent = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+type EmailTemplateDefinition = {
+  label: string;
+  description: string;
+  /** Placeholders available as `{{name}}`, with the sample value used for previews. */
+  variables: Record<string, string>;
+  defaults: EmailTemplateContent;
+};
+
+type UpdateEmailTemplateInput = EmailTemplateContent & {
+  organizationId: string;
+  key: EmailTemplateKey;
+  performedBy: string;
+};
+
+type ResetEmailTemplateInput = {
+  organizationId: string;
+  key: EmailTemplateKey;
+  performedBy: string;
+};
+
+type PreviewEmailTemplateInput = Partial<EmailTemplateContent> & {
+  organizationId: string;
+  key: EmailTemplateKey;
+};
+
+type RenderEmailTemplateInput = {
+  organizationId: string;
+  key: EmailTemplateKey;
+  variables: Record<string, string>;
+};
+
+export type RenderedEmail = EmailTemplateContent;
+
+export type EmailTemplateDetail = EmailTemplateContent & {
+  key: EmailTemplateKey;
+  label: string;
+  description: string;
+  variables: string[];
+  isCustomized: boolean;
+  updatedAt: Date | null;
+  updatedBy: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+// `organizationName` is filled in for every template.
+const EMAIL_TEMPLATE_DEFINITIONS: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  PASSWORD_RESET: {
+    label: "Password reset",
+    description: "Sent when a user asks to reset a forgotten password.",
+    variables: {
+      organizationName: "Acme Builders",
+      recipientName: "Juan Dela Cruz",
+      resetLink: "https://estimatepro.example/reset-password?token=sample",
+    },
+    defaults: {
+      subject: "Reset your EstimatePro PH password",
+      html: [
+        "<p>Hello {{recipientName}},</p>",
+        "<p>We received a request to reset your EstimatePro PH password.</p>",
+        '<p><a href="{{resetLink}}">Reset your password</a></p>',
+        "<p>This link expires in 1 hour.</p>",
+        "<p>If you did not request this, you can ignore this email.</p>",
+      ].join("\n"),
+      text: [
+        "Hello {{recipientName}},",
+        "",
+        "We received a request to reset your EstimatePro PH password.",
+        "Reset your password: {{resetLink}}",
+        "",
+        "This link expires in 1 hour.",
+        "If you did not request this, you can ignore this email.",
+      ].join("\n"),
+    },
+  },
+  USER_INVITE: {
+    label: "User invitation",
+    description: "Sent when an administrator invites a new user.",
+    variables: {
+      organizationName: "Acme Builders",
+      role: "ESTIMATOR",
+      setupLink: "https://estimatepro.example/accept-invite?token=sample",
+    },
+    defaults: {
+      subject: "You are invited to EstimatePro PH",
+      html: [
+        "<p>Hello,</p>",
+        "<p>You have been invited to EstimatePro PH.</p>",
+        "<p>Assigned role: <strong>{{role}}</strong></p>",
+        '<p><a href="{{setupLink}}">Set up your account</a></p>',
+        "<p>This is a one-time setup link.</p>",
+      ].join("\n"),
+      text: [
+        "Hello,",
+        "",
+        "You have been invited to EstimatePro PH.",
+        "Assigned role: {{role}}",
+        "Set up your account: {{setupLink}}",
+        "",
+        "This is a one-time setup link.",
+      ].join("\n"),
+    },
+  },
+  ESTIMATE_SEND: {
+    label: "Quotation",
+    description: "Sent with the quotation PDF attached when an estimate is emailed to a client.",
+    variables: {
+      organizationName: "Acme Builders",
+      projectName: "Two-storey residence, Quezon City",
+      clientName: "Dela Cruz Holdings",
+      estimateVersion: "3",
+      message: "Good day! Please find attached our quotation for your review.",
+      senderName: "Maria Santos",
+    },
+    defaults: {
+      subject: "Quotation for {{projectName}} from {{organizationName}}",
+      html: [
+        '<p style="white-space:pre-line">{{message}}</p>',
+        "<p>Our quotation for <strong>{{projectName}}</strong> (version {{estimateVersion}}) is attached as a PDF.</p>",
+        "<p>{{senderName}}<br>{{organizationName}}</p>",
+      ].join("\n"),
+      text: [
+        "{{message}}",
+        "",
+        "Our quotation for {{projectName}} (version {{estimateVersion}}) is attached as a PDF.",
+        "",
+        "{{senderName}}",
+        "{{organizationName}}",
+      ].join("\n"),
+    },
+  },
+  ESTIMATE_REVIEW_REQUESTED: {
+    label: "Review request",
+    description: "Sent to reviewers when an estimate is submitted for approval.",
+    variables: {
+      organizationName: "Acme Builders",
+      projectName: "Two-storey residence, Quezon City",
+      estimateVersion: "3",
+      totalAmount: "₱6,250,000.00",
+      submitterName: "Maria Santos",
+      comment: "Ready for checking. Roofing uses the updated supplier prices.",
+      reviewLink: "https://estimatepro.example/projects/sample/estimates/sample",
+    },
+    defaults: {
+      subject: "Review requested: {{projectName}} v{{estimateVersion}}",
+      html: [
+        "<p>Hello,</p>",
+        "<p>{{submitterName}} submitted <strong>{{projectName}}</strong> (version {{estimateVersion}}, {{totalAmount}}) for review.</p>",
+        '<p style="white-space:pre-line">{{comment}}</p>',
+        '<p><a href="{{reviewLink}}">Review the estimate</a></p>',
+      ].join("\n"),
+      text: [
+        "Hello,",
+        "",
+        "{{submitterName}} submitted {{projectName}} (version {{estimateVersion}}, {{totalAmount}}) for review.",
+        "",
+        "{{comment}}",
+        "",
+        "Review the estimate: {{reviewLink}}",
+      ].join("\n"),
+    },
+  },
+  ESTIMATE_COMMENT_MENTION: {
+    label: "Comment mention",
+    description: "Sent when someone mentions a user in an estimate comment.",
+    variables: {
+      organizationName: "Acme Builders",
+      authorName: "Maria Santos",
+      projectName: "Two-storey residence, Quezon City",
+      estimateVersion: "3",
+      subject: "Concrete slab on grade",
+      comment: "Can you double-check the slab thickness? The plans say 125 mm.",
+      commentLink: "https://estimatepro.example/projects/sample/estimates/sample",
+    },
+    defaults: {
+      subject: "{{authorName}} mentioned you on {{projectName}}",
+      html: [
+        "<p>Hello,</p>",
+        "<p>{{authorName}} mentioned you in a comment on <strong>{{subject}}</strong> ({{projectName}}, version {{estimateVersion}}):</p>",
+        '<blockquote style="white-space:pre-line">{{comment}}</blockquote>',
+        '<p><a href="{{commentLink}}">Open the estimate</a></p>',
+      ].join("\n"),
+      text: [
+        "Hello,",
+        "",
+        "{{authorName}} mentioned you in a comment on {{subject}} ({{projectName}}, version {{estimateVersion}}):",
+        "",
+        "{{comment}}",
+        "",
+        "Open the estimate: {{commentLink}}",
+      ].join("\n"),
+    },
+  },
+};
+
+const emailTemplateSelect = {
+  id: true,
+  key: true,
+  subject: true,
+  html: true,
+  text: true,
+  updatedAt: true,
+  updatedByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.EmailTemplateSelect;
+
+type EmailTemplateSelectedShape = Prisma.EmailTemplateGetPayload<{
+  select: typeof emailTemplateSelect;
+}>;
+
+/** Replaces `{{name}}` tokens. Unknown placeholders are left as typed. */
+function fillPlaceholders(
+  template: string,
+  variables: Record<string, string>,
+  escape: (value: string) => string,
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (token, name: string) =>
+    name in variables ? escape(variables[name]) : token,
+  );
+}
+
+/** Fills a template's placeholders. Only the HTML body escapes the values. */
+export function renderEmailContent(
+  content: EmailTemplateContent,
+  variables: Record<string, string>,
+): RenderedEmail {
+  const plain = (value: string) => value;
+  return {
+    // Header values must stay on one line.
+    subject: fillPlaceholders(content.subject, variables, plain).replace(/\s*[\r\n]+\s*/g, " "),
+    html: fillPlaceholders(content.html, variables, escapeHtml),
+    text: fillPlaceholders(content.text, variables, plain),
+  };
+}
+
+function toEmailTemplateDetail(
+  key: EmailTemplateKey,
+  stored: EmailTemplateSelectedShape | null,
+): EmailTemplateDetail {
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[key];
+  return {
+    key,
+    label: definition.label,
+    description: definition.description,
+    variables: Object.keys(definition.variables),
+    subject: stored?.subject ?? definition.defaults.subject,
+    html: stored?.html ?? definition.defaults.html,
+    text: stored?.text ?? definition.defaults.text,
+    isCustomized: stored !== null,
+    updatedAt: stored?.updatedAt ?? null,
+    updatedBy: stored?.updatedByUser ?? null,
+  };
+}
+
+async function findStoredTemplate(
+  organizationId: string,
+  key: EmailTemplateKey,
+): Promise<EmailTemplateSelectedShape | null> {
+  return prisma.emailTemplate.findUnique({
+    where: {
+      organizationId_key: { organizationId, key },
+    },
+    select: emailTemplateSelect,
+  });
+}
+
+async function getOrganizationName(organizationId: string): Promise<string> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { name: true },
+  });
+
+  return organization?.name ?? "";
+}
+
+export async function getEmailTemplates(input: {
+  organizationId: string;
+}): Promise<{ items: EmailTemplateDetail[] }> {
+  const stored = await prisma.emailTemplate.findMany({
+    where: { organizationId: input.organizationId },
+    select: emailTemplateSelect,
+  });
+  const storedByKey = new Map(stored.map((template) => [template.key, template]));
+
+  return {
+    items: (Object.keys(EMAIL_TEMPLATE_DEFINITIONS) as EmailTemplateKey[]).map((key) =>
+      toEmailTemplateDetail(key, storedByKey.get(key) ?? null),
+    ),
+  };
+}
+
+export async function updateEmailTemplate(
+  input: UpdateEmailTemplateInput,
+): Promise<EmailTemplateDetail> {
+  const content = { subject: input.subject, html: input.html, text: input.text };
+
+  return prisma.$transaction(async (tx) => {
+    const before = await tx.emailTemplate.findUnique({
+      where: {
+        organizationId_key: { organizationId: input.organizationId, key: input.key },
+      },
+      select: emailTemplateSelect,
+    });
+
+    const updated = await tx.emailTemplate.upsert({
+      where: {
+        organizationId_key: { organizationId: input.organizationId, key: input.key },
+      },
+      create: {
+        ...content,
+        organizationId: input.organizationId,
+        key: input.key,
+        updatedBy: input.performedBy,
+      },
+      update: {
+        ...content,
+        updatedBy: input.performedBy,
+      },
+      select: emailTemplateSelect,
+    });
+
+    const beforeDetail = toEmailTemplateDetail(input.key, before);
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "EmailTemplate",
+        entityId: updated.id,
+        action: "EMAIL_TEMPLATE_UPDATED",
+        beforeState: {
+          key: input.key,
+          subject: beforeDetail.subject,
+          html: beforeDetail.html,
+          text: beforeDetail.text,
+          isCustomized: beforeDetail.isCustomized,
+        },
+        afterState: {
+          key: input.key,
+          ...content,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return toEmailTemplateDetail(input.key, updated);
+  });
+}
+
+/**
+ * Drops the organization's copy of a template so the built-in default is used again.
+ */
+export async function resetEmailTemplate(
+  input: ResetEmailTemplateInput,
+): Promise<EmailTemplateDetail> {
+  return prisma.$transaction(async (tx) => {
+    const before = await tx.emailTemplate.findUnique({
+      where: {
+        organizationId_key: { organizationId: input.organizationId, key: input.key },
+      },
+      select: emailTemplateSelect,
+    });
+
+    if (before) {
+      await tx.emailTemplate.delete({ where: { id: before.id } });
+      await logAudit(
+        {
+          organizationId: input.organizationId,
+          entityType: "EmailTemplate",
+          entityId: before.id,
+          action: "EMAIL_TEMPLATE_RESET",
+          beforeState: {
+            key: input.key,
+            subject: before.subject,
+            html: before.html,
+            text: before.text,
+          },
+          afterState: {
+            key: input.key,
+            isCustomized: false,
+          },
+          performedBy: input.performedBy,
+        },
+        tx,
+      );
+    }
+
+    return toEmailTemplateDetail(input.key, null);
+  });
+}
+
+/**
+ * Renders a template, with any unsaved edits applied, using sample values and the organization's
+ * real name. Nothing is persisted or sent.
+ */
+export async function previewEmailTemplate(
+  input: PreviewEmailTemplateInput,
+): Promise<RenderedEmail> {
+  const [stored, organizationName] = await Promise.all([
+    findStoredTemplate(input.organizationId, input.key),
+    getOrganizationName(input.organizationId),
+  ]);
+  const current = toEmailTemplateDetail(input.key, stored);
+
+  return renderEmailContent(
+    {
+      subject: input.subject ?? current.subject,
+      html: input.html ?? current.html,
+      text: input.text ?? current.text,
+    },
+    {
+      ...EMAIL_TEMPLATE_DEFINITIONS[input.key].variables,
+      ...(organizationName ? { organizationName } : {}),
+    },
+  );
+}
+
+/**
+ * Renders the organization's version of a template, or the built-in default when it has none.
+ */
+export async function renderEmailTemplate(input: RenderEmailTemplateInput): Promise<RenderedEmail> {
+  const [stored, organizationName] = await Promise.all([
+    findStoredTemplate(input.organizationId, input.key),
+    getOrganizationName(input.organizationId),
+  ]);
+
+  return renderEmailContent(toEmailTemplateDetail(input.key, stored), {
+    organizationName,
+    ...input.variables,
+  });
+}
@@ -0,0 +1,226 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import nodemailer, { type SendMailOptions } from "nodemailer";
+import { AppError } from "../errors/app-error";
+
+export type EmailAttachment = {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+};
+
+export type EmailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: EmailAttachment[];
+};
+
+/**
+ * Delivers a fully rendered message. Transports throw on failure; callers decide whether a failed
+ * delivery is fatal.
+ */
+export type EmailTransport = {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+};
+
+export type EmailTransportDriver = "resend" | "smtp" | "outbox";
+
+const DEFAULT_OUTBOX_FROM = "EstimatePro PH <no-reply@localhost>";
+
+let configuredTransport: EmailTransport | null = null;
+
+function toNodemailerMessage(message: EmailMessage): SendMailOptions {
+  return {
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    attachments: message.attachments?.map((attachment) => ({
+      filename: attachment.fileName,
+      contentType: attachment.contentType,
+      content: attachment.content,
+    })),
+  };
+}
+
+export function createResendTransport(apiKey: string): EmailTransport {
+  return {
+    name: "resend",
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          ...(message.attachments?.length
+            ? {
+                attachments: message.attachments.map((attachment) => ({
+                  filename: attachment.fileName,
+                  content: attachment.content.toString("base64"),
+                })),
+              }
+            : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend responded with status ${response.status}`);
+      }
+    },
+  };
+}
+
+export function createSmtpTransport(config: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    ...(config.user ? { auth: { user: config.user, pass: config.pass ?? "" } } : {}),
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail(toNodemailerMessage(message));
+    },
+  };
+}
+
+/**
+ * Keeps messages instead of sending them, for on-prem and offline setups. With a directory each
+ * message is written there as an `.eml` file that any mail client can open; without one it is
+ * printed to the console.
+ */
+export function createOutboxTransport(directory?: string): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  return {
+    name: "outbox",
+    async send(message) {
+      if (!directory) {
+        const attachmentNames = message.attachments?.map((attachment) => attachment.fileName) ?? [];
+        console.info(
+          [
+            `Outbox email to ${message.to.join(", ")}: ${message.subject}`,
+            ...(attachmentNames.length > 0 ? [`Attachments: ${attachmentNames.join(", ")}`] : []),
+            "",
+            message.text,
+          ].join("\n"),
+        );
+        return;
+      }
+
+      const info = await transporter.sendMail(toNodemailerMessage(message));
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const filePath = path.resolve(directory, `${timestamp}-${randomUUID()}.eml`);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, info.message as Buffer);
+    },
+  };
+}
+
+function resolveDriver(): EmailTransportDriver {
+  const driver = process.env.EMAIL_TRANSPORT;
+  if (driver === "resend" || driver === "smtp" || driver === "outbox") {
+    return driver;
+  }
+
+  if (driver) {
+    throw new AppError(500, "EMAIL_NOT_CONFIGURED", `Unsupported email transport: ${driver}`);
+  }
+
+  // Without an explicit driver, keep working with whichever provider has credentials.
+  if (process.env.RESEND_API_KEY) {
+    return "resend";
+  }
+
+  if (process.env.SMTP_HOST) {
+    return "smtp";
+  }
+
+  throw new AppError(500, "EMAIL_NOT_CONFIGURED", "Email provider is not configured");
+}
+
+function createConfiguredTransport(): EmailTransport {
+  const driver = resolveDriver();
+
+  if (driver === "outbox") {
+    return createOutboxTransport(process.env.EMAIL_OUTBOX_DIR || undefined);
+  }
+
+  if (driver === "smtp") {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new AppError(500, "EMAIL_NOT_CONFIGURED", "SMTP_HOST is not configured");
+    }
+
+    const port = Number.parseInt(process.env.SMTP_PORT ?? "", 10) || 587;
+    return createSmtpTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+    });
+  }
+
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    throw new AppError(500, "EMAIL_NOT_CONFIGURED", "RESEND_API_KEY is not configured");
+  }
+
+  return createResendTransport(apiKey);
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (!configuredTransport) {
+    configuredTransport = createConfiguredTransport();
+  }
+
+  return configuredTransport;
+}
+
+/** Replaces the email transport, e.g. with a capturing transport in tests. */
+export function setEmailTransport(transport: EmailTransport): void {
+  configuredTransport = transport;
+}
+
+/**
+ * Sender address for outgoing mail. The outbox falls back to a placeholder so local setups work
+ * without any email configuration.
+ */
+export function getEmailSender(transport: EmailTransport): string {
+  const from = process.env.EMAIL_FROM;
+  if (from) {
+    return from;
+  }
+
+  if (transport.name === "outbox") {
+    return DEFAULT_OUTBOX_FROM;
+  }
+
+  throw new AppError(500, "EMAIL_NOT_CONFIGURED", "EMAIL_FROM is not configured");
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { AppError } from "../errors/app-error";
+import { renderEmailContent } from "./email-template.service";
+import { setEmailTransport, type EmailMessage } from "./email-transport.service";
+import { sendEmail } from "./email.service";
+
+process.env.EMAIL_FROM = "EstimatePro PH <estimates@example.com>";
+
+function capturingTransport(): { sent: EmailMessage[] } {
+  const sent: EmailMessage[] = [];
+  setEmailTransport({
+    name: "capture",
+    async send(message) {
+      sent.push(message);
+    },
+  });
+
+  return { sent };
+}
+
+test("renderEmailContent escapes variables in the HTML body only", () => {
+  const rendered = renderEmailContent(
+    {
+      subject: "Quotation for {{projectName}}",
+      html: "<p>Hello {{recipientName}}, see {{missing}}</p>",
+      text: "Hello {{ recipientName }},",
+    },
+    { projectName: "Site\nA & B", recipientName: "<Ana>" },
+  );
+
+  assert.deepEqual(rendered, {
+    subject: "Quotation for Site A & B",
+    html: "<p>Hello &lt;Ana&gt;, see {{missing}}</p>",
+    text: "Hello <Ana>,",
+  });
+});
+
+test("sendEmail hands the rendered message to the configured transport", async () => {
+  const { sent } = capturingTransport();
+  const message = renderEmailContent(
+    { subject: "Invite to {{organizationName}}", html: "<p>{{role}}</p>", text: "{{role}}" },
+    { organizationName: "Acme Builders", role: "ESTIMATOR" },
+  );
+  const attachment = {
+    fileName: "quotation.pdf",
+    contentType: "application/pdf",
+    content: Buffer.from("%PDF"),
+  };
+
+  await sendEmail({ to: "client@example.com", attachments: [attachment], ...message });
+
+  assert.deepEqual(sent, [
+    {
+      from: "EstimatePro PH <estimates@example.com>",
+      to: ["client@example.com"],
+      subject: "Invite to Acme Builders",
+      html: "<p>ESTIMATOR</p>",
+      text: "ESTIMATOR",
+      attachments: [attachment],
+    },
+  ]);
+});
+
+test("sendEmail reports transport failures as a dispatch error", async () => {
+  setEmailTransport({
+    name: "failing",
+    async send() {
+      throw new Error("Connection refused");
+    },
+  });
+  const consoleError = console.error;
+  console.error = () => {};
+
+  try {
+    await assert.rejects(
+      sendEmail({ to: ["a@example.com", "b@example.com"], subject: "Hi", text: "Hi", html: "Hi" }),
+      (error: unknown) =>
+        error instanceof AppError &&
+        error.statusCode === 502 &&
+        error.code === "EMAIL_DISPATCH_FAILED",
+    );
+  } finally {
+    console.error = consoleError;
+  }
+});
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { AppError } from "../errors/app-error";
+import { getThreadResolutionUpdate } from "./estimate-comment.service";
+
+const now = new Date("2026-10-19T08:00:00.000Z");
+
+test("getThreadResolutionUpdate records who resolved a thread and when", () => {
+  assert.deepEqual(getThreadResolutionUpdate({ parentId: null }, true, "user-1", now), {
+    resolvedAt: now,
+    resolvedBy: "user-1",
+  });
+});
+
+test("getThreadResolutionUpdate clears the resolution when a thread is reopened", () => {
+  assert.deepEqual(getThreadResolutionUpdate({ parentId: null }, false, "user-1", now), {
+    resolvedAt: null,
+    resolvedBy: null,
+  });
+});
+
+test("getThreadResolutionUpdate refuses to resolve or reopen a reply on its own", () => {
+  for (const resolved of [true, false]) {
+    assert.throws(
+      () => getThreadResolutionUpdate({ parentId: "thread-1" }, resolved, "user-1", now),
+      (error: unknown) =>
+        error instanceof AppError &&
+        error.statusCode === 409 &&
+        error.code === "COMMENT_NOT_THREAD",
+    );
+  }
+});
@@ -0,0 +1,588 @@
+import { UserRole, UserStatus, type Prisma } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { getFrontendBaseUrl } from "../utils/frontend-url";
+import { logAudit } from "./audit.service";
+import { renderEmailTemplate, type RenderedEmail } from "./email-template.service";
+import { sendEmail } from "./email.service";
+
+type GetEstimateCommentsInput = {
+  organizationId: string;
+  estimateId: string;
+};
+
+type CreateEstimateCommentInput = {
+  organizationId: string;
+  estimateId: string;
+  body: string;
+  lineItemId?: string | null;
+  parentId?: string;
+  mentionUserIds: string[];
+  performedBy: string;
+};
+
+type UpdateEstimateCommentInput = {
+  organizationId: string;
+  estimateId: string;
+  commentId: string;
+  body: string;
+  mentionUserIds: string[];
+  performedBy: string;
+};
+
+type EstimateCommentActionInput = {
+  organizationId: string;
+  estimateId: string;
+  commentId: string;
+  performedBy: string;
+  performedByRole: string;
+};
+
+type CommentUser = {
+  id: string;
+  name: string;
+};
+
+export type EstimateCommentRecord = {
+  id: string;
+  lineItemId: string | null;
+  parentId: string | null;
+  body: string;
+  mentions: CommentUser[];
+  resolvedAt: Date | null;
+  resolvedBy: CommentUser | null;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: CommentUser;
+};
+
+export type EstimateCommentThread = EstimateCommentRecord & {
+  replies: EstimateCommentRecord[];
+};
+
+export type EstimateCommentsResult = {
+  items: EstimateCommentThread[];
+  unresolvedCount: number;
+};
+
+const estimateCommentSelect = {
+  id: true,
+  lineItemId: true,
+  parentId: true,
+  body: true,
+  resolvedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  createdByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  resolvedByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  mentions: {
+    select: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.EstimateCommentSelect;
+
+const estimateCommentThreadSelect = {
+  ...estimateCommentSelect,
+  replies: {
+    orderBy: { createdAt: "asc" },
+    select: estimateCommentSelect,
+  },
+} satisfies Prisma.EstimateCommentSelect;
+
+type EstimateCommentSelectedShape = Prisma.EstimateCommentGetPayload<{
+  select: typeof estimateCommentSelect;
+}>;
+
+type EstimateCommentThreadSelectedShape = Prisma.EstimateCommentGetPayload<{
+  select: typeof estimateCommentThreadSelect;
+}>;
+
+const estimateForCommentSelect = {
+  id: true,
+  projectId: true,
+  versionNumber: true,
+  project: {
+    select: {
+      name: true,
+    },
+  },
+} satisfies Prisma.EstimateSelect;
+
+type EstimateForComment = Prisma.EstimateGetPayload<{ select: typeof estimateForCommentSelect }>;
+
+function toEstimateCommentRecord(comment: EstimateCommentSelectedShape): EstimateCommentRecord {
+  return {
+    id: comment.id,
+    lineItemId: comment.lineItemId,
+    parentId: comment.parentId,
+    body: comment.body,
+    mentions: comment.mentions.map((mention) => mention.user),
+    resolvedAt: comment.resolvedAt,
+    resolvedBy: comment.resolvedByUser,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt,
+    createdBy: comment.createdByUser,
+  };
+}
+
+function toEstimateCommentThread(
+  comment: EstimateCommentThreadSelectedShape,
+): EstimateCommentThread {
+  return {
+    ...toEstimateCommentRecord(comment),
+    replies: comment.replies.map(toEstimateCommentRecord),
+  };
+}
+
+async function getEstimateForCommentOrThrow(input: {
+  organizationId: string;
+  estimateId: string;
+}): Promise<EstimateForComment> {
+  const estimate = await prisma.estimate.findFirst({
+    where: {
+      id: input.estimateId,
+      deletedAt: null,
+      project: {
+        organizationId: input.organizationId,
+      },
+    },
+    select: estimateForCommentSelect,
+  });
+
+  if (!estimate) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+  }
+
+  return estimate;
+}
+
+async function findCommentOrThrow(
+  organizationId: string,
+  estimateId: string,
+  commentId: string,
+): Promise<{ id: string; parentId: string | null; lineItemId: string | null; createdBy: string }> {
+  const comment = await prisma.estimateComment.findFirst({
+    where: {
+      id: commentId,
+      organizationId,
+      estimateId,
+    },
+    select: {
+      id: true,
+      parentId: true,
+      lineItemId: true,
+      createdBy: true,
+    },
+  });
+
+  if (!comment) {
+    throw new AppError(404, "COMMENT_NOT_FOUND", "Comment not found");
+  }
+
+  return comment;
+}
+
+/** Mentions must name active members of the organization; duplicates are dropped. */
+async function resolveMentions(organizationId: string, userIds: string[]): Promise<string[]> {
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) {
+    return [];
+  }
+
+  const users = await prisma.user.findMany({
+    where: {
+      id: { in: uniqueIds },
+      organizationId,
+      status: UserStatus.ACTIVE,
+    },
+    select: { id: true },
+  });
+
+  if (users.length !== uniqueIds.length) {
+    throw new AppError(
+      400,
+      "COMMENT_MENTION_INVALID",
+      "Mentioned users must be active members of your organization",
+    );
+  }
+
+  return uniqueIds;
+}
+
+async function notifyMentionedUsers(
+  estimate: EstimateForComment,
+  comment: EstimateCommentRecord,
+  userIds: string[],
+  organizationId: string,
+): Promise<void> {
+  const recipients = await prisma.user.findMany({
+    where: {
+      id: { in: userIds.filter((userId) => userId !== comment.createdBy.id) },
+      organizationId,
+      status: UserStatus.ACTIVE,
+    },
+    select: { email: true },
+  });
+
+  if (recipients.length === 0) {
+    return;
+  }
+
+  let rendered: RenderedEmail;
+  try {
+    const lineItem = comment.lineItemId
+      ? await prisma.lineItem.findUnique({
+          where: { id: comment.lineItemId },
+          select: { description: true },
+        })
+      : null;
+
+    rendered = await renderEmailTemplate({
+      organizationId,
+      key: "ESTIMATE_COMMENT_MENTION",
+      variables: {
+        authorName: comment.createdBy.name,
+        projectName: estimate.project.name,
+        estimateVersion: `${estimate.versionNumber}`,
+        subject: lineItem?.description ?? "the estimate",
+        comment: comment.body,
+        commentLink: `${getFrontendBaseUrl()}/projects/${estimate.projectId}/estimates/${estimate.id}`,
+      },
+    });
+  } catch (error) {
+    // A failed notification should not lose the comment.
+    console.error("Failed to render the mention email.", error);
+    return;
+  }
+
+  for (const recipient of recipients) {
+    try {
+      await sendEmail({ to: recipient.email, ...rendered });
+    } catch (error) {
+      console.error(`Failed to notify mentioned user ${recipient.email}.`, error);
+    }
+  }
+}
+
+export async function getEstimateComments(
+  input: GetEstimateCommentsInput,
+): Promise<EstimateCommentsResult> {
+  const estimate = await getEstimateForCommentOrThrow(input);
+
+  const threads = await prisma.estimateComment.findMany({
+    where: {
+      organizationId: input.organizationId,
+      estimateId: estimate.id,
+      parentId: null,
+    },
+    orderBy: { createdAt: "desc" },
+    select: estimateCommentThreadSelect,
+  });
+
+  return {
+    items: threads.map(toEstimateCommentThread),
+    unresolvedCount: threads.filter((thread) => thread.resolvedAt === null).length,
+  };
+}
+
+/** Users who can be mentioned in comments on this estimate. */
+export async function getCommentParticipants(
+  input: GetEstimateCommentsInput,
+): Promise<{ items: CommentUser[] }> {
+  await getEstimateForCommentOrThrow(input);
+
+  const users = await prisma.user.findMany({
+    where: {
+      organizationId: input.organizationId,
+      status: UserStatus.ACTIVE,
+    },
+    orderBy: { name: "asc" },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+
+  return { items: users };
+}
+
+/**
+ * Starts a thread or replies to one. Replies always attach to the thread's first comment, so
+ * threads stay one level deep, and share its line item.
+ */
+export async function createEstimateComment(
+  input: CreateEstimateCommentInput,
+): Promise<EstimateCommentRecord> {
+  const estimate = await getEstimateForCommentOrThrow(input);
+
+  let parentId: string | null = null;
+  let lineItemId: string | null = input.lineItemId ?? null;
+
+  if (input.parentId) {
+    const parent = await findCommentOrThrow(input.organizationId, estimate.id, input.parentId);
+    parentId = parent.parentId ?? parent.id;
+    lineItemId = parent.lineItemId;
+  } else if (lineItemId) {
+    const lineItem = await prisma.lineItem.findFirst({
+      where: {
+        id: lineItemId,
+        estimateId: estimate.id,
+      },
+      select: { id: true },
+    });
+
+    if (!lineItem) {
+      throw new AppError(404, "LINE_ITEM_NOT_FOUND", "Line item not found");
+    }
+  }
+
+  const mentionUserIds = await resolveMentions(input.organizationId, input.mentionUserIds);
+
+  const comment = await prisma.$transaction(async (tx) => {
+    const created = await tx.estimateComment.create({
+      data: {
+        organizationId: input.organizationId,
+        estimateId: estimate.id,
+        lineItemId,
+        parentId,
+        body: input.body,
+        createdBy: input.performedBy,
+        mentions: {
+          create: mentionUserIds.map((userId) => ({ userId })),
+        },
+      },
+      select: estimateCommentSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "ESTIMATE_COMMENT_ADDED",
+        afterState: {
+          commentId: created.id,
+          parentId,
+          lineItemId,
+          body: input.body,
+          mentionUserIds,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return toEstimateCommentRecord(created);
+  });
+
+  await notifyMentionedUsers(estimate, comment, mentionUserIds, input.organizationId);
+
+  return comment;
+}
+
+/** Only the author can edit a comment. Users newly mentioned by the edit are notified. */
+export async function updateEstimateComment(
+  input: UpdateEstimateCommentInput,
+): Promise<EstimateCommentRecord> {
+  const estimate = await getEstimateForCommentOrThrow(input);
+  const existing = await prisma.estimateComment.findFirst({
+    where: {
+      id: input.commentId,
+      organizationId: input.organizationId,
+      estimateId: estimate.id,
+    },
+    select: estimateCommentSelect,
+  });
+
+  if (!existing) {
+    throw new AppError(404, "COMMENT_NOT_FOUND", "Comment not found");
+  }
+
+  if (existing.createdByUser.id !== input.performedBy) {
+    throw new AppError(403, "COMMENT_FORBIDDEN", "Only the author can edit this comment");
+  }
+
+  const mentionUserIds = await resolveMentions(input.organizationId, input.mentionUserIds);
+  const previousMentionIds = new Set(existing.mentions.map((mention) => mention.user.id));
+
+  const comment = await prisma.$transaction(async (tx) => {
+    await tx.estimateCommentMention.deleteMany({
+      where: { commentId: existing.id },
+    });
+
+    const updated = await tx.estimateComment.update({
+      where: { id: existing.id },
+      data: {
+        body: input.body,
+        mentions: {
+          create: mentionUserIds.map((userId) => ({ userId })),
+        },
+      },
+      select: estimateCommentSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "ESTIMATE_COMMENT_UPDATED",
+        beforeState: {
+          commentId: existing.id,
+          body: existing.body,
+          mentionUserIds: [...previousMentionIds],
+        },
+        afterState: {
+          commentId: updated.id,
+          body: updated.body,
+          mentionUserIds,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return toEstimateCommentRecord(updated);
+  });
+
+  await notifyMentionedUsers(
+    estimate,
+    comment,
+    mentionUserIds.filter((userId) => !previousMentionIds.has(userId)),
+    input.organizationId,
+  );
+
+  return comment;
+}
+
+/** Authors can delete their comments and admins can delete any. Deleting a thread removes its replies. */
+export async function deleteEstimateComment(
+  input: EstimateCommentActionInput,
+): Promise<{ deletedCommentId: string; deletedReplyCount: number }> {
+  const estimate = await getEstimateForCommentOrThrow(input);
+  const comment = await findCommentOrThrow(input.organizationId, estimate.id, input.commentId);
+
+  if (comment.createdBy !== input.performedBy && input.performedByRole !== UserRole.ADMIN) {
+    throw new AppError(
+      403,
+      "COMMENT_FORBIDDEN",
+      "Only the author or an admin can delete this comment",
+    );
+  }
+
+  const deletedReplyCount = await prisma.$transaction(async (tx) => {
+    const replyCount = await tx.estimateComment.count({
+      where: { parentId: comment.id },
+    });
+
+    await tx.estimateComment.delete({
+      where: { id: comment.id },
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "ESTIMATE_COMMENT_DELETED",
+        beforeState: {
+          commentId: comment.id,
+          parentId: comment.parentId,
+          lineItemId: comment.lineItemId,
+          replyCount,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return replyCount;
+  });
+
+  return {
+    deletedCommentId: comment.id,
+    deletedReplyCount,
+  };
+}
+
+/** Resolution belongs to the thread: replies are resolved and reopened with their parent. */
+export function getThreadResolutionUpdate(
+  comment: { parentId: string | null },
+  resolved: boolean,
+  performedBy: string,
+  now: Date,
+): { resolvedAt: Date | null; resolvedBy: string | null } {
+  if (comment.parentId) {
+    throw new AppError(
+      409,
+      "COMMENT_NOT_THREAD",
+      "Replies cannot be resolved on their own; resolve the thread instead",
+    );
+  }
+
+  return resolved
+    ? { resolvedAt: now, resolvedBy: performedBy }
+    : { resolvedAt: null, resolvedBy: null };
+}
+
+async function setThreadResolution(
+  input: EstimateCommentActionInput,
+  resolved: boolean,
+): Promise<EstimateCommentThread> {
+  const estimate = await getEstimateForCommentOrThrow(input);
+  const comment = await findCommentOrThrow(input.organizationId, estimate.id, input.commentId);
+  const data = getThreadResolutionUpdate(comment, resolved, input.performedBy, new Date());
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.estimateComment.update({
+      where: { id: comment.id },
+      data,
+      select: estimateCommentThreadSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: resolved ? "ESTIMATE_COMMENT_RESOLVED" : "ESTIMATE_COMMENT_REOPENED",
+        afterState: {
+          commentId: updated.id,
+          resolvedAt: updated.resolvedAt,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return toEstimateCommentThread(updated);
+  });
+}
+
+export async function resolveEstimateComment(
+  input: EstimateCommentActionInput,
+): Promise<EstimateCommentThread> {
+  return setThreadResolution(input, true);
+}
+
+export async function unresolveEstimateComment(
+  input: EstimateCommentActionInput,
+): Promise<EstimateCommentThread> {
+  return setThreadResolution(input, false);
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { renderEmailContent } from "./email-template.service";
+import { buildEstimateEmailVariables } from "./estimate-email.service";
+
+type EmailEstimate = Parameters<typeof buildEstimateEmailVariables>[0];
+
+function estimate(clientName: string | null): EmailEstimate {
+  return {
+    versionNumber: 3,
+    project: {
+      name: "Two-storey residence",
+      client: clientName === null ? null : { name: clientName },
+    },
+  };
+}
+
+test("buildEstimateEmailVariables fills the quotation template from the estimate", () => {
+  assert.deepEqual(
+    buildEstimateEmailVariables(estimate("Dela Cruz Holdings"), "Please see attached.", "Maria"),
+    {
+      projectName: "Two-storey residence",
+      clientName: "Dela Cruz Holdings",
+      estimateVersion: "3",
+      message: "Please see attached.",
+      senderName: "Maria",
+    },
+  );
+});
+
+test("buildEstimateEmailVariables leaves the client and sender empty when they are missing", () => {
+  const variables = buildEstimateEmailVariables(estimate(null), "Please see attached.", null);
+
+  assert.equal(variables.clientName, "");
+  assert.equal(variables.senderName, "");
+});
+
+test("the cover message is escaped in the HTML body and kept verbatim in the text body", () => {
+  const rendered = renderEmailContent(
+    {
+      subject: "Quotation for {{projectName}} ({{clientName}})",
+      html: '<p style="white-space:pre-line">{{message}}</p>',
+      text: "{{message}}\n\n{{senderName}}",
+    },
+    buildEstimateEmailVariables(
+      estimate("Dela Cruz Holdings"),
+      "Good day!\nPrices <exclude> permits & fees.",
+      "Maria",
+    ),
+  );
+
+  assert.deepEqual(rendered, {
+    subject: "Quotation for Two-storey residence (Dela Cruz Holdings)",
+    html: '<p style="white-space:pre-line">Good day!\nPrices &lt;exclude&gt; permits &amp; fees.</p>',
+    text: "Good day!\nPrices <exclude> permits & fees.\n\nMaria",
+  });
+});
@@ -0,0 +1,211 @@
+import type { Prisma } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import type { PdfOptionsInput } from "../schemas/pdf.schemas";
+import { logAudit } from "./audit.service";
+import { renderEmailTemplate } from "./email-template.service";
+import { sendEmail } from "./email.service";
+import { getEstimatePdfFile } from "./pdf.service";
+
+type SendEstimateEmailInput = {
+  organizationId: string;
+  estimateId: string;
+  recipients: string[];
+  message: string;
+  options?: PdfOptionsInput;
+  performedBy: string;
+};
+
+type GetEstimateEmailsInput = {
+  organizationId: string;
+  estimateId: string;
+};
+
+const estimateEmailSelect = {
+  id: true,
+  recipients: true,
+  subject: true,
+  message: true,
+  fileName: true,
+  options: true,
+  sentAt: true,
+  sentByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.EstimateEmailSelect;
+
+type EstimateEmailSelectedShape = Prisma.EstimateEmailGetPayload<{
+  select: typeof estimateEmailSelect;
+}>;
+
+const estimateForEmailSelect = {
+  id: true,
+  versionNumber: true,
+  project: {
+    select: {
+      name: true,
+      client: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.EstimateSelect;
+
+type EstimateForEmail = Prisma.EstimateGetPayload<{ select: typeof estimateForEmailSelect }>;
+
+export type EstimateEmailRecord = {
+  id: string;
+  recipients: string[];
+  subject: string;
+  message: string;
+  fileName: string;
+  options: Prisma.JsonValue;
+  sentAt: Date;
+  sentBy: {
+    id: string;
+    name: string;
+  };
+};
+
+function toEstimateEmailRecord(email: EstimateEmailSelectedShape): EstimateEmailRecord {
+  return {
+    id: email.id,
+    recipients: email.recipients,
+    subject: email.subject,
+    message: email.message,
+    fileName: email.fileName,
+    options: email.options,
+    sentAt: email.sentAt,
+    sentBy: email.sentByUser,
+  };
+}
+
+/**
+ * Template variables for the quotation email. A project without a client, or a sender who no
+ * longer exists, leaves the variable empty rather than failing the send.
+ */
+export function buildEstimateEmailVariables(
+  estimate: Pick<EstimateForEmail, "versionNumber" | "project">,
+  message: string,
+  senderName: string | null | undefined,
+): Record<string, string> {
+  return {
+    projectName: estimate.project.name,
+    clientName: estimate.project.client?.name ?? "",
+    estimateVersion: `${estimate.versionNumber}`,
+    message,
+    senderName: senderName ?? "",
+  };
+}
+
+async function getEstimateForEmailOrThrow(input: {
+  organizationId: string;
+  estimateId: string;
+}): Promise<EstimateForEmail> {
+  const estimate = await prisma.estimate.findFirst({
+    where: {
+      id: input.estimateId,
+      deletedAt: null,
+      project: {
+        organizationId: input.organizationId,
+      },
+    },
+    select: estimateForEmailSelect,
+  });
+
+  if (!estimate) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+  }
+
+  return estimate;
+}
+
+export async function getEstimateEmails(
+  input: GetEstimateEmailsInput,
+): Promise<{ items: EstimateEmailRecord[] }> {
+  const estimate = await getEstimateForEmailOrThrow(input);
+
+  const emails = await prisma.estimateEmail.findMany({
+    where: {
+      organizationId: input.organizationId,
+      estimateId: estimate.id,
+    },
+    orderBy: { sentAt: "desc" },
+    select: estimateEmailSelect,
+  });
+
+  return { items: emails.map(toEstimateEmailRecord) };
+}
+
+/**
+ * Emails the quotation PDF, reusing a cached export when one matches the requested options, and
+ * records the send. Nothing is recorded when delivery fails.
+ */
+export async function sendEstimateEmail(
+  input: SendEstimateEmailInput,
+): Promise<EstimateEmailRecord> {
+  const estimate = await getEstimateForEmailOrThrow(input);
+  const sender = await prisma.user.findUnique({
+    where: { id: input.performedBy },
+    select: { name: true },
+  });
+
+  const attachment = await getEstimatePdfFile({
+    organizationId: input.organizationId,
+    estimateId: estimate.id,
+    requestedBy: input.performedBy,
+    options: input.options,
+  });
+  const rendered = await renderEmailTemplate({
+    organizationId: input.organizationId,
+    key: "ESTIMATE_SEND",
+    variables: buildEstimateEmailVariables(estimate, input.message, sender?.name),
+  });
+
+  await sendEmail({
+    to: input.recipients,
+    ...rendered,
+    attachments: [attachment],
+  });
+
+  return prisma.$transaction(async (tx) => {
+    const email = await tx.estimateEmail.create({
+      data: {
+        organizationId: input.organizationId,
+        estimateId: estimate.id,
+        recipients: input.recipients,
+        subject: rendered.subject,
+        message: input.message,
+        fileName: attachment.fileName,
+        options: input.options ?? {},
+        sentBy: input.performedBy,
+      },
+      select: estimateEmailSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "ESTIMATE_EMAILED",
+        beforeState: {},
+        afterState: {
+          emailId: email.id,
+          recipients: input.recipients,
+          subject: rendered.subject,
+          fileName: attachment.fileName,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return toEstimateEmailRecord(email);
+  });
+}
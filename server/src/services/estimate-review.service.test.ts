@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { EstimateStatus, Prisma, UserRole } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { assertReviewDecisionAllowed } from "./estimate-review.service";
+
+type ReviewDecision = Parameters<typeof assertReviewDecisionAllowed>[0];
+
+function decision(overrides: Partial<ReviewDecision> = {}): ReviewDecision {
+  return {
+    action: "approve",
+    status: EstimateStatus.FOR_REVIEW,
+    policy: {
+      requireReview: true,
+      adminApprovalThreshold: new Prisma.Decimal(1_000_000),
+      blockUnresolvedComments: false,
+      updatedAt: null,
+      updatedBy: null,
+    },
+    totalAmount: new Prisma.Decimal(500_000),
+    performedBy: "reviewer",
+    performedByRole: UserRole.ESTIMATOR,
+    submittedBy: "submitter",
+    ...overrides,
+  };
+}
+
+function hasCode(code: string) {
+  return (error: unknown): boolean => error instanceof AppError && error.code === code;
+}
+
+test("assertReviewDecisionAllowed lets another estimator approve below the threshold", () => {
+  assert.doesNotThrow(() => assertReviewDecisionAllowed(decision()));
+});
+
+test("assertReviewDecisionAllowed only decides on estimates awaiting review", () => {
+  for (const status of [EstimateStatus.DRAFT, EstimateStatus.FINAL, EstimateStatus.ARCHIVED]) {
+    assert.throws(
+      () => assertReviewDecisionAllowed(decision({ status })),
+      hasCode("ESTIMATE_NOT_IN_REVIEW"),
+    );
+    assert.throws(
+      () => assertReviewDecisionAllowed(decision({ status, action: "reject" })),
+      hasCode("ESTIMATE_NOT_IN_REVIEW"),
+    );
+  }
+});
+
+test("assertReviewDecisionAllowed requires an administrator for totals above the threshold", () => {
+  const totalAmount = new Prisma.Decimal(1_200_000);
+
+  assert.throws(
+    () => assertReviewDecisionAllowed(decision({ totalAmount })),
+    hasCode("ESTIMATE_REVIEW_FORBIDDEN"),
+  );
+  assert.throws(
+    () => assertReviewDecisionAllowed(decision({ totalAmount, action: "reject" })),
+    hasCode("ESTIMATE_REVIEW_FORBIDDEN"),
+  );
+  assert.doesNotThrow(() =>
+    assertReviewDecisionAllowed(decision({ totalAmount, performedByRole: UserRole.ADMIN })),
+  );
+});
+
+test("assertReviewDecisionAllowed blocks self-approval but lets submitters withdraw by rejecting", () => {
+  assert.throws(
+    () => assertReviewDecisionAllowed(decision({ performedBy: "submitter" })),
+    hasCode("ESTIMATE_SELF_APPROVAL"),
+  );
+  assert.doesNotThrow(() =>
+    assertReviewDecisionAllowed(decision({ performedBy: "submitter", action: "reject" })),
+  );
+});
@@ -0,0 +1,525 @@
+import {
+  EstimateReviewAction,
+  EstimateStatus,
+  Prisma,
+  UserStatus,
+  type UserRole,
+} from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { formatMoney } from "../utils/format";
+import { getFrontendBaseUrl } from "../utils/frontend-url";
+import {
+  getApprovalPolicy,
+  getReviewerRoles,
+  type ApprovalPolicyDetail,
+} from "./approval-policy.service";
+import { logAudit } from "./audit.service";
+import { renderEmailTemplate, type RenderedEmail } from "./email-template.service";
+import { sendEmail } from "./email.service";
+import {
+  calculateTotals,
+  finalizeReviewedEstimate,
+  parseCategoryMarkupRates,
+  parseMarkupComponents,
+  regionalFactorsSelect,
+} from "./estimate.service";
+
+type GetEstimateReviewsInput = {
+  organizationId: string;
+  estimateId: string;
+};
+
+type SubmitEstimateForReviewInput = {
+  organizationId: string;
+  estimateId: string;
+  comment: string;
+  performedBy: string;
+};
+
+type ReviewEstimateInput = {
+  organizationId: string;
+  estimateId: string;
+  comment: string;
+  performedBy: string;
+  performedByRole: string;
+};
+
+export type EstimateReviewRecord = {
+  id: string;
+  action: EstimateReviewAction;
+  comment: string;
+  totalAmount: Prisma.Decimal;
+  createdAt: Date;
+  performedBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type EstimateReviewTrail = {
+  items: EstimateReviewRecord[];
+  /** Set while the estimate is awaiting review. */
+  pending: {
+    submittedBy: {
+      id: string;
+      name: string;
+    } | null;
+    reviewerRoles: UserRole[];
+  } | null;
+};
+
+export type EstimateReviewResult = {
+  status: EstimateStatus;
+  review: EstimateReviewRecord;
+};
+
+export type SubmitEstimateForReviewResult = EstimateReviewResult & {
+  reviewersNotified: number;
+  emailDelivery: "SENT" | "FAILED" | "SKIPPED";
+};
+
+const estimateReviewSelect = {
+  id: true,
+  action: true,
+  comment: true,
+  totalAmount: true,
+  createdAt: true,
+  performedByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.EstimateReviewSelect;
+
+type EstimateReviewSelectedShape = Prisma.EstimateReviewGetPayload<{
+  select: typeof estimateReviewSelect;
+}>;
+
+const estimateForReviewSelect = {
+  id: true,
+  projectId: true,
+  versionNumber: true,
+  status: true,
+  markupRate: true,
+  markupComponents: true,
+  categoryMarkupRates: true,
+  vatRate: true,
+  project: {
+    select: {
+      name: true,
+      region: {
+        select: regionalFactorsSelect,
+      },
+    },
+  },
+  lineItems: {
+    select: {
+      id: true,
+      category: true,
+      quantity: true,
+      unitMaterialCost: true,
+      unitLaborCost: true,
+      markupRate: true,
+      vatExempt: true,
+    },
+  },
+} satisfies Prisma.EstimateSelect;
+
+type EstimateForReview = Prisma.EstimateGetPayload<{ select: typeof estimateForReviewSelect }>;
+
+/**
+ * The stored total can lag behind region and category changes, so reviewer roles are picked
+ * from the total the estimate would be finalized at.
+ */
+function calculateCurrentTotal(estimate: EstimateForReview): Prisma.Decimal {
+  return calculateTotals({
+    lineItems: estimate.lineItems,
+    markupRate: estimate.markupRate,
+    markupComponents: parseMarkupComponents(estimate.markupComponents),
+    categoryMarkupRates: parseCategoryMarkupRates(estimate.categoryMarkupRates),
+    vatRate: estimate.vatRate,
+    regionalFactors: estimate.project.region,
+  }).totalAmount;
+}
+
+function toEstimateReviewRecord(review: EstimateReviewSelectedShape): EstimateReviewRecord {
+  return {
+    id: review.id,
+    action: review.action,
+    comment: review.comment,
+    totalAmount: review.totalAmount,
+    createdAt: review.createdAt,
+    performedBy: review.performedByUser,
+  };
+}
+
+async function getEstimateForReviewOrThrow(input: {
+  organizationId: string;
+  estimateId: string;
+}): Promise<EstimateForReview> {
+  const estimate = await prisma.estimate.findFirst({
+    where: {
+      id: input.estimateId,
+      deletedAt: null,
+      project: {
+        organizationId: input.organizationId,
+      },
+    },
+    select: estimateForReviewSelect,
+  });
+
+  if (!estimate) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+  }
+
+  return estimate;
+}
+
+/** The submission that opened the current review round. */
+async function findLatestSubmission(
+  organizationId: string,
+  estimateId: string,
+): Promise<EstimateReviewSelectedShape | null> {
+  return prisma.estimateReview.findFirst({
+    where: {
+      organizationId,
+      estimateId,
+      action: EstimateReviewAction.SUBMITTED,
+    },
+    orderBy: { createdAt: "desc" },
+    select: estimateReviewSelect,
+  });
+}
+
+/**
+ * Checks that the reviewer may decide on this estimate: the estimate must be awaiting review,
+ * totals above the admin threshold need an administrator, and nobody approves their own work.
+ */
+export function assertReviewDecisionAllowed(input: {
+  action: "approve" | "reject";
+  status: EstimateStatus;
+  policy: ApprovalPolicyDetail;
+  totalAmount: Prisma.Decimal;
+  performedBy: string;
+  performedByRole: string;
+  submittedBy: string | null;
+}): void {
+  if (input.status !== EstimateStatus.FOR_REVIEW) {
+    throw new AppError(
+      409,
+      "ESTIMATE_NOT_IN_REVIEW",
+      `Only estimates awaiting review can be ${input.action === "approve" ? "approved" : "rejected"}`,
+    );
+  }
+
+  const reviewerRoles = getReviewerRoles(input.policy, input.totalAmount);
+  if (!reviewerRoles.includes(input.performedByRole as UserRole)) {
+    throw new AppError(
+      403,
+      "ESTIMATE_REVIEW_FORBIDDEN",
+      `Estimates above ${formatMoney(input.policy.adminApprovalThreshold ?? new Prisma.Decimal(0))} must be reviewed by an administrator`,
+    );
+  }
+
+  if (input.action === "approve" && input.submittedBy === input.performedBy) {
+    throw new AppError(
+      403,
+      "ESTIMATE_SELF_APPROVAL",
+      "Estimates must be approved by someone other than the submitter",
+    );
+  }
+}
+
+async function assertCanReview(
+  input: ReviewEstimateInput,
+  estimate: EstimateForReview,
+  action: "approve" | "reject",
+): Promise<void> {
+  const policy = await getApprovalPolicy({ organizationId: input.organizationId });
+  const submission =
+    action === "approve" ? await findLatestSubmission(input.organizationId, estimate.id) : null;
+
+  assertReviewDecisionAllowed({
+    action,
+    status: estimate.status,
+    policy,
+    totalAmount: calculateCurrentTotal(estimate),
+    performedBy: input.performedBy,
+    performedByRole: input.performedByRole,
+    submittedBy: submission?.performedByUser.id ?? null,
+  });
+}
+
+async function notifyReviewers(
+  organizationId: string,
+  estimate: EstimateForReview,
+  submission: EstimateReviewRecord,
+  reviewerRoles: UserRole[],
+): Promise<Pick<SubmitEstimateForReviewResult, "reviewersNotified" | "emailDelivery">> {
+  const reviewers = await prisma.user.findMany({
+    where: {
+      organizationId,
+      status: UserStatus.ACTIVE,
+      role: { in: reviewerRoles },
+      id: { not: submission.performedBy.id },
+    },
+    select: { email: true },
+  });
+
+  if (reviewers.length === 0) {
+    return { reviewersNotified: 0, emailDelivery: "SKIPPED" };
+  }
+
+  let rendered: RenderedEmail;
+  try {
+    rendered = await renderEmailTemplate({
+      organizationId,
+      key: "ESTIMATE_REVIEW_REQUESTED",
+      variables: {
+        projectName: estimate.project.name,
+        estimateVersion: `${estimate.versionNumber}`,
+        totalAmount: formatMoney(submission.totalAmount),
+        submitterName: submission.performedBy.name,
+        comment: submission.comment,
+        reviewLink: `${getFrontendBaseUrl()}/projects/${estimate.projectId}/estimates/${estimate.id}`,
+      },
+    });
+  } catch (error) {
+    // The submission stands even when reviewers cannot be emailed.
+    console.error("Failed to render the review request email.", error);
+    return { reviewersNotified: 0, emailDelivery: "FAILED" };
+  }
+
+  // One message per reviewer keeps addresses private and lets the others through when one fails.
+  let reviewersNotified = 0;
+  for (const reviewer of reviewers) {
+    try {
+      await sendEmail({ to: reviewer.email, ...rendered });
+      reviewersNotified += 1;
+    } catch (error) {
+      console.error(`Failed to notify estimate reviewer ${reviewer.email}.`, error);
+    }
+  }
+
+  return { reviewersNotified, emailDelivery: reviewersNotified > 0 ? "SENT" : "FAILED" };
+}
+
+export async function getEstimateReviews(
+  input: GetEstimateReviewsInput,
+): Promise<EstimateReviewTrail> {
+  const estimate = await getEstimateForReviewOrThrow(input);
+
+  const reviews = await prisma.estimateReview.findMany({
+    where: {
+      organizationId: input.organizationId,
+      estimateId: estimate.id,
+    },
+    orderBy: { createdAt: "desc" },
+    select: estimateReviewSelect,
+  });
+
+  if (estimate.status !== EstimateStatus.FOR_REVIEW) {
+    return { items: reviews.map(toEstimateReviewRecord), pending: null };
+  }
+
+  const policy = await getApprovalPolicy({ organizationId: input.organizationId });
+  const submission = reviews.find((review) => review.action === EstimateReviewAction.SUBMITTED);
+
+  return {
+    items: reviews.map(toEstimateReviewRecord),
+    pending: {
+      submittedBy: submission?.performedByUser ?? null,
+      reviewerRoles: getReviewerRoles(policy, calculateCurrentTotal(estimate)),
+    },
+  };
+}
+
+/** Moves a draft into review and emails everyone who may approve it. */
+export async function submitEstimateForReview(
+  input: SubmitEstimateForReviewInput,
+): Promise<SubmitEstimateForReviewResult> {
+  const estimate = await getEstimateForReviewOrThrow(input);
+
+  if (estimate.status !== EstimateStatus.DRAFT) {
+    throw new AppError(
+      409,
+      "ESTIMATE_NOT_EDITABLE",
+      "Only draft estimates can be submitted for review",
+    );
+  }
+
+  const policy = await getApprovalPolicy({ organizationId: input.organizationId });
+  const totalAmount = calculateCurrentTotal(estimate);
+  const reviewerRoles = getReviewerRoles(policy, totalAmount);
+
+  const review = await prisma.$transaction(async (tx) => {
+    // Guarded on DRAFT so concurrent submissions cannot open two review rounds.
+    const submitted = await tx.estimate.updateMany({
+      where: { id: estimate.id, status: EstimateStatus.DRAFT },
+      data: { status: EstimateStatus.FOR_REVIEW },
+    });
+
+    if (submitted.count === 0) {
+      throw new AppError(
+        409,
+        "ESTIMATE_NOT_EDITABLE",
+        "Only draft estimates can be submitted for review",
+      );
+    }
+
+    const created = await tx.estimateReview.create({
+      data: {
+        organizationId: input.organizationId,
+        estimateId: estimate.id,
+        action: EstimateReviewAction.SUBMITTED,
+        comment: input.comment,
+        totalAmount,
+        performedBy: input.performedBy,
+      },
+      select: estimateReviewSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "ESTIMATE_SUBMITTED_FOR_REVIEW",
+        beforeState: { status: estimate.status },
+        afterState: {
+          status: EstimateStatus.FOR_REVIEW,
+          totalAmount: totalAmount.toString(),
+          reviewerRoles,
+          comment: input.comment,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return toEstimateReviewRecord(created);
+  });
+
+  const notification = await notifyReviewers(input.organizationId, estimate, review, reviewerRoles);
+
+  return {
+    status: EstimateStatus.FOR_REVIEW,
+    review,
+    ...notification,
+  };
+}
+
+/** Approving finalizes the estimate: totals are recalculated and line items locked. */
+export async function approveEstimate(input: ReviewEstimateInput): Promise<EstimateReviewResult> {
+  const estimate = await getEstimateForReviewOrThrow(input);
+  await assertCanReview(input, estimate, "approve");
+
+  const approval: { review?: EstimateReviewRecord } = {};
+  const finalized = await finalizeReviewedEstimate(
+    {
+      organizationId: input.organizationId,
+      estimateId: estimate.id,
+      performedBy: input.performedBy,
+      performedByRole: input.performedByRole,
+    },
+    async (tx, updated) => {
+      const created = await tx.estimateReview.create({
+        data: {
+          organizationId: input.organizationId,
+          estimateId: updated.id,
+          action: EstimateReviewAction.APPROVED,
+          comment: input.comment,
+          totalAmount: updated.totalAmount,
+          performedBy: input.performedBy,
+        },
+        select: estimateReviewSelect,
+      });
+
+      await logAudit(
+        {
+          organizationId: input.organizationId,
+          entityType: "Estimate",
+          entityId: updated.id,
+          action: "ESTIMATE_APPROVED",
+          beforeState: { status: EstimateStatus.FOR_REVIEW },
+          afterState: {
+            status: EstimateStatus.FINAL,
+            totalAmount: updated.totalAmount.toString(),
+            comment: input.comment,
+          },
+          performedBy: input.performedBy,
+        },
+        tx,
+      );
+
+      approval.review = toEstimateReviewRecord(created);
+    },
+  );
+
+  if (!approval.review) {
+    throw new AppError(500, "ESTIMATE_REVIEW_FAILED", "Failed to record the approval");
+  }
+
+  return {
+    status: finalized.status,
+    review: approval.review,
+  };
+}
+
+/** Rejecting sends the estimate back to draft so the estimator can address the comments. */
+export async function rejectEstimate(input: ReviewEstimateInput): Promise<EstimateReviewResult> {
+  const estimate = await getEstimateForReviewOrThrow(input);
+  await assertCanReview(input, estimate, "reject");
+
+  const review = await prisma.$transaction(async (tx) => {
+    const rejected = await tx.estimate.updateMany({
+      where: { id: estimate.id, status: EstimateStatus.FOR_REVIEW },
+      data: { status: EstimateStatus.DRAFT },
+    });
+
+    if (rejected.count === 0) {
+      throw new AppError(
+        409,
+        "ESTIMATE_NOT_IN_REVIEW",
+        "Only estimates awaiting review can be rejected",
+      );
+    }
+
+    const created = await tx.estimateReview.create({
+      data: {
+        organizationId: input.organizationId,
+        estimateId: estimate.id,
+        action: EstimateReviewAction.REJECTED,
+        comment: input.comment,
+        totalAmount: calculateCurrentTotal(estimate),
+        performedBy: input.performedBy,
+      },
+      select: estimateReviewSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "ESTIMATE_REJECTED",
+        beforeState: { status: estimate.status },
+        afterState: {
+          status: EstimateStatus.DRAFT,
+          comment: input.comment,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return toEstimateReviewRecord(created);
+  });
+
+  return {
+    status: EstimateStatus.DRAFT,
+    review,
+  };
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { AppError } from "../errors/app-error";
+import {
+  assertParametersAreBound,
+  resolveBindingInputs,
+  type EstimateTemplateFormulaBinding,
+  type EstimateTemplateParameter,
+} from "./estimate-template.service";
+
+const wallBinding: EstimateTemplateFormulaBinding = {
+  formulaName: "CHB Wall",
+  inputValues: { wall_area: 40, wall_height: 3, chb_size: "4in" },
+  inputUnits: { wall_area: "m2", wall_height: "m" },
+  outputs: [],
+};
+
+function parameter(overrides: Partial<EstimateTemplateParameter>): EstimateTemplateParameter {
+  return {
+    key: "floorArea",
+    label: "Floor area",
+    unit: null,
+    defaultValue: null,
+    inputVariables: ["wall_area"],
+    ...overrides,
+  };
+}
+
+test("resolveBindingInputs replaces the inputs a parameter drives, with its unit", () => {
+  const resolved = resolveBindingInputs(
+    wallBinding,
+    [parameter({ unit: "ft2", inputVariables: ["wall_area", "slab_area"] })],
+    { floorArea: 120 },
+  );
+
+  assert.deepEqual(resolved, {
+    inputValues: { wall_area: 120, wall_height: 3, chb_size: "4in" },
+    inputUnits: { wall_area: "ft2", wall_height: "m" },
+  });
+  assert.equal(wallBinding.inputValues.wall_area, 40);
+});
+
+test("resolveBindingInputs falls back to the default and then to the saved value", () => {
+  const resolved = resolveBindingInputs(
+    wallBinding,
+    [
+      parameter({ defaultValue: 80 }),
+      parameter({ key: "storeyHeight", inputVariables: ["wall_height"] }),
+    ],
+    {},
+  );
+
+  assert.deepEqual(resolved.inputValues, { wall_area: 80, wall_height: 3, chb_size: "4in" });
+  assert.deepEqual(resolved.inputUnits, wallBinding.inputUnits);
+});
+
+test("assertParametersAreBound rejects parameters that drive no saved formula input", () => {
+  assert.doesNotThrow(() => assertParametersAreBound([parameter({})], [wallBinding]));
+  assert.throws(
+    () =>
+      assertParametersAreBound(
+        [parameter({ key: "storeys", inputVariables: ["storey_count"] })],
+        [wallBinding],
+      ),
+    (error: unknown) =>
+      error instanceof AppError &&
+      error.code === "ESTIMATE_TEMPLATE_PARAMETER_UNBOUND" &&
+      error.message ===
+        "Parameter storeys refers to storey_count, which no formula in the template uses",
+  );
+});
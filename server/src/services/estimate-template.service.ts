@@ -0,0 +1,787 @@
+import { CalculationSource, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { logAudit } from "./audit.service";
+import { assertCategoryInOrganization } from "./category.service";
+import { applyComputationToEstimate } from "./computation.service";
+import {
+  createdEstimateSelect,
+  insertProjectEstimate,
+  parseCategoryMarkupRates,
+  parseMarkupComponents,
+  type CreatedEstimate,
+  type MarkupBase,
+} from "./estimate.service";
+import { recalculateEstimateTotals } from "./line-item.service";
+
+type EstimateTemplateParameterInput = {
+  key: string;
+  label: string;
+  unit?: string | null;
+  defaultValue?: number | null;
+  inputVariables: string[];
+};
+
+type CreateEstimateTemplateInput = {
+  organizationId: string;
+  estimateId: string;
+  name: string;
+  description?: string | null;
+  parameters: EstimateTemplateParameterInput[];
+  performedBy: string;
+};
+
+type UpdateEstimateTemplateInput = {
+  organizationId: string;
+  templateId: string;
+  name?: string;
+  description?: string | null;
+  parameters?: EstimateTemplateParameterInput[];
+  performedBy: string;
+};
+
+type DeleteEstimateTemplateInput = {
+  organizationId: string;
+  templateId: string;
+  performedBy: string;
+};
+
+type CreateProjectEstimateFromTemplateInput = {
+  organizationId: string;
+  projectId: string;
+  templateId: string;
+  templateParameters?: Record<string, number>;
+  label?: string;
+  markupRate?: number;
+  markupComponents?: Array<{ name: string; rate: number; base: MarkupBase }>;
+  categoryMarkupRates?: Record<string, number>;
+  vatRate?: number;
+  performedBy: string;
+};
+
+// Template contents are stored as JSON with decimals as strings, the same way markup components
+// are stored on estimates.
+const storedLineItemFields = {
+  category: z.string(),
+  description: z.string(),
+  unit: z.string(),
+  unitMaterialCost: z.string(),
+  unitLaborCost: z.string(),
+  markupRate: z.string().nullable(),
+  vatExempt: z.boolean(),
+  priceCatalogItemId: z.string().nullable(),
+  priceReferenceKey: z.string().nullable(),
+};
+
+const storedTemplateLineItemSchema = z.object({
+  ...storedLineItemFields,
+  quantity: z.string(),
+});
+
+const storedFormulaBindingSchema = z.object({
+  formulaName: z.string(),
+  inputValues: z.record(z.string(), z.unknown()),
+  inputUnits: z.record(z.string(), z.string()),
+  outputs: z.array(
+    z.object({
+      ...storedLineItemFields,
+      outputVariable: z.string(),
+    }),
+  ),
+});
+
+const storedTemplateParameterSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  unit: z.string().nullable(),
+  defaultValue: z.number().nullable(),
+  inputVariables: z.array(z.string()),
+});
+
+const storedTemplateContentsSchema = z.object({
+  lineItems: z.array(storedTemplateLineItemSchema),
+  formulaBindings: z.array(storedFormulaBindingSchema),
+  parameters: z.array(storedTemplateParameterSchema),
+});
+
+export type EstimateTemplateLineItem = z.infer<typeof storedTemplateLineItemSchema>;
+
+/**
+ * A formula computation saved with a template. The latest active version of the formula with
+ * `formulaName` is evaluated when an estimate is created, so templates pick up formula upgrades.
+ */
+export type EstimateTemplateFormulaBinding = z.infer<typeof storedFormulaBindingSchema>;
+
+/**
+ * A value asked for when an estimate is created from the template, such as floor area. It
+ * replaces the saved value of every bound formula input named in `inputVariables`.
+ */
+export type EstimateTemplateParameter = z.infer<typeof storedTemplateParameterSchema>;
+
+export type EstimateTemplateSummary = {
+  id: string;
+  name: string;
+  description: string | null;
+  markupRate: Prisma.Decimal;
+  vatRate: Prisma.Decimal;
+  lineItemCount: number;
+  formulaBindingCount: number;
+  parameters: EstimateTemplateParameter[];
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type EstimateTemplateDetail = EstimateTemplateSummary & {
+  markupComponents: Prisma.JsonValue;
+  categoryMarkupRates: Prisma.JsonValue;
+  lineItems: EstimateTemplateLineItem[];
+  formulaBindings: EstimateTemplateFormulaBinding[];
+};
+
+const estimateTemplateSelect = {
+  id: true,
+  name: true,
+  description: true,
+  markupRate: true,
+  markupComponents: true,
+  categoryMarkupRates: true,
+  vatRate: true,
+  lineItems: true,
+  formulaBindings: true,
+  parameters: true,
+  createdAt: true,
+  updatedAt: true,
+  createdByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.EstimateTemplateSelect;
+
+type EstimateTemplateSelectedShape = Prisma.EstimateTemplateGetPayload<{
+  select: typeof estimateTemplateSelect;
+}>;
+
+function parseTemplateContents(
+  template: EstimateTemplateSelectedShape,
+): z.infer<typeof storedTemplateContentsSchema> {
+  const parsed = storedTemplateContentsSchema.safeParse({
+    lineItems: template.lineItems,
+    formulaBindings: template.formulaBindings,
+    parameters: template.parameters,
+  });
+
+  if (!parsed.success) {
+    throw new AppError(500, "ESTIMATE_TEMPLATE_INVALID", "Stored template contents are invalid");
+  }
+
+  return parsed.data;
+}
+
+function toEstimateTemplateDetail(template: EstimateTemplateSelectedShape): EstimateTemplateDetail {
+  const contents = parseTemplateContents(template);
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    markupRate: template.markupRate,
+    vatRate: template.vatRate,
+    lineItemCount:
+      contents.lineItems.length +
+      contents.formulaBindings.reduce((count, binding) => count + binding.outputs.length, 0),
+    formulaBindingCount: contents.formulaBindings.length,
+    parameters: contents.parameters,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+    createdBy: template.createdByUser,
+    markupComponents: template.markupComponents,
+    categoryMarkupRates: template.categoryMarkupRates,
+    lineItems: contents.lineItems,
+    formulaBindings: contents.formulaBindings,
+  };
+}
+
+function toEstimateTemplateSummary(
+  template: EstimateTemplateSelectedShape,
+): EstimateTemplateSummary {
+  const detail = toEstimateTemplateDetail(template);
+  return {
+    id: detail.id,
+    name: detail.name,
+    description: detail.description,
+    markupRate: detail.markupRate,
+    vatRate: detail.vatRate,
+    lineItemCount: detail.lineItemCount,
+    formulaBindingCount: detail.formulaBindingCount,
+    parameters: detail.parameters,
+    createdAt: detail.createdAt,
+    updatedAt: detail.updatedAt,
+    createdBy: detail.createdBy,
+  };
+}
+
+function toEstimateTemplateAuditState(template: EstimateTemplateDetail): Prisma.InputJsonObject {
+  return {
+    name: template.name,
+    description: template.description,
+    lineItemCount: template.lineItemCount,
+    formulaBindingCount: template.formulaBindingCount,
+    parameters: template.parameters,
+  };
+}
+
+function toStoredParameters(
+  parameters: EstimateTemplateParameterInput[],
+): EstimateTemplateParameter[] {
+  return parameters.map((parameter) => ({
+    key: parameter.key,
+    label: parameter.label,
+    unit: parameter.unit ?? null,
+    defaultValue: parameter.defaultValue ?? null,
+    inputVariables: parameter.inputVariables,
+  }));
+}
+
+/**
+ * Parameters must drive at least one saved formula input, otherwise they would silently do
+ * nothing when an estimate is created.
+ */
+export function assertParametersAreBound(
+  parameters: EstimateTemplateParameter[],
+  formulaBindings: EstimateTemplateFormulaBinding[],
+): void {
+  const boundVariables = new Set(
+    formulaBindings.flatMap((binding) => Object.keys(binding.inputValues)),
+  );
+
+  for (const parameter of parameters) {
+    const unknownVariable = parameter.inputVariables.find(
+      (variable) => !boundVariables.has(variable),
+    );
+    if (unknownVariable) {
+      throw new AppError(
+        400,
+        "ESTIMATE_TEMPLATE_PARAMETER_UNBOUND",
+        `Parameter ${parameter.key} refers to ${unknownVariable}, which no formula in the template uses`,
+      );
+    }
+  }
+}
+
+/**
+ * Inputs for one bound formula when an estimate is created: each parameter's value, or its default,
+ * replaces the saved value of the inputs it drives. Parameters without either keep the saved value.
+ */
+export function resolveBindingInputs(
+  binding: Pick<EstimateTemplateFormulaBinding, "inputValues" | "inputUnits">,
+  parameters: EstimateTemplateParameter[],
+  templateParameters: Record<string, number>,
+): { inputValues: Record<string, unknown>; inputUnits: Record<string, string> } {
+  const inputValues = { ...binding.inputValues };
+  const inputUnits = { ...binding.inputUnits };
+  for (const parameter of parameters) {
+    const value = templateParameters[parameter.key] ?? parameter.defaultValue;
+    if (value === null) {
+      continue;
+    }
+
+    for (const variable of parameter.inputVariables) {
+      if (!(variable in inputValues)) {
+        continue;
+      }
+
+      inputValues[variable] = value;
+      if (parameter.unit) {
+        inputUnits[variable] = parameter.unit;
+      }
+    }
+  }
+
+  return { inputValues, inputUnits };
+}
+
+async function findEstimateTemplateOrThrow(
+  client: Prisma.TransactionClient,
+  input: { organizationId: string; templateId: string },
+): Promise<EstimateTemplateSelectedShape> {
+  const template = await client.estimateTemplate.findFirst({
+    where: {
+      id: input.templateId,
+      organizationId: input.organizationId,
+    },
+    select: estimateTemplateSelect,
+  });
+
+  if (!template) {
+    throw new AppError(404, "ESTIMATE_TEMPLATE_NOT_FOUND", "Estimate template not found");
+  }
+
+  return template;
+}
+
+async function ensureEstimateTemplateNameIsUnique(input: {
+  tx: Prisma.TransactionClient;
+  organizationId: string;
+  name: string;
+  excludeId?: string;
+}): Promise<void> {
+  const existing = await input.tx.estimateTemplate.findFirst({
+    where: {
+      organizationId: input.organizationId,
+      name: {
+        equals: input.name,
+        mode: "insensitive",
+      },
+      ...(input.excludeId ? { id: { not: input.excludeId } } : {}),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new AppError(
+      409,
+      "ESTIMATE_TEMPLATE_NAME_CONFLICT",
+      "An estimate template with this name already exists in your organization",
+    );
+  }
+}
+
+/**
+ * Splits an estimate's line items into plain line items and formula bindings. A line item whose
+ * latest computation names an output is bound to that formula; items computed together share a
+ * binding so the formula is evaluated once.
+ */
+async function captureEstimateContents(input: {
+  organizationId: string;
+  estimateId: string;
+}): Promise<{
+  markupRate: Prisma.Decimal;
+  markupComponents: Prisma.JsonValue;
+  categoryMarkupRates: Prisma.JsonValue;
+  vatRate: Prisma.Decimal;
+  lineItems: EstimateTemplateLineItem[];
+  formulaBindings: EstimateTemplateFormulaBinding[];
+}> {
+  const estimate = await prisma.estimate.findFirst({
+    where: {
+      id: input.estimateId,
+      deletedAt: null,
+      project: {
+        organizationId: input.organizationId,
+      },
+    },
+    select: {
+      markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
+      vatRate: true,
+      lineItems: {
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        select: {
+          category: true,
+          description: true,
+          quantity: true,
+          unit: true,
+          unitMaterialCost: true,
+          unitLaborCost: true,
+          markupRate: true,
+          vatExempt: true,
+          priceCatalogItemId: true,
+          priceReferenceKey: true,
+          computations: {
+            orderBy: { computedAt: "desc" },
+            take: 1,
+            select: {
+              id: true,
+              groupId: true,
+              outputVariable: true,
+              inputValues: true,
+              inputUnits: true,
+              formula: {
+                select: {
+                  name: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!estimate) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+  }
+
+  const lineItems: EstimateTemplateLineItem[] = [];
+  const bindingsByKey = new Map<string, EstimateTemplateFormulaBinding>();
+
+  for (const { computations, ...lineItem } of estimate.lineItems) {
+    const fields = {
+      category: lineItem.category,
+      description: lineItem.description,
+      unit: lineItem.unit,
+      unitMaterialCost: lineItem.unitMaterialCost.toString(),
+      unitLaborCost: lineItem.unitLaborCost.toString(),
+      markupRate: lineItem.markupRate?.toString() ?? null,
+      vatExempt: lineItem.vatExempt,
+      priceCatalogItemId: lineItem.priceCatalogItemId,
+      priceReferenceKey: lineItem.priceReferenceKey,
+    };
+    const latest = computations[0];
+    const inputValues = latest
+      ? z.record(z.string(), z.unknown()).safeParse(latest.inputValues)
+      : null;
+    const inputUnits = latest
+      ? z.record(z.string(), z.string()).safeParse(latest.inputUnits)
+      : null;
+
+    if (!latest?.outputVariable || !inputValues?.success || !inputUnits?.success) {
+      lineItems.push({ ...fields, quantity: lineItem.quantity.toString() });
+      continue;
+    }
+
+    const bindingKey = latest.groupId ?? latest.id;
+    const binding = bindingsByKey.get(bindingKey) ?? {
+      formulaName: latest.formula.name,
+      inputValues: inputValues.data,
+      inputUnits: inputUnits.data,
+      outputs: [],
+    };
+    binding.outputs.push({ ...fields, outputVariable: latest.outputVariable });
+    bindingsByKey.set(bindingKey, binding);
+  }
+
+  return {
+    markupRate: estimate.markupRate,
+    markupComponents: estimate.markupComponents,
+    categoryMarkupRates: estimate.categoryMarkupRates,
+    vatRate: estimate.vatRate,
+    lineItems,
+    formulaBindings: Array.from(bindingsByKey.values()),
+  };
+}
+
+export async function getEstimateTemplates(input: {
+  organizationId: string;
+}): Promise<{ items: EstimateTemplateSummary[] }> {
+  const templates = await prisma.estimateTemplate.findMany({
+    where: {
+      organizationId: input.organizationId,
+    },
+    orderBy: [{ name: "asc" }],
+    select: estimateTemplateSelect,
+  });
+
+  return {
+    items: templates.map(toEstimateTemplateSummary),
+  };
+}
+
+export async function getEstimateTemplateById(input: {
+  organizationId: string;
+  templateId: string;
+}): Promise<EstimateTemplateDetail> {
+  const template = await findEstimateTemplateOrThrow(prisma, input);
+  return toEstimateTemplateDetail(template);
+}
+
+/**
+ * Saves an estimate's line items, formula computations and markup settings as a template.
+ */
+export async function createEstimateTemplate(
+  input: CreateEstimateTemplateInput,
+): Promise<EstimateTemplateDetail> {
+  const contents = await captureEstimateContents(input);
+  const parameters = toStoredParameters(input.parameters);
+  assertParametersAreBound(parameters, contents.formulaBindings);
+
+  return prisma.$transaction(async (tx) => {
+    await ensureEstimateTemplateNameIsUnique({
+      tx,
+      organizationId: input.organizationId,
+      name: input.name,
+    });
+
+    const template = await tx.estimateTemplate.create({
+      data: {
+        organizationId: input.organizationId,
+        name: input.name,
+        description: input.description ?? null,
+        markupRate: contents.markupRate,
+        markupComponents: contents.markupComponents ?? [],
+        categoryMarkupRates: contents.categoryMarkupRates ?? {},
+        vatRate: contents.vatRate,
+        lineItems: contents.lineItems as Prisma.InputJsonArray,
+        formulaBindings: contents.formulaBindings as Prisma.InputJsonArray,
+        parameters: parameters as Prisma.InputJsonArray,
+        createdBy: input.performedBy,
+      },
+      select: estimateTemplateSelect,
+    });
+    const detail = toEstimateTemplateDetail(template);
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "EstimateTemplate",
+        entityId: template.id,
+        action: "ESTIMATE_TEMPLATE_CREATED",
+        beforeState: {},
+        afterState: {
+          ...toEstimateTemplateAuditState(detail),
+          sourceEstimateId: input.estimateId,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return detail;
+  });
+}
+
+export async function updateEstimateTemplate(
+  input: UpdateEstimateTemplateInput,
+): Promise<EstimateTemplateDetail> {
+  return prisma.$transaction(async (tx) => {
+    const beforeState = toEstimateTemplateDetail(await findEstimateTemplateOrThrow(tx, input));
+
+    if (input.name !== undefined) {
+      await ensureEstimateTemplateNameIsUnique({
+        tx,
+        organizationId: input.organizationId,
+        name: input.name,
+        excludeId: beforeState.id,
+      });
+    }
+
+    const parameters =
+      input.parameters !== undefined ? toStoredParameters(input.parameters) : undefined;
+    if (parameters) {
+      assertParametersAreBound(parameters, beforeState.formulaBindings);
+    }
+
+    const template = await tx.estimateTemplate.update({
+      where: { id: beforeState.id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...(parameters ? { parameters: parameters as Prisma.InputJsonArray } : {}),
+      },
+      select: estimateTemplateSelect,
+    });
+    const detail = toEstimateTemplateDetail(template);
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "EstimateTemplate",
+        entityId: template.id,
+        action: "ESTIMATE_TEMPLATE_UPDATED",
+        beforeState: toEstimateTemplateAuditState(beforeState),
+        afterState: toEstimateTemplateAuditState(detail),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return detail;
+  });
+}
+
+export async function deleteEstimateTemplate(
+  input: DeleteEstimateTemplateInput,
+): Promise<{ deletedTemplateId: string }> {
+  await prisma.$transaction(async (tx) => {
+    const template = toEstimateTemplateDetail(await findEstimateTemplateOrThrow(tx, input));
+
+    await tx.estimateTemplate.delete({
+      where: { id: template.id },
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "EstimateTemplate",
+        entityId: template.id,
+        action: "ESTIMATE_TEMPLATE_DELETED",
+        beforeState: toEstimateTemplateAuditState(template),
+        afterState: {},
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+  });
+
+  return {
+    deletedTemplateId: input.templateId,
+  };
+}
+
+async function resolvePriceCatalogItemId(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  priceCatalogItemId: string | null,
+): Promise<string | null> {
+  if (!priceCatalogItemId) {
+    return null;
+  }
+
+  // Catalog items deleted since the template was saved simply lose their link.
+  const item = await tx.priceCatalogItem.findFirst({
+    where: { id: priceCatalogItemId, organizationId },
+    select: { id: true },
+  });
+
+  return item?.id ?? null;
+}
+
+/**
+ * Creates the next estimate version of a project from a template. Explicit markup and VAT
+ * settings take precedence over the template's. Each formula binding is evaluated with its saved
+ * inputs, after replacing inputs driven by `templateParameters` (or the parameter defaults).
+ */
+export async function createProjectEstimateFromTemplate(
+  input: CreateProjectEstimateFromTemplateInput,
+): Promise<CreatedEstimate> {
+  return prisma.$transaction(async (tx) => {
+    const template = await findEstimateTemplateOrThrow(tx, input);
+    const contents = parseTemplateContents(template);
+    const templateParameters = input.templateParameters ?? {};
+
+    const unknownParameter = Object.keys(templateParameters).find(
+      (key) => !contents.parameters.some((parameter) => parameter.key === key),
+    );
+    if (unknownParameter) {
+      throw new AppError(
+        400,
+        "ESTIMATE_TEMPLATE_PARAMETER_UNKNOWN",
+        `Template has no parameter ${unknownParameter}`,
+      );
+    }
+
+    const estimate = await insertProjectEstimate(tx, {
+      organizationId: input.organizationId,
+      projectId: input.projectId,
+      label: input.label,
+      markupRate: input.markupRate ?? template.markupRate.toNumber(),
+      markupComponents:
+        input.markupComponents ??
+        parseMarkupComponents(template.markupComponents).map((component) => ({
+          name: component.name,
+          rate: component.rate.toNumber(),
+          base: component.base,
+        })),
+      categoryMarkupRates:
+        input.categoryMarkupRates ??
+        Object.fromEntries(
+          Object.entries(parseCategoryMarkupRates(template.categoryMarkupRates)).map(
+            ([category, rate]) => [category, rate.toNumber()],
+          ),
+        ),
+      vatRate: input.vatRate ?? template.vatRate.toNumber(),
+      templateId: template.id,
+      performedBy: input.performedBy,
+    });
+
+    for (const lineItem of contents.lineItems) {
+      await assertCategoryInOrganization(tx, {
+        organizationId: input.organizationId,
+        code: lineItem.category,
+      });
+
+      await tx.lineItem.create({
+        data: {
+          estimateId: estimate.id,
+          category: lineItem.category,
+          description: lineItem.description,
+          quantity: new Prisma.Decimal(lineItem.quantity),
+          unit: lineItem.unit,
+          unitMaterialCost: new Prisma.Decimal(lineItem.unitMaterialCost),
+          unitLaborCost: new Prisma.Decimal(lineItem.unitLaborCost),
+          totalCost: new Prisma.Decimal(0),
+          markupRate: lineItem.markupRate === null ? null : new Prisma.Decimal(lineItem.markupRate),
+          vatExempt: lineItem.vatExempt,
+          calculationSource: CalculationSource.MANUAL,
+          locked: false,
+          priceCatalogItemId: await resolvePriceCatalogItemId(
+            tx,
+            input.organizationId,
+            lineItem.priceCatalogItemId,
+          ),
+          priceReferenceKey: lineItem.priceReferenceKey,
+          createdBy: input.performedBy,
+        },
+      });
+    }
+
+    for (const binding of contents.formulaBindings) {
+      const { inputValues, inputUnits } = resolveBindingInputs(
+        binding,
+        contents.parameters,
+        templateParameters,
+      );
+
+      const group = await applyComputationToEstimate(tx, {
+        organizationId: input.organizationId,
+        estimateId: estimate.id,
+        formulaName: binding.formulaName,
+        inputValues,
+        inputUnits,
+        outputs: binding.outputs.map((output) => ({
+          outputVariable: output.outputVariable,
+          description: output.description,
+          unit: output.unit,
+          unitMaterialCost: Number(output.unitMaterialCost),
+          unitLaborCost: Number(output.unitLaborCost),
+        })),
+        performedBy: input.performedBy,
+      });
+
+      // Computed line items are created in the formula's category with default markup; restore
+      // the per-item settings saved with the template.
+      for (const computation of group.computations) {
+        const output = binding.outputs.find(
+          (candidate) => candidate.outputVariable === computation.outputVariable,
+        );
+        if (!output) {
+          continue;
+        }
+
+        await assertCategoryInOrganization(tx, {
+          organizationId: input.organizationId,
+          code: output.category,
+        });
+
+        await tx.lineItem.update({
+          where: { id: computation.lineItemId },
+          data: {
+            category: output.category,
+            markupRate: output.markupRate === null ? null : new Prisma.Decimal(output.markupRate),
+            vatExempt: output.vatExempt,
+            priceCatalogItemId: await resolvePriceCatalogItemId(
+              tx,
+              input.organizationId,
+              output.priceCatalogItemId,
+            ),
+            priceReferenceKey: output.priceReferenceKey,
+          },
+        });
+      }
+    }
+
+    await recalculateEstimateTotals(tx, estimate.id, estimate.markupRate, estimate.vatRate);
+
+    return tx.estimate.findUniqueOrThrow({
+      where: { id: estimate.id },
+      select: createdEstimateSelect,
+    });
+  });
+}
@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Prisma } from "@prisma/client";
+import ExcelJS from "exceljs";
+import { orderCategoryTree } from "./category.service";
+import { renderEstimateWorkbook, type EstimateWorkbookData } from "./estimate-workbook.service";
+import { calculateTotals } from "./estimate.service";
+
+type WorkbookLineItem = EstimateWorkbookData["lineItems"][number];
+
+function decimal(value: number | string): Prisma.Decimal {
+  return new Prisma.Decimal(value);
+}
+
+function lineItem(
+  id: string,
+  category: string,
+  values: { quantity: number; unitMaterialCost: number; unitLaborCost?: number },
+): WorkbookLineItem {
+  const unitLaborCost = values.unitLaborCost ?? 0;
+  return {
+    id,
+    category,
+    description: id,
+    quantity: decimal(values.quantity),
+    unit: "pc",
+    unitMaterialCost: decimal(values.unitMaterialCost),
+    unitLaborCost: decimal(unitLaborCost),
+    totalCost: decimal(values.quantity * (values.unitMaterialCost + unitLaborCost)),
+    markupRate: null,
+    vatExempt: false,
+    calculationSource: "MANUAL",
+  };
+}
+
+function workbookData(): EstimateWorkbookData {
+  const lineItems = [
+    lineItem("CHB 4in", "MASONRY", { quantity: 100, unitMaterialCost: 15 }),
+    lineItem("Mason labor", "MASONRY", { quantity: 2, unitMaterialCost: 0, unitLaborCost: 800 }),
+    lineItem("Primer", "PAINT", { quantity: 4, unitMaterialCost: 450 }),
+    lineItem("Scaffolding", "SUMMARY", { quantity: 1, unitMaterialCost: 2000 }),
+  ];
+  const markupRate = decimal(10);
+  const vatRate = decimal(12);
+  const totals = calculateTotals({ lineItems, markupRate, vatRate });
+
+  return {
+    label: null,
+    versionNumber: 2,
+    subtotal: totals.subtotal,
+    regionalMaterialFactor: totals.regionalFactors.materialFactor,
+    regionalLaborFactor: totals.regionalFactors.laborFactor,
+    regionalAdjustment: totals.regionalAdjustment,
+    markupRate,
+    markupComponents: totals.markupComponents,
+    categoryMarkupRates: {},
+    overrideMarkupAmount: totals.overrideMarkupAmount,
+    markupAmount: totals.markupAmount,
+    vatableSales: totals.vatableSales,
+    vatExemptSales: totals.vatExemptSales,
+    vatRate,
+    vatAmount: totals.vatAmount,
+    totalAmount: totals.totalAmount,
+    updatedAt: new Date("2026-10-19T08:00:00.000Z"),
+    organizationName: "Acme Builders",
+    project: { name: "Warehouse", location: "Pasig", projectType: "COMMERCIAL" },
+    categories: orderCategoryTree([
+      { id: "masonry", code: "MASONRY", name: "Masonry", parentId: null, sortOrder: 1 },
+      {
+        id: "paint",
+        code: "PAINT",
+        name: "Paint: Interior/Exterior",
+        parentId: null,
+        sortOrder: 2,
+      },
+    ]),
+    lineItems,
+    computations: [
+      {
+        formulaName: "CHB Wall",
+        formulaVersion: 3,
+        outputVariable: "chb_count",
+        lineItemDescription: "CHB 4in",
+        lineItemCategory: "MASONRY",
+        inputValues: { wall_area: 8, chb_size: "4in" },
+        inputUnits: { wall_area: "m2" },
+        computedResults: { chb_count: 100 },
+        computedByName: "Estimator",
+        computedAt: new Date("2026-10-18T09:30:00.000Z"),
+      },
+    ],
+  };
+}
+
+async function loadWorkbook(buffer: Buffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  return workbook;
+}
+
+function formulaOf(cell: ExcelJS.Cell): string | undefined {
+  const value = cell.value;
+  return value && typeof value === "object" && "formula" in value ? value.formula : undefined;
+}
+
+test("renderEstimateWorkbook writes one sheet per category with safe, unique names", async () => {
+  const workbook = await loadWorkbook(await renderEstimateWorkbook(workbookData()));
+
+  assert.deepEqual(
+    workbook.worksheets.map((sheet) => sheet.name),
+    [
+      "Summary",
+      "MASONRY Masonry",
+      "PAINT Paint Interior Exterior",
+      "SUMMARY (2)",
+      "Formula Provenance",
+    ],
+  );
+});
+
+test("renderEstimateWorkbook keeps line item amounts and subtotals as live formulas", async () => {
+  const workbook = await loadWorkbook(await renderEstimateWorkbook(workbookData()));
+  const masonry = workbook.getWorksheet("MASONRY Masonry");
+  assert.ok(masonry);
+
+  assert.equal(formulaOf(masonry.getCell("F2")), "B2*D2");
+  assert.equal(formulaOf(masonry.getCell("G3")), "B3*E3");
+  assert.equal(formulaOf(masonry.getCell("H2")), "ROUND(F2+G2,2)");
+  assert.equal(masonry.getCell("A4").value, "Subtotal");
+  assert.equal(formulaOf(masonry.getCell("H4")), "SUM(H2:H3)");
+});
+
+test("renderEstimateWorkbook caches the stored totals next to the summary formulas", async () => {
+  const data = workbookData();
+  const workbook = await loadWorkbook(await renderEstimateWorkbook(data));
+  const summary = workbook.getWorksheet("Summary");
+  assert.ok(summary);
+
+  let grandTotal: ExcelJS.Cell | undefined;
+  summary.eachRow((row) => {
+    if (row.getCell(1).value === "Grand Total") {
+      grandTotal = row.getCell(2);
+    }
+  });
+
+  assert.ok(grandTotal);
+  assert.match(formulaOf(grandTotal) ?? "", /^ROUND\(/);
+  assert.equal((grandTotal.value as ExcelJS.CellFormulaValue).result, data.totalAmount.toNumber());
+});
+
+test("renderEstimateWorkbook lists formula inputs with their units on the provenance sheet", async () => {
+  const workbook = await loadWorkbook(await renderEstimateWorkbook(workbookData()));
+  const provenance = workbook.getWorksheet("Formula Provenance");
+  assert.ok(provenance);
+
+  assert.deepEqual((provenance.getRow(2).values as ExcelJS.CellValue[]).slice(1), [
+    "CHB Wall",
+    "v3",
+    "chb_count",
+    "CHB 4in",
+    "MASONRY",
+    "wall_area = 8 m2; chb_size = 4in",
+    "chb_count = 100",
+    "Estimator",
+    "2026-10-18 09:30 UTC",
+  ]);
+});
@@ -0,0 +1,490 @@
+import type { Prisma } from "@prisma/client";
+import ExcelJS from "exceljs";
+import type { OrganizationCategory } from "./category.service";
+import type { CategoryMarkupRates, MarkupComponentTotal } from "./estimate.service";
+
+export type EstimateWorkbookData = {
+  label: string | null;
+  versionNumber: number;
+  subtotal: Prisma.Decimal;
+  regionalMaterialFactor: Prisma.Decimal;
+  regionalLaborFactor: Prisma.Decimal;
+  regionalAdjustment: Prisma.Decimal;
+  markupRate: Prisma.Decimal;
+  markupComponents: MarkupComponentTotal[];
+  categoryMarkupRates: CategoryMarkupRates;
+  overrideMarkupAmount: Prisma.Decimal;
+  markupAmount: Prisma.Decimal;
+  vatableSales: Prisma.Decimal;
+  vatExemptSales: Prisma.Decimal;
+  vatRate: Prisma.Decimal;
+  vatAmount: Prisma.Decimal;
+  totalAmount: Prisma.Decimal;
+  updatedAt: Date;
+  organizationName: string;
+  project: {
+    name: string;
+    location: string;
+    projectType: string;
+  };
+  categories: OrganizationCategory[];
+  lineItems: Array<{
+    id: string;
+    category: string;
+    description: string;
+    quantity: Prisma.Decimal;
+    unit: string;
+    unitMaterialCost: Prisma.Decimal;
+    unitLaborCost: Prisma.Decimal;
+    totalCost: Prisma.Decimal;
+    markupRate: Prisma.Decimal | null;
+    vatExempt: boolean;
+    calculationSource: string;
+  }>;
+  computations: Array<{
+    formulaName: string;
+    formulaVersion: number;
+    outputVariable: string | null;
+    lineItemDescription: string;
+    lineItemCategory: string;
+    inputValues: Prisma.JsonValue;
+    inputUnits: Prisma.JsonValue;
+    computedResults: Prisma.JsonValue;
+    computedByName: string;
+    computedAt: Date;
+  }>;
+};
+
+type CategorySheet = {
+  name: string;
+  label: string;
+  firstRow: number;
+  lastRow: number;
+  totalRow: number;
+};
+
+const SUMMARY_SHEET_NAME = "Summary";
+const PROVENANCE_SHEET_NAME = "Formula Provenance";
+const MAX_SHEET_NAME_LENGTH = 31;
+const MONEY_FORMAT = "#,##0.00";
+const QUANTITY_FORMAT = "#,##0.####";
+const FACTOR_FORMAT = "0.0000";
+
+// Summary sheet cells that the category sheets and totals formulas refer to.
+const MATERIAL_FACTOR_CELL = "$B$8";
+const LABOR_FACTOR_CELL = "$B$9";
+const MARKUP_RATE_CELL = "$B$10";
+const VAT_RATE_CELL = "$B$11";
+const CATEGORY_TABLE_HEADER_ROW = 13;
+
+function toNumber(value: Prisma.Decimal): number {
+  return value.toNumber();
+}
+
+function formatDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function sheetRef(name: string): string {
+  return `'${name.replace(/'/g, "''")}'!`;
+}
+
+function buildSheetName(label: string, usedNames: Set<string>): string {
+  const base =
+    label
+      .replace(/[\\/?*[\]:]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, MAX_SHEET_NAME_LENGTH)
+      .trim() || "Category";
+
+  let name = base;
+  for (let suffix = 2; usedNames.has(name.toLowerCase()); suffix += 1) {
+    const marker = ` (${suffix})`;
+    name = `${base.slice(0, MAX_SHEET_NAME_LENGTH - marker.length).trim()}${marker}`;
+  }
+
+  usedNames.add(name.toLowerCase());
+  return name;
+}
+
+function formatJsonEntries(value: Prisma.JsonValue, units?: Prisma.JsonValue): string {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "";
+  }
+
+  const unitMap = units && typeof units === "object" && !Array.isArray(units) ? units : {};
+  return Object.entries(value)
+    .map(([key, entry]) => {
+      const unit = unitMap[key];
+      const text = typeof entry === "object" ? JSON.stringify(entry) : String(entry);
+      return typeof unit === "string" && unit.length > 0
+        ? `${key} = ${text} ${unit}`
+        : `${key} = ${text}`;
+    })
+    .join("; ");
+}
+
+function styleHeaderRow(row: ExcelJS.Row): void {
+  row.font = { bold: true };
+  row.eachCell((cell) => {
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFF3F4F6" } };
+    cell.border = { bottom: { style: "thin", color: { argb: "FFD1D5DB" } } };
+  });
+}
+
+/**
+ * Writes one sheet per category with live line item formulas. Markup rates shown on a row are the
+ * rate that replaces the estimate's default markup for that item: its own rate, else its
+ * category's rate. A blank rate means the item is on the default markup.
+ */
+function addCategorySheet(
+  workbook: ExcelJS.Workbook,
+  input: {
+    name: string;
+    label: string;
+    lineItems: EstimateWorkbookData["lineItems"];
+    categoryMarkupRates: CategoryMarkupRates;
+  },
+): CategorySheet {
+  const sheet = workbook.addWorksheet(input.name, { views: [{ state: "frozen", ySplit: 1 }] });
+  const summary = sheetRef(SUMMARY_SHEET_NAME);
+  sheet.columns = [
+    { header: "Description", width: 40 },
+    { header: "Quantity", width: 12, style: { numFmt: QUANTITY_FORMAT } },
+    { header: "Unit", width: 10 },
+    { header: "Unit Material Cost", width: 18, style: { numFmt: MONEY_FORMAT } },
+    { header: "Unit Labor Cost", width: 16, style: { numFmt: MONEY_FORMAT } },
+    { header: "Material Amount", width: 18, style: { numFmt: MONEY_FORMAT } },
+    { header: "Labor Amount", width: 16, style: { numFmt: MONEY_FORMAT } },
+    { header: "Total Cost", width: 18, style: { numFmt: MONEY_FORMAT } },
+    { header: "Markup Rate (%)", width: 16 },
+    { header: "VAT Exempt", width: 12 },
+    { header: "Regionally Adjusted Cost", width: 24, style: { numFmt: MONEY_FORMAT } },
+    { header: "Source", width: 14 },
+  ];
+  styleHeaderRow(sheet.getRow(1));
+
+  const firstRow = 2;
+  input.lineItems.forEach((lineItem, index) => {
+    const row = firstRow + index;
+    const markupRate = lineItem.markupRate ?? input.categoryMarkupRates[lineItem.category] ?? null;
+    sheet.addRow([
+      lineItem.description,
+      toNumber(lineItem.quantity),
+      lineItem.unit,
+      toNumber(lineItem.unitMaterialCost),
+      toNumber(lineItem.unitLaborCost),
+      { formula: `B${row}*D${row}` },
+      { formula: `B${row}*E${row}` },
+      { formula: `ROUND(F${row}+G${row},2)`, result: toNumber(lineItem.totalCost) },
+      markupRate === null ? null : toNumber(markupRate),
+      lineItem.vatExempt ? "Yes" : "No",
+      {
+        formula: `F${row}*${summary}${MATERIAL_FACTOR_CELL}+G${row}*${summary}${LABOR_FACTOR_CELL}`,
+      },
+      lineItem.calculationSource,
+    ]);
+  });
+
+  const lastRow = firstRow + input.lineItems.length - 1;
+  const totalRow = lastRow + 1;
+  const total = sheet.addRow(["Subtotal"]);
+  for (const column of ["F", "G", "H", "K"]) {
+    total.getCell(column).value = { formula: `SUM(${column}${firstRow}:${column}${lastRow})` };
+  }
+  total.font = { bold: true };
+  total.border = { top: { style: "thin", color: { argb: "FFD1D5DB" } } };
+
+  return { name: input.name, label: input.label, firstRow, lastRow, totalRow };
+}
+
+function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  data: EstimateWorkbookData,
+): ExcelJS.Worksheet {
+  const sheet = workbook.addWorksheet(SUMMARY_SHEET_NAME);
+  sheet.columns = [{ width: 44 }, ...Array.from({ length: 12 }, () => ({ width: 18 }))];
+
+  const title = data.label?.trim().length
+    ? `Estimate ${data.label.trim()}`
+    : `Estimate v${data.versionNumber}`;
+  sheet.getCell("A1").value = data.organizationName;
+  sheet.getCell("A1").font = { bold: true, size: 14 };
+  sheet.getCell("A2").value = title;
+  sheet.getCell("A3").value = "Project";
+  sheet.getCell("B3").value = data.project.name;
+  sheet.getCell("A4").value = "Location";
+  sheet.getCell("B4").value = data.project.location;
+  sheet.getCell("A5").value = "Estimate Version";
+  sheet.getCell("B5").value = data.versionNumber;
+  sheet.getCell("A6").value = "Last Updated";
+  sheet.getCell("B6").value = formatDateTime(data.updatedAt);
+
+  sheet.getCell("A7").value = "Parameters";
+  sheet.getCell("A7").font = { bold: true };
+  const parameters: Array<[string, number, string]> = [
+    ["Regional Material Factor", toNumber(data.regionalMaterialFactor), FACTOR_FORMAT],
+    ["Regional Labor Factor", toNumber(data.regionalLaborFactor), FACTOR_FORMAT],
+    ["Default Markup Rate (%)", toNumber(data.markupRate), "0.00"],
+    ["VAT Rate (%)", toNumber(data.vatRate), "0.00"],
+  ];
+  parameters.forEach(([label, value, numFmt], index) => {
+    const row = sheet.getRow(8 + index);
+    row.getCell(1).value = label;
+    row.getCell(2).value = value;
+    row.getCell(2).numFmt = numFmt;
+  });
+
+  return sheet;
+}
+
+/**
+ * Adds the per-category breakdown and the totals block. The formulas follow `calculateTotals`:
+ * regional adjustment on the material and labor amounts, default markup (or its itemized
+ * components) on the cost of items without their own rate, and VAT only on vatable sales.
+ * Cached results are the totals stored on the estimate.
+ */
+function addSummaryTotals(
+  sheet: ExcelJS.Worksheet,
+  data: EstimateWorkbookData,
+  categorySheets: CategorySheet[],
+): void {
+  const header = sheet.getRow(CATEGORY_TABLE_HEADER_ROW);
+  header.values = [
+    "Category",
+    "Items",
+    "Subtotal",
+    "Material Amount",
+    "Labor Amount",
+    "Adjusted Cost",
+    "Items on Default Markup",
+    "Cost at Own Rates",
+    "Markup at Own Rates",
+    "VAT-Exempt Cost",
+    "VAT-Exempt Cost on Default Markup",
+    "VAT-Exempt Markup at Own Rates",
+    "VAT-Exempt Items",
+  ];
+  styleHeaderRow(header);
+
+  categorySheets.forEach((category, index) => {
+    const ref = sheetRef(category.name);
+    const range = (column: string): string =>
+      `${ref}$${column}$${category.firstRow}:$${column}$${category.lastRow}`;
+    const total = (column: string): string => `${ref}$${column}$${category.totalRow}`;
+    const row = sheet.getRow(CATEGORY_TABLE_HEADER_ROW + 1 + index);
+    row.values = [
+      category.label,
+      { formula: `COUNTA(${range("A")})` },
+      { formula: total("H") },
+      { formula: total("F") },
+      { formula: total("G") },
+      { formula: total("K") },
+      { formula: `COUNTBLANK(${range("I")})` },
+      { formula: `SUMIF(${range("I")},"<>",${range("K")})` },
+      { formula: `SUMPRODUCT(${range("K")},${range("I")})/100` },
+      { formula: `SUMIF(${range("J")},"Yes",${range("K")})` },
+      { formula: `SUMIFS(${range("K")},${range("J")},"Yes",${range("I")},"")` },
+      { formula: `SUMPRODUCT((${range("J")}="Yes")*${range("K")}*${range("I")})/100` },
+      { formula: `COUNTIF(${range("J")},"Yes")` },
+    ];
+  });
+
+  const firstCategoryRow = CATEGORY_TABLE_HEADER_ROW + 1;
+  const lastCategoryRow = CATEGORY_TABLE_HEADER_ROW + categorySheets.length;
+  const categoryTotalRow = lastCategoryRow + 1;
+  const categoryTotals = sheet.getRow(categoryTotalRow);
+  categoryTotals.getCell(1).value = "All Categories";
+  for (let column = 2; column <= 13; column += 1) {
+    const letter = sheet.getColumn(column).letter;
+    categoryTotals.getCell(column).value =
+      categorySheets.length === 0
+        ? 0
+        : { formula: `SUM(${letter}${firstCategoryRow}:${letter}${lastCategoryRow})` };
+  }
+  categoryTotals.font = { bold: true };
+  for (let row = firstCategoryRow; row <= categoryTotalRow; row += 1) {
+    for (let column = 3; column <= 12; column += 1) {
+      if (column !== 7) {
+        sheet.getRow(row).getCell(column).numFmt = MONEY_FORMAT;
+      }
+    }
+  }
+
+  const totalsHeaderRow = categoryTotalRow + 2;
+  sheet.getRow(totalsHeaderRow).values = ["Totals", "Amount", "Rate (%)"];
+  styleHeaderRow(sheet.getRow(totalsHeaderRow));
+
+  let nextRow = totalsHeaderRow + 1;
+  const addTotal = (
+    label: string,
+    formula: string,
+    result?: Prisma.Decimal,
+    rate?: number,
+  ): string => {
+    const row = sheet.getRow(nextRow);
+    row.getCell(1).value = label;
+    row.getCell(2).value =
+      result === undefined ? { formula } : { formula, result: toNumber(result) };
+    row.getCell(2).numFmt = MONEY_FORMAT;
+    if (rate !== undefined) {
+      row.getCell(3).value = rate;
+    }
+    nextRow += 1;
+    return `B${row.number}`;
+  };
+  const categoryTotal = (column: string): string => `${column}${categoryTotalRow}`;
+
+  const subtotal = addTotal("Estimate Subtotal", `ROUND(${categoryTotal("C")},2)`, data.subtotal);
+  const regionalAdjustment = addTotal(
+    "Regional Adjustment",
+    `ROUND(${categoryTotal("D")}*(${MATERIAL_FACTOR_CELL}-1)+${categoryTotal("E")}*(${LABOR_FACTOR_CELL}-1),2)`,
+    data.regionalAdjustment,
+  );
+  const adjustedSubtotal = addTotal(
+    "Adjusted Subtotal",
+    `${subtotal}+${regionalAdjustment}`,
+    data.subtotal.plus(data.regionalAdjustment),
+  );
+  const defaultBase = addTotal(
+    "Default Markup Base",
+    `IF(${categoryTotal("G")}>0,${adjustedSubtotal}-ROUND(${categoryTotal("H")},2),0)`,
+  );
+
+  const defaultMarkupCells: string[] = [];
+  if (data.markupComponents.length > 0) {
+    for (const component of data.markupComponents) {
+      const base =
+        component.base === "RUNNING_TOTAL" && defaultMarkupCells.length > 0
+          ? `(${defaultBase}+${defaultMarkupCells.join("+")})`
+          : defaultBase;
+      const baseLabel = component.base === "RUNNING_TOTAL" ? "running total" : "direct cost";
+      defaultMarkupCells.push(
+        addTotal(
+          `${component.name} (of ${baseLabel})`,
+          `ROUND(${base}*C${nextRow}/100,2)`,
+          component.amount,
+          toNumber(component.rate),
+        ),
+      );
+    }
+  } else {
+    defaultMarkupCells.push(
+      addTotal(
+        "Default Markup",
+        `ROUND(${defaultBase}*${MARKUP_RATE_CELL}/100,2)`,
+        data.markupAmount.minus(data.overrideMarkupAmount),
+      ),
+    );
+  }
+
+  const overrideMarkup = addTotal(
+    "Markup at Category and Item Rates",
+    `ROUND(${categoryTotal("I")},2)`,
+    data.overrideMarkupAmount,
+  );
+  const markup = addTotal(
+    "Total Markup",
+    `${defaultMarkupCells.join("+")}+${overrideMarkup}`,
+    data.markupAmount,
+  );
+  const grossSales = addTotal(
+    "Gross Sales",
+    `${adjustedSubtotal}+${markup}`,
+    data.subtotal.plus(data.regionalAdjustment).plus(data.markupAmount),
+  );
+  const exemptDefaultMarkup = `IF(${defaultBase}=0,0,${categoryTotal("K")}*(${markup}-${overrideMarkup})/${defaultBase})`;
+  const vatExemptSales = addTotal(
+    "VAT-Exempt Sales",
+    `IF(AND(${categoryTotal("M")}>0,${categoryTotal("M")}=${categoryTotal("B")}),${grossSales},ROUND(${categoryTotal("J")}+${categoryTotal("L")}+${exemptDefaultMarkup},2))`,
+    data.vatExemptSales,
+  );
+  const vatableSales = addTotal(
+    "VATable Sales",
+    `${grossSales}-${vatExemptSales}`,
+    data.vatableSales,
+  );
+  const vat = addTotal("VAT", `ROUND(${vatableSales}*${VAT_RATE_CELL}/100,2)`, data.vatAmount);
+  addTotal("Grand Total", `ROUND(${grossSales}+${vat},2)`, data.totalAmount);
+  sheet.getRow(nextRow - 1).font = { bold: true };
+}
+
+function addProvenanceSheet(workbook: ExcelJS.Workbook, data: EstimateWorkbookData): void {
+  const sheet = workbook.addWorksheet(PROVENANCE_SHEET_NAME, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = [
+    { header: "Formula", width: 28 },
+    { header: "Version", width: 10 },
+    { header: "Output Variable", width: 18 },
+    { header: "Line Item", width: 36 },
+    { header: "Category", width: 14 },
+    { header: "Inputs", width: 48 },
+    { header: "Results", width: 48 },
+    { header: "Computed By", width: 20 },
+    { header: "Computed At", width: 20 },
+  ];
+  styleHeaderRow(sheet.getRow(1));
+
+  if (data.computations.length === 0) {
+    sheet.addRow(["No formula computations recorded."]);
+    return;
+  }
+
+  for (const computation of data.computations) {
+    sheet.addRow([
+      computation.formulaName,
+      `v${computation.formulaVersion}`,
+      computation.outputVariable ?? "",
+      computation.lineItemDescription,
+      computation.lineItemCategory,
+      formatJsonEntries(computation.inputValues, computation.inputUnits),
+      formatJsonEntries(computation.computedResults),
+      computation.computedByName,
+      formatDateTime(computation.computedAt),
+    ]);
+  }
+}
+
+/**
+ * Builds the XLSX export of an estimate: a summary sheet with live totals, one sheet per category
+ * with line items, and the provenance of every formula computation.
+ */
+export async function renderEstimateWorkbook(data: EstimateWorkbookData): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = data.organizationName;
+  workbook.created = data.updatedAt;
+  workbook.calcProperties.fullCalcOnLoad = true;
+
+  const summary = addSummarySheet(workbook, data);
+
+  const categoryByCode = new Map(data.categories.map((category) => [category.code, category]));
+  const groups = new Map<string, EstimateWorkbookData["lineItems"]>();
+  for (const lineItem of data.lineItems) {
+    const group = groups.get(lineItem.category) ?? [];
+    group.push(lineItem);
+    groups.set(lineItem.category, group);
+  }
+
+  const usedNames = new Set([
+    SUMMARY_SHEET_NAME.toLowerCase(),
+    PROVENANCE_SHEET_NAME.toLowerCase(),
+  ]);
+  const categorySheets = Array.from(groups.entries()).map(([code, lineItems]) => {
+    const category = categoryByCode.get(code);
+    const label = category ? `${category.code} ${category.name}` : code;
+    return addCategorySheet(workbook, {
+      name: buildSheetName(label, usedNames),
+      label,
+      lineItems,
+      categoryMarkupRates: data.categoryMarkupRates,
+    });
+  });
+
+  addSummaryTotals(summary, data, categorySheets);
+  addProvenanceSheet(workbook, data);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
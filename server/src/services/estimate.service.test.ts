@@ -0,0 +1,182 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Prisma } from "@prisma/client";
+import { calculateTotals } from "./estimate.service";
+
+type TotalsLineItem = Parameters<typeof calculateTotals>[0]["lineItems"][number];
+
+function decimal(value: number | string): Prisma.Decimal {
+  return new Prisma.Decimal(value);
+}
+
+function lineItem(
+  id: string,
+  values: {
+    quantity: number;
+    unitMaterialCost: number;
+    unitLaborCost?: number;
+    category?: string;
+    markupRate?: number;
+    vatExempt?: boolean;
+  },
+): TotalsLineItem {
+  return {
+    id,
+    category: values.category ?? "GENERAL",
+    quantity: decimal(values.quantity),
+    unitMaterialCost: decimal(values.unitMaterialCost),
+    unitLaborCost: decimal(values.unitLaborCost ?? 0),
+    markupRate: values.markupRate === undefined ? null : decimal(values.markupRate),
+    vatExempt: values.vatExempt ?? false,
+  };
+}
+
+test("calculateTotals applies markup and VAT on the subtotal when no region is set", () => {
+  const totals = calculateTotals({
+    lineItems: [lineItem("a", { quantity: 2, unitMaterialCost: 100, unitLaborCost: 50 })],
+    markupRate: decimal(10),
+    vatRate: decimal(12),
+    regionalFactors: null,
+  });
+
+  assert.equal(totals.lineItemTotals.a.toFixed(2), "300.00");
+  assert.equal(totals.subtotal.toFixed(2), "300.00");
+  assert.equal(totals.regionalAdjustment.toFixed(2), "0.00");
+  assert.equal(totals.markupAmount.toFixed(2), "30.00");
+  assert.equal(totals.vatAmount.toFixed(2), "39.60");
+  assert.equal(totals.totalAmount.toFixed(2), "369.60");
+});
+
+test("calculateTotals adds the regional adjustment separately from base line totals", () => {
+  const totals = calculateTotals({
+    lineItems: [lineItem("a", { quantity: 2, unitMaterialCost: 100, unitLaborCost: 50 })],
+    markupRate: decimal(10),
+    vatRate: decimal(12),
+    regionalFactors: { materialFactor: decimal("1.1"), laborFactor: decimal("1.2") },
+  });
+
+  // Material 200 x 0.1 plus labor 100 x 0.2; line totals stay at base prices.
+  assert.equal(totals.lineItemTotals.a.toFixed(2), "300.00");
+  assert.equal(totals.subtotal.toFixed(2), "300.00");
+  assert.equal(totals.regionalAdjustment.toFixed(2), "40.00");
+  assert.equal(totals.regionalFactors.materialFactor.toString(), "1.1");
+  assert.equal(totals.markupAmount.toFixed(2), "34.00");
+  assert.equal(totals.vatableSales.toFixed(2), "374.00");
+  assert.equal(totals.vatAmount.toFixed(2), "44.88");
+  assert.equal(totals.totalAmount.toFixed(2), "418.88");
+});
+
+test("calculateTotals lowers costs for regions cheaper than the base", () => {
+  const totals = calculateTotals({
+    lineItems: [lineItem("a", { quantity: 1, unitMaterialCost: 1000 })],
+    markupRate: decimal(0),
+    vatRate: decimal(0),
+    regionalFactors: { materialFactor: decimal("0.85"), laborFactor: decimal(1) },
+  });
+
+  assert.equal(totals.regionalAdjustment.toFixed(2), "-150.00");
+  assert.equal(totals.totalAmount.toFixed(2), "850.00");
+});
+
+test("calculateTotals applies DIRECT_COST and RUNNING_TOTAL markup components in order", () => {
+  const totals = calculateTotals({
+    lineItems: [lineItem("a", { quantity: 10, unitMaterialCost: 100 })],
+    markupRate: decimal(50),
+    markupComponents: [
+      { name: "OCM", rate: decimal(10), base: "DIRECT_COST" },
+      { name: "Contingency", rate: decimal(5), base: "DIRECT_COST" },
+      { name: "Profit", rate: decimal(10), base: "RUNNING_TOTAL" },
+    ],
+    vatRate: decimal(12),
+  });
+
+  // Components replace markupRate; profit is taken on 1000 + 100 + 50.
+  assert.deepEqual(
+    totals.markupComponents.map((component) => [component.name, component.amount.toFixed(2)]),
+    [
+      ["OCM", "100.00"],
+      ["Contingency", "50.00"],
+      ["Profit", "115.00"],
+    ],
+  );
+  assert.equal(totals.markupAmount.toFixed(2), "265.00");
+  assert.equal(totals.vatAmount.toFixed(2), "151.80");
+  assert.equal(totals.totalAmount.toFixed(2), "1416.80");
+});
+
+test("calculateTotals takes markup components on the regionally adjusted cost", () => {
+  const totals = calculateTotals({
+    lineItems: [lineItem("a", { quantity: 1, unitMaterialCost: 1000 })],
+    markupRate: decimal(0),
+    markupComponents: [{ name: "OCM", rate: decimal(10), base: "DIRECT_COST" }],
+    vatRate: decimal(0),
+    regionalFactors: { materialFactor: decimal("1.2"), laborFactor: decimal(1) },
+  });
+
+  assert.equal(totals.markupComponents[0].amount.toFixed(2), "120.00");
+  assert.equal(totals.totalAmount.toFixed(2), "1320.00");
+});
+
+test("calculateTotals lets line item rates win over category rates and both replace the default", () => {
+  const totals = calculateTotals({
+    lineItems: [
+      lineItem("civil", { quantity: 1, unitMaterialCost: 1000, category: "CIVIL" }),
+      lineItem("panel", { quantity: 1, unitMaterialCost: 500, category: "ELEC" }),
+      lineItem("wiring", { quantity: 1, unitMaterialCost: 200, category: "ELEC", markupRate: 5 }),
+    ],
+    markupRate: decimal(10),
+    categoryMarkupRates: { ELEC: decimal(20) },
+    vatRate: decimal(12),
+  });
+
+  // Default 10% on 1000, category 20% on 500, item 5% on 200.
+  assert.equal(totals.overrideMarkupAmount.toFixed(2), "110.00");
+  assert.equal(totals.markupAmount.toFixed(2), "210.00");
+  assert.equal(totals.categorySubtotals.ELEC.toFixed(2), "700.00");
+  assert.equal(totals.vatAmount.toFixed(2), "229.20");
+  assert.equal(totals.totalAmount.toFixed(2), "2139.20");
+});
+
+test("calculateTotals splits the default markup between vatable and VAT-exempt items", () => {
+  const totals = calculateTotals({
+    lineItems: [
+      lineItem("vatable", { quantity: 1, unitMaterialCost: 1000 }),
+      lineItem("exempt", { quantity: 1, unitMaterialCost: 500, vatExempt: true }),
+    ],
+    markupRate: decimal(10),
+    vatRate: decimal(12),
+  });
+
+  assert.equal(totals.vatExemptSales.toFixed(2), "550.00");
+  assert.equal(totals.vatableSales.toFixed(2), "1100.00");
+  assert.equal(totals.vatAmount.toFixed(2), "132.00");
+  assert.equal(totals.totalAmount.toFixed(2), "1782.00");
+});
+
+test("calculateTotals keeps an exempt item's own markup out of vatable sales", () => {
+  const totals = calculateTotals({
+    lineItems: [
+      lineItem("vatable", { quantity: 1, unitMaterialCost: 1000 }),
+      lineItem("exempt", { quantity: 1, unitMaterialCost: 500, category: "ELEC", vatExempt: true }),
+    ],
+    markupRate: decimal(10),
+    categoryMarkupRates: { ELEC: decimal(20) },
+    vatRate: decimal(12),
+  });
+
+  assert.equal(totals.vatExemptSales.toFixed(2), "600.00");
+  assert.equal(totals.vatableSales.toFixed(2), "1100.00");
+  assert.equal(totals.totalAmount.toFixed(2), "1832.00");
+});
+
+test("calculateTotals charges no VAT when every line item is exempt", () => {
+  const totals = calculateTotals({
+    lineItems: [lineItem("exempt", { quantity: 3, unitMaterialCost: 333.33, vatExempt: true })],
+    markupRate: decimal(10),
+    vatRate: decimal(12),
+  });
+
+  assert.equal(totals.vatableSales.toFixed(2), "0.00");
+  assert.equal(totals.vatAmount.toFixed(2), "0.00");
+  assert.equal(totals.totalAmount.toFixed(2), totals.vatExemptSales.toFixed(2));
+});
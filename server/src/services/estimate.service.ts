@@ -1,6 +1,11 @@
-import { EstimateStatus, Prisma, type Category } from "@prisma/client";
+import { EstimateStatus, Prisma, type EstimateClientDecision } from "@prisma/client";
 import { AppError } from "../errors/app-error";
 import { prisma } from "../prisma/client";
+import {
+  assertCanFinalizeWithoutReview,
+  assertCommentsAllowFinalization,
+  getApprovalPolicy,
+} from "./approval-policy.service";
 import { logAudit } from "./audit.service";
 
 type GetProjectEstimatesInput = {
@@ -10,12 +15,20 @@ type GetProjectEstimatesInput = {
   pageSize: number;
 };
 
+type MarkupComponentInput = {
+  name: string;
+  rate: number;
+  base: MarkupBase;
+};
+
 type CreateProjectEstimateInput = {
   organizationId: string;
   projectId: string;
   label?: string;
   markupRate: number;
-  vatRate: number;
+  markupComponents?: MarkupComponentInput[];
+  categoryMarkupRates?: Record<string, number>;
+  vatRate?: number;
   performedBy: string;
 };
 
@@ -28,6 +41,8 @@ type UpdateEstimateInput = {
   organizationId: string;
   estimateId: string;
   markupRate: number;
+  markupComponents?: MarkupComponentInput[];
+  categoryMarkupRates?: Record<string, number>;
   vatRate: number;
   performedBy: string;
 };
@@ -42,6 +57,17 @@ type FinalizeEstimateInput = {
   organizationId: string;
   estimateId: string;
   performedBy: string;
+  performedByRole: string;
+};
+
+type FinalizeEstimateOptions = {
+  /** Drafts are finalized directly; reviewed estimates are finalized from FOR_REVIEW on approval. */
+  fromStatus: EstimateStatus;
+  /** Runs inside the finalization transaction, after the estimate is marked FINAL. */
+  onFinalized?: (
+    tx: Prisma.TransactionClient,
+    estimate: { id: string; totalAmount: Prisma.Decimal },
+  ) => Promise<void>;
 };
 
 type ArchiveEstimateInput = {
@@ -70,8 +96,15 @@ export type GetProjectEstimatesResult = {
     label: string | null;
     status: EstimateStatus;
     subtotal: Prisma.Decimal;
+    regionalMaterialFactor: Prisma.Decimal;
+    regionalLaborFactor: Prisma.Decimal;
+    regionalAdjustment: Prisma.Decimal;
     markupRate: Prisma.Decimal;
+    markupComponents: Prisma.JsonValue;
+    categoryMarkupRates: Prisma.JsonValue;
     markupAmount: Prisma.Decimal;
+    vatableSales: Prisma.Decimal;
+    vatExemptSales: Prisma.Decimal;
     vatRate: Prisma.Decimal;
     vatAmount: Prisma.Decimal;
     totalAmount: Prisma.Decimal;
@@ -98,11 +131,20 @@ export type GetEstimateByIdResult = {
     label: string | null;
     status: EstimateStatus;
     subtotal: Prisma.Decimal;
+    regionalMaterialFactor: Prisma.Decimal;
+    regionalLaborFactor: Prisma.Decimal;
+    regionalAdjustment: Prisma.Decimal;
     markupRate: Prisma.Decimal;
+    markupComponents: Prisma.JsonValue;
+    categoryMarkupRates: Prisma.JsonValue;
     markupAmount: Prisma.Decimal;
+    vatableSales: Prisma.Decimal;
+    vatExemptSales: Prisma.Decimal;
     vatRate: Prisma.Decimal;
     vatAmount: Prisma.Decimal;
     totalAmount: Prisma.Decimal;
+    clientDecision: EstimateClientDecision | null;
+    clientDecisionAt: Date | null;
     createdAt: Date;
     updatedAt: Date;
     createdBy: {
@@ -119,11 +161,22 @@ export type GetEstimateByIdResult = {
     unitMaterialCost: Prisma.Decimal;
     unitLaborCost: Prisma.Decimal;
     totalCost: Prisma.Decimal;
+    markupRate: Prisma.Decimal | null;
+    vatExempt: boolean;
     calculationSource: string;
     originalComputedQuantity: Prisma.Decimal | null;
     originalComputedCost: Prisma.Decimal | null;
     overrideReason: string | null;
     locked: boolean;
+    priceCatalogItemId: string | null;
+    priceCatalogItem: {
+      id: string;
+      itemCode: string;
+      unitMaterialCost: Prisma.Decimal;
+      unitLaborCost: Prisma.Decimal;
+      effectiveDate: Date;
+    } | null;
+    priceReferenceKey: string | null;
     createdAt: Date;
     updatedAt: Date;
   }>;
@@ -134,7 +187,10 @@ export type GetEstimateByIdResult = {
     formulaVersion: number;
     formulaSnapshot: Prisma.JsonValue;
     inputValues: Prisma.JsonValue;
+    inputUnits: Prisma.JsonValue;
     computedResults: Prisma.JsonValue;
+    groupId: string | null;
+    outputVariable: string | null;
     computedAt: Date;
     computedBy: {
       id: string;
@@ -164,35 +220,180 @@ function roundMoney(value: Prisma.Decimal): Prisma.Decimal {
 
 type EstimateLineItemForTotals = {
   id: string;
-  category: Category;
+  category: string;
   quantity: Prisma.Decimal;
   unitMaterialCost: Prisma.Decimal;
   unitLaborCost: Prisma.Decimal;
+  markupRate: Prisma.Decimal | null;
+  vatExempt: boolean;
+};
+
+/** Multipliers from the project's region; a factor of 1 leaves that cost component unchanged. */
+export type RegionalFactors = {
+  materialFactor: Prisma.Decimal;
+  laborFactor: Prisma.Decimal;
+};
+
+export const regionalFactorsSelect = {
+  materialFactor: true,
+  laborFactor: true,
+} satisfies Prisma.RegionSelect;
+
+export type MarkupBase = "DIRECT_COST" | "RUNNING_TOTAL";
+
+/**
+ * One itemized markup such as OCM or contractor's profit. `DIRECT_COST` applies the rate to the
+ * regionally adjusted cost of the line items on the default markup; `RUNNING_TOTAL` also includes
+ * the components listed before it.
+ */
+export type MarkupComponent = {
+  name: string;
+  rate: Prisma.Decimal;
+  base: MarkupBase;
+};
+
+export type MarkupComponentTotal = MarkupComponent & {
+  amount: Prisma.Decimal;
 };
 
+/**
+ * Markup rates keyed by category code that replace the estimate's default markup for every line
+ * item in that category.
+ */
+export type CategoryMarkupRates = Record<string, Prisma.Decimal>;
+
 export type EstimateTotalsResult = {
   lineItemTotals: Record<string, Prisma.Decimal>;
   categorySubtotals: Record<string, Prisma.Decimal>;
   subtotal: Prisma.Decimal;
+  regionalFactors: RegionalFactors;
+  regionalAdjustment: Prisma.Decimal;
+  markupComponents: MarkupComponentTotal[];
+  /** Markup from category and line item rates, included in `markupAmount`. */
+  overrideMarkupAmount: Prisma.Decimal;
   markupAmount: Prisma.Decimal;
+  vatableSales: Prisma.Decimal;
+  vatExemptSales: Prisma.Decimal;
   vatAmount: Prisma.Decimal;
   totalAmount: Prisma.Decimal;
 };
 
+/**
+ * Reads the markup components stored on an estimate. The column is only written through
+ * `toMarkupComponentsJson`, so malformed entries are skipped rather than reported.
+ */
+export function parseMarkupComponents(value: Prisma.JsonValue): MarkupComponentTotal[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      return [];
+    }
+
+    const { name, rate, base, amount } = entry;
+    if (
+      typeof name !== "string" ||
+      (typeof rate !== "string" && typeof rate !== "number") ||
+      (base !== "DIRECT_COST" && base !== "RUNNING_TOTAL")
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name,
+        rate: new Prisma.Decimal(rate),
+        base,
+        amount: new Prisma.Decimal(
+          typeof amount === "string" || typeof amount === "number" ? amount : 0,
+        ),
+      },
+    ];
+  });
+}
+
+function toMarkupComponents(components: MarkupComponentInput[]): MarkupComponent[] {
+  return components.map((component) => ({
+    name: component.name,
+    rate: new Prisma.Decimal(component.rate),
+    base: component.base,
+  }));
+}
+
+export function toMarkupComponentsJson(components: MarkupComponentTotal[]): Prisma.InputJsonArray {
+  return components.map((component) => ({
+    name: component.name,
+    rate: component.rate.toString(),
+    base: component.base,
+    amount: component.amount.toString(),
+  }));
+}
+
+/**
+ * Reads the per-category markup rates stored on an estimate, ignoring malformed entries.
+ */
+export function parseCategoryMarkupRates(value: Prisma.JsonValue): CategoryMarkupRates {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+
+  const rates: CategoryMarkupRates = {};
+  for (const [category, rate] of Object.entries(value)) {
+    if (typeof rate === "string" || typeof rate === "number") {
+      rates[category] = new Prisma.Decimal(rate);
+    }
+  }
+
+  return rates;
+}
+
+export function toCategoryMarkupRatesJson(rates: CategoryMarkupRates): Prisma.InputJsonObject {
+  return Object.fromEntries(
+    Object.entries(rates).map(([category, rate]) => [category, rate.toString()]),
+  );
+}
+
+function toCategoryMarkupRates(rates: Record<string, number>): CategoryMarkupRates {
+  return Object.fromEntries(
+    Object.entries(rates).map(([category, rate]) => [category, new Prisma.Decimal(rate)]),
+  );
+}
+
+/**
+ * Line item totals and the subtotal stay at base prices. The regional factor is applied as a
+ * separate adjustment on top of the subtotal, and markup and VAT are computed on the adjusted
+ * amount. When markup components are given they are applied in order and replace `markupRate`.
+ * A line item's own markup rate, else its category's rate, replaces that default markup for the
+ * item, and VAT is only charged on the sales of items that are not VAT-exempt.
+ */
 export function calculateTotals(input: {
   lineItems: EstimateLineItemForTotals[];
   markupRate: Prisma.Decimal;
+  markupComponents?: MarkupComponent[];
+  categoryMarkupRates?: CategoryMarkupRates;
   vatRate: Prisma.Decimal;
+  regionalFactors?: RegionalFactors | null;
 }): EstimateTotalsResult {
   const lineItemTotals: Record<string, Prisma.Decimal> = {};
-  const categorySubtotals = new Map<Category, Prisma.Decimal>();
+  const categorySubtotals = new Map<string, Prisma.Decimal>();
+  const regionalFactors = input.regionalFactors ?? {
+    materialFactor: new Prisma.Decimal(1),
+    laborFactor: new Prisma.Decimal(1),
+  };
+  let materialCost = new Prisma.Decimal(0);
+  let laborCost = new Prisma.Decimal(0);
 
   for (const lineItem of input.lineItems) {
     const unitCost = lineItem.unitMaterialCost.plus(lineItem.unitLaborCost);
     const lineTotal = roundMoney(lineItem.quantity.mul(unitCost));
     lineItemTotals[lineItem.id] = lineTotal;
+    materialCost = materialCost.plus(lineItem.quantity.mul(lineItem.unitMaterialCost));
+    laborCost = laborCost.plus(lineItem.quantity.mul(lineItem.unitLaborCost));
 
-    const runningCategorySubtotal = categorySubtotals.get(lineItem.category) ?? new Prisma.Decimal(0);
+    const runningCategorySubtotal =
+      categorySubtotals.get(lineItem.category) ?? new Prisma.Decimal(0);
     categorySubtotals.set(lineItem.category, roundMoney(runningCategorySubtotal.plus(lineTotal)));
   }
 
@@ -202,15 +403,97 @@ export function calculateTotals(input: {
       new Prisma.Decimal(0),
     ),
   );
-  const markupAmount = roundMoney(subtotal.mul(input.markupRate).div(HUNDRED));
-  const vatAmount = roundMoney(subtotal.plus(markupAmount).mul(input.vatRate).div(HUNDRED));
-  const totalAmount = roundMoney(subtotal.plus(markupAmount).plus(vatAmount));
+  const regionalAdjustment = roundMoney(
+    materialCost
+      .mul(regionalFactors.materialFactor.minus(1))
+      .plus(laborCost.mul(regionalFactors.laborFactor.minus(1))),
+  );
+  const adjustedSubtotal = subtotal.plus(regionalAdjustment);
+
+  // Line items with their own or their category's markup rate are taken out of the default markup
+  // base. Exempt amounts are tracked separately so VAT only applies to vatable sales.
+  const categoryMarkupRates = input.categoryMarkupRates ?? {};
+  let defaultLineItemCount = 0;
+  let exemptLineItemCount = 0;
+  let overrideBase = new Prisma.Decimal(0);
+  let overrideMarkup = new Prisma.Decimal(0);
+  let exemptCost = new Prisma.Decimal(0);
+  let exemptDefaultBase = new Prisma.Decimal(0);
+  let exemptOverrideMarkup = new Prisma.Decimal(0);
+
+  for (const lineItem of input.lineItems) {
+    const adjustedCost = lineItem.quantity
+      .mul(lineItem.unitMaterialCost)
+      .mul(regionalFactors.materialFactor)
+      .plus(lineItem.quantity.mul(lineItem.unitLaborCost).mul(regionalFactors.laborFactor));
+    const overrideRate = lineItem.markupRate ?? categoryMarkupRates[lineItem.category] ?? null;
+
+    if (overrideRate !== null) {
+      const lineMarkup = adjustedCost.mul(overrideRate).div(HUNDRED);
+      overrideBase = overrideBase.plus(adjustedCost);
+      overrideMarkup = overrideMarkup.plus(lineMarkup);
+      if (lineItem.vatExempt) {
+        exemptOverrideMarkup = exemptOverrideMarkup.plus(lineMarkup);
+      }
+    } else {
+      defaultLineItemCount += 1;
+      if (lineItem.vatExempt) {
+        exemptDefaultBase = exemptDefaultBase.plus(adjustedCost);
+      }
+    }
+
+    if (lineItem.vatExempt) {
+      exemptLineItemCount += 1;
+      exemptCost = exemptCost.plus(adjustedCost);
+    }
+  }
+
+  const defaultBase =
+    defaultLineItemCount > 0
+      ? adjustedSubtotal.minus(roundMoney(overrideBase))
+      : new Prisma.Decimal(0);
+  const markupComponents: MarkupComponentTotal[] = [];
+  let defaultMarkupAmount = new Prisma.Decimal(0);
+  if (input.markupComponents && input.markupComponents.length > 0) {
+    for (const component of input.markupComponents) {
+      const base =
+        component.base === "RUNNING_TOTAL" ? defaultBase.plus(defaultMarkupAmount) : defaultBase;
+      const amount = roundMoney(base.mul(component.rate).div(HUNDRED));
+      markupComponents.push({ ...component, amount });
+      defaultMarkupAmount = defaultMarkupAmount.plus(amount);
+    }
+  } else {
+    defaultMarkupAmount = roundMoney(defaultBase.mul(input.markupRate).div(HUNDRED));
+  }
+
+  const overrideMarkupAmount = roundMoney(overrideMarkup);
+  const markupAmount = defaultMarkupAmount.plus(overrideMarkupAmount);
+  const grossSales = adjustedSubtotal.plus(markupAmount);
+
+  // Default markup is shared by exempt and vatable items in proportion to their adjusted cost.
+  const exemptDefaultMarkup = defaultBase.isZero()
+    ? new Prisma.Decimal(0)
+    : exemptDefaultBase.mul(defaultMarkupAmount).div(defaultBase);
+  const vatExemptSales =
+    exemptLineItemCount > 0 && exemptLineItemCount === input.lineItems.length
+      ? grossSales
+      : roundMoney(exemptCost.plus(exemptOverrideMarkup).plus(exemptDefaultMarkup));
+  const vatableSales = grossSales.minus(vatExemptSales);
+
+  const vatAmount = roundMoney(vatableSales.mul(input.vatRate).div(HUNDRED));
+  const totalAmount = roundMoney(grossSales.plus(vatAmount));
 
   return {
     lineItemTotals,
     categorySubtotals: Object.fromEntries(categorySubtotals.entries()),
     subtotal,
+    regionalFactors,
+    regionalAdjustment,
+    markupComponents,
+    overrideMarkupAmount,
     markupAmount,
+    vatableSales,
+    vatExemptSales,
     vatAmount,
     totalAmount,
   };
@@ -251,8 +534,15 @@ export async function getProjectEstimates(
         label: true,
         status: true,
         subtotal: true,
+        regionalMaterialFactor: true,
+        regionalLaborFactor: true,
+        regionalAdjustment: true,
         markupRate: true,
+        markupComponents: true,
+        categoryMarkupRates: true,
         markupAmount: true,
+        vatableSales: true,
+        vatExemptSales: true,
         vatRate: true,
         vatAmount: true,
         totalAmount: true,
@@ -277,8 +567,15 @@ export async function getProjectEstimates(
       label: estimate.label,
       status: estimate.status,
       subtotal: estimate.subtotal,
+      regionalMaterialFactor: estimate.regionalMaterialFactor,
+      regionalLaborFactor: estimate.regionalLaborFactor,
+      regionalAdjustment: estimate.regionalAdjustment,
       markupRate: estimate.markupRate,
+      markupComponents: estimate.markupComponents,
+      categoryMarkupRates: estimate.categoryMarkupRates,
       markupAmount: estimate.markupAmount,
+      vatableSales: estimate.vatableSales,
+      vatExemptSales: estimate.vatExemptSales,
       vatRate: estimate.vatRate,
       vatAmount: estimate.vatAmount,
       totalAmount: estimate.totalAmount,
@@ -295,95 +592,124 @@ export async function getProjectEstimates(
   };
 }
 
-export async function createProjectEstimate(input: CreateProjectEstimateInput): Promise<{
-  id: string;
-  projectId: string;
-  versionNumber: number;
-  label: string | null;
-  status: EstimateStatus;
-  subtotal: Prisma.Decimal;
-  markupRate: Prisma.Decimal;
-  markupAmount: Prisma.Decimal;
-  vatRate: Prisma.Decimal;
-  vatAmount: Prisma.Decimal;
-  totalAmount: Prisma.Decimal;
-  createdAt: Date;
-  updatedAt: Date;
-}> {
-  const project = await prisma.project.findFirst({
+export const DEFAULT_VAT_RATE = 12;
+
+export const createdEstimateSelect = {
+  id: true,
+  projectId: true,
+  versionNumber: true,
+  label: true,
+  status: true,
+  subtotal: true,
+  regionalMaterialFactor: true,
+  regionalLaborFactor: true,
+  regionalAdjustment: true,
+  markupRate: true,
+  markupComponents: true,
+  categoryMarkupRates: true,
+  markupAmount: true,
+  vatableSales: true,
+  vatExemptSales: true,
+  vatRate: true,
+  vatAmount: true,
+  totalAmount: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.EstimateSelect;
+
+export type CreatedEstimate = Prisma.EstimateGetPayload<{ select: typeof createdEstimateSelect }>;
+
+/**
+ * Creates the next draft version of a project's estimate inside an existing transaction. Callers
+ * that populate the new estimate, such as template instantiation, pass `templateId` so the audit
+ * entry records where it came from.
+ */
+export async function insertProjectEstimate(
+  tx: Prisma.TransactionClient,
+  input: CreateProjectEstimateInput & { templateId?: string },
+): Promise<CreatedEstimate> {
+  const project = await tx.project.findFirst({
     where: {
       id: input.projectId,
       organizationId: input.organizationId,
     },
-    select: { id: true },
+    select: {
+      id: true,
+      region: {
+        select: regionalFactorsSelect,
+      },
+    },
   });
 
   if (!project) {
     throw new AppError(404, "PROJECT_NOT_FOUND", "Project not found");
   }
 
-  const created = await prisma.$transaction(async (tx) => {
-    const latestEstimate = await tx.estimate.findFirst({
-      where: { projectId: input.projectId },
-      orderBy: { versionNumber: "desc" },
-      select: { versionNumber: true },
-    });
+  const latestEstimate = await tx.estimate.findFirst({
+    where: { projectId: input.projectId },
+    orderBy: { versionNumber: "desc" },
+    select: { versionNumber: true },
+  });
 
-    const nextVersion = (latestEstimate?.versionNumber ?? 0) + 1;
-    const estimate = await tx.estimate.create({
-      data: {
-        projectId: input.projectId,
-        versionNumber: nextVersion,
-        label: input.label?.trim() || null,
-        status: EstimateStatus.DRAFT,
-        subtotal: new Prisma.Decimal(0),
-        markupRate: new Prisma.Decimal(input.markupRate),
-        markupAmount: new Prisma.Decimal(0),
-        vatRate: new Prisma.Decimal(input.vatRate),
-        vatAmount: new Prisma.Decimal(0),
-        totalAmount: new Prisma.Decimal(0),
-        createdBy: input.performedBy,
-      },
-      select: {
-        id: true,
-        projectId: true,
-        versionNumber: true,
-        label: true,
-        status: true,
-        subtotal: true,
-        markupRate: true,
-        markupAmount: true,
-        vatRate: true,
-        vatAmount: true,
-        totalAmount: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+  const nextVersion = (latestEstimate?.versionNumber ?? 0) + 1;
+  const estimate = await tx.estimate.create({
+    data: {
+      projectId: input.projectId,
+      versionNumber: nextVersion,
+      label: input.label?.trim() || null,
+      status: EstimateStatus.DRAFT,
+      subtotal: new Prisma.Decimal(0),
+      regionalMaterialFactor: project.region?.materialFactor ?? new Prisma.Decimal(1),
+      regionalLaborFactor: project.region?.laborFactor ?? new Prisma.Decimal(1),
+      regionalAdjustment: new Prisma.Decimal(0),
+      markupRate: new Prisma.Decimal(input.markupRate),
+      markupComponents: toMarkupComponentsJson(
+        toMarkupComponents(input.markupComponents ?? []).map((component) => ({
+          ...component,
+          amount: new Prisma.Decimal(0),
+        })),
+      ),
+      categoryMarkupRates: toCategoryMarkupRatesJson(
+        toCategoryMarkupRates(input.categoryMarkupRates ?? {}),
+      ),
+      markupAmount: new Prisma.Decimal(0),
+      vatRate: new Prisma.Decimal(input.vatRate ?? DEFAULT_VAT_RATE),
+      vatAmount: new Prisma.Decimal(0),
+      totalAmount: new Prisma.Decimal(0),
+      createdBy: input.performedBy,
+    },
+    select: createdEstimateSelect,
+  });
 
-    await logAudit(
-      {
-        organizationId: input.organizationId,
-        entityType: "Estimate",
-        entityId: estimate.id,
-        action: "ESTIMATE_CREATED",
-        beforeState: {},
-        afterState: {
-          projectId: estimate.projectId,
-          versionNumber: estimate.versionNumber,
-          status: estimate.status,
-          markupRate: estimate.markupRate.toString(),
-          vatRate: estimate.vatRate.toString(),
-        },
-        performedBy: input.performedBy,
+  await logAudit(
+    {
+      organizationId: input.organizationId,
+      entityType: "Estimate",
+      entityId: estimate.id,
+      action: "ESTIMATE_CREATED",
+      beforeState: {},
+      afterState: {
+        projectId: estimate.projectId,
+        versionNumber: estimate.versionNumber,
+        status: estimate.status,
+        markupRate: estimate.markupRate.toString(),
+        markupComponents: estimate.markupComponents ?? [],
+        categoryMarkupRates: estimate.categoryMarkupRates ?? {},
+        vatRate: estimate.vatRate.toString(),
+        ...(input.templateId ? { templateId: input.templateId } : {}),
       },
-      tx,
-    );
+      performedBy: input.performedBy,
+    },
+    tx,
+  );
 
-    return estimate;
-  });
+  return estimate;
+}
 
-  return created;
+export async function createProjectEstimate(
+  input: CreateProjectEstimateInput,
+): Promise<CreatedEstimate> {
+  return prisma.$transaction((tx) => insertProjectEstimate(tx, input));
 }
 
 export async function getEstimateById(input: GetEstimateByIdInput): Promise<GetEstimateByIdResult> {
@@ -402,11 +728,20 @@ export async function getEstimateById(input: GetEstimateByIdInput): Promise<GetE
       label: true,
       status: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
+      clientDecision: true,
+      clientDecisionAt: true,
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -426,11 +761,24 @@ export async function getEstimateById(input: GetEstimateByIdInput): Promise<GetE
           unitMaterialCost: true,
           unitLaborCost: true,
           totalCost: true,
+          markupRate: true,
+          vatExempt: true,
           calculationSource: true,
           originalComputedQuantity: true,
           originalComputedCost: true,
           overrideReason: true,
           locked: true,
+          priceCatalogItemId: true,
+          priceReferenceKey: true,
+          priceCatalogItem: {
+            select: {
+              id: true,
+              itemCode: true,
+              unitMaterialCost: true,
+              unitLaborCost: true,
+              effectiveDate: true,
+            },
+          },
           createdAt: true,
           updatedAt: true,
         },
@@ -444,7 +792,10 @@ export async function getEstimateById(input: GetEstimateByIdInput): Promise<GetE
           formulaVersion: true,
           formulaSnapshot: true,
           inputValues: true,
+          inputUnits: true,
           computedResults: true,
+          groupId: true,
+          outputVariable: true,
           computedAt: true,
           computedByUser: {
             select: {
@@ -486,11 +837,20 @@ export async function getEstimateById(input: GetEstimateByIdInput): Promise<GetE
       label: estimate.label,
       status: estimate.status,
       subtotal: estimate.subtotal,
+      regionalMaterialFactor: estimate.regionalMaterialFactor,
+      regionalLaborFactor: estimate.regionalLaborFactor,
+      regionalAdjustment: estimate.regionalAdjustment,
       markupRate: estimate.markupRate,
+      markupComponents: estimate.markupComponents,
+      categoryMarkupRates: estimate.categoryMarkupRates,
       markupAmount: estimate.markupAmount,
+      vatableSales: estimate.vatableSales,
+      vatExemptSales: estimate.vatExemptSales,
       vatRate: estimate.vatRate,
       vatAmount: estimate.vatAmount,
       totalAmount: estimate.totalAmount,
+      clientDecision: estimate.clientDecision,
+      clientDecisionAt: estimate.clientDecisionAt,
       createdAt: estimate.createdAt,
       updatedAt: estimate.updatedAt,
       createdBy: estimate.createdByUser,
@@ -507,7 +867,10 @@ export async function getEstimateById(input: GetEstimateByIdInput): Promise<GetE
       formulaVersion: computation.formulaVersion,
       formulaSnapshot: computation.formulaSnapshot,
       inputValues: computation.inputValues,
+      inputUnits: computation.inputUnits,
       computedResults: computation.computedResults,
+      groupId: computation.groupId,
+      outputVariable: computation.outputVariable,
       computedAt: computation.computedAt,
       computedBy: computation.computedByUser,
       formula: {
@@ -545,11 +908,20 @@ export async function updateEstimate(
       label: true,
       status: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
+      clientDecision: true,
+      clientDecisionAt: true,
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -558,6 +930,13 @@ export async function updateEstimate(
           name: true,
         },
       },
+      project: {
+        select: {
+          region: {
+            select: regionalFactorsSelect,
+          },
+        },
+      },
       lineItems: {
         select: {
           id: true,
@@ -565,6 +944,8 @@ export async function updateEstimate(
           quantity: true,
           unitMaterialCost: true,
           unitLaborCost: true,
+          markupRate: true,
+          vatExempt: true,
         },
       },
     },
@@ -580,10 +961,19 @@ export async function updateEstimate(
 
   const markupRate = new Prisma.Decimal(input.markupRate);
   const vatRate = new Prisma.Decimal(input.vatRate);
+  const markupComponents = input.markupComponents
+    ? toMarkupComponents(input.markupComponents)
+    : parseMarkupComponents(estimate.markupComponents);
+  const categoryMarkupRates = input.categoryMarkupRates
+    ? toCategoryMarkupRates(input.categoryMarkupRates)
+    : parseCategoryMarkupRates(estimate.categoryMarkupRates);
   const totals = calculateTotals({
     lineItems: estimate.lineItems,
     markupRate,
+    markupComponents,
+    categoryMarkupRates,
     vatRate,
+    regionalFactors: estimate.project.region,
   });
 
   const updated = await prisma.$transaction(async (tx) => {
@@ -598,8 +988,15 @@ export async function updateEstimate(
       where: { id: estimate.id },
       data: {
         subtotal: totals.subtotal,
+        regionalMaterialFactor: totals.regionalFactors.materialFactor,
+        regionalLaborFactor: totals.regionalFactors.laborFactor,
+        regionalAdjustment: totals.regionalAdjustment,
         markupRate,
+        markupComponents: toMarkupComponentsJson(totals.markupComponents),
+        categoryMarkupRates: toCategoryMarkupRatesJson(categoryMarkupRates),
         markupAmount: totals.markupAmount,
+        vatableSales: totals.vatableSales,
+        vatExemptSales: totals.vatExemptSales,
         vatRate,
         vatAmount: totals.vatAmount,
         totalAmount: totals.totalAmount,
@@ -611,11 +1008,20 @@ export async function updateEstimate(
         label: true,
         status: true,
         subtotal: true,
+        regionalMaterialFactor: true,
+        regionalLaborFactor: true,
+        regionalAdjustment: true,
         markupRate: true,
+        markupComponents: true,
+        categoryMarkupRates: true,
         markupAmount: true,
+        vatableSales: true,
+        vatExemptSales: true,
         vatRate: true,
         vatAmount: true,
         totalAmount: true,
+        clientDecision: true,
+        clientDecisionAt: true,
         createdAt: true,
         updatedAt: true,
         createdByUser: {
@@ -635,16 +1041,22 @@ export async function updateEstimate(
         action: "ESTIMATE_UPDATED",
         beforeState: {
           markupRate: estimate.markupRate.toString(),
+          markupComponents: estimate.markupComponents ?? [],
+          categoryMarkupRates: estimate.categoryMarkupRates ?? {},
           vatRate: estimate.vatRate.toString(),
           subtotal: estimate.subtotal.toString(),
+          regionalAdjustment: estimate.regionalAdjustment.toString(),
           markupAmount: estimate.markupAmount.toString(),
           vatAmount: estimate.vatAmount.toString(),
           totalAmount: estimate.totalAmount.toString(),
         },
         afterState: {
           markupRate: nextEstimate.markupRate.toString(),
+          markupComponents: nextEstimate.markupComponents ?? [],
+          categoryMarkupRates: nextEstimate.categoryMarkupRates ?? {},
           vatRate: nextEstimate.vatRate.toString(),
           subtotal: nextEstimate.subtotal.toString(),
+          regionalAdjustment: nextEstimate.regionalAdjustment.toString(),
           markupAmount: nextEstimate.markupAmount.toString(),
           vatAmount: nextEstimate.vatAmount.toString(),
           totalAmount: nextEstimate.totalAmount.toString(),
@@ -664,11 +1076,20 @@ export async function updateEstimate(
     label: updated.label,
     status: updated.status,
     subtotal: updated.subtotal,
+    regionalMaterialFactor: updated.regionalMaterialFactor,
+    regionalLaborFactor: updated.regionalLaborFactor,
+    regionalAdjustment: updated.regionalAdjustment,
     markupRate: updated.markupRate,
+    markupComponents: updated.markupComponents,
+    categoryMarkupRates: updated.categoryMarkupRates,
     markupAmount: updated.markupAmount,
+    vatableSales: updated.vatableSales,
+    vatExemptSales: updated.vatExemptSales,
     vatRate: updated.vatRate,
     vatAmount: updated.vatAmount,
     totalAmount: updated.totalAmount,
+    clientDecision: updated.clientDecision,
+    clientDecisionAt: updated.clientDecisionAt,
     createdAt: updated.createdAt,
     updatedAt: updated.updatedAt,
     createdBy: updated.createdByUser,
@@ -691,7 +1112,17 @@ export async function duplicateEstimate(
       projectId: true,
       label: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
+      quotationOverrides: true,
       vatRate: true,
+      project: {
+        select: {
+          region: {
+            select: regionalFactorsSelect,
+          },
+        },
+      },
       lineItems: {
         select: {
           id: true,
@@ -702,10 +1133,14 @@ export async function duplicateEstimate(
           unitMaterialCost: true,
           unitLaborCost: true,
           totalCost: true,
+          markupRate: true,
+          vatExempt: true,
           calculationSource: true,
           originalComputedQuantity: true,
           originalComputedCost: true,
           overrideReason: true,
+          priceCatalogItemId: true,
+          priceReferenceKey: true,
         },
       },
     },
@@ -729,12 +1164,17 @@ export async function duplicateEstimate(
       quantity: lineItem.quantity,
       unitMaterialCost: lineItem.unitMaterialCost,
       unitLaborCost: lineItem.unitLaborCost,
+      markupRate: lineItem.markupRate,
+      vatExempt: lineItem.vatExempt,
     }));
 
     const totals = calculateTotals({
       lineItems: lineItemsForTotals,
       markupRate: sourceEstimate.markupRate,
+      markupComponents: parseMarkupComponents(sourceEstimate.markupComponents),
+      categoryMarkupRates: parseCategoryMarkupRates(sourceEstimate.categoryMarkupRates),
       vatRate: sourceEstimate.vatRate,
+      regionalFactors: sourceEstimate.project.region,
     });
 
     const createdEstimate = await tx.estimate.create({
@@ -744,8 +1184,16 @@ export async function duplicateEstimate(
         label: sourceEstimate.label,
         status: EstimateStatus.DRAFT,
         subtotal: totals.subtotal,
+        regionalMaterialFactor: totals.regionalFactors.materialFactor,
+        regionalLaborFactor: totals.regionalFactors.laborFactor,
+        regionalAdjustment: totals.regionalAdjustment,
         markupRate: sourceEstimate.markupRate,
+        markupComponents: toMarkupComponentsJson(totals.markupComponents),
+        categoryMarkupRates: sourceEstimate.categoryMarkupRates ?? {},
+        quotationOverrides: sourceEstimate.quotationOverrides ?? {},
         markupAmount: totals.markupAmount,
+        vatableSales: totals.vatableSales,
+        vatExemptSales: totals.vatExemptSales,
         vatRate: sourceEstimate.vatRate,
         vatAmount: totals.vatAmount,
         totalAmount: totals.totalAmount,
@@ -758,11 +1206,20 @@ export async function duplicateEstimate(
         label: true,
         status: true,
         subtotal: true,
+        regionalMaterialFactor: true,
+        regionalLaborFactor: true,
+        regionalAdjustment: true,
         markupRate: true,
+        markupComponents: true,
+        categoryMarkupRates: true,
         markupAmount: true,
+        vatableSales: true,
+        vatExemptSales: true,
         vatRate: true,
         vatAmount: true,
         totalAmount: true,
+        clientDecision: true,
+        clientDecisionAt: true,
         createdAt: true,
         updatedAt: true,
         createdByUser: {
@@ -785,11 +1242,15 @@ export async function duplicateEstimate(
           unitMaterialCost: lineItem.unitMaterialCost,
           unitLaborCost: lineItem.unitLaborCost,
           totalCost: totals.lineItemTotals[lineItem.id] ?? lineItem.totalCost,
+          markupRate: lineItem.markupRate,
+          vatExempt: lineItem.vatExempt,
           calculationSource: lineItem.calculationSource,
           originalComputedQuantity: lineItem.originalComputedQuantity,
           originalComputedCost: lineItem.originalComputedCost,
           overrideReason: lineItem.overrideReason,
           locked: false,
+          priceCatalogItemId: lineItem.priceCatalogItemId,
+          priceReferenceKey: lineItem.priceReferenceKey,
           createdBy: input.performedBy,
         })),
       });
@@ -824,11 +1285,20 @@ export async function duplicateEstimate(
     label: duplicated.label,
     status: duplicated.status,
     subtotal: duplicated.subtotal,
+    regionalMaterialFactor: duplicated.regionalMaterialFactor,
+    regionalLaborFactor: duplicated.regionalLaborFactor,
+    regionalAdjustment: duplicated.regionalAdjustment,
     markupRate: duplicated.markupRate,
+    markupComponents: duplicated.markupComponents,
+    categoryMarkupRates: duplicated.categoryMarkupRates,
     markupAmount: duplicated.markupAmount,
+    vatableSales: duplicated.vatableSales,
+    vatExemptSales: duplicated.vatExemptSales,
     vatRate: duplicated.vatRate,
     vatAmount: duplicated.vatAmount,
     totalAmount: duplicated.totalAmount,
+    clientDecision: duplicated.clientDecision,
+    clientDecisionAt: duplicated.clientDecisionAt,
     createdAt: duplicated.createdAt,
     updatedAt: duplicated.updatedAt,
     createdBy: duplicated.createdByUser,
@@ -837,6 +1307,27 @@ export async function duplicateEstimate(
 
 export async function finalizeEstimate(
   input: FinalizeEstimateInput,
+): Promise<GetEstimateByIdResult["estimate"]> {
+  return completeFinalization(input, { fromStatus: EstimateStatus.DRAFT });
+}
+
+/** Finalizes an approved estimate; `onFinalized` records the approval in the same transaction. */
+export async function finalizeReviewedEstimate(
+  input: FinalizeEstimateInput,
+  onFinalized: FinalizeEstimateOptions["onFinalized"],
+): Promise<GetEstimateByIdResult["estimate"]> {
+  return completeFinalization(input, { fromStatus: EstimateStatus.FOR_REVIEW, onFinalized });
+}
+
+function finalizationStatusConflict(fromStatus: EstimateStatus): AppError {
+  return fromStatus === EstimateStatus.DRAFT
+    ? new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be finalized")
+    : new AppError(409, "ESTIMATE_NOT_IN_REVIEW", "Only estimates awaiting review can be approved");
+}
+
+async function completeFinalization(
+  input: FinalizeEstimateInput,
+  options: FinalizeEstimateOptions,
 ): Promise<GetEstimateByIdResult["estimate"]> {
   const estimate = await prisma.estimate.findFirst({
     where: {
@@ -853,11 +1344,20 @@ export async function finalizeEstimate(
       label: true,
       status: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
+      clientDecision: true,
+      clientDecisionAt: true,
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -866,6 +1366,13 @@ export async function finalizeEstimate(
           name: true,
         },
       },
+      project: {
+        select: {
+          region: {
+            select: regionalFactorsSelect,
+          },
+        },
+      },
       lineItems: {
         select: {
           id: true,
@@ -873,6 +1380,8 @@ export async function finalizeEstimate(
           quantity: true,
           unitMaterialCost: true,
           unitLaborCost: true,
+          markupRate: true,
+          vatExempt: true,
         },
       },
     },
@@ -882,17 +1391,58 @@ export async function finalizeEstimate(
     throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
   }
 
-  if (estimate.status !== EstimateStatus.DRAFT) {
-    throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be finalized");
+  const policy = await getApprovalPolicy({ organizationId: input.organizationId });
+
+  if (estimate.status !== options.fromStatus) {
+    throw finalizationStatusConflict(options.fromStatus);
   }
 
+  const unresolvedComments = await prisma.estimateComment.count({
+    where: {
+      estimateId: estimate.id,
+      parentId: null,
+      resolvedAt: null,
+    },
+  });
+  assertCommentsAllowFinalization(policy, unresolvedComments);
+
   const totals = calculateTotals({
     lineItems: estimate.lineItems,
     markupRate: estimate.markupRate,
+    markupComponents: parseMarkupComponents(estimate.markupComponents),
+    categoryMarkupRates: parseCategoryMarkupRates(estimate.categoryMarkupRates),
     vatRate: estimate.vatRate,
+    regionalFactors: estimate.project.region,
   });
 
+  // Without a review step, the admin threshold still applies to the recalculated total.
+  if (options.fromStatus === EstimateStatus.DRAFT) {
+    assertCanFinalizeWithoutReview(policy, totals.totalAmount, input.performedByRole);
+  }
+
   const finalized = await prisma.$transaction(async (tx) => {
+    // Conditional update so a concurrent submit, reject or finalize cannot be overwritten.
+    const finalizedCount = await tx.estimate.updateMany({
+      where: { id: estimate.id, status: options.fromStatus },
+      data: {
+        status: EstimateStatus.FINAL,
+        subtotal: totals.subtotal,
+        regionalMaterialFactor: totals.regionalFactors.materialFactor,
+        regionalLaborFactor: totals.regionalFactors.laborFactor,
+        regionalAdjustment: totals.regionalAdjustment,
+        markupComponents: toMarkupComponentsJson(totals.markupComponents),
+        markupAmount: totals.markupAmount,
+        vatableSales: totals.vatableSales,
+        vatExemptSales: totals.vatExemptSales,
+        vatAmount: totals.vatAmount,
+        totalAmount: totals.totalAmount,
+      },
+    });
+
+    if (finalizedCount.count === 0) {
+      throw finalizationStatusConflict(options.fromStatus);
+    }
+
     for (const [lineItemId, totalCost] of Object.entries(totals.lineItemTotals)) {
       await tx.lineItem.update({
         where: { id: lineItemId },
@@ -903,15 +1453,8 @@ export async function finalizeEstimate(
       });
     }
 
-    const updatedEstimate = await tx.estimate.update({
+    const updatedEstimate = await tx.estimate.findUniqueOrThrow({
       where: { id: estimate.id },
-      data: {
-        status: EstimateStatus.FINAL,
-        subtotal: totals.subtotal,
-        markupAmount: totals.markupAmount,
-        vatAmount: totals.vatAmount,
-        totalAmount: totals.totalAmount,
-      },
       select: {
         id: true,
         projectId: true,
@@ -919,11 +1462,20 @@ export async function finalizeEstimate(
         label: true,
         status: true,
         subtotal: true,
+        regionalMaterialFactor: true,
+        regionalLaborFactor: true,
+        regionalAdjustment: true,
         markupRate: true,
+        markupComponents: true,
+        categoryMarkupRates: true,
         markupAmount: true,
+        vatableSales: true,
+        vatExemptSales: true,
         vatRate: true,
         vatAmount: true,
         totalAmount: true,
+        clientDecision: true,
+        clientDecisionAt: true,
         createdAt: true,
         updatedAt: true,
         createdByUser: {
@@ -948,12 +1500,15 @@ export async function finalizeEstimate(
         afterState: {
           status: updatedEstimate.status,
           totalAmount: updatedEstimate.totalAmount.toString(),
+          unresolvedComments,
         },
         performedBy: input.performedBy,
       },
       tx,
     );
 
+    await options.onFinalized?.(tx, updatedEstimate);
+
     return updatedEstimate;
   });
 
@@ -964,11 +1519,20 @@ export async function finalizeEstimate(
     label: finalized.label,
     status: finalized.status,
     subtotal: finalized.subtotal,
+    regionalMaterialFactor: finalized.regionalMaterialFactor,
+    regionalLaborFactor: finalized.regionalLaborFactor,
+    regionalAdjustment: finalized.regionalAdjustment,
     markupRate: finalized.markupRate,
+    markupComponents: finalized.markupComponents,
+    categoryMarkupRates: finalized.categoryMarkupRates,
     markupAmount: finalized.markupAmount,
+    vatableSales: finalized.vatableSales,
+    vatExemptSales: finalized.vatExemptSales,
     vatRate: finalized.vatRate,
     vatAmount: finalized.vatAmount,
     totalAmount: finalized.totalAmount,
+    clientDecision: finalized.clientDecision,
+    clientDecisionAt: finalized.clientDecisionAt,
     createdAt: finalized.createdAt,
     updatedAt: finalized.updatedAt,
     createdBy: finalized.createdByUser,
@@ -993,11 +1557,20 @@ export async function archiveEstimate(
       label: true,
       status: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
+      clientDecision: true,
+      clientDecisionAt: true,
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -1021,11 +1594,20 @@ export async function archiveEstimate(
       label: estimate.label,
       status: estimate.status,
       subtotal: estimate.subtotal,
+      regionalMaterialFactor: estimate.regionalMaterialFactor,
+      regionalLaborFactor: estimate.regionalLaborFactor,
+      regionalAdjustment: estimate.regionalAdjustment,
       markupRate: estimate.markupRate,
+      markupComponents: estimate.markupComponents,
+      categoryMarkupRates: estimate.categoryMarkupRates,
       markupAmount: estimate.markupAmount,
+      vatableSales: estimate.vatableSales,
+      vatExemptSales: estimate.vatExemptSales,
       vatRate: estimate.vatRate,
       vatAmount: estimate.vatAmount,
       totalAmount: estimate.totalAmount,
+      clientDecision: estimate.clientDecision,
+      clientDecisionAt: estimate.clientDecisionAt,
       createdAt: estimate.createdAt,
       updatedAt: estimate.updatedAt,
       createdBy: estimate.createdByUser,
@@ -1042,11 +1624,20 @@ export async function archiveEstimate(
       label: true,
       status: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
+      clientDecision: true,
+      clientDecisionAt: true,
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -1079,11 +1670,20 @@ export async function archiveEstimate(
     label: archived.label,
     status: archived.status,
     subtotal: archived.subtotal,
+    regionalMaterialFactor: archived.regionalMaterialFactor,
+    regionalLaborFactor: archived.regionalLaborFactor,
+    regionalAdjustment: archived.regionalAdjustment,
     markupRate: archived.markupRate,
+    markupComponents: archived.markupComponents,
+    categoryMarkupRates: archived.categoryMarkupRates,
     markupAmount: archived.markupAmount,
+    vatableSales: archived.vatableSales,
+    vatExemptSales: archived.vatExemptSales,
     vatRate: archived.vatRate,
     vatAmount: archived.vatAmount,
     totalAmount: archived.totalAmount,
+    clientDecision: archived.clientDecision,
+    clientDecisionAt: archived.clientDecisionAt,
     createdAt: archived.createdAt,
     updatedAt: archived.updatedAt,
     createdBy: archived.createdByUser,
@@ -1108,11 +1708,20 @@ export async function softDeleteEstimate(
       label: true,
       status: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
+      clientDecision: true,
+      clientDecisionAt: true,
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -1139,11 +1748,20 @@ export async function softDeleteEstimate(
       label: true,
       status: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
+      clientDecision: true,
+      clientDecisionAt: true,
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -1176,11 +1794,20 @@ export async function softDeleteEstimate(
     label: deleted.label,
     status: deleted.status,
     subtotal: deleted.subtotal,
+    regionalMaterialFactor: deleted.regionalMaterialFactor,
+    regionalLaborFactor: deleted.regionalLaborFactor,
+    regionalAdjustment: deleted.regionalAdjustment,
     markupRate: deleted.markupRate,
+    markupComponents: deleted.markupComponents,
+    categoryMarkupRates: deleted.categoryMarkupRates,
     markupAmount: deleted.markupAmount,
+    vatableSales: deleted.vatableSales,
+    vatExemptSales: deleted.vatExemptSales,
     vatRate: deleted.vatRate,
     vatAmount: deleted.vatAmount,
     totalAmount: deleted.totalAmount,
+    clientDecision: deleted.clientDecision,
+    clientDecisionAt: deleted.clientDecisionAt,
     createdAt: deleted.createdAt,
     updatedAt: deleted.updatedAt,
     createdBy: deleted.createdByUser,
@@ -1207,11 +1834,20 @@ export async function restoreEstimate(
       label: true,
       status: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
+      clientDecision: true,
+      clientDecisionAt: true,
       createdAt: true,
       updatedAt: true,
       deletedAt: true,
@@ -1238,11 +1874,20 @@ export async function restoreEstimate(
       label: true,
       status: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
+      clientDecision: true,
+      clientDecisionAt: true,
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -1275,11 +1920,20 @@ export async function restoreEstimate(
     label: restored.label,
     status: restored.status,
     subtotal: restored.subtotal,
+    regionalMaterialFactor: restored.regionalMaterialFactor,
+    regionalLaborFactor: restored.regionalLaborFactor,
+    regionalAdjustment: restored.regionalAdjustment,
     markupRate: restored.markupRate,
+    markupComponents: restored.markupComponents,
+    categoryMarkupRates: restored.categoryMarkupRates,
     markupAmount: restored.markupAmount,
+    vatableSales: restored.vatableSales,
+    vatExemptSales: restored.vatExemptSales,
     vatRate: restored.vatRate,
     vatAmount: restored.vatAmount,
     totalAmount: restored.totalAmount,
+    clientDecision: restored.clientDecision,
+    clientDecisionAt: restored.clientDecisionAt,
     createdAt: restored.createdAt,
     updatedAt: restored.updatedAt,
     createdBy: restored.createdByUser,
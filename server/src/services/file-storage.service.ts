@@ -0,0 +1,88 @@
+import path from "path";
+import { createReadStream } from "fs";
+import { promises as fs } from "fs";
+import type { Readable } from "stream";
+import { AppError } from "../errors/app-error";
+
+/**
+ * Where generated files such as estimate exports are kept. Keys are relative, slash-separated
+ * paths (for example `pdf-jobs/<id>.pdf`) so every instance of the server resolves the same file.
+ */
+export type FileStorage = {
+  put(key: string, body: Buffer): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  createReadStream(key: string): Readable;
+};
+
+let configuredStorage: FileStorage | null = null;
+
+function resolveKeyPath(rootDirectory: string, key: string): string {
+  const filePath = path.resolve(rootDirectory, key);
+  if (!filePath.startsWith(`${rootDirectory}${path.sep}`)) {
+    throw new AppError(400, "FILE_STORAGE_INVALID_KEY", "Invalid storage key");
+  }
+
+  return filePath;
+}
+
+export function createLocalDiskStorage(directory: string): FileStorage {
+  const rootDirectory = path.resolve(directory);
+
+  return {
+    async put(key, body) {
+      const filePath = resolveKeyPath(rootDirectory, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temporary file first so readers never see a partially written export.
+      const temporaryPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(temporaryPath, body);
+      await fs.rename(temporaryPath, filePath);
+    },
+    async exists(key) {
+      try {
+        await fs.access(resolveKeyPath(rootDirectory, key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async read(key) {
+      return fs.readFile(resolveKeyPath(rootDirectory, key));
+    },
+    async delete(key) {
+      await fs.rm(resolveKeyPath(rootDirectory, key), { force: true });
+    },
+    createReadStream(key) {
+      return createReadStream(resolveKeyPath(rootDirectory, key));
+    },
+  };
+}
+
+function createConfiguredStorage(): FileStorage {
+  const driver = process.env.FILE_STORAGE_DRIVER || "local";
+  if (driver !== "local") {
+    throw new AppError(
+      500,
+      "FILE_STORAGE_NOT_CONFIGURED",
+      `Unsupported file storage driver: ${driver}`,
+    );
+  }
+
+  return createLocalDiskStorage(
+    process.env.FILE_STORAGE_DIR || path.resolve(process.cwd(), "storage"),
+  );
+}
+
+export function getFileStorage(): FileStorage {
+  if (!configuredStorage) {
+    configuredStorage = createConfiguredStorage();
+  }
+
+  return configuredStorage;
+}
+
+/** Replaces the storage backend, e.g. with an object store client at startup. */
+export function setFileStorage(storage: FileStorage): void {
+  configuredStorage = storage;
+}
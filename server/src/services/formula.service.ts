@@ -1,15 +1,27 @@
-import { type Category, type Prisma } from "@prisma/client";
+import { type Prisma } from "@prisma/client";
 import { AppError } from "../errors/app-error";
+import {
+  FormulaDependencyError,
+  normalizeFormulaName,
+  resolveFormulaDependencies,
+} from "../formulas/dependencies";
 import { evaluateFormula, FormulaEvaluationError } from "../formulas/evaluator";
+import { listUnits, type UnitDefinition } from "../formulas/units";
 import { FormulaValidationError, validateFormula } from "../formulas/validator";
 import type {
   FormulaDefinition,
+  FormulaDependencyDefinition,
+  FormulaDependencyLookup,
   FormulaExpressionDefinition,
   FormulaInputDefinition,
+  FormulaLibraryEntry,
+  FormulaLookupTables,
   FormulaOutputDefinition,
+  ResolvedFormulaDependencies,
 } from "../formulas/types";
 import { prisma } from "../prisma/client";
 import { logAudit } from "./audit.service";
+import { assertCategoryInOrganization } from "./category.service";
 import { z } from "zod";
 
 type GetFormulasInput = {
@@ -24,7 +36,7 @@ type FormulaSummary = {
   id: string;
   name: string;
   description: string;
-  category: Category;
+  category: string;
   currentVersion: number;
   status: FormulaStatus;
   isActive: boolean;
@@ -59,10 +71,11 @@ type CreateFormulaInput = {
   organizationId: string;
   name: string;
   description: string;
-  category: Category;
+  category: string;
   inputs: FormulaInputDefinition[];
   expressions: FormulaExpressionDefinition[];
   outputs: FormulaOutputDefinition[];
+  dependencies: FormulaDependencyDefinition[];
   performedBy: string;
 };
 
@@ -71,10 +84,11 @@ type UpdateFormulaInput = {
   formulaId: string;
   name: string;
   description: string;
-  category: Category;
+  category: string;
   inputs: FormulaInputDefinition[];
   expressions: FormulaExpressionDefinition[];
   outputs: FormulaOutputDefinition[];
+  dependencies: FormulaDependencyDefinition[];
   performedBy: string;
 };
 
@@ -88,19 +102,21 @@ type TestFormulaInput = {
   organizationId: string;
   formulaId: string;
   inputValues: Record<string, unknown>;
+  inputUnits: Record<string, string>;
 };
 
 export type GetFormulaByIdResult = {
   id: string;
   name: string;
   description: string;
-  category: Category;
+  category: string;
   version: number;
   isActive: boolean;
   previousVersionId: string | null;
   inputs: unknown;
   expressions: unknown;
   outputs: unknown;
+  dependencies: unknown;
   createdAt: Date;
   createdBy: {
     id: string;
@@ -112,7 +128,7 @@ type FormulaVersionItem = {
   id: string;
   name: string;
   description: string;
-  category: Category;
+  category: string;
   version: number;
   isActive: boolean;
   previousVersionId: string | null;
@@ -136,13 +152,14 @@ export type TestFormulaResult = {
   formula: {
     id: string;
     name: string;
-    category: Category;
+    category: string;
     version: number;
     isActive: boolean;
   };
   resolvedInputs: Record<string, number>;
   computedResults: Record<string, number>;
   outputValues: Record<string, number>;
+  dependencyResults: ReturnType<typeof evaluateFormula>["dependencyResults"];
 };
 
 const storedFormulaDefinitionSchema = z.object({
@@ -172,8 +189,25 @@ const storedFormulaDefinitionSchema = z.object({
       }),
     )
     .optional(),
+  dependencies: z
+    .array(
+      z.object({
+        alias: z.string().min(1),
+        formulaName: z.string().min(1),
+        version: z.number().int().optional(),
+        inputBindings: z.record(z.string(), z.string()),
+      }),
+    )
+    .optional(),
 });
 
+const storedLookupTableEntriesSchema = z.array(
+  z.object({
+    key: z.number(),
+    value: z.number(),
+  }),
+);
+
 function mapFormulaValidationError(error: FormulaValidationError): AppError {
   return new AppError(400, error.code, error.message, error.details);
 }
@@ -182,24 +216,28 @@ function buildFormulaDefinition(input: {
   inputs: FormulaInputDefinition[];
   expressions: FormulaExpressionDefinition[];
   outputs: FormulaOutputDefinition[];
+  dependencies: FormulaDependencyDefinition[];
 }): FormulaDefinition {
   return {
     inputs: input.inputs,
     expressions: input.expressions,
     outputs: input.outputs,
+    dependencies: input.dependencies,
   };
 }
 
-function parseStoredFormulaDefinition(formula: {
+export function parseStoredFormulaDefinition(formula: {
   id: string;
   inputs: Prisma.JsonValue;
   expressions: Prisma.JsonValue;
   outputs: Prisma.JsonValue;
+  dependencies: Prisma.JsonValue;
 }): FormulaDefinition {
   const parsed = storedFormulaDefinitionSchema.safeParse({
     inputs: formula.inputs,
     expressions: formula.expressions,
     outputs: formula.outputs,
+    dependencies: formula.dependencies,
   });
 
   if (!parsed.success) {
@@ -211,6 +249,242 @@ function parseStoredFormulaDefinition(formula: {
   return parsed.data;
 }
 
+function collectDependencyNames(definition: FormulaDefinition): string[] {
+  return (definition.dependencies ?? []).map((dependency) =>
+    normalizeFormulaName(dependency.formulaName),
+  );
+}
+
+/**
+ * Loads every formula version transitively referenced by `definition` and returns a lookup over
+ * them. Unpinned references resolve to the latest active version of the named formula.
+ */
+async function loadFormulaDependencyLookup(
+  db: Prisma.TransactionClient,
+  organizationId: string,
+  definition: FormulaDefinition,
+): Promise<FormulaDependencyLookup> {
+  const entries: Array<FormulaLibraryEntry & { isActive: boolean; isLatest: boolean }> = [];
+  const loadedNames = new Set<string>();
+  let pendingNames = [...new Set(collectDependencyNames(definition))];
+
+  while (pendingNames.length > 0) {
+    for (const name of pendingNames) {
+      loadedNames.add(name);
+    }
+
+    const formulas = await db.formula.findMany({
+      where: {
+        organizationId,
+        OR: pendingNames.map((name) => ({
+          name: {
+            equals: name,
+            mode: "insensitive" as const,
+          },
+        })),
+      },
+      select: {
+        id: true,
+        name: true,
+        version: true,
+        isActive: true,
+        inputs: true,
+        expressions: true,
+        outputs: true,
+        dependencies: true,
+        nextVersions: {
+          select: { id: true },
+          take: 1,
+        },
+      },
+    });
+
+    const nextNames = new Set<string>();
+    for (const formula of formulas) {
+      const formulaDefinition = parseStoredFormulaDefinition(formula);
+      entries.push({
+        id: formula.id,
+        name: formula.name,
+        version: formula.version,
+        definition: formulaDefinition,
+        isActive: formula.isActive,
+        isLatest: formula.nextVersions.length === 0,
+      });
+
+      for (const name of collectDependencyNames(formulaDefinition)) {
+        if (!loadedNames.has(name)) {
+          nextNames.add(name);
+        }
+      }
+    }
+
+    pendingNames = [...nextNames];
+  }
+
+  return (reference) => {
+    const name = normalizeFormulaName(reference.formulaName);
+    const candidates = entries.filter((entry) => normalizeFormulaName(entry.name) === name);
+
+    if (reference.version !== undefined) {
+      return candidates.find((entry) => entry.version === reference.version);
+    }
+
+    return candidates.find((entry) => entry.isLatest && entry.isActive);
+  };
+}
+
+/**
+ * Revalidates the active formulas that reach `changedNames` through unpinned references, directly
+ * or through other formulas. Runs after a change is written inside its transaction, so the lookup
+ * already sees the new latest version; throwing rolls the change back and lists what it breaks.
+ */
+async function assertDependentFormulasRemainValid(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  changedNames: string[],
+): Promise<void> {
+  const candidates = await tx.formula.findMany({
+    where: {
+      organizationId,
+      isActive: true,
+      nextVersions: { none: {} },
+    },
+    select: {
+      id: true,
+      name: true,
+      version: true,
+      inputs: true,
+      expressions: true,
+      outputs: true,
+      dependencies: true,
+    },
+  });
+
+  const affectedNames = new Set(changedNames.map(normalizeFormulaName));
+  const dependents: typeof candidates = [];
+  let foundDependent = true;
+
+  while (foundDependent) {
+    foundDependent = false;
+    for (const candidate of candidates) {
+      const candidateName = normalizeFormulaName(candidate.name);
+      if (dependents.includes(candidate) || affectedNames.has(candidateName)) {
+        continue;
+      }
+
+      const references = parseStoredFormulaDefinition(candidate).dependencies ?? [];
+      const isDependent = references.some(
+        (reference) =>
+          reference.version === undefined &&
+          affectedNames.has(normalizeFormulaName(reference.formulaName)),
+      );
+
+      if (isDependent) {
+        dependents.push(candidate);
+        affectedNames.add(candidateName);
+        foundDependent = true;
+      }
+    }
+  }
+
+  if (dependents.length === 0) {
+    return;
+  }
+
+  const lookupTables = await loadFormulaLookupTables(tx, organizationId);
+  const brokenDependents: Array<{
+    id: string;
+    name: string;
+    version: number;
+    code: string;
+    message: string;
+  }> = [];
+
+  for (const dependent of dependents) {
+    const definition = parseStoredFormulaDefinition(dependent);
+    const lookup = await loadFormulaDependencyLookup(tx, organizationId, definition);
+
+    try {
+      validateFormula(definition, { formulaName: dependent.name, lookup, lookupTables });
+    } catch (error) {
+      if (!(error instanceof FormulaValidationError)) {
+        throw error;
+      }
+
+      brokenDependents.push({
+        id: dependent.id,
+        name: dependent.name,
+        version: dependent.version,
+        code: error.code,
+        message: error.message,
+      });
+    }
+  }
+
+  if (brokenDependents.length > 0) {
+    throw new AppError(
+      409,
+      "FORMULA_DEPENDENTS_BROKEN",
+      `This change breaks formulas that depend on it: ${brokenDependents
+        .map((dependent) => dependent.name)
+        .join(", ")}`,
+      { dependents: brokenDependents },
+    );
+  }
+}
+
+export async function resolveStoredFormulaDependencies(
+  db: Prisma.TransactionClient,
+  organizationId: string,
+  formula: {
+    name: string;
+    definition: FormulaDefinition;
+  },
+): Promise<ResolvedFormulaDependencies> {
+  const lookup = await loadFormulaDependencyLookup(db, organizationId, formula.definition);
+
+  try {
+    return resolveFormulaDependencies(formula.definition, lookup, formula.name);
+  } catch (error) {
+    if (error instanceof FormulaDependencyError) {
+      throw new AppError(409, error.code, error.message, error.details);
+    }
+
+    throw error;
+  }
+}
+
+export async function loadFormulaLookupTables(
+  db: Prisma.TransactionClient,
+  organizationId: string,
+): Promise<FormulaLookupTables> {
+  const lookupTables = await db.lookupTable.findMany({
+    where: { organizationId },
+    select: {
+      id: true,
+      name: true,
+      matchMode: true,
+      entries: true,
+    },
+  });
+
+  return lookupTables.reduce<FormulaLookupTables>((accumulator, lookupTable) => {
+    const parsed = storedLookupTableEntriesSchema.safeParse(lookupTable.entries);
+    if (!parsed.success) {
+      throw new AppError(500, "LOOKUP_TABLE_INVALID", "Stored lookup table is invalid", {
+        lookupTableId: lookupTable.id,
+      });
+    }
+
+    accumulator[lookupTable.name] = {
+      name: lookupTable.name,
+      matchMode: lookupTable.matchMode,
+      entries: parsed.data,
+    };
+    return accumulator;
+  }, {});
+}
+
 async function ensureLatestFormulaNameIsUnique(input: {
   tx: Prisma.TransactionClient;
   organizationId: string;
@@ -254,10 +528,13 @@ export async function createFormula(input: CreateFormulaInput): Promise<CreateFo
     inputs: input.inputs,
     expressions: input.expressions,
     outputs: input.outputs,
+    dependencies: input.dependencies,
   });
+  const lookup = await loadFormulaDependencyLookup(prisma, input.organizationId, formulaDefinition);
+  const lookupTables = await loadFormulaLookupTables(prisma, input.organizationId);
 
   try {
-    validateFormula(formulaDefinition);
+    validateFormula(formulaDefinition, { formulaName: name, lookup, lookupTables });
   } catch (error) {
     if (error instanceof FormulaValidationError) {
       throw mapFormulaValidationError(error);
@@ -273,6 +550,11 @@ export async function createFormula(input: CreateFormulaInput): Promise<CreateFo
       name,
     });
 
+    await assertCategoryInOrganization(tx, {
+      organizationId: input.organizationId,
+      code: input.category,
+    });
+
     const formula = await tx.formula.create({
       data: {
         organizationId: input.organizationId,
@@ -283,6 +565,7 @@ export async function createFormula(input: CreateFormulaInput): Promise<CreateFo
         inputs: formulaDefinition.inputs as Prisma.InputJsonValue,
         expressions: formulaDefinition.expressions as Prisma.InputJsonValue,
         outputs: formulaDefinition.outputs ?? ([] as FormulaOutputDefinition[]),
+        dependencies: (formulaDefinition.dependencies ?? []) as Prisma.InputJsonValue,
         isActive: true,
         createdBy: input.performedBy,
         previousVersionId: null,
@@ -298,6 +581,7 @@ export async function createFormula(input: CreateFormulaInput): Promise<CreateFo
         inputs: true,
         expressions: true,
         outputs: true,
+        dependencies: true,
         createdAt: true,
         createdByUser: {
           select: {
@@ -325,6 +609,7 @@ export async function createFormula(input: CreateFormulaInput): Promise<CreateFo
           inputs: formula.inputs,
           expressions: formula.expressions,
           outputs: formula.outputs,
+          dependencies: formula.dependencies,
         },
         performedBy: input.performedBy,
       },
@@ -345,6 +630,7 @@ export async function createFormula(input: CreateFormulaInput): Promise<CreateFo
     inputs: created.inputs,
     expressions: created.expressions,
     outputs: created.outputs,
+    dependencies: created.dependencies,
     createdAt: created.createdAt,
     createdBy: created.createdByUser,
   };
@@ -357,10 +643,13 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
     inputs: input.inputs,
     expressions: input.expressions,
     outputs: input.outputs,
+    dependencies: input.dependencies,
   });
+  const lookup = await loadFormulaDependencyLookup(prisma, input.organizationId, formulaDefinition);
+  const lookupTables = await loadFormulaLookupTables(prisma, input.organizationId);
 
   try {
-    validateFormula(formulaDefinition);
+    validateFormula(formulaDefinition, { formulaName: name, lookup, lookupTables });
   } catch (error) {
     if (error instanceof FormulaValidationError) {
       throw mapFormulaValidationError(error);
@@ -386,6 +675,7 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
         inputs: true,
         expressions: true,
         outputs: true,
+        dependencies: true,
       },
     });
 
@@ -420,6 +710,7 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
           inputs: true,
           expressions: true,
           outputs: true,
+          dependencies: true,
         },
       });
 
@@ -445,6 +736,13 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
       excludeFormulaId: latestVersion.id,
     });
 
+    if (input.category !== latestVersion.category) {
+      await assertCategoryInOrganization(tx, {
+        organizationId: input.organizationId,
+        code: input.category,
+      });
+    }
+
     const formula = await tx.formula.create({
       data: {
         organizationId: input.organizationId,
@@ -455,6 +753,7 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
         inputs: formulaDefinition.inputs as Prisma.InputJsonValue,
         expressions: formulaDefinition.expressions as Prisma.InputJsonValue,
         outputs: formulaDefinition.outputs as Prisma.InputJsonValue,
+        dependencies: (formulaDefinition.dependencies ?? []) as Prisma.InputJsonValue,
         isActive: latestVersion.isActive,
         createdBy: input.performedBy,
         previousVersionId: latestVersion.id,
@@ -470,6 +769,7 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
         inputs: true,
         expressions: true,
         outputs: true,
+        dependencies: true,
         createdAt: true,
         createdByUser: {
           select: {
@@ -480,6 +780,11 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
       },
     });
 
+    await assertDependentFormulasRemainValid(tx, input.organizationId, [
+      latestVersion.name,
+      formula.name,
+    ]);
+
     await logAudit(
       {
         organizationId: input.organizationId,
@@ -497,6 +802,7 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
           inputs: latestVersion.inputs,
           expressions: latestVersion.expressions,
           outputs: latestVersion.outputs,
+          dependencies: latestVersion.dependencies,
         },
         afterState: {
           id: formula.id,
@@ -509,6 +815,7 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
           inputs: formula.inputs,
           expressions: formula.expressions,
           outputs: formula.outputs,
+          dependencies: formula.dependencies,
         },
         performedBy: input.performedBy,
       },
@@ -529,6 +836,7 @@ export async function updateFormula(input: UpdateFormulaInput): Promise<UpdateFo
     inputs: createdVersion.inputs,
     expressions: createdVersion.expressions,
     outputs: createdVersion.outputs,
+    dependencies: createdVersion.dependencies,
     createdAt: createdVersion.createdAt,
     createdBy: createdVersion.createdByUser,
   };
@@ -554,6 +862,7 @@ export async function deactivateFormula(
         inputs: true,
         expressions: true,
         outputs: true,
+        dependencies: true,
         createdAt: true,
         createdByUser: {
           select: {
@@ -595,6 +904,7 @@ export async function deactivateFormula(
           inputs: true,
           expressions: true,
           outputs: true,
+          dependencies: true,
           createdAt: true,
           createdByUser: {
             select: {
@@ -638,6 +948,7 @@ export async function deactivateFormula(
         inputs: true,
         expressions: true,
         outputs: true,
+        dependencies: true,
         createdAt: true,
         createdByUser: {
           select: {
@@ -648,6 +959,8 @@ export async function deactivateFormula(
       },
     });
 
+    await assertDependentFormulasRemainValid(tx, input.organizationId, [deactivated.name]);
+
     await logAudit(
       {
         organizationId: input.organizationId,
@@ -665,6 +978,7 @@ export async function deactivateFormula(
           inputs: latestVersion.inputs,
           expressions: latestVersion.expressions,
           outputs: latestVersion.outputs,
+          dependencies: latestVersion.dependencies,
         },
         afterState: {
           id: deactivated.id,
@@ -677,6 +991,7 @@ export async function deactivateFormula(
           inputs: deactivated.inputs,
           expressions: deactivated.expressions,
           outputs: deactivated.outputs,
+          dependencies: deactivated.dependencies,
         },
         performedBy: input.performedBy,
       },
@@ -697,6 +1012,7 @@ export async function deactivateFormula(
     inputs: updatedVersion.inputs,
     expressions: updatedVersion.expressions,
     outputs: updatedVersion.outputs,
+    dependencies: updatedVersion.dependencies,
     createdAt: updatedVersion.createdAt,
     createdBy: updatedVersion.createdByUser,
   };
@@ -717,6 +1033,7 @@ export async function testFormula(input: TestFormulaInput): Promise<TestFormulaR
       inputs: true,
       expressions: true,
       outputs: true,
+      dependencies: true,
     },
   });
 
@@ -725,9 +1042,18 @@ export async function testFormula(input: TestFormulaInput): Promise<TestFormulaR
   }
 
   const formulaDefinition = parseStoredFormulaDefinition(formula);
+  const dependencies = await resolveStoredFormulaDependencies(prisma, input.organizationId, {
+    name: formula.name,
+    definition: formulaDefinition,
+  });
+  const lookupTables = await loadFormulaLookupTables(prisma, input.organizationId);
 
   try {
-    const result = evaluateFormula(formulaDefinition, input.inputValues);
+    const result = evaluateFormula(formulaDefinition, input.inputValues, {
+      dependencies,
+      lookupTables,
+      inputUnits: input.inputUnits,
+    });
     return {
       formula: {
         id: formula.id,
@@ -739,6 +1065,7 @@ export async function testFormula(input: TestFormulaInput): Promise<TestFormulaR
       resolvedInputs: result.resolvedInputs,
       computedResults: result.computedResults,
       outputValues: result.outputValues,
+      dependencyResults: result.dependencyResults,
     };
   } catch (error) {
     if (error instanceof FormulaEvaluationError) {
@@ -749,6 +1076,10 @@ export async function testFormula(input: TestFormulaInput): Promise<TestFormulaR
   }
 }
 
+export function getFormulaUnits(): { items: UnitDefinition[] } {
+  return { items: listUnits() };
+}
+
 export async function getFormulas(input: GetFormulasInput): Promise<GetFormulasResult> {
   const where = {
     organizationId: input.organizationId,
@@ -822,6 +1153,7 @@ export async function getFormulaById(input: GetFormulaByIdInput): Promise<GetFor
       inputs: true,
       expressions: true,
       outputs: true,
+      dependencies: true,
       createdAt: true,
       createdByUser: {
         select: {
@@ -847,6 +1179,7 @@ export async function getFormulaById(input: GetFormulaByIdInput): Promise<GetFor
     inputs: formula.inputs,
     expressions: formula.expressions,
     outputs: formula.outputs,
+    dependencies: formula.dependencies,
     createdAt: formula.createdAt,
     createdBy: formula.createdByUser,
   };
@@ -905,7 +1238,7 @@ export async function getFormulaVersions(
     id: string;
     name: string;
     description: string;
-    category: Category;
+    category: string;
     version: number;
     isActive: boolean;
     previousVersionId: string | null;
@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { AppError } from "../errors/app-error";
+import {
+  parseCsv,
+  parseImportFile,
+  resolveColumnMapping,
+  validateImportRows,
+} from "./line-item-import.service";
+
+const categoryCodes = new Map([
+  ["concrete_works", "CONCRETE_WORKS"],
+  ["concrete works", "CONCRETE_WORKS"],
+]);
+
+function csvFile(content: string): { originalname: string; buffer: Buffer } {
+  return { originalname: "items.csv", buffer: Buffer.from(content, "utf8") };
+}
+
+test("parseCsv handles quoted commas, doubled quotes, line breaks and CRLF", () => {
+  const rows = parseCsv('a,b,c\r\n"1,000","say ""hi""","two\nlines"\r\nlast,,');
+
+  assert.deepEqual(rows, [
+    ["a", "b", "c"],
+    ["1,000", 'say "hi"', "two\nlines"],
+    ["last", "", ""],
+  ]);
+});
+
+test("parseImportFile strips the BOM, skips blank rows and keeps spreadsheet row numbers", async () => {
+  const sheet = await parseImportFile(
+    csvFile("\uFEFF\n Category ,Description\n\nCONCRETE_WORKS,Slab\n,\nCONCRETE_WORKS,Footing\n"),
+  );
+
+  assert.deepEqual(sheet.headers, ["Category", "Description"]);
+  assert.deepEqual(
+    sheet.rows.map((row) => row.rowNumber),
+    [4, 6],
+  );
+});
+
+test("parseImportFile rejects a file without a header row", async () => {
+  await assert.rejects(
+    parseImportFile(csvFile("\n,,\n")),
+    (error: unknown) => error instanceof AppError && error.code === "IMPORT_FILE_EMPTY",
+  );
+});
+
+test("resolveColumnMapping matches header aliases and explicit mappings", () => {
+  const columns = resolveColumnMapping(
+    ["Trade", "Particulars", "Qty", "UOM", "Material Cost", "Labour", "Our Code"],
+    { priceReferenceKey: "our code" },
+  );
+
+  assert.equal(columns.get("category"), 0);
+  assert.equal(columns.get("description"), 1);
+  assert.equal(columns.get("quantity"), 2);
+  assert.equal(columns.get("unit"), 3);
+  assert.equal(columns.get("unitMaterialCost"), 4);
+  assert.equal(columns.get("unitLaborCost"), 5);
+  assert.equal(columns.get("priceReferenceKey"), 6);
+});
+
+test("resolveColumnMapping reports required fields without a column", () => {
+  assert.throws(
+    () => resolveColumnMapping(["Category", "Description", "Qty"], undefined),
+    (error: unknown) =>
+      error instanceof AppError &&
+      error.code === "IMPORT_COLUMNS_MISSING" &&
+      error.message.includes("unit, unitMaterialCost, unitLaborCost"),
+  );
+});
+
+test("resolveColumnMapping rejects a mapping to a column that is not in the file", () => {
+  assert.throws(
+    () =>
+      resolveColumnMapping(["Category", "Description", "Qty", "Unit", "Material", "Labor"], {
+        markupRate: "Markup %",
+      }),
+    (error: unknown) => error instanceof AppError && error.code === "IMPORT_COLUMN_NOT_FOUND",
+  );
+});
+
+test("validateImportRows converts currency, percentages, booleans and category names", async () => {
+  const sheet = await parseImportFile(
+    csvFile(
+      [
+        "Category,Description,Qty,Unit,Material,Labor,Markup,VAT Exempt",
+        'Concrete Works,Slab,"1,250.5",m3,"₱4,500.00",PHP 800,15%,yes',
+      ].join("\n"),
+    ),
+  );
+  const columns = resolveColumnMapping(sheet.headers, undefined);
+
+  const result = validateImportRows(sheet.rows, columns, categoryCodes);
+
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.validRows.length, 1);
+  assert.equal(result.validRows[0].category, "CONCRETE_WORKS");
+  assert.equal(result.validRows[0].quantity, 1250.5);
+  assert.equal(result.validRows[0].unitMaterialCost, 4500);
+  assert.equal(result.validRows[0].unitLaborCost, 800);
+  assert.equal(result.validRows[0].markupRate, 15);
+  assert.equal(result.validRows[0].vatExempt, true);
+});
+
+test("validateImportRows reports each bad cell with its row and skips the row", async () => {
+  const sheet = await parseImportFile(
+    csvFile(
+      [
+        "Category,Description,Qty,Unit,Material,Labor,VAT Exempt",
+        "CONCRETE_WORKS,Slab,10,m3,4500,800,no",
+        "PLUMBING,Pipes,abc,m,100,50,maybe",
+        "CONCRETE_WORKS,,2,m3,-5,0,",
+      ].join("\n"),
+    ),
+  );
+  const columns = resolveColumnMapping(sheet.headers, undefined);
+
+  const result = validateImportRows(sheet.rows, columns, categoryCodes);
+
+  assert.equal(result.validRows.length, 1);
+  assert.deepEqual(
+    result.errors.map((error) => [error.row, error.field]),
+    [
+      [3, "category"],
+      [3, "quantity"],
+      [3, "vatExempt"],
+      [4, "description"],
+      [4, "unitMaterialCost"],
+    ],
+  );
+  assert.equal(result.errors[0].message, "Unknown category PLUMBING");
+  assert.equal(result.errors[3].message, "description is required");
+});
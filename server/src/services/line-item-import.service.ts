@@ -0,0 +1,493 @@
+import { CalculationSource, EstimateStatus, Prisma } from "@prisma/client";
+import ExcelJS from "exceljs";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import {
+  createEstimateLineItemBodySchema,
+  type CreateEstimateLineItemBodyInput,
+  type LineItemImportFieldInput,
+} from "../schemas/line-item.schemas";
+import { logAudit } from "./audit.service";
+import { loadOrganizationCategories } from "./category.service";
+import { recalculateEstimateTotals } from "./line-item.service";
+
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+export const IMPORT_FILE_EXTENSIONS = ["csv", "xlsx"];
+const MAX_IMPORT_ROWS = 2000;
+
+type ImportLineItemsInput = {
+  organizationId: string;
+  estimateId: string;
+  file: {
+    originalname: string;
+    buffer: Buffer;
+  };
+  mapping?: Partial<Record<LineItemImportFieldInput, string>>;
+  sheet?: string;
+  dryRun: boolean;
+  performedBy: string;
+};
+
+type ParsedSheet = {
+  headers: string[];
+  rows: Array<{ rowNumber: number; values: string[] }>;
+};
+
+export type LineItemImportRowError = {
+  row: number;
+  field: LineItemImportFieldInput | null;
+  message: string;
+};
+
+export type LineItemImportResult = {
+  fileName: string;
+  dryRun: boolean;
+  headers: string[];
+  mapping: Partial<Record<LineItemImportFieldInput, string>>;
+  totalRows: number;
+  validRows: number;
+  importedCount: number;
+  errors: LineItemImportRowError[];
+  estimate: Awaited<ReturnType<typeof recalculateEstimateTotals>> | null;
+};
+
+const REQUIRED_FIELDS: LineItemImportFieldInput[] = [
+  "category",
+  "description",
+  "quantity",
+  "unit",
+  "unitMaterialCost",
+  "unitLaborCost",
+];
+
+/** Header spellings recognised when no explicit mapping is given, compared case-insensitively. */
+const FIELD_HEADER_ALIASES: Record<LineItemImportFieldInput, string[]> = {
+  category: ["category", "categorycode", "trade", "division"],
+  description: ["description", "item", "itemdescription", "particulars", "scopeofwork"],
+  quantity: ["quantity", "qty"],
+  unit: ["unit", "units", "uom"],
+  unitMaterialCost: ["unitmaterialcost", "materialcost", "material", "materialunitcost"],
+  unitLaborCost: ["unitlaborcost", "laborcost", "labor", "labour", "labourcost", "laborunitcost"],
+  markupRate: ["markuprate", "markup"],
+  vatExempt: ["vatexempt", "vatexemption"],
+  priceReferenceKey: ["pricereferencekey", "pricekey", "referencekey", "itemcode"],
+};
+
+const NUMERIC_FIELDS = new Set<LineItemImportFieldInput>([
+  "quantity",
+  "unitMaterialCost",
+  "unitLaborCost",
+  "markupRate",
+]);
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** RFC 4180 parsing: quoted fields may contain commas, doubled quotes and line breaks. */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < content.length; index += 1) {
+    const character = content[index];
+
+    if (inQuotes) {
+      if (character === '"' && content[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (character === '"') {
+        inQuotes = false;
+      } else {
+        field += character;
+      }
+      continue;
+    }
+
+    if (character === '"') {
+      inQuotes = true;
+    } else if (character === ",") {
+      row.push(field);
+      field = "";
+    } else if (character === "\n" || character === "\r") {
+      if (character === "\r" && content[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += character;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function toCellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+
+  if (typeof value !== "object") {
+    return String(value);
+  }
+
+  if ("richText" in value) {
+    return value.richText.map((part) => part.text).join("");
+  }
+
+  if ("result" in value) {
+    return value.result === undefined ? "" : toCellText(value.result as ExcelJS.CellValue);
+  }
+
+  if ("text" in value) {
+    return String(value.text);
+  }
+
+  return "";
+}
+
+async function parseXlsx(buffer: Buffer, sheetName?: string): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+  } catch {
+    throw new AppError(400, "IMPORT_FILE_INVALID", "The file is not a readable Excel workbook");
+  }
+
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new AppError(
+      400,
+      "IMPORT_SHEET_NOT_FOUND",
+      sheetName ? `Worksheet ${sheetName} not found` : "The workbook has no worksheets",
+    );
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const values: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column += 1) {
+      values.push(toCellText(row.getCell(column).value));
+    }
+    rows[rowNumber - 1] = values;
+  });
+
+  return Array.from(rows, (values) => values ?? []);
+}
+
+/**
+ * Reads the first non-empty row as headers. Row numbers in the result are the spreadsheet's own,
+ * so error reports point at the row the user sees.
+ */
+export async function parseImportFile(
+  file: ImportLineItemsInput["file"],
+  sheetName?: string,
+): Promise<ParsedSheet> {
+  const extension = file.originalname.split(".").pop()?.toLowerCase();
+  const table =
+    extension === "xlsx"
+      ? await parseXlsx(file.buffer, sheetName)
+      : parseCsv(file.buffer.toString("utf8").replace(/^\uFEFF/, ""));
+
+  const isBlank = (values: string[]): boolean => values.every((value) => value.trim() === "");
+  const headerIndex = table.findIndex((values) => !isBlank(values));
+  if (headerIndex === -1) {
+    throw new AppError(400, "IMPORT_FILE_EMPTY", "The file has no header row");
+  }
+
+  const rows = table
+    .slice(headerIndex + 1)
+    .map((values, offset) => ({ rowNumber: headerIndex + offset + 2, values }))
+    .filter((row) => !isBlank(row.values));
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new AppError(
+      400,
+      "IMPORT_TOO_MANY_ROWS",
+      `Import at most ${MAX_IMPORT_ROWS} rows at a time`,
+    );
+  }
+
+  return {
+    headers: table[headerIndex].map((header) => header.trim()),
+    rows,
+  };
+}
+
+export function resolveColumnMapping(
+  headers: string[],
+  mapping: Partial<Record<LineItemImportFieldInput, string>> | undefined,
+): Map<LineItemImportFieldInput, number> {
+  const columns = new Map<LineItemImportFieldInput, number>();
+  const normalizedHeaders = headers.map(normalizeHeader);
+
+  for (const [field, aliases] of Object.entries(FIELD_HEADER_ALIASES) as Array<
+    [LineItemImportFieldInput, string[]]
+  >) {
+    const mappedHeader = mapping?.[field];
+    if (mappedHeader !== undefined) {
+      const index = normalizedHeaders.indexOf(normalizeHeader(mappedHeader));
+      if (index === -1) {
+        throw new AppError(
+          400,
+          "IMPORT_COLUMN_NOT_FOUND",
+          `Column ${mappedHeader} mapped to ${field} is not in the file`,
+        );
+      }
+      columns.set(field, index);
+      continue;
+    }
+
+    const index = normalizedHeaders.findIndex((header) => aliases.includes(header));
+    if (index !== -1) {
+      columns.set(field, index);
+    }
+  }
+
+  const missing = REQUIRED_FIELDS.filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    throw new AppError(
+      400,
+      "IMPORT_COLUMNS_MISSING",
+      `Map a column to each of: ${missing.join(", ")}`,
+      { missingFields: missing, headers },
+    );
+  }
+
+  return columns;
+}
+
+function parseNumber(value: string): number | null {
+  // Spreadsheets exported for print often carry currency symbols and thousands separators.
+  const cleaned = value
+    .replace(/[₱,\s]/g, "")
+    .replace(/^php/i, "")
+    .replace(/%$/, "");
+  const parsed = Number(cleaned);
+  return cleaned !== "" && Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "y", "1", "x"].includes(normalized)) {
+    return true;
+  }
+
+  if (["false", "no", "n", "0"].includes(normalized)) {
+    return false;
+  }
+
+  return null;
+}
+
+/**
+ * Converts and validates each row against the line item schema. A row with any error is left out
+ * of `validRows`; every error carries the spreadsheet row number and the offending field.
+ */
+export function validateImportRows(
+  rows: ParsedSheet["rows"],
+  columns: Map<LineItemImportFieldInput, number>,
+  categoryCodes: Map<string, string>,
+): { validRows: CreateEstimateLineItemBodyInput[]; errors: LineItemImportRowError[] } {
+  const errors: LineItemImportRowError[] = [];
+  const validRows: CreateEstimateLineItemBodyInput[] = [];
+
+  for (const row of rows) {
+    const raw: Record<string, unknown> = {};
+    const rowErrors: LineItemImportRowError[] = [];
+
+    for (const [field, index] of columns) {
+      const cell = (row.values[index] ?? "").trim();
+      if (cell === "") {
+        continue;
+      }
+
+      if (field === "category") {
+        const code = categoryCodes.get(cell.toLowerCase());
+        if (!code) {
+          rowErrors.push({ row: row.rowNumber, field, message: `Unknown category ${cell}` });
+        }
+        raw.category = code;
+      } else if (NUMERIC_FIELDS.has(field)) {
+        const parsed = parseNumber(cell);
+        if (parsed === null) {
+          rowErrors.push({ row: row.rowNumber, field, message: `${cell} is not a number` });
+        }
+        raw[field] = parsed ?? undefined;
+      } else if (field === "vatExempt") {
+        const parsed = parseBoolean(cell);
+        if (parsed === null) {
+          rowErrors.push({ row: row.rowNumber, field, message: `${cell} is not yes or no` });
+        }
+        raw.vatExempt = parsed ?? undefined;
+      } else {
+        raw[field] = cell;
+      }
+    }
+
+    const parsed = createEstimateLineItemBodySchema.safeParse(raw);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as LineItemImportFieldInput | undefined;
+        // Cells that failed to convert above already have a clearer message.
+        if (rowErrors.some((error) => error.field === field)) {
+          continue;
+        }
+
+        rowErrors.push({
+          row: row.rowNumber,
+          field: field ?? null,
+          message: field && raw[field] === undefined ? `${field} is required` : issue.message,
+        });
+      }
+    }
+
+    if (rowErrors.length > 0 || !parsed.success) {
+      errors.push(...rowErrors);
+      continue;
+    }
+
+    validRows.push(parsed.data);
+  }
+
+  return { validRows, errors };
+}
+
+export async function importEstimateLineItems(
+  input: ImportLineItemsInput,
+): Promise<LineItemImportResult> {
+  const estimate = await prisma.estimate.findFirst({
+    where: {
+      id: input.estimateId,
+      deletedAt: null,
+      project: {
+        organizationId: input.organizationId,
+      },
+    },
+    select: {
+      id: true,
+      status: true,
+    },
+  });
+
+  if (!estimate) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+  }
+
+  if (estimate.status !== EstimateStatus.DRAFT) {
+    throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
+  }
+
+  const sheet = await parseImportFile(input.file, input.sheet);
+  const columns = resolveColumnMapping(sheet.headers, input.mapping);
+
+  // Category cells may hold either the code or the display name.
+  const categories = await loadOrganizationCategories(prisma, input.organizationId);
+  const categoryCodes = new Map<string, string>();
+  for (const category of categories) {
+    categoryCodes.set(category.code.toLowerCase(), category.code);
+    categoryCodes.set(category.name.toLowerCase(), category.code);
+  }
+
+  const { validRows: validatedRows, errors } = validateImportRows(
+    sheet.rows,
+    columns,
+    categoryCodes,
+  );
+  const validRows: Prisma.LineItemCreateManyInput[] = validatedRows.map((row) => ({
+    estimateId: estimate.id,
+    category: row.category,
+    description: row.description,
+    quantity: new Prisma.Decimal(row.quantity),
+    unit: row.unit,
+    unitMaterialCost: new Prisma.Decimal(row.unitMaterialCost),
+    unitLaborCost: new Prisma.Decimal(row.unitLaborCost),
+    totalCost: new Prisma.Decimal(0),
+    markupRate:
+      row.markupRate !== undefined && row.markupRate !== null
+        ? new Prisma.Decimal(row.markupRate)
+        : null,
+    vatExempt: row.vatExempt ?? false,
+    calculationSource: CalculationSource.MANUAL,
+    locked: false,
+    priceReferenceKey: row.priceReferenceKey ?? null,
+    createdBy: input.performedBy,
+  }));
+
+  const mapping = Object.fromEntries(
+    Array.from(columns, ([field, index]) => [field, sheet.headers[index]]),
+  ) as Partial<Record<LineItemImportFieldInput, string>>;
+  const result: LineItemImportResult = {
+    fileName: input.file.originalname,
+    dryRun: input.dryRun,
+    headers: sheet.headers,
+    mapping,
+    totalRows: sheet.rows.length,
+    validRows: validRows.length,
+    importedCount: 0,
+    errors,
+    estimate: null,
+  };
+
+  if (input.dryRun || validRows.length === 0) {
+    return result;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Re-check inside the transaction so a finalize racing the upload cannot be bypassed.
+    const current = await tx.estimate.findUniqueOrThrow({
+      where: { id: estimate.id },
+      select: { status: true, markupRate: true, vatRate: true },
+    });
+    if (current.status !== EstimateStatus.DRAFT) {
+      throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
+    }
+
+    const created = await tx.lineItem.createMany({ data: validRows });
+    const updatedEstimate = await recalculateEstimateTotals(
+      tx,
+      estimate.id,
+      current.markupRate,
+      current.vatRate,
+    );
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "LINE_ITEMS_IMPORTED",
+        beforeState: {},
+        afterState: {
+          fileName: input.file.originalname,
+          mapping,
+          importedCount: created.count,
+          skippedRowCount: new Set(errors.map((error) => error.row)).size,
+          totalAmount: updatedEstimate.totalAmount.toString(),
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return {
+      ...result,
+      importedCount: created.count,
+      estimate: updatedEstimate,
+    };
+  });
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { EstimateStatus } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { assertLineItemEditable, assertLineItemUnlocked } from "./line-item.service";
+
+type EditableLineItem = Parameters<typeof assertLineItemEditable>[0];
+
+function lineItem(overrides: Partial<EditableLineItem> = {}): EditableLineItem {
+  return {
+    id: "line-item-1",
+    description: "CHB 4in",
+    locked: false,
+    estimate: { status: EstimateStatus.DRAFT },
+    ...overrides,
+  };
+}
+
+function hasCode(code: string) {
+  return (error: unknown): boolean =>
+    error instanceof AppError && error.statusCode === 409 && error.code === code;
+}
+
+test("assertLineItemUnlocked names the locked line item", () => {
+  assert.doesNotThrow(() => assertLineItemUnlocked(lineItem()));
+  assert.throws(
+    () => assertLineItemUnlocked(lineItem({ locked: true })),
+    (error: unknown) => {
+      assert.ok(hasCode("LINE_ITEM_LOCKED")(error));
+      assert.equal((error as AppError).message, 'Line item "CHB 4in" is locked');
+      assert.deepEqual((error as AppError).details, { lineItemId: "line-item-1" });
+      return true;
+    },
+  );
+});
+
+test("assertLineItemEditable allows unlocked line items on drafts", () => {
+  assert.doesNotThrow(() => assertLineItemEditable(lineItem()));
+});
+
+test("assertLineItemEditable rejects line items outside a draft before checking the lock", () => {
+  for (const status of [EstimateStatus.FOR_REVIEW, EstimateStatus.FINAL, EstimateStatus.ARCHIVED]) {
+    assert.throws(
+      () => assertLineItemEditable(lineItem({ locked: true, estimate: { status } })),
+      hasCode("ESTIMATE_NOT_EDITABLE"),
+    );
+  }
+});
+
+test("assertLineItemEditable reports locked line items on a draft as locked", () => {
+  assert.throws(
+    () => assertLineItemEditable(lineItem({ locked: true })),
+    hasCode("LINE_ITEM_LOCKED"),
+  );
+});
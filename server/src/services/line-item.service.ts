@@ -1,38 +1,60 @@
-import {
-  CalculationSource,
-  EstimateStatus,
-  Prisma,
-  type Category,
-} from "@prisma/client";
-import { z } from "zod";
+import { CalculationSource, EstimateStatus, Prisma } from "@prisma/client";
 import { AppError } from "../errors/app-error";
-import { evaluateFormula, FormulaEvaluationError } from "../formulas/evaluator";
-import type { FormulaDefinition, FormulaOutputDefinition } from "../formulas/types";
+import { buildDependencySnapshot } from "../formulas/dependencies";
+import {
+  evaluateFormula,
+  FormulaEvaluationError,
+  type FormulaEvaluationResult,
+} from "../formulas/evaluator";
+import type { FormulaOutputDefinition } from "../formulas/types";
+import { areUnitsCompatible, convertUnitValue, findUnit } from "../formulas/units";
+import { collectLookupTableNames } from "../formulas/validator";
 import { prisma } from "../prisma/client";
 import { logAudit } from "./audit.service";
-import { calculateTotals } from "./estimate.service";
+import { assertCategoryInOrganization } from "./category.service";
+import {
+  calculateTotals,
+  parseCategoryMarkupRates,
+  parseMarkupComponents,
+  regionalFactorsSelect,
+  toMarkupComponentsJson,
+} from "./estimate.service";
+import { assertPriceCatalogItemInOrganization } from "./price-catalog.service";
+import {
+  loadFormulaLookupTables,
+  parseStoredFormulaDefinition,
+  resolveStoredFormulaDependencies,
+} from "./formula.service";
 
 type CreateEstimateLineItemInput = {
   organizationId: string;
   estimateId: string;
-  category: Category;
+  category: string;
   description: string;
   quantity: number;
   unit: string;
   unitMaterialCost: number;
   unitLaborCost: number;
+  priceCatalogItemId?: string | null;
+  priceReferenceKey?: string | null;
+  markupRate?: number | null;
+  vatExempt?: boolean;
   performedBy: string;
 };
 
 type UpdateLineItemInput = {
   organizationId: string;
   lineItemId: string;
-  category?: Category;
+  category?: string;
   description?: string;
   quantity?: number;
   unit?: string;
   unitMaterialCost?: number;
   unitLaborCost?: number;
+  priceCatalogItemId?: string | null;
+  priceReferenceKey?: string | null;
+  markupRate?: number | null;
+  vatExempt?: boolean;
   performedBy: string;
 };
 
@@ -57,32 +79,54 @@ type ComputeLineItemInput = {
   formulaName?: string;
   outputVariable?: string;
   inputValues: Record<string, unknown>;
+  inputUnits: Record<string, string>;
   performedBy: string;
 };
 
+/** Current catalog prices of a linked entry, used to flag line items priced from stale entries. */
+export type LinkedPriceCatalogItem = {
+  id: string;
+  itemCode: string;
+  unitMaterialCost: Prisma.Decimal;
+  unitLaborCost: Prisma.Decimal;
+  effectiveDate: Date;
+};
+
 export type CreateEstimateLineItemResult = {
   lineItem: {
     id: string;
     estimateId: string;
-    category: Category;
+    category: string;
     description: string;
     quantity: Prisma.Decimal;
     unit: string;
     unitMaterialCost: Prisma.Decimal;
     unitLaborCost: Prisma.Decimal;
     totalCost: Prisma.Decimal;
+    markupRate: Prisma.Decimal | null;
+    vatExempt: boolean;
     calculationSource: CalculationSource;
     originalComputedQuantity: Prisma.Decimal | null;
     originalComputedCost: Prisma.Decimal | null;
     overrideReason: string | null;
     locked: boolean;
+    priceCatalogItemId: string | null;
+    priceCatalogItem: LinkedPriceCatalogItem | null;
+    priceReferenceKey: string | null;
     createdAt: Date;
     updatedAt: Date;
   };
   estimate: {
     id: string;
     subtotal: Prisma.Decimal;
+    regionalMaterialFactor: Prisma.Decimal;
+    regionalLaborFactor: Prisma.Decimal;
+    regionalAdjustment: Prisma.Decimal;
+    markupComponents: Prisma.JsonValue;
+    categoryMarkupRates: Prisma.JsonValue;
     markupAmount: Prisma.Decimal;
+    vatableSales: Prisma.Decimal;
+    vatExemptSales: Prisma.Decimal;
     vatAmount: Prisma.Decimal;
     totalAmount: Prisma.Decimal;
     updatedAt: Date;
@@ -97,85 +141,31 @@ type ComputeLineItemResult = CreateEstimateLineItemResult & {
   };
 };
 
-type LineItemWithTotals = {
+export type LineItemWithTotals = {
   id: string;
   estimateId: string;
-  category: Category;
+  category: string;
   description: string;
   quantity: Prisma.Decimal;
   unit: string;
   unitMaterialCost: Prisma.Decimal;
   unitLaborCost: Prisma.Decimal;
   totalCost: Prisma.Decimal;
+  markupRate: Prisma.Decimal | null;
+  vatExempt: boolean;
   calculationSource: CalculationSource;
   originalComputedQuantity: Prisma.Decimal | null;
   originalComputedCost: Prisma.Decimal | null;
   overrideReason: string | null;
   locked: boolean;
+  priceCatalogItemId: string | null;
+  priceCatalogItem: LinkedPriceCatalogItem | null;
+  priceReferenceKey: string | null;
   createdAt: Date;
   updatedAt: Date;
 };
 
-const formulaDefinitionSchema = z.object({
-  inputs: z.array(
-    z.object({
-      variable: z.string().min(1),
-      label: z.string().min(1),
-      unit: z.string().min(1),
-      type: z.enum(["number", "integer"]),
-      min: z.number().optional(),
-      max: z.number().optional(),
-      defaultValue: z.number().optional(),
-    }),
-  ),
-  expressions: z.array(
-    z.object({
-      variable: z.string().min(1),
-      expression: z.string().min(1),
-    }),
-  ),
-  outputs: z
-    .array(
-      z.object({
-        variable: z.string().min(1),
-        lineItemField: z.string().min(1),
-        unit: z.string().min(1),
-      }),
-    )
-    .optional(),
-});
-
-type StoredFormula = {
-  id: string;
-  name: string;
-  description: string;
-  category: Category;
-  version: number;
-  inputs: Prisma.JsonValue;
-  expressions: Prisma.JsonValue;
-  outputs: Prisma.JsonValue;
-  isActive: boolean;
-  createdBy: string;
-  createdAt: Date;
-};
-
-function parseStoredFormulaDefinition(formula: StoredFormula): FormulaDefinition {
-  const parsed = formulaDefinitionSchema.safeParse({
-    inputs: formula.inputs,
-    expressions: formula.expressions,
-    outputs: formula.outputs,
-  });
-
-  if (!parsed.success) {
-    throw new AppError(500, "FORMULA_DEFINITION_INVALID", "Stored formula definition is invalid", {
-      formulaId: formula.id,
-    });
-  }
-
-  return parsed.data;
-}
-
-function resolveOutputMapping(
+export function resolveOutputMapping(
   formulaOutputs: FormulaOutputDefinition[],
   lineItemUnit: string,
   requestedOutputVariable?: string,
@@ -205,9 +195,8 @@ function resolveOutputMapping(
     return formulaOutputs[0];
   }
 
-  const normalizedLineItemUnit = lineItemUnit.trim().toLowerCase();
   const unitMatches = formulaOutputs.filter(
-    (output) => output.lineItemField === "quantity" && output.unit.trim().toLowerCase() === normalizedLineItemUnit,
+    (output) => output.lineItemField === "quantity" && areUnitsCompatible(output.unit, lineItemUnit),
   );
 
   if (unitMatches.length === 1) {
@@ -221,7 +210,204 @@ function resolveOutputMapping(
   );
 }
 
-async function recalculateEstimateTotals(
+export function assertLineItemUnlocked(lineItem: {
+  id: string;
+  description: string;
+  locked: boolean;
+}): void {
+  if (lineItem.locked) {
+    throw new AppError(409, "LINE_ITEM_LOCKED", `Line item "${lineItem.description}" is locked`, {
+      lineItemId: lineItem.id,
+    });
+  }
+}
+
+/** A line item can change only while its estimate is a draft and the item itself is unlocked. */
+export function assertLineItemEditable(lineItem: {
+  id: string;
+  description: string;
+  locked: boolean;
+  estimate: { status: EstimateStatus };
+}): void {
+  if (lineItem.estimate.status !== EstimateStatus.DRAFT) {
+    throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
+  }
+
+  assertLineItemUnlocked(lineItem);
+}
+
+/**
+ * Expresses a formula output in the line item's unit when both units share a dimension. Outputs
+ * with units outside the registry keep replacing the line item unit as before.
+ */
+function convertOutputToLineItemUnit(
+  output: FormulaOutputDefinition,
+  value: number,
+  lineItemUnit: string,
+): { quantity: number; unit: string } {
+  if (areUnitsCompatible(output.unit, lineItemUnit)) {
+    const converted = convertUnitValue(value, output.unit, lineItemUnit);
+    return {
+      quantity: Math.round((converted + Number.EPSILON) * 10_000) / 10_000,
+      unit: lineItemUnit,
+    };
+  }
+
+  if (findUnit(output.unit) && findUnit(lineItemUnit)) {
+    throw new AppError(
+      409,
+      "FORMULA_UNIT_MISMATCH",
+      `Output ${output.variable} is measured in ${output.unit} and cannot be converted to ${lineItemUnit}`,
+    );
+  }
+
+  return { quantity: value, unit: output.unit };
+}
+
+const computeFormulaSelect = {
+  id: true,
+  name: true,
+  description: true,
+  category: true,
+  version: true,
+  inputs: true,
+  expressions: true,
+  outputs: true,
+  dependencies: true,
+  isActive: true,
+  createdBy: true,
+  createdAt: true,
+} satisfies Prisma.FormulaSelect;
+
+export type ComputeFormula = Prisma.FormulaGetPayload<{ select: typeof computeFormulaSelect }>;
+
+export type FormulaComputationRun = {
+  formula: ComputeFormula;
+  evaluationResult: FormulaEvaluationResult;
+  formulaSnapshot: Prisma.InputJsonValue;
+};
+
+/**
+ * Loads the formula to compute with: an exact version when `formulaId` is given, otherwise the
+ * latest active version with `formulaName`.
+ */
+export async function findComputeFormula(
+  tx: Prisma.TransactionClient,
+  input: { organizationId: string; formulaId?: string; formulaName?: string },
+): Promise<ComputeFormula> {
+  const formula = input.formulaId
+    ? await tx.formula.findFirst({
+        where: {
+          id: input.formulaId,
+          organizationId: input.organizationId,
+        },
+        select: computeFormulaSelect,
+      })
+    : await tx.formula.findFirst({
+        where: {
+          organizationId: input.organizationId,
+          name: input.formulaName,
+          isActive: true,
+        },
+        orderBy: [{ version: "desc" }, { createdAt: "desc" }],
+        select: computeFormulaSelect,
+      });
+
+  if (!formula) {
+    throw new AppError(404, "FORMULA_NOT_FOUND", "Formula not found");
+  }
+
+  return formula;
+}
+
+/**
+ * Evaluates a stored formula with its dependencies and lookup tables resolved, and builds the
+ * snapshot recorded on each `ComputationInstance` for provenance.
+ */
+export async function runFormulaComputation(
+  tx: Prisma.TransactionClient,
+  input: {
+    organizationId: string;
+    formula: ComputeFormula;
+    inputValues: Record<string, unknown>;
+    inputUnits: Record<string, string>;
+  },
+): Promise<FormulaComputationRun> {
+  const { formula } = input;
+  const formulaDefinition = parseStoredFormulaDefinition(formula);
+  const dependencies = await resolveStoredFormulaDependencies(tx, input.organizationId, {
+    name: formula.name,
+    definition: formulaDefinition,
+  });
+  const lookupTables = await loadFormulaLookupTables(tx, input.organizationId);
+
+  let evaluationResult: FormulaEvaluationResult;
+  try {
+    evaluationResult = evaluateFormula(formulaDefinition, input.inputValues, {
+      dependencies,
+      lookupTables,
+      inputUnits: input.inputUnits,
+    });
+  } catch (error) {
+    if (error instanceof FormulaEvaluationError) {
+      throw new AppError(400, error.code, error.message, error.details);
+    }
+
+    throw error;
+  }
+
+  return {
+    formula,
+    evaluationResult,
+    formulaSnapshot: {
+      id: formula.id,
+      name: formula.name,
+      description: formula.description,
+      category: formula.category,
+      version: formula.version,
+      inputs: formulaDefinition.inputs,
+      expressions: formulaDefinition.expressions,
+      outputs: formulaDefinition.outputs ?? [],
+      dependencies: buildDependencySnapshot(dependencies),
+      lookupTables: collectLookupTableNames(formulaDefinition, dependencies)
+        .map((name) => lookupTables[name])
+        .filter((table) => table !== undefined),
+      isActive: formula.isActive,
+      createdBy: formula.createdBy,
+      createdAt: formula.createdAt.toISOString(),
+    } as Prisma.InputJsonValue,
+  };
+}
+
+/**
+ * Reads one output from a formula run and expresses it in the target line item's unit.
+ */
+export function resolveComputedOutput(
+  formulaRun: FormulaComputationRun,
+  output: FormulaOutputDefinition,
+  lineItemUnit: string,
+): { quantity: number; unit: string } {
+  const outputValue = formulaRun.evaluationResult.outputValues[output.variable];
+  if (outputValue === undefined) {
+    throw new AppError(
+      500,
+      "FORMULA_OUTPUT_NOT_COMPUTED",
+      `Output variable ${output.variable} did not produce a value`,
+    );
+  }
+
+  if (output.lineItemField !== "quantity") {
+    throw new AppError(
+      400,
+      "FORMULA_UNSUPPORTED_OUTPUT_FIELD",
+      `Unsupported output mapping target: ${output.lineItemField}`,
+    );
+  }
+
+  return convertOutputToLineItemUnit(output, outputValue, lineItemUnit);
+}
+
+export async function recalculateEstimateTotals(
   tx: Prisma.TransactionClient,
   estimateId: string,
   markupRate: Prisma.Decimal,
@@ -235,13 +421,33 @@ async function recalculateEstimateTotals(
       quantity: true,
       unitMaterialCost: true,
       unitLaborCost: true,
+      markupRate: true,
+      vatExempt: true,
+    },
+  });
+
+  const { markupComponents, categoryMarkupRates, project } = await tx.estimate.findUniqueOrThrow({
+    where: { id: estimateId },
+    select: {
+      markupComponents: true,
+      categoryMarkupRates: true,
+      project: {
+        select: {
+          region: {
+            select: regionalFactorsSelect,
+          },
+        },
+      },
     },
   });
 
   const totals = calculateTotals({
     lineItems: allLineItems,
     markupRate,
+    markupComponents: parseMarkupComponents(markupComponents),
+    categoryMarkupRates: parseCategoryMarkupRates(categoryMarkupRates),
     vatRate,
+    regionalFactors: project.region,
   });
 
   for (const [lineItemId, totalCost] of Object.entries(totals.lineItemTotals)) {
@@ -255,14 +461,27 @@ async function recalculateEstimateTotals(
     where: { id: estimateId },
     data: {
       subtotal: totals.subtotal,
+      regionalMaterialFactor: totals.regionalFactors.materialFactor,
+      regionalLaborFactor: totals.regionalFactors.laborFactor,
+      regionalAdjustment: totals.regionalAdjustment,
+      markupComponents: toMarkupComponentsJson(totals.markupComponents),
       markupAmount: totals.markupAmount,
+      vatableSales: totals.vatableSales,
+      vatExemptSales: totals.vatExemptSales,
       vatAmount: totals.vatAmount,
       totalAmount: totals.totalAmount,
     },
     select: {
       id: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatAmount: true,
       totalAmount: true,
       updatedAt: true,
@@ -270,7 +489,7 @@ async function recalculateEstimateTotals(
   });
 }
 
-async function getLineItemWithTotals(
+export async function getLineItemWithTotals(
   tx: Prisma.TransactionClient,
   lineItemId: string,
 ): Promise<LineItemWithTotals> {
@@ -286,11 +505,24 @@ async function getLineItemWithTotals(
       unitMaterialCost: true,
       unitLaborCost: true,
       totalCost: true,
+      markupRate: true,
+      vatExempt: true,
       calculationSource: true,
       originalComputedQuantity: true,
       originalComputedCost: true,
       overrideReason: true,
       locked: true,
+      priceCatalogItemId: true,
+      priceReferenceKey: true,
+      priceCatalogItem: {
+        select: {
+          id: true,
+          itemCode: true,
+          unitMaterialCost: true,
+          unitLaborCost: true,
+          effectiveDate: true,
+        },
+      },
       createdAt: true,
       updatedAt: true,
     },
@@ -325,6 +557,18 @@ export async function createEstimateLineItem(
       throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
     }
 
+    await assertCategoryInOrganization(tx, {
+      organizationId: input.organizationId,
+      code: input.category,
+    });
+
+    if (input.priceCatalogItemId) {
+      await assertPriceCatalogItemInOrganization(tx, {
+        organizationId: input.organizationId,
+        priceCatalogItemId: input.priceCatalogItemId,
+      });
+    }
+
     const lineItem = await tx.lineItem.create({
       data: {
         estimateId: estimate.id,
@@ -335,11 +579,18 @@ export async function createEstimateLineItem(
         unitMaterialCost: new Prisma.Decimal(input.unitMaterialCost),
         unitLaborCost: new Prisma.Decimal(input.unitLaborCost),
         totalCost: new Prisma.Decimal(0),
+        markupRate:
+          input.markupRate !== undefined && input.markupRate !== null
+            ? new Prisma.Decimal(input.markupRate)
+            : null,
+        vatExempt: input.vatExempt ?? false,
         calculationSource: CalculationSource.MANUAL,
         originalComputedQuantity: null,
         originalComputedCost: null,
         overrideReason: null,
         locked: false,
+        priceCatalogItemId: input.priceCatalogItemId ?? null,
+        priceReferenceKey: input.priceReferenceKey ?? null,
         createdBy: input.performedBy,
       },
       select: {
@@ -352,11 +603,15 @@ export async function createEstimateLineItem(
         unitMaterialCost: true,
         unitLaborCost: true,
         totalCost: true,
+        markupRate: true,
+        vatExempt: true,
         calculationSource: true,
         originalComputedQuantity: true,
         originalComputedCost: true,
         overrideReason: true,
         locked: true,
+        priceCatalogItemId: true,
+        priceReferenceKey: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -388,6 +643,10 @@ export async function createEstimateLineItem(
           unitLaborCost: refreshedLineItem.unitLaborCost.toString(),
           totalCost: refreshedLineItem.totalCost.toString(),
           calculationSource: refreshedLineItem.calculationSource,
+          priceCatalogItemId: refreshedLineItem.priceCatalogItemId,
+          priceReferenceKey: refreshedLineItem.priceReferenceKey,
+          markupRate: refreshedLineItem.markupRate?.toString() ?? null,
+          vatExempt: refreshedLineItem.vatExempt,
         },
         performedBy: input.performedBy,
       },
@@ -429,11 +688,15 @@ export async function updateLineItem(input: UpdateLineItemInput): Promise<Create
         unitMaterialCost: true,
         unitLaborCost: true,
         totalCost: true,
+        markupRate: true,
+        vatExempt: true,
         calculationSource: true,
         originalComputedQuantity: true,
         originalComputedCost: true,
         overrideReason: true,
         locked: true,
+        priceCatalogItemId: true,
+        priceReferenceKey: true,
         estimate: {
           select: {
             id: true,
@@ -449,9 +712,7 @@ export async function updateLineItem(input: UpdateLineItemInput): Promise<Create
       throw new AppError(404, "LINE_ITEM_NOT_FOUND", "Line item not found");
     }
 
-    if (lineItem.estimate.status !== EstimateStatus.DRAFT || lineItem.locked) {
-      throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
-    }
+    assertLineItemEditable(lineItem);
 
     if (input.quantity !== undefined && lineItem.calculationSource !== CalculationSource.MANUAL) {
       throw new AppError(
@@ -461,6 +722,13 @@ export async function updateLineItem(input: UpdateLineItemInput): Promise<Create
       );
     }
 
+    if (input.category !== undefined && input.category !== lineItem.category) {
+      await assertCategoryInOrganization(tx, {
+        organizationId: input.organizationId,
+        code: input.category,
+      });
+    }
+
     const data: Prisma.LineItemUpdateInput = {};
     if (input.category !== undefined) {
       data.category = input.category;
@@ -480,6 +748,27 @@ export async function updateLineItem(input: UpdateLineItemInput): Promise<Create
     if (input.unitLaborCost !== undefined) {
       data.unitLaborCost = new Prisma.Decimal(input.unitLaborCost);
     }
+    if (input.priceCatalogItemId !== undefined) {
+      if (input.priceCatalogItemId !== null) {
+        await assertPriceCatalogItemInOrganization(tx, {
+          organizationId: input.organizationId,
+          priceCatalogItemId: input.priceCatalogItemId,
+        });
+      }
+
+      data.priceCatalogItem = input.priceCatalogItemId
+        ? { connect: { id: input.priceCatalogItemId } }
+        : { disconnect: true };
+    }
+    if (input.priceReferenceKey !== undefined) {
+      data.priceReferenceKey = input.priceReferenceKey;
+    }
+    if (input.markupRate !== undefined) {
+      data.markupRate = input.markupRate === null ? null : new Prisma.Decimal(input.markupRate);
+    }
+    if (input.vatExempt !== undefined) {
+      data.vatExempt = input.vatExempt;
+    }
 
     await tx.lineItem.update({
       where: { id: lineItem.id },
@@ -513,6 +802,10 @@ export async function updateLineItem(input: UpdateLineItemInput): Promise<Create
           originalComputedQuantity: lineItem.originalComputedQuantity?.toString() ?? null,
           originalComputedCost: lineItem.originalComputedCost?.toString() ?? null,
           overrideReason: lineItem.overrideReason,
+          priceCatalogItemId: lineItem.priceCatalogItemId,
+          priceReferenceKey: lineItem.priceReferenceKey,
+          markupRate: lineItem.markupRate?.toString() ?? null,
+          vatExempt: lineItem.vatExempt,
         },
         afterState: {
           category: updatedLineItem.category,
@@ -526,6 +819,10 @@ export async function updateLineItem(input: UpdateLineItemInput): Promise<Create
           originalComputedQuantity: updatedLineItem.originalComputedQuantity?.toString() ?? null,
           originalComputedCost: updatedLineItem.originalComputedCost?.toString() ?? null,
           overrideReason: updatedLineItem.overrideReason,
+          priceCatalogItemId: updatedLineItem.priceCatalogItemId,
+          priceReferenceKey: updatedLineItem.priceReferenceKey,
+          markupRate: updatedLineItem.markupRate?.toString() ?? null,
+          vatExempt: updatedLineItem.vatExempt,
         },
         performedBy: input.performedBy,
       },
@@ -565,6 +862,8 @@ export async function overrideLineItem(
         unitMaterialCost: true,
         unitLaborCost: true,
         totalCost: true,
+        markupRate: true,
+        vatExempt: true,
         calculationSource: true,
         originalComputedQuantity: true,
         originalComputedCost: true,
@@ -585,9 +884,7 @@ export async function overrideLineItem(
       throw new AppError(404, "LINE_ITEM_NOT_FOUND", "Line item not found");
     }
 
-    if (lineItem.estimate.status !== EstimateStatus.DRAFT || lineItem.locked) {
-      throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
-    }
+    assertLineItemEditable(lineItem);
 
     const preservedOriginalQuantity =
       lineItem.calculationSource === CalculationSource.MANUAL
@@ -679,6 +976,8 @@ export async function deleteLineItem(input: DeleteLineItemInput): Promise<{
         unitMaterialCost: true,
         unitLaborCost: true,
         totalCost: true,
+        markupRate: true,
+        vatExempt: true,
         calculationSource: true,
         originalComputedQuantity: true,
         originalComputedCost: true,
@@ -699,9 +998,7 @@ export async function deleteLineItem(input: DeleteLineItemInput): Promise<{
       throw new AppError(404, "LINE_ITEM_NOT_FOUND", "Line item not found");
     }
 
-    if (lineItem.estimate.status !== EstimateStatus.DRAFT || lineItem.locked) {
-      throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
-    }
+    assertLineItemEditable(lineItem);
 
     await tx.lineItem.delete({
       where: { id: lineItem.id },
@@ -773,6 +1070,8 @@ export async function computeLineItem(input: ComputeLineItemInput): Promise<Comp
         unitMaterialCost: true,
         unitLaborCost: true,
         totalCost: true,
+        markupRate: true,
+        vatExempt: true,
         calculationSource: true,
         originalComputedQuantity: true,
         originalComputedCost: true,
@@ -793,55 +1092,9 @@ export async function computeLineItem(input: ComputeLineItemInput): Promise<Comp
       throw new AppError(404, "LINE_ITEM_NOT_FOUND", "Line item not found");
     }
 
-    if (lineItem.estimate.status !== EstimateStatus.DRAFT || lineItem.locked) {
-      throw new AppError(409, "ESTIMATE_NOT_EDITABLE", "Only draft estimates can be edited");
-    }
-
-    const formula = input.formulaId
-      ? await tx.formula.findFirst({
-          where: {
-            id: input.formulaId,
-            organizationId: input.organizationId,
-          },
-          select: {
-            id: true,
-            name: true,
-            description: true,
-            category: true,
-            version: true,
-            inputs: true,
-            expressions: true,
-            outputs: true,
-            isActive: true,
-            createdBy: true,
-            createdAt: true,
-          },
-        })
-      : await tx.formula.findFirst({
-          where: {
-            organizationId: input.organizationId,
-            name: input.formulaName,
-            isActive: true,
-          },
-          orderBy: [{ version: "desc" }, { createdAt: "desc" }],
-          select: {
-            id: true,
-            name: true,
-            description: true,
-            category: true,
-            version: true,
-            inputs: true,
-            expressions: true,
-            outputs: true,
-            isActive: true,
-            createdBy: true,
-            createdAt: true,
-          },
-        });
+    assertLineItemEditable(lineItem);
 
-    if (!formula) {
-      throw new AppError(404, "FORMULA_NOT_FOUND", "Formula not found");
-    }
+    const formula = await findComputeFormula(tx, input);
 
     if (formula.category !== lineItem.category) {
       throw new AppError(
@@ -851,43 +1104,21 @@ export async function computeLineItem(input: ComputeLineItemInput): Promise<Comp
       );
     }
 
-    const formulaDefinition = parseStoredFormulaDefinition(formula);
-    const formulaOutputs = formulaDefinition.outputs ?? [];
+    const formulaOutputs = parseStoredFormulaDefinition(formula).outputs ?? [];
     const selectedOutput = resolveOutputMapping(formulaOutputs, lineItem.unit, input.outputVariable);
-
-    let evaluationResult: ReturnType<typeof evaluateFormula>;
-    try {
-      evaluationResult = evaluateFormula(formulaDefinition, input.inputValues);
-    } catch (error) {
-      if (error instanceof FormulaEvaluationError) {
-        throw new AppError(400, error.code, error.message, error.details);
-      }
-
-      throw error;
-    }
-
-    const outputValue = evaluationResult.outputValues[selectedOutput.variable];
-    if (outputValue === undefined) {
-      throw new AppError(
-        500,
-        "FORMULA_OUTPUT_NOT_COMPUTED",
-        `Output variable ${selectedOutput.variable} did not produce a value`,
-      );
-    }
-
-    if (selectedOutput.lineItemField !== "quantity") {
-      throw new AppError(
-        400,
-        "FORMULA_UNSUPPORTED_OUTPUT_FIELD",
-        `Unsupported output mapping target: ${selectedOutput.lineItemField}`,
-      );
-    }
+    const formulaRun = await runFormulaComputation(tx, {
+      organizationId: input.organizationId,
+      formula,
+      inputValues: input.inputValues,
+      inputUnits: input.inputUnits,
+    });
+    const convertedOutput = resolveComputedOutput(formulaRun, selectedOutput, lineItem.unit);
 
     await tx.lineItem.update({
       where: { id: lineItem.id },
       data: {
-        quantity: new Prisma.Decimal(outputValue),
-        unit: selectedOutput.unit,
+        quantity: new Prisma.Decimal(convertedOutput.quantity),
+        unit: convertedOutput.unit,
         calculationSource: CalculationSource.COMPUTED,
         overrideReason: null,
         originalComputedQuantity: null,
@@ -901,21 +1132,11 @@ export async function computeLineItem(input: ComputeLineItemInput): Promise<Comp
         lineItemId: lineItem.id,
         formulaId: formula.id,
         formulaVersion: formula.version,
-        formulaSnapshot: {
-          id: formula.id,
-          name: formula.name,
-          description: formula.description,
-          category: formula.category,
-          version: formula.version,
-          inputs: formulaDefinition.inputs,
-          expressions: formulaDefinition.expressions,
-          outputs: formulaDefinition.outputs ?? [],
-          isActive: formula.isActive,
-          createdBy: formula.createdBy,
-          createdAt: formula.createdAt.toISOString(),
-        } as Prisma.InputJsonValue,
+        formulaSnapshot: formulaRun.formulaSnapshot,
         inputValues: input.inputValues as Prisma.InputJsonValue,
-        computedResults: evaluationResult.computedResults as Prisma.InputJsonValue,
+        inputUnits: input.inputUnits,
+        computedResults: formulaRun.evaluationResult.computedResults as Prisma.InputJsonValue,
+        outputVariable: selectedOutput.variable,
         computedBy: input.performedBy,
       },
       select: {
@@ -961,7 +1182,8 @@ export async function computeLineItem(input: ComputeLineItemInput): Promise<Comp
           formulaVersion: formula.version,
           outputVariable: selectedOutput.variable,
           inputValues: input.inputValues as Prisma.InputJsonValue,
-          computedResults: evaluationResult.computedResults as Prisma.InputJsonValue,
+          inputUnits: input.inputUnits,
+          computedResults: formulaRun.evaluationResult.computedResults as Prisma.InputJsonValue,
         },
         performedBy: input.performedBy,
       },
@@ -0,0 +1,358 @@
+import type { LookupTableMatchMode, Prisma } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { collectLookupTableNames } from "../formulas/validator";
+import type { FormulaLookupTableEntry } from "../formulas/types";
+import { prisma } from "../prisma/client";
+import { logAudit } from "./audit.service";
+import { parseStoredFormulaDefinition } from "./formula.service";
+
+type GetLookupTablesInput = {
+  organizationId: string;
+  page: number;
+  pageSize: number;
+};
+
+type CreateLookupTableInput = {
+  organizationId: string;
+  name: string;
+  description: string;
+  keyUnit: string;
+  valueUnit: string;
+  matchMode: LookupTableMatchMode;
+  entries: FormulaLookupTableEntry[];
+  performedBy: string;
+};
+
+type UpdateLookupTableInput = {
+  organizationId: string;
+  lookupTableId: string;
+  description?: string;
+  keyUnit?: string;
+  valueUnit?: string;
+  matchMode?: LookupTableMatchMode;
+  entries?: FormulaLookupTableEntry[];
+  performedBy: string;
+};
+
+type DeleteLookupTableInput = {
+  organizationId: string;
+  lookupTableId: string;
+  performedBy: string;
+};
+
+export type LookupTableSummary = {
+  id: string;
+  name: string;
+  description: string;
+  keyUnit: string;
+  valueUnit: string;
+  matchMode: LookupTableMatchMode;
+  entries: Prisma.JsonValue;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+type LookupTableSelectedShape = Omit<LookupTableSummary, "createdBy"> & {
+  createdByUser: {
+    id: string;
+    name: string;
+  };
+};
+
+export type GetLookupTablesResult = {
+  items: LookupTableSummary[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalItems: number;
+    totalPages: number;
+  };
+};
+
+const lookupTableSelect = {
+  id: true,
+  name: true,
+  description: true,
+  keyUnit: true,
+  valueUnit: true,
+  matchMode: true,
+  entries: true,
+  createdAt: true,
+  updatedAt: true,
+  createdByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.LookupTableSelect;
+
+function toLookupTableSummary(lookupTable: LookupTableSelectedShape): LookupTableSummary {
+  return {
+    id: lookupTable.id,
+    name: lookupTable.name,
+    description: lookupTable.description,
+    keyUnit: lookupTable.keyUnit,
+    valueUnit: lookupTable.valueUnit,
+    matchMode: lookupTable.matchMode,
+    entries: lookupTable.entries,
+    createdAt: lookupTable.createdAt,
+    updatedAt: lookupTable.updatedAt,
+    createdBy: lookupTable.createdByUser,
+  };
+}
+
+function sortEntries(entries: FormulaLookupTableEntry[]): FormulaLookupTableEntry[] {
+  return [...entries].sort((a, b) => a.key - b.key);
+}
+
+async function findLookupTableOrThrow(input: {
+  organizationId: string;
+  lookupTableId: string;
+}): Promise<LookupTableSelectedShape> {
+  const lookupTable = await prisma.lookupTable.findFirst({
+    where: {
+      id: input.lookupTableId,
+      organizationId: input.organizationId,
+    },
+    select: lookupTableSelect,
+  });
+
+  if (!lookupTable) {
+    throw new AppError(404, "LOOKUP_TABLE_NOT_FOUND", "Lookup table not found");
+  }
+
+  return lookupTable;
+}
+
+async function findFormulasUsingLookupTable(input: {
+  organizationId: string;
+  name: string;
+}): Promise<string[]> {
+  const formulas = await prisma.formula.findMany({
+    where: {
+      organizationId: input.organizationId,
+      nextVersions: {
+        none: {},
+      },
+    },
+    select: {
+      id: true,
+      name: true,
+      inputs: true,
+      expressions: true,
+      outputs: true,
+      dependencies: true,
+    },
+  });
+
+  return formulas
+    .filter((formula) =>
+      collectLookupTableNames(parseStoredFormulaDefinition(formula)).includes(input.name),
+    )
+    .map((formula) => formula.name);
+}
+
+export async function getLookupTables(input: GetLookupTablesInput): Promise<GetLookupTablesResult> {
+  const where = { organizationId: input.organizationId };
+  const skip = (input.page - 1) * input.pageSize;
+
+  const [items, totalItems] = await prisma.$transaction([
+    prisma.lookupTable.findMany({
+      where,
+      skip,
+      take: input.pageSize,
+      orderBy: { name: "asc" },
+      select: lookupTableSelect,
+    }),
+    prisma.lookupTable.count({ where }),
+  ]);
+
+  return {
+    items: items.map((lookupTable) => toLookupTableSummary(lookupTable)),
+    pagination: {
+      page: input.page,
+      pageSize: input.pageSize,
+      totalItems,
+      totalPages: totalItems === 0 ? 0 : Math.ceil(totalItems / input.pageSize),
+    },
+  };
+}
+
+export async function getLookupTableById(input: {
+  organizationId: string;
+  lookupTableId: string;
+}): Promise<LookupTableSummary> {
+  const lookupTable = await findLookupTableOrThrow(input);
+  return toLookupTableSummary(lookupTable);
+}
+
+export async function createLookupTable(
+  input: CreateLookupTableInput,
+): Promise<LookupTableSummary> {
+  const created = await prisma.$transaction(async (tx) => {
+    const existing = await tx.lookupTable.findFirst({
+      where: {
+        organizationId: input.organizationId,
+        name: {
+          equals: input.name,
+          mode: "insensitive",
+        },
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new AppError(
+        409,
+        "LOOKUP_TABLE_NAME_CONFLICT",
+        "A lookup table with this name already exists in your organization",
+      );
+    }
+
+    const lookupTable = await tx.lookupTable.create({
+      data: {
+        organizationId: input.organizationId,
+        name: input.name,
+        description: input.description,
+        keyUnit: input.keyUnit,
+        valueUnit: input.valueUnit,
+        matchMode: input.matchMode,
+        entries: sortEntries(input.entries),
+        createdBy: input.performedBy,
+      },
+      select: lookupTableSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "LookupTable",
+        entityId: lookupTable.id,
+        action: "LOOKUP_TABLE_CREATED",
+        beforeState: {},
+        afterState: {
+          name: lookupTable.name,
+          description: lookupTable.description,
+          keyUnit: lookupTable.keyUnit,
+          valueUnit: lookupTable.valueUnit,
+          matchMode: lookupTable.matchMode,
+          entries: lookupTable.entries as Prisma.InputJsonValue,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return lookupTable;
+  });
+
+  return toLookupTableSummary(created);
+}
+
+export async function updateLookupTable(
+  input: UpdateLookupTableInput,
+): Promise<LookupTableSummary> {
+  const beforeState = await findLookupTableOrThrow({
+    organizationId: input.organizationId,
+    lookupTableId: input.lookupTableId,
+  });
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const lookupTable = await tx.lookupTable.update({
+      where: { id: beforeState.id },
+      data: {
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...(input.keyUnit !== undefined ? { keyUnit: input.keyUnit } : {}),
+        ...(input.valueUnit !== undefined ? { valueUnit: input.valueUnit } : {}),
+        ...(input.matchMode !== undefined ? { matchMode: input.matchMode } : {}),
+        ...(input.entries !== undefined ? { entries: sortEntries(input.entries) } : {}),
+      },
+      select: lookupTableSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "LookupTable",
+        entityId: lookupTable.id,
+        action: "LOOKUP_TABLE_UPDATED",
+        beforeState: {
+          description: beforeState.description,
+          keyUnit: beforeState.keyUnit,
+          valueUnit: beforeState.valueUnit,
+          matchMode: beforeState.matchMode,
+          entries: beforeState.entries as Prisma.InputJsonValue,
+        },
+        afterState: {
+          description: lookupTable.description,
+          keyUnit: lookupTable.keyUnit,
+          valueUnit: lookupTable.valueUnit,
+          matchMode: lookupTable.matchMode,
+          entries: lookupTable.entries as Prisma.InputJsonValue,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return lookupTable;
+  });
+
+  return toLookupTableSummary(updated);
+}
+
+export async function deleteLookupTable(
+  input: DeleteLookupTableInput,
+): Promise<{ deletedLookupTableId: string }> {
+  const lookupTable = await findLookupTableOrThrow({
+    organizationId: input.organizationId,
+    lookupTableId: input.lookupTableId,
+  });
+
+  const formulaNames = await findFormulasUsingLookupTable({
+    organizationId: input.organizationId,
+    name: lookupTable.name,
+  });
+
+  if (formulaNames.length > 0) {
+    throw new AppError(
+      409,
+      "LOOKUP_TABLE_IN_USE",
+      "Lookup table is referenced by one or more formulas",
+      { formulas: formulaNames },
+    );
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.lookupTable.delete({
+      where: { id: lookupTable.id },
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "LookupTable",
+        entityId: lookupTable.id,
+        action: "LOOKUP_TABLE_DELETED",
+        beforeState: {
+          name: lookupTable.name,
+          description: lookupTable.description,
+          keyUnit: lookupTable.keyUnit,
+          valueUnit: lookupTable.valueUnit,
+          matchMode: lookupTable.matchMode,
+          entries: lookupTable.entries as Prisma.InputJsonValue,
+        },
+        afterState: {},
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+  });
+
+  return { deletedLookupTableId: lookupTable.id };
+}
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { PdfJobStatus } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import type { PdfOptionsInput } from "../schemas/pdf.schemas";
+import {
+  buildEstimateCacheKey,
+  getAbandonedPdfJobsWhere,
+  getClaimablePdfJobsWhere,
+  getPdfJobRetryAt,
+} from "./pdf.service";
+
+const now = new Date("2026-10-19T08:00:00.000Z");
+
+test("getPdfJobRetryAt doubles the delay after each failed attempt", () => {
+  const error = new Error("Browser crashed");
+
+  assert.equal(getPdfJobRetryAt(error, 1, now)?.toISOString(), "2026-10-19T08:00:05.000Z");
+  assert.equal(getPdfJobRetryAt(error, 2, now)?.toISOString(), "2026-10-19T08:00:10.000Z");
+});
+
+test("getPdfJobRetryAt fails the job once attempts are used up", () => {
+  assert.equal(getPdfJobRetryAt(new Error("Browser crashed"), 3, now), null);
+});
+
+test("getPdfJobRetryAt does not retry client errors but retries server errors", () => {
+  assert.equal(
+    getPdfJobRetryAt(new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found"), 1, now),
+    null,
+  );
+  assert.notEqual(
+    getPdfJobRetryAt(new AppError(502, "STORAGE_UNAVAILABLE", "Storage unavailable"), 1, now),
+    null,
+  );
+});
+
+test("getClaimablePdfJobsWhere picks due pending jobs and reclaims stale locks with attempts left", () => {
+  assert.deepEqual(getClaimablePdfJobsWhere(now), {
+    OR: [
+      { status: PdfJobStatus.PENDING, runAfter: { lte: now } },
+      {
+        status: PdfJobStatus.PROCESSING,
+        lockedAt: { lt: new Date("2026-10-19T07:55:00.000Z") },
+        attempts: { lt: 3 },
+      },
+    ],
+  });
+});
+
+test("getAbandonedPdfJobsWhere only matches stale jobs that have no attempts left", () => {
+  assert.deepEqual(getAbandonedPdfJobsWhere(now), {
+    status: PdfJobStatus.PROCESSING,
+    lockedAt: { lt: new Date("2026-10-19T07:55:00.000Z") },
+    attempts: { gte: 3 },
+  });
+});
+
+test("buildEstimateCacheKey changes when the organization's categories change", () => {
+  const input = {
+    estimateId: "estimate-1",
+    updatedAt: now,
+    projectUpdatedAt: now,
+    clientUpdatedAt: null,
+    brandingUpdatedAt: null,
+    categoriesUpdatedAt: now,
+    categoryCount: 9,
+    format: "pdf" as const,
+    options: null,
+  };
+  const key = buildEstimateCacheKey(input);
+
+  assert.equal(buildEstimateCacheKey({ ...input }), key);
+  assert.notEqual(
+    buildEstimateCacheKey({ ...input, categoriesUpdatedAt: new Date("2026-10-19T09:00:00.000Z") }),
+    key,
+  );
+  assert.notEqual(buildEstimateCacheKey({ ...input, categoryCount: 8 }), key);
+  assert.notEqual(buildEstimateCacheKey({ ...input, format: "xlsx" }), key);
+});
+
+test("buildEstimateCacheKey changes when the project's client is linked or edited", () => {
+  const input = {
+    estimateId: "estimate-1",
+    updatedAt: now,
+    projectUpdatedAt: now,
+    clientUpdatedAt: null,
+    brandingUpdatedAt: null,
+    categoriesUpdatedAt: now,
+    categoryCount: 9,
+    format: "pdf" as const,
+    options: null,
+  };
+  const key = buildEstimateCacheKey(input);
+  const linkedKey = buildEstimateCacheKey({ ...input, clientUpdatedAt: now });
+
+  assert.notEqual(linkedKey, key);
+  assert.notEqual(
+    buildEstimateCacheKey({ ...input, clientUpdatedAt: new Date("2026-10-19T09:00:00.000Z") }),
+    linkedKey,
+  );
+});
+
+test("buildEstimateCacheKey keeps separate files for different PDF options", () => {
+  const options: PdfOptionsInput = {
+    detailLevel: "itemized",
+    hideUnitCosts: false,
+    hideFormulaAppendix: false,
+    costColumns: "split",
+    language: "en",
+  };
+  const input = {
+    estimateId: "estimate-1",
+    updatedAt: now,
+    projectUpdatedAt: now,
+    clientUpdatedAt: null,
+    brandingUpdatedAt: null,
+    categoriesUpdatedAt: now,
+    categoryCount: 9,
+    format: "pdf" as const,
+    options,
+  };
+  const key = buildEstimateCacheKey(input);
+  const summaryKey = buildEstimateCacheKey({
+    ...input,
+    options: { ...options, detailLevel: "summary" },
+  });
+  const hiddenCostsKey = buildEstimateCacheKey({
+    ...input,
+    options: { ...options, hideUnitCosts: true },
+  });
+
+  assert.equal(buildEstimateCacheKey({ ...input, options: { ...options } }), key);
+  assert.notEqual(summaryKey, key);
+  assert.notEqual(hiddenCostsKey, key);
+  assert.notEqual(summaryKey, hiddenCostsKey);
+  assert.notEqual(buildEstimateCacheKey({ ...input, options: null }), key);
+});
@@ -1,50 +1,54 @@
 import os from "os";
-import path from "path";
 import { randomUUID } from "crypto";
-import { promises as fs } from "fs";
-import { Category, Prisma } from "@prisma/client";
-import puppeteer from "puppeteer";
+import type { Readable } from "stream";
+import { PdfJobStatus, Prisma } from "@prisma/client";
 import { AppError } from "../errors/app-error";
 import { prisma } from "../prisma/client";
+import type { BrandingFieldsInput, QuotationSectionsInput } from "../schemas/branding.schemas";
+import { pdfOptionsSchema, type PdfLanguage, type PdfOptionsInput } from "../schemas/pdf.schemas";
+import { escapeHtml, formatMoney } from "../utils/format";
 import { logAudit } from "./audit.service";
-
-const CATEGORY_ORDER: Category[] = [
-  Category.CONCRETE_WORKS,
-  Category.MASONRY_WORKS,
-  Category.PAINTING_WORKS,
-  Category.FORMWORKS,
-  Category.STEEL_WORKS,
-  Category.CARPENTRY,
-  Category.DOORS_AND_WINDOWS,
-  Category.WATERPROOFING,
-  Category.GENERAL_REQUIREMENTS,
-];
-
-type PdfJobStatus = "pending" | "complete" | "failed";
-
-type EstimatePdfJob = {
-  id: string;
-  organizationId: string;
-  estimateId: string;
-  requestedBy: string;
-  cacheKey: string;
-  status: PdfJobStatus;
-  filePath?: string;
-  fileName?: string;
-  errorMessage?: string;
-  createdAt: Date;
-  updatedAt: Date;
-};
-
-type PdfCacheEntry = {
-  filePath: string;
-  fileName: string;
-};
+import {
+  loadQuotationBranding,
+  parseQuotationSections,
+  resolveQuotationSections,
+  type QuotationBranding,
+  type QuotationSections,
+} from "./branding.service";
+import {
+  closeBrowserPool,
+  getBrowserPoolMetrics,
+  withPooledPage,
+  type BrowserPoolMetrics,
+} from "./browser-pool.service";
+import {
+  loadOrganizationCategories,
+  rollUpCategorySubtotals,
+  type OrganizationCategory,
+} from "./category.service";
+import { clientContactSelect, getAttentionContact } from "./client.service";
+import {
+  calculateTotals,
+  parseCategoryMarkupRates,
+  parseMarkupComponents,
+  type CategoryMarkupRates,
+  type MarkupComponentTotal,
+} from "./estimate.service";
+import { renderEstimateWorkbook } from "./estimate-workbook.service";
+import { getFileStorage } from "./file-storage.service";
+
+type PdfJobApiStatus = "pending" | "complete" | "failed";
+
+/** Estimate exports share the PDF job queue, cache and download endpoint. */
+export type EstimateExportFormat = "pdf" | "xlsx";
 
 type EnqueueEstimatePdfInput = {
   organizationId: string;
   estimateId: string;
   requestedBy: string;
+  format?: EstimateExportFormat;
+  /** Layout of a PDF export; ignored for other formats. */
+  options?: PdfOptionsInput;
 };
 
 type GetPdfJobStatusInput = {
@@ -57,21 +61,75 @@ type GetPdfJobDownloadInput = {
   jobId: string;
 };
 
+type RenderQuotationPreviewInput = {
+  organizationId: string;
+  estimateId?: string;
+  options?: PdfOptionsInput;
+  branding?: BrandingFieldsInput;
+  sections?: QuotationSectionsInput;
+  overrides?: QuotationSectionsInput;
+};
+
+type GetPdfJobMetricsInput = {
+  organizationId: string;
+};
+
+type GetEstimatePdfFileInput = {
+  organizationId: string;
+  estimateId: string;
+  requestedBy: string;
+  options?: PdfOptionsInput;
+};
+
 export type EnqueueEstimatePdfResult = {
   jobId: string;
-  status: PdfJobStatus;
+  status: PdfJobApiStatus;
 };
 
 export type GetPdfJobStatusResult = {
   jobId: string;
-  status: PdfJobStatus;
+  status: PdfJobApiStatus;
   downloadUrl?: string;
   message?: string;
 };
 
+export type GetPdfJobMetricsResult = {
+  worker: {
+    running: boolean;
+    concurrency: number;
+    activeJobs: number;
+  };
+  queue: {
+    pending: number;
+    processing: number;
+  };
+  renderer: BrowserPoolMetrics;
+};
+
+export type EstimatePdfFile = {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+};
+
 export type GetPdfJobDownloadResult = {
-  filePath: string;
   fileName: string;
+  contentType: string;
+  openStream: () => Readable;
+};
+
+type EstimatePdfClient = {
+  name: string;
+  tin: string | null;
+  billingAddress: string | null;
+  email: string | null;
+  phone: string | null;
+  attention: {
+    name: string;
+    title: string | null;
+    email: string | null;
+    phone: string | null;
+  } | null;
 };
 
 type EstimatePdfData = {
@@ -79,8 +137,16 @@ type EstimatePdfData = {
   label: string | null;
   versionNumber: number;
   subtotal: Prisma.Decimal;
+  regionalMaterialFactor: Prisma.Decimal;
+  regionalLaborFactor: Prisma.Decimal;
+  regionalAdjustment: Prisma.Decimal;
   markupRate: Prisma.Decimal;
+  markupComponents: MarkupComponentTotal[];
+  categoryMarkupRates: CategoryMarkupRates;
+  overrideMarkupAmount: Prisma.Decimal;
   markupAmount: Prisma.Decimal;
+  vatableSales: Prisma.Decimal;
+  vatExemptSales: Prisma.Decimal;
   vatRate: Prisma.Decimal;
   vatAmount: Prisma.Decimal;
   totalAmount: Prisma.Decimal;
@@ -92,47 +158,230 @@ type EstimatePdfData = {
     location: string;
     projectType: string;
   };
+  client: EstimatePdfClient | null;
+  branding: QuotationBranding;
+  quotationOverrides: QuotationSectionsInput;
+  quotation: QuotationSections;
+  categories: OrganizationCategory[];
   lineItems: Array<{
     id: string;
-    category: Category;
+    category: string;
     description: string;
     quantity: Prisma.Decimal;
     unit: string;
     unitMaterialCost: Prisma.Decimal;
     unitLaborCost: Prisma.Decimal;
     totalCost: Prisma.Decimal;
+    markupRate: Prisma.Decimal | null;
+    vatExempt: boolean;
     calculationSource: string;
   }>;
   computations: Array<{
     id: string;
     formulaName: string;
     formulaVersion: number;
+    outputVariable: string | null;
     lineItemDescription: string;
+    lineItemCategory: string;
+    inputValues: Prisma.JsonValue;
+    inputUnits: Prisma.JsonValue;
+    computedResults: Prisma.JsonValue;
+    computedByName: string;
     computedAt: Date;
   }>;
 };
 
-const estimatePdfJobs = new Map<string, EstimatePdfJob>();
-const estimatePdfCache = new Map<string, PdfCacheEntry>();
+const EXPORT_CONTENT_TYPES: Record<EstimateExportFormat, string> = {
+  pdf: "application/pdf",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
 
-function escapeHtml(value: string): string {
-  return value
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
-}
+const PDF_JOB_MAX_ATTEMPTS = 3;
+const PDF_JOB_RETRY_BASE_DELAY_MS = 5_000;
+const PDF_JOB_POLL_INTERVAL_MS = 2_000;
+// A job still locked after this long belongs to a worker that died mid-render and is reclaimed.
+const PDF_JOB_LOCK_TIMEOUT_MS = 5 * 60_000;
+const DEFAULT_PDF_WORKER_CONCURRENCY = 2;
+
+const pdfJobSelect = {
+  id: true,
+  organizationId: true,
+  estimateId: true,
+  requestedBy: true,
+  format: true,
+  options: true,
+  status: true,
+  attempts: true,
+  storageKey: true,
+  fileName: true,
+  errorMessage: true,
+} satisfies Prisma.PdfJobSelect;
+
+type PdfJobRecord = Prisma.PdfJobGetPayload<{ select: typeof pdfJobSelect }>;
+
+const workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+let workerTimer: NodeJS.Timeout | null = null;
+type PdfLabels = {
+  estimate: string;
+  project: string;
+  location: string;
+  type: string;
+  estimateVersion: string;
+  generationDate: string;
+  preparedFor: string;
+  attention: string;
+  category: string;
+  description: string;
+  quantity: string;
+  unit: string;
+  unitMaterialCost: string;
+  unitLaborCost: string;
+  unitCost: string;
+  materialCost: string;
+  laborCost: string;
+  totalCost: string;
+  source: string;
+  calculationSources: Record<string, string>;
+  vatExemptItem: string;
+  subtotal: string;
+  estimateSubtotal: string;
+  regionalAdjustment: (materialFactor: string, laborFactor: string) => string;
+  markup: (rate: string) => string;
+  markupComponent: (name: string, rate: string, base: MarkupComponentTotal["base"]) => string;
+  overrideMarkup: string;
+  vatableSales: string;
+  vatExemptSales: string;
+  vat: (rate: string) => string;
+  grandTotal: string;
+  scopeOfWork: string;
+  paymentSchedule: string;
+  milestone: string;
+  share: string;
+  amount: string;
+  exclusions: string;
+  validity: string;
+  validityStatement: (days: number, validUntil: string) => string;
+  termsAndConditions: string;
+  formulaUsageSummary: string;
+  formula: string;
+  version: string;
+  lineItem: string;
+  computationDate: string;
+  noComputations: string;
+};
 
-function formatMoney(value: Prisma.Decimal): string {
-  const amount = Number(value.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP).toString());
-  return new Intl.NumberFormat("en-PH", {
-    style: "currency",
-    currency: "PHP",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
-}
+// Labels are plain text; callers escape them along with the values they are combined with.
+const PDF_LABELS: Record<PdfLanguage, PdfLabels> = {
+  en: {
+    estimate: "Estimate",
+    project: "Project",
+    location: "Location",
+    type: "Type",
+    estimateVersion: "Estimate Version",
+    generationDate: "Generation Date",
+    preparedFor: "Prepared for",
+    attention: "Attention",
+    category: "Category",
+    description: "Description",
+    quantity: "Quantity",
+    unit: "Unit",
+    unitMaterialCost: "Unit Material Cost",
+    unitLaborCost: "Unit Labor Cost",
+    unitCost: "Unit Cost",
+    materialCost: "Material Cost",
+    laborCost: "Labor Cost",
+    totalCost: "Total Cost",
+    source: "Source",
+    calculationSources: {},
+    vatExemptItem: "VAT-exempt",
+    subtotal: "Subtotal",
+    estimateSubtotal: "Estimate Subtotal",
+    regionalAdjustment: (materialFactor, laborFactor) =>
+      `Regional Adjustment (materials ×${materialFactor}, labor ×${laborFactor})`,
+    markup: (rate) => `Markup (${rate}%)`,
+    markupComponent: (name, rate, base) =>
+      `${name} (${rate}% of ${base === "RUNNING_TOTAL" ? "running total" : "direct cost"})`,
+    overrideMarkup: "Markup at category and item rates",
+    vatableSales: "VATable Sales",
+    vatExemptSales: "VAT-Exempt Sales",
+    vat: (rate) => `VAT (${rate}% of VATable sales)`,
+    grandTotal: "Grand Total",
+    scopeOfWork: "Scope of Work",
+    paymentSchedule: "Payment Schedule",
+    milestone: "Milestone",
+    share: "Share",
+    amount: "Amount",
+    exclusions: "Exclusions",
+    validity: "Validity",
+    validityStatement: (days, validUntil) =>
+      `This quotation is valid for ${days} day(s), until ${validUntil}.`,
+    termsAndConditions: "Terms and Conditions",
+    formulaUsageSummary: "Formula Usage Summary",
+    formula: "Formula",
+    version: "Version",
+    lineItem: "Line Item",
+    computationDate: "Computation Date",
+    noComputations: "No formula computations recorded.",
+  },
+  fil: {
+    estimate: "Tantiya",
+    project: "Proyekto",
+    location: "Lokasyon",
+    type: "Uri",
+    estimateVersion: "Bersyon ng Tantiya",
+    generationDate: "Petsa ng Paggawa",
+    preparedFor: "Inihanda para sa",
+    attention: "Para kay",
+    category: "Kategorya",
+    description: "Paglalarawan",
+    quantity: "Dami",
+    unit: "Yunit",
+    unitMaterialCost: "Materyales bawat Yunit",
+    unitLaborCost: "Paggawa bawat Yunit",
+    unitCost: "Halaga bawat Yunit",
+    materialCost: "Halaga ng Materyales",
+    laborCost: "Halaga ng Paggawa",
+    totalCost: "Kabuuang Halaga",
+    source: "Pinagmulan",
+    calculationSources: {
+      MANUAL: "Manwal",
+      COMPUTED: "Kinompyut",
+      ADJUSTED: "Inayos",
+    },
+    vatExemptItem: "walang VAT",
+    subtotal: "Subtotal",
+    estimateSubtotal: "Subtotal ng Tantiya",
+    regionalAdjustment: (materialFactor, laborFactor) =>
+      `Panrehiyong Pagsasaayos (materyales ×${materialFactor}, paggawa ×${laborFactor})`,
+    markup: (rate) => `Markup (${rate}%)`,
+    markupComponent: (name, rate, base) =>
+      `${name} (${rate}% ng ${base === "RUNNING_TOTAL" ? "tumatakbong kabuuan" : "direktang gastos"})`,
+    overrideMarkup: "Markup ayon sa kategorya at aytem",
+    vatableSales: "Benta na may VAT",
+    vatExemptSales: "Benta na walang VAT",
+    vat: (rate) => `VAT (${rate}% ng benta na may VAT)`,
+    grandTotal: "Kabuuang Babayaran",
+    scopeOfWork: "Saklaw ng Trabaho",
+    paymentSchedule: "Iskedyul ng Pagbabayad",
+    milestone: "Yugto",
+    share: "Bahagi",
+    amount: "Halaga",
+    exclusions: "Hindi Kasama",
+    validity: "Bisa ng Kwotasyon",
+    validityStatement: (days, validUntil) =>
+      `Ang kwotasyong ito ay may bisa sa loob ng ${days} araw, hanggang ${validUntil}.`,
+    termsAndConditions: "Mga Tuntunin at Kundisyon",
+    formulaUsageSummary: "Buod ng mga Ginamit na Formula",
+    formula: "Formula",
+    version: "Bersyon",
+    lineItem: "Aytem",
+    computationDate: "Petsa ng Pagkompyut",
+    noComputations: "Walang naitalang kompyutasyon ng formula.",
+  },
+};
+
+let isPolling = false;
+let activeJobCount = 0;
 
 function formatQuantity(value: Prisma.Decimal): string {
   return value.toDecimalPlaces(4, Prisma.Decimal.ROUND_HALF_UP).toString();
@@ -154,8 +403,8 @@ function formatDateTime(date: Date): string {
   return `${year}-${month}-${day} ${hours}:${minutes} UTC`;
 }
 
-function formatCategory(category: Category): string {
-  return category
+function formatCategoryCode(code: string): string {
+  return code
     .split("_")
     .map((segment) => `${segment[0]}${segment.slice(1).toLowerCase()}`)
     .join(" ");
@@ -169,23 +418,85 @@ function sanitizeFilename(value: string): string {
     .slice(0, 80);
 }
 
-async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
-  }
+function getDefaultPdfOptions(): PdfOptionsInput {
+  return pdfOptionsSchema.parse({});
+}
+
+function parsePdfOptions(value: Prisma.JsonValue): PdfOptionsInput {
+  const parsed = pdfOptionsSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : getDefaultPdfOptions();
 }
 
-function buildEstimateCacheKey(estimateId: string, updatedAt: Date): string {
-  return `${estimateId}:${updatedAt.getTime()}`;
+// Branding is part of the key so a new logo or edited terms are picked up by the next export, and
+// PDF options are so a summary requested for a client is never served from an itemized file. The
+// organization's categories head the line item groups, so renaming, moving or removing one
+// changes the key too.
+export function buildEstimateCacheKey(input: {
+  estimateId: string;
+  updatedAt: Date;
+  projectUpdatedAt: Date;
+  clientUpdatedAt: Date | null;
+  brandingUpdatedAt: Date | null;
+  categoriesUpdatedAt: Date | null;
+  categoryCount: number;
+  format: EstimateExportFormat;
+  options: PdfOptionsInput | null;
+}): string {
+  const variant = input.options
+    ? [
+        input.options.detailLevel,
+        input.options.costColumns,
+        input.options.language,
+        input.options.hideUnitCosts ? "no-unit-costs" : "unit-costs",
+        input.options.hideFormulaAppendix ? "no-formulas" : "formulas",
+      ].join(".")
+    : "default";
+
+  const sources = [
+    input.updatedAt.getTime(),
+    input.projectUpdatedAt.getTime(),
+    input.clientUpdatedAt?.getTime() ?? 0,
+    input.brandingUpdatedAt?.getTime() ?? 0,
+    input.categoriesUpdatedAt?.getTime() ?? 0,
+    input.categoryCount,
+  ].join(":");
+
+  return `${input.estimateId}:${sources}:${input.format}:${variant}`;
 }
 
-async function getPdfOutputDirectory(): Promise<string> {
-  const directory = path.join(os.tmpdir(), "estimatepro-ph", "pdf-jobs");
-  await fs.mkdir(directory, { recursive: true });
-  return directory;
+function buildExportFileName(
+  data: EstimatePdfData,
+  format: EstimateExportFormat,
+  options: PdfOptionsInput | null,
+): string {
+  const projectToken = sanitizeFilename(data.project.name) || "project";
+  const variantToken = options?.detailLevel === "summary" ? "-summary" : "";
+  return `${projectToken}-estimate-v${data.versionNumber}${variantToken}.${format}`;
+}
+
+function toExportFormat(value: string): EstimateExportFormat {
+  return value === "xlsx" ? "xlsx" : "pdf";
+}
+
+function toApiStatus(status: PdfJobStatus): PdfJobApiStatus {
+  if (status === PdfJobStatus.COMPLETE) {
+    return "complete";
+  }
+
+  return status === PdfJobStatus.FAILED ? "failed" : "pending";
+}
+
+function getPdfWorkerConcurrency(): number {
+  const parsed = Number.parseInt(
+    process.env.PDF_WORKER_CONCURRENCY ?? `${DEFAULT_PDF_WORKER_CONCURRENCY}`,
+    10,
+  );
+
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return DEFAULT_PDF_WORKER_CONCURRENCY;
+  }
+
+  return parsed;
 }
 
 function mapErrorMessage(error: unknown): string {
@@ -197,7 +508,7 @@ function mapErrorMessage(error: unknown): string {
     return error.message;
   }
 
-  return "Failed to generate PDF";
+  return "Failed to generate export";
 }
 
 async function getEstimateMetadataOrThrow(input: {
@@ -207,6 +518,11 @@ async function getEstimateMetadataOrThrow(input: {
   estimateId: string;
   versionNumber: number;
   updatedAt: Date;
+  projectUpdatedAt: Date;
+  clientUpdatedAt: Date | null;
+  brandingUpdatedAt: Date | null;
+  categoriesUpdatedAt: Date | null;
+  categoryCount: number;
   projectName: string;
 }> {
   const estimate = await prisma.estimate.findFirst({
@@ -224,6 +540,12 @@ async function getEstimateMetadataOrThrow(input: {
       project: {
         select: {
           name: true,
+          updatedAt: true,
+          client: {
+            select: {
+              updatedAt: true,
+            },
+          },
         },
       },
     },
@@ -233,14 +555,59 @@ async function getEstimateMetadataOrThrow(input: {
     throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
   }
 
+  const branding = await prisma.organizationBranding.findUnique({
+    where: { organizationId: input.organizationId },
+    select: { updatedAt: true },
+  });
+
+  const categories = await prisma.category.aggregate({
+    where: { organizationId: input.organizationId },
+    _max: { updatedAt: true },
+    _count: { _all: true },
+  });
+
   return {
     estimateId: estimate.id,
     versionNumber: estimate.versionNumber,
     updatedAt: estimate.updatedAt,
+    projectUpdatedAt: estimate.project.updatedAt,
+    clientUpdatedAt: estimate.project.client?.updatedAt ?? null,
+    brandingUpdatedAt: branding?.updatedAt ?? null,
+    categoriesUpdatedAt: categories._max.updatedAt,
+    categoryCount: categories._count._all,
     projectName: estimate.project.name,
   };
 }
 
+function toEstimatePdfClient(
+  client:
+    | (Omit<EstimatePdfClient, "attention"> & {
+        contacts: Array<NonNullable<EstimatePdfClient["attention"]> & { isPrimary: boolean }>;
+      })
+    | null,
+): EstimatePdfClient | null {
+  if (!client) {
+    return null;
+  }
+
+  const attention = getAttentionContact(client.contacts);
+  return {
+    name: client.name,
+    tin: client.tin,
+    billingAddress: client.billingAddress,
+    email: client.email,
+    phone: client.phone,
+    attention: attention
+      ? {
+          name: attention.name,
+          title: attention.title,
+          email: attention.email,
+          phone: attention.phone,
+        }
+      : null,
+  };
+}
+
 async function getEstimatePdfDataOrThrow(input: {
   organizationId: string;
   estimateId: string;
@@ -258,8 +625,16 @@ async function getEstimatePdfDataOrThrow(input: {
       label: true,
       versionNumber: true,
       subtotal: true,
+      regionalMaterialFactor: true,
+      regionalLaborFactor: true,
+      regionalAdjustment: true,
       markupRate: true,
+      markupComponents: true,
+      categoryMarkupRates: true,
+      quotationOverrides: true,
       markupAmount: true,
+      vatableSales: true,
+      vatExemptSales: true,
       vatRate: true,
       vatAmount: true,
       totalAmount: true,
@@ -270,6 +645,19 @@ async function getEstimatePdfDataOrThrow(input: {
           name: true,
           location: true,
           projectType: true,
+          client: {
+            select: {
+              name: true,
+              tin: true,
+              billingAddress: true,
+              email: true,
+              phone: true,
+              contacts: {
+                orderBy: { sortOrder: "asc" },
+                select: clientContactSelect,
+              },
+            },
+          },
           organization: {
             select: {
               name: true,
@@ -288,6 +676,8 @@ async function getEstimatePdfDataOrThrow(input: {
           unitMaterialCost: true,
           unitLaborCost: true,
           totalCost: true,
+          markupRate: true,
+          vatExempt: true,
           calculationSource: true,
         },
       },
@@ -296,6 +686,10 @@ async function getEstimatePdfDataOrThrow(input: {
         select: {
           id: true,
           formulaVersion: true,
+          outputVariable: true,
+          inputValues: true,
+          inputUnits: true,
+          computedResults: true,
           computedAt: true,
           formula: {
             select: {
@@ -305,6 +699,12 @@ async function getEstimatePdfDataOrThrow(input: {
           lineItem: {
             select: {
               description: true,
+              category: true,
+            },
+          },
+          computedByUser: {
+            select: {
+              name: true,
             },
           },
         },
@@ -316,7 +716,10 @@ async function getEstimatePdfDataOrThrow(input: {
     throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
   }
 
-  const categoryRank = new Map(CATEGORY_ORDER.map((category, index) => [category, index]));
+  const categories = await loadOrganizationCategories(prisma, input.organizationId);
+  const branding = await loadQuotationBranding(input.organizationId);
+  const quotationOverrides = parseQuotationSections(estimate.quotationOverrides);
+  const categoryRank = new Map(categories.map((category, index) => [category.code, index]));
   const sortedLineItems = [...estimate.lineItems].sort((left, right) => {
     const leftRank = categoryRank.get(left.category) ?? Number.MAX_SAFE_INTEGER;
     const rightRank = categoryRank.get(right.category) ?? Number.MAX_SAFE_INTEGER;
@@ -327,13 +730,36 @@ async function getEstimatePdfDataOrThrow(input: {
     return left.id.localeCompare(right.id);
   });
 
+  // Only the split between default and override markup is recomputed; totals come from the
+  // estimate as stored, with the regional factors it was last calculated with.
+  const categoryMarkupRates = parseCategoryMarkupRates(estimate.categoryMarkupRates);
+  const { overrideMarkupAmount } = calculateTotals({
+    lineItems: estimate.lineItems,
+    markupRate: estimate.markupRate,
+    markupComponents: parseMarkupComponents(estimate.markupComponents),
+    categoryMarkupRates,
+    vatRate: estimate.vatRate,
+    regionalFactors: {
+      materialFactor: estimate.regionalMaterialFactor,
+      laborFactor: estimate.regionalLaborFactor,
+    },
+  });
+
   return {
     id: estimate.id,
     label: estimate.label,
     versionNumber: estimate.versionNumber,
     subtotal: estimate.subtotal,
+    regionalMaterialFactor: estimate.regionalMaterialFactor,
+    regionalLaborFactor: estimate.regionalLaborFactor,
+    regionalAdjustment: estimate.regionalAdjustment,
     markupRate: estimate.markupRate,
+    markupComponents: parseMarkupComponents(estimate.markupComponents),
+    categoryMarkupRates,
+    overrideMarkupAmount,
     markupAmount: estimate.markupAmount,
+    vatableSales: estimate.vatableSales,
+    vatExemptSales: estimate.vatExemptSales,
     vatRate: estimate.vatRate,
     vatAmount: estimate.vatAmount,
     totalAmount: estimate.totalAmount,
@@ -345,6 +771,11 @@ async function getEstimatePdfDataOrThrow(input: {
       location: estimate.project.location,
       projectType: estimate.project.projectType,
     },
+    client: toEstimatePdfClient(estimate.project.client),
+    branding,
+    quotationOverrides,
+    quotation: resolveQuotationSections(branding.sections, quotationOverrides),
+    categories,
     lineItems: sortedLineItems.map((lineItem) => ({
       ...lineItem,
       calculationSource: lineItem.calculationSource,
@@ -353,59 +784,348 @@ async function getEstimatePdfDataOrThrow(input: {
       id: computation.id,
       formulaName: computation.formula.name,
       formulaVersion: computation.formulaVersion,
+      outputVariable: computation.outputVariable,
       lineItemDescription: computation.lineItem.description,
+      lineItemCategory: computation.lineItem.category,
+      inputValues: computation.inputValues,
+      inputUnits: computation.inputUnits,
+      computedResults: computation.computedResults,
+      computedByName: computation.computedByUser.name,
       computedAt: computation.computedAt,
     })),
   };
 }
 
-function buildPdfHtml(data: EstimatePdfData): string {
-  const groupedItems = new Map<Category, EstimatePdfData["lineItems"]>();
+function getValidUntil(data: EstimatePdfData): Date | null {
+  if (data.quotation.validityDays === null) {
+    return null;
+  }
+
+  return new Date(data.updatedAt.getTime() + data.quotation.validityDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Escapes section text and fills in `{{placeholder}}` tokens. Blank lines start a new paragraph
+ * and single line breaks are kept. Unknown placeholders are left as typed.
+ */
+function renderSectionText(text: string, data: EstimatePdfData): string {
+  const validUntil = getValidUntil(data);
+  const placeholders: Record<string, string> = {
+    organizationName: data.organizationName,
+    clientName: data.client?.name ?? "",
+    projectName: data.project.name,
+    projectLocation: data.project.location,
+    estimateVersion: `${data.versionNumber}`,
+    totalAmount: formatMoney(data.totalAmount),
+    validUntil: validUntil ? formatDate(validUntil) : "",
+  };
+
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .map((paragraph) => {
+      const filled = escapeHtml(paragraph).replace(/\{\{\s*(\w+)\s*\}\}/g, (token, name: string) =>
+        name in placeholders ? escapeHtml(placeholders[name]) : token,
+      );
+      return `<p>${filled.replace(/\r?\n/g, "<br />")}</p>`;
+    })
+    .join("");
+}
+
+function renderTextSection(title: string | null, text: string, data: EstimatePdfData): string {
+  if (text.trim().length === 0) {
+    return "";
+  }
+
+  return `
+    <section class="quotation-section">
+      ${title ? `<h2>${escapeHtml(title)}</h2>` : ""}
+      <div class="section-text">${renderSectionText(text, data)}</div>
+    </section>`;
+}
+
+function renderPaymentSchedule(data: EstimatePdfData, labels: PdfLabels): string {
+  const milestones = data.quotation.paymentSchedule;
+  if (milestones.length === 0) {
+    return "";
+  }
+
+  // The last milestone takes the rounding remainder so the amounts add up to the grand total.
+  const total = data.totalAmount.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+  let allocated = new Prisma.Decimal(0);
+  const rows = milestones
+    .map((milestone, index) => {
+      const amount =
+        index === milestones.length - 1
+          ? total.minus(allocated)
+          : total
+              .times(milestone.percentage)
+              .dividedBy(100)
+              .toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+      allocated = allocated.plus(amount);
+      return `
+          <tr>
+            <td>${escapeHtml(milestone.label)}</td>
+            <td class="text-right">${milestone.percentage}%</td>
+            <td class="text-right">${escapeHtml(formatMoney(amount))}</td>
+          </tr>`;
+    })
+    .join("");
+
+  return `
+    <section class="quotation-section">
+      <h2>${escapeHtml(labels.paymentSchedule)}</h2>
+      <table class="table">
+        <thead>
+          <tr>
+            <th>${escapeHtml(labels.milestone)}</th>
+            <th>${escapeHtml(labels.share)}</th>
+            <th>${escapeHtml(labels.amount)}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </section>`;
+}
+
+function renderValidity(data: EstimatePdfData, labels: PdfLabels): string {
+  const validUntil = getValidUntil(data);
+  if (!validUntil || data.quotation.validityDays === null) {
+    return "";
+  }
+
+  return `
+    <section class="quotation-section">
+      <h2>${escapeHtml(labels.validity)}</h2>
+      <p>${escapeHtml(labels.validityStatement(data.quotation.validityDays, formatDate(validUntil)))}</p>
+    </section>`;
+}
+
+function renderSignatureBlocks(data: EstimatePdfData): string {
+  if (data.quotation.signatureBlocks.length === 0) {
+    return "";
+  }
+
+  const blocks = data.quotation.signatureBlocks
+    .map(
+      (block) => `
+        <div class="signature-block">
+          <p class="signature-label">${escapeHtml(block.label)}</p>
+          <div class="signature-line"></div>
+          <p><strong>${escapeHtml(block.name ?? "")}</strong></p>
+          <p>${escapeHtml(block.title ?? "")}</p>
+        </div>`,
+    )
+    .join("");
+
+  return `
+    <section class="quotation-section signatures">
+      ${blocks}
+    </section>`;
+}
+
+function renderClientBlock(client: EstimatePdfClient | null, labels: PdfLabels): string {
+  if (!client) {
+    return "";
+  }
+
+  const contacts = [client.email, client.phone].filter((value): value is string => Boolean(value));
+  const attention = client.attention;
+  const attentionDetails = attention
+    ? [attention.title, attention.email, attention.phone].filter((value): value is string =>
+        Boolean(value),
+      )
+    : [];
+  const lines = [
+    `<strong>${escapeHtml(client.name)}</strong>`,
+    client.billingAddress ? escapeHtml(client.billingAddress).replace(/\r?\n/g, "<br />") : "",
+    client.tin ? `TIN: ${escapeHtml(client.tin)}` : "",
+    contacts.map(escapeHtml).join(" &middot; "),
+    attention
+      ? `${escapeHtml(labels.attention)}: ${escapeHtml(attention.name)}${
+          attentionDetails.length > 0
+            ? ` (${attentionDetails.map(escapeHtml).join(" &middot; ")})`
+            : ""
+        }`
+      : "",
+  ].filter((line) => line.length > 0);
+
+  return `
+      <div class="client-block">
+        <p class="client-heading">${escapeHtml(labels.preparedFor)}</p>
+        ${lines.map((line) => `<p>${line}</p>`).join("")}
+      </div>`;
+}
+
+function renderBrandingContacts(branding: QuotationBranding): string {
+  const contacts = [branding.email, branding.phone, branding.website].filter(
+    (value): value is string => Boolean(value),
+  );
+  const lines = [
+    branding.address ? escapeHtml(branding.address).replace(/\r?\n/g, "<br />") : "",
+    branding.tin ? `TIN: ${escapeHtml(branding.tin)}` : "",
+    contacts.map(escapeHtml).join(" &middot; "),
+  ].filter((line) => line.length > 0);
+
+  return lines.map((line) => `<p class="org-contact">${line}</p>`).join("");
+}
+
+/**
+ * Renders the estimate document. `options` picks the client-facing variant: a summary shows only
+ * category lump sums, unit costs may be hidden, material and labor may be shown as one column,
+ * and labels may be in Filipino. Amounts are the same in every variant.
+ */
+function buildPdfHtml(data: EstimatePdfData, options: PdfOptionsInput): string {
+  const labels = PDF_LABELS[options.language];
+  const isSummary = options.detailLevel === "summary";
+  const isSplit = options.costColumns === "split";
+
+  const groupedItems = new Map<string, EstimatePdfData["lineItems"]>();
+  const directSubtotals: Record<string, Prisma.Decimal> = {};
+  const directMaterialCosts: Record<string, Prisma.Decimal> = {};
   for (const item of data.lineItems) {
     const group = groupedItems.get(item.category) ?? [];
     group.push(item);
     groupedItems.set(item.category, group);
+    directSubtotals[item.category] = (directSubtotals[item.category] ?? new Prisma.Decimal(0)).plus(
+      item.totalCost,
+    );
+    directMaterialCosts[item.category] = (
+      directMaterialCosts[item.category] ?? new Prisma.Decimal(0)
+    ).plus(
+      item.quantity.times(item.unitMaterialCost).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP),
+    );
   }
 
-  const itemRows = CATEGORY_ORDER.filter((category) => groupedItems.has(category))
-    .map((category) => {
-      const group = groupedItems.get(category) ?? [];
-      const subtotal = group.reduce(
-        (accumulator, lineItem) => accumulator.plus(lineItem.totalCost),
-        new Prisma.Decimal(0),
-      );
+  const rolledUpSubtotals = rollUpCategorySubtotals(data.categories, directSubtotals);
+  const rolledUpMaterialCosts = rollUpCategorySubtotals(data.categories, directMaterialCosts);
+  const childrenByParent = new Map<string | null, OrganizationCategory[]>();
+  for (const category of data.categories) {
+    const siblings = childrenByParent.get(category.parentId) ?? [];
+    siblings.push(category);
+    childrenByParent.set(category.parentId, siblings);
+  }
+
+  const unitCostHeaders = options.hideUnitCosts
+    ? []
+    : isSplit
+      ? [labels.unitMaterialCost, labels.unitLaborCost]
+      : [labels.unitCost];
+  const columnHeaders = isSummary
+    ? [
+        labels.category,
+        ...(isSplit ? [labels.materialCost, labels.laborCost] : []),
+        labels.totalCost,
+      ]
+    : [
+        labels.description,
+        labels.quantity,
+        labels.unit,
+        ...unitCostHeaders,
+        labels.totalCost,
+        labels.source,
+      ];
+  const columnCount = columnHeaders.length;
+  const headerRow = columnHeaders.map((header) => `<th>${escapeHtml(header)}</th>`).join("");
+
+  const renderLineItemRows = (group: EstimatePdfData["lineItems"]): string =>
+    group
+      .map((lineItem) => {
+        const unitCostCells = options.hideUnitCosts
+          ? ""
+          : isSplit
+            ? `
+            <td class="text-right">${escapeHtml(formatMoney(lineItem.unitMaterialCost))}</td>
+            <td class="text-right">${escapeHtml(formatMoney(lineItem.unitLaborCost))}</td>`
+            : `
+            <td class="text-right">${escapeHtml(formatMoney(lineItem.unitMaterialCost.plus(lineItem.unitLaborCost)))}</td>`;
 
-      const rows = group
-        .map(
-          (lineItem) => `
+        return `
           <tr>
-            <td>${escapeHtml(lineItem.description)}</td>
+            <td>${escapeHtml(lineItem.description)}${lineItem.vatExempt ? ` (${escapeHtml(labels.vatExemptItem)})` : ""}</td>
             <td class="text-right">${escapeHtml(formatQuantity(lineItem.quantity))}</td>
-            <td>${escapeHtml(lineItem.unit)}</td>
-            <td class="text-right">${escapeHtml(formatMoney(lineItem.unitMaterialCost))}</td>
-            <td class="text-right">${escapeHtml(formatMoney(lineItem.unitLaborCost))}</td>
+            <td>${escapeHtml(lineItem.unit)}</td>${unitCostCells}
             <td class="text-right">${escapeHtml(formatMoney(lineItem.totalCost))}</td>
-            <td>${escapeHtml(lineItem.calculationSource)}</td>
-          </tr>`,
-        )
-        .join("");
-
+            <td>${escapeHtml(labels.calculationSources[lineItem.calculationSource] ?? lineItem.calculationSource)}</td>
+          </tr>`;
+      })
+      .join("");
+
+  const renderGroup = (input: {
+    label: string;
+    depth: number;
+    body: string;
+    subtotal: Prisma.Decimal;
+    materialCost: Prisma.Decimal;
+  }): string => {
+    if (isSummary) {
+      const splitCells = isSplit
+        ? `
+          <td class="text-right">${escapeHtml(formatMoney(input.materialCost))}</td>
+          <td class="text-right">${escapeHtml(formatMoney(input.subtotal.minus(input.materialCost)))}</td>`
+        : "";
       return `
-        <tr class="category-row">
-          <td colspan="7">${escapeHtml(formatCategory(category))}</td>
+        <tr class="${input.depth === 1 ? "category-row " : ""}category-depth-${input.depth}">
+          <td>${escapeHtml(input.label)}</td>${splitCells}
+          <td class="text-right">${escapeHtml(formatMoney(input.subtotal))}</td>
         </tr>
-        ${rows}
-        <tr class="subtotal-row">
-          <td colspan="5">Category Subtotal</td>
-          <td class="text-right">${escapeHtml(formatMoney(subtotal))}</td>
+        ${input.body}`;
+    }
+
+    return `
+        <tr class="category-row category-depth-${input.depth}">
+          <td colspan="${columnCount}">${escapeHtml(input.label)}</td>
+        </tr>
+        ${input.body}
+        <tr class="subtotal-row category-depth-${input.depth}">
+          <td colspan="${columnCount - 2}">${escapeHtml(`${labels.subtotal} — ${input.label}`)}</td>
+          <td class="text-right">${escapeHtml(formatMoney(input.subtotal))}</td>
           <td></td>
         </tr>`;
-    })
+  };
+
+  // Categories are rendered as nested groups; a category is shown only when it or one of its
+  // subcategories has line items, and its subtotal covers everything below it. A summary lists
+  // the groups without their line items.
+  const renderCategory = (category: OrganizationCategory): string => {
+    const subtotal = rolledUpSubtotals[category.code];
+    if (!subtotal) {
+      return "";
+    }
+
+    const children = (childrenByParent.get(category.id) ?? []).map(renderCategory).join("");
+    const lineItemRows = isSummary ? "" : renderLineItemRows(groupedItems.get(category.code) ?? []);
+    return renderGroup({
+      label: `${category.code} ${category.name}`,
+      depth: category.depth,
+      body: `${lineItemRows}${children}`,
+      subtotal,
+      materialCost: rolledUpMaterialCosts[category.code] ?? new Prisma.Decimal(0),
+    });
+  };
+
+  const knownCodes = new Set(data.categories.map((category) => category.code));
+  const unknownCategoryRows = Array.from(groupedItems.entries())
+    .filter(([code]) => !knownCodes.has(code))
+    .map(([code, group]) =>
+      renderGroup({
+        label: formatCategoryCode(code),
+        depth: 1,
+        body: isSummary ? "" : renderLineItemRows(group),
+        subtotal: directSubtotals[code],
+        materialCost: directMaterialCosts[code],
+      }),
+    )
     .join("");
 
+  const itemRows = `${(childrenByParent.get(null) ?? []).map(renderCategory).join("")}${unknownCategoryRows}`;
+
   const formulaUsageRows =
     data.computations.length === 0
-      ? `<tr><td colspan="4">No formula computations recorded.</td></tr>`
+      ? `<tr><td colspan="4">${escapeHtml(labels.noComputations)}</td></tr>`
       : data.computations
           .map(
             (computation) => `
@@ -418,12 +1138,74 @@ function buildPdfHtml(data: EstimatePdfData): string {
           )
           .join("");
 
+  const hasRegionalFactors =
+    !data.regionalMaterialFactor.equals(1) || !data.regionalLaborFactor.equals(1);
+  const regionalAdjustmentRow = hasRegionalFactors
+    ? `
+        <tr>
+          <td>${escapeHtml(labels.regionalAdjustment(data.regionalMaterialFactor.toString(), data.regionalLaborFactor.toString()))}</td>
+          <td class="text-right">${escapeHtml(formatMoney(data.regionalAdjustment))}</td>
+        </tr>`
+    : "";
+
+  const defaultMarkupAmount = data.markupAmount.minus(data.overrideMarkupAmount);
+  const defaultMarkupRows =
+    data.markupComponents.length === 0
+      ? !defaultMarkupAmount.isZero() || data.overrideMarkupAmount.isZero()
+        ? `
+        <tr>
+          <td>${escapeHtml(labels.markup(data.markupRate.toString()))}</td>
+          <td class="text-right">${escapeHtml(formatMoney(defaultMarkupAmount))}</td>
+        </tr>`
+        : ""
+      : data.markupComponents
+          .map(
+            (component) => `
+        <tr>
+          <td>${escapeHtml(labels.markupComponent(component.name, component.rate.toString(), component.base))}</td>
+          <td class="text-right">${escapeHtml(formatMoney(component.amount))}</td>
+        </tr>`,
+          )
+          .join("");
+  const markupRows = data.overrideMarkupAmount.isZero()
+    ? defaultMarkupRows
+    : `${defaultMarkupRows}
+        <tr>
+          <td>${escapeHtml(labels.overrideMarkup)}</td>
+          <td class="text-right">${escapeHtml(formatMoney(data.overrideMarkupAmount))}</td>
+        </tr>`;
+
+  const formulaAppendix = options.hideFormulaAppendix
+    ? ""
+    : `
+    <section class="formula-page">
+      <h2>${escapeHtml(labels.formulaUsageSummary)}</h2>
+      <table class="table" style="margin-top: 10px;">
+        <thead>
+          <tr>
+            <th>${escapeHtml(labels.formula)}</th>
+            <th>${escapeHtml(labels.version)}</th>
+            <th>${escapeHtml(labels.lineItem)}</th>
+            <th>${escapeHtml(labels.computationDate)}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${formulaUsageRows}
+        </tbody>
+      </table>
+    </section>`;
+
+  const { branding, quotation } = data;
+  const logo = branding.logoDataUri
+    ? `<img class="logo" src="${escapeHtml(branding.logoDataUri)}" alt="" />`
+    : "";
+
   const estimateTitle = data.label?.trim().length
-    ? `Estimate ${escapeHtml(data.label.trim())}`
-    : `Estimate v${data.versionNumber}`;
+    ? `${escapeHtml(labels.estimate)} ${escapeHtml(data.label.trim())}`
+    : `${escapeHtml(labels.estimate)} v${data.versionNumber}`;
 
   return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${options.language}">
   <head>
     <meta charset="UTF-8" />
     <style>
@@ -446,7 +1228,7 @@ function buildPdfHtml(data: EstimatePdfData): string {
       }
 
       .header {
-        border-bottom: 1px solid #d1d5db;
+        border-bottom: 2px solid ${branding.primaryColor};
         padding-bottom: 12px;
         margin-bottom: 14px;
       }
@@ -461,14 +1243,36 @@ function buildPdfHtml(data: EstimatePdfData): string {
       .org-name {
         font-size: 14pt;
         font-weight: 700;
+        color: ${branding.primaryColor};
       }
 
-      .logo-placeholder {
+      .org-contact {
         font-size: 9pt;
-        color: #6b7280;
-        border: 1px dashed #9ca3af;
-        border-radius: 4px;
-        padding: 6px 10px;
+        color: #4b5563;
+      }
+
+      .logo {
+        max-height: 56px;
+        max-width: 180px;
+        object-fit: contain;
+      }
+
+      .client-block {
+        margin-top: 10px;
+        padding: 8px 10px;
+        border-left: 3px solid ${branding.primaryColor};
+        background: ${branding.accentColor};
+      }
+
+      .client-block p {
+        margin: 2px 0;
+      }
+
+      .client-heading {
+        font-size: 8pt;
+        text-transform: uppercase;
+        letter-spacing: 0.08em;
+        color: #4b5563;
       }
 
       .project-meta {
@@ -498,7 +1302,7 @@ function buildPdfHtml(data: EstimatePdfData): string {
       }
 
       .category-row td {
-        background: #f3f4f6;
+        background: ${branding.accentColor};
         font-weight: 700;
       }
 
@@ -507,6 +1311,14 @@ function buildPdfHtml(data: EstimatePdfData): string {
         font-weight: 600;
       }
 
+      .category-depth-2 td:first-child {
+        padding-left: 20px;
+      }
+
+      .category-depth-3 td:first-child {
+        padding-left: 32px;
+      }
+
       .text-right {
         text-align: right;
       }
@@ -526,6 +1338,41 @@ function buildPdfHtml(data: EstimatePdfData): string {
       .totals .grand-total td {
         font-weight: 700;
         font-size: 11pt;
+        color: ${branding.primaryColor};
+      }
+
+      .quotation-section {
+        margin-top: 14px;
+        page-break-inside: avoid;
+      }
+
+      .quotation-section h2 {
+        font-size: 11pt;
+        color: ${branding.primaryColor};
+        margin-bottom: 6px;
+      }
+
+      .section-text p + p {
+        margin-top: 6px;
+      }
+
+      .signatures {
+        display: flex;
+        gap: 24px;
+        margin-top: 28px;
+      }
+
+      .signature-block {
+        flex: 1;
+      }
+
+      .signature-label {
+        margin-bottom: 32px;
+      }
+
+      .signature-line {
+        border-bottom: 1px solid #111827;
+        margin-bottom: 4px;
       }
 
       .formula-page {
@@ -538,30 +1385,27 @@ function buildPdfHtml(data: EstimatePdfData): string {
       <div class="header-top">
         <div>
           <h1 class="org-name">${escapeHtml(data.organizationName)}</h1>
+          ${renderBrandingContacts(branding)}
           <p>${estimateTitle}</p>
         </div>
-        <div class="logo-placeholder">Logo</div>
+        ${logo}
       </div>
+      ${renderClientBlock(data.client, labels)}
       <div class="project-meta">
-        <p><strong>Project:</strong> ${escapeHtml(data.project.name)}</p>
-        <p><strong>Location:</strong> ${escapeHtml(data.project.location)}</p>
-        <p><strong>Type:</strong> ${escapeHtml(data.project.projectType)}</p>
-        <p><strong>Estimate Version:</strong> ${data.versionNumber}</p>
-        <p><strong>Generation Date:</strong> ${escapeHtml(formatDate(data.updatedAt))}</p>
+        <p><strong>${escapeHtml(labels.project)}:</strong> ${escapeHtml(data.project.name)}</p>
+        <p><strong>${escapeHtml(labels.location)}:</strong> ${escapeHtml(data.project.location)}</p>
+        <p><strong>${escapeHtml(labels.type)}:</strong> ${escapeHtml(data.project.projectType)}</p>
+        <p><strong>${escapeHtml(labels.estimateVersion)}:</strong> ${data.versionNumber}</p>
+        <p><strong>${escapeHtml(labels.generationDate)}:</strong> ${escapeHtml(formatDate(data.updatedAt))}</p>
       </div>
     </section>
 
+    ${renderTextSection(null, quotation.coverLetter, data)}
+    ${renderTextSection(labels.scopeOfWork, quotation.scopeNotes, data)}
+
     <table class="table">
       <thead>
-        <tr>
-          <th>Description</th>
-          <th>Quantity</th>
-          <th>Unit</th>
-          <th>Unit Material Cost</th>
-          <th>Unit Labor Cost</th>
-          <th>Total Cost</th>
-          <th>Source</th>
-        </tr>
+        <tr>${headerRow}</tr>
       </thead>
       <tbody>
         ${itemRows}
@@ -571,63 +1415,51 @@ function buildPdfHtml(data: EstimatePdfData): string {
     <table class="totals">
       <tbody>
         <tr>
-          <td>Estimate Subtotal</td>
+          <td>${escapeHtml(labels.estimateSubtotal)}</td>
           <td class="text-right">${escapeHtml(formatMoney(data.subtotal))}</td>
         </tr>
+        ${regionalAdjustmentRow}
+        ${markupRows}
         <tr>
-          <td>Markup (${data.markupRate.toString()}%)</td>
-          <td class="text-right">${escapeHtml(formatMoney(data.markupAmount))}</td>
+          <td>${escapeHtml(labels.vatableSales)}</td>
+          <td class="text-right">${escapeHtml(formatMoney(data.vatableSales))}</td>
         </tr>
         <tr>
-          <td>VAT (${data.vatRate.toString()}%)</td>
+          <td>${escapeHtml(labels.vatExemptSales)}</td>
+          <td class="text-right">${escapeHtml(formatMoney(data.vatExemptSales))}</td>
+        </tr>
+        <tr>
+          <td>${escapeHtml(labels.vat(data.vatRate.toString()))}</td>
           <td class="text-right">${escapeHtml(formatMoney(data.vatAmount))}</td>
         </tr>
         <tr class="grand-total">
-          <td>Grand Total</td>
+          <td>${escapeHtml(labels.grandTotal)}</td>
           <td class="text-right">${escapeHtml(formatMoney(data.totalAmount))}</td>
         </tr>
       </tbody>
     </table>
 
-    <section class="formula-page">
-      <h2>Formula Usage Summary</h2>
-      <table class="table" style="margin-top: 10px;">
-        <thead>
-          <tr>
-            <th>Formula</th>
-            <th>Version</th>
-            <th>Line Item</th>
-            <th>Computation Date</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${formulaUsageRows}
-        </tbody>
-      </table>
-    </section>
+    ${renderPaymentSchedule(data, labels)}
+    ${renderTextSection(labels.exclusions, quotation.exclusions, data)}
+    ${renderValidity(data, labels)}
+    ${renderTextSection(labels.termsAndConditions, quotation.termsAndConditions, data)}
+    ${renderSignatureBlocks(data)}
+    ${formulaAppendix}
   </body>
 </html>`;
 }
 
-function buildFooterTemplate(data: EstimatePdfData): string {
+function buildFooterTemplate(data: EstimatePdfData, options: PdfOptionsInput): string {
   return `
   <div style="width:100%;font-size:9px;color:#6b7280;padding:0 16px;display:flex;justify-content:space-between;box-sizing:border-box;">
     <span>${escapeHtml(data.organizationName)}</span>
-    <span>Estimate v${data.versionNumber}</span>
+    <span>${escapeHtml(PDF_LABELS[options.language].estimate)} v${data.versionNumber}</span>
     <span><span class="pageNumber"></span> / <span class="totalPages"></span></span>
   </div>`;
 }
 
 async function renderPdfBuffer(input: { html: string; footerTemplate: string }): Promise<Buffer> {
-  const executablePath = process.env.PUPPETEER_EXECUTABLE_PATH;
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: ["--no-sandbox", "--disable-setuid-sandbox"],
-    ...(executablePath ? { executablePath } : {}),
-  });
-
-  try {
-    const page = await browser.newPage();
+  return withPooledPage(async (page) => {
     await page.setContent(input.html, { waitUntil: "networkidle0" });
     const pdf = await page.pdf({
       format: "A4",
@@ -645,65 +1477,268 @@ async function renderPdfBuffer(input: { html: string; footerTemplate: string }):
     });
 
     return Buffer.from(pdf);
-  } finally {
-    await browser.close();
+  });
+}
+
+/** Latest finished export with the same cache key whose file is still in storage. */
+async function findCachedExport(
+  organizationId: string,
+  cacheKey: string,
+): Promise<{ storageKey: string; fileName: string } | null> {
+  const cached = await prisma.pdfJob.findFirst({
+    where: {
+      organizationId,
+      cacheKey,
+      status: PdfJobStatus.COMPLETE,
+    },
+    orderBy: { completedAt: "desc" },
+    select: {
+      storageKey: true,
+      fileName: true,
+    },
+  });
+
+  if (!cached?.storageKey || !cached.fileName) {
+    return null;
   }
+
+  const exists = await getFileStorage().exists(cached.storageKey);
+  return exists ? { storageKey: cached.storageKey, fileName: cached.fileName } : null;
 }
 
-function getPdfJobOrThrow(input: GetPdfJobStatusInput): EstimatePdfJob {
-  const job = estimatePdfJobs.get(input.jobId);
-  if (!job || job.organizationId !== input.organizationId) {
-    throw new AppError(404, "PDF_JOB_NOT_FOUND", "PDF job not found");
+async function getPdfJobOrThrow(input: GetPdfJobStatusInput): Promise<PdfJobRecord> {
+  const job = await prisma.pdfJob.findFirst({
+    where: {
+      id: input.jobId,
+      organizationId: input.organizationId,
+    },
+    select: pdfJobSelect,
+  });
+
+  if (!job) {
+    throw new AppError(404, "PDF_JOB_NOT_FOUND", "Export job not found");
   }
 
   return job;
 }
 
-async function processEstimatePdfJob(jobId: string): Promise<void> {
-  const job = estimatePdfJobs.get(jobId);
-  if (!job || job.status !== "pending") {
-    return;
+/**
+ * Runnable jobs: pending jobs that are due, and jobs whose worker has held the lock past the
+ * timeout (it most likely died) while attempts remain.
+ */
+export function getClaimablePdfJobsWhere(now: Date): Prisma.PdfJobWhereInput {
+  return {
+    OR: [
+      { status: PdfJobStatus.PENDING, runAfter: { lte: now } },
+      {
+        status: PdfJobStatus.PROCESSING,
+        lockedAt: { lt: new Date(now.getTime() - PDF_JOB_LOCK_TIMEOUT_MS) },
+        attempts: { lt: PDF_JOB_MAX_ATTEMPTS },
+      },
+    ],
+  };
+}
+
+/** Stale jobs that have used up their attempts and will not be claimed again. */
+export function getAbandonedPdfJobsWhere(now: Date): Prisma.PdfJobWhereInput {
+  return {
+    status: PdfJobStatus.PROCESSING,
+    lockedAt: { lt: new Date(now.getTime() - PDF_JOB_LOCK_TIMEOUT_MS) },
+    attempts: { gte: PDF_JOB_MAX_ATTEMPTS },
+  };
+}
+
+/**
+ * When a failed attempt should run again, doubling the delay after each attempt, or null when the
+ * job should fail. Client errors such as a deleted estimate will not succeed on retry.
+ */
+export function getPdfJobRetryAt(error: unknown, attempts: number, now: Date): Date | null {
+  if ((error instanceof AppError && error.statusCode < 500) || attempts >= PDF_JOB_MAX_ATTEMPTS) {
+    return null;
   }
 
+  return new Date(now.getTime() + PDF_JOB_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+}
+
+/**
+ * Claims the oldest runnable job for this worker. The claim is a conditional update on the state
+ * the job was read in, so two workers polling the same table never render the same job.
+ */
+async function claimNextPdfJob(): Promise<PdfJobRecord | null> {
+  const now = new Date();
+
+  for (let attempt = 0; attempt < 3; attempt += 1) {
+    const candidate = await prisma.pdfJob.findFirst({
+      where: getClaimablePdfJobsWhere(now),
+      orderBy: [{ runAfter: "asc" }, { createdAt: "asc" }],
+      select: { id: true, status: true, lockedAt: true },
+    });
+
+    if (!candidate) {
+      return null;
+    }
+
+    const claimed = await prisma.pdfJob.updateMany({
+      where: {
+        id: candidate.id,
+        status: candidate.status,
+        lockedAt: candidate.lockedAt,
+      },
+      data: {
+        status: PdfJobStatus.PROCESSING,
+        lockedAt: now,
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 1) {
+      return prisma.pdfJob.findUnique({
+        where: { id: candidate.id },
+        select: pdfJobSelect,
+      });
+    }
+  }
+
+  return null;
+}
+
+async function failAbandonedPdfJobs(): Promise<void> {
+  await prisma.pdfJob.updateMany({
+    where: getAbandonedPdfJobsWhere(new Date()),
+    data: {
+      status: PdfJobStatus.FAILED,
+      errorMessage: "Export generation did not finish",
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+}
+
+async function processPdfJob(job: PdfJobRecord): Promise<void> {
+  const format = toExportFormat(job.format);
+  const options = format === "pdf" ? parsePdfOptions(job.options) : null;
+
   try {
     const data = await getEstimatePdfDataOrThrow({
       organizationId: job.organizationId,
       estimateId: job.estimateId,
     });
 
-    const html = buildPdfHtml(data);
-    const footerTemplate = buildFooterTemplate(data);
-    const pdfBuffer = await renderPdfBuffer({ html, footerTemplate });
-    const outputDirectory = await getPdfOutputDirectory();
-    const filePath = path.join(outputDirectory, `${job.id}.pdf`);
-    await fs.writeFile(filePath, pdfBuffer);
-
-    const projectToken = sanitizeFilename(data.project.name) || "project";
-    const fileName = `${projectToken}-estimate-v${data.versionNumber}.pdf`;
+    const fileBuffer = options
+      ? await renderPdfBuffer({
+          html: buildPdfHtml(data, options),
+          footerTemplate: buildFooterTemplate(data, options),
+        })
+      : await renderEstimateWorkbook(data);
+    const storageKey = `pdf-jobs/${job.id}.${format}`;
+    await getFileStorage().put(storageKey, fileBuffer);
+
+    const fileName = buildExportFileName(data, format, options);
+
+    const completed = await prisma.pdfJob.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: {
+        status: PdfJobStatus.COMPLETE,
+        storageKey,
+        fileName,
+        errorMessage: null,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+      },
+    });
 
-    job.status = "complete";
-    job.filePath = filePath;
-    job.fileName = fileName;
-    job.updatedAt = new Date();
-    estimatePdfCache.set(job.cacheKey, { filePath, fileName });
+    if (completed.count === 0) {
+      return;
+    }
 
     await logAudit({
       organizationId: job.organizationId,
       entityType: "Estimate",
       entityId: data.id,
-      action: "ESTIMATE_PDF_GENERATED",
+      action: format === "xlsx" ? "ESTIMATE_XLSX_GENERATED" : "ESTIMATE_PDF_GENERATED",
       beforeState: {},
       afterState: {
         jobId: job.id,
         fileName,
+        ...(options ? { options } : {}),
       },
       performedBy: job.requestedBy,
     });
   } catch (error) {
-    job.status = "failed";
-    job.errorMessage = mapErrorMessage(error);
-    job.updatedAt = new Date();
+    const retryAt = getPdfJobRetryAt(error, job.attempts, new Date());
+
+    await prisma.pdfJob.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: {
+        status: retryAt ? PdfJobStatus.PENDING : PdfJobStatus.FAILED,
+        errorMessage: mapErrorMessage(error),
+        lockedAt: null,
+        lockedBy: null,
+        ...(retryAt ? { runAfter: retryAt } : {}),
+      },
+    });
+  }
+}
+
+/**
+ * Claims runnable jobs until this process is rendering `PDF_WORKER_CONCURRENCY` of them. Each
+ * finished job triggers another poll so queued work does not wait for the next interval.
+ */
+async function pollPdfJobs(): Promise<void> {
+  if (isPolling || !workerTimer) {
+    return;
   }
+
+  isPolling = true;
+  try {
+    await failAbandonedPdfJobs();
+
+    while (activeJobCount < getPdfWorkerConcurrency()) {
+      const job = await claimNextPdfJob();
+      if (!job) {
+        break;
+      }
+
+      activeJobCount += 1;
+      void processPdfJob(job).finally(() => {
+        activeJobCount -= 1;
+        setImmediate(() => {
+          void pollPdfJobs();
+        });
+      });
+    }
+  } catch (error) {
+    console.error("PDF job polling failed.", error);
+  } finally {
+    isPolling = false;
+  }
+}
+
+export function startPdfJobWorker(): void {
+  if (workerTimer) {
+    return;
+  }
+
+  workerTimer = setInterval(() => {
+    void pollPdfJobs();
+  }, PDF_JOB_POLL_INTERVAL_MS);
+  workerTimer.unref();
+  void pollPdfJobs();
+}
+
+/**
+ * Stops claiming new jobs and closes the browser pool. Jobs interrupted by the shutdown are
+ * retried, here or on another instance, once their lock times out.
+ */
+export async function stopPdfJobWorker(): Promise<void> {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+
+  await closeBrowserPool();
 }
 
 export async function enqueueEstimatePdfJob(
@@ -714,74 +1749,270 @@ export async function enqueueEstimatePdfJob(
     estimateId: input.estimateId,
   });
 
-  const cacheKey = buildEstimateCacheKey(metadata.estimateId, metadata.updatedAt);
-  const cached = estimatePdfCache.get(cacheKey);
-  const jobId = randomUUID();
-  const now = new Date();
-
-  const job: EstimatePdfJob = {
-    id: jobId,
-    organizationId: input.organizationId,
+  const format = input.format ?? "pdf";
+  const options = format === "pdf" ? (input.options ?? getDefaultPdfOptions()) : null;
+  const cacheKey = buildEstimateCacheKey({
     estimateId: metadata.estimateId,
-    requestedBy: input.requestedBy,
-    cacheKey,
-    status: "pending",
-    createdAt: now,
-    updatedAt: now,
-  };
+    updatedAt: metadata.updatedAt,
+    projectUpdatedAt: metadata.projectUpdatedAt,
+    clientUpdatedAt: metadata.clientUpdatedAt,
+    brandingUpdatedAt: metadata.brandingUpdatedAt,
+    categoriesUpdatedAt: metadata.categoriesUpdatedAt,
+    categoryCount: metadata.categoryCount,
+    format,
+    options,
+  });
+  const cached = await findCachedExport(input.organizationId, cacheKey);
+
+  const job = await prisma.pdfJob.create({
+    data: {
+      organizationId: input.organizationId,
+      estimateId: metadata.estimateId,
+      requestedBy: input.requestedBy,
+      format,
+      options: options ?? {},
+      cacheKey,
+      ...(cached
+        ? {
+            status: PdfJobStatus.COMPLETE,
+            storageKey: cached.storageKey,
+            fileName: cached.fileName,
+            completedAt: new Date(),
+          }
+        : { status: PdfJobStatus.PENDING }),
+    },
+    select: {
+      id: true,
+      status: true,
+    },
+  });
 
-  if (cached && (await fileExists(cached.filePath))) {
-    job.status = "complete";
-    job.filePath = cached.filePath;
-    job.fileName = cached.fileName;
-  } else {
+  if (job.status === PdfJobStatus.PENDING) {
     setImmediate(() => {
-      void processEstimatePdfJob(jobId);
+      void pollPdfJobs();
     });
   }
 
-  estimatePdfJobs.set(jobId, job);
+  return {
+    jobId: job.id,
+    status: toApiStatus(job.status),
+  };
+}
+
+/**
+ * Returns the quotation PDF for an estimate, reusing a cached export when one matches. On a cache
+ * miss the PDF is rendered in the request and recorded as a finished job, so later downloads and
+ * sends reuse it.
+ */
+export async function getEstimatePdfFile(input: GetEstimatePdfFileInput): Promise<EstimatePdfFile> {
+  const metadata = await getEstimateMetadataOrThrow({
+    organizationId: input.organizationId,
+    estimateId: input.estimateId,
+  });
+
+  const options = input.options ?? getDefaultPdfOptions();
+  const cacheKey = buildEstimateCacheKey({
+    estimateId: metadata.estimateId,
+    updatedAt: metadata.updatedAt,
+    projectUpdatedAt: metadata.projectUpdatedAt,
+    clientUpdatedAt: metadata.clientUpdatedAt,
+    brandingUpdatedAt: metadata.brandingUpdatedAt,
+    categoriesUpdatedAt: metadata.categoriesUpdatedAt,
+    categoryCount: metadata.categoryCount,
+    format: "pdf",
+    options,
+  });
+  const storage = getFileStorage();
+  const cached = await findCachedExport(input.organizationId, cacheKey);
+  if (cached) {
+    return {
+      fileName: cached.fileName,
+      contentType: EXPORT_CONTENT_TYPES.pdf,
+      content: await storage.read(cached.storageKey),
+    };
+  }
+
+  const data = await getEstimatePdfDataOrThrow({
+    organizationId: input.organizationId,
+    estimateId: input.estimateId,
+  });
+  const content = await renderPdfBuffer({
+    html: buildPdfHtml(data, options),
+    footerTemplate: buildFooterTemplate(data, options),
+  });
+
+  const jobId = randomUUID();
+  const storageKey = `pdf-jobs/${jobId}.pdf`;
+  const fileName = buildExportFileName(data, "pdf", options);
+  await storage.put(storageKey, content);
+
+  await prisma.pdfJob.create({
+    data: {
+      id: jobId,
+      organizationId: input.organizationId,
+      estimateId: data.id,
+      requestedBy: input.requestedBy,
+      format: "pdf",
+      options,
+      cacheKey,
+      status: PdfJobStatus.COMPLETE,
+      attempts: 1,
+      storageKey,
+      fileName,
+      completedAt: new Date(),
+    },
+  });
+
+  await logAudit({
+    organizationId: input.organizationId,
+    entityType: "Estimate",
+    entityId: data.id,
+    action: "ESTIMATE_PDF_GENERATED",
+    beforeState: {},
+    afterState: {
+      jobId,
+      fileName,
+      options,
+    },
+    performedBy: input.requestedBy,
+  });
 
   return {
-    jobId,
-    status: job.status,
+    fileName,
+    contentType: EXPORT_CONTENT_TYPES.pdf,
+    content,
   };
 }
 
-export function getPdfJobStatus(input: GetPdfJobStatusInput): GetPdfJobStatusResult {
-  const job = getPdfJobOrThrow(input);
+export async function getPdfJobStatus(input: GetPdfJobStatusInput): Promise<GetPdfJobStatusResult> {
+  const job = await getPdfJobOrThrow(input);
+  const status = toApiStatus(job.status);
 
   return {
     jobId: job.id,
-    status: job.status,
-    ...(job.status === "complete" ? { downloadUrl: `/pdf-jobs/${job.id}/download` } : {}),
-    ...(job.status === "failed" && job.errorMessage ? { message: job.errorMessage } : {}),
+    status,
+    ...(status === "complete" ? { downloadUrl: `/pdf-jobs/${job.id}/download` } : {}),
+    ...(status === "failed" && job.errorMessage ? { message: job.errorMessage } : {}),
   };
 }
 
 export async function getPdfJobDownload(
   input: GetPdfJobDownloadInput,
 ): Promise<GetPdfJobDownloadResult> {
-  const job = getPdfJobOrThrow(input);
+  const job = await getPdfJobOrThrow(input);
 
-  if (job.status === "pending") {
-    throw new AppError(409, "PDF_JOB_NOT_READY", "PDF job is still processing");
+  if (job.status === PdfJobStatus.FAILED) {
+    throw new AppError(409, "PDF_JOB_FAILED", job.errorMessage ?? "Export generation failed");
   }
 
-  if (job.status === "failed") {
-    throw new AppError(409, "PDF_JOB_FAILED", job.errorMessage ?? "PDF generation failed");
+  if (job.status !== PdfJobStatus.COMPLETE) {
+    throw new AppError(409, "PDF_JOB_NOT_READY", "Export job is still processing");
   }
 
-  if (!job.filePath || !job.fileName) {
-    throw new AppError(500, "PDF_JOB_FILE_MISSING", "PDF file is not available");
+  const { storageKey, fileName } = job;
+  if (!storageKey || !fileName) {
+    throw new AppError(500, "PDF_JOB_FILE_MISSING", "Export file is not available");
   }
 
-  if (!(await fileExists(job.filePath))) {
-    throw new AppError(410, "PDF_JOB_FILE_MISSING", "PDF file is no longer available");
+  const storage = getFileStorage();
+  if (!(await storage.exists(storageKey))) {
+    throw new AppError(410, "PDF_JOB_FILE_MISSING", "Export file is no longer available");
   }
 
   return {
-    filePath: job.filePath,
-    fileName: job.fileName,
+    fileName,
+    contentType: EXPORT_CONTENT_TYPES[toExportFormat(job.format)],
+    openStream: () => storage.createReadStream(storageKey),
+  };
+}
+
+/**
+ * Renders the quotation HTML for an estimate, defaulting to the organization's most recently
+ * updated one, with unsaved branding, default sections or overrides applied on top of the stored
+ * values. Nothing is persisted.
+ */
+export async function renderQuotationPreviewHtml(
+  input: RenderQuotationPreviewInput,
+): Promise<string> {
+  let estimateId = input.estimateId;
+  if (!estimateId) {
+    const latest = await prisma.estimate.findFirst({
+      where: {
+        deletedAt: null,
+        project: { organizationId: input.organizationId },
+      },
+      orderBy: { updatedAt: "desc" },
+      select: { id: true },
+    });
+
+    if (!latest) {
+      throw new AppError(
+        404,
+        "ESTIMATE_NOT_FOUND",
+        "Create an estimate before previewing the quotation template",
+      );
+    }
+
+    estimateId = latest.id;
+  }
+
+  const data = await getEstimatePdfDataOrThrow({
+    organizationId: input.organizationId,
+    estimateId,
+  });
+
+  const draft = input.branding ?? {};
+  const pickText = (value: string | null | undefined, stored: string | null): string | null =>
+    value === undefined ? stored : value?.trim() || null;
+  const branding: QuotationBranding = {
+    ...data.branding,
+    primaryColor: draft.primaryColor ?? data.branding.primaryColor,
+    accentColor: draft.accentColor ?? data.branding.accentColor,
+    address: pickText(draft.address, data.branding.address),
+    tin: pickText(draft.tin, data.branding.tin),
+    email: pickText(draft.email, data.branding.email),
+    phone: pickText(draft.phone, data.branding.phone),
+    website: pickText(draft.website, data.branding.website),
+    sections: input.sections ?? data.branding.sections,
+  };
+
+  return buildPdfHtml(
+    {
+      ...data,
+      branding,
+      quotation: resolveQuotationSections(
+        branding.sections,
+        input.overrides ?? data.quotationOverrides,
+      ),
+    },
+    input.options ?? getDefaultPdfOptions(),
+  );
+}
+
+export async function getPdfJobMetrics(
+  input: GetPdfJobMetricsInput,
+): Promise<GetPdfJobMetricsResult> {
+  const counts = await prisma.pdfJob.groupBy({
+    by: ["status"],
+    where: {
+      organizationId: input.organizationId,
+      status: { in: [PdfJobStatus.PENDING, PdfJobStatus.PROCESSING] },
+    },
+    _count: { _all: true },
+  });
+  const countFor = (status: PdfJobStatus): number =>
+    counts.find((entry) => entry.status === status)?._count._all ?? 0;
+
+  return {
+    worker: {
+      running: workerTimer !== null,
+      concurrency: getPdfWorkerConcurrency(),
+      activeJobs: activeJobCount,
+    },
+    queue: {
+      pending: countFor(PdfJobStatus.PENDING),
+      processing: countFor(PdfJobStatus.PROCESSING),
+    },
+    renderer: getBrowserPoolMetrics(),
   };
 }
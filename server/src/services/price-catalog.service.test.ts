@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { EstimateStatus, Prisma } from "@prisma/client";
+import { findStalePriceLineItems } from "./price-catalog.service";
+
+type LinkedLineItem = Parameters<typeof findStalePriceLineItems>[0][number];
+
+function lineItem(
+  id: string,
+  costs: { material: string; labor: string },
+  catalog: { material: string; labor: string } | null,
+): LinkedLineItem {
+  return {
+    id,
+    description: id,
+    unit: "bag",
+    unitMaterialCost: new Prisma.Decimal(costs.material),
+    unitLaborCost: new Prisma.Decimal(costs.labor),
+    estimate: {
+      id: "estimate-1",
+      versionNumber: 1,
+      label: null,
+      status: EstimateStatus.DRAFT,
+      project: { id: "project-1", name: "Warehouse" },
+    },
+    priceCatalogItem: catalog
+      ? {
+          id: `catalog-${id}`,
+          itemCode: id.toUpperCase(),
+          unitMaterialCost: new Prisma.Decimal(catalog.material),
+          unitLaborCost: new Prisma.Decimal(catalog.labor),
+          effectiveDate: new Date("2026-10-01T00:00:00.000Z"),
+        }
+      : null,
+  };
+}
+
+test("findStalePriceLineItems reports line items whose material or labor cost drifted", () => {
+  const stale = findStalePriceLineItems([
+    lineItem("cement", { material: "250", labor: "0" }, { material: "265", labor: "0" }),
+    lineItem("mason", { material: "0", labor: "800" }, { material: "0", labor: "850" }),
+  ]);
+
+  assert.deepEqual(
+    stale.map((item) => [
+      item.lineItemId,
+      item.unitMaterialCost.toFixed(2),
+      item.priceCatalogItem.unitMaterialCost.toFixed(2),
+      item.unitLaborCost.toFixed(2),
+      item.priceCatalogItem.unitLaborCost.toFixed(2),
+    ]),
+    [
+      ["cement", "250.00", "265.00", "0.00", "0.00"],
+      ["mason", "0.00", "0.00", "800.00", "850.00"],
+    ],
+  );
+});
+
+test("findStalePriceLineItems skips current and unlinked line items", () => {
+  const stale = findStalePriceLineItems([
+    lineItem("sand", { material: "1200", labor: "0" }, { material: "1200.00", labor: "0.00" }),
+    lineItem("gravel", { material: "1500", labor: "0" }, null),
+  ]);
+
+  assert.deepEqual(stale, []);
+});
@@ -0,0 +1,488 @@
+import { Prisma, type EstimateStatus } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { logAudit } from "./audit.service";
+
+type GetPriceCatalogItemsInput = {
+  organizationId: string;
+  page: number;
+  pageSize: number;
+  search?: string;
+};
+
+type CreatePriceCatalogItemInput = {
+  organizationId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  unitMaterialCost: number;
+  unitLaborCost: number;
+  supplier?: string | null;
+  effectiveDate: Date;
+  performedBy: string;
+};
+
+type UpdatePriceCatalogItemInput = {
+  organizationId: string;
+  priceCatalogItemId: string;
+  itemCode?: string;
+  description?: string;
+  unit?: string;
+  unitMaterialCost?: number;
+  unitLaborCost?: number;
+  supplier?: string | null;
+  effectiveDate?: Date;
+  performedBy: string;
+};
+
+type DeletePriceCatalogItemInput = {
+  organizationId: string;
+  priceCatalogItemId: string;
+  performedBy: string;
+};
+
+export type PriceCatalogItemSummary = {
+  id: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  unitMaterialCost: Prisma.Decimal;
+  unitLaborCost: Prisma.Decimal;
+  supplier: string | null;
+  effectiveDate: Date;
+  lineItemCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type GetPriceCatalogItemsResult = {
+  items: PriceCatalogItemSummary[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalItems: number;
+    totalPages: number;
+  };
+};
+
+export type StalePriceLineItem = {
+  lineItemId: string;
+  description: string;
+  unit: string;
+  unitMaterialCost: Prisma.Decimal;
+  unitLaborCost: Prisma.Decimal;
+  estimate: {
+    id: string;
+    versionNumber: number;
+    label: string | null;
+    status: EstimateStatus;
+    project: {
+      id: string;
+      name: string;
+    };
+  };
+  priceCatalogItem: {
+    id: string;
+    itemCode: string;
+    unitMaterialCost: Prisma.Decimal;
+    unitLaborCost: Prisma.Decimal;
+    effectiveDate: Date;
+  };
+};
+
+const priceCatalogItemSelect = {
+  id: true,
+  itemCode: true,
+  description: true,
+  unit: true,
+  unitMaterialCost: true,
+  unitLaborCost: true,
+  supplier: true,
+  effectiveDate: true,
+  createdAt: true,
+  updatedAt: true,
+  createdByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  _count: {
+    select: {
+      lineItems: true,
+    },
+  },
+} satisfies Prisma.PriceCatalogItemSelect;
+
+type PriceCatalogItemSelectedShape = Prisma.PriceCatalogItemGetPayload<{
+  select: typeof priceCatalogItemSelect;
+}>;
+
+function toPriceCatalogItemSummary(item: PriceCatalogItemSelectedShape): PriceCatalogItemSummary {
+  return {
+    id: item.id,
+    itemCode: item.itemCode,
+    description: item.description,
+    unit: item.unit,
+    unitMaterialCost: item.unitMaterialCost,
+    unitLaborCost: item.unitLaborCost,
+    supplier: item.supplier,
+    effectiveDate: item.effectiveDate,
+    lineItemCount: item._count.lineItems,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+    createdBy: item.createdByUser,
+  };
+}
+
+function toPriceCatalogAuditState(item: PriceCatalogItemSelectedShape): Prisma.InputJsonObject {
+  return {
+    itemCode: item.itemCode,
+    description: item.description,
+    unit: item.unit,
+    unitMaterialCost: item.unitMaterialCost.toString(),
+    unitLaborCost: item.unitLaborCost.toString(),
+    supplier: item.supplier,
+    effectiveDate: item.effectiveDate.toISOString(),
+  };
+}
+
+async function findPriceCatalogItemOrThrow(input: {
+  organizationId: string;
+  priceCatalogItemId: string;
+}): Promise<PriceCatalogItemSelectedShape> {
+  const item = await prisma.priceCatalogItem.findFirst({
+    where: {
+      id: input.priceCatalogItemId,
+      organizationId: input.organizationId,
+    },
+    select: priceCatalogItemSelect,
+  });
+
+  if (!item) {
+    throw new AppError(404, "PRICE_CATALOG_ITEM_NOT_FOUND", "Price catalog item not found");
+  }
+
+  return item;
+}
+
+async function ensureItemCodeIsUnique(input: {
+  tx: Prisma.TransactionClient;
+  organizationId: string;
+  itemCode: string;
+  excludeId?: string;
+}): Promise<void> {
+  const existing = await input.tx.priceCatalogItem.findFirst({
+    where: {
+      organizationId: input.organizationId,
+      itemCode: {
+        equals: input.itemCode,
+        mode: "insensitive",
+      },
+      ...(input.excludeId ? { id: { not: input.excludeId } } : {}),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new AppError(
+      409,
+      "PRICE_CATALOG_ITEM_CODE_CONFLICT",
+      "A price catalog item with this code already exists in your organization",
+    );
+  }
+}
+
+/**
+ * Confirms a catalog entry belongs to the organization before a line item is linked to it.
+ */
+export async function assertPriceCatalogItemInOrganization(
+  tx: Prisma.TransactionClient,
+  input: { organizationId: string; priceCatalogItemId: string },
+): Promise<void> {
+  const item = await tx.priceCatalogItem.findFirst({
+    where: {
+      id: input.priceCatalogItemId,
+      organizationId: input.organizationId,
+    },
+    select: { id: true },
+  });
+
+  if (!item) {
+    throw new AppError(404, "PRICE_CATALOG_ITEM_NOT_FOUND", "Price catalog item not found");
+  }
+}
+
+export async function getPriceCatalogItems(
+  input: GetPriceCatalogItemsInput,
+): Promise<GetPriceCatalogItemsResult> {
+  const where: Prisma.PriceCatalogItemWhereInput = {
+    organizationId: input.organizationId,
+    ...(input.search
+      ? {
+          OR: [
+            { itemCode: { contains: input.search, mode: "insensitive" } },
+            { description: { contains: input.search, mode: "insensitive" } },
+            { supplier: { contains: input.search, mode: "insensitive" } },
+          ],
+        }
+      : {}),
+  };
+  const skip = (input.page - 1) * input.pageSize;
+
+  const [items, totalItems] = await prisma.$transaction([
+    prisma.priceCatalogItem.findMany({
+      where,
+      skip,
+      take: input.pageSize,
+      orderBy: { itemCode: "asc" },
+      select: priceCatalogItemSelect,
+    }),
+    prisma.priceCatalogItem.count({ where }),
+  ]);
+
+  return {
+    items: items.map((item) => toPriceCatalogItemSummary(item)),
+    pagination: {
+      page: input.page,
+      pageSize: input.pageSize,
+      totalItems,
+      totalPages: totalItems === 0 ? 0 : Math.ceil(totalItems / input.pageSize),
+    },
+  };
+}
+
+export async function getPriceCatalogItemById(input: {
+  organizationId: string;
+  priceCatalogItemId: string;
+}): Promise<PriceCatalogItemSummary> {
+  const item = await findPriceCatalogItemOrThrow(input);
+  return toPriceCatalogItemSummary(item);
+}
+
+export async function createPriceCatalogItem(
+  input: CreatePriceCatalogItemInput,
+): Promise<PriceCatalogItemSummary> {
+  const created = await prisma.$transaction(async (tx) => {
+    await ensureItemCodeIsUnique({
+      tx,
+      organizationId: input.organizationId,
+      itemCode: input.itemCode,
+    });
+
+    const item = await tx.priceCatalogItem.create({
+      data: {
+        organizationId: input.organizationId,
+        itemCode: input.itemCode,
+        description: input.description,
+        unit: input.unit,
+        unitMaterialCost: new Prisma.Decimal(input.unitMaterialCost),
+        unitLaborCost: new Prisma.Decimal(input.unitLaborCost),
+        supplier: input.supplier ?? null,
+        effectiveDate: input.effectiveDate,
+        createdBy: input.performedBy,
+      },
+      select: priceCatalogItemSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "PriceCatalogItem",
+        entityId: item.id,
+        action: "PRICE_CATALOG_ITEM_CREATED",
+        beforeState: {},
+        afterState: toPriceCatalogAuditState(item),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return item;
+  });
+
+  return toPriceCatalogItemSummary(created);
+}
+
+export async function updatePriceCatalogItem(
+  input: UpdatePriceCatalogItemInput,
+): Promise<PriceCatalogItemSummary> {
+  const beforeState = await findPriceCatalogItemOrThrow({
+    organizationId: input.organizationId,
+    priceCatalogItemId: input.priceCatalogItemId,
+  });
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (input.itemCode !== undefined) {
+      await ensureItemCodeIsUnique({
+        tx,
+        organizationId: input.organizationId,
+        itemCode: input.itemCode,
+        excludeId: beforeState.id,
+      });
+    }
+
+    const item = await tx.priceCatalogItem.update({
+      where: { id: beforeState.id },
+      data: {
+        ...(input.itemCode !== undefined ? { itemCode: input.itemCode } : {}),
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...(input.unit !== undefined ? { unit: input.unit } : {}),
+        ...(input.unitMaterialCost !== undefined
+          ? { unitMaterialCost: new Prisma.Decimal(input.unitMaterialCost) }
+          : {}),
+        ...(input.unitLaborCost !== undefined
+          ? { unitLaborCost: new Prisma.Decimal(input.unitLaborCost) }
+          : {}),
+        ...(input.supplier !== undefined ? { supplier: input.supplier } : {}),
+        ...(input.effectiveDate !== undefined ? { effectiveDate: input.effectiveDate } : {}),
+      },
+      select: priceCatalogItemSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "PriceCatalogItem",
+        entityId: item.id,
+        action: "PRICE_CATALOG_ITEM_UPDATED",
+        beforeState: toPriceCatalogAuditState(beforeState),
+        afterState: toPriceCatalogAuditState(item),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return item;
+  });
+
+  return toPriceCatalogItemSummary(updated);
+}
+
+/**
+ * Deletes a catalog entry. Linked line items keep their prices and lose only the link.
+ */
+export async function deletePriceCatalogItem(
+  input: DeletePriceCatalogItemInput,
+): Promise<{ deletedPriceCatalogItemId: string; unlinkedLineItemCount: number }> {
+  const item = await findPriceCatalogItemOrThrow({
+    organizationId: input.organizationId,
+    priceCatalogItemId: input.priceCatalogItemId,
+  });
+
+  await prisma.$transaction(async (tx) => {
+    await tx.priceCatalogItem.delete({
+      where: { id: item.id },
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "PriceCatalogItem",
+        entityId: item.id,
+        action: "PRICE_CATALOG_ITEM_DELETED",
+        beforeState: {
+          ...toPriceCatalogAuditState(item),
+          lineItemCount: item._count.lineItems,
+        },
+        afterState: {},
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+  });
+
+  return {
+    deletedPriceCatalogItemId: item.id,
+    unlinkedLineItemCount: item._count.lineItems,
+  };
+}
+
+/** Keeps the linked line items whose material or labor cost differs from their catalog entry. */
+export function findStalePriceLineItems(
+  lineItems: Array<
+    Omit<StalePriceLineItem, "lineItemId" | "priceCatalogItem"> & {
+      id: string;
+      priceCatalogItem: StalePriceLineItem["priceCatalogItem"] | null;
+    }
+  >,
+): StalePriceLineItem[] {
+  return lineItems.flatMap((lineItem) => {
+    const catalogItem = lineItem.priceCatalogItem;
+    if (
+      !catalogItem ||
+      (catalogItem.unitMaterialCost.equals(lineItem.unitMaterialCost) &&
+        catalogItem.unitLaborCost.equals(lineItem.unitLaborCost))
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        lineItemId: lineItem.id,
+        description: lineItem.description,
+        unit: lineItem.unit,
+        unitMaterialCost: lineItem.unitMaterialCost,
+        unitLaborCost: lineItem.unitLaborCost,
+        estimate: lineItem.estimate,
+        priceCatalogItem: catalogItem,
+      },
+    ];
+  });
+}
+
+/**
+ * Lists linked line items whose material or labor cost no longer matches their catalog entry.
+ */
+export async function getStalePriceLineItems(input: {
+  organizationId: string;
+}): Promise<{ items: StalePriceLineItem[] }> {
+  const lineItems = await prisma.lineItem.findMany({
+    where: {
+      priceCatalogItemId: { not: null },
+      estimate: {
+        deletedAt: null,
+        project: {
+          organizationId: input.organizationId,
+        },
+      },
+    },
+    orderBy: [{ estimateId: "asc" }, { createdAt: "asc" }],
+    select: {
+      id: true,
+      description: true,
+      unit: true,
+      unitMaterialCost: true,
+      unitLaborCost: true,
+      estimate: {
+        select: {
+          id: true,
+          versionNumber: true,
+          label: true,
+          status: true,
+          project: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      },
+      priceCatalogItem: {
+        select: {
+          id: true,
+          itemCode: true,
+          unitMaterialCost: true,
+          unitLaborCost: true,
+          effectiveDate: true,
+        },
+      },
+    },
+  });
+
+  return { items: findStalePriceLineItems(lineItems) };
+}
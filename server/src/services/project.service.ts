@@ -3,12 +3,27 @@ import { ProjectStatus as ProjectStatusEnum } from "@prisma/client";
 import { AppError } from "../errors/app-error";
 import { prisma } from "../prisma/client";
 import { logAudit } from "./audit.service";
+import { assertClientInOrganization } from "./client.service";
+import { assertRegionInOrganization, recalculateDraftEstimatesForProjects } from "./region.service";
 
 type GetProjectsInput = {
   organizationId: string;
   page: number;
   pageSize: number;
   status?: ProjectStatus;
+  clientId?: string;
+};
+
+type ProjectRegion = {
+  id: string;
+  name: string;
+  materialFactor: Prisma.Decimal;
+  laborFactor: Prisma.Decimal;
+};
+
+type ProjectClient = {
+  id: string;
+  name: string;
 };
 
 type ProjectSummary = {
@@ -17,6 +32,8 @@ type ProjectSummary = {
   location: string;
   projectType: string;
   status: ProjectStatus;
+  region: ProjectRegion | null;
+  client: ProjectClient | null;
   createdAt: Date;
   updatedAt: Date;
   createdBy: {
@@ -31,6 +48,8 @@ type ProjectSelectedShape = {
   location: string;
   projectType: string;
   status: ProjectStatus;
+  region: ProjectRegion | null;
+  client: ProjectClient | null;
   createdAt: Date;
   updatedAt: Date;
   createdByUser: {
@@ -44,6 +63,8 @@ type CreateProjectInput = {
   name: string;
   location: string;
   projectType: string;
+  regionId?: string | null;
+  clientId?: string | null;
   performedBy: string;
 };
 
@@ -53,6 +74,8 @@ type UpdateProjectInput = {
   name?: string;
   location?: string;
   projectType?: string;
+  regionId?: string | null;
+  clientId?: string | null;
   performedBy: string;
 };
 
@@ -72,6 +95,18 @@ export type GetProjectsResult = {
   };
 };
 
+const projectRegionSelect = {
+  id: true,
+  name: true,
+  materialFactor: true,
+  laborFactor: true,
+} satisfies Prisma.RegionSelect;
+
+const projectClientSelect = {
+  id: true,
+  name: true,
+} satisfies Prisma.ClientSelect;
+
 function toProjectSummary(project: ProjectSelectedShape): ProjectSummary {
   return {
     id: project.id,
@@ -79,6 +114,8 @@ function toProjectSummary(project: ProjectSelectedShape): ProjectSummary {
     location: project.location,
     projectType: project.projectType,
     status: project.status,
+    region: project.region,
+    client: project.client,
     createdAt: project.createdAt,
     updatedAt: project.updatedAt,
     createdBy: project.createdByUser,
@@ -100,6 +137,12 @@ async function findProjectOrThrow(input: {
       location: true,
       projectType: true,
       status: true,
+      region: {
+        select: projectRegionSelect,
+      },
+      client: {
+        select: projectClientSelect,
+      },
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -122,6 +165,7 @@ export async function getProjects(input: GetProjectsInput): Promise<GetProjectsR
   const where: Prisma.ProjectWhereInput = {
     organizationId: input.organizationId,
     ...(input.status ? { status: input.status } : {}),
+    ...(input.clientId ? { clientId: input.clientId } : {}),
   };
 
   const skip = (input.page - 1) * input.pageSize;
@@ -138,6 +182,12 @@ export async function getProjects(input: GetProjectsInput): Promise<GetProjectsR
         location: true,
         projectType: true,
         status: true,
+        region: {
+          select: projectRegionSelect,
+        },
+        client: {
+          select: projectClientSelect,
+        },
         createdAt: true,
         updatedAt: true,
         createdByUser: {
@@ -163,6 +213,20 @@ export async function getProjects(input: GetProjectsInput): Promise<GetProjectsR
 }
 
 export async function createProject(input: CreateProjectInput): Promise<ProjectSummary> {
+  if (input.regionId) {
+    await assertRegionInOrganization(prisma, {
+      organizationId: input.organizationId,
+      regionId: input.regionId,
+    });
+  }
+
+  if (input.clientId) {
+    await assertClientInOrganization(prisma, {
+      organizationId: input.organizationId,
+      clientId: input.clientId,
+    });
+  }
+
   const created = await prisma.project.create({
     data: {
       organizationId: input.organizationId,
@@ -170,6 +234,8 @@ export async function createProject(input: CreateProjectInput): Promise<ProjectS
       location: input.location,
       projectType: input.projectType,
       status: ProjectStatusEnum.ACTIVE,
+      regionId: input.regionId ?? null,
+      clientId: input.clientId ?? null,
       createdBy: input.performedBy,
     },
     select: {
@@ -178,6 +244,12 @@ export async function createProject(input: CreateProjectInput): Promise<ProjectS
       location: true,
       projectType: true,
       status: true,
+      region: {
+        select: projectRegionSelect,
+      },
+      client: {
+        select: projectClientSelect,
+      },
       createdAt: true,
       updatedAt: true,
       createdByUser: {
@@ -200,6 +272,8 @@ export async function createProject(input: CreateProjectInput): Promise<ProjectS
       location: created.location,
       projectType: created.projectType,
       status: created.status,
+      regionId: created.region?.id ?? null,
+      clientId: created.client?.id ?? null,
     },
     performedBy: input.performedBy,
   });
@@ -215,54 +289,98 @@ export async function getProjectById(input: {
   return toProjectSummary(project);
 }
 
+/**
+ * Updates a project. Moving it to another region recalculates its draft estimates with the new
+ * regional factors in the same transaction.
+ */
 export async function updateProject(input: UpdateProjectInput): Promise<ProjectSummary> {
   const beforeState = await findProjectOrThrow({
     organizationId: input.organizationId,
     projectId: input.projectId,
   });
 
-  const updated = await prisma.project.update({
-    where: { id: input.projectId },
-    data: {
-      ...(input.name !== undefined ? { name: input.name } : {}),
-      ...(input.location !== undefined ? { location: input.location } : {}),
-      ...(input.projectType !== undefined ? { projectType: input.projectType } : {}),
-    },
-    select: {
-      id: true,
-      name: true,
-      location: true,
-      projectType: true,
-      status: true,
-      createdAt: true,
-      updatedAt: true,
-      createdByUser: {
-        select: {
-          id: true,
-          name: true,
+  const regionChanged =
+    input.regionId !== undefined && input.regionId !== (beforeState.region?.id ?? null);
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (regionChanged && input.regionId) {
+      await assertRegionInOrganization(tx, {
+        organizationId: input.organizationId,
+        regionId: input.regionId,
+      });
+    }
+
+    if (input.clientId && input.clientId !== (beforeState.client?.id ?? null)) {
+      await assertClientInOrganization(tx, {
+        organizationId: input.organizationId,
+        clientId: input.clientId,
+      });
+    }
+
+    const project = await tx.project.update({
+      where: { id: input.projectId },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.location !== undefined ? { location: input.location } : {}),
+        ...(input.projectType !== undefined ? { projectType: input.projectType } : {}),
+        ...(input.regionId !== undefined ? { regionId: input.regionId } : {}),
+        ...(input.clientId !== undefined ? { clientId: input.clientId } : {}),
+      },
+      select: {
+        id: true,
+        name: true,
+        location: true,
+        projectType: true,
+        status: true,
+        region: {
+          select: projectRegionSelect,
+        },
+        client: {
+          select: projectClientSelect,
+        },
+        createdAt: true,
+        updatedAt: true,
+        createdByUser: {
+          select: {
+            id: true,
+            name: true,
+          },
         },
       },
-    },
-  });
+    });
 
-  await logAudit({
-    organizationId: input.organizationId,
-    entityType: "Project",
-    entityId: updated.id,
-    action: "PROJECT_UPDATED",
-    beforeState: {
-      name: beforeState.name,
-      location: beforeState.location,
-      projectType: beforeState.projectType,
-      status: beforeState.status,
-    },
-    afterState: {
-      name: updated.name,
-      location: updated.location,
-      projectType: updated.projectType,
-      status: updated.status,
-    },
-    performedBy: input.performedBy,
+    if (regionChanged) {
+      await recalculateDraftEstimatesForProjects(tx, { id: project.id });
+    }
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Project",
+        entityId: project.id,
+        action: "PROJECT_UPDATED",
+        beforeState: {
+          name: beforeState.name,
+          location: beforeState.location,
+          projectType: beforeState.projectType,
+          status: beforeState.status,
+          regionId: beforeState.region?.id ?? null,
+          clientId: beforeState.client?.id ?? null,
+        },
+        afterState: {
+          name: project.name,
+          location: project.location,
+          projectType: project.projectType,
+          status: project.status,
+          regionId: project.region?.id ?? null,
+          clientId: project.client?.id ?? null,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return project;
   });
 
   return toProjectSummary(updated);
@@ -289,6 +407,12 @@ export async function archiveProject(input: ArchiveProjectInput): Promise<Projec
       location: true,
       projectType: true,
       status: true,
+      region: {
+        select: projectRegionSelect,
+      },
+      client: {
+        select: projectClientSelect,
+      },
       createdAt: true,
       updatedAt: true,
       createdByUser: {
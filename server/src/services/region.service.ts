@@ -0,0 +1,355 @@
+import { EstimateStatus, Prisma } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { logAudit } from "./audit.service";
+import { recalculateEstimateTotals } from "./line-item.service";
+
+type CreateRegionInput = {
+  organizationId: string;
+  name: string;
+  materialFactor: number;
+  laborFactor: number;
+  performedBy: string;
+};
+
+type UpdateRegionInput = {
+  organizationId: string;
+  regionId: string;
+  name?: string;
+  materialFactor?: number;
+  laborFactor?: number;
+  performedBy: string;
+};
+
+type DeleteRegionInput = {
+  organizationId: string;
+  regionId: string;
+  performedBy: string;
+};
+
+export type RegionSummary = {
+  id: string;
+  name: string;
+  materialFactor: Prisma.Decimal;
+  laborFactor: Prisma.Decimal;
+  projectCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+const regionSelect = {
+  id: true,
+  name: true,
+  materialFactor: true,
+  laborFactor: true,
+  createdAt: true,
+  updatedAt: true,
+  createdByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  _count: {
+    select: {
+      projects: true,
+    },
+  },
+} satisfies Prisma.RegionSelect;
+
+type RegionSelectedShape = Prisma.RegionGetPayload<{ select: typeof regionSelect }>;
+
+function toRegionSummary(region: RegionSelectedShape): RegionSummary {
+  return {
+    id: region.id,
+    name: region.name,
+    materialFactor: region.materialFactor,
+    laborFactor: region.laborFactor,
+    projectCount: region._count.projects,
+    createdAt: region.createdAt,
+    updatedAt: region.updatedAt,
+    createdBy: region.createdByUser,
+  };
+}
+
+function toRegionAuditState(region: RegionSelectedShape): Prisma.InputJsonObject {
+  return {
+    name: region.name,
+    materialFactor: region.materialFactor.toString(),
+    laborFactor: region.laborFactor.toString(),
+  };
+}
+
+async function findRegionOrThrow(input: {
+  organizationId: string;
+  regionId: string;
+}): Promise<RegionSelectedShape> {
+  const region = await prisma.region.findFirst({
+    where: {
+      id: input.regionId,
+      organizationId: input.organizationId,
+    },
+    select: regionSelect,
+  });
+
+  if (!region) {
+    throw new AppError(404, "REGION_NOT_FOUND", "Region not found");
+  }
+
+  return region;
+}
+
+async function ensureRegionNameIsUnique(input: {
+  tx: Prisma.TransactionClient;
+  organizationId: string;
+  name: string;
+  excludeId?: string;
+}): Promise<void> {
+  const existing = await input.tx.region.findFirst({
+    where: {
+      organizationId: input.organizationId,
+      name: {
+        equals: input.name,
+        mode: "insensitive",
+      },
+      ...(input.excludeId ? { id: { not: input.excludeId } } : {}),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new AppError(
+      409,
+      "REGION_NAME_CONFLICT",
+      "A region with this name already exists in your organization",
+    );
+  }
+}
+
+/**
+ * Confirms a region belongs to the organization before a project is assigned to it.
+ */
+export async function assertRegionInOrganization(
+  tx: Prisma.TransactionClient,
+  input: { organizationId: string; regionId: string },
+): Promise<void> {
+  const region = await tx.region.findFirst({
+    where: {
+      id: input.regionId,
+      organizationId: input.organizationId,
+    },
+    select: { id: true },
+  });
+
+  if (!region) {
+    throw new AppError(404, "REGION_NOT_FOUND", "Region not found");
+  }
+}
+
+/**
+ * Recalculates totals of the draft estimates under the matching projects so they pick up the
+ * projects' current regional factors. Finalized and archived estimates keep their snapshot.
+ */
+export async function recalculateDraftEstimatesForProjects(
+  tx: Prisma.TransactionClient,
+  projectWhere: Prisma.ProjectWhereInput,
+): Promise<number> {
+  const estimates = await tx.estimate.findMany({
+    where: {
+      status: EstimateStatus.DRAFT,
+      deletedAt: null,
+      project: projectWhere,
+    },
+    select: {
+      id: true,
+      markupRate: true,
+      vatRate: true,
+    },
+  });
+
+  for (const estimate of estimates) {
+    await recalculateEstimateTotals(tx, estimate.id, estimate.markupRate, estimate.vatRate);
+  }
+
+  return estimates.length;
+}
+
+export async function getRegions(input: {
+  organizationId: string;
+}): Promise<{ items: RegionSummary[] }> {
+  const regions = await prisma.region.findMany({
+    where: {
+      organizationId: input.organizationId,
+    },
+    orderBy: { name: "asc" },
+    select: regionSelect,
+  });
+
+  return {
+    items: regions.map((region) => toRegionSummary(region)),
+  };
+}
+
+export async function getRegionById(input: {
+  organizationId: string;
+  regionId: string;
+}): Promise<RegionSummary> {
+  const region = await findRegionOrThrow(input);
+  return toRegionSummary(region);
+}
+
+export async function createRegion(input: CreateRegionInput): Promise<RegionSummary> {
+  const created = await prisma.$transaction(async (tx) => {
+    await ensureRegionNameIsUnique({
+      tx,
+      organizationId: input.organizationId,
+      name: input.name,
+    });
+
+    const region = await tx.region.create({
+      data: {
+        organizationId: input.organizationId,
+        name: input.name,
+        materialFactor: new Prisma.Decimal(input.materialFactor),
+        laborFactor: new Prisma.Decimal(input.laborFactor),
+        createdBy: input.performedBy,
+      },
+      select: regionSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Region",
+        entityId: region.id,
+        action: "REGION_CREATED",
+        beforeState: {},
+        afterState: toRegionAuditState(region),
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return region;
+  });
+
+  return toRegionSummary(created);
+}
+
+/**
+ * Updates a region. Changing a factor recalculates the draft estimates of every project in the
+ * region within the same transaction.
+ */
+export async function updateRegion(input: UpdateRegionInput): Promise<RegionSummary> {
+  const beforeState = await findRegionOrThrow({
+    organizationId: input.organizationId,
+    regionId: input.regionId,
+  });
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (input.name !== undefined) {
+      await ensureRegionNameIsUnique({
+        tx,
+        organizationId: input.organizationId,
+        name: input.name,
+        excludeId: beforeState.id,
+      });
+    }
+
+    const region = await tx.region.update({
+      where: { id: beforeState.id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.materialFactor !== undefined
+          ? { materialFactor: new Prisma.Decimal(input.materialFactor) }
+          : {}),
+        ...(input.laborFactor !== undefined
+          ? { laborFactor: new Prisma.Decimal(input.laborFactor) }
+          : {}),
+      },
+      select: regionSelect,
+    });
+
+    const factorsChanged =
+      !region.materialFactor.equals(beforeState.materialFactor) ||
+      !region.laborFactor.equals(beforeState.laborFactor);
+    const recalculatedEstimateCount = factorsChanged
+      ? await recalculateDraftEstimatesForProjects(tx, { regionId: region.id })
+      : 0;
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Region",
+        entityId: region.id,
+        action: "REGION_UPDATED",
+        beforeState: toRegionAuditState(beforeState),
+        afterState: {
+          ...toRegionAuditState(region),
+          recalculatedEstimateCount,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return region;
+  });
+
+  return toRegionSummary(updated);
+}
+
+/**
+ * Deletes a region. Its projects fall back to no region and their draft estimates are
+ * recalculated without a regional adjustment.
+ */
+export async function deleteRegion(
+  input: DeleteRegionInput,
+): Promise<{ deletedRegionId: string; unassignedProjectCount: number }> {
+  const region = await findRegionOrThrow({
+    organizationId: input.organizationId,
+    regionId: input.regionId,
+  });
+
+  await prisma.$transaction(async (tx) => {
+    const projects = await tx.project.findMany({
+      where: { regionId: region.id },
+      select: { id: true },
+    });
+
+    await tx.region.delete({
+      where: { id: region.id },
+    });
+
+    const recalculatedEstimateCount = await recalculateDraftEstimatesForProjects(tx, {
+      id: { in: projects.map((project) => project.id) },
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Region",
+        entityId: region.id,
+        action: "REGION_DELETED",
+        beforeState: {
+          ...toRegionAuditState(region),
+          projectCount: region._count.projects,
+        },
+        afterState: {
+          recalculatedEstimateCount,
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+  });
+
+  return {
+    deletedRegionId: region.id,
+    unassignedProjectCount: region._count.projects,
+  };
+}
@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Prisma } from "@prisma/client";
+import { findStaleRepricingChanges, planEstimateRepricing } from "./repricing.service";
+
+type RepricingEstimate = Parameters<typeof planEstimateRepricing>[0];
+type RepricingLineItem = RepricingEstimate["lineItems"][number];
+
+function decimal(value: number | string): Prisma.Decimal {
+  return new Prisma.Decimal(value);
+}
+
+function lineItem(
+  id: string,
+  values: {
+    priceReferenceKey: string | null;
+    quantity: number;
+    unitMaterialCost: number;
+    unitLaborCost?: number;
+    locked?: boolean;
+  },
+): RepricingLineItem {
+  const unitLaborCost = values.unitLaborCost ?? 0;
+
+  return {
+    id,
+    category: "GENERAL",
+    description: id,
+    quantity: decimal(values.quantity),
+    unit: "pc",
+    unitMaterialCost: decimal(values.unitMaterialCost),
+    unitLaborCost: decimal(unitLaborCost),
+    totalCost: decimal(values.quantity * (values.unitMaterialCost + unitLaborCost)),
+    markupRate: null,
+    vatExempt: false,
+    locked: values.locked ?? false,
+    priceReferenceKey: values.priceReferenceKey,
+  };
+}
+
+function estimate(lineItems: RepricingLineItem[]): RepricingEstimate {
+  return {
+    id: "estimate-1",
+    versionNumber: 2,
+    label: null,
+    markupRate: decimal(10),
+    markupComponents: [],
+    categoryMarkupRates: {},
+    vatRate: decimal(12),
+    subtotal: decimal(3250),
+    regionalAdjustment: decimal(0),
+    markupAmount: decimal(325),
+    vatAmount: decimal(429),
+    totalAmount: decimal(4004),
+    project: {
+      id: "project-1",
+      name: "Warehouse",
+      region: null,
+    },
+    lineItems,
+  };
+}
+
+function priceList(
+  entries: Array<[string, number, number]>,
+): Map<string, { unitMaterialCost: Prisma.Decimal; unitLaborCost: Prisma.Decimal }> {
+  return new Map(
+    entries.map(([key, unitMaterialCost, unitLaborCost]) => [
+      key,
+      { unitMaterialCost: decimal(unitMaterialCost), unitLaborCost: decimal(unitLaborCost) },
+    ]),
+  );
+}
+
+test("planEstimateRepricing diffs changed prices and recalculates the estimate totals", () => {
+  const unmatchedKeys = new Set<string>();
+  const plan = planEstimateRepricing(
+    estimate([
+      lineItem("cement", { priceReferenceKey: "CEMENT", quantity: 10, unitMaterialCost: 200 }),
+      lineItem("paint", { priceReferenceKey: "PAINT", quantity: 1, unitMaterialCost: 300 }),
+      lineItem("labor", {
+        priceReferenceKey: null,
+        quantity: 1,
+        unitMaterialCost: 0,
+        unitLaborCost: 500,
+      }),
+    ]),
+    priceList([
+      ["CEMENT", 250, 0],
+      ["PAINT", 300, 0],
+    ]),
+    unmatchedKeys,
+  );
+
+  assert.ok(plan);
+  assert.deepEqual(
+    plan.lineItems.map((change) => [
+      change.lineItemId,
+      change.before.totalCost.toFixed(2),
+      change.after.unitMaterialCost.toFixed(2),
+      change.after.totalCost.toFixed(2),
+    ]),
+    [["cement", "2000.00", "250.00", "2500.00"]],
+  );
+  assert.equal(plan.before.totalAmount.toFixed(2), "4004.00");
+  assert.equal(plan.after.subtotal.toFixed(2), "3300.00");
+  assert.equal(plan.after.markupAmount.toFixed(2), "330.00");
+  assert.equal(plan.after.totalAmount.toFixed(2), "4065.60");
+  assert.equal(unmatchedKeys.size, 0);
+});
+
+test("planEstimateRepricing leaves locked line items alone and collects unmatched keys", () => {
+  const unmatchedKeys = new Set<string>();
+  const plan = planEstimateRepricing(
+    estimate([
+      lineItem("rebar", {
+        priceReferenceKey: "REBAR",
+        quantity: 5,
+        unitMaterialCost: 50,
+        locked: true,
+      }),
+      lineItem("sand", { priceReferenceKey: "SAND", quantity: 2, unitMaterialCost: 100 }),
+    ]),
+    priceList([["REBAR", 60, 0]]),
+    unmatchedKeys,
+  );
+
+  assert.equal(plan, null);
+  assert.deepEqual(Array.from(unmatchedKeys), ["SAND"]);
+});
+
+test("planEstimateRepricing keeps locked costs in the recalculated totals", () => {
+  const plan = planEstimateRepricing(
+    estimate([
+      lineItem("rebar", {
+        priceReferenceKey: "REBAR",
+        quantity: 5,
+        unitMaterialCost: 50,
+        locked: true,
+      }),
+      lineItem("cement", { priceReferenceKey: "CEMENT", quantity: 10, unitMaterialCost: 200 }),
+    ]),
+    priceList([
+      ["REBAR", 60, 0],
+      ["CEMENT", 250, 0],
+    ]),
+    new Set<string>(),
+  );
+
+  assert.ok(plan);
+  assert.deepEqual(
+    plan.lineItems.map((change) => change.lineItemId),
+    ["cement"],
+  );
+  assert.equal(plan.after.subtotal.toFixed(2), "2750.00");
+});
+
+test("findStaleRepricingChanges accepts a preview that still matches", () => {
+  const plan = planEstimateRepricing(
+    estimate([
+      lineItem("cement", { priceReferenceKey: "CEMENT", quantity: 10, unitMaterialCost: 200 }),
+    ]),
+    priceList([["CEMENT", 250, 0]]),
+    new Set<string>(),
+  );
+
+  assert.ok(plan);
+  assert.deepEqual(
+    findStaleRepricingChanges(
+      [plan],
+      [{ lineItemId: "cement", unitMaterialCost: 250, unitLaborCost: 0, totalCost: 2500 }],
+    ),
+    [],
+  );
+});
+
+test("findStaleRepricingChanges reports changed, new and dropped line items", () => {
+  const plan = planEstimateRepricing(
+    estimate([
+      lineItem("cement", { priceReferenceKey: "CEMENT", quantity: 10, unitMaterialCost: 200 }),
+      lineItem("gravel", { priceReferenceKey: "GRAVEL", quantity: 4, unitMaterialCost: 80 }),
+    ]),
+    priceList([
+      ["CEMENT", 260, 0],
+      ["GRAVEL", 90, 0],
+    ]),
+    new Set<string>(),
+  );
+
+  assert.ok(plan);
+  assert.deepEqual(
+    findStaleRepricingChanges(
+      [plan],
+      [
+        { lineItemId: "cement", unitMaterialCost: 250, unitLaborCost: 0, totalCost: 2500 },
+        { lineItemId: "sand", unitMaterialCost: 120, unitLaborCost: 0, totalCost: 240 },
+      ],
+    ).sort(),
+    ["cement", "gravel", "sand"],
+  );
+});
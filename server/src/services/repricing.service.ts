@@ -0,0 +1,496 @@
+import { EstimateStatus, Prisma } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { logAudit } from "./audit.service";
+import {
+  calculateTotals,
+  parseCategoryMarkupRates,
+  parseMarkupComponents,
+  regionalFactorsSelect,
+} from "./estimate.service";
+import { recalculateEstimateTotals } from "./line-item.service";
+
+type RepricingSource = "CATALOG" | "PRICE_LIST";
+
+type RepricingPrice = {
+  priceReferenceKey: string;
+  unitMaterialCost: number;
+  unitLaborCost: number;
+};
+
+type RepriceEstimatesInput = {
+  organizationId: string;
+  source: RepricingSource;
+  prices?: RepricingPrice[];
+  estimateIds?: string[];
+};
+
+type ExpectedRepricingChange = {
+  lineItemId: string;
+  unitMaterialCost: number;
+  unitLaborCost: number;
+  totalCost: number;
+};
+
+type ApplyRepricingInput = RepriceEstimatesInput & {
+  expectedChanges: ExpectedRepricingChange[];
+  performedBy: string;
+};
+
+type RepricingCosts = {
+  unitMaterialCost: Prisma.Decimal;
+  unitLaborCost: Prisma.Decimal;
+};
+
+type EstimateTotalsSnapshot = {
+  subtotal: Prisma.Decimal;
+  regionalAdjustment: Prisma.Decimal;
+  markupAmount: Prisma.Decimal;
+  vatAmount: Prisma.Decimal;
+  totalAmount: Prisma.Decimal;
+};
+
+export type RepricingLineItemDiff = {
+  lineItemId: string;
+  description: string;
+  priceReferenceKey: string;
+  quantity: Prisma.Decimal;
+  unit: string;
+  before: RepricingCosts & { totalCost: Prisma.Decimal };
+  after: RepricingCosts & { totalCost: Prisma.Decimal };
+};
+
+export type RepricingEstimateDiff = {
+  estimateId: string;
+  versionNumber: number;
+  label: string | null;
+  project: {
+    id: string;
+    name: string;
+  };
+  lineItems: RepricingLineItemDiff[];
+  before: EstimateTotalsSnapshot;
+  after: EstimateTotalsSnapshot;
+};
+
+export type RepricingResult = {
+  source: RepricingSource;
+  estimates: RepricingEstimateDiff[];
+  unmatchedKeys: string[];
+};
+
+const repricingEstimateSelect = {
+  id: true,
+  versionNumber: true,
+  label: true,
+  markupRate: true,
+  markupComponents: true,
+  categoryMarkupRates: true,
+  vatRate: true,
+  subtotal: true,
+  regionalAdjustment: true,
+  markupAmount: true,
+  vatAmount: true,
+  totalAmount: true,
+  project: {
+    select: {
+      id: true,
+      name: true,
+      region: {
+        select: regionalFactorsSelect,
+      },
+    },
+  },
+  lineItems: {
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      category: true,
+      description: true,
+      quantity: true,
+      unit: true,
+      unitMaterialCost: true,
+      unitLaborCost: true,
+      totalCost: true,
+      markupRate: true,
+      vatExempt: true,
+      locked: true,
+      priceReferenceKey: true,
+    },
+  },
+} satisfies Prisma.EstimateSelect;
+
+type RepricingEstimate = Prisma.EstimateGetPayload<{ select: typeof repricingEstimateSelect }>;
+
+type RepricingPlan = RepricingEstimateDiff & {
+  markupRate: Prisma.Decimal;
+  vatRate: Prisma.Decimal;
+};
+
+async function assertRepricableEstimates(
+  client: Prisma.TransactionClient,
+  organizationId: string,
+  estimateIds: string[],
+): Promise<void> {
+  const estimates = await client.estimate.findMany({
+    where: {
+      id: { in: estimateIds },
+      deletedAt: null,
+      project: {
+        organizationId,
+      },
+    },
+    select: {
+      id: true,
+      status: true,
+    },
+  });
+
+  const foundIds = new Set(estimates.map((estimate) => estimate.id));
+  const missingId = estimateIds.find((estimateId) => !foundIds.has(estimateId));
+  if (missingId) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", `Estimate ${missingId} not found`);
+  }
+
+  const lockedEstimate = estimates.find((estimate) => estimate.status !== EstimateStatus.DRAFT);
+  if (lockedEstimate) {
+    throw new AppError(
+      409,
+      "ESTIMATE_NOT_EDITABLE",
+      `Estimate ${lockedEstimate.id} is not a draft and cannot be repriced`,
+    );
+  }
+}
+
+async function loadPriceList(
+  client: Prisma.TransactionClient,
+  input: RepriceEstimatesInput,
+  priceReferenceKeys: string[],
+): Promise<Map<string, RepricingCosts>> {
+  if (input.source === "PRICE_LIST") {
+    return new Map(
+      (input.prices ?? []).map((price) => [
+        price.priceReferenceKey,
+        {
+          unitMaterialCost: new Prisma.Decimal(price.unitMaterialCost),
+          unitLaborCost: new Prisma.Decimal(price.unitLaborCost),
+        },
+      ]),
+    );
+  }
+
+  const catalogItems = await client.priceCatalogItem.findMany({
+    where: {
+      organizationId: input.organizationId,
+      itemCode: { in: priceReferenceKeys },
+    },
+    select: {
+      itemCode: true,
+      unitMaterialCost: true,
+      unitLaborCost: true,
+    },
+  });
+
+  return new Map(
+    catalogItems.map((catalogItem) => [
+      catalogItem.itemCode,
+      {
+        unitMaterialCost: catalogItem.unitMaterialCost,
+        unitLaborCost: catalogItem.unitLaborCost,
+      },
+    ]),
+  );
+}
+
+/**
+ * Reprices one estimate against the price list. Locked line items and items without a price
+ * reference key keep their costs; keys missing from the price list are added to `unmatchedKeys`.
+ * Returns null when no line item would change.
+ */
+export function planEstimateRepricing(
+  estimate: RepricingEstimate,
+  priceList: Map<string, RepricingCosts>,
+  unmatchedKeys: Set<string>,
+): RepricingPlan | null {
+  const repricedCosts = new Map<string, RepricingCosts>();
+
+  for (const lineItem of estimate.lineItems) {
+    if (!lineItem.priceReferenceKey || lineItem.locked) {
+      continue;
+    }
+
+    const price = priceList.get(lineItem.priceReferenceKey);
+    if (!price) {
+      unmatchedKeys.add(lineItem.priceReferenceKey);
+      continue;
+    }
+
+    if (
+      !price.unitMaterialCost.equals(lineItem.unitMaterialCost) ||
+      !price.unitLaborCost.equals(lineItem.unitLaborCost)
+    ) {
+      repricedCosts.set(lineItem.id, price);
+    }
+  }
+
+  if (repricedCosts.size === 0) {
+    return null;
+  }
+
+  const totals = calculateTotals({
+    lineItems: estimate.lineItems.map((lineItem) => ({
+      ...lineItem,
+      ...(repricedCosts.get(lineItem.id) ?? {}),
+    })),
+    markupRate: estimate.markupRate,
+    markupComponents: parseMarkupComponents(estimate.markupComponents),
+    categoryMarkupRates: parseCategoryMarkupRates(estimate.categoryMarkupRates),
+    vatRate: estimate.vatRate,
+    regionalFactors: estimate.project.region,
+  });
+
+  const lineItems: RepricingLineItemDiff[] = [];
+  for (const lineItem of estimate.lineItems) {
+    const price = repricedCosts.get(lineItem.id);
+    if (!price || !lineItem.priceReferenceKey) {
+      continue;
+    }
+
+    lineItems.push({
+      lineItemId: lineItem.id,
+      description: lineItem.description,
+      priceReferenceKey: lineItem.priceReferenceKey,
+      quantity: lineItem.quantity,
+      unit: lineItem.unit,
+      before: {
+        unitMaterialCost: lineItem.unitMaterialCost,
+        unitLaborCost: lineItem.unitLaborCost,
+        totalCost: lineItem.totalCost,
+      },
+      after: {
+        unitMaterialCost: price.unitMaterialCost,
+        unitLaborCost: price.unitLaborCost,
+        totalCost: totals.lineItemTotals[lineItem.id] ?? lineItem.totalCost,
+      },
+    });
+  }
+
+  return {
+    estimateId: estimate.id,
+    versionNumber: estimate.versionNumber,
+    label: estimate.label,
+    project: {
+      id: estimate.project.id,
+      name: estimate.project.name,
+    },
+    markupRate: estimate.markupRate,
+    vatRate: estimate.vatRate,
+    lineItems,
+    before: {
+      subtotal: estimate.subtotal,
+      regionalAdjustment: estimate.regionalAdjustment,
+      markupAmount: estimate.markupAmount,
+      vatAmount: estimate.vatAmount,
+      totalAmount: estimate.totalAmount,
+    },
+    after: {
+      subtotal: totals.subtotal,
+      regionalAdjustment: totals.regionalAdjustment,
+      markupAmount: totals.markupAmount,
+      vatAmount: totals.vatAmount,
+      totalAmount: totals.totalAmount,
+    },
+  };
+}
+
+async function buildRepricingPlans(
+  client: Prisma.TransactionClient,
+  input: RepriceEstimatesInput,
+): Promise<{ plans: RepricingPlan[]; unmatchedKeys: string[] }> {
+  if (input.estimateIds) {
+    await assertRepricableEstimates(client, input.organizationId, input.estimateIds);
+  }
+
+  const estimates = await client.estimate.findMany({
+    where: {
+      ...(input.estimateIds ? { id: { in: input.estimateIds } } : {}),
+      status: EstimateStatus.DRAFT,
+      deletedAt: null,
+      project: {
+        organizationId: input.organizationId,
+      },
+      lineItems: {
+        some: {
+          priceReferenceKey: { not: null },
+        },
+      },
+    },
+    orderBy: [{ project: { name: "asc" } }, { versionNumber: "asc" }],
+    select: repricingEstimateSelect,
+  });
+
+  const priceReferenceKeys = new Set<string>();
+  for (const estimate of estimates) {
+    for (const lineItem of estimate.lineItems) {
+      if (lineItem.priceReferenceKey) {
+        priceReferenceKeys.add(lineItem.priceReferenceKey);
+      }
+    }
+  }
+
+  const priceList = await loadPriceList(client, input, Array.from(priceReferenceKeys));
+  const unmatchedKeys = new Set<string>();
+  const plans: RepricingPlan[] = [];
+
+  for (const estimate of estimates) {
+    const plan = planEstimateRepricing(estimate, priceList, unmatchedKeys);
+    if (plan) {
+      plans.push(plan);
+    }
+  }
+
+  return {
+    plans,
+    unmatchedKeys: Array.from(unmatchedKeys).sort(),
+  };
+}
+
+function toEstimateDiff(plan: RepricingPlan): RepricingEstimateDiff {
+  return {
+    estimateId: plan.estimateId,
+    versionNumber: plan.versionNumber,
+    label: plan.label,
+    project: plan.project,
+    lineItems: plan.lineItems,
+    before: plan.before,
+    after: plan.after,
+  };
+}
+
+/**
+ * Lists the line items whose rebuilt change differs from the one the user previewed: changes that
+ * are new, no longer apply, or would now write different costs.
+ */
+export function findStaleRepricingChanges(
+  plans: Array<Pick<RepricingEstimateDiff, "lineItems">>,
+  expectedChanges: ExpectedRepricingChange[],
+): string[] {
+  const expected = new Map(expectedChanges.map((change) => [change.lineItemId, change]));
+  const staleLineItemIds = new Set<string>();
+
+  for (const plan of plans) {
+    for (const lineItem of plan.lineItems) {
+      const change = expected.get(lineItem.lineItemId);
+      expected.delete(lineItem.lineItemId);
+
+      if (
+        !change ||
+        !lineItem.after.unitMaterialCost.equals(change.unitMaterialCost) ||
+        !lineItem.after.unitLaborCost.equals(change.unitLaborCost) ||
+        !lineItem.after.totalCost.equals(change.totalCost)
+      ) {
+        staleLineItemIds.add(lineItem.lineItemId);
+      }
+    }
+  }
+
+  for (const lineItemId of expected.keys()) {
+    staleLineItemIds.add(lineItemId);
+  }
+
+  return Array.from(staleLineItemIds);
+}
+
+/**
+ * Computes the per-estimate before/after diff of repricing draft estimates without writing anything.
+ */
+export async function previewRepricing(input: RepriceEstimatesInput): Promise<RepricingResult> {
+  const { plans, unmatchedKeys } = await buildRepricingPlans(prisma, input);
+
+  return {
+    source: input.source,
+    estimates: plans.map(toEstimateDiff),
+    unmatchedKeys,
+  };
+}
+
+/**
+ * Reprices matching line items and recalculates estimate totals in one transaction. The plan is
+ * rebuilt inside the transaction and must match the previewed changes, so nothing is written that
+ * the user has not seen.
+ */
+export async function applyRepricing(input: ApplyRepricingInput): Promise<RepricingResult> {
+  return prisma.$transaction(async (tx) => {
+    const { plans, unmatchedKeys } = await buildRepricingPlans(tx, input);
+
+    const staleLineItemIds = findStaleRepricingChanges(plans, input.expectedChanges);
+    if (staleLineItemIds.length > 0) {
+      throw new AppError(
+        409,
+        "REPRICING_PREVIEW_STALE",
+        "Estimates or prices changed since the preview. Preview the repricing again before applying it.",
+        { lineItemIds: staleLineItemIds },
+      );
+    }
+
+    const estimates: RepricingEstimateDiff[] = [];
+    for (const plan of plans) {
+      for (const lineItem of plan.lineItems) {
+        await tx.lineItem.update({
+          where: { id: lineItem.lineItemId },
+          data: {
+            unitMaterialCost: lineItem.after.unitMaterialCost,
+            unitLaborCost: lineItem.after.unitLaborCost,
+          },
+        });
+
+        await logAudit(
+          {
+            organizationId: input.organizationId,
+            entityType: "LineItem",
+            entityId: lineItem.lineItemId,
+            action: "LINE_ITEM_REPRICED",
+            beforeState: {
+              unitMaterialCost: lineItem.before.unitMaterialCost.toString(),
+              unitLaborCost: lineItem.before.unitLaborCost.toString(),
+              totalCost: lineItem.before.totalCost.toString(),
+            },
+            afterState: {
+              unitMaterialCost: lineItem.after.unitMaterialCost.toString(),
+              unitLaborCost: lineItem.after.unitLaborCost.toString(),
+              totalCost: lineItem.after.totalCost.toString(),
+              priceReferenceKey: lineItem.priceReferenceKey,
+              source: input.source,
+            },
+            performedBy: input.performedBy,
+          },
+          tx,
+        );
+      }
+
+      const updatedEstimate = await recalculateEstimateTotals(
+        tx,
+        plan.estimateId,
+        plan.markupRate,
+        plan.vatRate,
+      );
+
+      estimates.push({
+        ...toEstimateDiff(plan),
+        after: {
+          subtotal: updatedEstimate.subtotal,
+          regionalAdjustment: updatedEstimate.regionalAdjustment,
+          markupAmount: updatedEstimate.markupAmount,
+          vatAmount: updatedEstimate.vatAmount,
+          totalAmount: updatedEstimate.totalAmount,
+        },
+      });
+    }
+
+    return {
+      source: input.source,
+      estimates,
+      unmatchedKeys,
+    };
+  });
+}
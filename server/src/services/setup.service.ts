@@ -3,6 +3,7 @@ import bcrypt from "bcrypt";
 import { UserRole, UserStatus } from "@prisma/client";
 import { AppError } from "../errors/app-error";
 import { login, type AuthResponse } from "./auth.service";
+import { seedDefaultCategoriesForOrganization } from "./category.service";
 import { seedMvpFormulasForOrganization } from "./formula-seed.service";
 import type { SetupInput } from "../schemas/setup.schemas";
 
@@ -56,6 +57,14 @@ export async function completeSetup(input: SetupInput): Promise<AuthResponse> {
       },
     });
 
+    await seedDefaultCategoriesForOrganization(
+      {
+        organizationId: organization.id,
+        createdBy: adminUser.id,
+      },
+      tx,
+    );
+
     await seedMvpFormulasForOrganization(
       {
         organizationId: organization.id,
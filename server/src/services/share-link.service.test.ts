@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { EstimateStatus } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import {
+  assertShareLinkAwaitingResponse,
+  getUsableShareLinkOrThrow,
+  isShareLinkActive,
+  toShareLinkSummary,
+} from "./share-link.service";
+
+type ShareLinkRow = Parameters<typeof toShareLinkSummary>[0];
+
+const now = new Date("2026-10-19T08:00:00.000Z");
+const nextWeek = new Date("2026-10-26T08:00:00.000Z");
+
+function shareLink(overrides: Partial<ShareLinkRow> = {}): ShareLinkRow {
+  return {
+    id: "link-1",
+    expiresAt: nextWeek,
+    revokedAt: null,
+    viewCount: 0,
+    lastViewedAt: null,
+    decision: null,
+    respondentName: null,
+    responseComment: null,
+    respondedAt: null,
+    options: {},
+    createdAt: now,
+    createdByUser: { id: "user-1", name: "Estimator" },
+    ...overrides,
+  };
+}
+
+function sharedLink(
+  overrides: {
+    revokedAt?: Date | null;
+    expiresAt?: Date;
+    deletedAt?: Date | null;
+    status?: EstimateStatus;
+  } = {},
+) {
+  return {
+    revokedAt: overrides.revokedAt ?? null,
+    expiresAt: overrides.expiresAt ?? nextWeek,
+    estimate: {
+      deletedAt: overrides.deletedAt ?? null,
+      status: overrides.status ?? EstimateStatus.FINAL,
+    },
+  };
+}
+
+function isLinkNotFound(error: unknown): boolean {
+  return (
+    error instanceof AppError && error.statusCode === 404 && error.code === "SHARE_LINK_NOT_FOUND"
+  );
+}
+
+test("isShareLinkActive stops at the expiry time and on revocation", () => {
+  assert.equal(isShareLinkActive({ revokedAt: null, expiresAt: nextWeek }, now), true);
+  assert.equal(isShareLinkActive({ revokedAt: null, expiresAt: now }, now), false);
+  assert.equal(isShareLinkActive({ revokedAt: now, expiresAt: nextWeek }, now), false);
+});
+
+test("toShareLinkSummary reports revoked links as inactive", () => {
+  assert.equal(toShareLinkSummary(shareLink(), now).isActive, true);
+  assert.equal(toShareLinkSummary(shareLink({ revokedAt: now }), now).isActive, false);
+  assert.equal(toShareLinkSummary(shareLink(), nextWeek).isActive, false);
+});
+
+test("toShareLinkSummary only includes a response once one is recorded", () => {
+  assert.equal(toShareLinkSummary(shareLink(), now).response, null);
+
+  const summary = toShareLinkSummary(
+    shareLink({
+      decision: "ACCEPTED",
+      respondentName: "Client",
+      responseComment: "Go ahead",
+      respondedAt: now,
+    }),
+    now,
+  );
+  assert.deepEqual(summary.response, {
+    decision: "ACCEPTED",
+    respondentName: "Client",
+    comment: "Go ahead",
+    respondedAt: now,
+  });
+});
+
+test("getUsableShareLinkOrThrow returns links that are active on a final estimate", () => {
+  const link = sharedLink();
+
+  assert.equal(getUsableShareLinkOrThrow(link, now), link);
+});
+
+test("getUsableShareLinkOrThrow fails unknown, expired, revoked and unshareable links alike", () => {
+  const unusable = [
+    null,
+    sharedLink({ expiresAt: now }),
+    sharedLink({ revokedAt: now }),
+    sharedLink({ deletedAt: now }),
+    sharedLink({ status: EstimateStatus.DRAFT }),
+  ];
+
+  for (const link of unusable) {
+    assert.throws(() => getUsableShareLinkOrThrow(link, now), isLinkNotFound);
+  }
+});
+
+test("assertShareLinkAwaitingResponse accepts only the first response", () => {
+  assert.doesNotThrow(() => assertShareLinkAwaitingResponse({ decision: null }));
+  assert.throws(
+    () => assertShareLinkAwaitingResponse({ decision: "DECLINED" }),
+    (error: unknown) =>
+      error instanceof AppError &&
+      error.statusCode === 409 &&
+      error.code === "SHARE_LINK_ALREADY_RESPONDED",
+  );
+});
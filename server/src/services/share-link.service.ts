@@ -0,0 +1,497 @@
+import crypto from "crypto";
+import { EstimateStatus, type EstimateClientDecision, type Prisma } from "@prisma/client";
+import { AppError } from "../errors/app-error";
+import { prisma } from "../prisma/client";
+import { pdfOptionsSchema, type PdfOptionsInput } from "../schemas/pdf.schemas";
+import { getFrontendBaseUrl } from "../utils/frontend-url";
+import { hashToken } from "../utils/tokens";
+import { logAudit } from "./audit.service";
+import { renderQuotationPreviewHtml } from "./pdf.service";
+
+type CreateShareLinkInput = {
+  organizationId: string;
+  estimateId: string;
+  expiresInDays: number;
+  options?: PdfOptionsInput;
+  performedBy: string;
+};
+
+type GetShareLinksInput = {
+  organizationId: string;
+  estimateId: string;
+};
+
+type RevokeShareLinkInput = {
+  organizationId: string;
+  estimateId: string;
+  linkId: string;
+  performedBy: string;
+};
+
+type ViewSharedEstimateInput = {
+  token: string;
+};
+
+type RespondToSharedEstimateInput = {
+  token: string;
+  decision: EstimateClientDecision;
+  name: string;
+  comment: string;
+};
+
+export type ShareLinkResponse = {
+  decision: EstimateClientDecision;
+  respondentName: string | null;
+  comment: string | null;
+  respondedAt: Date;
+};
+
+export type ShareLinkSummary = {
+  id: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  isActive: boolean;
+  viewCount: number;
+  lastViewedAt: Date | null;
+  response: ShareLinkResponse | null;
+  options: Prisma.JsonValue;
+  createdAt: Date;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+};
+
+export type CreatedShareLink = ShareLinkSummary & {
+  /** Only returned when the link is created; the server keeps a hash of the token. */
+  url: string;
+};
+
+export type SharedEstimateView = {
+  organizationName: string;
+  projectName: string;
+  clientName: string | null;
+  versionNumber: number;
+  label: string | null;
+  totalAmount: Prisma.Decimal;
+  expiresAt: Date;
+  response: ShareLinkResponse | null;
+  html: string;
+};
+
+const SHARE_TOKEN_BYTES = 32;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shareLinkSelect = {
+  id: true,
+  expiresAt: true,
+  revokedAt: true,
+  viewCount: true,
+  lastViewedAt: true,
+  decision: true,
+  respondentName: true,
+  responseComment: true,
+  respondedAt: true,
+  options: true,
+  createdAt: true,
+  createdByUser: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.EstimateShareLinkSelect;
+
+type ShareLinkSelectedShape = Prisma.EstimateShareLinkGetPayload<{
+  select: typeof shareLinkSelect;
+}>;
+
+const sharedLinkSelect = {
+  id: true,
+  organizationId: true,
+  estimateId: true,
+  options: true,
+  expiresAt: true,
+  revokedAt: true,
+  decision: true,
+  respondentName: true,
+  responseComment: true,
+  respondedAt: true,
+  createdBy: true,
+  estimate: {
+    select: {
+      status: true,
+      deletedAt: true,
+      versionNumber: true,
+      label: true,
+      totalAmount: true,
+      clientDecision: true,
+      project: {
+        select: {
+          name: true,
+          organization: {
+            select: {
+              name: true,
+            },
+          },
+          client: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.EstimateShareLinkSelect;
+
+type SharedLinkSelectedShape = Prisma.EstimateShareLinkGetPayload<{
+  select: typeof sharedLinkSelect;
+}>;
+
+function buildShareLinkUrl(token: string): string {
+  return `${getFrontendBaseUrl()}/quote?token=${encodeURIComponent(token)}`;
+}
+
+function toShareLinkResponse(link: {
+  decision: EstimateClientDecision | null;
+  respondentName: string | null;
+  responseComment: string | null;
+  respondedAt: Date | null;
+}): ShareLinkResponse | null {
+  if (!link.decision || !link.respondedAt) {
+    return null;
+  }
+
+  return {
+    decision: link.decision,
+    respondentName: link.respondentName,
+    comment: link.responseComment,
+    respondedAt: link.respondedAt,
+  };
+}
+
+/** A link opens the quotation until it is revoked or reaches its expiry time. */
+export function isShareLinkActive(
+  link: { revokedAt: Date | null; expiresAt: Date },
+  now: Date,
+): boolean {
+  return link.revokedAt === null && link.expiresAt > now;
+}
+
+export function toShareLinkSummary(link: ShareLinkSelectedShape, now: Date): ShareLinkSummary {
+  return {
+    id: link.id,
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    isActive: isShareLinkActive(link, now),
+    viewCount: link.viewCount,
+    lastViewedAt: link.lastViewedAt,
+    response: toShareLinkResponse(link),
+    options: link.options,
+    createdAt: link.createdAt,
+    createdBy: link.createdByUser,
+  };
+}
+
+async function getEstimateInOrganizationOrThrow(input: {
+  organizationId: string;
+  estimateId: string;
+}): Promise<{ id: string; status: EstimateStatus }> {
+  const estimate = await prisma.estimate.findFirst({
+    where: {
+      id: input.estimateId,
+      deletedAt: null,
+      project: {
+        organizationId: input.organizationId,
+      },
+    },
+    select: {
+      id: true,
+      status: true,
+    },
+  });
+
+  if (!estimate) {
+    throw new AppError(404, "ESTIMATE_NOT_FOUND", "Estimate not found");
+  }
+
+  return estimate;
+}
+
+/**
+ * Unknown, expired and revoked tokens, and links whose estimate is no longer final, all fail the
+ * same way so a token's state is not revealed.
+ */
+export function getUsableShareLinkOrThrow<
+  T extends {
+    revokedAt: Date | null;
+    expiresAt: Date;
+    estimate: { deletedAt: Date | null; status: EstimateStatus };
+  },
+>(link: T | null, now: Date): T {
+  if (
+    !link ||
+    !isShareLinkActive(link, now) ||
+    link.estimate.deletedAt !== null ||
+    link.estimate.status !== EstimateStatus.FINAL
+  ) {
+    throw new AppError(404, "SHARE_LINK_NOT_FOUND", "This link is invalid or has expired");
+  }
+
+  return link;
+}
+
+/** Each link takes a single response; the client cannot change it through the same link. */
+export function assertShareLinkAwaitingResponse(link: {
+  decision: EstimateClientDecision | null;
+}): void {
+  if (link.decision) {
+    throw new AppError(
+      409,
+      "SHARE_LINK_ALREADY_RESPONDED",
+      "A response has already been recorded for this link",
+    );
+  }
+}
+
+async function getActiveLinkByTokenOrThrow(token: string): Promise<SharedLinkSelectedShape> {
+  const link = await prisma.estimateShareLink.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: sharedLinkSelect,
+  });
+
+  return getUsableShareLinkOrThrow(link, new Date());
+}
+
+export async function getShareLinks(
+  input: GetShareLinksInput,
+): Promise<{ items: ShareLinkSummary[] }> {
+  const estimate = await getEstimateInOrganizationOrThrow(input);
+
+  const links = await prisma.estimateShareLink.findMany({
+    where: {
+      organizationId: input.organizationId,
+      estimateId: estimate.id,
+    },
+    orderBy: { createdAt: "desc" },
+    select: shareLinkSelect,
+  });
+
+  const now = new Date();
+  return { items: links.map((link) => toShareLinkSummary(link, now)) };
+}
+
+export async function createShareLink(input: CreateShareLinkInput): Promise<CreatedShareLink> {
+  const estimate = await getEstimateInOrganizationOrThrow(input);
+
+  if (estimate.status !== EstimateStatus.FINAL) {
+    throw new AppError(409, "ESTIMATE_NOT_FINAL", "Only final estimates can be shared");
+  }
+
+  const rawToken = crypto.randomBytes(SHARE_TOKEN_BYTES).toString("hex");
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + input.expiresInDays * DAY_MS);
+  const url = buildShareLinkUrl(rawToken);
+
+  const link = await prisma.$transaction(async (tx) => {
+    const created = await tx.estimateShareLink.create({
+      data: {
+        organizationId: input.organizationId,
+        estimateId: estimate.id,
+        tokenHash: hashToken(rawToken),
+        options: input.options ?? {},
+        expiresAt,
+        createdBy: input.performedBy,
+      },
+      select: shareLinkSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "ESTIMATE_SHARE_LINK_CREATED",
+        beforeState: {},
+        afterState: {
+          shareLinkId: created.id,
+          expiresAt: expiresAt.toISOString(),
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return created;
+  });
+
+  return {
+    ...toShareLinkSummary(link, now),
+    url,
+  };
+}
+
+export async function revokeShareLink(input: RevokeShareLinkInput): Promise<ShareLinkSummary> {
+  const estimate = await getEstimateInOrganizationOrThrow(input);
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.estimateShareLink.findFirst({
+      where: {
+        id: input.linkId,
+        organizationId: input.organizationId,
+        estimateId: estimate.id,
+      },
+      select: shareLinkSelect,
+    });
+
+    if (!existing) {
+      throw new AppError(404, "SHARE_LINK_NOT_FOUND", "Share link not found");
+    }
+
+    const now = new Date();
+    if (existing.revokedAt) {
+      return toShareLinkSummary(existing, now);
+    }
+
+    const revoked = await tx.estimateShareLink.update({
+      where: { id: existing.id },
+      data: { revokedAt: now },
+      select: shareLinkSelect,
+    });
+
+    await logAudit(
+      {
+        organizationId: input.organizationId,
+        entityType: "Estimate",
+        entityId: estimate.id,
+        action: "ESTIMATE_SHARE_LINK_REVOKED",
+        beforeState: {
+          shareLinkId: existing.id,
+          revokedAt: null,
+        },
+        afterState: {
+          shareLinkId: existing.id,
+          revokedAt: now.toISOString(),
+        },
+        performedBy: input.performedBy,
+      },
+      tx,
+    );
+
+    return toShareLinkSummary(revoked, now);
+  });
+}
+
+/**
+ * Renders the estimate for a client holding a share link and counts the view.
+ */
+export async function viewSharedEstimate(
+  input: ViewSharedEstimateInput,
+): Promise<SharedEstimateView> {
+  const link = await getActiveLinkByTokenOrThrow(input.token);
+  const options = pdfOptionsSchema.safeParse(link.options);
+
+  const html = await renderQuotationPreviewHtml({
+    organizationId: link.organizationId,
+    estimateId: link.estimateId,
+    options: options.success ? options.data : undefined,
+  });
+
+  await prisma.estimateShareLink.update({
+    where: { id: link.id },
+    data: {
+      viewCount: { increment: 1 },
+      lastViewedAt: new Date(),
+    },
+  });
+
+  return {
+    organizationName: link.estimate.project.organization.name,
+    projectName: link.estimate.project.name,
+    clientName: link.estimate.project.client?.name ?? null,
+    versionNumber: link.estimate.versionNumber,
+    label: link.estimate.label,
+    totalAmount: link.estimate.totalAmount,
+    expiresAt: link.expiresAt,
+    response: toShareLinkResponse(link),
+    html,
+  };
+}
+
+/**
+ * Records a client's acceptance or change request. Each link takes one response, and the latest
+ * response across links becomes the estimate's client decision.
+ */
+export async function respondToSharedEstimate(
+  input: RespondToSharedEstimateInput,
+): Promise<ShareLinkResponse> {
+  const link = await getActiveLinkByTokenOrThrow(input.token);
+  assertShareLinkAwaitingResponse(link);
+
+  const now = new Date();
+  const comment = input.comment || null;
+
+  await prisma.$transaction(async (tx) => {
+    const recorded = await tx.estimateShareLink.updateMany({
+      where: {
+        id: link.id,
+        decision: null,
+      },
+      data: {
+        decision: input.decision,
+        respondentName: input.name,
+        responseComment: comment,
+        respondedAt: now,
+      },
+    });
+
+    if (recorded.count !== 1) {
+      throw new AppError(
+        409,
+        "SHARE_LINK_ALREADY_RESPONDED",
+        "A response has already been recorded for this link",
+      );
+    }
+
+    await tx.estimate.update({
+      where: { id: link.estimateId },
+      data: {
+        clientDecision: input.decision,
+        clientDecisionAt: now,
+      },
+    });
+
+    // Clients have no user account, so the entry is attributed to whoever shared the link and
+    // the respondent is named in the after state.
+    await logAudit(
+      {
+        organizationId: link.organizationId,
+        entityType: "Estimate",
+        entityId: link.estimateId,
+        action:
+          input.decision === "ACCEPTED"
+            ? "ESTIMATE_ACCEPTED_BY_CLIENT"
+            : "ESTIMATE_CHANGES_REQUESTED_BY_CLIENT",
+        beforeState: {
+          clientDecision: link.estimate.clientDecision,
+        },
+        afterState: {
+          clientDecision: input.decision,
+          shareLinkId: link.id,
+          respondentName: input.name,
+          comment,
+        },
+        performedBy: link.createdBy,
+      },
+      tx,
+    );
+  });
+
+  return {
+    decision: input.decision,
+    respondentName: input.name,
+    comment,
+    respondedAt: now,
+  };
+}
@@ -3,6 +3,8 @@ import crypto from "crypto";
 import { Prisma, UserStatus, type UserRole } from "@prisma/client";
 import { AppError } from "../errors/app-error";
 import { prisma } from "../prisma/client";
+import { getFrontendBaseUrl } from "../utils/frontend-url";
+import { hashToken } from "../utils/tokens";
 import { logAudit } from "./audit.service";
 import { sendUserInviteEmail } from "./email.service";
 
@@ -83,10 +85,6 @@ const INVITE_TOKEN_BYTES = 32;
 const INVITE_TOKEN_EXPIRY_MS = 24 * 60 * 60 * 1000;
 const MIN_BCRYPT_COST_FACTOR = 12;
 
-function hashToken(rawToken: string): string {
-  return crypto.createHash("sha256").update(rawToken).digest("hex");
-}
-
 function getBcryptCostFactor(): number {
   const parsed = Number.parseInt(process.env.BCRYPT_COST_FACTOR ?? `${MIN_BCRYPT_COST_FACTOR}`, 10);
   if (!Number.isFinite(parsed) || parsed < MIN_BCRYPT_COST_FACTOR) {
@@ -96,20 +94,6 @@ function getBcryptCostFactor(): number {
   return parsed;
 }
 
-function getFrontendBaseUrl(): string {
-  const configuredOrigin = (process.env.FRONTEND_URL ?? "")
-    .split(",")
-    .map((origin) => origin.trim())
-    .find((origin) => origin.length > 0);
-
-  if (!configuredOrigin) {
-    throw new AppError(500, "SERVER_MISCONFIGURED", "FRONTEND_URL is not configured");
-  }
-
-  return configuredOrigin.replace(/\/+$/, "");
-}
-
-
 function buildAcceptInviteLink(token: string): string {
   const baseUrl = getFrontendBaseUrl().replace(/\/+$/, "");
   return `${baseUrl}/accept-invite?token=${encodeURIComponent(token)}`;
@@ -321,6 +305,7 @@ export async function inviteUser(input: InviteUserInput): Promise<InviteUserResu
 
   try {
     await sendUserInviteEmail({
+      organizationId: input.organizationId,
       to: normalizedEmail,
       setupLink: inviteLink,
       role: input.role,
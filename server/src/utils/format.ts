@@ -0,0 +1,22 @@
+import { Prisma } from "@prisma/client";
+
+/** Escapes text for HTML bodies and attribute values in quotations and emails. */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Formats an amount as Philippine pesos, rounded half-up to centavos. */
+export function formatMoney(value: Prisma.Decimal): string {
+  const amount = Number(value.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP).toString());
+  return new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
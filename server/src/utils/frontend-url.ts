@@ -0,0 +1,18 @@
+import { AppError } from "../errors/app-error";
+
+/**
+ * Origin used in links sent to users. FRONTEND_URL may list several CORS origins; the first one
+ * is the public app.
+ */
+export function getFrontendBaseUrl(): string {
+  const configuredOrigin = (process.env.FRONTEND_URL ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .find((origin) => origin.length > 0);
+
+  if (!configuredOrigin) {
+    throw new AppError(500, "SERVER_MISCONFIGURED", "FRONTEND_URL is not configured");
+  }
+
+  return configuredOrigin.replace(/\/+$/, "");
+}
@@ -0,0 +1,6 @@
+import crypto from "crypto";
+
+/** Raw tokens are only ever handed to the user; the database keeps their SHA-256 digest. */
+export function hashToken(rawToken: string): string {
+  return crypto.createHash("sha256").update(rawToken).digest("hex");
+}